@@ -43,6 +43,7 @@ import {
 } from "lucide-react-native";
 import LoadingScreen from "@/components/LoadingScreen";
 import i18n from "@/src/i18n";
+import { FastingDaySummary, GoalDayType } from "@/src/types";
 
 const { width } = Dimensions.get("window");
 
@@ -66,6 +67,8 @@ interface DayData {
     created_at: string;
     description?: string;
   }>;
+  fasting?: FastingDaySummary;
+  day_type?: GoalDayType;
 }
 
 interface MonthStats {
@@ -157,6 +160,15 @@ export default function CalendarScreen() {
       save: "שמור",
       edit: "ערוך",
       delete: "מחק",
+      fasting: "צום",
+      fastsCompleted: "צומות שהושלמו",
+      longestFast: "הצום הארוך",
+      fastingDays: "ימי צום",
+      fastingStreak: "רצף צומות",
+      fastingViolations: "חריגות",
+      hours: "שעות",
+      trainingDay: "יום אימון",
+      refeedDay: "יום העמסה",
     },
     en: {
       title: "Goal Calendar",
@@ -210,6 +222,15 @@ export default function CalendarScreen() {
       save: "Save",
       edit: "Edit",
       delete: "Delete",
+      fasting: "Fasting",
+      fastsCompleted: "Fasts completed",
+      longestFast: "Longest fast",
+      fastingDays: "Fasting days",
+      fastingStreak: "Fasting streak",
+      fastingViolations: "Violations",
+      hours: "h",
+      trainingDay: "Training day",
+      refeedDay: "Refeed day",
     },
   };
 
@@ -544,6 +565,15 @@ export default function CalendarScreen() {
             <Text style={styles.eventCount}>{dayData.events.length}</Text>
           </View>
         )}
+        {dayData.fasting && (
+          <View style={styles.fastingIndicator}>
+            <Ionicons
+              name="moon"
+              size={8}
+              color={dayData.fasting.violations > 0 ? "#E74C3C" : "#16A085"}
+            />
+          </View>
+        )}
       </TouchableOpacity>
     );
   };
@@ -648,6 +678,14 @@ export default function CalendarScreen() {
               </View>
             </View>
 
+            {statistics.fastingDays > 0 && (
+              <Text style={styles.fastingSummary}>
+                🌙 {t.fastingDays}: {statistics.fastingDays} · {t.fastingStreak}
+                : {statistics.fastingStreak} · {t.fastingViolations}:{" "}
+                {statistics.fastingViolations}
+              </Text>
+            )}
+
             {statistics.weeklyInsights && (
               <TouchableOpacity
                 style={styles.insightsButton}
@@ -827,6 +865,14 @@ export default function CalendarScreen() {
                           : t.under}
                       </Text>
                     </View>
+                    {selectedDay.day_type &&
+                      selectedDay.day_type !== "REST" && (
+                        <Text style={styles.metricDayType}>
+                          {selectedDay.day_type === "TRAINING"
+                            ? t.trainingDay
+                            : t.refeedDay}
+                        </Text>
+                      )}
                   </View>
 
                   <View style={styles.metricCard}>
@@ -857,6 +903,30 @@ export default function CalendarScreen() {
                       {selectedDay.water_intake_ml} {t.ml}
                     </Text>
                   </View>
+
+                  {selectedDay.fasting && (
+                    <View style={styles.metricCard}>
+                      <View style={styles.metricHeader}>
+                        <Ionicons name="moon" size={16} color="#16A085" />
+                        <Text style={styles.metricTitle}>{t.fasting}</Text>
+                      </View>
+                      <Text style={styles.metricValue}>
+                        {t.fastsCompleted}: {selectedDay.fasting.completed}
+                      </Text>
+                      {selectedDay.fasting.completed > 0 && (
+                        <Text style={styles.metricPercentage}>
+                          {t.longestFast}: {selectedDay.fasting.longest_hours}{" "}
+                          {t.hours}
+                        </Text>
+                      )}
+                      {selectedDay.fasting.violations > 0 && (
+                        <Text style={styles.fastingViolationText}>
+                          {t.fastingViolations}:{" "}
+                          {selectedDay.fasting.violations}
+                        </Text>
+                      )}
+                    </View>
+                  )}
                 </View>
 
                 {selectedDay.events.length > 0 && (
@@ -1603,6 +1673,22 @@ const styles = StyleSheet.create({
     color: "#FFD700",
     marginLeft: 2,
   },
+  fastingIndicator: {
+    position: "absolute",
+    top: 2,
+    left: 2,
+  },
+  fastingSummary: {
+    fontSize: 14,
+    color: "#2C3E50",
+    textAlign: "center",
+    marginTop: 16,
+  },
+  fastingViolationText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#E74C3C",
+  },
   legendContainer: {
     flexDirection: "row",
     justifyContent: "space-around",
@@ -1692,6 +1778,12 @@ const styles = StyleSheet.create({
     fontWeight: "500",
     color: "#16A085",
   },
+  metricDayType: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#E67E22",
+    marginTop: 4,
+  },
   deviationContainer: {
     flexDirection: "row",
     alignItems: "center",
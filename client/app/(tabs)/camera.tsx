@@ -27,11 +27,14 @@ import {
   clearPendingMeal,
   clearError,
   processImage,
+  resumeMealAnalysis,
+  discardPendingMeal,
 } from "@/src/store/mealSlice";
 import { useTranslation } from "react-i18next";
 import { useLanguage } from "@/src/i18n/context/LanguageContext";
-import { router } from "expo-router";
+import { router, useLocalSearchParams } from "expo-router";
 import * as ImagePicker from "expo-image-picker";
+import * as Notifications from "expo-notifications";
 import {
   Camera,
   Image as ImageIcon,
@@ -64,6 +67,15 @@ import {
 import { useMealDataRefresh } from "@/hooks/useMealDataRefresh";
 import { useColorScheme } from "@/hooks/useColorScheme";
 import { useTheme } from "@/src/context/ThemeContext";
+import ClarifyingQuestionsCard from "@/components/ClarifyingQuestionsCard";
+import DishSplitCard from "@/components/DishSplitCard";
+import { nutritionAPI } from "@/src/services/api";
+import {
+  ClarificationAnswer,
+  ClarifyingQuestion,
+  DetectedDishes,
+  DishSelection,
+} from "@/src/types";
 
 const { width: screenWidth } = Dimensions.get("window");
 
@@ -120,6 +132,8 @@ interface AnalysisData {
   confidence?: number;
   servingSize?: string;
   healthNotes?: string;
+  clarifying_questions?: ClarifyingQuestion[];
+  detected_dishes?: DetectedDishes | null;
 }
 
 export default function CameraScreen() {
@@ -149,6 +163,10 @@ export default function CameraScreen() {
   const [showAdvancedNutrition, setShowAdvancedNutrition] = useState(false);
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
   const [showResults, setShowResults] = useState(false); // Added for modal visibility
+  const [skipClarifications, setSkipClarifications] = useState(false);
+  // Set when opened from history to photograph what was left of a meal
+  const { afterMealId } = useLocalSearchParams<{ afterMealId?: string }>();
+  const [isComparing, setIsComparing] = useState(false);
 
   // Animation refs
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -172,6 +190,38 @@ export default function CameraScreen() {
     dispatch(clearError());
   }, [dispatch]);
 
+  // Finish an analysis that was still running in the background
+  useEffect(() => {
+    if (pendingMeal?.analysis_job_id && !pendingMeal.analysis) {
+      dispatch(resumeMealAnalysis());
+    }
+  }, [dispatch, pendingMeal?.analysis_job_id, pendingMeal?.analysis]);
+
+  // The server pushes when a background analysis finishes
+  useEffect(() => {
+    const handleAnalysisNotification = (
+      notification: Notifications.Notification
+    ) => {
+      const data = notification.request.content.data;
+      if (data?.type === "meal_analysis") {
+        dispatch(resumeMealAnalysis());
+      }
+    };
+
+    const receivedSubscription = Notifications.addNotificationReceivedListener(
+      handleAnalysisNotification
+    );
+    const responseSubscription =
+      Notifications.addNotificationResponseReceivedListener((response) =>
+        handleAnalysisNotification(response.notification)
+      );
+
+    return () => {
+      receivedSubscription.remove();
+      responseSubscription.remove();
+    };
+  }, [dispatch]);
+
   // Update local state when pendingMeal changes
   useEffect(() => {
     console.log("🔄 Pending meal changed:", pendingMeal);
@@ -185,6 +235,7 @@ export default function CameraScreen() {
       setEditedIngredients(ingredients);
       setHasBeenAnalyzed(true);
       setShowResults(true); // Show the results/modal
+      setSkipClarifications(false);
 
       if (pendingMeal.image_base_64) {
         const imageUri = pendingMeal.image_base_64.startsWith("data:")
@@ -489,8 +540,48 @@ export default function CameraScreen() {
     }
   };
 
+  // Re-analysis with the answers to a low-confidence analysis' questions
+  const handleAnswerQuestions = async (answers: ClarificationAnswer[]) => {
+    if (!selectedImage) return;
+
+    try {
+      const base64Image = await processImage(selectedImage);
+      if (!base64Image) {
+        Alert.alert(t("common.error"), "Could not process image.");
+        return;
+      }
+
+      const result = await dispatch(
+        analyzeMeal({
+          imageBase64: base64Image,
+          language: isRTL ? "hebrew" : "english",
+          updateText: userComment.trim() || undefined,
+          clarifications: answers,
+        })
+      );
+
+      if (analyzeMeal.fulfilled.match(result)) {
+        console.log("✅ Analysis refined with answers");
+        scrollViewRef.current?.scrollTo({ y: 0, animated: true });
+      } else {
+        Alert.alert(
+          t("camera.analysis_failed"),
+          typeof result.payload === "string"
+            ? result.payload
+            : "Failed to update the analysis. Please try again."
+        );
+      }
+    } catch (error) {
+      console.error("💥 Clarification error:", error);
+      Alert.alert(
+        t("camera.analysis_failed"),
+        error instanceof Error ? error.message : "Analysis failed"
+      );
+    }
+  };
+
   // Save meal to database
-  const handleSaveMeal = async () => {
+  const handleSaveMeal = async (selection?: DishSelection) => {
     if (!analysisData) {
       Alert.alert(t("common.error"), "No analysis data to save");
       return;
@@ -499,7 +590,7 @@ export default function CameraScreen() {
     try {
       console.log("💾 Saving meal to database...");
 
-      const result = await dispatch(postMeal());
+      const result = await dispatch(postMeal(selection));
 
       if (postMeal.fulfilled.match(result)) {
         console.log("✅ Meal saved successfully");
@@ -534,6 +625,57 @@ export default function CameraScreen() {
     }
   };
 
+  const leaveAfterPhotoMode = () => {
+    setSelectedImage(null);
+    router.setParams({ afterMealId: undefined });
+  };
+
+  // Compare an "after" photo with the meal's own photo
+  const handleCompareAfterPhoto = async () => {
+    if (!selectedImage || !afterMealId) return;
+
+    try {
+      setIsComparing(true);
+      const base64Image = await processImage(selectedImage);
+      if (!base64Image) {
+        Alert.alert(t("common.error"), "Could not process image.");
+        return;
+      }
+
+      const meal = await nutritionAPI.addAfterPhoto(
+        afterMealId,
+        base64Image,
+        isRTL ? "hebrew" : "english"
+      );
+      await refreshAllMealData();
+
+      const percent = Math.round((meal.consumed_ratio ?? 1) * 100);
+      Alert.alert(
+        isRTL ? "השאריות נרשמו" : "Leftovers logged",
+        isRTL
+          ? `אכלת כ-${percent}% מהארוחה, הערכים התזונתיים עודכנו.`
+          : `You ate about ${percent}% of the meal, its nutrients were updated.`,
+        [
+          {
+            text: t("common.ok"),
+            onPress: () => {
+              leaveAfterPhotoMode();
+              router.replace("/(tabs)/history");
+            },
+          },
+        ]
+      );
+    } catch (error) {
+      console.error("💥 After photo error:", error);
+      Alert.alert(
+        t("camera.analysis_failed"),
+        error instanceof Error ? error.message : "Comparison failed"
+      );
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
   // Discard analysis
   const handleDeleteMeal = () => {
     setShowDeleteConfirm(true);
@@ -541,6 +683,7 @@ export default function CameraScreen() {
 
   const confirmDeleteMeal = () => {
     console.log("🗑️ Discarding meal analysis...");
+    dispatch(discardPendingMeal());
     resetAnalysisState();
     setSelectedImage(null);
     setShowDeleteConfirm(false);
@@ -1137,56 +1280,91 @@ export default function CameraScreen() {
         </View>
       </View>
 
-      {!hasBeenAnalyzed && (
-        <>
-          <View style={styles.commentContainer}>
-            <Text style={[styles.commentLabel, isRTL && styles.rtlText]}>
-              Additional Information (Optional)
+      {afterMealId ? (
+        <TouchableOpacity
+          style={[styles.analyzeButton, isComparing && styles.buttonDisabled]}
+          onPress={handleCompareAfterPhoto}
+          disabled={isComparing}
+        >
+          <LinearGradient
+            colors={
+              isComparing
+                ? [colors.tabInactive, colors.textSecondary]
+                : [colors.primary, colors.emerald700]
+            }
+            style={styles.analyzeButtonGradient}
+          >
+            {isComparing ? (
+              <ActivityIndicator size="small" color="#ffffff" />
+            ) : (
+              <Send size={20} color="#ffffff" />
+            )}
+            <Text style={styles.analyzeButtonText}>
+              {isComparing
+                ? isRTL
+                  ? "משווה..."
+                  : "Comparing..."
+                : isRTL
+                ? "השווה לתמונת הארוחה"
+                : "Compare with meal photo"}
             </Text>
-            <TextInput
+          </LinearGradient>
+        </TouchableOpacity>
+      ) : (
+        !hasBeenAnalyzed && (
+          <>
+            <View style={styles.commentContainer}>
+              <Text style={[styles.commentLabel, isRTL && styles.rtlText]}>
+                Additional Information (Optional)
+              </Text>
+              <TextInput
+                style={[
+                  styles.commentInput,
+                  isRTL && styles.rtlTextInput,
+                  {
+                    backgroundColor: colors.cardBackground,
+                    borderColor: colors.border,
+                    color: colors.text,
+                  },
+                ]}
+                placeholder="Add any details about the meal (ingredients, cooking method, etc.)"
+                placeholderTextColor={colors.textSecondary}
+                value={userComment}
+                onChangeText={setUserComment}
+                multiline
+                numberOfLines={3}
+                textAlign={isRTL ? "right" : "left"}
+              />
+            </View>
+
+            <TouchableOpacity
               style={[
-                styles.commentInput,
-                isRTL && styles.rtlTextInput,
-                {
-                  backgroundColor: colors.cardBackground,
-                  borderColor: colors.border,
-                  color: colors.text,
-                },
+                styles.analyzeButton,
+                isAnalyzing && styles.buttonDisabled,
               ]}
-              placeholder="Add any details about the meal (ingredients, cooking method, etc.)"
-              placeholderTextColor={colors.textSecondary}
-              value={userComment}
-              onChangeText={setUserComment}
-              multiline
-              numberOfLines={3}
-              textAlign={isRTL ? "right" : "left"}
-            />
-          </View>
-
-          <TouchableOpacity
-            style={[styles.analyzeButton, isAnalyzing && styles.buttonDisabled]}
-            onPress={handleAnalyzeImage}
-            disabled={isAnalyzing}
-          >
-            <LinearGradient
-              colors={
-                isAnalyzing
-                  ? [colors.disabled, colors.textSecondary]
-                  : [colors.primary, colors.primaryDark]
-              }
-              style={styles.analyzeButtonGradient}
+              onPress={handleAnalyzeImage}
+              disabled={isAnalyzing}
             >
-              {isAnalyzing ? (
-                <ActivityIndicator size="small" color="#ffffff" />
-              ) : (
-                <Send size={20} color="#ffffff" />
-              )}
-              <Text style={styles.analyzeButtonText}>
-                {isAnalyzing ? "Analyzing Meal..." : "Analyze My Meal"}
-              </Text>
-            </LinearGradient>
-          </TouchableOpacity>
-        </>
+              <LinearGradient
+                colors={
+                  isAnalyzing
+                    ? [colors.disabled, colors.textSecondary]
+                    : [colors.primary, colors.primaryDark]
+                }
+                style={styles.analyzeButtonGradient}
+              >
+                {isAnalyzing ? (
+                  <ActivityIndicator size="small" color="#ffffff" />
+                ) : (
+                  <Send size={20} color="#ffffff" />
+                )}
+                <Text style={styles.analyzeButtonText}>
+                  {isAnalyzing ? "Analyzing Meal..." : "Analyze My Meal"}
+                </Text>
+              </LinearGradient>
+            </TouchableOpacity>
+          </>
+        )
       )}
     </View>
   );
@@ -1194,13 +1372,40 @@ export default function CameraScreen() {
   const renderAnalysisResults = () => {
     if (!analysisData) return null;
 
+    // A low-confidence number isn't shown until the user answers or skips
+    const questions = analysisData.clarifying_questions || [];
+    if (questions.length > 0 && !skipClarifications) {
+      return (
+        <View style={styles.analysisContainer}>
+          <ClarifyingQuestionsCard
+            questions={questions}
+            language={isRTL ? "he" : "en"}
+            isSubmitting={isAnalyzing}
+            onSubmit={handleAnswerQuestions}
+            onSkip={() => setSkipClarifications(true)}
+          />
+        </View>
+      );
+    }
+
     console.log("🔄 Rendering analysis results with data:", analysisData);
 
+    const dishes = analysisData.detected_dishes?.dishes || [];
+
     return (
       <View style={styles.analysisContainer}>
         {renderMealHeader()}
         {renderNutritionSummary()}
 
+        {dishes.length > 1 && (
+          <DishSplitCard
+            dishes={dishes}
+            language={isRTL ? "he" : "en"}
+            isSaving={isPosting}
+            onLog={handleSaveMeal}
+          />
+        )}
+
         {/* Ingredients Section */}
         <View style={styles.ingredientsSection}>
           <View style={styles.ingredientsHeader}>
@@ -1462,7 +1667,7 @@ export default function CameraScreen() {
 
           <TouchableOpacity
             style={[styles.primaryButton, isPosting && styles.buttonDisabled]}
-            onPress={handleSaveMeal}
+            onPress={() => handleSaveMeal()}
             disabled={isPosting}
           >
             <LinearGradient
@@ -1978,6 +2183,10 @@ export default function CameraScreen() {
         fontWeight: "600",
         color: "#ffffff",
       },
+      afterPhotoBanner: {
+        marginHorizontal: 24,
+        marginBottom: 16,
+      },
       tipContainer: {
         flexDirection: "row",
         alignItems: "flex-start",
@@ -2761,6 +2970,37 @@ export default function CameraScreen() {
           {/* Error Display */}
           {renderError()}
 
+          {afterMealId && (
+            <View style={[styles.tipContainer, styles.afterPhotoBanner]}>
+              <Info size={20} color={colors.primary} />
+              <View style={styles.tipTextContainer}>
+                <Text
+                  style={[
+                    styles.tipTitle,
+                    isRTL && styles.rtlText,
+                    { color: colors.emerald700 },
+                  ]}
+                >
+                  {isRTL ? "תמונת אחרי" : "After photo"}
+                </Text>
+                <Text
+                  style={[
+                    styles.tipDescription,
+                    isRTL && styles.rtlText,
+                    { color: colors.primary },
+                  ]}
+                >
+                  {isRTL
+                    ? "צלמו את מה שנשאר בצלחת, נרשום רק את מה שאכלתם."
+                    : "Photograph what's left on the plate, only what you ate gets logged."}
+                </Text>
+              </View>
+              <TouchableOpacity onPress={leaveAfterPhotoMode}>
+                <X size={18} color={colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+          )}
+
           {/* Main Content */}
           {!selectedImage ? (
             renderImageSelection()
@@ -15,8 +15,10 @@ import { useTranslation } from "react-i18next";
 import { useLanguage } from "@/src/i18n/context/LanguageContext";
 import {
   deviceAPI,
+  ActivityMetric,
   ConnectedDevice,
   DailyBalance,
+  SourcePriority,
 } from "../../src/services/deviceAPI";
 import { HealthData } from "../../src/services/healthKit";
 import LoadingScreen from "@/components/LoadingScreen";
@@ -100,6 +102,15 @@ const SUPPORTED_DEVICES: SupportedDevice[] = [
   },
 ];
 
+const ACTIVITY_METRICS: { metric: ActivityMetric; label: string }[] = [
+  { metric: "STEPS", label: "Steps" },
+  { metric: "CALORIES", label: "Calories" },
+  { metric: "SLEEP", label: "Sleep" },
+  { metric: "HEART_RATE", label: "Heart Rate" },
+  { metric: "WEIGHT", label: "Weight" },
+  { metric: "WATER", label: "Water" },
+];
+
 export default function DevicesScreen() {
   const { t } = useTranslation();
   const { isRTL } = useLanguage();
@@ -108,6 +119,9 @@ export default function DevicesScreen() {
   );
   const [dailyBalance, setDailyBalance] = useState<DailyBalance | null>(null);
   const [activityData, setActivityData] = useState<HealthData | null>(null);
+  const [sourcePriorities, setSourcePriorities] = useState<SourcePriority[]>(
+    []
+  );
   const [isLoading, setIsLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [syncingDevices, setSyncingDevices] = useState<Set<string>>(new Set());
@@ -134,17 +148,20 @@ export default function DevicesScreen() {
       if (devices.length > 0) {
         const today = new Date().toISOString().split("T")[0];
 
-        // Get activity data and balance in parallel
-        const [activity, balance] = await Promise.all([
+        // Get activity data, balance and source order in parallel
+        const [activity, balance, priorities] = await Promise.all([
           deviceAPI.getActivityData(today),
           deviceAPI.getDailyBalance(today),
+          devices.length > 1 ? deviceAPI.getSourcePriorities() : [],
         ]);
 
         setActivityData(activity);
         setDailyBalance(balance);
+        setSourcePriorities(priorities);
       } else {
         setActivityData(null);
         setDailyBalance(null);
+        setSourcePriorities([]);
       }
     } catch (error) {
       console.error("💥 Failed to load device data:", error);
@@ -181,19 +198,6 @@ export default function DevicesScreen() {
       return;
     }
 
-    // Special check for Google Fit configuration
-    if (deviceType === "GOOGLE_FIT") {
-      const clientSecret = process.env.EXPO_PUBLIC_GOOGLE_FIT_CLIENT_SECRET;
-      if (!clientSecret) {
-        Alert.alert(
-          "Configuration Required",
-          "Google Fit client secret is not configured. Please add EXPO_PUBLIC_GOOGLE_FIT_CLIENT_SECRET to your environment variables and restart the app.",
-          [{ text: "OK" }]
-        );
-        return;
-      }
-    }
-
     console.log("✅ About to show connection alert for:", deviceInfo.name);
 
     Alert.alert(
@@ -333,6 +337,53 @@ export default function DevicesScreen() {
     }
   };
 
+  const handleSetPrimary = async (deviceId: string) => {
+    const success = await deviceAPI.setPrimaryDevice(deviceId);
+    if (success) {
+      await loadDeviceData(); // Refresh data
+    } else {
+      Alert.alert("Error", "Failed to set primary device");
+    }
+  };
+
+  // Connected devices in the order a metric is taken from them
+  const getSourceOrder = (metric: ActivityMetric) => {
+    const order =
+      sourcePriorities.find((p) => p.metric === metric)?.sources || [];
+    const rank = (device: ConnectedDevice) => {
+      const index = order.indexOf(device.type);
+      return index === -1 ? order.length : index;
+    };
+    return [...connectedDevices].sort(
+      (a, b) => rank(a) - rank(b) || Number(b.isPrimary) - Number(a.isPrimary)
+    );
+  };
+
+  const handlePreferSource = async (
+    metric: ActivityMetric,
+    type: ConnectedDevice["type"]
+  ) => {
+    const sources = [
+      type,
+      ...getSourceOrder(metric)
+        .map((d) => d.type)
+        .filter((other) => other !== type),
+    ];
+    const previous = sourcePriorities;
+    setSourcePriorities([
+      ...sourcePriorities.filter((p) => p.metric !== metric),
+      { metric, sources },
+    ]);
+
+    const success = await deviceAPI.setSourcePriority(metric, sources);
+    if (success) {
+      await loadDeviceData(); // Refresh data
+    } else {
+      setSourcePriorities(previous);
+      Alert.alert("Error", "Failed to save data source");
+    }
+  };
+
   const getBalanceColor = (status: string) => {
     switch (status) {
       case "balanced":
@@ -376,6 +427,8 @@ export default function DevicesScreen() {
               <Text style={styles.deviceStatus}>
                 {device.status === "CONNECTED"
                   ? "✅ Connected"
+                  : device.status === "ERROR"
+                  ? "⚠️ Sync error"
                   : "❌ Disconnected"}
                 {device.isPrimary && " • Primary"}
               </Text>
@@ -388,6 +441,17 @@ export default function DevicesScreen() {
           </View>
 
           <View style={styles.deviceActions}>
+            {!device.isPrimary &&
+              device.status !== "DISCONNECTED" &&
+              connectedDevices.length > 1 && (
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => handleSetPrimary(device.id)}
+                >
+                  <Ionicons name="star-outline" size={16} color="#FF9800" />
+                </TouchableOpacity>
+              )}
+
             <TouchableOpacity
               style={[styles.actionButton, styles.syncButton]}
               onPress={() => handleSyncDevice(device.id)}
@@ -414,6 +478,50 @@ export default function DevicesScreen() {
             Last sync: {new Date(device.lastSync).toLocaleString()}
           </Text>
         )}
+        {device.status === "ERROR" && device.lastSyncError && (
+          <Text style={styles.syncError}>{device.lastSyncError}</Text>
+        )}
+      </View>
+    );
+  };
+
+  const renderSourcePriorities = () => {
+    if (connectedDevices.length < 2) return null;
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>🔀 Data Sources</Text>
+        <Text style={styles.sectionSubtitle}>
+          When several devices record the same thing, only the first one with
+          data is counted. Tap a device to use it first.
+        </Text>
+        {ACTIVITY_METRICS.map(({ metric, label }) => (
+          <View key={metric} style={styles.sourceRow}>
+            <Text style={styles.sourceLabel}>{label}</Text>
+            <View style={styles.sourceChips}>
+              {getSourceOrder(metric).map((device, index) => (
+                <TouchableOpacity
+                  key={device.id}
+                  style={[
+                    styles.sourceChip,
+                    index === 0 && styles.sourceChipActive,
+                  ]}
+                  onPress={() => handlePreferSource(metric, device.type)}
+                  disabled={index === 0}
+                >
+                  <Text
+                    style={[
+                      styles.sourceChipText,
+                      index === 0 && styles.sourceChipTextActive,
+                    ]}
+                  >
+                    {device.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        ))}
       </View>
     );
   };
@@ -647,6 +755,9 @@ export default function DevicesScreen() {
           </View>
         )}
 
+        {/* Data Sources Section */}
+        {renderSourcePriorities()}
+
         {/* Available Devices Section */}
         {renderAvailableDevices()}
 
@@ -852,6 +963,42 @@ const styles = StyleSheet.create({
     color: "#999",
     marginTop: 12,
   },
+  syncError: {
+    fontSize: 12,
+    color: "#F44336",
+    marginTop: 4,
+  },
+  sourceRow: {
+    marginBottom: 12,
+  },
+  sourceLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#333",
+    marginBottom: 6,
+  },
+  sourceChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  sourceChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: "#f0f0f0",
+  },
+  sourceChipActive: {
+    backgroundColor: "#007AFF",
+  },
+  sourceChipText: {
+    fontSize: 13,
+    color: "#666",
+  },
+  sourceChipTextActive: {
+    color: "white",
+    fontWeight: "600",
+  },
   availableDeviceCard: {
     flexDirection: "row",
     alignItems: "center",
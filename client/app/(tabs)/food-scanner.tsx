@@ -42,7 +42,7 @@ import {
 import { useTranslation } from "react-i18next";
 import { useLanguage } from "@/src/i18n/context/LanguageContext";
 import { useTheme } from "@/src/context/ThemeContext";
-import { api } from "@/src/services/api";
+import { api, AIQuotaError } from "@/src/services/api";
 import LoadingScreen from "@/components/LoadingScreen";
 import { router } from "expo-router";
 
@@ -215,7 +215,9 @@ export default function FoodScannerScreen() {
       console.error("Image scan error:", error);
       Alert.alert(
         t("food_scanner.scan_failed"),
-        t("food_scanner.scan_failed_message")
+        error instanceof AIQuotaError
+          ? error.message
+          : t("food_scanner.scan_failed_message")
       );
     } finally {
       setIsScanning(false);
@@ -257,7 +259,9 @@ export default function FoodScannerScreen() {
       console.error("Photo scan error:", error);
       Alert.alert(
         t("food_scanner.scan_failed"),
-        t("food_scanner.scan_failed_message")
+        error instanceof AIQuotaError
+          ? error.message
+          : t("food_scanner.scan_failed_message")
       );
     } finally {
       setIsScanning(false);
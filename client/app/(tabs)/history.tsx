@@ -26,10 +26,12 @@ import {
   toggleMealFavorite,
   duplicateMeal,
   removeMeal,
+  restoreMeal,
 } from "@/src/store/mealSlice";
 import { useTranslation } from "react-i18next";
 import { useLanguage } from "@/src/i18n/context/LanguageContext";
 import { useTheme } from "@/src/context/ThemeContext";
+import { router } from "expo-router";
 import {
   Search,
   Filter,
@@ -57,8 +59,12 @@ import {
   Calendar,
   Award,
   Activity,
+  AlertTriangle,
+  ThumbsUp,
+  ThumbsDown,
 } from "lucide-react-native";
 import LoadingScreen from "@/components/LoadingScreen";
+import { KosherWarning, MealItem } from "@/src/types";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import Swipeable from "react-native-gesture-handler/Swipeable";
 
@@ -98,6 +104,24 @@ const NUTRITION_ICONS = {
   sodium: { icon: Beaker, name: "Sodium", color: "#6b7280", unit: "mg" },
 };
 
+const describeKosherWarning = (warning: KosherWarning, isRTL: boolean) => {
+  const terms = warning.terms.join(", ");
+  switch (warning.type) {
+    case "non_kosher":
+      return isRTL ? `לא כשר: ${terms}` : `Not kosher: ${terms}`;
+    case "meat_and_dairy":
+      return isRTL
+        ? `בשר וחלב באותה ארוחה (${terms})`
+        : `Meat and dairy in the same meal (${terms})`;
+    default:
+      return isRTL
+        ? `${warning.hours_since} שעות אחרי ${
+            warning.previous_category === "meat" ? "בשרי" : "חלבי"
+          }, יש להמתין ${warning.required_hours}`
+        : `${warning.hours_since}h after ${warning.previous_category}, wait ${warning.required_hours}h`;
+  }
+};
+
 // Enhanced Swipeable Meal Card Component
 const SwipeableMealCard = ({
   meal,
@@ -116,6 +140,7 @@ const SwipeableMealCard = ({
     energy_rating: meal.energy_rating || 0,
     heaviness_rating: meal.heaviness_rating || 0,
   });
+  const [liked, setLiked] = useState<boolean | null>(meal.liked ?? null);
   const { currentLanguage } = useLanguage();
   const isRTL = currentLanguage === "he";
 
@@ -136,11 +161,13 @@ const SwipeableMealCard = ({
       energy_rating: meal.energy_rating || 0,
       heaviness_rating: meal.heaviness_rating || 0,
     });
+    setLiked(meal.liked ?? null);
   }, [
     meal.taste_rating,
     meal.satiety_rating,
     meal.energy_rating,
     meal.heaviness_rating,
+    meal.liked,
   ]);
 
   const handleRatingChange = (key: string, value: number) => {
@@ -157,10 +184,8 @@ const SwipeableMealCard = ({
         saveMealFeedback({
           mealId,
           feedback: {
-            tasteRating: ratings.taste_rating,
-            satietyRating: ratings.satiety_rating,
-            energyRating: ratings.energy_rating,
-            heavinessRating: ratings.heaviness_rating,
+            ...ratings,
+            ...(liked !== null && { liked }),
           },
         })
       ).unwrap();
@@ -171,6 +196,7 @@ const SwipeableMealCard = ({
         meal.satiety_rating = ratings.satiety_rating;
         meal.energy_rating = ratings.energy_rating;
         meal.heaviness_rating = ratings.heaviness_rating;
+        meal.liked = liked;
         await dispatch(fetchMeals());
       }
     } catch (error) {
@@ -288,9 +314,9 @@ const SwipeableMealCard = ({
             activeOpacity={0.9}
           >
             <View style={styles.imageContainer}>
-              {meal.image_url ? (
+              {meal.thumbnail_url || meal.image_url ? (
                 <Image
-                  source={{ uri: meal.image_url }}
+                  source={{ uri: meal.thumbnail_url || meal.image_url }}
                   style={styles.mealImageEnhanced}
                 />
               ) : (
@@ -338,8 +364,31 @@ const SwipeableMealCard = ({
                     </Text>
                   </View>
                 )}
+
+                {meal.consumed_ratio != null && (
+                  <View style={styles.metaItem}>
+                    <Target size={12} color={colors.emerald500} />
+                    <Text style={[styles.metaText, { color: colors.icon }]}>
+                      Ate {Math.round(meal.consumed_ratio * 100)}%
+                    </Text>
+                  </View>
+                )}
               </View>
 
+              {meal.kosher_warnings?.map(
+                (warning: KosherWarning, index: number) => (
+                  <View key={index} style={styles.kosherWarning}>
+                    <AlertTriangle size={12} color="#f59e0b" />
+                    <Text
+                      style={[styles.kosherWarningText, { color: "#b45309" }]}
+                      numberOfLines={2}
+                    >
+                      {describeKosherWarning(warning, isRTL)}
+                    </Text>
+                  </View>
+                )
+              )}
+
               <View style={styles.nutritionPreview}>
                 {Object.entries(NUTRITION_ICONS)
                   .slice(0, 3)
@@ -458,6 +507,96 @@ const SwipeableMealCard = ({
                   </View>
                 </View>
 
+                {/* An "after" photo scales the meal to what was eaten */}
+                {(meal.thumbnail_url || meal.image_url) && (
+                  <View style={styles.leftoversSection}>
+                    {meal.after_image_url && (
+                      <Image
+                        source={{ uri: meal.after_image_url }}
+                        style={styles.afterImage}
+                      />
+                    )}
+                    <View style={styles.leftoversInfo}>
+                      <Text
+                        style={[styles.sectionTitle, { color: colors.text }]}
+                      >
+                        Leftovers
+                      </Text>
+                      <Text style={styles.itemMeta}>
+                        {meal.consumed_ratio != null
+                          ? `You ate about ${Math.round(
+                              meal.consumed_ratio * 100
+                            )}% of what was served`
+                          : "Didn't finish? Photograph what's left"}
+                      </Text>
+                    </View>
+                    <TouchableOpacity
+                      style={[
+                        styles.afterPhotoButton,
+                        { borderColor: colors.emerald500 },
+                      ]}
+                      onPress={() =>
+                        router.push({
+                          pathname: "/(tabs)/camera",
+                          params: { afterMealId: String(meal.meal_id) },
+                        })
+                      }
+                    >
+                      <Camera size={14} color={colors.emerald500} />
+                      <Text
+                        style={[
+                          styles.afterPhotoButtonText,
+                          { color: colors.emerald500 },
+                        ]}
+                      >
+                        {meal.after_image_url ? "Retake" : "After photo"}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+
+                {/* Dishes of a multi-dish photo logged as separate items */}
+                {meal.items && meal.items.length > 0 && (
+                  <View style={styles.itemsSection}>
+                    <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                      Items ({meal.items.length})
+                    </Text>
+                    {meal.items.map((item: MealItem) => (
+                      <View
+                        key={item.item_id}
+                        style={[
+                          styles.itemRow,
+                          { borderBottomColor: colors.emerald500 + "20" },
+                        ]}
+                      >
+                        <View style={styles.itemInfo}>
+                          <Text
+                            style={[styles.itemName, { color: colors.text }]}
+                          >
+                            {item.name}
+                          </Text>
+                          <Text style={styles.itemMeta}>
+                            {item.portion_g
+                              ? `${Math.round(item.portion_g)}g · `
+                              : ""}
+                            P {Math.round(item.protein_g)}g · C{" "}
+                            {Math.round(item.carbs_g)}g · F{" "}
+                            {Math.round(item.fats_g)}g
+                          </Text>
+                        </View>
+                        <Text
+                          style={[
+                            styles.itemCalories,
+                            { color: colors.emerald500 },
+                          ]}
+                        >
+                          {Math.round(item.calories)} kcal
+                        </Text>
+                      </View>
+                    ))}
+                  </View>
+                )}
+
                 {ingredients && ingredients.length > 0 && (
                   <View style={styles.ingredientsSection}>
                     <Text style={[styles.sectionTitle, { color: colors.text }]}>
@@ -507,6 +646,39 @@ const SwipeableMealCard = ({
                     Rate Your Experience
                   </Text>
 
+                  {/* Disliked meals stop showing up in menus and plans */}
+                  <View style={styles.likeRow}>
+                    <Text style={[styles.likeLabel, { color: colors.text }]}>
+                      Would you eat it again?
+                    </Text>
+                    {[true, false].map((value) => {
+                      const Icon = value ? ThumbsUp : ThumbsDown;
+                      const color = value ? colors.emerald500 : "#ef4444";
+                      const isSelected = liked === value;
+                      return (
+                        <TouchableOpacity
+                          key={String(value)}
+                          style={[
+                            styles.likeButton,
+                            {
+                              borderColor: isSelected ? color : colors.border,
+                              backgroundColor: isSelected
+                                ? color + "20"
+                                : "transparent",
+                            },
+                          ]}
+                          onPress={() => setLiked(isSelected ? null : value)}
+                          activeOpacity={0.7}
+                        >
+                          <Icon
+                            size={18}
+                            color={isSelected ? color : colors.textSecondary}
+                          />
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+
                   <View style={styles.ratingsContainer}>
                     {[
                       { key: "taste_rating", label: "Taste", icon: "😋" },
@@ -774,8 +946,22 @@ export default function HistoryScreen() {
           onPress: async () => {
             try {
               await dispatch(removeMeal(mealId)).unwrap();
-              Alert.alert("Success", "Meal deleted successfully!");
               dispatch(fetchMeals());
+              Alert.alert("Meal deleted", "You can still undo this.", [
+                { text: "OK" },
+                {
+                  text: "Undo",
+                  onPress: async () => {
+                    try {
+                      await dispatch(restoreMeal(mealId)).unwrap();
+                      dispatch(fetchMeals());
+                    } catch (error) {
+                      console.error("Failed to restore meal:", error);
+                      Alert.alert("Error", "Failed to restore meal");
+                    }
+                  },
+                },
+              ]);
             } catch (error) {
               console.error("Failed to remove meal:", error);
               Alert.alert("Error", "Failed to remove meal");
@@ -1697,6 +1883,19 @@ const styles = StyleSheet.create({
     fontWeight: "500",
   },
 
+  kosherWarning: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginBottom: 6,
+  },
+
+  kosherWarningText: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: "500",
+  },
+
   nutritionPreview: {
     flexDirection: "row",
     gap: 14,
@@ -1809,6 +2008,72 @@ const styles = StyleSheet.create({
     fontWeight: "600",
   },
 
+  // Leftovers
+  leftoversSection: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    marginBottom: 20,
+  },
+
+  afterImage: {
+    width: 48,
+    height: 48,
+    borderRadius: 10,
+  },
+
+  leftoversInfo: {
+    flex: 1,
+  },
+
+  afterPhotoButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    borderWidth: 1.5,
+    borderRadius: 12,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+  },
+
+  afterPhotoButtonText: {
+    fontSize: 12,
+    fontWeight: "700",
+  },
+
+  // Items
+  itemsSection: {
+    marginBottom: 20,
+  },
+
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    gap: 12,
+  },
+
+  itemInfo: {
+    flex: 1,
+  },
+
+  itemName: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+
+  itemMeta: {
+    fontSize: 12,
+    color: "#64748B",
+    marginTop: 2,
+  },
+
+  itemCalories: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+
   // Ratings
   ratingSection: {
     marginBottom: 20,
@@ -1847,6 +2112,25 @@ const styles = StyleSheet.create({
     gap: 2,
   },
 
+  likeRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 12,
+  },
+
+  likeLabel: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+
+  likeButton: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 8,
+  },
+
   starButton: {
     padding: 4,
   },
@@ -55,11 +55,18 @@ import {
   Dumbbell,
   Gem,
   Muscle,
+  FileDown,
 } from "lucide-react-native";
+import * as Sharing from "expo-sharing";
 import { useTranslation } from "react-i18next";
 import { useLanguage } from "@/src/i18n/context/LanguageContext";
-import { api } from "@/src/services/api";
+import { api, statisticsAPI } from "@/src/services/api";
 import LoadingScreen from "@/components/LoadingScreen";
+import MicronutrientCoverageCard from "@/components/MicronutrientCoverageCard";
+import FastingCard from "@/components/FastingCard";
+import WeightTrendCard from "@/components/WeightTrendCard";
+import AdaptiveGoalsCard from "@/components/AdaptiveGoalsCard";
+import GoalScheduleCard from "@/components/GoalScheduleCard";
 
 const { width } = Dimensions.get("window");
 
@@ -279,6 +286,7 @@ export default function StatisticsScreen() {
   const [showAchievements, setShowAchievements] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [statisticsData, setStatisticsData] = useState<StatisticsData | null>(
     null
@@ -297,6 +305,16 @@ export default function StatisticsScreen() {
     month: language === "he" ? "חודש" : "Month",
     macronutrients: language === "he" ? "מקרו נוטריינטים" : "Macronutrients",
     micronutrients: language === "he" ? "מיקרו נוטריינטים" : "Micronutrients",
+    micronutrientCoverage:
+      language === "he"
+        ? "כיסוי ויטמינים ומינרלים"
+        : "Vitamin & Mineral Coverage",
+    fasting: language === "he" ? "צום לסירוגין" : "Intermittent Fasting",
+    weightTrend: language === "he" ? "מגמת משקל" : "Weight Trend",
+    adaptiveGoals:
+      language === "he" ? "יעד קלוריות מותאם" : "Adaptive Calorie Goal",
+    goalSchedule:
+      language === "he" ? "לוח יעדים שבועי" : "Weekly Goal Schedule",
     lifestyle: language === "he" ? "אורח חיים" : "Lifestyle",
     quality: language === "he" ? "איכות תזונה" : "Nutrition Quality",
     alerts: language === "he" ? "התראות" : "Alerts",
@@ -371,6 +389,11 @@ export default function StatisticsScreen() {
     averageCompletion: language === "he" ? "ממוצע השלמה" : "Average Completion",
     bestStreak: language === "he" ? "רצף הטוב ביותר" : "Best Streak",
     currentStreak: language === "he" ? "רצף נוכחי" : "Current Streak",
+    exportReport: language === "he" ? "ייצוא דוח" : "Export Report",
+    exportFailed:
+      language === "he"
+        ? "לא ניתן היה להפיק את הדוח. נסה שוב."
+        : "Could not generate the report. Please try again.",
   };
 
   // Fetch statistics data from API
@@ -772,6 +795,29 @@ export default function StatisticsScreen() {
     }
   };
 
+  const handleExportReport = async () => {
+    setIsExporting(true);
+    try {
+      const uri = await statisticsAPI.exportReport(
+        selectedPeriod === "month" ? "month" : "week",
+        language
+      );
+
+      if (uri && (await Sharing.isAvailableAsync())) {
+        await Sharing.shareAsync(uri, {
+          mimeType: "application/pdf",
+          UTI: "com.adobe.pdf",
+          dialogTitle: texts.exportReport,
+        });
+      }
+    } catch (err) {
+      console.error("❌ Error exporting report:", err);
+      Alert.alert(texts.errorMessage, texts.exportFailed);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const timeFilters: TimeFilter[] = [
     { key: "today", label: texts.today },
     { key: "week", label: texts.week },
@@ -1074,6 +1120,21 @@ export default function StatisticsScreen() {
             <Text style={styles.title}>{texts.title}</Text>
             <Text style={styles.subtitle}>{texts.subtitle}</Text>
           </View>
+          <TouchableOpacity
+            style={[
+              styles.exportButton,
+              isRTL && { flexDirection: "row-reverse" },
+            ]}
+            onPress={handleExportReport}
+            disabled={isExporting}
+          >
+            {isExporting ? (
+              <ActivityIndicator size="small" color="#16A085" />
+            ) : (
+              <FileDown size={18} color="#16A085" />
+            )}
+            <Text style={styles.exportButtonText}>{texts.exportReport}</Text>
+          </TouchableOpacity>
         </View>
 
         {/* Time Filter */}
@@ -1535,6 +1596,41 @@ export default function StatisticsScreen() {
               </View>
             </View>
 
+            {/* Vitamin and mineral intake against reference intakes */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>
+                {texts.micronutrientCoverage}
+              </Text>
+              <MicronutrientCoverageCard
+                period={selectedPeriod === "today" ? "day" : "week"}
+                language={isRTL ? "he" : "en"}
+              />
+            </View>
+
+            {/* Fasting streaks, history and eating window violations */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{texts.fasting}</Text>
+              <FastingCard language={isRTL ? "he" : "en"} />
+            </View>
+
+            {/* Weigh-ins, smoothed trend and projected goal date */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{texts.weightTrend}</Text>
+              <WeightTrendCard language={isRTL ? "he" : "en"} />
+            </View>
+
+            {/* Expenditure learned from intake and weight, weekly goal changes */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{texts.adaptiveGoals}</Text>
+              <AdaptiveGoalsCard language={isRTL ? "he" : "en"} />
+            </View>
+
+            {/* Training, refeed and rest day targets */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{texts.goalSchedule}</Text>
+              <GoalScheduleCard language={isRTL ? "he" : "en"} />
+            </View>
+
             {/* Lifestyle Metrics */}
             <View style={styles.section}>
               <Text style={styles.sectionTitle}>{texts.lifestyle}</Text>
@@ -1749,6 +1845,22 @@ const styles = StyleSheet.create({
     lineHeight: 24,
     letterSpacing: 0.1,
   },
+  exportButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: 8,
+    marginTop: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: "#E8F6F3",
+  },
+  exportButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#16A085",
+  },
 
   // Enhanced Error & Loading States
   errorContainer: {
@@ -458,6 +458,7 @@ const DynamicListInput: React.FC<{
 interface QuestionnaireData {
   age: string;
   gender: string;
+  pregnancy_status: "NONE" | "PREGNANT" | "LACTATING" | null;
   height_cm: string;
   weight_kg: string;
   target_weight_kg: string | null;
@@ -474,6 +475,8 @@ interface QuestionnaireData {
   available_cooking_methods: string[];
   daily_food_budget: string | null;
   kosher: boolean;
+  kosher_meat_dairy_wait_hours: string | null;
+  kosher_dairy_meat_wait_hours: string | null;
   allergies: string[];
   dietary_style: string;
   sleep_hours_per_night: string | null;
@@ -507,6 +510,7 @@ const QuestionnaireScreen: React.FC = () => {
   const [formData, setFormData] = useState<QuestionnaireData>({
     age: "",
     gender: "",
+    pregnancy_status: null,
     height_cm: "",
     weight_kg: "",
     target_weight_kg: null,
@@ -523,6 +527,8 @@ const QuestionnaireScreen: React.FC = () => {
     available_cooking_methods: [],
     daily_food_budget: null,
     kosher: false,
+    kosher_meat_dairy_wait_hours: null,
+    kosher_dairy_meat_wait_hours: null,
     allergies: [],
     dietary_style: "",
     sleep_hours_per_night: null,
@@ -569,6 +575,7 @@ const QuestionnaireScreen: React.FC = () => {
       setFormData({
         age: safeString(questionnaire.age),
         gender: mapGenderToKey(safeString(questionnaire.gender)),
+        pregnancy_status: questionnaire.pregnancy_status || null,
         height_cm: safeString(questionnaire.height_cm),
         weight_kg: safeString(questionnaire.weight_kg),
         target_weight_kg: safeString(questionnaire.target_weight_kg),
@@ -593,6 +600,10 @@ const QuestionnaireScreen: React.FC = () => {
         ),
         daily_food_budget: safeString(questionnaire.daily_food_budget),
         kosher: safeBoolean(questionnaire.kosher),
+        kosher_meat_dairy_wait_hours:
+          questionnaire.kosher_meat_dairy_wait_hours?.toString() ?? null,
+        kosher_dairy_meat_wait_hours:
+          questionnaire.kosher_dairy_meat_wait_hours?.toString() ?? null,
         allergies: safeArray(questionnaire.allergies),
         dietary_style: safeString(questionnaire.dietary_style),
         sleep_hours_per_night: safeString(questionnaire.sleep_hours_per_night),
@@ -822,6 +833,25 @@ const QuestionnaireScreen: React.FC = () => {
       { key: "other", label: t("questionnaire.other") },
     ];
 
+    const meatDairyWaitOptions = [
+      { key: "1", label: t("questionnaire.waitOneHour") },
+      { key: "3", label: t("questionnaire.waitThreeHours") },
+      { key: "6", label: t("questionnaire.waitSixHours") },
+    ];
+
+    const dairyMeatWaitOptions = [
+      { key: "0", label: t("questionnaire.waitNone") },
+      { key: "0.5", label: t("questionnaire.waitHalfHour") },
+      { key: "1", label: t("questionnaire.waitOneHour") },
+      { key: "6", label: t("questionnaire.waitSixHours") },
+    ];
+
+    const pregnancyOptions = [
+      { key: "NONE", label: t("questionnaire.notPregnant") },
+      { key: "PREGNANT", label: t("questionnaire.pregnant") },
+      { key: "LACTATING", label: t("questionnaire.breastfeeding") },
+    ];
+
     const mealCounts = [
       { key: "2", label: "2" },
       { key: "3", label: "3" },
@@ -875,9 +905,30 @@ const QuestionnaireScreen: React.FC = () => {
               label={t("questionnaire.gender")}
               options={genderOptions}
               selectedValue={formData.gender}
-              onSelect={(value) => setFormData({ ...formData, gender: value })}
+              onSelect={(value) =>
+                setFormData({
+                  ...formData,
+                  gender: value,
+                  pregnancy_status:
+                    value === "male" ? null : formData.pregnancy_status,
+                })
+              }
               required
             />
+            {formData.gender === "female" && (
+              <OptionGroup
+                label={t("questionnaire.pregnancyStatus")}
+                options={pregnancyOptions}
+                selectedValue={formData.pregnancy_status || "NONE"}
+                onSelect={(value) =>
+                  setFormData({
+                    ...formData,
+                    pregnancy_status:
+                      value as QuestionnaireData["pregnancy_status"],
+                  })
+                }
+              />
+            )}
             <CustomTextInput
               label={t("questionnaire.height")}
               value={formData.height_cm}
@@ -1069,6 +1120,32 @@ const QuestionnaireScreen: React.FC = () => {
                 setFormData({ ...formData, kosher: value })
               }
             />
+            {formData.kosher && (
+              <>
+                <OptionGroup
+                  label={t("questionnaire.meatDairyWait")}
+                  options={meatDairyWaitOptions}
+                  selectedValue={formData.kosher_meat_dairy_wait_hours || "6"}
+                  onSelect={(value) =>
+                    setFormData({
+                      ...formData,
+                      kosher_meat_dairy_wait_hours: value,
+                    })
+                  }
+                />
+                <OptionGroup
+                  label={t("questionnaire.dairyMeatWait")}
+                  options={dairyMeatWaitOptions}
+                  selectedValue={formData.kosher_dairy_meat_wait_hours || "0.5"}
+                  onSelect={(value) =>
+                    setFormData({
+                      ...formData,
+                      kosher_dairy_meat_wait_hours: value,
+                    })
+                  }
+                />
+              </>
+            )}
             <CheckboxGroup
               label={t("questionnaire.allergies")}
               options={allergens}
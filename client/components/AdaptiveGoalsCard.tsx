@@ -0,0 +1,447 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+  Alert,
+} from "react-native";
+import { Activity, ArrowRight, Flame, Scale, Watch } from "lucide-react-native";
+import { adaptiveGoalsAPI } from "@/src/services/api";
+import {
+  AdaptiveGoalsMode,
+  AdaptiveGoalsStatus,
+  GoalAdjustment,
+} from "@/src/types";
+
+interface AdaptiveGoalsCardProps {
+  language: "en" | "he";
+}
+
+const MODES: AdaptiveGoalsMode[] = ["OFF", "RECOMMEND", "AUTO_APPLY"];
+
+const formatKcal = (value: number | null) =>
+  value === null ? "—" : Math.round(value).toLocaleString();
+
+export default function AdaptiveGoalsCard({
+  language,
+}: AdaptiveGoalsCardProps) {
+  const [status, setStatus] = useState<AdaptiveGoalsStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const isRTL = language === "he";
+
+  const load = useCallback(async () => {
+    setStatus(await adaptiveGoalsAPI.getStatus());
+  }, []);
+
+  useEffect(() => {
+    setIsLoading(true);
+    load().finally(() => setIsLoading(false));
+  }, [load]);
+
+  const texts = {
+    estimated:
+      language === "he" ? "הוצאה יומית משוערת" : "Estimated daily burn",
+    kcalPerDay: language === "he" ? "קק״ל ליום" : "kcal / day",
+    formula: language === "he" ? "לפי פרופיל" : "Profile formula",
+    measured: language === "he" ? "צריכה ומגמת משקל" : "Intake & weight trend",
+    devices: language === "he" ? "מכשירים" : "Devices",
+    confidence: language === "he" ? "מדוד" : "Measured",
+    loggedDays: language === "he" ? "ימים מתועדים" : "logged days",
+    suggestion: language === "he" ? "הצעה לשבוע הזה" : "This week's suggestion",
+    apply: language === "he" ? "החל" : "Apply",
+    dismiss: language === "he" ? "לא עכשיו" : "Not now",
+    checkNow: language === "he" ? "בדוק עכשיו" : "Check now",
+    upToDate:
+      language === "he"
+        ? "היעד הנוכחי מתאים להוצאה שלך"
+        : "Your current goal matches your burn",
+    protein: language === "he" ? "חלבון" : "Protein",
+    carbs: language === "he" ? "פחמימות" : "Carbs",
+    fats: language === "he" ? "שומנים" : "Fats",
+    error: language === "he" ? "שגיאה" : "Error",
+    modes: {
+      OFF: language === "he" ? "כבוי" : "Off",
+      RECOMMEND: language === "he" ? "הצע" : "Suggest",
+      AUTO_APPLY: language === "he" ? "אוטומטי" : "Automatic",
+    },
+  };
+
+  // The server explains in English, Hebrew is put together from the numbers
+  const explanation = (adjustment: GoalAdjustment) => {
+    if (language !== "he") return adjustment.explanation;
+
+    const burn =
+      adjustment.intake_tdee !== null
+        ? `לפי ${
+            adjustment.logged_days
+          } ימים מתועדים ומגמת המשקל, ההוצאה היומית שלך היא כ-${formatKcal(
+            adjustment.estimated_tdee
+          )} קק״ל.`
+        : `אין עדיין מספיק ארוחות ושקילות מתועדות, ההוצאה היומית מוערכת ב-${formatKcal(
+            adjustment.estimated_tdee
+          )} קק״ל לפי הפרופיל.`;
+    const pace =
+      adjustment.target_weekly_kg === 0
+        ? "כדי לשמור על המשקל"
+        : `כדי ${adjustment.target_weekly_kg < 0 ? "לרדת" : "לעלות"} ${Math.abs(
+            adjustment.target_weekly_kg
+          ).toFixed(2)} ק״ג בשבוע`;
+    return `${burn} ${pace} היעד משתנה מ-${formatKcal(
+      adjustment.previous_calories
+    )} ל-${formatKcal(adjustment.calories)} קק״ל.`;
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsSaving(true);
+    try {
+      await action();
+      await load();
+    } catch (error) {
+      Alert.alert(
+        texts.error,
+        error instanceof Error ? error.message : String(error)
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator color="#16A085" />
+      </View>
+    );
+  }
+
+  if (!status) return null;
+
+  const { estimate, pending } = status;
+  const sources = [
+    {
+      icon: <Activity size={16} color="#64748B" />,
+      label: texts.formula,
+      value: estimate.formula_tdee,
+    },
+    {
+      icon: <Scale size={16} color="#16A085" />,
+      label: `${texts.measured} (${estimate.logged_days} ${texts.loggedDays})`,
+      value: estimate.intake_tdee,
+    },
+    {
+      icon: <Watch size={16} color="#3498DB" />,
+      label: texts.devices,
+      value: estimate.device_tdee,
+    },
+  ];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Flame size={22} color="#E67E22" />
+        <Text style={styles.headerValue}>
+          {formatKcal(estimate.estimated_tdee)}
+        </Text>
+        <Text style={styles.headerUnit}>{texts.kcalPerDay}</Text>
+      </View>
+      <Text style={styles.headerLabel}>{texts.estimated}</Text>
+
+      <View style={styles.barBackground}>
+        <View
+          style={[
+            styles.barFill,
+            { width: `${Math.round(estimate.confidence * 100)}%` },
+          ]}
+        />
+      </View>
+      <Text style={styles.confidenceText}>
+        {texts.confidence}: {Math.round(estimate.confidence * 100)}%
+      </Text>
+
+      {sources.map((source) => (
+        <View
+          key={source.label}
+          style={[styles.sourceRow, isRTL && styles.rowReverse]}
+        >
+          {source.icon}
+          <Text style={[styles.sourceLabel, isRTL && styles.textRight]}>
+            {source.label}
+          </Text>
+          <Text style={styles.sourceValue}>{formatKcal(source.value)}</Text>
+        </View>
+      ))}
+
+      {pending ? (
+        <View style={styles.suggestionBox}>
+          <Text style={[styles.suggestionTitle, isRTL && styles.textRight]}>
+            {texts.suggestion}
+          </Text>
+          <View style={[styles.changeRow, isRTL && styles.rowReverse]}>
+            <Text style={styles.previousValue}>
+              {formatKcal(pending.previous_calories)}
+            </Text>
+            <ArrowRight size={18} color="#0F172A" />
+            <Text style={styles.newValue}>
+              {formatKcal(pending.calories)} {texts.kcalPerDay}
+            </Text>
+          </View>
+          <Text style={[styles.macros, isRTL && styles.textRight]}>
+            {texts.protein} {pending.protein_g}g · {texts.carbs}{" "}
+            {pending.carbs_g}g · {texts.fats} {pending.fats_g}g
+          </Text>
+          <Text style={[styles.explanation, isRTL && styles.textRight]}>
+            {explanation(pending)}
+          </Text>
+          <View style={[styles.buttonRow, isRTL && styles.rowReverse]}>
+            <TouchableOpacity
+              style={[styles.button, styles.secondaryButton]}
+              onPress={() =>
+                run(() =>
+                  adaptiveGoalsAPI.dismissAdjustment(pending.adjustment_id)
+                )
+              }
+              disabled={isSaving}
+            >
+              <Text style={styles.secondaryButtonText}>{texts.dismiss}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.button}
+              onPress={() =>
+                run(() =>
+                  adaptiveGoalsAPI.applyAdjustment(pending.adjustment_id)
+                )
+              }
+              disabled={isSaving}
+            >
+              {isSaving ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.buttonText}>{texts.apply}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <View style={[styles.upToDateRow, isRTL && styles.rowReverse]}>
+          <Text style={[styles.upToDateText, isRTL && styles.textRight]}>
+            {texts.upToDate}
+          </Text>
+          {status.mode !== "OFF" && (
+            <TouchableOpacity
+              onPress={() => run(() => adaptiveGoalsAPI.checkNow())}
+              disabled={isSaving}
+            >
+              <Text style={styles.linkText}>{texts.checkNow}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      <View style={[styles.modeRow, isRTL && styles.rowReverse]}>
+        {MODES.map((mode) => (
+          <TouchableOpacity
+            key={mode}
+            style={[
+              styles.modeButton,
+              status.mode === mode && styles.modeActive,
+            ]}
+            onPress={() => run(() => adaptiveGoalsAPI.setMode(mode))}
+            disabled={isSaving || status.mode === mode}
+          >
+            <Text
+              style={[
+                styles.modeText,
+                status.mode === mode && styles.modeTextActive,
+              ]}
+            >
+              {texts.modes[mode]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 24,
+    padding: 20,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 4,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "baseline",
+    justifyContent: "center",
+    gap: 6,
+  },
+  headerValue: {
+    fontSize: 28,
+    fontWeight: "800",
+    color: "#0F172A",
+  },
+  headerUnit: {
+    fontSize: 14,
+    color: "#64748B",
+  },
+  headerLabel: {
+    fontSize: 13,
+    color: "#64748B",
+    textAlign: "center",
+    marginBottom: 12,
+  },
+  barBackground: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: "#E2E8F0",
+    overflow: "hidden",
+  },
+  barFill: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: "#16A085",
+  },
+  confidenceText: {
+    fontSize: 11,
+    color: "#64748B",
+    textAlign: "center",
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  sourceRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F1F5F9",
+  },
+  sourceLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: "#334155",
+  },
+  sourceValue: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#0F172A",
+  },
+  suggestionBox: {
+    backgroundColor: "#F0FDFA",
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 16,
+    gap: 8,
+  },
+  suggestionTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#0F172A",
+  },
+  changeRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  previousValue: {
+    fontSize: 16,
+    color: "#64748B",
+    textDecorationLine: "line-through",
+  },
+  newValue: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#16A085",
+  },
+  macros: {
+    fontSize: 13,
+    color: "#334155",
+  },
+  explanation: {
+    fontSize: 13,
+    color: "#475569",
+    lineHeight: 19,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 4,
+  },
+  button: {
+    flex: 1,
+    backgroundColor: "#16A085",
+    borderRadius: 12,
+    paddingVertical: 10,
+    alignItems: "center",
+  },
+  secondaryButton: {
+    backgroundColor: "#FFFFFF",
+    borderWidth: 1,
+    borderColor: "#CBD5E1",
+  },
+  buttonText: {
+    color: "#FFFFFF",
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  secondaryButtonText: {
+    color: "#334155",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  upToDateRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 16,
+    gap: 8,
+  },
+  upToDateText: {
+    flex: 1,
+    fontSize: 14,
+    color: "#334155",
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#16A085",
+  },
+  modeRow: {
+    flexDirection: "row",
+    backgroundColor: "#F1F5F9",
+    borderRadius: 12,
+    padding: 4,
+    marginTop: 16,
+  },
+  modeButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 10,
+    alignItems: "center",
+  },
+  modeActive: {
+    backgroundColor: "#FFFFFF",
+  },
+  modeText: {
+    fontSize: 13,
+    color: "#64748B",
+  },
+  modeTextActive: {
+    color: "#16A085",
+    fontWeight: "700",
+  },
+  rowReverse: {
+    flexDirection: "row-reverse",
+  },
+  textRight: {
+    textAlign: "right",
+  },
+});
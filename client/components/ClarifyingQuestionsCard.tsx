@@ -0,0 +1,295 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { HelpCircle } from "lucide-react-native";
+import { ClarificationAnswer, ClarifyingQuestion } from "@/src/types";
+
+interface ClarifyingQuestionsCardProps {
+  questions: ClarifyingQuestion[];
+  language: "en" | "he";
+  isSubmitting: boolean;
+  onSubmit: (answers: ClarificationAnswer[]) => void;
+  onSkip: () => void;
+}
+
+type AnswerValue = string | number | boolean;
+
+const initialAnswers = (questions: ClarifyingQuestion[]) =>
+  Object.fromEntries(
+    questions
+      .filter((question) => question.default_value)
+      .map((question) => [question.id, question.default_value as AnswerValue])
+  );
+
+export default function ClarifyingQuestionsCard({
+  questions,
+  language,
+  isSubmitting,
+  onSubmit,
+  onSkip,
+}: ClarifyingQuestionsCardProps) {
+  const [answers, setAnswers] = useState<Record<string, AnswerValue>>(() =>
+    initialAnswers(questions)
+  );
+  const isRTL = language === "he";
+
+  useEffect(() => {
+    setAnswers(initialAnswers(questions));
+  }, [questions]);
+
+  const texts = {
+    title: language === "he" ? "כמה שאלות קצרות" : "A few quick questions",
+    hint:
+      language === "he"
+        ? "לא הצלחנו להיות בטוחים מהתמונה. התשובות שלך יהפכו את הערכים למדויקים יותר."
+        : "The photo left us unsure. Your answers make the numbers more accurate.",
+    yes: language === "he" ? "כן" : "Yes",
+    no: language === "he" ? "לא" : "No",
+    units: {
+      g: language === "he" ? "גרם" : "g",
+      ml: language === "he" ? "מ״ל" : "ml",
+      pieces: language === "he" ? "יחידות" : "pieces",
+    },
+    submit: language === "he" ? "עדכן ניתוח" : "Update analysis",
+    skip: language === "he" ? "דלג והצג תוצאות" : "Skip and show results",
+  };
+
+  const setAnswer = (id: string, value: AnswerValue | undefined) =>
+    setAnswers((current) => {
+      const next = { ...current };
+      if (value === undefined) delete next[id];
+      else next[id] = value;
+      return next;
+    });
+
+  const submit = () => {
+    onSubmit(
+      questions
+        .filter((question) => answers[question.id] !== undefined)
+        .map((question) => ({
+          id: question.id,
+          kind: question.kind,
+          question: question.question,
+          ingredient: question.ingredient,
+          unit: question.unit,
+          answer: answers[question.id],
+        }))
+    );
+  };
+
+  const hasAnswers = questions.some(
+    (question) => answers[question.id] !== undefined
+  );
+
+  const renderChoice = (
+    question: ClarifyingQuestion,
+    label: string,
+    value: AnswerValue
+  ) => {
+    const isSelected = answers[question.id] === value;
+    return (
+      <TouchableOpacity
+        key={label}
+        style={[styles.chip, isSelected && styles.chipSelected]}
+        onPress={() => setAnswer(question.id, isSelected ? undefined : value)}
+        disabled={isSubmitting}
+      >
+        <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+          {label}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, isRTL && styles.rowReverse]}>
+        <HelpCircle size={20} color="#16A085" />
+        <Text style={[styles.title, isRTL && styles.textRight]}>
+          {texts.title}
+        </Text>
+      </View>
+      <Text style={[styles.hint, isRTL && styles.textRight]}>{texts.hint}</Text>
+
+      {questions.map((question) => (
+        <View key={question.id} style={styles.question}>
+          <Text style={[styles.questionText, isRTL && styles.textRight]}>
+            {question.question}
+          </Text>
+
+          {question.kind === "AMOUNT" ? (
+            <View style={[styles.amountRow, isRTL && styles.rowReverse]}>
+              <TextInput
+                style={styles.amountInput}
+                keyboardType="numeric"
+                value={
+                  answers[question.id] !== undefined
+                    ? String(answers[question.id])
+                    : ""
+                }
+                onChangeText={(text) => {
+                  const value = parseFloat(text.replace(",", "."));
+                  setAnswer(question.id, value > 0 ? value : undefined);
+                }}
+                editable={!isSubmitting}
+              />
+              <Text style={styles.unit}>
+                {texts.units[question.unit || "g"]}
+              </Text>
+            </View>
+          ) : (
+            <View style={[styles.chips, isRTL && styles.rowReverse]}>
+              {question.kind === "YES_NO"
+                ? [
+                    renderChoice(question, texts.yes, true),
+                    renderChoice(question, texts.no, false),
+                  ]
+                : (question.options || []).map((option) =>
+                    renderChoice(question, option, option)
+                  )}
+            </View>
+          )}
+        </View>
+      ))}
+
+      <TouchableOpacity
+        style={[styles.button, !hasAnswers && styles.buttonDisabled]}
+        onPress={submit}
+        disabled={!hasAnswers || isSubmitting}
+      >
+        {isSubmitting ? (
+          <ActivityIndicator color="#FFFFFF" />
+        ) : (
+          <Text style={styles.buttonText}>{texts.submit}</Text>
+        )}
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.skipButton}
+        onPress={onSkip}
+        disabled={isSubmitting}
+      >
+        <Text style={styles.skipText}>{texts.skip}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 24,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 4,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 6,
+  },
+  title: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: "700",
+    color: "#0F172A",
+  },
+  hint: {
+    fontSize: 13,
+    color: "#475569",
+    lineHeight: 19,
+    marginBottom: 12,
+  },
+  question: {
+    marginTop: 12,
+  },
+  questionText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#0F172A",
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1.5,
+    borderColor: "#CBD5E1",
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+  },
+  chipSelected: {
+    borderColor: "#16A085",
+    backgroundColor: "#16A0851A",
+  },
+  chipText: {
+    fontSize: 14,
+    color: "#334155",
+  },
+  chipTextSelected: {
+    color: "#16A085",
+    fontWeight: "600",
+  },
+  amountRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  amountInput: {
+    width: 100,
+    borderWidth: 1.5,
+    borderColor: "#CBD5E1",
+    borderRadius: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    fontSize: 15,
+    color: "#0F172A",
+  },
+  unit: {
+    fontSize: 14,
+    color: "#64748B",
+  },
+  button: {
+    backgroundColor: "#16A085",
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: "center",
+    marginTop: 20,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: "#FFFFFF",
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  skipButton: {
+    alignItems: "center",
+    paddingVertical: 10,
+    marginTop: 4,
+  },
+  skipText: {
+    fontSize: 14,
+    color: "#64748B",
+  },
+  rowReverse: {
+    flexDirection: "row-reverse",
+  },
+  textRight: {
+    textAlign: "right",
+  },
+});
@@ -0,0 +1,323 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import {
+  CheckSquare,
+  Minus,
+  Plus,
+  Square,
+  Utensils,
+} from "lucide-react-native";
+import { DetectedDish, DishSelection, DishSelectionMode } from "@/src/types";
+
+interface DishSplitCardProps {
+  dishes: DetectedDish[];
+  language: "en" | "he";
+  isSaving: boolean;
+  onLog: (selection: DishSelection) => void;
+}
+
+const SERVINGS_STEP = 0.25;
+const MAX_SERVINGS = 4;
+
+type DishChoice = { selected: boolean; servings: number };
+
+const initialChoices = (dishes: DetectedDish[]) =>
+  Object.fromEntries(
+    dishes.map((dish) => [dish.dish_id, { selected: true, servings: 1 }])
+  ) as Record<string, DishChoice>;
+
+export default function DishSplitCard({
+  dishes,
+  language,
+  isSaving,
+  onLog,
+}: DishSplitCardProps) {
+  const [choices, setChoices] = useState(() => initialChoices(dishes));
+  const isRTL = language === "he";
+
+  useEffect(() => {
+    setChoices(initialChoices(dishes));
+  }, [dishes]);
+
+  const texts = {
+    title:
+      language === "he"
+        ? `זיהינו ${dishes.length} מנות בצלחת`
+        : `We found ${dishes.length} dishes on the plate`,
+    hint:
+      language === "he"
+        ? "בטלו את הסימון של מה שלא אכלתם והתאימו את הכמויות."
+        : "Uncheck what you didn't eat and adjust the portions.",
+    kcal: language === "he" ? "קק״ל" : "kcal",
+    g: language === "he" ? "גרם" : "g",
+    total: language === "he" ? "סה״כ" : "Total",
+    combined: language === "he" ? "רשום כארוחה אחת" : "Log as one meal",
+    items: language === "he" ? "רשום כמנות נפרדות" : "Log as separate items",
+  };
+
+  const updateChoice = (dishId: string, change: Partial<DishChoice>) =>
+    setChoices((current) => ({
+      ...current,
+      [dishId]: { ...current[dishId], ...change },
+    }));
+
+  const selected = dishes.filter((dish) => choices[dish.dish_id]?.selected);
+  const totalCalories = selected.reduce(
+    (sum, dish) => sum + dish.calories * choices[dish.dish_id].servings,
+    0
+  );
+
+  const log = (mode: DishSelectionMode) =>
+    onLog({
+      mode,
+      items: selected.map((dish) => ({
+        dish_id: dish.dish_id,
+        servings: choices[dish.dish_id].servings,
+      })),
+    });
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, isRTL && styles.rowReverse]}>
+        <Utensils size={20} color="#16A085" />
+        <Text style={[styles.title, isRTL && styles.textRight]}>
+          {texts.title}
+        </Text>
+      </View>
+      <Text style={[styles.hint, isRTL && styles.textRight]}>{texts.hint}</Text>
+
+      {dishes.map((dish) => {
+        const choice = choices[dish.dish_id] || { selected: true, servings: 1 };
+        return (
+          <View
+            key={dish.dish_id}
+            style={[
+              styles.dishRow,
+              isRTL && styles.rowReverse,
+              !choice.selected && styles.dishRowOff,
+            ]}
+          >
+            <TouchableOpacity
+              onPress={() =>
+                updateChoice(dish.dish_id, { selected: !choice.selected })
+              }
+              disabled={isSaving}
+            >
+              {choice.selected ? (
+                <CheckSquare size={22} color="#16A085" />
+              ) : (
+                <Square size={22} color="#94A3B8" />
+              )}
+            </TouchableOpacity>
+
+            <View style={styles.dishInfo}>
+              <Text style={[styles.dishName, isRTL && styles.textRight]}>
+                {dish.name}
+              </Text>
+              <Text style={[styles.dishMeta, isRTL && styles.textRight]}>
+                {Math.round(dish.calories * choice.servings)} {texts.kcal}
+                {dish.portion_g
+                  ? ` · ${Math.round(dish.portion_g * choice.servings)} ${
+                      texts.g
+                    }`
+                  : ""}
+              </Text>
+            </View>
+
+            <View style={[styles.stepper, isRTL && styles.rowReverse]}>
+              <TouchableOpacity
+                style={styles.stepButton}
+                onPress={() =>
+                  updateChoice(dish.dish_id, {
+                    servings: Math.max(
+                      SERVINGS_STEP,
+                      choice.servings - SERVINGS_STEP
+                    ),
+                  })
+                }
+                disabled={!choice.selected || isSaving}
+              >
+                <Minus size={14} color="#334155" />
+              </TouchableOpacity>
+              <Text style={styles.servings}>×{choice.servings}</Text>
+              <TouchableOpacity
+                style={styles.stepButton}
+                onPress={() =>
+                  updateChoice(dish.dish_id, {
+                    servings: Math.min(
+                      MAX_SERVINGS,
+                      choice.servings + SERVINGS_STEP
+                    ),
+                  })
+                }
+                disabled={!choice.selected || isSaving}
+              >
+                <Plus size={14} color="#334155" />
+              </TouchableOpacity>
+            </View>
+          </View>
+        );
+      })}
+
+      <Text style={[styles.total, isRTL && styles.textRight]}>
+        {texts.total}: {Math.round(totalCalories)} {texts.kcal}
+      </Text>
+
+      {isSaving ? (
+        <ActivityIndicator color="#16A085" style={styles.spinner} />
+      ) : (
+        <View style={[styles.buttons, isRTL && styles.rowReverse]}>
+          <TouchableOpacity
+            style={[
+              styles.button,
+              styles.buttonOutline,
+              selected.length === 0 && styles.buttonDisabled,
+            ]}
+            onPress={() => log("COMBINED")}
+            disabled={selected.length === 0}
+          >
+            <Text style={styles.buttonOutlineText}>{texts.combined}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.button,
+              selected.length === 0 && styles.buttonDisabled,
+            ]}
+            onPress={() => log("ITEMS")}
+            disabled={selected.length === 0}
+          >
+            <Text style={styles.buttonText}>{texts.items}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 24,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 4,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 6,
+  },
+  title: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: "700",
+    color: "#0F172A",
+  },
+  hint: {
+    fontSize: 13,
+    color: "#475569",
+    lineHeight: 19,
+    marginBottom: 8,
+  },
+  dishRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F1F5F9",
+  },
+  dishRowOff: {
+    opacity: 0.5,
+  },
+  dishInfo: {
+    flex: 1,
+  },
+  dishName: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#0F172A",
+  },
+  dishMeta: {
+    fontSize: 13,
+    color: "#64748B",
+    marginTop: 2,
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  stepButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 1.5,
+    borderColor: "#CBD5E1",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  servings: {
+    minWidth: 40,
+    textAlign: "center",
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#334155",
+  },
+  total: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#0F172A",
+    marginTop: 12,
+  },
+  spinner: {
+    marginTop: 16,
+  },
+  buttons: {
+    flexDirection: "row",
+    gap: 10,
+    marginTop: 16,
+  },
+  button: {
+    flex: 1,
+    backgroundColor: "#16A085",
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  buttonOutline: {
+    backgroundColor: "transparent",
+    borderWidth: 1.5,
+    borderColor: "#16A085",
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  buttonOutlineText: {
+    color: "#16A085",
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  rowReverse: {
+    flexDirection: "row-reverse",
+  },
+  textRight: {
+    textAlign: "right",
+  },
+});
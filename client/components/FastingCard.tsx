@@ -0,0 +1,325 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+  Alert,
+} from "react-native";
+import { AlertTriangle, Flame, Timer, Trophy } from "lucide-react-native";
+import { fastingAPI } from "@/src/services/api";
+import { Fast, FastingStats } from "@/src/types";
+
+interface FastingCardProps {
+  language: "en" | "he";
+}
+
+const formatHours = (hours: number) => {
+  const whole = Math.floor(hours);
+  const minutes = Math.round((hours - whole) * 60);
+  return `${whole}:${String(minutes).padStart(2, "0")}`;
+};
+
+export default function FastingCard({ language }: FastingCardProps) {
+  const [stats, setStats] = useState<FastingStats | null>(null);
+  const [history, setHistory] = useState<Fast[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const isRTL = language === "he";
+
+  const load = useCallback(async () => {
+    const [statsData, historyData] = await Promise.all([
+      fastingAPI.getStats(),
+      fastingAPI.getHistory(5),
+    ]);
+    setStats(statsData);
+    setHistory(historyData);
+  }, []);
+
+  useEffect(() => {
+    setIsLoading(true);
+    load().finally(() => setIsLoading(false));
+  }, [load]);
+
+  const texts = {
+    protocol: language === "he" ? "פרוטוקול" : "Protocol",
+    noFast: language === "he" ? "אין צום פעיל" : "No fast in progress",
+    fasting: language === "he" ? "בצום" : "Fasting",
+    of: language === "he" ? "מתוך" : "of",
+    start: language === "he" ? "התחל צום" : "Start fast",
+    stop: language === "he" ? "סיים צום" : "End fast",
+    currentStreak: language === "he" ? "רצף נוכחי" : "Current streak",
+    bestStreak: language === "he" ? "רצף שיא" : "Best streak",
+    completed: language === "he" ? "צומות שהושלמו" : "Fasts completed",
+    average: language === "he" ? "ממוצע שעות" : "Average hours",
+    violations:
+      language === "he"
+        ? "חלונות אכילה ארוכים מדי ב-30 הימים האחרונים"
+        : "Eating windows over the limit in the last 30 days",
+    history: language === "he" ? "צומות אחרונים" : "Recent fasts",
+    broken: language === "he" ? "נשבר" : "Broken",
+    detected: language === "he" ? "זוהה אוטומטית" : "Detected",
+    error: language === "he" ? "שגיאה" : "Error",
+  };
+
+  const handleToggle = async () => {
+    setIsSaving(true);
+    try {
+      if (stats?.active) {
+        await fastingAPI.stopFast();
+      } else {
+        await fastingAPI.startFast();
+      }
+      await load();
+    } catch (error) {
+      Alert.alert(
+        texts.error,
+        error instanceof Error ? error.message : String(error)
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator color="#16A085" />
+      </View>
+    );
+  }
+
+  if (!stats) return null;
+
+  const active = stats.active;
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.protocol, isRTL && styles.textRight]}>
+        {texts.protocol}: {stats.protocol.label[language]} (
+        {stats.protocol.target_hours}h)
+      </Text>
+
+      <View style={styles.activeBox}>
+        {active ? (
+          <>
+            <Text style={styles.activeTitle}>
+              {texts.fasting} {formatHours(active.duration_hours)} {texts.of}{" "}
+              {active.target_hours}h
+            </Text>
+            <View style={styles.barBackground}>
+              <View
+                style={[
+                  styles.barFill,
+                  { width: `${active.progress_percent}%` },
+                ]}
+              />
+            </View>
+          </>
+        ) : (
+          <Text style={styles.activeTitle}>{texts.noFast}</Text>
+        )}
+        <TouchableOpacity
+          style={[styles.button, active && styles.stopButton]}
+          onPress={handleToggle}
+          disabled={isSaving}
+        >
+          {isSaving ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <Text style={styles.buttonText}>
+              {active ? texts.stop : texts.start}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <View style={[styles.statsRow, isRTL && styles.rowReverse]}>
+        <View style={styles.stat}>
+          <Flame size={18} color="#E74C3C" />
+          <Text style={styles.statValue}>{stats.current_streak}</Text>
+          <Text style={styles.statLabel}>{texts.currentStreak}</Text>
+        </View>
+        <View style={styles.stat}>
+          <Trophy size={18} color="#F39C12" />
+          <Text style={styles.statValue}>{stats.best_streak}</Text>
+          <Text style={styles.statLabel}>{texts.bestStreak}</Text>
+        </View>
+        <View style={styles.stat}>
+          <Timer size={18} color="#16A085" />
+          <Text style={styles.statValue}>{stats.completed_fasts}</Text>
+          <Text style={styles.statLabel}>{texts.completed}</Text>
+        </View>
+        <View style={styles.stat}>
+          <Timer size={18} color="#3498DB" />
+          <Text style={styles.statValue}>{stats.average_hours}</Text>
+          <Text style={styles.statLabel}>{texts.average}</Text>
+        </View>
+      </View>
+
+      {stats.window_violations > 0 && (
+        <View style={[styles.flag, isRTL && styles.rowReverse]}>
+          <AlertTriangle size={18} color="#E74C3C" />
+          <Text style={styles.flagText}>
+            {texts.violations}: {stats.window_violations}
+          </Text>
+        </View>
+      )}
+
+      {history.length > 0 && (
+        <View style={styles.history}>
+          <Text style={[styles.historyTitle, isRTL && styles.textRight]}>
+            {texts.history}
+          </Text>
+          {history.map((fast) => (
+            <View
+              key={fast.fast_id}
+              style={[styles.historyRow, isRTL && styles.rowReverse]}
+            >
+              <Text style={styles.historyDate}>
+                {new Date(fast.started_at).toLocaleDateString(
+                  isRTL ? "he-IL" : "en-US"
+                )}
+              </Text>
+              <Text
+                style={[
+                  styles.historyHours,
+                  fast.status === "BROKEN" && styles.brokenText,
+                ]}
+              >
+                {formatHours(fast.duration_hours)}
+                {fast.status === "BROKEN" && ` · ${texts.broken}`}
+                {fast.source === "DETECTED" && ` · ${texts.detected}`}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 24,
+    padding: 20,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 4,
+  },
+  protocol: {
+    fontSize: 13,
+    color: "#64748B",
+    marginBottom: 12,
+  },
+  activeBox: {
+    backgroundColor: "#F0FDFA",
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  activeTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#0F172A",
+    textAlign: "center",
+    marginBottom: 8,
+  },
+  barBackground: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: "#E2E8F0",
+    overflow: "hidden",
+    marginBottom: 8,
+  },
+  barFill: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: "#16A085",
+  },
+  button: {
+    backgroundColor: "#16A085",
+    borderRadius: 12,
+    paddingVertical: 10,
+    alignItems: "center",
+    marginTop: 4,
+  },
+  stopButton: {
+    backgroundColor: "#E74C3C",
+  },
+  buttonText: {
+    color: "#FFFFFF",
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  statsRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 12,
+  },
+  stat: {
+    flex: 1,
+    alignItems: "center",
+    gap: 4,
+  },
+  statValue: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#0F172A",
+  },
+  statLabel: {
+    fontSize: 11,
+    color: "#64748B",
+    textAlign: "center",
+  },
+  flag: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 8,
+  },
+  flagText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#0F172A",
+  },
+  history: {
+    marginTop: 8,
+  },
+  historyTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#0F172A",
+    marginBottom: 8,
+  },
+  historyRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F1F5F9",
+  },
+  historyDate: {
+    fontSize: 14,
+    color: "#334155",
+  },
+  historyHours: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#16A085",
+  },
+  brokenText: {
+    color: "#E74C3C",
+  },
+  rowReverse: {
+    flexDirection: "row-reverse",
+  },
+  textRight: {
+    textAlign: "right",
+  },
+});
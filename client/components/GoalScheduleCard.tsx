@@ -0,0 +1,249 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+  Alert,
+} from "react-native";
+import { CalendarDays } from "lucide-react-native";
+import { dailyGoalsAPI } from "@/src/services/api";
+import { GoalDayType, GoalSchedule } from "@/src/types";
+
+interface GoalScheduleCardProps {
+  language: "en" | "he";
+}
+
+// Tapping a day moves it to the next type
+const NEXT_DAY_TYPE: Record<GoalDayType, GoalDayType> = {
+  REST: "TRAINING",
+  TRAINING: "REFEED",
+  REFEED: "REST",
+};
+
+const DAY_TYPE_COLORS: Record<GoalDayType, string> = {
+  REST: "#94A3B8",
+  TRAINING: "#16A085",
+  REFEED: "#E67E22",
+};
+
+export default function GoalScheduleCard({ language }: GoalScheduleCardProps) {
+  const [schedule, setSchedule] = useState<GoalSchedule | null>(null);
+  const [dayTypes, setDayTypes] = useState<GoalDayType[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const isRTL = language === "he";
+
+  const load = useCallback(async () => {
+    const data = await dailyGoalsAPI.getSchedule();
+    setSchedule(data);
+    setDayTypes(data ? data.week.map((day) => day.day_type) : []);
+  }, []);
+
+  useEffect(() => {
+    setIsLoading(true);
+    load().finally(() => setIsLoading(false));
+  }, [load]);
+
+  const texts = {
+    dayNames:
+      language === "he"
+        ? ["א", "ב", "ג", "ד", "ה", "ו", "ש"]
+        : ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"],
+    hint:
+      language === "he"
+        ? "הקש על יום כדי לסמן אימון או יום העמסה. ימי מנוחה מאזנים את הפחמימות הנוספות."
+        : "Tap a day to mark it as training or refeed. Rest days balance out the extra carbs.",
+    dayTypes: {
+      REST: language === "he" ? "מנוחה" : "Rest",
+      TRAINING: language === "he" ? "אימון" : "Training",
+      REFEED: language === "he" ? "העמסה" : "Refeed",
+    },
+    kcal: language === "he" ? "קק״ל" : "kcal",
+    carbs: language === "he" ? "פחמ׳" : "carbs",
+    save: language === "he" ? "שמור מהיום" : "Save from today",
+    error: language === "he" ? "שגיאה" : "Error",
+  };
+
+  const isChanged =
+    !!schedule &&
+    schedule.week.some((day, index) => day.day_type !== dayTypes[index]);
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const weekdays = (type: GoalDayType) =>
+        dayTypes.flatMap((dayType, weekday) =>
+          dayType === type ? [weekday] : []
+        );
+      const updated = await dailyGoalsAPI.updateSchedule({
+        training_days: weekdays("TRAINING"),
+        refeed_days: weekdays("REFEED"),
+      });
+      setSchedule(updated);
+      setDayTypes(updated.week.map((day) => day.day_type));
+    } catch (error) {
+      Alert.alert(
+        texts.error,
+        error instanceof Error ? error.message : String(error)
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator color="#16A085" />
+      </View>
+    );
+  }
+
+  if (!schedule) return null;
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, isRTL && styles.rowReverse]}>
+        <CalendarDays size={20} color="#16A085" />
+        <Text style={[styles.hint, isRTL && styles.textRight]}>
+          {texts.hint}
+        </Text>
+      </View>
+
+      <View style={[styles.week, isRTL && styles.rowReverse]}>
+        {schedule.week.map((day, index) => {
+          const dayType = dayTypes[index];
+          // Targets shown are the saved ones until the schedule is saved
+          const isSaved = dayType === day.day_type;
+          return (
+            <TouchableOpacity
+              key={day.weekday}
+              style={[
+                styles.day,
+                { borderColor: DAY_TYPE_COLORS[dayType] },
+                dayType !== "REST" && {
+                  backgroundColor: `${DAY_TYPE_COLORS[dayType]}1A`,
+                },
+              ]}
+              onPress={() =>
+                setDayTypes((current) =>
+                  current.map((type, weekday) =>
+                    weekday === index ? NEXT_DAY_TYPE[type] : type
+                  )
+                )
+              }
+              disabled={isSaving}
+            >
+              <Text style={styles.dayName}>{texts.dayNames[day.weekday]}</Text>
+              <Text
+                style={[styles.dayType, { color: DAY_TYPE_COLORS[dayType] }]}
+                numberOfLines={1}
+              >
+                {texts.dayTypes[dayType]}
+              </Text>
+              <Text style={styles.dayValue}>
+                {isSaved ? day.calories : "—"}
+              </Text>
+              <Text style={styles.dayUnit}>{texts.kcal}</Text>
+              <Text style={styles.dayValue}>
+                {isSaved ? `${day.carbs_g}g` : "—"}
+              </Text>
+              <Text style={styles.dayUnit}>{texts.carbs}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {isChanged && (
+        <TouchableOpacity
+          style={styles.button}
+          onPress={save}
+          disabled={isSaving}
+        >
+          {isSaving ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <Text style={styles.buttonText}>{texts.save}</Text>
+          )}
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 24,
+    padding: 20,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 4,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 16,
+  },
+  hint: {
+    flex: 1,
+    fontSize: 13,
+    color: "#475569",
+    lineHeight: 19,
+  },
+  week: {
+    flexDirection: "row",
+    gap: 4,
+  },
+  day: {
+    flex: 1,
+    alignItems: "center",
+    borderWidth: 1.5,
+    borderRadius: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 2,
+  },
+  dayName: {
+    fontSize: 13,
+    fontWeight: "700",
+    color: "#0F172A",
+  },
+  dayType: {
+    fontSize: 10,
+    fontWeight: "600",
+    marginBottom: 6,
+  },
+  dayValue: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#0F172A",
+  },
+  dayUnit: {
+    fontSize: 9,
+    color: "#64748B",
+    marginBottom: 4,
+  },
+  button: {
+    backgroundColor: "#16A085",
+    borderRadius: 12,
+    paddingVertical: 10,
+    alignItems: "center",
+    marginTop: 16,
+  },
+  buttonText: {
+    color: "#FFFFFF",
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  rowReverse: {
+    flexDirection: "row-reverse",
+  },
+  textRight: {
+    textAlign: "right",
+  },
+});
@@ -0,0 +1,270 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, StyleSheet, ActivityIndicator } from "react-native";
+import { AlertTriangle, CheckCircle, TrendingUp } from "lucide-react-native";
+import { statisticsAPI } from "@/src/services/api";
+import {
+  MicronutrientCoverage,
+  MicronutrientStatus,
+  NutrientCoverage,
+} from "@/src/types";
+
+interface MicronutrientCoverageCardProps {
+  period: "day" | "week";
+  language: "en" | "he";
+}
+
+const NUTRIENT_LABELS: Record<string, { en: string; he: string }> = {
+  vitamin_a_mcg: { en: "Vitamin A", he: "ויטמין A" },
+  vitamin_c_mg: { en: "Vitamin C", he: "ויטמין C" },
+  vitamin_d_mcg: { en: "Vitamin D", he: "ויטמין D" },
+  vitamin_e_mg: { en: "Vitamin E", he: "ויטמין E" },
+  vitamin_k_mcg: { en: "Vitamin K", he: "ויטמין K" },
+  vitamin_b12_mcg: { en: "Vitamin B12", he: "ויטמין B12" },
+  folate_mcg: { en: "Folate", he: "חומצה פולית" },
+  niacin_mg: { en: "Niacin (B3)", he: "ניאצין (B3)" },
+  thiamin_mg: { en: "Thiamin (B1)", he: "תיאמין (B1)" },
+  riboflavin_mg: { en: "Riboflavin (B2)", he: "ריבופלבין (B2)" },
+  pantothenic_acid_mg: {
+    en: "Pantothenic acid (B5)",
+    he: "חומצה פנטותנית (B5)",
+  },
+  vitamin_b6_mg: { en: "Vitamin B6", he: "ויטמין B6" },
+  iron_mg: { en: "Iron", he: "ברזל" },
+  magnesium_mg: { en: "Magnesium", he: "מגנזיום" },
+  zinc_mg: { en: "Zinc", he: "אבץ" },
+  calcium_mg: { en: "Calcium", he: "סידן" },
+  potassium_mg: { en: "Potassium", he: "אשלגן" },
+  phosphorus_mg: { en: "Phosphorus", he: "זרחן" },
+  selenium_mcg: { en: "Selenium", he: "סלניום" },
+  copper_mg: { en: "Copper", he: "נחושת" },
+  manganese_mg: { en: "Manganese", he: "מנגן" },
+  fiber_g: { en: "Fiber", he: "סיבים תזונתיים" },
+  sodium_mg: { en: "Sodium", he: "נתרן" },
+};
+
+const STATUS_COLORS: Record<MicronutrientStatus, string> = {
+  deficient: "#E74C3C",
+  low: "#F39C12",
+  adequate: "#2ECC71",
+  excess: "#8E44AD",
+};
+
+export default function MicronutrientCoverageCard({
+  period,
+  language,
+}: MicronutrientCoverageCardProps) {
+  const [coverage, setCoverage] = useState<MicronutrientCoverage | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const isRTL = language === "he";
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    statisticsAPI.getMicronutrientCoverage(period).then((data) => {
+      if (cancelled) return;
+      setCoverage(data);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [period]);
+
+  const texts = {
+    noData:
+      language === "he"
+        ? "אין ארוחות מתועדות בתקופה זו"
+        : "No meals logged in this period",
+    basedOn:
+      language === "he"
+        ? `ממוצע יומי של ${coverage?.days_logged} ימים, ${coverage?.meals_with_micronutrients}/${coverage?.meals_logged} ארוחות עם נתוני ויטמינים ומינרלים`
+        : `Daily average over ${coverage?.days_logged} days, ${coverage?.meals_with_micronutrients}/${coverage?.meals_logged} meals with vitamin and mineral data`,
+    deficient: language === "he" ? "חסר" : "Deficient",
+    excess: language === "he" ? "מעל הגבול העליון" : "Above upper limit",
+    allAdequate:
+      language === "he"
+        ? "אין חוסרים או עודפים"
+        : "No deficiencies or excesses",
+    vitamins: language === "he" ? "ויטמינים" : "Vitamins",
+    minerals: language === "he" ? "מינרלים" : "Minerals",
+    other: language === "he" ? "נוספים" : "Other",
+  };
+
+  const labelOf = (nutrient: string) =>
+    NUTRIENT_LABELS[nutrient]?.[language] || nutrient;
+
+  if (isLoading) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator color="#16A085" />
+      </View>
+    );
+  }
+
+  if (!coverage || coverage.days_logged === 0) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.emptyText}>{texts.noData}</Text>
+      </View>
+    );
+  }
+
+  const renderNutrient = (nutrient: NutrientCoverage) => {
+    const color = STATUS_COLORS[nutrient.status];
+    return (
+      <View key={nutrient.nutrient} style={styles.nutrientRow}>
+        <View style={[styles.nutrientHeader, isRTL && styles.rowReverse]}>
+          <Text style={styles.nutrientName}>{labelOf(nutrient.nutrient)}</Text>
+          <Text style={[styles.nutrientPercent, { color }]}>
+            {nutrient.percent_of_target}%
+          </Text>
+        </View>
+        <View style={styles.barBackground}>
+          <View
+            style={[
+              styles.barFill,
+              {
+                width: `${Math.min(nutrient.percent_of_target, 100)}%`,
+                backgroundColor: color,
+              },
+            ]}
+          />
+        </View>
+        <Text style={[styles.nutrientAmounts, isRTL && styles.textRight]}>
+          {nutrient.intake} / {nutrient.target} {nutrient.unit}
+          {nutrient.upper_limit !== null &&
+            ` (max ${nutrient.upper_limit} ${nutrient.unit})`}
+        </Text>
+      </View>
+    );
+  };
+
+  const groups: NutrientCoverage["group"][] = ["vitamins", "minerals", "other"];
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.basedOn, isRTL && styles.textRight]}>
+        {texts.basedOn}
+      </Text>
+
+      {coverage.deficiencies.length === 0 && coverage.excesses.length === 0 ? (
+        <View style={[styles.flag, isRTL && styles.rowReverse]}>
+          <CheckCircle size={18} color={STATUS_COLORS.adequate} />
+          <Text style={styles.flagText}>{texts.allAdequate}</Text>
+        </View>
+      ) : (
+        <>
+          {coverage.deficiencies.length > 0 && (
+            <View style={[styles.flag, isRTL && styles.rowReverse]}>
+              <AlertTriangle size={18} color={STATUS_COLORS.deficient} />
+              <Text style={styles.flagText}>
+                {texts.deficient}:{" "}
+                {coverage.deficiencies.map(labelOf).join(", ")}
+              </Text>
+            </View>
+          )}
+          {coverage.excesses.length > 0 && (
+            <View style={[styles.flag, isRTL && styles.rowReverse]}>
+              <TrendingUp size={18} color={STATUS_COLORS.excess} />
+              <Text style={styles.flagText}>
+                {texts.excess}: {coverage.excesses.map(labelOf).join(", ")}
+              </Text>
+            </View>
+          )}
+        </>
+      )}
+
+      {groups.map((group) => (
+        <View key={group} style={styles.group}>
+          <Text style={[styles.groupTitle, isRTL && styles.textRight]}>
+            {texts[group]}
+          </Text>
+          {coverage.nutrients
+            .filter((nutrient) => nutrient.group === group)
+            .map(renderNutrient)}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 24,
+    padding: 20,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#64748B",
+    textAlign: "center",
+  },
+  basedOn: {
+    fontSize: 13,
+    color: "#64748B",
+    marginBottom: 12,
+  },
+  flag: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 8,
+  },
+  flagText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#0F172A",
+  },
+  group: {
+    marginTop: 16,
+  },
+  groupTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#0F172A",
+    marginBottom: 8,
+  },
+  nutrientRow: {
+    marginBottom: 12,
+  },
+  nutrientHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 4,
+  },
+  nutrientName: {
+    fontSize: 14,
+    color: "#334155",
+  },
+  nutrientPercent: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  barBackground: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: "#E2E8F0",
+    overflow: "hidden",
+  },
+  barFill: {
+    height: 6,
+    borderRadius: 3,
+  },
+  nutrientAmounts: {
+    fontSize: 12,
+    color: "#94A3B8",
+    marginTop: 2,
+  },
+  rowReverse: {
+    flexDirection: "row-reverse",
+  },
+  textRight: {
+    textAlign: "right",
+  },
+});
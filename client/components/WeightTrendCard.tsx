@@ -0,0 +1,396 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Dimensions,
+} from "react-native";
+import { LineChart } from "react-native-chart-kit";
+import { Scale, Target, TrendingDown, TrendingUp } from "lucide-react-native";
+import { weightAPI } from "@/src/services/api";
+import { WeightProjection, WeightTrend } from "@/src/types";
+
+interface WeightTrendCardProps {
+  language: "en" | "he";
+}
+
+// Keeps the x axis readable on a phone
+const MAX_LABELS = 6;
+
+const formatKg = (value: number | null) =>
+  value === null ? "—" : `${value.toFixed(1)}`;
+
+const formatRate = (value: number | null) =>
+  value === null ? "—" : `${value > 0 ? "+" : ""}${value.toFixed(2)}`;
+
+export default function WeightTrendCard({ language }: WeightTrendCardProps) {
+  const [trend, setTrend] = useState<WeightTrend | null>(null);
+  const [weight, setWeight] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const isRTL = language === "he";
+  const locale = isRTL ? "he-IL" : "en-US";
+
+  const load = useCallback(async () => {
+    setTrend(await weightAPI.getTrend(90));
+  }, []);
+
+  useEffect(() => {
+    setIsLoading(true);
+    load().finally(() => setIsLoading(false));
+  }, [load]);
+
+  const texts = {
+    latest: language === "he" ? "שקילה אחרונה" : "Latest",
+    trend: language === "he" ? "מגמה" : "Trend",
+    weeklyRate: language === "he" ? "ק״ג לשבוע" : "kg / week",
+    weighIns: language === "he" ? "שקילות" : "Weigh-ins",
+    trendLine: language === "he" ? "קו מגמה" : "Trend line",
+    placeholder: language === "he" ? "משקל בק״ג" : "Weight in kg",
+    log: language === "he" ? "שמור שקילה" : "Log weigh-in",
+    noData:
+      language === "he"
+        ? "עדיין אין שקילות. הוסף שקילה או חבר משקל חכם."
+        : "No weigh-ins yet. Log one or connect a smart scale.",
+    duplicate:
+      language === "he"
+        ? "שקילה זהה כבר נרשמה היום"
+        : "The same weight is already logged today",
+    invalid:
+      language === "he" ? "נא להזין משקל תקין" : "Please enter a valid weight",
+    error: language === "he" ? "שגיאה" : "Error",
+    target: language === "he" ? "יעד" : "Target",
+    goalDate: language === "he" ? "תאריך יעד" : "Goal date",
+    projected: language === "he" ? "צפי הגעה" : "Projected",
+    required: language === "he" ? "קצב נדרש" : "Required pace",
+  };
+
+  const projectionText = (projection: WeightProjection) => {
+    switch (projection.status) {
+      case "no_target":
+        return language === "he"
+          ? "הגדר משקל יעד בשאלון כדי לראות צפי"
+          : "Set a target weight in the questionnaire to see a projection";
+      case "not_enough_data":
+        return language === "he"
+          ? "נדרש שבוע של שקילות לחישוב צפי"
+          : "A week of weigh-ins is needed for a projection";
+      case "reached":
+        return language === "he"
+          ? "הגעת למשקל היעד!"
+          : "Target weight reached!";
+      case "on_track":
+        return language === "he"
+          ? "בדרך הנכונה ליעד"
+          : "On track for your goal";
+      case "behind":
+        return language === "he"
+          ? "בקצב הנוכחי היעד יושג אחרי תאריך היעד"
+          : "At this pace you'll reach the target after your goal date";
+      case "moving_away":
+        return language === "he"
+          ? "המגמה מתרחקת מהיעד"
+          : "The trend is moving away from your target";
+    }
+  };
+
+  const handleLog = async () => {
+    const value = parseFloat(weight.replace(",", "."));
+    if (!value || value < 20 || value > 400) {
+      Alert.alert(texts.error, texts.invalid);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await weightAPI.addWeighIn(value);
+      if (result.duplicate) Alert.alert(texts.weighIns, texts.duplicate);
+      setWeight("");
+      await load();
+    } catch (error) {
+      Alert.alert(
+        texts.error,
+        error instanceof Error ? error.message : String(error)
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator color="#16A085" />
+      </View>
+    );
+  }
+
+  if (!trend) return null;
+
+  const { points, projection } = trend;
+  const labelEvery = Math.max(1, Math.ceil(points.length / MAX_LABELS));
+  const losing = (trend.weekly_rate_kg || 0) < 0;
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.statsRow, isRTL && styles.rowReverse]}>
+        <View style={styles.stat}>
+          <Scale size={18} color="#3498DB" />
+          <Text style={styles.statValue}>
+            {formatKg(trend.latest_weight_kg)}
+          </Text>
+          <Text style={styles.statLabel}>{texts.latest}</Text>
+        </View>
+        <View style={styles.stat}>
+          <Scale size={18} color="#16A085" />
+          <Text style={styles.statValue}>
+            {formatKg(trend.trend_weight_kg)}
+          </Text>
+          <Text style={styles.statLabel}>{texts.trend}</Text>
+        </View>
+        <View style={styles.stat}>
+          {losing ? (
+            <TrendingDown size={18} color="#16A085" />
+          ) : (
+            <TrendingUp size={18} color="#F39C12" />
+          )}
+          <Text style={styles.statValue}>
+            {formatRate(trend.weekly_rate_kg)}
+          </Text>
+          <Text style={styles.statLabel}>{texts.weeklyRate}</Text>
+        </View>
+      </View>
+
+      {points.length > 1 ? (
+        <>
+          <LineChart
+            data={{
+              labels: points.map((point, index) =>
+                index % labelEvery === 0
+                  ? new Date(point.date).toLocaleDateString(locale, {
+                      day: "numeric",
+                      month: "numeric",
+                    })
+                  : ""
+              ),
+              datasets: [
+                {
+                  data: points.map((point) => point.weight_kg),
+                  color: () => "#94A3B8",
+                  strokeWidth: 1,
+                },
+                {
+                  data: points.map((point) => point.trend_kg),
+                  color: () => "#16A085",
+                  strokeWidth: 3,
+                },
+              ],
+            }}
+            width={Dimensions.get("window").width - 80}
+            height={180}
+            withDots={points.length <= 30}
+            withShadow={false}
+            withInnerLines={false}
+            yAxisSuffix=""
+            chartConfig={{
+              backgroundGradientFrom: "#FFFFFF",
+              backgroundGradientTo: "#FFFFFF",
+              decimalPlaces: 1,
+              color: (opacity = 1) => `rgba(22, 160, 133, ${opacity})`,
+              labelColor: () => "#64748B",
+              propsForDots: { r: "2" },
+            }}
+            bezier
+            style={styles.chart}
+          />
+          <View style={[styles.legend, isRTL && styles.rowReverse]}>
+            <View style={[styles.legendDot, styles.weighInDot]} />
+            <Text style={styles.legendText}>{texts.weighIns}</Text>
+            <View style={[styles.legendDot, styles.trendDot]} />
+            <Text style={styles.legendText}>{texts.trendLine}</Text>
+          </View>
+        </>
+      ) : (
+        <Text style={styles.emptyText}>{texts.noData}</Text>
+      )}
+
+      <View style={styles.projectionBox}>
+        <View style={[styles.projectionHeader, isRTL && styles.rowReverse]}>
+          <Target size={18} color="#16A085" />
+          <Text style={[styles.projectionTitle, isRTL && styles.textRight]}>
+            {projectionText(projection)}
+          </Text>
+        </View>
+        {projection.target_weight_kg !== null && (
+          <Text style={[styles.projectionDetail, isRTL && styles.textRight]}>
+            {texts.target}: {formatKg(projection.target_weight_kg)}
+            {projection.goal_date &&
+              ` · ${texts.goalDate}: ${new Date(
+                projection.goal_date
+              ).toLocaleDateString(locale)}`}
+          </Text>
+        )}
+        {projection.projected_date && (
+          <Text style={[styles.projectionDetail, isRTL && styles.textRight]}>
+            {texts.projected}:{" "}
+            {new Date(projection.projected_date).toLocaleDateString(locale)}
+          </Text>
+        )}
+        {projection.required_weekly_rate_kg !== null &&
+          projection.status !== "reached" && (
+            <Text style={[styles.projectionDetail, isRTL && styles.textRight]}>
+              {texts.required}: {formatRate(projection.required_weekly_rate_kg)}{" "}
+              {texts.weeklyRate}
+            </Text>
+          )}
+      </View>
+
+      <View style={[styles.inputRow, isRTL && styles.rowReverse]}>
+        <TextInput
+          style={[styles.input, isRTL && styles.textRight]}
+          value={weight}
+          onChangeText={setWeight}
+          placeholder={texts.placeholder}
+          keyboardType="decimal-pad"
+        />
+        <TouchableOpacity
+          style={styles.button}
+          onPress={handleLog}
+          disabled={isSaving}
+        >
+          {isSaving ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <Text style={styles.buttonText}>{texts.log}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 24,
+    padding: 20,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 4,
+  },
+  statsRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 12,
+  },
+  stat: {
+    flex: 1,
+    alignItems: "center",
+    gap: 4,
+  },
+  statValue: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#0F172A",
+  },
+  statLabel: {
+    fontSize: 11,
+    color: "#64748B",
+    textAlign: "center",
+  },
+  chart: {
+    marginLeft: -16,
+    borderRadius: 16,
+  },
+  legend: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  weighInDot: {
+    backgroundColor: "#94A3B8",
+  },
+  trendDot: {
+    backgroundColor: "#16A085",
+    marginLeft: 8,
+  },
+  legendText: {
+    fontSize: 12,
+    color: "#64748B",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#64748B",
+    textAlign: "center",
+    marginVertical: 16,
+  },
+  projectionBox: {
+    backgroundColor: "#F0FDFA",
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    gap: 4,
+  },
+  projectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  projectionTitle: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#0F172A",
+  },
+  projectionDetail: {
+    fontSize: 13,
+    color: "#334155",
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#E2E8F0",
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: "#0F172A",
+  },
+  button: {
+    backgroundColor: "#16A085",
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    alignItems: "center",
+  },
+  buttonText: {
+    color: "#FFFFFF",
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  rowReverse: {
+    flexDirection: "row-reverse",
+  },
+  textRight: {
+    textAlign: "right",
+  },
+});
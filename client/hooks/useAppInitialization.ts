@@ -6,6 +6,8 @@ import { PushNotificationService } from "@/src/services/pushNotifications";
 import NotificationService from "@/src/services/notificationService";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useTranslation } from "react-i18next";
+import * as Notifications from "expo-notifications";
+import { router } from "expo-router";
 
 interface AppInitializationState {
   isLoading: boolean;
@@ -77,9 +79,16 @@ export const useAppInitialization = (): AppInitializationState => {
         await PushNotificationService.registerForPushNotifications();
 
       if (token && user) {
-        // Send token to backend if needed
         console.log("Push notification token:", token);
 
+        // The server pushes background results (e.g. meal analysis) to it
+        try {
+          const { userAPI } = await import("../src/services/api");
+          await userAPI.registerPushToken(token);
+        } catch (error) {
+          console.error("Error registering push token:", error);
+        }
+
         // Schedule notifications based on user's questionnaire data
         try {
           // You'll need to fetch user questionnaire data from your backend
@@ -111,6 +120,20 @@ export const useAppInitialization = (): AppInitializationState => {
     }
   }, [dispatch, user, appSettings, settingsLoading]);
 
+  // Open the camera screen when a finished meal analysis push is tapped
+  useEffect(() => {
+    const subscription = Notifications.addNotificationResponseReceivedListener(
+      (response) => {
+        const data = response.notification.request.content.data;
+        if (data?.type === "meal_analysis") {
+          router.push("/(tabs)/camera");
+        }
+      }
+    );
+
+    return () => subscription.remove();
+  }, []);
+
   return {
     isLoading: settingsLoading || profileLoading,
     isAuthenticated: appSettings?.isAuthenticated || false,
@@ -2,12 +2,38 @@ import axios, { AxiosInstance, AxiosResponse, AxiosError } from "axios";
 import { Platform } from "react-native";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as SecureStore from "expo-secure-store";
+import * as FileSystem from "expo-file-system";
 import {
   SignUpData,
   SignInData,
   MealAnalysisData,
+  MealAnalysisJob,
+  ClarificationAnswer,
+  DishSelection,
+  Meal,
   QuestionnaireData,
+  AIQuotaStatus,
+  AIQuotaSummary,
+  MicronutrientCoverage,
+  Fast,
+  FastingProtocol,
+  FastingProtocolDefinition,
+  FastingStats,
+  WeighIn,
+  WeightTrend,
+  AdaptiveGoalsMode,
+  AdaptiveGoalsStatus,
+  GoalAdjustment,
+  DayGoal,
+  GoalPlan,
+  GoalSchedule,
+  MealFeedback,
+  MealFeedbackInput,
+  MealFeedbackTarget,
+  MealPreferenceProfile,
+  MealRevision,
 } from "../types";
+import i18n from "../i18n";
 
 // Enhanced error handling and retry logic
 class APIError extends Error {
@@ -22,6 +48,31 @@ class APIError extends Error {
   }
 }
 
+// Daily AI quota used up, carries the server's quota state for the UI
+class AIQuotaError extends APIError {
+  constructor(public quota: AIQuotaStatus) {
+    super(formatAIQuotaMessage(quota), 429, "AI_QUOTA_EXCEEDED", false);
+    this.name = "AIQuotaError";
+  }
+}
+
+const formatAIQuotaMessage = (quota: AIQuotaStatus): string => {
+  const featureExhausted = quota.feature_quota.remaining === 0;
+  const usage = featureExhausted ? quota.feature_quota : quota.total_quota;
+
+  return i18n.t("common.ai_quota_exceeded", {
+    used: usage.used,
+    limit: usage.limit,
+    feature: i18n.t(
+      `common.ai_quota_features.${featureExhausted ? quota.feature : "TOTAL"}`
+    ),
+    time: new Date(quota.reset_at).toLocaleTimeString([], {
+      hour: "2-digit",
+      minute: "2-digit",
+    }),
+  });
+};
+
 // Optimized API configuration
 const getApiBaseUrl = (): string => {
   const baseUrl = process.env.EXPO_PUBLIC_API_URL;
@@ -51,6 +102,9 @@ const createApiInstance = (): AxiosInstance => {
         if (token) {
           config.headers.Authorization = `Bearer ${token}`;
         }
+        // For requests that take the day from the device, not the profile
+        config.headers["X-Timezone"] =
+          Intl.DateTimeFormat().resolvedOptions().timeZone;
       } catch (error) {
         console.warn("Failed to get stored token:", error);
       }
@@ -88,6 +142,14 @@ const createApiInstance = (): AxiosInstance => {
         }
       }
 
+      const errorData = error.response?.data as any;
+      if (
+        error.response?.status === 429 &&
+        errorData?.code === "AI_QUOTA_EXCEEDED"
+      ) {
+        return Promise.reject(new AIQuotaError(errorData.quota));
+      }
+
       // Transform error for better handling
       const apiError = new APIError(
         error.message || "Network error",
@@ -274,6 +336,70 @@ export const nutritionAPI = {
     }
   },
 
+  async submitMealAnalysis(params: {
+    imageBase64?: string;
+    mealId?: number;
+    updateText?: string;
+    editedIngredients?: any[];
+    clarifications?: ClarificationAnswer[];
+    language?: string;
+  }): Promise<MealAnalysisJob> {
+    try {
+      console.log("🔄 Submitting meal analysis job...");
+      const response = await api.post("/nutrition/analysis", {
+        imageBase64: params.imageBase64?.trim(),
+        meal_id: params.mealId,
+        updateText: params.updateText,
+        editedIngredients: params.editedIngredients || [],
+        clarifications: params.clarifications || [],
+        language: params.language,
+      });
+
+      if (response.data.success) {
+        console.log("✅ Analysis job queued:", response.data.data.job_id);
+        return response.data.data;
+      }
+
+      throw new APIError(response.data.error || "Failed to submit analysis");
+    } catch (error: any) {
+      console.error("💥 Submit analysis error:", error);
+      if (error instanceof APIError) throw error;
+      if (error.response?.data?.error) {
+        throw new APIError(error.response.data.error, error.response.status);
+      }
+      throw new APIError(
+        "Network error during meal analysis",
+        undefined,
+        undefined,
+        true
+      );
+    }
+  },
+
+  async getAnalysisJob(jobId: string): Promise<MealAnalysisJob> {
+    try {
+      const response = await api.get(`/nutrition/analysis/${jobId}`);
+
+      if (response.data.success) {
+        return response.data.data;
+      }
+
+      throw new APIError(response.data.error || "Failed to fetch analysis");
+    } catch (error: any) {
+      console.error("💥 Get analysis job error:", error);
+      if (error instanceof APIError) throw error;
+      if (error.response?.data?.error) {
+        throw new APIError(error.response.data.error, error.response.status);
+      }
+      throw new APIError(
+        "Network error while checking analysis",
+        undefined,
+        undefined,
+        true
+      );
+    }
+  },
+
   async saveMeal(
     mealData: MealAnalysisData,
     imageBase64?: string
@@ -398,6 +524,156 @@ export const nutritionAPI = {
     }
   },
 
+  async logDishSelection(
+    mealId: number | string,
+    selection: DishSelection
+  ): Promise<Meal> {
+    try {
+      console.log("🍱 Logging dishes for meal:", mealId);
+      const response = await api.post(
+        `/nutrition/meals/${mealId}/items`,
+        selection
+      );
+
+      if (response.data.success) {
+        return response.data.data;
+      }
+
+      throw new APIError(response.data.error || "Failed to log dishes");
+    } catch (error) {
+      console.error("💥 Log dishes error:", error);
+      if (error instanceof APIError) throw error;
+      throw new APIError(
+        "Network error while logging dishes",
+        undefined,
+        undefined,
+        true
+      );
+    }
+  },
+
+  async addAfterPhoto(
+    mealId: number | string,
+    imageBase64: string,
+    language: string
+  ): Promise<Meal> {
+    try {
+      console.log("🍽️ Sending after photo for meal:", mealId);
+      const response = await api.post(
+        `/nutrition/meals/${mealId}/after-photo`,
+        { imageBase64, language },
+        { timeout: 60000 }
+      );
+
+      if (response.data.success) {
+        return response.data.data;
+      }
+
+      throw new APIError(
+        response.data.error || "Failed to compare the after photo"
+      );
+    } catch (error) {
+      console.error("💥 After photo error:", error);
+      if (error instanceof APIError) throw error;
+      throw new APIError(
+        "Network error while comparing the after photo",
+        undefined,
+        undefined,
+        true
+      );
+    }
+  },
+
+  async getMealRevisions(mealId: number | string): Promise<MealRevision[]> {
+    try {
+      const response = await api.get(`/nutrition/meals/${mealId}/revisions`);
+
+      if (response.data.success) {
+        return response.data.data;
+      }
+
+      throw new APIError(response.data.error || "Failed to load meal history");
+    } catch (error) {
+      console.error("💥 Get meal revisions error:", error);
+      if (error instanceof APIError) throw error;
+      throw new APIError(
+        "Network error while loading meal history",
+        undefined,
+        undefined,
+        true
+      );
+    }
+  },
+
+  async revertMealRevision(
+    mealId: number | string,
+    revisionId: number
+  ): Promise<Meal> {
+    try {
+      console.log("⏪ Reverting meal:", mealId, "to revision:", revisionId);
+      const response = await api.post(
+        `/nutrition/meals/${mealId}/revisions/${revisionId}/revert`
+      );
+
+      if (response.data.success) {
+        return response.data.data;
+      }
+
+      throw new APIError(response.data.error || "Failed to revert meal");
+    } catch (error) {
+      console.error("💥 Revert meal error:", error);
+      if (error instanceof APIError) throw error;
+      throw new APIError(
+        "Network error while reverting meal",
+        undefined,
+        undefined,
+        true
+      );
+    }
+  },
+
+  async restoreMeal(mealId: number | string): Promise<Meal> {
+    try {
+      const response = await api.post(`/nutrition/meals/${mealId}/restore`);
+
+      if (response.data.success) {
+        return response.data.data;
+      }
+
+      throw new APIError(response.data.error || "Failed to restore meal");
+    } catch (error) {
+      console.error("💥 Restore meal error:", error);
+      if (error instanceof APIError) throw error;
+      throw new APIError(
+        "Network error while restoring meal",
+        undefined,
+        undefined,
+        true
+      );
+    }
+  },
+
+  async getDeletedMeals(): Promise<Meal[]> {
+    try {
+      const response = await api.get("/nutrition/meals/deleted");
+
+      if (response.data.success) {
+        return response.data.data;
+      }
+
+      throw new APIError(response.data.error || "Failed to load deleted meals");
+    } catch (error) {
+      console.error("💥 Get deleted meals error:", error);
+      if (error instanceof APIError) throw error;
+      throw new APIError(
+        "Network error while loading deleted meals",
+        undefined,
+        undefined,
+        true
+      );
+    }
+  },
+
   async saveMealFeedback(mealId: string, feedback: any): Promise<any> {
     try {
       const response = await api.post(
@@ -478,6 +754,45 @@ export const userAPI = {
     }
   },
 
+  // Saves the device's timezone to the profile, local days follow it
+  async syncTimezone(currentTimezone?: string | null): Promise<void> {
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (!timezone || timezone === currentTimezone) return;
+
+    try {
+      await api.put("/user/profile", { timezone });
+      console.log("✅ Timezone saved:", timezone);
+    } catch (error) {
+      console.warn("⚠️ Failed to save timezone:", error);
+    }
+  },
+
+  async registerPushToken(pushToken: string | null): Promise<void> {
+    try {
+      await api.put("/user/push-token", { push_token: pushToken });
+      console.log("✅ Push token registered");
+    } catch (error) {
+      console.error("💥 Register push token error:", error);
+      throw new APIError("Failed to register push token");
+    }
+  },
+
+  async getAIQuota(): Promise<AIQuotaSummary> {
+    try {
+      const response = await api.get("/user/ai-quota");
+
+      if (response.data.success) {
+        return response.data.data;
+      }
+
+      throw new APIError(response.data.error || "Failed to get AI quota");
+    } catch (error) {
+      console.error("💥 Get AI quota error:", error);
+      if (error instanceof APIError) throw error;
+      throw new APIError("Network error while getting AI quota");
+    }
+  },
+
   async getUserProfile(): Promise<any> {
     try {
       const response = await api.get("/user/profile");
@@ -705,6 +1020,362 @@ export const calendarAPI = {
   },
 };
 
+// Statistics API
+export const statisticsAPI = {
+  async getMicronutrientCoverage(
+    period: "day" | "week",
+    date?: string
+  ): Promise<MicronutrientCoverage | null> {
+    try {
+      const response = await api.get("/statistics/micronutrients", {
+        params: { period, date },
+      });
+      return response.data.success ? response.data.data : null;
+    } catch (error) {
+      console.error("💥 Get micronutrient coverage error:", error);
+      return null;
+    }
+  },
+
+  // Downloads the PDF report and returns its local file URI. On web the
+  // browser handles the download itself (auth goes through the cookie).
+  async exportReport(
+    period: "week" | "month" | "custom",
+    language: string,
+    range?: { startDate: string; endDate: string }
+  ): Promise<string | null> {
+    try {
+      console.log("🔄 Exporting nutrition report...");
+      const params = new URLSearchParams({
+        period,
+        language,
+        ...(range || {}),
+      });
+      const url = `${getApiBaseUrl()}/export-report?${params.toString()}`;
+
+      if (Platform.OS === "web") {
+        window.open(url, "_blank");
+        return null;
+      }
+
+      const token = await getStoredToken();
+      const result = await FileSystem.downloadAsync(
+        url,
+        `${FileSystem.cacheDirectory}nutrition-report-${Date.now()}.pdf`,
+        { headers: token ? { Authorization: `Bearer ${token}` } : {} }
+      );
+
+      if (result.status !== 200) {
+        throw new APIError("Failed to export report", result.status);
+      }
+
+      console.log("✅ Report downloaded:", result.uri);
+      return result.uri;
+    } catch (error) {
+      console.error("💥 Export report error:", error);
+      if (error instanceof APIError) throw error;
+      throw new APIError("Network error while exporting report");
+    }
+  },
+};
+
+export const fastingAPI = {
+  async getProtocols(): Promise<FastingProtocolDefinition[]> {
+    try {
+      const response = await api.get("/fasting/protocols");
+      return response.data.success ? response.data.data : [];
+    } catch (error) {
+      console.error("💥 Get fasting protocols error:", error);
+      return [];
+    }
+  },
+
+  async getStats(): Promise<FastingStats | null> {
+    try {
+      const response = await api.get("/fasting/stats");
+      return response.data.success ? response.data.data : null;
+    } catch (error) {
+      console.error("💥 Get fasting stats error:", error);
+      return null;
+    }
+  },
+
+  async getHistory(limit = 30, offset = 0): Promise<Fast[]> {
+    try {
+      const response = await api.get("/fasting/history", {
+        params: { limit, offset },
+      });
+      return response.data.success ? response.data.data.fasts : [];
+    } catch (error) {
+      console.error("💥 Get fasting history error:", error);
+      return [];
+    }
+  },
+
+  async startFast(
+    protocol?: FastingProtocol,
+    target_hours?: number
+  ): Promise<Fast> {
+    try {
+      const response = await api.post("/fasting/start", {
+        protocol,
+        target_hours,
+      });
+      return response.data.data;
+    } catch (error) {
+      console.error("💥 Start fast error:", error);
+      throw new APIError("Failed to start fast");
+    }
+  },
+
+  async stopFast(): Promise<Fast> {
+    try {
+      const response = await api.post("/fasting/stop", {});
+      return response.data.data.fast;
+    } catch (error) {
+      console.error("💥 Stop fast error:", error);
+      throw new APIError("Failed to stop fast");
+    }
+  },
+};
+
+export const weightAPI = {
+  async getTrend(days = 90): Promise<WeightTrend | null> {
+    try {
+      const response = await api.get("/weight/trend", { params: { days } });
+      return response.data.success ? response.data.data : null;
+    } catch (error) {
+      console.error("💥 Get weight trend error:", error);
+      return null;
+    }
+  },
+
+  async getWeighIns(limit = 30): Promise<WeighIn[]> {
+    try {
+      const response = await api.get("/weight", { params: { limit } });
+      return response.data.success ? response.data.data : [];
+    } catch (error) {
+      console.error("💥 Get weigh-ins error:", error);
+      return [];
+    }
+  },
+
+  async addWeighIn(
+    weight_kg: number,
+    measured_at?: string
+  ): Promise<{ weigh_in: WeighIn; duplicate: boolean }> {
+    try {
+      const response = await api.post("/weight", { weight_kg, measured_at });
+      return {
+        weigh_in: response.data.data,
+        duplicate: Boolean(response.data.duplicate),
+      };
+    } catch (error) {
+      console.error("💥 Add weigh-in error:", error);
+      throw new APIError("Failed to log weigh-in");
+    }
+  },
+
+  async deleteWeighIn(weighInId: number): Promise<void> {
+    try {
+      await api.delete(`/weight/${weighInId}`);
+    } catch (error) {
+      console.error("💥 Delete weigh-in error:", error);
+      throw new APIError("Failed to delete weigh-in");
+    }
+  },
+};
+
+export const adaptiveGoalsAPI = {
+  async getStatus(): Promise<AdaptiveGoalsStatus | null> {
+    try {
+      const response = await api.get("/adaptive-goals");
+      return response.data.success ? response.data.data : null;
+    } catch (error) {
+      console.error("💥 Get adaptive goals error:", error);
+      return null;
+    }
+  },
+
+  async getAdjustments(limit = 12): Promise<GoalAdjustment[]> {
+    try {
+      const response = await api.get("/adaptive-goals/adjustments", {
+        params: { limit },
+      });
+      return response.data.success ? response.data.data : [];
+    } catch (error) {
+      console.error("💥 Get goal adjustments error:", error);
+      return [];
+    }
+  },
+
+  async checkNow(): Promise<GoalAdjustment | null> {
+    try {
+      const response = await api.post("/adaptive-goals/adjustments");
+      return response.data.data;
+    } catch (error) {
+      console.error("💥 Check goals error:", error);
+      throw new APIError("Failed to check goals");
+    }
+  },
+
+  async applyAdjustment(adjustmentId: number): Promise<GoalAdjustment> {
+    try {
+      const response = await api.post(
+        `/adaptive-goals/adjustments/${adjustmentId}/apply`
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error("💥 Apply goal adjustment error:", error);
+      throw new APIError("Failed to apply goal adjustment");
+    }
+  },
+
+  async dismissAdjustment(adjustmentId: number): Promise<GoalAdjustment> {
+    try {
+      const response = await api.post(
+        `/adaptive-goals/adjustments/${adjustmentId}/dismiss`
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error("💥 Dismiss goal adjustment error:", error);
+      throw new APIError("Failed to dismiss goal adjustment");
+    }
+  },
+
+  async setMode(mode: AdaptiveGoalsMode): Promise<void> {
+    try {
+      await api.put("/adaptive-goals/settings", { mode });
+    } catch (error) {
+      console.error("💥 Update adaptive goals settings error:", error);
+      throw new APIError("Failed to update settings");
+    }
+  },
+};
+
+export const dailyGoalsAPI = {
+  async getSchedule(): Promise<GoalSchedule | null> {
+    try {
+      const response = await api.get("/daily-goals/schedule");
+      return response.data.success ? response.data.data : null;
+    } catch (error) {
+      console.error("💥 Get goal schedule error:", error);
+      return null;
+    }
+  },
+
+  async updateSchedule(schedule: {
+    training_days: number[];
+    refeed_days: number[];
+    training_carb_boost?: number;
+  }): Promise<GoalSchedule> {
+    try {
+      const response = await api.put("/daily-goals/schedule", schedule);
+      return response.data.data;
+    } catch (error) {
+      console.error("💥 Update goal schedule error:", error);
+      throw new APIError("Failed to update goal schedule");
+    }
+  },
+
+  async getRange(
+    startDate: string,
+    endDate: string
+  ): Promise<Record<string, DayGoal>> {
+    try {
+      const response = await api.get("/daily-goals/range", {
+        params: { start_date: startDate, end_date: endDate },
+      });
+      return response.data.success ? response.data.data : {};
+    } catch (error) {
+      console.error("💥 Get daily goals range error:", error);
+      return {};
+    }
+  },
+
+  async getHistory(limit = 20): Promise<GoalPlan[]> {
+    try {
+      const response = await api.get("/daily-goals/history", {
+        params: { limit },
+      });
+      return response.data.success ? response.data.data : [];
+    } catch (error) {
+      console.error("💥 Get goal history error:", error);
+      return [];
+    }
+  },
+};
+
+export const mealFeedbackAPI = {
+  async getProfile(): Promise<MealPreferenceProfile | null> {
+    try {
+      const response = await api.get("/meal-feedback/profile");
+      return response.data.success ? response.data.data : null;
+    } catch (error) {
+      console.error("💥 Get meal preference profile error:", error);
+      return null;
+    }
+  },
+
+  async getFeedback(
+    target?: MealFeedbackTarget,
+    limit = 50,
+    offset = 0
+  ): Promise<MealFeedback[]> {
+    try {
+      const response = await api.get("/meal-feedback", {
+        params: { target, limit, offset },
+      });
+      return response.data.success ? response.data.data : [];
+    } catch (error) {
+      console.error("💥 Get meal feedback error:", error);
+      return [];
+    }
+  },
+
+  async rateRecommendedMeal(
+    menuId: string,
+    mealId: string,
+    feedback: MealFeedbackInput
+  ): Promise<MealFeedback> {
+    try {
+      const response = await api.post(
+        `/recommended-menus/${menuId}/meal-feedback`,
+        { meal_id: mealId, ...feedback }
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error("💥 Rate recommended meal error:", error);
+      throw new APIError("Failed to save meal feedback");
+    }
+  },
+
+  async rateTemplate(
+    templateId: string,
+    feedback: MealFeedbackInput
+  ): Promise<MealFeedback> {
+    try {
+      const response = await api.post(
+        `/meal-plans/templates/${templateId}/feedback`,
+        feedback
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error("💥 Rate meal template error:", error);
+      throw new APIError("Failed to save meal feedback");
+    }
+  },
+
+  async deleteFeedback(feedbackId: number): Promise<void> {
+    try {
+      await api.delete(`/meal-feedback/${feedbackId}`);
+    } catch (error) {
+      console.error("💥 Delete meal feedback error:", error);
+      throw new APIError("Failed to delete meal feedback");
+    }
+  },
+};
+
 // Enhanced meal API
 export const mealAPI = {
   async deleteMeal(mealId: string): Promise<void> {
@@ -732,5 +1403,5 @@ export const mealAPI = {
 // Export the main API instance for direct use
 export { api };
 
-// Export error class for error handling
-export { APIError };
+// Export error classes for error handling
+export { APIError, AIQuotaError };
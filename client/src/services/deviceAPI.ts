@@ -1,8 +1,6 @@
 import { healthKitService, HealthData } from "./healthKit";
 import { deviceConnectionService } from "./deviceConnections";
-import { nutritionAPI } from "./api";
-import axios from "axios";
-import { Platform } from "react-native";
+import { api, nutritionAPI } from "./api";
 
 export interface ConnectedDevice {
   id: string;
@@ -17,6 +15,8 @@ export interface ConnectedDevice {
     | "POLAR";
   status: "CONNECTED" | "DISCONNECTED" | "SYNCING" | "ERROR";
   lastSync?: string;
+  // Why scheduled syncs keep failing, while the status is ERROR
+  lastSyncError?: string;
   isPrimary: boolean;
 }
 
@@ -26,22 +26,29 @@ export interface DailyBalance {
   balance: number;
   balanceStatus: "balanced" | "slight_imbalance" | "significant_imbalance";
 }
-const API_URL = process.env.EXPO_PUBLIC_API_URL;
-// Get the correct API URL based on platform
-const getApiBaseUrl = () => {
-  if (Platform.OS === "web") {
-    return "http://localhost:5000/api";
-  } else {
-    return API_URL;
-  }
-};
 
-// Create API instance for device endpoints
-const deviceAxios = axios.create({
-  baseURL: getApiBaseUrl(),
-  timeout: 30000,
-  withCredentials: Platform.OS === "web",
-});
+export type ActivityMetric =
+  | "STEPS"
+  | "CALORIES"
+  | "SLEEP"
+  | "HEART_RATE"
+  | "WEIGHT"
+  | "WATER";
+
+// The device types to take a metric from, first with data wins
+export interface SourcePriority {
+  metric: ActivityMetric;
+  sources: ConnectedDevice["type"][];
+}
+
+// Days of phone health data sent with each sync
+const HEALTH_SYNC_DAYS = 3;
+
+const toLocalDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(
+    2,
+    "0"
+  )}-${String(date.getDate()).padStart(2, "0")}`;
 
 class DeviceAPIService {
   async getConnectedDevices(): Promise<ConnectedDevice[]> {
@@ -50,7 +57,7 @@ class DeviceAPIService {
 
       // First check server for connected devices
       try {
-        const response = await deviceAxios.get("/devices");
+        const response = await api.get("/devices");
         if (response.data.success) {
           const serverDevices = response.data.data.map((device: any) => ({
             id: device.connected_device_id,
@@ -58,6 +65,7 @@ class DeviceAPIService {
             type: device.device_type,
             status: device.connection_status,
             lastSync: device.last_sync_time,
+            lastSyncError: device.last_sync_error || undefined,
             isPrimary: device.is_primary_device,
           }));
 
@@ -90,7 +98,7 @@ class DeviceAPIService {
         if (success) {
           // Register with server
           try {
-            await deviceAxios.post("/devices/connect", {
+            await api.post("/devices/connect", {
               deviceType: "APPLE_HEALTH",
               deviceName: "Apple Health",
             });
@@ -104,23 +112,10 @@ class DeviceAPIService {
         return false;
       }
 
-      // For other devices, use OAuth flow
+      // Other devices are connected by the server, it keeps their tokens
       const result = await deviceConnectionService.connectDevice(deviceType);
 
-      if (result.success && result.accessToken) {
-        // Register with server
-        try {
-          await deviceAxios.post("/devices/connect", {
-            deviceType,
-            deviceName:
-              result.deviceData?.displayName || `${deviceType} Device`,
-            accessToken: result.accessToken,
-            refreshToken: result.refreshToken,
-          });
-        } catch (serverError) {
-          console.warn("⚠️ Failed to register with server:", serverError);
-        }
-
+      if (result.success) {
         console.log("✅ Device connected successfully:", deviceType);
         return true;
       }
@@ -138,32 +133,36 @@ class DeviceAPIService {
       console.log("🔄 Syncing device:", deviceId);
 
       if (deviceId === "apple_health") {
-        // Get today's health data
-        const today = new Date().toISOString().split("T")[0];
-        const healthData = await healthKitService.getHealthDataForDate(today);
+        // Recent days are sent again, so days the phone was offline arrive
+        const days = [];
+        for (let offset = HEALTH_SYNC_DAYS - 1; offset >= 0; offset--) {
+          const day = new Date();
+          day.setDate(day.getDate() - offset);
+          const date = toLocalDateString(day);
+          const healthData = await healthKitService.getHealthDataForDate(date);
+          days.push({
+            date,
+            steps: healthData.steps,
+            caloriesBurned: healthData.caloriesBurned,
+            activeMinutes: healthData.activeMinutes,
+            bmr: 1800, // Default BMR estimate
+            heartRate: healthData.heartRate,
+            weight: healthData.weight,
+            distance: healthData.distance,
+          });
+        }
 
         // Send to server
         try {
-          await deviceAxios.post(`/devices/${deviceId}/sync`, {
-            activityData: {
-              steps: healthData.steps,
-              caloriesBurned: healthData.caloriesBurned,
-              activeMinutes: healthData.activeMinutes,
-              bmr: 1800, // Default BMR estimate
-              heartRate: healthData.heartRate,
-              weight: healthData.weight,
-              distance: healthData.distance,
-            },
-          });
+          await api.post(`/devices/${deviceId}/sync`, { days });
         } catch (serverError) {
           console.warn("⚠️ Failed to sync with server:", serverError);
         }
 
-        console.log("📊 Synced Apple Health data:", healthData);
+        console.log("📊 Synced Apple Health data:", days);
         return true;
       }
 
-      // For other devices, fetch data using their APIs
       const devices = await this.getConnectedDevices();
       const device = devices.find((d) => d.id === deviceId);
 
@@ -172,77 +171,16 @@ class DeviceAPIService {
         return false;
       }
 
-      const today = new Date().toISOString().split("T")[0];
-      let activityData = null;
-
-      // Get stored tokens
-      const tokens = await deviceConnectionService.getDeviceTokens(device.type);
-
-      if (!tokens.accessToken) {
-        console.error("❌ No access token found for device:", device.type);
+      if (!deviceConnectionService.isServerOAuthDevice(device.type)) {
+        console.error("❌ Unsupported device type:", device.type);
         return false;
       }
 
-      // Fetch data based on device type
-      switch (device.type) {
-        case "GOOGLE_FIT":
-          activityData = await deviceConnectionService.fetchGoogleFitData(
-            tokens.accessToken,
-            today
-          );
-          break;
-        case "FITBIT":
-          activityData = await deviceConnectionService.fetchFitbitData(
-            tokens.accessToken,
-            today
-          );
-          break;
-        case "WHOOP":
-          activityData = await deviceConnectionService.fetchWhoopData(
-            tokens.accessToken,
-            today
-          );
-          break;
-        case "POLAR":
-          activityData = await deviceConnectionService.fetchPolarData(
-            tokens.accessToken,
-            today
-          );
-          break;
-        case "GARMIN":
-          activityData = await deviceConnectionService.fetchGarminData(
-            tokens.accessToken,
-            tokens.refreshToken || "",
-            today
-          );
-          break;
-        default:
-          console.error("❌ Unsupported device type:", device.type);
-          return false;
-      }
-
-      if (activityData) {
-        // Send to server
-        try {
-          await deviceAxios.post(`/devices/${deviceId}/sync`, {
-            activityData: {
-              steps: activityData.steps || 0,
-              caloriesBurned: activityData.caloriesBurned || 0,
-              activeMinutes: activityData.activeMinutes || 0,
-              bmr: 1800, // Default BMR estimate
-              distance: activityData.distance,
-              heartRate: activityData.heartRate,
-            },
-          });
-        } catch (serverError) {
-          console.warn("⚠️ Failed to sync with server:", serverError);
-        }
-
-        console.log("📊 Synced device data:", activityData);
-        return true;
-      }
+      // The server pulls the data from the provider with its own tokens
+      const response = await api.post(`/devices/${deviceId}/sync`);
 
-      return false;
+      console.log("📊 Synced device data:", response.data.data);
+      return response.data.success;
     } catch (error) {
       console.error("💥 Error syncing device:", error);
       return false;
@@ -255,9 +193,7 @@ class DeviceAPIService {
 
       // Try server first
       try {
-        const response = await deviceAxios.get(
-          `/devices/activity/${date}/${date}`
-        );
+        const response = await api.get(`/devices/merged/${date}/${date}`);
         if (response.data.success && response.data.data.length > 0) {
           const serverData = response.data.data[0];
           return {
@@ -281,39 +217,9 @@ class DeviceAPIService {
       const devices = await this.getConnectedDevices();
       const connectedDevice = devices.find((d) => d.status === "CONNECTED");
 
-      if (connectedDevice) {
-        if (connectedDevice.type === "APPLE_HEALTH") {
-          return await healthKitService.getHealthDataForDate(date);
-        } else {
-          // Try to get data from other connected devices
-          const tokens = await deviceConnectionService.getDeviceTokens(
-            connectedDevice.type
-          );
-          if (tokens.accessToken) {
-            switch (connectedDevice.type) {
-              case "GOOGLE_FIT":
-                return await deviceConnectionService.fetchGoogleFitData(
-                  tokens.accessToken,
-                  date
-                );
-              case "FITBIT":
-                return await deviceConnectionService.fetchFitbitData(
-                  tokens.accessToken,
-                  date
-                );
-              case "WHOOP":
-                return await deviceConnectionService.fetchWhoopData(
-                  tokens.accessToken,
-                  date
-                );
-              case "POLAR":
-                return await deviceConnectionService.fetchPolarData(
-                  tokens.accessToken,
-                  date
-                );
-            }
-          }
-        }
+      // Only Apple Health can be read on the phone itself
+      if (connectedDevice?.type === "APPLE_HEALTH") {
+        return await healthKitService.getHealthDataForDate(date);
       }
 
       console.log("⚠️ No connected devices found");
@@ -330,7 +236,7 @@ class DeviceAPIService {
 
       // Try server first
       try {
-        const response = await deviceAxios.get(`/devices/balance/${date}`);
+        const response = await api.get(`/devices/balance/${date}`);
         if (response.data.success) {
           console.log("✅ Daily balance from server:", response.data.data);
           return response.data.data;
@@ -387,6 +293,41 @@ class DeviceAPIService {
     }
   }
 
+  async getSourcePriorities(): Promise<SourcePriority[]> {
+    try {
+      const response = await api.get("/devices/priorities");
+      return response.data.success ? response.data.data : [];
+    } catch (error) {
+      console.error("💥 Error getting source priorities:", error);
+      return [];
+    }
+  }
+
+  async setSourcePriority(
+    metric: ActivityMetric,
+    sources: ConnectedDevice["type"][]
+  ): Promise<boolean> {
+    try {
+      const response = await api.put(`/devices/priorities/${metric}`, {
+        sources,
+      });
+      return response.data.success;
+    } catch (error) {
+      console.error("💥 Error saving source priority:", error);
+      return false;
+    }
+  }
+
+  async setPrimaryDevice(deviceId: string): Promise<boolean> {
+    try {
+      const response = await api.put(`/devices/${deviceId}/primary`);
+      return response.data.success;
+    } catch (error) {
+      console.error("💥 Error setting primary device:", error);
+      return false;
+    }
+  }
+
   async disconnectDevice(deviceId: string): Promise<boolean> {
     try {
       console.log("🔌 Disconnecting device:", deviceId);
@@ -402,7 +343,7 @@ class DeviceAPIService {
 
       // Disconnect from server
       try {
-        await deviceAxios.delete(`/devices/${deviceId}`);
+        await api.delete(`/devices/${deviceId}`);
       } catch (serverError) {
         console.warn("⚠️ Failed to disconnect from server:", serverError);
       }
@@ -1,5 +1,5 @@
 import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
-import { authAPI } from "../services/api";
+import { authAPI, userAPI } from "../services/api";
 import type { User, SignUpData, SignInData, AuthResponse } from "../types";
 
 // Import clearAllQueries dynamically to avoid cycles
@@ -61,6 +61,7 @@ export const signIn = createAsyncThunk(
 
       if (response.success && response.token && response.user) {
         console.log("✅ Sign in successful");
+        userAPI.syncTimezone(response.user.timezone);
         return response;
       }
 
@@ -154,6 +155,7 @@ export const loadStoredAuth = createAsyncThunk(
       const token = await authAPI.getStoredToken();
       if (token) {
         console.log("✅ Found stored token");
+        userAPI.syncTimezone();
         return token;
       }
       console.log("ℹ️ No stored token found");
@@ -1,5 +1,6 @@
 import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
 import { calendarAPI } from "../services/api";
+import { FastingDaySummary, GoalDayType } from "../types";
 
 interface DayData {
   date: string;
@@ -20,6 +21,8 @@ interface DayData {
     type: string;
     created_at: string;
   }>;
+  fasting?: FastingDaySummary;
+  day_type?: GoalDayType;
 }
 
 interface CalendarStats {
@@ -33,6 +36,9 @@ interface CalendarStats {
   averageProtein: number;
   averageWater: number;
   motivationalMessage: string;
+  fastingDays: number;
+  fastingStreak: number;
+  fastingViolations: number;
   gamificationBadges: Array<{
     id: string;
     name: string;
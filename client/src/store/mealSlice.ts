@@ -4,8 +4,10 @@ import {
   MealAnalysisData,
   PendingMeal,
   MealAnalysisSchema,
+  ClarificationAnswer,
+  DishSelection,
 } from "../types";
-import { nutritionAPI, mealAPI } from "../services/api";
+import { nutritionAPI, mealAPI, AIQuotaError } from "../services/api";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Platform } from "react-native";
 import * as FileSystem from "expo-file-system";
@@ -189,6 +191,119 @@ export const processImage = async (imageUri: string): Promise<string> => {
   }
 };
 
+const ANALYSIS_POLL_INTERVAL_MS = 3000;
+const ANALYSIS_POLL_TIMEOUT_MS = 5 * 60 * 1000;
+
+const savePendingMealToStorage = async (pendingMeal: PendingMeal) => {
+  try {
+    await AsyncStorage.setItem(PENDING_MEAL_KEY, JSON.stringify(pendingMeal));
+    console.log("Pending meal saved to storage successfully");
+  } catch (storageError) {
+    console.warn("Failed to save pending meal to storage:", storageError);
+    // Don't fail the analysis if storage fails
+  }
+};
+
+class AnalysisJobFailedError extends Error {}
+
+// Poll an analysis job until the server finishes it (including its retries)
+const waitForAnalysisJob = async (jobId: string) => {
+  const deadline = Date.now() + ANALYSIS_POLL_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    const job = await nutritionAPI.getAnalysisJob(jobId);
+    console.log(`Analysis job ${jobId} status:`, job.status);
+
+    if (job.status === "COMPLETED" && job.result) {
+      return job.result;
+    }
+    if (job.status === "FAILED") {
+      throw new AnalysisJobFailedError(job.error || "Analysis failed");
+    }
+
+    await new Promise((resolve) =>
+      setTimeout(resolve, ANALYSIS_POLL_INTERVAL_MS)
+    );
+  }
+
+  throw new Error(
+    "Analysis is taking longer than usual - we'll notify you when it's ready"
+  );
+};
+
+const buildAnalyzedPendingMeal = (
+  base: PendingMeal,
+  analysis: any
+): PendingMeal => {
+  // Validate API response data
+  try {
+    MealAnalysisSchema.parse(analysis);
+    console.log("Data validation successful");
+  } catch (validationError) {
+    console.warn("API response validation failed:", validationError);
+    // Continue anyway, but log the issue
+  }
+
+  // Ensure ingredients array is properly formatted
+  if (analysis.ingredients && Array.isArray(analysis.ingredients)) {
+    analysis.ingredients = analysis.ingredients.map((ingredient: any) => ({
+      name: ingredient.name || "Unknown ingredient",
+      calories: Number(ingredient.calories) || 0,
+      protein: Number(ingredient.protein || ingredient.protein_g) || 0,
+      carbs: Number(ingredient.carbs || ingredient.carbs_g) || 0,
+      fat: Number(ingredient.fat || ingredient.fats_g) || 0,
+      fiber: Number(ingredient.fiber || ingredient.fiber_g) || 0,
+      sugar: Number(ingredient.sugar || ingredient.sugar_g) || 0,
+      sodium_mg: Number(ingredient.sodium_mg || ingredient.sodium) || 0,
+    }));
+  }
+
+  return {
+    ...base,
+    analysis,
+    analysis_job_id: undefined,
+    timestamp: Date.now(),
+  };
+};
+
+const toAnalysisErrorMessage = (error: unknown) => {
+  // Already a localized message with the remaining quota and reset time
+  if (error instanceof AIQuotaError) return error.message;
+
+  let errorMessage = "Analysis failed";
+  if (error instanceof Error) {
+    errorMessage = error.message;
+  } else if (typeof error === "string") {
+    errorMessage = error;
+  }
+
+  // Enhanced error handling with specific AI service messages
+  if (
+    errorMessage.includes("Network Error") ||
+    errorMessage.includes("ERR_NETWORK")
+  ) {
+    errorMessage = "Network error - please check your connection";
+  } else if (
+    errorMessage.includes("quota") ||
+    errorMessage.includes("billing")
+  ) {
+    errorMessage =
+      "AI analysis temporarily unavailable - please try again later";
+  } else if (errorMessage.includes("Invalid image data")) {
+    errorMessage = "Invalid image - please try a different photo";
+  } else if (errorMessage.includes("AI provider not configured")) {
+    errorMessage = "AI service not available - please contact support";
+  } else if (errorMessage.includes("400")) {
+    errorMessage = "Invalid image data - please try a different image";
+  } else if (errorMessage.includes("401") || errorMessage.includes("403")) {
+    errorMessage = "Authentication error - please log in again";
+  } else if (errorMessage.includes("500")) {
+    errorMessage = "Server error - please try again later";
+  }
+
+  return errorMessage;
+};
+
 export const analyzeMeal = createAsyncThunk(
   "meal/analyzeMeal",
   async (
@@ -197,8 +312,9 @@ export const analyzeMeal = createAsyncThunk(
       updateText?: string;
       language?: string;
       editedIngredients?: any[];
+      clarifications?: ClarificationAnswer[];
     },
-    { rejectWithValue }
+    { getState, dispatch, rejectWithValue }
   ) => {
     try {
       console.log("Starting meal analysis with base64 data...");
@@ -216,105 +332,80 @@ export const analyzeMeal = createAsyncThunk(
 
       console.log("Base64 data length:", cleanBase64.length);
 
-      // Make the API call with proper error handling
-      const response = await nutritionAPI.analyzeMeal(
-        cleanBase64,
-        params.updateText,
-        params.editedIngredients || [],
-        params.language || "en"
-      );
-      console.log("API response received:", response);
-
-      if (response && response.success && response.data) {
-        // Validate API response data
-        try {
-          const validatedData = MealAnalysisSchema.parse(response.data);
-          console.log("Data validation successful");
-        } catch (validationError) {
-          console.warn("API response validation failed:", validationError);
-          // Continue anyway, but log the issue
-        }
+      // Re-analyzing the same photo updates the meal the server already holds
+      const { pendingMeal: current } = (getState() as { meal: MealState }).meal;
+      const existingMealId =
+        current?.saved_meal_id && current.image_base_64 === cleanBase64
+          ? current.saved_meal_id
+          : undefined;
+
+      const job = await nutritionAPI.submitMealAnalysis({
+        imageBase64: existingMealId ? undefined : cleanBase64,
+        mealId: existingMealId,
+        updateText: params.updateText,
+        editedIngredients: params.editedIngredients || [],
+        clarifications: params.clarifications,
+        language: params.language || "english",
+      });
 
-        // Ensure ingredients array is properly formatted
-        if (
-          response.data.ingredients &&
-          Array.isArray(response.data.ingredients)
-        ) {
-          response.data.ingredients = response.data.ingredients.map(
-            (ingredient: any) => ({
-              name: ingredient.name || "Unknown ingredient",
-              calories: Number(ingredient.calories) || 0,
-              protein: Number(ingredient.protein || ingredient.protein_g) || 0,
-              carbs: Number(ingredient.carbs || ingredient.carbs_g) || 0,
-              fat: Number(ingredient.fat || ingredient.fats_g) || 0,
-              fiber: Number(ingredient.fiber || ingredient.fiber_g) || 0,
-              sugar: Number(ingredient.sugar || ingredient.sugar_g) || 0,
-              sodium_mg: Number(ingredient.sodium_mg || ingredient.sodium) || 0,
-            })
-          );
-        }
+      // Persist the job so the result can be picked up after an app restart
+      const queuedMeal: PendingMeal = {
+        image_base_64: cleanBase64, // Store clean base64 without data URL prefix
+        analysis: null,
+        timestamp: Date.now(),
+        analysis_job_id: job.job_id,
+        saved_meal_id: job.meal_id ?? undefined,
+      };
+      dispatch(setPendingMeal(queuedMeal));
+      await savePendingMealToStorage(queuedMeal);
 
-        const pendingMeal: PendingMeal = {
-          image_base_64: cleanBase64, // Store clean base64 without data URL prefix
-          analysis: response.data,
-          timestamp: Date.now(),
-        };
-        console.log("Pending meal created:", pendingMeal);
+      const analysis = await waitForAnalysisJob(job.job_id);
+      const pendingMeal = buildAnalyzedPendingMeal(queuedMeal, analysis);
+      console.log("Pending meal created:", pendingMeal);
 
-        // Save to storage with error handling
-        try {
-          const serializedMeal = JSON.stringify(pendingMeal);
-          await AsyncStorage.setItem(PENDING_MEAL_KEY, serializedMeal);
-          console.log("Pending meal saved to storage successfully");
-        } catch (storageError) {
-          console.warn("Failed to save pending meal to storage:", storageError);
-          // Don't fail the analysis if storage fails
-        }
+      await savePendingMealToStorage(pendingMeal);
 
-        console.log("Analysis completed successfully");
-        return pendingMeal;
-      } else {
-        const errorMessage =
-          response?.error || "Analysis failed - no data returned from server";
-        console.error("Analysis failed:", errorMessage);
-        return rejectWithValue(errorMessage);
-      }
+      console.log("Analysis completed successfully");
+      return pendingMeal;
     } catch (error) {
       console.error("Analysis error details:", error);
-
-      let errorMessage = "Analysis failed";
-      if (error instanceof Error) {
-        errorMessage = error.message;
-      } else if (typeof error === "string") {
-        errorMessage = error;
+      if (error instanceof AnalysisJobFailedError) {
+        dispatch(clearPendingMeal());
       }
+      return rejectWithValue(toAnalysisErrorMessage(error));
+    }
+  }
+);
 
-      // Enhanced error handling with specific AI service messages
-      if (
-        errorMessage.includes("Network Error") ||
-        errorMessage.includes("ERR_NETWORK")
-      ) {
-        errorMessage = "Network error - please check your connection";
-      } else if (
-        errorMessage.includes("quota") ||
-        errorMessage.includes("billing")
-      ) {
-        errorMessage =
-          "AI analysis temporarily unavailable - please try again later";
-      } else if (errorMessage.includes("Invalid image data")) {
-        errorMessage = "Invalid image - please try a different photo";
-      } else if (errorMessage.includes("OpenAI API key not configured")) {
-        errorMessage = "AI service not available - please contact support";
-      } else if (errorMessage.includes("400")) {
-        errorMessage = "Invalid image data - please try a different image";
-      } else if (errorMessage.includes("401") || errorMessage.includes("403")) {
-        errorMessage = "Authentication error - please log in again";
-      } else if (errorMessage.includes("500")) {
-        errorMessage = "Server error - please try again later";
-      }
+// Pick up a background analysis that was still running (e.g. after a restart
+// or when its completion push arrives)
+export const resumeMealAnalysis = createAsyncThunk(
+  "meal/resumeMealAnalysis",
+  async (_, { getState, dispatch, rejectWithValue }) => {
+    const { pendingMeal } = (getState() as { meal: MealState }).meal;
 
-      return rejectWithValue(errorMessage);
+    try {
+      const analysis = await waitForAnalysisJob(pendingMeal!.analysis_job_id!);
+      const analyzedMeal = buildAnalyzedPendingMeal(pendingMeal!, analysis);
+
+      await savePendingMealToStorage(analyzedMeal);
+      return analyzedMeal;
+    } catch (error) {
+      console.error("Resume analysis error:", error);
+      if (error instanceof AnalysisJobFailedError) {
+        dispatch(clearPendingMeal());
+      }
+      return rejectWithValue(toAnalysisErrorMessage(error));
     }
+  },
+  {
+    condition: (_, { getState }) => {
+      const { pendingMeal, isAnalyzing } = (getState() as { meal: MealState })
+        .meal;
+      return (
+        !isAnalyzing && !!pendingMeal?.analysis_job_id && !pendingMeal.analysis
+      );
+    },
   }
 );
 
@@ -375,9 +466,13 @@ export const updateMeal = createAsyncThunk(
   }
 );
 
+// A selection logs only the dishes of a multi-dish photo the user ate
 export const postMeal = createAsyncThunk(
   "meal/postMeal",
-  async (_, { getState, rejectWithValue }) => {
+  async (
+    selection: DishSelection | undefined,
+    { getState, rejectWithValue }
+  ) => {
     try {
       const state = getState() as { meal: MealState };
       const { pendingMeal } = state.meal;
@@ -390,11 +485,33 @@ export const postMeal = createAsyncThunk(
         return rejectWithValue("No meal analysis data to post");
       }
 
+      if (pendingMeal.saved_meal_id) {
+        // The analysis job already stored the meal, just confirm it locally
+        const meal = selection
+          ? await nutritionAPI.logDishSelection(
+              pendingMeal.saved_meal_id,
+              selection
+            )
+          : null;
+        await AsyncStorage.removeItem(PENDING_MEAL_KEY).catch((error) =>
+          console.warn("Failed to remove pending meal from storage:", error)
+        );
+
+        console.log("Meal confirmed:", pendingMeal.saved_meal_id);
+        return meal;
+      }
+
       console.log("Posting meal with analysis:", pendingMeal.analysis);
-      const response = await nutritionAPI.saveMeal(
+      let response = await nutritionAPI.saveMeal(
         pendingMeal.analysis,
         pendingMeal.image_base_64
       );
+      if (response && selection) {
+        response = await nutritionAPI.logDishSelection(
+          response.meal_id,
+          selection
+        );
+      }
 
       if (response) {
         // Clean up storage
@@ -458,10 +575,11 @@ export const saveMealFeedback = createAsyncThunk(
     }: {
       mealId: string;
       feedback: {
-        tasteRating?: number;
-        satietyRating?: number;
-        energyRating?: number;
-        heavinessRating?: number;
+        taste_rating?: number;
+        satiety_rating?: number;
+        energy_rating?: number;
+        heaviness_rating?: number;
+        liked?: boolean;
       };
     },
     { rejectWithValue }
@@ -528,6 +646,37 @@ export const removeMeal = createAsyncThunk(
   }
 );
 
+// Deleted meals can be restored for a while, the meal comes back as it was
+export const restoreMeal = createAsyncThunk(
+  "meal/restoreMeal",
+  async (mealId: string, { rejectWithValue }) => {
+    try {
+      return await nutritionAPI.restoreMeal(mealId);
+    } catch (error: any) {
+      console.error("Restore meal error:", error);
+      return rejectWithValue(error.message || "Failed to restore meal");
+    }
+  }
+);
+
+// Discard the analyzed meal, removing the row the analysis job created
+export const discardPendingMeal = createAsyncThunk(
+  "meal/discardPendingMeal",
+  async (_, { getState, dispatch }) => {
+    const { pendingMeal } = (getState() as { meal: MealState }).meal;
+
+    if (pendingMeal?.saved_meal_id) {
+      try {
+        await nutritionAPI.removeMeal(pendingMeal.saved_meal_id.toString());
+      } catch (error) {
+        console.warn("Failed to remove discarded meal:", error);
+      }
+    }
+
+    dispatch(clearPendingMeal());
+  }
+);
+
 export const loadPendingMeal = createAsyncThunk(
   "meal/loadPendingMeal",
   async (_, { rejectWithValue }) => {
@@ -625,6 +774,20 @@ const mealSlice = createSlice({
         console.log("Analysis failed:", action.payload);
       })
 
+      // Resume background analysis cases
+      .addCase(resumeMealAnalysis.pending, (state) => {
+        state.isAnalyzing = true;
+        state.error = null;
+      })
+      .addCase(resumeMealAnalysis.fulfilled, (state, action) => {
+        state.isAnalyzing = false;
+        state.pendingMeal = action.payload;
+      })
+      .addCase(resumeMealAnalysis.rejected, (state, action) => {
+        state.isAnalyzing = false;
+        state.error = action.payload as string;
+      })
+
       // Update meal cases
       .addCase(updateMeal.pending, (state) => {
         state.isUpdating = true;
@@ -664,7 +827,11 @@ const mealSlice = createSlice({
         state.error = null;
         // Add the new meal to the beginning of the list
         if (action.payload) {
-          state.meals.unshift(action.payload);
+          const index = state.meals.findIndex(
+            (meal) => meal.meal_id === action.payload.meal_id
+          );
+          if (index >= 0) state.meals[index] = action.payload;
+          else state.meals.unshift(action.payload);
         }
         console.log("Meal posted successfully");
       })
@@ -712,11 +879,12 @@ const mealSlice = createSlice({
         const mealIndex = state.meals.findIndex((meal) => meal.id === mealId);
         if (mealIndex !== -1) {
           const meal = state.meals[mealIndex] as any;
-          meal.tasteRating = feedback.tasteRating || meal.tasteRating;
-          meal.satietyRating = feedback.satietyRating || meal.satietyRating;
-          meal.energyRating = feedback.energyRating || meal.energyRating;
-          meal.heavinessRating =
-            feedback.heavinessRating || meal.heavinessRating;
+          meal.taste_rating = feedback.taste_rating || meal.taste_rating;
+          meal.satiety_rating = feedback.satiety_rating || meal.satiety_rating;
+          meal.energy_rating = feedback.energy_rating || meal.energy_rating;
+          meal.heaviness_rating =
+            feedback.heaviness_rating || meal.heaviness_rating;
+          meal.liked = feedback.liked ?? meal.liked;
         }
         console.log("Feedback saved successfully");
       })
@@ -17,6 +17,36 @@ export const SignInSchema = z.object({
   password: z.string().min(1, "Password is required"),
 });
 
+export const ClarifyingQuestionSchema = z.object({
+  id: z.string(),
+  kind: z.enum(["CHOICE", "YES_NO", "AMOUNT"]),
+  question: z.string(),
+  options: z.array(z.string()).optional(),
+  ingredient: z.string().optional(),
+  unit: z.enum(["g", "ml", "pieces"]).optional(),
+  default_value: z.number().optional(),
+});
+
+export const DetectedDishSchema = z.object({
+  dish_id: z.string(),
+  name: z.string(),
+  portion_g: z.number().nullable(),
+  calories: z.number(),
+  protein_g: z.number(),
+  carbs_g: z.number(),
+  fats_g: z.number(),
+  fiber_g: z.number(),
+  sugar_g: z.number(),
+  sodium_mg: z.number(),
+  ingredients: z.array(z.any()),
+});
+
+export const DetectedDishesSchema = z.object({
+  meal_name: z.string(),
+  dishes: z.array(DetectedDishSchema),
+  plate: z.record(z.any()),
+});
+
 export const MealAnalysisSchema = z.object({
   meal_name: z.string(),
   description: z.string().optional(),
@@ -53,6 +83,10 @@ export const MealAnalysisSchema = z.object({
     .optional(),
   recommendations: z.string().optional(),
   health_risk_notes: z.string().optional(),
+  // Asked when the photo left the meal ambiguous
+  clarifying_questions: z.array(ClarifyingQuestionSchema).optional(),
+  // Set when the photo shows more than one dish
+  detected_dishes: DetectedDishesSchema.nullable().optional(),
 });
 
 //
@@ -61,10 +95,49 @@ export const MealAnalysisSchema = z.object({
 export type SignUpData = z.infer<typeof SignUpSchema>;
 export type SignInData = z.infer<typeof SignInSchema>;
 export type MealAnalysisData = z.infer<typeof MealAnalysisSchema>;
+export type ClarifyingQuestion = z.infer<typeof ClarifyingQuestionSchema>;
+export type DetectedDish = z.infer<typeof DetectedDishSchema>;
+export type DetectedDishes = z.infer<typeof DetectedDishesSchema>;
+
+// An answer is sent back together with its question
+export interface ClarificationAnswer
+  extends Pick<
+    ClarifyingQuestion,
+    "id" | "kind" | "question" | "ingredient" | "unit"
+  > {
+  answer: string | number | boolean;
+}
 
 //
 // ✅ Manual Interfaces - Updated to match Prisma schema
 //
+export type DishSelectionMode = "COMBINED" | "ITEMS";
+
+// The detected dishes the user ate, portions default to the detected ones
+export interface DishSelection {
+  mode: DishSelectionMode;
+  items: { dish_id: string; portion_g?: number; servings?: number }[];
+}
+
+// A dish of a multi-dish photo logged on its own under its meal
+export interface MealItem {
+  item_id: number;
+  meal_id: number;
+  dish_id: string;
+  name: string;
+  position: number;
+  portion_g?: number | null;
+  servings: number;
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  fiber_g?: number | null;
+  sugar_g?: number | null;
+  sodium_mg?: number | null;
+  ingredients?: any[];
+}
+
 export interface User {
   email_verified: any;
   user_id: string;
@@ -76,6 +149,7 @@ export interface User {
   is_questionnaire_completed: boolean;
   ai_requests_count?: number;
   ai_requests_reset_at?: string;
+  timezone?: string | null;
   created_at?: string;
   password_hash?: string;
   subscription_start?: string;
@@ -99,7 +173,9 @@ export interface Meal {
   // Primary Prisma fields
   meal_id: number;
   user_id: string;
+  // Short-lived signed URLs, refetch the meal list once they expire
   image_url?: string;
+  thumbnail_url?: string;
   upload_time: string;
   analysis_status: "PENDING" | "COMPLETED";
   meal_name: string | null;
@@ -166,6 +242,33 @@ export interface Meal {
   satiety_rating?: number;
   energy_rating?: number;
   heaviness_rating?: number;
+  // Would eat it again, null until the user says
+  liked?: boolean | null;
+
+  // Dishes logged separately from a multi-dish photo
+  items?: MealItem[];
+
+  // Set once an "after" photo showed what was left on the plate
+  after_image_url?: string | null;
+  consumed_ratio?: number | null;
+
+  // Set on deleted meals that can still be restored
+  deleted_at?: string | null;
+
+  // Only set for users who keep kosher
+  kosher_category?: KosherCategory;
+  kosher_warnings?: KosherWarning[];
+}
+
+export type KosherCategory = "meat" | "dairy" | "pareve" | "mixed";
+
+export interface KosherWarning {
+  type: "meat_and_dairy" | "non_kosher" | "waiting_time";
+  terms: string[];
+  previous_meal_id?: number;
+  previous_category?: "meat" | "dairy";
+  hours_since?: number;
+  required_hours?: number;
 }
 
 export interface AuthResponse {
@@ -187,6 +290,60 @@ export interface PendingMeal {
   analysis: MealAnalysisData | null;
   timestamp: number;
   meal_id?: string; // For updates
+  analysis_job_id?: string; // Background analysis job, if still running
+  saved_meal_id?: number; // Meal row created by the analysis job
+}
+
+export type AnalysisJobStatus =
+  | "PENDING"
+  | "PROCESSING"
+  | "COMPLETED"
+  | "FAILED";
+
+export interface MealAnalysisJob {
+  job_id: string;
+  meal_id: number | null;
+  status: AnalysisJobStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at?: string;
+  error?: string;
+  result?: MealAnalysisData;
+  created_at: string;
+  completed_at?: string | null;
+}
+
+export type AIFeature =
+  | "MEAL_ANALYSIS"
+  | "CHAT"
+  | "MENU_GENERATION"
+  | "PRODUCT_SCAN"
+  | "REPLACEMENT_MEAL";
+
+// limit and remaining are -1 when the plan is unlimited
+export interface AIQuotaUsage {
+  limit: number;
+  used: number;
+  remaining: number;
+}
+
+export interface AIQuotaStatus {
+  feature: AIFeature;
+  subscription_type: string;
+  timezone: string;
+  usage_date: string;
+  reset_at: string;
+  feature_quota: AIQuotaUsage;
+  total_quota: AIQuotaUsage;
+}
+
+export interface AIQuotaSummary {
+  subscription_type: string;
+  timezone: string;
+  usage_date: string;
+  reset_at: string;
+  total: AIQuotaUsage;
+  features: Record<AIFeature, AIQuotaUsage>;
 }
 
 // Daily stats interface
@@ -200,6 +357,290 @@ export interface DailyStats {
   meal_count: number;
 }
 
+export type MicronutrientStatus = "deficient" | "low" | "adequate" | "excess";
+
+export interface NutrientCoverage {
+  nutrient: string;
+  group: "vitamins" | "minerals" | "other";
+  unit: "g" | "mg" | "mcg";
+  target: number;
+  target_type: "RDA" | "AI";
+  upper_limit: number | null;
+  intake: number;
+  percent_of_target: number;
+  status: MicronutrientStatus;
+}
+
+export interface MicronutrientCoverage {
+  period: "day" | "week";
+  start_date: string;
+  end_date: string;
+  days_logged: number;
+  meals_logged: number;
+  meals_with_micronutrients: number;
+  nutrients: NutrientCoverage[];
+  deficiencies: string[];
+  excesses: string[];
+}
+
+export type FastingProtocol =
+  | "SIXTEEN_EIGHT"
+  | "EIGHTEEN_SIX"
+  | "OMAD"
+  | "CUSTOM"
+  | "YOM_KIPPUR"
+  | "TISHA_BAV"
+  | "MINOR_FAST"
+  | "RAMADAN";
+
+export interface FastingProtocolDefinition {
+  protocol: FastingProtocol;
+  label: { en: string; he: string };
+  fasting_hours: number;
+  eating_window_hours: number | null;
+  religious: boolean;
+}
+
+export interface Fast {
+  fast_id: number;
+  protocol: FastingProtocol;
+  source: "MANUAL" | "DETECTED";
+  status: "ACTIVE" | "COMPLETED" | "BROKEN";
+  target_hours: number;
+  started_at: string;
+  ended_at: string | null;
+  duration_hours: number;
+  progress_percent: number;
+  target_end: string;
+  broken_by_meal_id: number | null;
+  notes: string | null;
+}
+
+export interface FastingDaySummary {
+  completed: number;
+  broken: number;
+  longest_hours: number;
+  violations: number;
+}
+
+export interface FastingStats {
+  protocol: FastingProtocolDefinition & { target_hours: number };
+  active: Fast | null;
+  completed_fasts: number;
+  broken_fasts: number;
+  current_streak: number;
+  best_streak: number;
+  average_hours: number;
+  longest_hours: number;
+  window_violations: number;
+  completion_rate: number;
+}
+
+export type WeighInSource = "MANUAL" | "DEVICE" | "QUESTIONNAIRE";
+
+export interface WeighIn {
+  weigh_in_id: number;
+  weight_kg: number;
+  body_fat_percentage: number | null;
+  measured_at: string;
+  date: string;
+  source: WeighInSource;
+  device_id: string | null;
+  notes: string | null;
+}
+
+export interface WeightTrendPoint {
+  date: string;
+  weight_kg: number;
+  trend_kg: number;
+}
+
+export interface WeightProjection {
+  target_weight_kg: number | null;
+  goal_date: string | null;
+  projected_date: string | null;
+  remaining_kg: number | null;
+  required_weekly_rate_kg: number | null;
+  status:
+    | "no_target"
+    | "not_enough_data"
+    | "reached"
+    | "on_track"
+    | "behind"
+    | "moving_away";
+}
+
+export interface WeightTrend {
+  points: WeightTrendPoint[];
+  latest_weight_kg: number | null;
+  trend_weight_kg: number | null;
+  weekly_rate_kg: number | null;
+  projection: WeightProjection;
+  sources: Record<WeighInSource, number>;
+}
+
+export type AdaptiveGoalsMode = "OFF" | "RECOMMEND" | "AUTO_APPLY";
+
+export interface TdeeEstimate {
+  window_start: string;
+  window_end: string;
+  formula_tdee: number;
+  intake_tdee: number | null;
+  average_intake: number | null;
+  logged_days: number;
+  trend_change_kg: number | null;
+  trend_weight_kg: number | null;
+  device_tdee: number | null;
+  device_days: number;
+  estimated_tdee: number;
+  confidence: number;
+}
+
+export interface GoalAdjustment {
+  adjustment_id: number;
+  week_start: string;
+  status: "PENDING" | "APPLIED" | "DISMISSED";
+  estimated_tdee: number;
+  formula_tdee: number;
+  intake_tdee: number | null;
+  device_tdee: number | null;
+  confidence: number;
+  average_intake: number | null;
+  logged_days: number;
+  trend_change_kg: number | null;
+  target_weekly_kg: number;
+  previous_calories: number;
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  reason: "MEASURED_EXPENDITURE" | "ESTIMATED_EXPENDITURE" | "GOAL_PACE";
+  explanation: string;
+  applied_at: string | null;
+}
+
+export interface AdaptiveGoalsStatus {
+  mode: AdaptiveGoalsMode;
+  estimate: TdeeEstimate;
+  current_calories: number | null;
+  pending: GoalAdjustment | null;
+}
+
+export type GoalDayType = "REST" | "TRAINING" | "REFEED";
+
+export interface DayGoal {
+  date: string;
+  day_type: GoalDayType;
+  plan_id: number | null;
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  fiber_g: number;
+  sodium_mg: number;
+  sugar_g: number;
+  water_ml: number;
+}
+
+export interface GoalPlan {
+  plan_id: number;
+  effective_from: string;
+  source: "QUESTIONNAIRE" | "ADAPTIVE" | "MANUAL";
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  water_ml: number;
+  training_days: number[];
+  refeed_days: number[];
+  training_carb_boost: number;
+}
+
+export interface GoalScheduleDay extends Omit<DayGoal, "date" | "plan_id"> {
+  weekday: number;
+}
+
+export interface GoalSchedule {
+  plan: GoalPlan;
+  week: GoalScheduleDay[];
+}
+
+export type MealRevisionSource =
+  | "AI_REANALYSIS"
+  | "MANUAL_EDIT"
+  | "INGREDIENT_EDIT"
+  | "PORTION_CHANGE"
+  | "REVERT"
+  | "DELETE"
+  | "RESTORE";
+
+// A change to a logged meal, reverting it restores the meal from before it
+export interface MealRevision {
+  revision_id: number;
+  changed_by: string;
+  source: MealRevisionSource;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  created_at: string;
+}
+
+export type MealFeedbackTarget =
+  | "LOGGED_MEAL"
+  | "RECOMMENDED_MEAL"
+  | "MEAL_TEMPLATE";
+
+export type MealFeedbackReason =
+  | "TASTE"
+  | "TEXTURE"
+  | "TOO_HEAVY"
+  | "NOT_FILLING"
+  | "LOW_ENERGY"
+  | "PREP_TIME"
+  | "COST"
+  | "INGREDIENT"
+  | "DIGESTION"
+  | "REPETITIVE";
+
+export interface MealFeedbackInput {
+  liked?: boolean;
+  taste_rating?: number;
+  satiety_rating?: number;
+  energy_rating?: number;
+  heaviness_rating?: number;
+  reasons?: MealFeedbackReason[];
+  disliked_ingredients?: string[];
+  notes?: string;
+}
+
+export interface MealFeedback extends MealFeedbackInput {
+  feedback_id: number;
+  target: MealFeedbackTarget;
+  meal_id: number | null;
+  recommended_meal_id: string | null;
+  template_id: string | null;
+  dish_name: string;
+  ingredients: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DishPreference {
+  name: string;
+  score: number;
+  feedback_count: number;
+}
+
+export interface MealPreferenceProfile {
+  liked_dishes: DishPreference[];
+  disliked_dishes: DishPreference[];
+  liked_ingredients: string[];
+  disliked_ingredients: string[];
+  reasons: Partial<Record<MealFeedbackReason, number>>;
+  prefers_lighter_meals: boolean;
+  prefers_filling_meals: boolean;
+  prefers_quick_meals: boolean;
+  feedback_count: number;
+}
+
 export interface SignUpInput {
   email: string;
   password: string;
@@ -215,6 +656,7 @@ export interface QuestionnaireData {
   weight_kg?: string;
   target_weight_kg?: string | null;
   body_fat_percentage?: string | null;
+  pregnancy_status?: "NONE" | "PREGNANT" | "LACTATING" | null;
   additional_personal_info?: string[] | string;
 
   // Goals
@@ -256,6 +698,8 @@ export interface QuestionnaireData {
 
   // Dietary preferences and restrictions
   kosher?: boolean;
+  kosher_meat_dairy_wait_hours?: number | null;
+  kosher_dairy_meat_wait_hours?: number | null;
   allergies?: string[];
   allergies_text?: string;
   dietary_style?: string;
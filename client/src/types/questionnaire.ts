@@ -6,6 +6,7 @@ export interface QuestionnaireData {
   weight_kg: string;
   target_weight_kg: string | null;
   body_fat_percentage: string | null;
+  pregnancy_status?: "NONE" | "PREGNANT" | "LACTATING" | null;
   additional_personal_info: string[];
 
   // Goals
@@ -47,6 +48,8 @@ export interface QuestionnaireData {
 
   // Dietary preferences and restrictions
   kosher: boolean;
+  kosher_meat_dairy_wait_hours?: number | null;
+  kosher_dairy_meat_wait_hours?: number | null;
   allergies: string[];
   allergies_text: string[];
   dietary_style: string;
@@ -0,0 +1,41 @@
+-- AlterEnum
+ALTER TYPE "public"."AnalysisStatus" ADD VALUE 'PROCESSING';
+ALTER TYPE "public"."AnalysisStatus" ADD VALUE 'FAILED';
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "push_token" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."meal_analysis_jobs" (
+    "job_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "meal_id" INTEGER,
+    "status" "public"."AnalysisStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "max_attempts" INTEGER NOT NULL DEFAULT 3,
+    "request_json" JSONB NOT NULL,
+    "result_json" JSONB,
+    "error_message" TEXT,
+    "next_attempt_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "started_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "meal_analysis_jobs_pkey" PRIMARY KEY ("job_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "meal_analysis_jobs_meal_id_key" ON "public"."meal_analysis_jobs"("meal_id");
+
+-- CreateIndex
+CREATE INDEX "meal_analysis_jobs_status_next_attempt_at_idx" ON "public"."meal_analysis_jobs"("status", "next_attempt_at");
+
+-- CreateIndex
+CREATE INDEX "meal_analysis_jobs_user_id_created_at_idx" ON "public"."meal_analysis_jobs"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."meal_analysis_jobs" ADD CONSTRAINT "meal_analysis_jobs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."meal_analysis_jobs" ADD CONSTRAINT "meal_analysis_jobs_meal_id_fkey" FOREIGN KEY ("meal_id") REFERENCES "public"."Meal"("meal_id") ON DELETE SET NULL ON UPDATE CASCADE;
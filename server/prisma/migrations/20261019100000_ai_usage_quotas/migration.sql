@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "public"."AIFeature" AS ENUM ('MEAL_ANALYSIS', 'CHAT', 'MENU_GENERATION', 'PRODUCT_SCAN', 'REPLACEMENT_MEAL');
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "timezone" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."ai_usage" (
+    "usage_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "feature" "public"."AIFeature" NOT NULL,
+    "usage_date" TEXT NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ai_usage_pkey" PRIMARY KEY ("usage_id")
+);
+
+-- CreateIndex
+CREATE INDEX "ai_usage_usage_date_idx" ON "public"."ai_usage"("usage_date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ai_usage_user_id_feature_usage_date_key" ON "public"."ai_usage"("user_id", "feature", "usage_date");
+
+-- AddForeignKey
+ALTER TABLE "public"."ai_usage" ADD CONSTRAINT "ai_usage_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
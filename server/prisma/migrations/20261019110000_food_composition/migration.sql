@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "public"."recommended_ingredients" ADD COLUMN     "calories" DOUBLE PRECISION,
+ADD COLUMN     "carbs_g" DOUBLE PRECISION,
+ADD COLUMN     "fats_g" DOUBLE PRECISION,
+ADD COLUMN     "food_id" TEXT,
+ADD COLUMN     "protein_g" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "public"."food_compositions" (
+    "food_id" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "source_id" TEXT NOT NULL,
+    "name_en" TEXT NOT NULL,
+    "name_he" TEXT,
+    "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "search_text" TEXT NOT NULL,
+    "category" TEXT,
+    "calories" DOUBLE PRECISION NOT NULL,
+    "protein_g" DOUBLE PRECISION NOT NULL,
+    "carbs_g" DOUBLE PRECISION NOT NULL,
+    "fats_g" DOUBLE PRECISION NOT NULL,
+    "fiber_g" DOUBLE PRECISION,
+    "sugar_g" DOUBLE PRECISION,
+    "sodium_mg" DOUBLE PRECISION,
+    "saturated_fats_g" DOUBLE PRECISION,
+    "monounsaturated_fats_g" DOUBLE PRECISION,
+    "polyunsaturated_fats_g" DOUBLE PRECISION,
+    "omega_3_g" DOUBLE PRECISION,
+    "omega_6_g" DOUBLE PRECISION,
+    "cholesterol_mg" DOUBLE PRECISION,
+    "alcohol_g" DOUBLE PRECISION,
+    "caffeine_mg" DOUBLE PRECISION,
+    "vitamins_json" JSONB,
+    "micronutrients_json" JSONB,
+    "unit_weight_g" DOUBLE PRECISION,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "food_compositions_pkey" PRIMARY KEY ("food_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "food_compositions_source_source_id_key" ON "public"."food_compositions"("source", "source_id");
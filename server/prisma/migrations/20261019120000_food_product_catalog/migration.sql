@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "public"."FoodProductSource" AS ENUM ('LABEL_SCAN', 'OPENFOODFACTS_API', 'OPENFOODFACTS_IMPORT');
+
+-- DropForeignKey
+ALTER TABLE "public"."FoodProduct" DROP CONSTRAINT "FoodProduct_user_id_fkey";
+
+-- AlterTable
+ALTER TABLE "public"."FoodProduct" ADD COLUMN     "countries" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "nutriscore_grade" TEXT,
+ADD COLUMN     "serving_size" TEXT,
+ADD COLUMN     "source" "public"."FoodProductSource" NOT NULL DEFAULT 'OPENFOODFACTS_API',
+ADD COLUMN     "source_updated_at" TIMESTAMP(3),
+ALTER COLUMN "user_id" DROP NOT NULL;
+
+-- Products created from label photos
+UPDATE "public"."FoodProduct" SET "source" = 'LABEL_SCAN' WHERE "barcode" LIKE 'img\_%';
+
+-- CreateTable
+CREATE TABLE "public"."food_product_scans" (
+    "scan_id" SERIAL NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "product_id" INTEGER NOT NULL,
+    "scanned_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "food_product_scans_pkey" PRIMARY KEY ("scan_id")
+);
+
+-- Keep scan history of existing products with the user who first scanned them
+INSERT INTO "public"."food_product_scans" ("user_id", "product_id", "scanned_at")
+SELECT "user_id", "product_id", "created_at" FROM "public"."FoodProduct" WHERE "user_id" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "food_product_scans_user_id_scanned_at_idx" ON "public"."food_product_scans"("user_id", "scanned_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."FoodProduct" ADD CONSTRAINT "FoodProduct_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."food_product_scans" ADD CONSTRAINT "food_product_scans_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."food_product_scans" ADD CONSTRAINT "food_product_scans_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "public"."FoodProduct"("product_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."Meal" ADD COLUMN     "image_key" TEXT,
+ALTER COLUMN "image_url" DROP NOT NULL;
+
+-- Meals without a photo stored an empty string
+UPDATE "public"."Meal" SET "image_url" = NULL WHERE "image_url" = '';
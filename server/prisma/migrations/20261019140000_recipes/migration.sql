@@ -0,0 +1,59 @@
+-- AlterTable
+ALTER TABLE "public"."Meal" ADD COLUMN     "recipe_servings" DOUBLE PRECISION,
+ADD COLUMN     "recipe_version_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."meal_templates" ADD COLUMN     "recipe_version_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."recipes" (
+    "recipe_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "current_version" INTEGER NOT NULL DEFAULT 1,
+    "is_archived" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "recipes_pkey" PRIMARY KEY ("recipe_id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."recipe_versions" (
+    "version_id" TEXT NOT NULL,
+    "recipe_id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "instructions" TEXT,
+    "servings" DOUBLE PRECISION NOT NULL,
+    "ingredients_json" JSONB NOT NULL,
+    "calories" DOUBLE PRECISION NOT NULL,
+    "protein_g" DOUBLE PRECISION NOT NULL,
+    "carbs_g" DOUBLE PRECISION NOT NULL,
+    "fats_g" DOUBLE PRECISION NOT NULL,
+    "fiber_g" DOUBLE PRECISION,
+    "sugar_g" DOUBLE PRECISION,
+    "sodium_mg" DOUBLE PRECISION,
+    "serving_weight_g" DOUBLE PRECISION,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "recipe_versions_pkey" PRIMARY KEY ("version_id")
+);
+
+-- CreateIndex
+CREATE INDEX "recipes_user_id_is_archived_idx" ON "public"."recipes"("user_id", "is_archived");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recipe_versions_recipe_id_version_key" ON "public"."recipe_versions"("recipe_id", "version");
+
+-- AddForeignKey
+ALTER TABLE "public"."Meal" ADD CONSTRAINT "Meal_recipe_version_id_fkey" FOREIGN KEY ("recipe_version_id") REFERENCES "public"."recipe_versions"("version_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."recipes" ADD CONSTRAINT "recipes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."recipe_versions" ADD CONSTRAINT "recipe_versions_recipe_id_fkey" FOREIGN KEY ("recipe_id") REFERENCES "public"."recipes"("recipe_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."meal_templates" ADD CONSTRAINT "meal_templates_recipe_version_id_fkey" FOREIGN KEY ("recipe_version_id") REFERENCES "public"."recipe_versions"("version_id") ON DELETE SET NULL ON UPDATE CASCADE;
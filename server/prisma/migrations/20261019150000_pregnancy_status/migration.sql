@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "public"."PregnancyStatus" AS ENUM ('NONE', 'PREGNANT', 'LACTATING');
+
+-- AlterTable
+ALTER TABLE "public"."UserQuestionnaire" ADD COLUMN     "pregnancy_status" "public"."PregnancyStatus";
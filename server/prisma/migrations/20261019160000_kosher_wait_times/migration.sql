@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."UserQuestionnaire" ADD COLUMN     "kosher_dairy_meat_wait_hours" DOUBLE PRECISION,
+ADD COLUMN     "kosher_meat_dairy_wait_hours" DOUBLE PRECISION;
@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "public"."FastingProtocol" AS ENUM ('SIXTEEN_EIGHT', 'EIGHTEEN_SIX', 'OMAD', 'CUSTOM', 'YOM_KIPPUR', 'TISHA_BAV', 'MINOR_FAST', 'RAMADAN');
+
+-- CreateEnum
+CREATE TYPE "public"."FastingStatus" AS ENUM ('ACTIVE', 'COMPLETED', 'BROKEN');
+
+-- CreateEnum
+CREATE TYPE "public"."FastingSource" AS ENUM ('MANUAL', 'DETECTED');
+
+-- CreateTable
+CREATE TABLE "public"."fasting_sessions" (
+    "fast_id" SERIAL NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "protocol" "public"."FastingProtocol" NOT NULL,
+    "target_hours" DOUBLE PRECISION NOT NULL,
+    "source" "public"."FastingSource" NOT NULL DEFAULT 'MANUAL',
+    "status" "public"."FastingStatus" NOT NULL DEFAULT 'ACTIVE',
+    "started_at" TIMESTAMP(3) NOT NULL,
+    "ended_at" TIMESTAMP(3),
+    "broken_by_meal_id" INTEGER,
+    "notes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "fasting_sessions_pkey" PRIMARY KEY ("fast_id")
+);
+
+-- CreateIndex
+CREATE INDEX "fasting_sessions_user_id_started_at_idx" ON "public"."fasting_sessions"("user_id", "started_at");
+
+-- CreateIndex
+CREATE INDEX "fasting_sessions_user_id_status_idx" ON "public"."fasting_sessions"("user_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "public"."fasting_sessions" ADD CONSTRAINT "fasting_sessions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Fasting achievements
+INSERT INTO "public"."Achievement" ("id", "key", "title", "description", "category", "max_progress", "points_awarded", "icon", "rarity", "updated_at") VALUES
+('ach_031', 'first_fast', 'First Fast', 'Complete your first fast', 'MILESTONE', 1, 100, '⏳', 'COMMON', CURRENT_TIMESTAMP),
+('ach_032', 'fasts_7', 'Fasting Week', '7 fasts completed', 'MILESTONE', 7, 500, '🌙', 'UNCOMMON', CURRENT_TIMESTAMP),
+('ach_033', 'fasts_30', 'Fasting Master', '30 fasts completed', 'MILESTONE', 30, 2000, '🕰️', 'EPIC', CURRENT_TIMESTAMP),
+('ach_034', 'fasting_streak_7', 'Steady Faster', 'Complete a fast 7 days in a row', 'STREAK', 7, 750, '🔥', 'RARE', CURRENT_TIMESTAMP)
+ON CONFLICT ("key") DO NOTHING;
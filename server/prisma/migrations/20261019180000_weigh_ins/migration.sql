@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "public"."WeighInSource" AS ENUM ('MANUAL', 'DEVICE', 'QUESTIONNAIRE');
+
+-- CreateTable
+CREATE TABLE "public"."weigh_ins" (
+    "weigh_in_id" SERIAL NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "weight_kg" DOUBLE PRECISION NOT NULL,
+    "body_fat_percentage" DOUBLE PRECISION,
+    "measured_at" TIMESTAMP(3) NOT NULL,
+    "date" DATE NOT NULL,
+    "source" "public"."WeighInSource" NOT NULL DEFAULT 'MANUAL',
+    "device_id" TEXT,
+    "notes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "weigh_ins_pkey" PRIMARY KEY ("weigh_in_id")
+);
+
+-- Import the weights devices already synced
+INSERT INTO "public"."weigh_ins" ("user_id", "weight_kg", "body_fat_percentage", "measured_at", "date", "source", "device_id", "updated_at")
+SELECT "user_id", "weight_kg", "body_fat_percentage",
+       CASE WHEN "sync_timestamp"::date = "date" THEN "sync_timestamp" ELSE "date"::timestamp END,
+       "date", 'DEVICE', "device_id", CURRENT_TIMESTAMP
+FROM "public"."daily_activity_summary"
+WHERE "weight_kg" IS NOT NULL AND "weight_kg" > 0;
+
+-- CreateIndex
+CREATE INDEX "weigh_ins_user_id_measured_at_idx" ON "public"."weigh_ins"("user_id", "measured_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "weigh_ins_user_id_device_id_date_key" ON "public"."weigh_ins"("user_id", "device_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "public"."weigh_ins" ADD CONSTRAINT "weigh_ins_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."weigh_ins" ADD CONSTRAINT "weigh_ins_device_id_fkey" FOREIGN KEY ("device_id") REFERENCES "public"."connected_devices"("connected_device_id") ON DELETE SET NULL ON UPDATE CASCADE;
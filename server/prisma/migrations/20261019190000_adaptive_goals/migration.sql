@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "public"."AdaptiveGoalsMode" AS ENUM ('OFF', 'RECOMMEND', 'AUTO_APPLY');
+
+-- CreateEnum
+CREATE TYPE "public"."GoalAdjustmentStatus" AS ENUM ('PENDING', 'APPLIED', 'DISMISSED');
+
+-- CreateEnum
+CREATE TYPE "public"."GoalAdjustmentReason" AS ENUM ('MEASURED_EXPENDITURE', 'ESTIMATED_EXPENDITURE', 'GOAL_PACE');
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN "adaptive_goals_mode" "public"."AdaptiveGoalsMode" NOT NULL DEFAULT 'RECOMMEND';
+
+-- CreateTable
+CREATE TABLE "public"."goal_adjustments" (
+    "adjustment_id" SERIAL NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "week_start" DATE NOT NULL,
+    "status" "public"."GoalAdjustmentStatus" NOT NULL DEFAULT 'PENDING',
+    "estimated_tdee" DOUBLE PRECISION NOT NULL,
+    "formula_tdee" DOUBLE PRECISION NOT NULL,
+    "intake_tdee" DOUBLE PRECISION,
+    "device_tdee" DOUBLE PRECISION,
+    "confidence" DOUBLE PRECISION NOT NULL,
+    "average_intake" DOUBLE PRECISION,
+    "logged_days" INTEGER NOT NULL,
+    "trend_change_kg" DOUBLE PRECISION,
+    "target_weekly_kg" DOUBLE PRECISION NOT NULL,
+    "previous_calories" DOUBLE PRECISION NOT NULL,
+    "calories" DOUBLE PRECISION NOT NULL,
+    "protein_g" DOUBLE PRECISION NOT NULL,
+    "carbs_g" DOUBLE PRECISION NOT NULL,
+    "fats_g" DOUBLE PRECISION NOT NULL,
+    "reason" "public"."GoalAdjustmentReason" NOT NULL,
+    "explanation" TEXT NOT NULL,
+    "applied_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "goal_adjustments_pkey" PRIMARY KEY ("adjustment_id")
+);
+
+-- CreateIndex
+CREATE INDEX "goal_adjustments_user_id_status_idx" ON "public"."goal_adjustments"("user_id", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "goal_adjustments_user_id_week_start_key" ON "public"."goal_adjustments"("user_id", "week_start");
+
+-- AddForeignKey
+ALTER TABLE "public"."goal_adjustments" ADD CONSTRAINT "goal_adjustments_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
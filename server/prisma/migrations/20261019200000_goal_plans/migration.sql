@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "public"."GoalDayType" AS ENUM ('REST', 'TRAINING', 'REFEED');
+
+-- CreateEnum
+CREATE TYPE "public"."GoalPlanSource" AS ENUM ('QUESTIONNAIRE', 'ADAPTIVE', 'MANUAL');
+
+-- AlterTable
+ALTER TABLE "public"."DailyGoal" ADD COLUMN "day_type" "public"."GoalDayType" NOT NULL DEFAULT 'REST',
+ADD COLUMN "plan_id" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."goal_plans" (
+    "plan_id" SERIAL NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "effective_from" DATE NOT NULL,
+    "source" "public"."GoalPlanSource" NOT NULL,
+    "calories" DOUBLE PRECISION NOT NULL,
+    "protein_g" DOUBLE PRECISION NOT NULL,
+    "carbs_g" DOUBLE PRECISION NOT NULL,
+    "fats_g" DOUBLE PRECISION NOT NULL,
+    "fiber_g" DOUBLE PRECISION NOT NULL DEFAULT 25,
+    "sodium_mg" DOUBLE PRECISION NOT NULL DEFAULT 2300,
+    "sugar_g" DOUBLE PRECISION NOT NULL DEFAULT 50,
+    "water_ml" DOUBLE PRECISION NOT NULL DEFAULT 2500,
+    "training_days" INTEGER[],
+    "refeed_days" INTEGER[],
+    "training_carb_boost" DOUBLE PRECISION NOT NULL DEFAULT 0.25,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "goal_plans_pkey" PRIMARY KEY ("plan_id")
+);
+
+-- The latest existing goal becomes each user's first version, the rows
+-- already written stay as the record of their days
+INSERT INTO "public"."goal_plans" ("user_id", "effective_from", "source", "calories", "protein_g", "carbs_g", "fats_g", "fiber_g", "sodium_mg", "sugar_g", "water_ml", "training_days", "refeed_days")
+SELECT DISTINCT ON ("user_id") "user_id", "date", 'QUESTIONNAIRE', "calories", "protein_g", "carbs_g", "fats_g", "fiber_g", "sodium_mg", "sugar_g", "water_ml", '{}', '{}'
+FROM "public"."DailyGoal"
+ORDER BY "user_id", "date" DESC;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "goal_plans_user_id_effective_from_key" ON "public"."goal_plans"("user_id", "effective_from");
+
+-- AddForeignKey
+ALTER TABLE "public"."DailyGoal" ADD CONSTRAINT "DailyGoal_plan_id_fkey" FOREIGN KEY ("plan_id") REFERENCES "public"."goal_plans"("plan_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."goal_plans" ADD CONSTRAINT "goal_plans_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,80 @@
+-- CreateEnum
+CREATE TYPE "public"."MealFeedbackTarget" AS ENUM ('LOGGED_MEAL', 'RECOMMENDED_MEAL', 'MEAL_TEMPLATE');
+
+-- CreateEnum
+CREATE TYPE "public"."MealFeedbackReason" AS ENUM ('TASTE', 'TEXTURE', 'TOO_HEAVY', 'NOT_FILLING', 'LOW_ENERGY', 'PREP_TIME', 'COST', 'INGREDIENT', 'DIGESTION', 'REPETITIVE');
+
+-- CreateTable
+CREATE TABLE "public"."meal_feedback" (
+    "feedback_id" SERIAL NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "target" "public"."MealFeedbackTarget" NOT NULL,
+    "meal_id" INTEGER,
+    "recommended_meal_id" TEXT,
+    "template_id" TEXT,
+    "dish_name" TEXT NOT NULL,
+    "ingredients" TEXT[],
+    "liked" BOOLEAN,
+    "taste_rating" INTEGER,
+    "satiety_rating" INTEGER,
+    "energy_rating" INTEGER,
+    "heaviness_rating" INTEGER,
+    "reasons" "public"."MealFeedbackReason"[],
+    "disliked_ingredients" TEXT[],
+    "notes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "meal_feedback_pkey" PRIMARY KEY ("feedback_id")
+);
+
+-- CreateIndex
+CREATE INDEX "meal_feedback_user_id_updated_at_idx" ON "public"."meal_feedback"("user_id", "updated_at");
+
+-- CreateIndex
+CREATE INDEX "meal_feedback_meal_id_idx" ON "public"."meal_feedback"("meal_id");
+
+-- CreateIndex
+CREATE INDEX "meal_feedback_recommended_meal_id_idx" ON "public"."meal_feedback"("recommended_meal_id");
+
+-- CreateIndex
+CREATE INDEX "meal_feedback_template_id_idx" ON "public"."meal_feedback"("template_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."meal_feedback" ADD CONSTRAINT "meal_feedback_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."meal_feedback" ADD CONSTRAINT "meal_feedback_meal_id_fkey" FOREIGN KEY ("meal_id") REFERENCES "public"."Meal"("meal_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."meal_feedback" ADD CONSTRAINT "meal_feedback_recommended_meal_id_fkey" FOREIGN KEY ("recommended_meal_id") REFERENCES "public"."recommended_meals"("meal_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."meal_feedback" ADD CONSTRAINT "meal_feedback_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "public"."meal_templates"("template_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Move ratings stored inside Meal.additives_json into the new table, 0 meant unrated
+INSERT INTO "public"."meal_feedback" ("user_id", "target", "meal_id", "dish_name", "ingredients", "taste_rating", "satiety_rating", "energy_rating", "heaviness_rating", "reasons", "disliked_ingredients", "updated_at")
+SELECT
+    m."user_id",
+    'LOGGED_MEAL',
+    m."meal_id",
+    COALESCE(m."meal_name", ''),
+    ARRAY(
+        SELECT COALESCE(item->>'name', item #>> '{}')
+        FROM jsonb_array_elements(
+            CASE WHEN jsonb_typeof(m."ingredients"::jsonb) = 'array' THEN m."ingredients"::jsonb ELSE '[]'::jsonb END
+        ) AS item
+    ),
+    NULLIF(ROUND((m."additives_json"::jsonb #>> '{feedback,tasteRating}')::numeric)::int, 0),
+    NULLIF(ROUND((m."additives_json"::jsonb #>> '{feedback,satietyRating}')::numeric)::int, 0),
+    NULLIF(ROUND((m."additives_json"::jsonb #>> '{feedback,energyRating}')::numeric)::int, 0),
+    NULLIF(ROUND((m."additives_json"::jsonb #>> '{feedback,heavinessRating}')::numeric)::int, 0),
+    ARRAY[]::"public"."MealFeedbackReason"[],
+    ARRAY[]::TEXT[],
+    CURRENT_TIMESTAMP
+FROM "public"."Meal" m
+WHERE jsonb_typeof(m."additives_json"::jsonb -> 'feedback') = 'object';
+
+UPDATE "public"."Meal"
+SET "additives_json" = "additives_json"::jsonb - 'feedback'
+WHERE jsonb_typeof("additives_json"::jsonb -> 'feedback') = 'object';
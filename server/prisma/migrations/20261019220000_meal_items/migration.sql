@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "public"."Meal" ADD COLUMN     "detected_dishes" JSONB;
+
+-- CreateTable
+CREATE TABLE "public"."meal_items" (
+    "item_id" SERIAL NOT NULL,
+    "meal_id" INTEGER NOT NULL,
+    "dish_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "portion_g" DOUBLE PRECISION,
+    "servings" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "calories" DOUBLE PRECISION NOT NULL,
+    "protein_g" DOUBLE PRECISION NOT NULL,
+    "carbs_g" DOUBLE PRECISION NOT NULL,
+    "fats_g" DOUBLE PRECISION NOT NULL,
+    "fiber_g" DOUBLE PRECISION,
+    "sugar_g" DOUBLE PRECISION,
+    "sodium_mg" DOUBLE PRECISION,
+    "ingredients" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "meal_items_pkey" PRIMARY KEY ("item_id")
+);
+
+-- CreateIndex
+CREATE INDEX "meal_items_meal_id_idx" ON "public"."meal_items"("meal_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."meal_items" ADD CONSTRAINT "meal_items_meal_id_fkey" FOREIGN KEY ("meal_id") REFERENCES "public"."Meal"("meal_id") ON DELETE CASCADE ON UPDATE CASCADE;
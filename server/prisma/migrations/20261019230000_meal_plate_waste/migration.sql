@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."Meal" ADD COLUMN     "after_image_key" TEXT,
+ADD COLUMN     "consumed_ratio" DOUBLE PRECISION,
+ADD COLUMN     "plate_waste" JSONB;
@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "public"."MealRevisionSource" AS ENUM ('AI_REANALYSIS', 'MANUAL_EDIT', 'INGREDIENT_EDIT', 'PORTION_CHANGE', 'REVERT', 'DELETE', 'RESTORE');
+
+-- AlterTable
+ALTER TABLE "public"."Meal" ADD COLUMN     "deleted_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."meal_revisions" (
+    "revision_id" SERIAL NOT NULL,
+    "meal_id" INTEGER NOT NULL,
+    "changed_by" TEXT NOT NULL,
+    "source" "public"."MealRevisionSource" NOT NULL,
+    "changes" JSONB NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "meal_revisions_pkey" PRIMARY KEY ("revision_id")
+);
+
+-- CreateIndex
+CREATE INDEX "meal_revisions_meal_id_created_at_idx" ON "public"."meal_revisions"("meal_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."meal_revisions" ADD CONSTRAINT "meal_revisions_meal_id_fkey" FOREIGN KEY ("meal_id") REFERENCES "public"."Meal"("meal_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."connected_devices" ADD COLUMN     "last_sync_attempt_at" TIMESTAMP(3),
+ADD COLUMN     "last_sync_error" TEXT,
+ADD COLUMN     "sync_failure_count" INTEGER NOT NULL DEFAULT 0;
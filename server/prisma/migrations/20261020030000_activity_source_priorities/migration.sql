@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "public"."ActivityMetric" AS ENUM ('STEPS', 'CALORIES', 'SLEEP', 'HEART_RATE', 'WEIGHT');
+
+-- CreateTable
+CREATE TABLE "public"."activity_source_priorities" (
+    "user_id" TEXT NOT NULL,
+    "metric" "public"."ActivityMetric" NOT NULL,
+    "sources" "public"."DeviceType"[],
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "activity_source_priorities_pkey" PRIMARY KEY ("user_id","metric")
+);
+
+-- AddForeignKey
+ALTER TABLE "public"."activity_source_priorities" ADD CONSTRAINT "activity_source_priorities_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
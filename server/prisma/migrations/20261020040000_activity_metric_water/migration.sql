@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."ActivityMetric" ADD VALUE 'WATER';
@@ -66,7 +66,13 @@ INSERT INTO "Achievement" ("id", "key", "title", "description", "category", "max
 -- Advanced Achievements
 ('ach_028', 'macro_master', 'Macro Master', 'Hit perfect macro ratios (40/30/30) for a day', 'GOAL', 1, 500, '🎯', 'RARE'),
 ('ach_029', 'fiber_friend', 'Fiber Friend', 'Consume 35g+ fiber in a day', 'GOAL', 1, 250, '🌾', 'UNCOMMON'),
-('ach_030', 'iron_will', 'Iron Will', 'Complete goals for 365 days total', 'MILESTONE', 365, 25000, '💎', 'LEGENDARY');
+('ach_030', 'iron_will', 'Iron Will', 'Complete goals for 365 days total', 'MILESTONE', 365, 25000, '💎', 'LEGENDARY'),
+
+-- Fasting Achievements
+('ach_031', 'first_fast', 'First Fast', 'Complete your first fast', 'MILESTONE', 1, 100, '⏳', 'COMMON'),
+('ach_032', 'fasts_7', 'Fasting Week', '7 fasts completed', 'MILESTONE', 7, 500, '🌙', 'UNCOMMON'),
+('ach_033', 'fasts_30', 'Fasting Master', '30 fasts completed', 'MILESTONE', 30, 2000, '🕰️', 'EPIC'),
+('ach_034', 'fasting_streak_7', 'Steady Faster', 'Complete a fast 7 days in a row', 'STREAK', 7, 750, '🔥', 'RARE');
 
 -- Update existing records to have proper timestamps
 UPDATE "Achievement" SET "updated_at" = CURRENT_TIMESTAMP WHERE "updated_at" IS NULL;
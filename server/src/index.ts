@@ -18,7 +18,16 @@ import { calendarRoutes } from "./routes/calendar";
 import statisticsRoutes from "./routes/statistics";
 import foodScannerRoutes from "./routes/foodScanner";
 import { healthRoutes } from "./routes/health";
+import { foodsRoutes } from "./routes/foods";
+import { imageRoutes } from "./routes/images";
+import { recipeRoutes } from "./routes/recipes";
+import { fastingRoutes } from "./routes/fasting";
+import { weightRoutes } from "./routes/weight";
+import { adaptiveGoalsRoutes } from "./routes/adaptiveGoals";
+import { mealFeedbackRoutes } from "./routes/mealFeedback";
 import { CronJobService } from "./services/cronJobs";
+import { MealAnalysisJobService } from "./services/mealAnalysisJobs";
+import { getAIProviderName } from "./lib/ai";
 import "./services/cron";
 import { dailyGoalsRoutes } from "./routes/dailyGoal";
 import achievementsRouter from "./routes/achievements";
@@ -89,7 +98,7 @@ const corsOptions = {
   ].filter(Boolean) as string[],
   credentials: true,
   methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-  allowedHeaders: ["Content-Type", "Authorization", "Cookie"],
+  allowedHeaders: ["Content-Type", "Authorization", "Cookie", "X-Timezone"],
 };
 
 app.use(cors(corsOptions));
@@ -118,6 +127,7 @@ app.get("/health", (req, res) => {
     version: process.env.npm_package_version || "unknown",
     uptime: process.uptime(),
     openai_enabled: !!config.openaiApiKey,
+    ai_provider: getAIProviderName(),
   });
 });
 
@@ -146,6 +156,13 @@ apiRouter.use("/calendar", calendarRoutes);
 apiRouter.use("/meal-plans", mealPlansRoutes);
 apiRouter.use("/chat", chatRoutes);
 apiRouter.use("/food-scanner", foodScannerRoutes);
+apiRouter.use("/foods", foodsRoutes);
+apiRouter.use("/images", imageRoutes);
+apiRouter.use("/recipes", recipeRoutes);
+apiRouter.use("/fasting", fastingRoutes);
+apiRouter.use("/weight", weightRoutes);
+apiRouter.use("/adaptive-goals", adaptiveGoalsRoutes);
+apiRouter.use("/meal-feedback", mealFeedbackRoutes);
 apiRouter.use("/", statisticsRoutes);
 apiRouter.use("/daily-goals", dailyGoalsRoutes);
 apiRouter.use("/", achievementsRouter);
@@ -172,11 +189,14 @@ const logStartup = () => {
   log.info(`Port: ${config.port}`);
   log.info(`API Base URL: ${config.apiBaseUrl || "Not set"}`);
 
-  if (config.openaiApiKey) {
-    log.success("OpenAI API key found - AI features enabled");
+  const aiProvider = getAIProviderName();
+  if (aiProvider) {
+    log.success(`AI provider "${aiProvider}" enabled`);
   } else {
-    log.warn("No OpenAI API key found. AI features will use mock data.");
-    log.info("To enable AI features, set OPENAI_API_KEY in your .env file");
+    log.warn("No AI provider configured. AI features will use mock data.");
+    log.info(
+      "To enable AI features, set OPENAI_API_KEY or AI_PROVIDER=fixture in your .env file"
+    );
   }
 };
 
@@ -200,7 +220,7 @@ const server = app.listen(config.port, "0.0.0.0", () => {
   log.info(`Test endpoint: http://${config.serverIp}:${config.port}/test`);
   log.info(`Health check: http://${config.serverIp}:${config.port}/health`);
 
-  if (!config.openaiApiKey) {
+  if (!getAIProviderName()) {
     log.warn(
       "Note: AI features are using mock data. Add OPENAI_API_KEY to enable real AI analysis."
     );
@@ -210,6 +230,9 @@ const server = app.listen(config.port, "0.0.0.0", () => {
 
   // Create daily goals for existing users
   CronJobService.createDailyGoalsForAllUsers();
+
+  // Resume meal analysis jobs interrupted by the last shutdown
+  MealAnalysisJobService.recoverJobs();
 });
 
 // Handle process termination
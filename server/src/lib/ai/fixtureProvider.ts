@@ -0,0 +1,144 @@
+import crypto from "crypto";
+import {
+  AIJSONRequest,
+  AIProvider,
+  AITask,
+  AITextRequest,
+  AIVisionRequest,
+} from "../../types/ai";
+import {
+  CHAT_REPLY_FIXTURES,
+  DAILY_MENU_FIXTURE,
+  MEAL_ANALYSIS_FIXTURES,
+  MENU_DAY_FIXTURE,
+  PLATE_WASTE_LEFTOVER_FIXTURES,
+  PRODUCT_SCAN_FIXTURES,
+  REPLACEMENT_MEAL_FIXTURES,
+} from "./fixtures";
+
+/**
+ * Offline provider returning canned responses. The same request always gets
+ * the same fixture, so flows are reproducible in development and CI.
+ */
+export class FixtureProvider implements AIProvider {
+  readonly name = "fixture";
+
+  async generateText(request: AITextRequest): Promise<string> {
+    return this.respond(request);
+  }
+
+  async analyzeImage(request: AIVisionRequest): Promise<string> {
+    return this.respond(request, request.images[0]?.base64);
+  }
+
+  async generateJSON<T = any>(request: AIJSONRequest): Promise<T> {
+    return JSON.parse(this.respond(request, request.images?.[0]?.base64));
+  }
+
+  private respond(request: AITextRequest, image?: string): string {
+    const seed =
+      image || request.messages.map((message) => message.content).join("\n");
+    const context = request.context || {};
+
+    switch (request.task) {
+      case "meal_analysis":
+        return JSON.stringify(pick(MEAL_ANALYSIS_FIXTURES, seed));
+
+      case "meal_update":
+        // Echo the original analysis back, which is what an update without
+        // new information would produce
+        return JSON.stringify(
+          context.originalAnalysis || pick(MEAL_ANALYSIS_FIXTURES, seed)
+        );
+
+      case "plate_waste":
+        return JSON.stringify({
+          leftovers: (context.ingredients || []).map((name: string) => ({
+            name,
+            leftover_fraction: pick(
+              PLATE_WASTE_LEFTOVER_FIXTURES,
+              `${seed}\n${name}`
+            ),
+          })),
+          plate_leftover_fraction: null,
+        });
+
+      case "product_scan":
+        return JSON.stringify(pick(PRODUCT_SCAN_FIXTURES, seed));
+
+      case "menu_generation":
+        return JSON.stringify(this.buildMenu(Number(context.days) || 1));
+
+      case "replacement_meal":
+        return JSON.stringify({
+          ...pick(REPLACEMENT_MEAL_FIXTURES, seed),
+          meal_timing: context.mealTiming,
+        });
+
+      case "daily_menu":
+        return DAILY_MENU_FIXTURE;
+
+      case "chat":
+        return pick(
+          context.language === "hebrew" || /[֐-׿]/.test(seed)
+            ? CHAT_REPLY_FIXTURES.hebrew
+            : CHAT_REPLY_FIXTURES.english,
+          seed
+        );
+
+      default:
+        return unsupportedTask(request.task);
+    }
+  }
+
+  private buildMenu(days: number) {
+    const meals = [];
+    for (let day = 1; day <= days; day++) {
+      for (const meal of MENU_DAY_FIXTURE) {
+        meals.push({
+          ...meal,
+          meal_id: `d${day}_${meal.meal_type.toLowerCase()}`,
+          day_number: day,
+        });
+      }
+    }
+
+    const dayTotals = MENU_DAY_FIXTURE.reduce(
+      (totals, meal) => ({
+        calories: totals.calories + meal.calories,
+        protein: totals.protein + meal.protein,
+        carbs: totals.carbs + meal.carbs,
+        fat: totals.fat + meal.fat,
+        fiber: totals.fiber + meal.fiber,
+      }),
+      { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 }
+    );
+    const dayCost = MENU_DAY_FIXTURE.flatMap((meal) => meal.ingredients).reduce(
+      (sum, ingredient) => sum + ingredient.estimated_cost,
+      0
+    );
+
+    return {
+      title: "תפריט לדוגמה",
+      description: "Sample menu served by the offline AI provider",
+      total_calories: dayTotals.calories * days,
+      total_protein: dayTotals.protein * days,
+      total_carbs: dayTotals.carbs * days,
+      total_fat: dayTotals.fat * days,
+      total_fiber: dayTotals.fiber * days,
+      days_count: days,
+      estimated_cost: dayCost * days,
+      meals,
+    };
+  }
+}
+
+// Deterministically choose a fixture from the request content
+function pick<T>(fixtures: T[], seed: string): T {
+  const hash = crypto.createHash("sha1").update(seed).digest();
+  return fixtures[hash.readUInt32BE(0) % fixtures.length];
+}
+
+function unsupportedTask(task: AITask): never {
+  throw new Error(`Fixture provider has no response for task "${task}"`);
+}
@@ -0,0 +1,570 @@
+// Canned responses served by the fixture provider. They follow the same JSON
+// shapes the prompts ask the real models for, so the normal parsing paths run.
+
+export const MEAL_ANALYSIS_FIXTURES = [
+  {
+    meal_name: "Grilled chicken with rice and salad",
+    description: "Grilled chicken breast with white rice and Israeli salad",
+    calories: 620,
+    protein_g: 48,
+    carbs_g: 62,
+    fats_g: 18,
+    saturated_fats_g: 3.5,
+    polyunsaturated_fats_g: 3.2,
+    monounsaturated_fats_g: 9.1,
+    omega_3_g: 0.3,
+    omega_6_g: 2.8,
+    fiber_g: 5,
+    soluble_fiber_g: 1.5,
+    insoluble_fiber_g: 3.5,
+    sugar_g: 6,
+    cholesterol_mg: 120,
+    sodium_mg: 780,
+    alcohol_g: 0,
+    caffeine_mg: 0,
+    liquids_ml: 0,
+    serving_size_g: 450,
+    allergens_json: { possible_allergens: [] },
+    vitamins_json: {
+      vitamin_a_mcg: 120,
+      vitamin_c_mg: 28,
+      vitamin_d_mcg: 0.2,
+      vitamin_e_mg: 2.1,
+      vitamin_k_mcg: 45,
+      vitamin_b12_mcg: 0.6,
+      folate_mcg: 60,
+      niacin_mg: 18,
+      thiamin_mg: 0.3,
+      riboflavin_mg: 0.3,
+      pantothenic_acid_mg: 1.8,
+      vitamin_b6_mg: 1.1,
+    },
+    micronutrients_json: {
+      iron_mg: 2.4,
+      magnesium_mg: 85,
+      zinc_mg: 2.2,
+      calcium_mg: 45,
+      potassium_mg: 820,
+      phosphorus_mg: 420,
+      selenium_mcg: 38,
+      copper_mg: 0.2,
+      manganese_mg: 0.9,
+    },
+    glycemic_index: 62,
+    insulin_index: 58,
+    food_category: "Homemade",
+    processing_level: "Minimally processed",
+    cooking_method: "Grilled",
+    additives_json: { observed_additives: [] },
+    health_risk_notes: "Balanced meal, moderate sodium from seasoning",
+    confidence: 0.86,
+    ingredients: [
+      {
+        name: "grilled chicken breast",
+        calories: 280,
+        protein_g: 42,
+        carbs_g: 0,
+        fats_g: 10,
+        fiber_g: 0,
+        sugar_g: 0,
+        sodium_mg: 420,
+        estimated_portion_g: 150,
+      },
+      {
+        name: "steamed white rice",
+        calories: 260,
+        protein_g: 5,
+        carbs_g: 56,
+        fats_g: 0.5,
+        fiber_g: 1,
+        sugar_g: 0,
+        sodium_mg: 5,
+        estimated_portion_g: 200,
+      },
+      {
+        name: "cucumber and tomato salad with olive oil",
+        calories: 80,
+        protein_g: 1,
+        carbs_g: 6,
+        fats_g: 7.5,
+        fiber_g: 4,
+        sugar_g: 6,
+        sodium_mg: 355,
+        estimated_portion_g: 100,
+      },
+    ],
+  },
+  {
+    meal_name: "Shakshuka with bread",
+    description:
+      "Eggs poached in tomato and pepper sauce with a slice of bread",
+    calories: 480,
+    protein_g: 22,
+    carbs_g: 44,
+    fats_g: 24,
+    saturated_fats_g: 6,
+    polyunsaturated_fats_g: 3.4,
+    monounsaturated_fats_g: 12.5,
+    omega_3_g: 0.2,
+    omega_6_g: 3,
+    fiber_g: 6,
+    soluble_fiber_g: 2,
+    insoluble_fiber_g: 4,
+    sugar_g: 11,
+    cholesterol_mg: 370,
+    sodium_mg: 920,
+    alcohol_g: 0,
+    caffeine_mg: 0,
+    liquids_ml: 0,
+    serving_size_g: 380,
+    allergens_json: { possible_allergens: ["eggs", "gluten"] },
+    vitamins_json: {
+      vitamin_a_mcg: 410,
+      vitamin_c_mg: 65,
+      vitamin_d_mcg: 2,
+      vitamin_e_mg: 3.8,
+      vitamin_k_mcg: 18,
+      vitamin_b12_mcg: 1.1,
+      folate_mcg: 110,
+      niacin_mg: 3.5,
+      thiamin_mg: 0.3,
+      riboflavin_mg: 0.6,
+      pantothenic_acid_mg: 1.9,
+      vitamin_b6_mg: 0.6,
+    },
+    micronutrients_json: {
+      iron_mg: 3.6,
+      magnesium_mg: 60,
+      zinc_mg: 1.9,
+      calcium_mg: 120,
+      potassium_mg: 780,
+      phosphorus_mg: 310,
+      selenium_mcg: 35,
+      copper_mg: 0.3,
+      manganese_mg: 0.5,
+    },
+    glycemic_index: 55,
+    insulin_index: 50,
+    food_category: "Homemade",
+    processing_level: "Minimally processed",
+    cooking_method: "Simmered",
+    additives_json: { observed_additives: [] },
+    health_risk_notes: "Good protein source, high in dietary cholesterol",
+    confidence: 0.82,
+    ingredients: [
+      {
+        name: "eggs",
+        calories: 210,
+        protein_g: 18,
+        carbs_g: 1,
+        fats_g: 15,
+        fiber_g: 0,
+        sugar_g: 1,
+        sodium_mg: 210,
+        estimated_portion_g: 150,
+      },
+      {
+        name: "tomato and red pepper sauce",
+        calories: 110,
+        protein_g: 3,
+        carbs_g: 14,
+        fats_g: 6,
+        fiber_g: 4,
+        sugar_g: 9,
+        sodium_mg: 520,
+        estimated_portion_g: 180,
+      },
+      {
+        name: "white bread slice",
+        calories: 160,
+        protein_g: 1,
+        carbs_g: 29,
+        fats_g: 3,
+        fiber_g: 2,
+        sugar_g: 1,
+        sodium_mg: 190,
+        estimated_portion_g: 50,
+      },
+    ],
+  },
+  {
+    meal_name: "Greek yogurt with granola and berries",
+    description:
+      "Plain Greek yogurt topped with granola, blueberries and honey",
+    calories: 390,
+    protein_g: 21,
+    carbs_g: 52,
+    fats_g: 11,
+    saturated_fats_g: 4.2,
+    polyunsaturated_fats_g: 2.1,
+    monounsaturated_fats_g: 3.9,
+    omega_3_g: 0.1,
+    omega_6_g: 1.9,
+    fiber_g: 5,
+    soluble_fiber_g: 1.8,
+    insoluble_fiber_g: 3.2,
+    sugar_g: 28,
+    cholesterol_mg: 15,
+    sodium_mg: 95,
+    alcohol_g: 0,
+    caffeine_mg: 0,
+    liquids_ml: 0,
+    serving_size_g: 300,
+    allergens_json: { possible_allergens: ["dairy", "gluten", "nuts"] },
+    vitamins_json: {
+      vitamin_a_mcg: 40,
+      vitamin_c_mg: 8,
+      vitamin_d_mcg: 0,
+      vitamin_e_mg: 1.5,
+      vitamin_k_mcg: 15,
+      vitamin_b12_mcg: 1.3,
+      folate_mcg: 30,
+      niacin_mg: 1.2,
+      thiamin_mg: 0.2,
+      riboflavin_mg: 0.4,
+      pantothenic_acid_mg: 0.7,
+      vitamin_b6_mg: 0.2,
+    },
+    micronutrients_json: {
+      iron_mg: 1.8,
+      magnesium_mg: 70,
+      zinc_mg: 1.6,
+      calcium_mg: 260,
+      potassium_mg: 430,
+      phosphorus_mg: 330,
+      selenium_mcg: 18,
+      copper_mg: 0.2,
+      manganese_mg: 1.4,
+    },
+    glycemic_index: 45,
+    insulin_index: 70,
+    food_category: "Breakfast",
+    processing_level: "Minimally processed",
+    cooking_method: "Raw",
+    additives_json: { observed_additives: [] },
+    health_risk_notes: "High in added sugar from honey and granola",
+    confidence: 0.9,
+    ingredients: [
+      {
+        name: "plain Greek yogurt 2%",
+        calories: 150,
+        protein_g: 17,
+        carbs_g: 7,
+        fats_g: 4,
+        fiber_g: 0,
+        sugar_g: 6,
+        sodium_mg: 60,
+        estimated_portion_g: 170,
+      },
+      {
+        name: "granola",
+        calories: 170,
+        protein_g: 4,
+        carbs_g: 26,
+        fats_g: 7,
+        fiber_g: 3,
+        sugar_g: 10,
+        sodium_mg: 35,
+        estimated_portion_g: 40,
+      },
+      {
+        name: "blueberries",
+        calories: 40,
+        protein_g: 0,
+        carbs_g: 10,
+        fats_g: 0,
+        fiber_g: 2,
+        sugar_g: 7,
+        sodium_mg: 0,
+        estimated_portion_g: 70,
+      },
+      {
+        name: "honey",
+        calories: 30,
+        protein_g: 0,
+        carbs_g: 9,
+        fats_g: 0,
+        fiber_g: 0,
+        sugar_g: 5,
+        sodium_mg: 0,
+        estimated_portion_g: 10,
+      },
+    ],
+  },
+];
+
+// Leftover fractions handed out per ingredient of an "after" photo
+export const PLATE_WASTE_LEFTOVER_FIXTURES = [0, 0, 0.25, 0.5];
+
+export const PRODUCT_SCAN_FIXTURES = [
+  {
+    name: "Hummus",
+    brand: "Sabra",
+    category: "spreads",
+    nutrition_per_100g: {
+      calories: 270,
+      protein: 7,
+      carbs: 12,
+      fat: 21,
+      fiber: 6,
+      sugar: 1,
+      sodium: 450,
+      saturated_fat: 3,
+      trans_fat: 0,
+      cholesterol: 0,
+      potassium: 230,
+      calcium: 40,
+      iron: 2.2,
+      vitamin_c: 0,
+      vitamin_d: 0,
+    },
+    ingredients: ["chickpeas", "tahini", "soybean oil", "lemon juice", "salt"],
+    allergens: ["sesame"],
+    labels: ["kosher", "vegan"],
+    health_score: 68,
+    serving_size: "30g",
+    servings_per_container: 13,
+  },
+  {
+    name: "Cottage cheese 5%",
+    brand: "Tnuva",
+    category: "dairy",
+    nutrition_per_100g: {
+      calories: 95,
+      protein: 10,
+      carbs: 1.5,
+      fat: 5,
+      fiber: 0,
+      sugar: 1.5,
+      sodium: 330,
+      saturated_fat: 3.2,
+      trans_fat: 0,
+      cholesterol: 17,
+      potassium: 100,
+      calcium: 90,
+      iron: 0,
+      vitamin_c: 0,
+      vitamin_d: 0.1,
+    },
+    ingredients: ["milk", "cream", "salt", "cultures"],
+    allergens: ["milk"],
+    labels: ["kosher"],
+    health_score: 74,
+    serving_size: "100g",
+    servings_per_container: 2.5,
+  },
+];
+
+// One day of meals; the provider repeats it for every requested day
+export const MENU_DAY_FIXTURE = [
+  {
+    name: "חביתת ירקות עם לחם מלא",
+    name_english: "Vegetable omelette with whole wheat bread",
+    meal_type: "BREAKFAST",
+    calories: 420,
+    protein: 24,
+    carbs: 38,
+    fat: 18,
+    fiber: 6,
+    prep_time_minutes: 15,
+    cooking_method: "טיגון קל",
+    instructions: ["להקציף ביצים", "להוסיף ירקות קצוצים", "לטגן ולהגיש עם לחם"],
+    instructions_english: [
+      "Beat the eggs",
+      "Add chopped vegetables",
+      "Cook and serve with bread",
+    ],
+    ingredients: [
+      {
+        name: "ביצים",
+        name_english: "Eggs",
+        quantity: 2,
+        unit: "יחידות",
+        category: "protein",
+        estimated_cost: 3,
+      },
+      {
+        name: "עגבנייה",
+        name_english: "Tomato",
+        quantity: 100,
+        unit: "גרם",
+        category: "vegetables",
+        estimated_cost: 2,
+      },
+      {
+        name: "לחם מלא",
+        name_english: "Whole wheat bread",
+        quantity: 60,
+        unit: "גרם",
+        category: "grains",
+        estimated_cost: 2,
+      },
+    ],
+  },
+  {
+    name: "חזה עוף עם אורז וסלט",
+    name_english: "Chicken breast with rice and salad",
+    meal_type: "LUNCH",
+    calories: 620,
+    protein: 45,
+    carbs: 65,
+    fat: 16,
+    fiber: 5,
+    prep_time_minutes: 30,
+    cooking_method: "צלייה",
+    instructions: ["לתבל ולצלות את העוף", "לבשל אורז", "לקצוץ סלט"],
+    instructions_english: [
+      "Season and grill the chicken",
+      "Cook the rice",
+      "Chop the salad",
+    ],
+    ingredients: [
+      {
+        name: "חזה עוף",
+        name_english: "Chicken breast",
+        quantity: 150,
+        unit: "גרם",
+        category: "protein",
+        estimated_cost: 12,
+      },
+      {
+        name: "אורז",
+        name_english: "Rice",
+        quantity: 80,
+        unit: "גרם",
+        category: "grains",
+        estimated_cost: 2,
+      },
+      {
+        name: "מלפפון",
+        name_english: "Cucumber",
+        quantity: 100,
+        unit: "גרם",
+        category: "vegetables",
+        estimated_cost: 2,
+      },
+    ],
+  },
+  {
+    name: "סלמון אפוי עם בטטה",
+    name_english: "Baked salmon with sweet potato",
+    meal_type: "DINNER",
+    calories: 540,
+    protein: 36,
+    carbs: 42,
+    fat: 24,
+    fiber: 6,
+    prep_time_minutes: 35,
+    cooking_method: "אפייה",
+    instructions: ["לחמם תנור ל-200 מעלות", "לאפות סלמון ובטטה 25 דקות"],
+    instructions_english: [
+      "Preheat oven to 200°C",
+      "Bake salmon and sweet potato for 25 minutes",
+    ],
+    ingredients: [
+      {
+        name: "פילה סלמון",
+        name_english: "Salmon fillet",
+        quantity: 150,
+        unit: "גרם",
+        category: "protein",
+        estimated_cost: 25,
+      },
+      {
+        name: "בטטה",
+        name_english: "Sweet potato",
+        quantity: 200,
+        unit: "גרם",
+        category: "vegetables",
+        estimated_cost: 4,
+      },
+      {
+        name: "שמן זית",
+        name_english: "Olive oil",
+        quantity: 10,
+        unit: 'מ"ל',
+        category: "fats",
+        estimated_cost: 1,
+      },
+    ],
+  },
+];
+
+export const REPLACEMENT_MEAL_FIXTURES = [
+  {
+    name: "Lentil and vegetable stew",
+    description: "Hearty red lentil stew with carrots and spinach",
+    dietary_category: "VEGETARIAN",
+    prep_time_minutes: 30,
+    difficulty_level: 2,
+    calories: 480,
+    protein_g: 26,
+    carbs_g: 68,
+    fats_g: 10,
+    fiber_g: 16,
+    sugar_g: 8,
+    sodium_mg: 540,
+    ingredients_json: [
+      "red lentils",
+      "carrot",
+      "onion",
+      "spinach",
+      "cumin",
+      "olive oil",
+    ],
+    instructions_json: [
+      "Sauté onion and carrot",
+      "Add lentils and water",
+      "Simmer 20 minutes",
+      "Stir in spinach",
+    ],
+    allergens_json: [],
+    replacement_reason: "Similar calories with more fiber and plant protein",
+  },
+  {
+    name: "Turkey wrap with hummus",
+    description:
+      "Whole wheat tortilla with turkey breast, hummus and vegetables",
+    dietary_category: "BALANCED",
+    prep_time_minutes: 10,
+    difficulty_level: 1,
+    calories: 450,
+    protein_g: 34,
+    carbs_g: 42,
+    fats_g: 15,
+    fiber_g: 7,
+    sugar_g: 4,
+    sodium_mg: 820,
+    ingredients_json: [
+      "whole wheat tortilla",
+      "turkey breast",
+      "hummus",
+      "lettuce",
+      "tomato",
+    ],
+    instructions_json: [
+      "Spread hummus on the tortilla",
+      "Add turkey and vegetables",
+      "Roll and cut in half",
+    ],
+    allergens_json: ["gluten", "sesame"],
+    replacement_reason: "Quick to prepare with a similar macro profile",
+  },
+];
+
+export const CHAT_REPLY_FIXTURES = {
+  english: [
+    "A balanced plate is about half vegetables, a quarter lean protein and a quarter whole grains. Try to include a protein source at every meal and drink water throughout the day.",
+    "For steady energy, pair carbohydrates with protein or healthy fats, for example an apple with a handful of almonds. Keep an eye on portion sizes rather than cutting whole food groups.",
+    "Aim for variety: different colored vegetables and fruits give you a wider range of vitamins and minerals. This is general advice and not a substitute for a professional consultation.",
+  ],
+  hebrew: [
+    "צלחת מאוזנת היא בערך חצי ירקות, רבע חלבון רזה ורבע דגנים מלאים. כדאי לשלב מקור חלבון בכל ארוחה ולשתות מים לאורך היום.",
+    "לאנרגיה יציבה, שלבו פחמימות עם חלבון או שומן בריא, למשל תפוח עם חופן שקדים. עדיף לשים לב לגודל המנות מאשר לוותר על קבוצות מזון שלמות.",
+    "נסו לגוון: ירקות ופירות בצבעים שונים מספקים מגוון רחב יותר של ויטמינים ומינרלים. זוהי המלצה כללית ואינה תחליף לייעוץ מקצועי.",
+  ],
+};
+
+export const DAILY_MENU_FIXTURE = `Breakfast: Vegetable omelette with whole wheat bread (420 kcal)
+Lunch: Grilled chicken breast with rice and cucumber salad (620 kcal)
+Dinner: Baked salmon with sweet potato (540 kcal)`;
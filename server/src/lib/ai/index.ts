@@ -0,0 +1,41 @@
+import { AIProvider } from "../../types/ai";
+import { FixtureProvider } from "./fixtureProvider";
+import { OpenAIProvider } from "./openaiProvider";
+
+// New vendors register a factory here and become selectable via AI_PROVIDER
+const providerFactories: Record<string, () => AIProvider | null> = {
+  openai: () =>
+    process.env.OPENAI_API_KEY
+      ? new OpenAIProvider(process.env.OPENAI_API_KEY)
+      : null,
+  fixture: () => new FixtureProvider(),
+  none: () => null,
+};
+
+let cachedProvider: AIProvider | null | undefined;
+
+/**
+ * Returns the configured AI provider, or null when AI is disabled. Defaults to
+ * OpenAI when AI_PROVIDER is unset, so existing deployments keep working.
+ */
+export function getAIProvider(): AIProvider | null {
+  if (cachedProvider !== undefined) return cachedProvider;
+
+  const providerName = (process.env.AI_PROVIDER || "openai").toLowerCase();
+  const factory = providerFactories[providerName];
+
+  if (!factory) {
+    throw new Error(
+      `Unknown AI_PROVIDER "${providerName}". Expected one of: ${Object.keys(
+        providerFactories
+      ).join(", ")}`
+    );
+  }
+
+  cachedProvider = factory();
+  return cachedProvider;
+}
+
+export function getAIProviderName(): string | null {
+  return getAIProvider()?.name || null;
+}
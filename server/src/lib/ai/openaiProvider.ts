@@ -0,0 +1,99 @@
+import OpenAI from "openai";
+import {
+  AIImageInput,
+  AIJSONRequest,
+  AIMessage,
+  AIModelTier,
+  AIProvider,
+  AITextRequest,
+  AIVisionRequest,
+} from "../../types/ai";
+import { extractCleanJSON } from "../../utils/openai";
+
+const MODELS: Record<AIModelTier, string> = {
+  default: process.env.AI_MODEL_DEFAULT || "gpt-4o",
+  vision: process.env.AI_MODEL_VISION || "gpt-4o",
+  reasoning: process.env.AI_MODEL_REASONING || "gpt-5",
+  fast: process.env.AI_MODEL_FAST || "gpt-3.5-turbo",
+};
+
+export class OpenAIProvider implements AIProvider {
+  readonly name = "openai";
+  private client: OpenAI;
+
+  constructor(apiKey: string) {
+    this.client = new OpenAI({ apiKey });
+  }
+
+  async generateText(request: AITextRequest): Promise<string> {
+    return this.complete(request);
+  }
+
+  async analyzeImage(request: AIVisionRequest): Promise<string> {
+    return this.complete({ model: "vision", ...request }, request.images);
+  }
+
+  async generateJSON<T = any>(request: AIJSONRequest): Promise<T> {
+    const content = await this.complete(request, request.images, {
+      type: "json_schema",
+      json_schema: {
+        name: request.schemaName,
+        schema: request.schema,
+        strict: false,
+      },
+    });
+
+    return JSON.parse(extractCleanJSON(content)) as T;
+  }
+
+  private async complete(
+    request: AITextRequest,
+    images: AIImageInput[] = [],
+    responseFormat?: OpenAI.Chat.Completions.ChatCompletionCreateParams["response_format"]
+  ): Promise<string> {
+    const model =
+      MODELS[request.model || (images.length ? "vision" : "default")];
+
+    const response = await this.client.chat.completions.create({
+      model,
+      messages: this.toOpenAIMessages(request.messages, images),
+      ...(request.maxTokens && { max_completion_tokens: request.maxTokens }),
+      ...(request.temperature !== undefined && {
+        temperature: request.temperature,
+      }),
+      ...(responseFormat && { response_format: responseFormat }),
+    });
+
+    return response.choices[0]?.message?.content || "";
+  }
+
+  // Images are attached to the last user message, as every caller expects
+  private toOpenAIMessages(
+    messages: AIMessage[],
+    images: AIImageInput[]
+  ): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+    const lastUserIndex = messages.map((m) => m.role).lastIndexOf("user");
+
+    return messages.map((message, index) => {
+      if (index !== lastUserIndex || images.length === 0) {
+        return { role: message.role, content: message.content };
+      }
+
+      return {
+        role: "user",
+        content: [
+          { type: "text", text: message.content },
+          ...images.map((image) => ({
+            type: "image_url" as const,
+            image_url: {
+              url: `data:${image.mimeType || "image/jpeg"};base64,${
+                image.base64
+              }`,
+              detail: image.detail || "high",
+            },
+          })),
+        ],
+      };
+    });
+  }
+}
@@ -0,0 +1,470 @@
+import { AllergenDefinition } from "../types/allergens";
+
+/**
+ * Major food allergens with their English and Hebrew names, derivatives and
+ * common dishes. Terms are matched as whole words, so "nut" does not match
+ * "nutmeg"; Hebrew terms also match with prefixes such as ה, ו, ב or של.
+ */
+export const ALLERGENS: AllergenDefinition[] = [
+  {
+    id: "milk",
+    label: { en: "Milk", he: "חלב" },
+    terms: [
+      "milk",
+      "dairy",
+      "whey",
+      "casein",
+      "caseinate",
+      "lactose",
+      "lactalbumin",
+      "lactoglobulin",
+      "butter",
+      "buttermilk",
+      "cream",
+      "cheese",
+      "yogurt",
+      "yoghurt",
+      "ghee",
+      "kefir",
+      "curd",
+      "ricotta",
+      "mozzarella",
+      "parmesan",
+      "feta",
+      "labneh",
+      "ice cream",
+      "custard",
+      "cheeseburger",
+      "חלב",
+      "חלבי",
+      "מוצרי חלב",
+      "חמאה",
+      "גבינה",
+      "גבינת",
+      "גבינות",
+      "יוגורט",
+      "שמנת",
+      "מי גבינה",
+      "קזאין",
+      "לקטוז",
+      "לבנה",
+      "קוטג",
+      "ריקוטה",
+      "מוצרלה",
+      "פרמזן",
+      "פטה",
+      "קפיר",
+      "גלידה",
+      "ציזבורגר",
+    ],
+    exclusions: [
+      "coconut milk",
+      "almond milk",
+      "oat milk",
+      "soy milk",
+      "rice milk",
+      "coconut cream",
+      "cocoa butter",
+      "peanut butter",
+      "almond butter",
+      "חלב קוקוס",
+      "חלב שקדים",
+      "חלב סויה",
+      "חלב שיבולת שועל",
+      "חלב אורז",
+      "קרם קוקוס",
+      "חמאת קקאו",
+      "חמאת בוטנים",
+      "חמאת שקדים",
+    ],
+    // Lactose free products still contain milk protein
+    free_from: [
+      "dairy free",
+      "milk free",
+      "ללא חלב",
+      "parve",
+      "pareve",
+      "פרווה",
+    ],
+  },
+  {
+    id: "eggs",
+    label: { en: "Eggs", he: "ביצים" },
+    terms: [
+      "egg",
+      "albumin",
+      "albumen",
+      "ovalbumin",
+      "lysozyme",
+      "mayonnaise",
+      "mayo",
+      "meringue",
+      "omelet",
+      "omelette",
+      "frittata",
+      "shakshuka",
+      "ביצה",
+      "ביצים",
+      "חביתה",
+      "חלמון",
+      "חלבון ביצה",
+      "מיונז",
+      "מרנג",
+      "שקשוקה",
+    ],
+  },
+  {
+    id: "peanuts",
+    label: { en: "Peanuts", he: "בוטנים" },
+    terms: [
+      "peanut",
+      "groundnut",
+      "arachis",
+      "בוטן",
+      "בוטנים",
+      "חמאת בוטנים",
+      "במבה",
+    ],
+  },
+  {
+    id: "tree_nuts",
+    label: { en: "Tree nuts", he: "אגוזים" },
+    terms: [
+      "nut",
+      "tree nut",
+      "almond",
+      "walnut",
+      "cashew",
+      "pecan",
+      "pistachio",
+      "hazelnut",
+      "macadamia",
+      "brazil nut",
+      "pine nut",
+      "praline",
+      "marzipan",
+      "nutella",
+      "אגוז",
+      "אגוזים",
+      "אגוזי",
+      "שקד",
+      "שקדים",
+      "קשיו",
+      "פקאן",
+      "פיסטוק",
+      "לוז",
+      "מקדמיה",
+      "צנובר",
+      "צנוברים",
+      "מרציפן",
+      "נוטלה",
+    ],
+    exclusions: ["אגוז מוסקט", "אגוז קוקוס"],
+    free_from: ["nut free", "ללא אגוזים"],
+  },
+  {
+    id: "sesame",
+    label: { en: "Sesame", he: "שומשום" },
+    terms: [
+      "sesame",
+      "tahini",
+      "tahina",
+      "halva",
+      "halvah",
+      "gomasio",
+      "zaatar",
+      "שומשום",
+      "טחינה",
+      "חלבה",
+      "זעתר",
+    ],
+  },
+  {
+    id: "soy",
+    label: { en: "Soy", he: "סויה" },
+    terms: [
+      "soy",
+      "soya",
+      "soybean",
+      "tofu",
+      "tempeh",
+      "edamame",
+      "miso",
+      "shoyu",
+      "tamari",
+      "סויה",
+      "טופו",
+      "טמפה",
+      "אדממה",
+      "מיסו",
+    ],
+  },
+  {
+    id: "gluten",
+    label: { en: "Gluten", he: "גלוטן" },
+    terms: [
+      "gluten",
+      "wheat",
+      "flour",
+      "bread",
+      "breadcrumb",
+      "pasta",
+      "spaghetti",
+      "noodle",
+      "barley",
+      "rye",
+      "spelt",
+      "semolina",
+      "couscous",
+      "bulgur",
+      "seitan",
+      "malt",
+      "pita",
+      "farro",
+      "durum",
+      "kamut",
+      "גלוטן",
+      "חיטה",
+      "קמח",
+      "לחם",
+      "לחמניה",
+      "פסטה",
+      "ספגטי",
+      "אטריות",
+      "שעורה",
+      "שיפון",
+      "כוסמין",
+      "סולת",
+      "קוסקוס",
+      "בורגול",
+      "פיתה",
+      "פתיתים",
+      "חלה",
+      "מצה",
+      "פירורי לחם",
+      "בצק",
+    ],
+    exclusions: [
+      "rice flour",
+      "almond flour",
+      "corn flour",
+      "coconut flour",
+      "chickpea flour",
+      "rice noodle",
+      "rice noodles",
+      "rice pasta",
+      "קמח אורז",
+      "קמח שקדים",
+      "קמח תירס",
+      "קמח קוקוס",
+      "קמח חומוס",
+      "אטריות אורז",
+    ],
+    free_from: ["gluten free", "ללא גלוטן", "נטול גלוטן"],
+  },
+  {
+    id: "fish",
+    label: { en: "Fish", he: "דגים" },
+    terms: [
+      "fish",
+      "salmon",
+      "tuna",
+      "cod",
+      "tilapia",
+      "sardine",
+      "anchovy",
+      "anchovies",
+      "trout",
+      "mackerel",
+      "herring",
+      "halibut",
+      "sea bass",
+      "sea bream",
+      "carp",
+      "hake",
+      "fish sauce",
+      "דג",
+      "דגים",
+      "סלמון",
+      "טונה",
+      "אמנון",
+      "סרדין",
+      "סרדינים",
+      "אנשובי",
+      "פורל",
+      "מקרל",
+      "הרינג",
+      "דניס",
+      "לברק",
+      "בקלה",
+      "מושט",
+      "קרפיון",
+    ],
+  },
+  {
+    id: "shellfish",
+    label: { en: "Shellfish", he: "פירות ים" },
+    terms: [
+      "shellfish",
+      "seafood",
+      "crustacean",
+      "mollusc",
+      "mollusk",
+      "shrimp",
+      "prawn",
+      "crab",
+      "lobster",
+      "crayfish",
+      "langoustine",
+      "scallop",
+      "mussel",
+      "clam",
+      "oyster",
+      "squid",
+      "calamari",
+      "octopus",
+      "פירות ים",
+      "שרימפס",
+      "חסילונים",
+      "סרטן",
+      "סרטנים",
+      "לובסטר",
+      "קלמרי",
+      "דיונון",
+      "תמנון",
+      "צדפה",
+      "צדפות",
+      "מולים",
+    ],
+  },
+  {
+    id: "mustard",
+    label: { en: "Mustard", he: "חרדל" },
+    terms: ["mustard", "dijon", "חרדל"],
+  },
+  {
+    id: "celery",
+    label: { en: "Celery", he: "סלרי" },
+    terms: ["celery", "celeriac", "סלרי"],
+  },
+  {
+    id: "lupin",
+    label: { en: "Lupin", he: "תורמוס" },
+    terms: ["lupin", "lupine", "תורמוס"],
+  },
+  {
+    id: "sulfites",
+    label: { en: "Sulfites", he: "סולפיטים" },
+    terms: [
+      "sulfite",
+      "sulphite",
+      "sulfur dioxide",
+      "sulphur dioxide",
+      "e220",
+      "סולפיט",
+      "סולפיטים",
+    ],
+  },
+];
+
+// Conditions named in the questionnaire that imply an allergen
+export const CONDITION_ALLERGENS: Array<{ terms: string[]; allergen: string }> =
+  [
+    {
+      terms: ["celiac", "coeliac", "צליאק", "צליאקיה", "צליאקי"],
+      allergen: "gluten",
+    },
+  ];
+
+// Words that mark a declared item as an intolerance rather than an allergy
+export const INTOLERANCE_MARKERS = [
+  "intolerance",
+  "intolerant",
+  "sensitivity",
+  "sensitive",
+  "אי סבילות",
+  "רגישות",
+  "רגיש",
+];
+
+const HEBREW_PREFIXES = "(?:[והבלמשכ]{1,2})?";
+const termPatterns = new Map<string, RegExp>();
+
+/**
+ * Lowercases, drops Hebrew vowel marks and punctuation, and turns
+ * OpenFoodFacts tags like "en:sesame-seeds" into plain words.
+ */
+export function normalizeAllergenText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f\u0591-\u05c7]/g, "")
+    .replace(/\b[a-z]{2}:/g, "")
+    .replace(/['’`׳״"]/g, "")
+    .replace(/[^a-z0-9א-ת]+/g, " ")
+    .trim();
+}
+
+function termPattern(term: string): RegExp {
+  let pattern = termPatterns.get(term);
+  if (!pattern) {
+    const escaped = normalizeAllergenText(term).replace(
+      /[.*+?^${}()|[\]\\]/g,
+      "\\$&"
+    );
+    pattern = /[א-ת]/.test(escaped)
+      ? new RegExp(`(?:^| )${HEBREW_PREFIXES}${escaped}(?= |$)`, "g")
+      : new RegExp(`(?:^| )${escaped}(?:s|es)?(?= |$)`, "g");
+    termPatterns.set(term, pattern);
+  }
+  pattern.lastIndex = 0;
+  return pattern;
+}
+
+export function containsTerm(normalizedText: string, term: string): boolean {
+  return termPattern(term).test(normalizedText);
+}
+
+export function removeTerms(normalizedText: string, terms: string[]): string {
+  return terms.reduce(
+    (text, term) => text.replace(termPattern(term), " "),
+    normalizedText
+  );
+}
+
+/**
+ * The terms of the list found in the text, after cutting out exclusions.
+ * Text labelled free of the allergen, like "gluten free bread", has none.
+ */
+export function findTerms(
+  text: string,
+  terms: string[],
+  exclusions: string[] = [],
+  freeFrom: string[] = []
+): string[] {
+  const normalized = normalizeAllergenText(text);
+  if (freeFrom.some((term) => containsTerm(normalized, term))) return [];
+
+  const remaining = removeTerms(normalized, exclusions);
+  return terms.filter((term) => containsTerm(remaining, term));
+}
+
+/**
+ * Collects every string in nested ingredient lists and allergen objects.
+ * A named item's other fields are read too, its ingredients or allergens
+ * can hold what the name doesn't say.
+ */
+export function collectFoodText(value: unknown, into: string[] = []): string[] {
+  if (typeof value === "string") {
+    into.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectFoodText(item, into));
+  } else if (value && typeof value === "object") {
+    Object.values(value).forEach((item) => collectFoodText(item, into));
+  }
+  return into;
+}
+
+export function getAllergen(id: string): AllergenDefinition | undefined {
+  return ALLERGENS.find((allergen) => allergen.id === id);
+}
@@ -0,0 +1,233 @@
+import { MealAnalysisResult } from "../types/openai";
+import {
+  CLARIFYING_AMOUNT_UNITS,
+  CLARIFYING_QUESTION_KINDS,
+  ClarificationAnswer,
+  ClarifyingQuestion,
+  MAX_CLARIFYING_QUESTIONS,
+} from "../types/nutrition";
+import { collectFoodText, findTerms, normalizeAllergenText } from "./allergens";
+import { scaleIngredient } from "./dishes";
+
+// Below this confidence (0-100) an analysis asks before it is trusted
+export const LOW_CONFIDENCE = 70;
+
+const MAX_OPTIONS = 6;
+const UNKNOWN_COOKING_METHODS = ["", "unknown", "custom preparation", "mixed"];
+const SALAD_TERMS = ["salad", "סלט"];
+const DRESSING_TERMS = [
+  "dressing",
+  "vinaigrette",
+  "oil",
+  "mayonnaise",
+  "tahini",
+  "רוטב",
+  "ויניגרט",
+  "שמן",
+  "מיונז",
+  "טחינה",
+];
+
+const isKind = (value: unknown): value is ClarifyingQuestion["kind"] =>
+  CLARIFYING_QUESTION_KINDS.includes(value as ClarifyingQuestion["kind"]);
+const isUnit = (value: unknown): value is ClarifyingQuestion["unit"] =>
+  CLARIFYING_AMOUNT_UNITS.includes(
+    value as NonNullable<ClarifyingQuestion["unit"]>
+  );
+
+/**
+ * Keeps the well-formed questions from an AI response. Questions without
+ * a kind are read as multiple choice when they come with options.
+ */
+export function normalizeClarifyingQuestions(
+  raw: unknown
+): ClarifyingQuestion[] {
+  if (!Array.isArray(raw)) return [];
+
+  const questions: ClarifyingQuestion[] = [];
+  raw.forEach((item, index) => {
+    if (!item || typeof item !== "object") return;
+    const entry = item as Record<string, unknown>;
+    const question =
+      typeof entry.question === "string" ? entry.question.trim() : "";
+    if (!question) return;
+
+    const options = Array.isArray(entry.options)
+      ? entry.options
+          .filter((option): option is string => typeof option === "string")
+          .map((option) => option.trim())
+          .filter(Boolean)
+          .slice(0, MAX_OPTIONS)
+      : [];
+    const kind = isKind(entry.kind)
+      ? entry.kind
+      : options.length > 1
+      ? "CHOICE"
+      : "YES_NO";
+    if (kind === "CHOICE" && options.length < 2) return;
+
+    const defaultValue = Number(entry.default_value);
+    questions.push({
+      id:
+        typeof entry.id === "string" && entry.id.trim()
+          ? entry.id.trim().slice(0, 50)
+          : `q${index + 1}`,
+      kind,
+      question: question.slice(0, 300),
+      ...(kind === "CHOICE" && { options }),
+      ...(typeof entry.ingredient === "string" &&
+        entry.ingredient.trim() && {
+          ingredient: entry.ingredient.trim().slice(0, 100),
+        }),
+      ...(kind === "AMOUNT" && {
+        unit: isUnit(entry.unit) ? entry.unit : "g",
+        ...(defaultValue > 0 && { default_value: Math.round(defaultValue) }),
+      }),
+    });
+  });
+
+  return questions.slice(0, MAX_CLARIFYING_QUESTIONS);
+}
+
+// Questions we can ask ourselves when the AI gave a low confidence without any
+function buildFallbackQuestions(
+  analysis: MealAnalysisResult,
+  language: string
+): ClarifyingQuestion[] {
+  const isHebrew = language === "hebrew";
+  const questions: ClarifyingQuestion[] = [];
+
+  const cookingMethod = (
+    analysis.cooking_method ||
+    analysis.cookingMethod ||
+    ""
+  ).toLowerCase();
+  if (UNKNOWN_COOKING_METHODS.includes(cookingMethod.trim())) {
+    questions.push({
+      id: "cooking_method",
+      kind: "CHOICE",
+      question: isHebrew ? "איך זה הוכן?" : "How was this cooked?",
+      options: isHebrew
+        ? ["מטוגן", "אפוי", "צלוי", "מבושל", "טרי"]
+        : ["Fried", "Baked", "Grilled", "Boiled", "Raw"],
+    });
+  }
+
+  // The biggest item moves the total the most
+  const largest = [...(analysis.ingredients || [])]
+    .filter((ingredient) => ingredient.name)
+    .sort((a, b) => (b.calories || 0) - (a.calories || 0))[0];
+  if (largest) {
+    questions.push({
+      id: "portion",
+      kind: "AMOUNT",
+      question: isHebrew
+        ? `כמה גרם ${largest.name} בערך?`
+        : `About how many grams of ${largest.name}?`,
+      ingredient: largest.name,
+      unit: "g",
+      ...(largest.estimated_portion_g && {
+        default_value: Math.round(largest.estimated_portion_g),
+      }),
+    });
+  }
+
+  const text = collectFoodText([analysis.name, analysis.ingredients]).join(" ");
+  if (
+    findTerms(text, SALAD_TERMS).length > 0 &&
+    findTerms(text, DRESSING_TERMS).length === 0
+  ) {
+    questions.push({
+      id: "dressing",
+      kind: "YES_NO",
+      question: isHebrew ? "הוסף רוטב או שמן?" : "Was dressing or oil added?",
+    });
+  }
+
+  return questions;
+}
+
+/**
+ * The questions to ask before the analysis is trusted: the AI's own when
+ * it had some, otherwise ours when its confidence is low.
+ */
+export function getClarifyingQuestions(
+  analysis: MealAnalysisResult,
+  language: string
+): ClarifyingQuestion[] {
+  const questions =
+    analysis.clarifying_questions && analysis.clarifying_questions.length > 0
+      ? analysis.clarifying_questions
+      : analysis.confidence < LOW_CONFIDENCE
+      ? buildFallbackQuestions(analysis, language)
+      : [];
+  return questions.slice(0, MAX_CLARIFYING_QUESTIONS);
+}
+
+function formatAnswer(answer: ClarificationAnswer): string {
+  if (typeof answer.answer === "boolean") return answer.answer ? "Yes" : "No";
+  if (typeof answer.answer === "number") {
+    return `${answer.answer}${answer.unit ? ` ${answer.unit}` : ""}`;
+  }
+  return answer.answer;
+}
+
+// Scales an edited ingredient to a portion the user gave in grams
+function scaleToPortion(ingredient: any, grams: number) {
+  const portion = Number(ingredient.estimated_portion_g);
+  if (!(portion > 0)) return ingredient;
+
+  return {
+    ...scaleIngredient(ingredient, grams / portion),
+    estimated_portion_g: grams,
+  };
+}
+
+/**
+ * Folds the user's answers into the existing refinement inputs: every
+ * answer becomes context for the AI, and portions given in grams also
+ * rescale the matching edited ingredient.
+ */
+export function applyClarifications(input: {
+  updateText?: string;
+  editedIngredients: any[];
+  clarifications: ClarificationAnswer[];
+}): { updateText?: string; editedIngredients: any[] } {
+  if (input.clarifications.length === 0) {
+    return {
+      updateText: input.updateText,
+      editedIngredients: input.editedIngredients,
+    };
+  }
+
+  const answers = input.clarifications
+    .map((answer) => `- ${answer.question} ${formatAnswer(answer)}`)
+    .join("\n");
+  const context = `The user answered these questions about the meal, treat the answers as facts:\n${answers}`;
+
+  const editedIngredients = input.clarifications.reduce(
+    (ingredients, answer) => {
+      if (
+        answer.kind !== "AMOUNT" ||
+        answer.unit !== "g" ||
+        typeof answer.answer !== "number" ||
+        !answer.ingredient
+      ) {
+        return ingredients;
+      }
+      const name = normalizeAllergenText(answer.ingredient);
+      const grams = answer.answer;
+      return ingredients.map((ingredient) =>
+        normalizeAllergenText(String(ingredient?.name || "")) === name
+          ? scaleToPortion(ingredient, grams)
+          : ingredient
+      );
+    },
+    input.editedIngredients
+  );
+
+  return {
+    updateText: input.updateText ? `${input.updateText}\n${context}` : context,
+    editedIngredients,
+  };
+}
@@ -0,0 +1,112 @@
+import {
+  ActivityMetric,
+  ConnectedDevice,
+  DailyActivitySummary,
+  DeviceType,
+} from "@prisma/client";
+import { MergedActivityDay } from "../../types/devices";
+
+export type ActivitySummaryWithDevice = DailyActivitySummary & {
+  device: Pick<
+    ConnectedDevice,
+    "device_type" | "device_name" | "is_primary_device"
+  >;
+};
+
+export type SourcePriorities = Partial<Record<ActivityMetric, DeviceType[]>>;
+
+type MetricField = keyof Omit<MergedActivityDay, "date" | "sources">;
+
+/**
+ * The fields each metric is made of, always taken together from one device.
+ * Active and resting calories stay together so one device's resting burn is
+ * never added to another's total. The first field tells if a device has the
+ * metric for the day.
+ */
+export const METRIC_FIELDS: Record<ActivityMetric, MetricField[]> = {
+  STEPS: ["steps", "distance_km", "active_minutes"],
+  CALORIES: ["calories_burned", "bmr_estimate"],
+  SLEEP: ["sleep_hours"],
+  HEART_RATE: ["heart_rate_avg", "heart_rate_max"],
+  WEIGHT: ["weight_kg", "body_fat_percentage"],
+  WATER: ["water_intake_ml"],
+};
+
+const emptyDay = (date: string): MergedActivityDay => ({
+  date,
+  steps: 0,
+  distance_km: 0,
+  active_minutes: 0,
+  calories_burned: 0,
+  bmr_estimate: 0,
+  sleep_hours: null,
+  heart_rate_avg: null,
+  heart_rate_max: null,
+  weight_kg: null,
+  body_fat_percentage: null,
+  water_intake_ml: null,
+  sources: {},
+});
+
+const toDateString = (date: Date) => date.toISOString().split("T")[0];
+
+// Listed devices first in the user's order, then the primary, then the freshest
+function rankSources(
+  rows: ActivitySummaryWithDevice[],
+  order: DeviceType[] = []
+) {
+  const rank = (row: ActivitySummaryWithDevice) => {
+    const index = order.indexOf(row.device.device_type);
+    return index === -1 ? order.length : index;
+  };
+  return [...rows].sort(
+    (a, b) =>
+      rank(a) - rank(b) ||
+      Number(b.device.is_primary_device) - Number(a.device.is_primary_device) ||
+      b.sync_timestamp.getTime() - a.sync_timestamp.getTime()
+  );
+}
+
+/**
+ * Builds one day per date from every device's summaries. Each metric is
+ * taken from the highest ranked device that recorded it, never summed
+ * across devices, so a workout tracked by two of them counts once.
+ */
+export function mergeActivityDays(
+  rows: ActivitySummaryWithDevice[],
+  priorities: SourcePriorities = {}
+): MergedActivityDay[] {
+  const byDate = new Map<string, ActivitySummaryWithDevice[]>();
+  for (const row of rows) {
+    const date = toDateString(row.date);
+    byDate.set(date, [...(byDate.get(date) || []), row]);
+  }
+
+  const days: MergedActivityDay[] = [];
+  for (const [date, dayRows] of byDate) {
+    const day = emptyDay(date);
+
+    for (const metric of Object.keys(METRIC_FIELDS) as ActivityMetric[]) {
+      const fields = METRIC_FIELDS[metric];
+      const source = rankSources(dayRows, priorities[metric]).find(
+        (row) => (row[fields[0]] || 0) > 0
+      );
+      if (!source) continue;
+
+      Object.assign(
+        day,
+        Object.fromEntries(
+          fields.map((field) => [field, source[field] ?? day[field]])
+        )
+      );
+      day.sources[metric] = {
+        device_id: source.device_id,
+        device_type: source.device.device_type,
+        device_name: source.device.device_name,
+      };
+    }
+    days.push(day);
+  }
+
+  return days.sort((a, b) => b.date.localeCompare(a.date));
+}
@@ -0,0 +1,99 @@
+import { ActivityDay, DeviceSyncInput } from "../../types/devices";
+import { getLocalDateString } from "../../utils/timezone";
+
+// Sample fields summed into the day, heart rate is averaged instead
+const SUMMED_FIELDS = [
+  "steps",
+  "caloriesBurned",
+  "activeMinutes",
+  "distance",
+] as const;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Drops the fields a payload left empty, so they don't hide other sources
+function presentFields(fields: Record<string, unknown>) {
+  return Object.fromEntries(
+    Object.entries(fields).filter(
+      ([, value]) => value !== null && value !== undefined
+    )
+  ) as Partial<ActivityDay>;
+}
+
+// Totals of intraday samples per local day
+function bucketSamples(
+  samples: NonNullable<DeviceSyncInput["samples"]>,
+  timezone: string
+) {
+  const buckets = new Map<
+    string,
+    { totals: Partial<Record<string, number>>; heartRates: number[] }
+  >();
+
+  for (const sample of samples) {
+    const date = getLocalDateString(new Date(sample.timestamp), timezone);
+    const bucket = buckets.get(date) || { totals: {}, heartRates: [] };
+    buckets.set(date, bucket);
+
+    for (const field of SUMMED_FIELDS) {
+      const value = sample[field];
+      if (typeof value === "number") {
+        bucket.totals[field] = (bucket.totals[field] || 0) + value;
+      }
+    }
+    if (typeof sample.heartRate === "number" && sample.heartRate > 0) {
+      bucket.heartRates.push(sample.heartRate);
+    }
+  }
+
+  const days = new Map<string, Partial<ActivityDay>>();
+  for (const [date, { totals, heartRates }] of buckets) {
+    days.set(date, {
+      ...Object.fromEntries(
+        Object.entries(totals).map(([field, total]) => [field, round(total!)])
+      ),
+      ...(heartRates.length > 0 && {
+        heartRate: Math.round(
+          heartRates.reduce((sum, rate) => sum + rate, 0) / heartRates.length
+        ),
+        heartRateMax: Math.max(...heartRates),
+      }),
+    });
+  }
+  return days;
+}
+
+/**
+ * The days a sync covers, each keyed by its calendar date in the timezone.
+ * A day's own summary wins over totals of its samples, which fill in what
+ * the summary left out. Days after today are dropped.
+ */
+export function buildActivityDays(
+  input: DeviceSyncInput,
+  timezone: string,
+  now = new Date()
+): ActivityDay[] {
+  const today = getLocalDateString(now, timezone);
+  const days = bucketSamples(input.samples || [], timezone);
+
+  const summaries = [...(input.days || [])];
+  if (input.activityData) {
+    summaries.push({ ...input.activityData, date: today });
+  }
+
+  for (const { date, ...fields } of summaries) {
+    days.set(date, { ...days.get(date), ...presentFields(fields) });
+  }
+
+  return [...days.entries()]
+    .filter(([date]) => date <= today)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, fields]) => ({
+      steps: 0,
+      caloriesBurned: 0,
+      activeMinutes: 0,
+      bmr: 0,
+      ...fields,
+      date,
+    }));
+}
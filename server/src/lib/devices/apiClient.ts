@@ -0,0 +1,43 @@
+import axios from "axios";
+import { DeviceApiClient } from "../../types/devices";
+import { DEVICE_API_FIXTURES, DeviceApiFixture } from "./fixtures";
+
+const API_TIMEOUT_MS = 15000;
+
+export function createHttpClient(access_token: string): DeviceApiClient {
+  return {
+    get: async (url) =>
+      (
+        await axios.get(url, {
+          headers: {
+            Authorization: `Bearer ${access_token}`,
+            Accept: "application/json",
+          },
+          timeout: API_TIMEOUT_MS,
+        })
+      ).data,
+  };
+}
+
+// Serves recorded responses, unknown URLs fail like a provider 404 would
+export function createFixtureClient(
+  fixtures: DeviceApiFixture[] = DEVICE_API_FIXTURES
+): DeviceApiClient {
+  return {
+    get: async (url) => {
+      const fixture = fixtures.find((candidate) => candidate.url.test(url));
+      if (!fixture) throw new Error(`No recorded response for ${url}`);
+      return JSON.parse(JSON.stringify(fixture.response));
+    },
+  };
+}
+
+/**
+ * The client adapters read provider APIs with. DEVICE_API=fixture serves
+ * recorded responses instead, so syncs run offline in development and CI.
+ */
+export function getDeviceApiClient(access_token: string): DeviceApiClient {
+  return (process.env.DEVICE_API || "").toLowerCase() === "fixture"
+    ? createFixtureClient()
+    : createHttpClient(access_token);
+}
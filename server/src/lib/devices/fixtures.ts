@@ -0,0 +1,148 @@
+// Responses recorded from the providers' APIs, trimmed to the fields the
+// adapters read. The fixture client serves the first one whose pattern
+// matches the request URL, whatever day is asked for.
+
+export interface DeviceApiFixture {
+  url: RegExp;
+  response: unknown;
+}
+
+export const DEVICE_API_FIXTURES: DeviceApiFixture[] = [
+  {
+    url: /googleapis\.com\/fitness\/v1\/users\/me\/dataSources\/derived:com\.google\.step_count\.delta/,
+    response: {
+      minStartTimeNs: "1760832000000000000",
+      maxEndTimeNs: "1760918400000000000",
+      dataSourceId:
+        "derived:com.google.step_count.delta:com.google.android.gms:estimated_steps",
+      point: [
+        {
+          startTimeNanos: "1760857200000000000",
+          endTimeNanos: "1760860800000000000",
+          dataTypeName: "com.google.step_count.delta",
+          value: [{ intVal: 3412, mapVal: [] }],
+        },
+        {
+          startTimeNanos: "1760878800000000000",
+          endTimeNanos: "1760882400000000000",
+          dataTypeName: "com.google.step_count.delta",
+          value: [{ intVal: 4988, mapVal: [] }],
+        },
+      ],
+    },
+  },
+  {
+    url: /googleapis\.com\/fitness\/v1\/users\/me\/dataSources\/derived:com\.google\.calories\.expended/,
+    response: {
+      minStartTimeNs: "1760832000000000000",
+      maxEndTimeNs: "1760918400000000000",
+      dataSourceId:
+        "derived:com.google.calories.expended:com.google.android.gms:merge_calories_expended",
+      point: [
+        {
+          startTimeNanos: "1760832000000000000",
+          endTimeNanos: "1760875200000000000",
+          dataTypeName: "com.google.calories.expended",
+          value: [{ fpVal: 1184.6, mapVal: [] }],
+        },
+        {
+          startTimeNanos: "1760875200000000000",
+          endTimeNanos: "1760918400000000000",
+          dataTypeName: "com.google.calories.expended",
+          value: [{ fpVal: 1236.2, mapVal: [] }],
+        },
+      ],
+    },
+  },
+  {
+    url: /googleapis\.com\/fitness\/v1\/users\/me\/dataSources\/derived:com\.google\.active_minutes/,
+    response: {
+      minStartTimeNs: "1760832000000000000",
+      maxEndTimeNs: "1760918400000000000",
+      dataSourceId:
+        "derived:com.google.active_minutes:com.google.android.gms:merge_active_minutes",
+      point: [
+        {
+          startTimeNanos: "1760857200000000000",
+          endTimeNanos: "1760858520000000000",
+          dataTypeName: "com.google.active_minutes",
+          value: [{ intVal: 22, mapVal: [] }],
+        },
+        {
+          startTimeNanos: "1760879400000000000",
+          endTimeNanos: "1760880540000000000",
+          dataTypeName: "com.google.active_minutes",
+          value: [{ intVal: 19, mapVal: [] }],
+        },
+      ],
+    },
+  },
+  {
+    url: /api\.fitbit\.com\/1\/user\/-\/activities\/date\/\d{4}-\d{2}-\d{2}\.json/,
+    response: {
+      activities: [],
+      goals: {
+        activeMinutes: 30,
+        caloriesOut: 2600,
+        distance: 8.05,
+        steps: 10000,
+      },
+      summary: {
+        activeScore: -1,
+        activityCalories: 1032,
+        caloriesBMR: 1622,
+        caloriesOut: 2486,
+        distances: [
+          { activity: "total", distance: 6.92 },
+          { activity: "tracker", distance: 6.92 },
+          { activity: "loggedActivities", distance: 0 },
+        ],
+        fairlyActiveMinutes: 21,
+        lightlyActiveMinutes: 214,
+        restingHeartRate: 61,
+        sedentaryMinutes: 688,
+        steps: 9124,
+        veryActiveMinutes: 17,
+      },
+    },
+  },
+  {
+    url: /api\.prod\.whoop\.com\/developer\/v1\/cycle/,
+    response: {
+      records: [
+        {
+          id: 93845,
+          user_id: 10129,
+          created_at: "2025-10-19T11:25:44.774Z",
+          updated_at: "2025-10-19T14:25:44.774Z",
+          start: "2025-10-19T02:25:44.774Z",
+          end: null,
+          timezone_offset: "+03:00",
+          score_state: "SCORED",
+          score: {
+            strain: 11.6,
+            kilojoule: 9621.4,
+            average_heart_rate: 68,
+            max_heart_rate: 161,
+          },
+        },
+      ],
+      next_token: null,
+    },
+  },
+  {
+    url: /polaraccesslink\.com\/v3\/users\/daily-activity/,
+    response: {
+      data: [
+        {
+          date: "2025-10-19",
+          steps: 8731,
+          calories: 2312,
+          active_calories: 694,
+          active_time_seconds: 4980,
+          heart_rate_avg: 72,
+        },
+      ],
+    },
+  },
+];
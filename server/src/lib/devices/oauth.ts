@@ -0,0 +1,113 @@
+import crypto from "crypto";
+import axios from "axios";
+import { DeviceProvider, OAuthTokens } from "../../types/devices";
+
+const TOKEN_REQUEST_TIMEOUT_MS = 15000;
+
+const base64Url = (buffer: Buffer) =>
+  buffer
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+export function createOAuthState() {
+  return base64Url(crypto.randomBytes(24));
+}
+
+// RFC 7636 verifier and its S256 challenge
+export function createPkcePair() {
+  const code_verifier = base64Url(crypto.randomBytes(48));
+  const code_challenge = base64Url(
+    crypto.createHash("sha256").update(code_verifier).digest()
+  );
+  return { code_verifier, code_challenge };
+}
+
+export function buildAuthorizationUrl(
+  provider: DeviceProvider,
+  options: { redirect_uri: string; state: string; code_challenge: string }
+) {
+  const params = new URLSearchParams({
+    client_id: provider.client_id,
+    redirect_uri: options.redirect_uri,
+    response_type: "code",
+    scope: provider.scopes.join(" "),
+    state: options.state,
+    ...provider.auth_params,
+  });
+  if (provider.pkce) {
+    params.set("code_challenge", options.code_challenge);
+    params.set("code_challenge_method", "S256");
+  }
+  return `${provider.auth_url}?${params.toString()}`;
+}
+
+async function requestTokens(
+  provider: DeviceProvider,
+  grant: Record<string, string>
+): Promise<OAuthTokens> {
+  const body = new URLSearchParams(grant);
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+
+  if (provider.basic_auth) {
+    headers.Authorization = `Basic ${Buffer.from(
+      `${provider.client_id}:${provider.client_secret}`
+    ).toString("base64")}`;
+  } else {
+    body.set("client_id", provider.client_id);
+    body.set("client_secret", provider.client_secret);
+  }
+
+  try {
+    const response = await axios.post(provider.token_url, body.toString(), {
+      headers,
+      timeout: TOKEN_REQUEST_TIMEOUT_MS,
+    });
+    const data = response.data || {};
+    if (!data.access_token) {
+      throw new Error(`${provider.name} did not return an access token`);
+    }
+
+    return {
+      access_token: data.access_token,
+      refresh_token: data.refresh_token || undefined,
+      expires_in: Number(data.expires_in) || undefined,
+    };
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const data = error.response?.data;
+      throw new Error(
+        `${provider.name} token request failed: ${
+          data?.error_description || data?.error || error.message
+        }`
+      );
+    }
+    throw error;
+  }
+}
+
+export function exchangeAuthorizationCode(
+  provider: DeviceProvider,
+  options: { code: string; redirect_uri: string; code_verifier: string }
+) {
+  return requestTokens(provider, {
+    grant_type: "authorization_code",
+    code: options.code,
+    redirect_uri: options.redirect_uri,
+    ...(provider.pkce && { code_verifier: options.code_verifier }),
+  });
+}
+
+export function refreshAccessToken(
+  provider: DeviceProvider,
+  refresh_token: string
+) {
+  return requestTokens(provider, {
+    grant_type: "refresh_token",
+    refresh_token,
+  });
+}
@@ -0,0 +1,216 @@
+import {
+  ActivityData,
+  DeviceApiClient,
+  DeviceProvider,
+  OAUTH_DEVICE_TYPES,
+  OAuthDeviceType,
+} from "../../types/devices";
+import { getLocalDayStart, getNextLocalMidnight } from "../../utils/timezone";
+
+const KJ_PER_KCAL = 4.184;
+
+// The providers' totals already include the resting burn, so bmr stays 0
+const activity = (data: Partial<ActivityData>): ActivityData => ({
+  steps: 0,
+  caloriesBurned: 0,
+  activeMinutes: 0,
+  bmr: 0,
+  ...data,
+});
+
+// The instants a local day starts and ends, DST days aren't 24 hours
+function localDayBounds(date: string, timezone: string) {
+  const start = getLocalDayStart(date, timezone);
+  return { start, end: getNextLocalMidnight(start, timezone) };
+}
+
+async function fetchGoogleFitDay(
+  client: DeviceApiClient,
+  date: string,
+  timezone: string
+) {
+  const apiUrl = "https://www.googleapis.com/fitness/v1/users/me/dataSources";
+  const { start, end } = localDayBounds(date, timezone);
+  const range = `${start.getTime() * 1000000}-${end.getTime() * 1000000}`;
+
+  const steps = await client.get(
+    `${apiUrl}/derived:com.google.step_count.delta:com.google.android.gms:estimated_steps/datasets/${range}`
+  );
+  const calories = await client
+    .get(
+      `${apiUrl}/derived:com.google.calories.expended:com.google.android.gms:merge_calories_expended/datasets/${range}`
+    )
+    .catch(() => null);
+  const activeMinutes = await client
+    .get(
+      `${apiUrl}/derived:com.google.active_minutes:com.google.android.gms:merge_active_minutes/datasets/${range}`
+    )
+    .catch(() => null);
+
+  const stepCount = (steps.point || []).reduce(
+    (sum: number, point: any) => sum + (point.value?.[0]?.intVal || 0),
+    0
+  );
+  const kcal = (calories?.point || []).reduce(
+    (sum: number, point: any) => sum + (point.value?.[0]?.fpVal || 0),
+    0
+  );
+  const minutes = (activeMinutes?.point || []).reduce(
+    (sum: number, point: any) => sum + (point.value?.[0]?.intVal || 0),
+    0
+  );
+
+  return activity({
+    steps: stepCount,
+    caloriesBurned: Math.round(kcal),
+    activeMinutes: minutes,
+  });
+}
+
+// Fitbit and Polar index days by date in the timezone of the user's account.
+// Fitbit's summary only has the resting heart rate, not the day's average.
+async function fetchFitbitDay(client: DeviceApiClient, date: string) {
+  const data = await client.get(
+    `https://api.fitbit.com/1/user/-/activities/date/${date}.json`
+  );
+  const summary = data.summary || {};
+
+  return activity({
+    steps: summary.steps || 0,
+    caloriesBurned: summary.caloriesOut || 0,
+    activeMinutes:
+      (summary.veryActiveMinutes || 0) + (summary.fairlyActiveMinutes || 0),
+    distance: summary.distances?.find(
+      (distance: any) => distance.activity === "total"
+    )?.distance,
+  });
+}
+
+async function fetchWhoopDay(
+  client: DeviceApiClient,
+  date: string,
+  timezone: string
+) {
+  const { start, end } = localDayBounds(date, timezone);
+  const params = new URLSearchParams({
+    start: start.toISOString(),
+    end: end.toISOString(),
+  });
+  const data = await client.get(
+    `https://api.prod.whoop.com/developer/v1/cycle?${params.toString()}`
+  );
+  const score = data.records?.[0]?.score;
+  if (!score) return null;
+
+  // Whoop doesn't count steps
+  return activity({
+    caloriesBurned: Math.round((score.kilojoule || 0) / KJ_PER_KCAL),
+    heartRate: score.average_heart_rate,
+  });
+}
+
+async function fetchPolarDay(client: DeviceApiClient, date: string) {
+  const data = await client.get(
+    `https://www.polaraccesslink.com/v3/users/daily-activity?date=${date}`
+  );
+  const day = data.data?.[0];
+  if (!day) return null;
+
+  return activity({
+    steps: day.steps || 0,
+    caloriesBurned: day.calories || 0,
+    activeMinutes: day.active_time_seconds
+      ? Math.round(day.active_time_seconds / 60)
+      : 0,
+    heartRate: day.heart_rate_avg,
+  });
+}
+
+// Credentials are read when used, from <DEVICE_TYPE>_CLIENT_ID and _SECRET
+export const DEVICE_PROVIDERS: Record<
+  OAuthDeviceType,
+  Omit<DeviceProvider, "client_id" | "client_secret">
+> = {
+  GOOGLE_FIT: {
+    device_type: "GOOGLE_FIT",
+    name: "Google Fit",
+    auth_url: "https://accounts.google.com/o/oauth2/v2/auth",
+    token_url: "https://oauth2.googleapis.com/token",
+    scopes: [
+      "https://www.googleapis.com/auth/fitness.activity.read",
+      "https://www.googleapis.com/auth/fitness.body.read",
+      "https://www.googleapis.com/auth/fitness.heart_rate.read",
+      "https://www.googleapis.com/auth/fitness.location.read",
+    ],
+    // Offline access and consent every time, or no refresh token comes back
+    auth_params: {
+      access_type: "offline",
+      prompt: "consent",
+      include_granted_scopes: "true",
+    },
+    basic_auth: false,
+    pkce: true,
+    fetchDay: fetchGoogleFitDay,
+  },
+  FITBIT: {
+    device_type: "FITBIT",
+    name: "Fitbit",
+    auth_url: "https://www.fitbit.com/oauth2/authorize",
+    token_url: "https://api.fitbit.com/oauth2/token",
+    scopes: [
+      "activity",
+      "heartrate",
+      "nutrition",
+      "profile",
+      "sleep",
+      "weight",
+    ],
+    basic_auth: true,
+    pkce: true,
+    fetchDay: fetchFitbitDay,
+  },
+  WHOOP: {
+    device_type: "WHOOP",
+    name: "Whoop",
+    auth_url: "https://api.prod.whoop.com/oauth/oauth2/auth",
+    token_url: "https://api.prod.whoop.com/oauth/oauth2/token",
+    // "offline" is what gets a refresh token
+    scopes: [
+      "offline",
+      "read:recovery",
+      "read:cycles",
+      "read:workout",
+      "read:sleep",
+    ],
+    basic_auth: false,
+    pkce: false,
+    fetchDay: fetchWhoopDay,
+  },
+  POLAR: {
+    device_type: "POLAR",
+    name: "Polar",
+    auth_url: "https://flow.polar.com/oauth2/authorization",
+    token_url: "https://polarremote.com/v2/oauth2/token",
+    scopes: ["accesslink.read_all"],
+    basic_auth: true,
+    pkce: false,
+    fetchDay: fetchPolarDay,
+  },
+};
+
+export function isOAuthDevice(device_type: string): boolean {
+  return OAUTH_DEVICE_TYPES.includes(device_type as OAuthDeviceType);
+}
+
+// The provider of an OAuth wearable, throws when the server has no app for it
+export function getDeviceProvider(device_type: string): DeviceProvider {
+  if (!isOAuthDevice(device_type)) throw new Error("Unsupported device type");
+  const provider = DEVICE_PROVIDERS[device_type as OAuthDeviceType];
+
+  const client_id = process.env[`${device_type}_CLIENT_ID`];
+  const client_secret = process.env[`${device_type}_CLIENT_SECRET`];
+  if (!client_id || !client_secret) {
+    throw new Error(`${provider.name} is not configured on the server`);
+  }
+  return { ...provider, client_id, client_secret };
+}
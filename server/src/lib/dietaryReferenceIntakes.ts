@@ -0,0 +1,321 @@
+import {
+  LifeStage,
+  NutrientGroup,
+  NutrientTarget,
+} from "../types/micronutrients";
+
+/**
+ * Dietary Reference Intakes (National Academies, NIH ODS tables).
+ *
+ * Age columns are 4-8, 9-13, 14-18, 19-30, 31-50, 51-70 and 71+ years;
+ * pregnancy and lactation columns are up to 18, 19-30 and 31-50 years.
+ * Upper limits that only apply to supplements or fortified foods (vitamin E,
+ * folate, niacin, magnesium) are left out, since intake here comes from food.
+ */
+type AgeColumns = [number, number, number, number, number, number, number];
+type MaternalColumns = [number, number, number];
+
+interface DriEntry {
+  nutrient: string;
+  group: NutrientGroup;
+  unit: NutrientTarget["unit"];
+  target_type: NutrientTarget["target_type"];
+  male: AgeColumns;
+  female: AgeColumns;
+  pregnant: MaternalColumns;
+  lactating: MaternalColumns;
+  upper_limit?: AgeColumns;
+  upper_limit_pregnant?: MaternalColumns;
+}
+
+const same = (values: AgeColumns) => ({ male: values, female: values });
+const flat = (value: number): MaternalColumns => [value, value, value];
+
+const DRI_TABLE: DriEntry[] = [
+  {
+    nutrient: "vitamin_a_mcg",
+    group: "vitamins",
+    unit: "mcg",
+    target_type: "RDA",
+    male: [400, 600, 900, 900, 900, 900, 900],
+    female: [400, 600, 700, 700, 700, 700, 700],
+    pregnant: [750, 770, 770],
+    lactating: [1200, 1300, 1300],
+    upper_limit: [900, 1700, 2800, 3000, 3000, 3000, 3000],
+  },
+  {
+    nutrient: "vitamin_c_mg",
+    group: "vitamins",
+    unit: "mg",
+    target_type: "RDA",
+    male: [25, 45, 75, 90, 90, 90, 90],
+    female: [25, 45, 65, 75, 75, 75, 75],
+    pregnant: [80, 85, 85],
+    lactating: [115, 120, 120],
+    upper_limit: [650, 1200, 1800, 2000, 2000, 2000, 2000],
+  },
+  {
+    nutrient: "vitamin_d_mcg",
+    group: "vitamins",
+    unit: "mcg",
+    target_type: "RDA",
+    ...same([15, 15, 15, 15, 15, 15, 20]),
+    pregnant: flat(15),
+    lactating: flat(15),
+    upper_limit: [75, 100, 100, 100, 100, 100, 100],
+  },
+  {
+    nutrient: "vitamin_e_mg",
+    group: "vitamins",
+    unit: "mg",
+    target_type: "RDA",
+    ...same([7, 11, 15, 15, 15, 15, 15]),
+    pregnant: flat(15),
+    lactating: flat(19),
+  },
+  {
+    nutrient: "vitamin_k_mcg",
+    group: "vitamins",
+    unit: "mcg",
+    target_type: "AI",
+    male: [55, 60, 75, 120, 120, 120, 120],
+    female: [55, 60, 75, 90, 90, 90, 90],
+    pregnant: [75, 90, 90],
+    lactating: [75, 90, 90],
+  },
+  {
+    nutrient: "vitamin_b12_mcg",
+    group: "vitamins",
+    unit: "mcg",
+    target_type: "RDA",
+    ...same([1.2, 1.8, 2.4, 2.4, 2.4, 2.4, 2.4]),
+    pregnant: flat(2.6),
+    lactating: flat(2.8),
+  },
+  {
+    nutrient: "folate_mcg",
+    group: "vitamins",
+    unit: "mcg",
+    target_type: "RDA",
+    ...same([200, 300, 400, 400, 400, 400, 400]),
+    pregnant: flat(600),
+    lactating: flat(500),
+  },
+  {
+    nutrient: "niacin_mg",
+    group: "vitamins",
+    unit: "mg",
+    target_type: "RDA",
+    male: [8, 12, 16, 16, 16, 16, 16],
+    female: [8, 12, 14, 14, 14, 14, 14],
+    pregnant: flat(18),
+    lactating: flat(17),
+  },
+  {
+    nutrient: "thiamin_mg",
+    group: "vitamins",
+    unit: "mg",
+    target_type: "RDA",
+    male: [0.6, 0.9, 1.2, 1.2, 1.2, 1.2, 1.2],
+    female: [0.6, 0.9, 1.0, 1.1, 1.1, 1.1, 1.1],
+    pregnant: flat(1.4),
+    lactating: flat(1.4),
+  },
+  {
+    nutrient: "riboflavin_mg",
+    group: "vitamins",
+    unit: "mg",
+    target_type: "RDA",
+    male: [0.6, 0.9, 1.3, 1.3, 1.3, 1.3, 1.3],
+    female: [0.6, 0.9, 1.0, 1.1, 1.1, 1.1, 1.1],
+    pregnant: flat(1.4),
+    lactating: flat(1.6),
+  },
+  {
+    nutrient: "pantothenic_acid_mg",
+    group: "vitamins",
+    unit: "mg",
+    target_type: "AI",
+    ...same([3, 4, 5, 5, 5, 5, 5]),
+    pregnant: flat(6),
+    lactating: flat(7),
+  },
+  {
+    nutrient: "vitamin_b6_mg",
+    group: "vitamins",
+    unit: "mg",
+    target_type: "RDA",
+    male: [0.6, 1.0, 1.3, 1.3, 1.3, 1.7, 1.7],
+    female: [0.6, 1.0, 1.2, 1.3, 1.3, 1.5, 1.5],
+    pregnant: flat(1.9),
+    lactating: flat(2.0),
+    upper_limit: [40, 60, 80, 100, 100, 100, 100],
+  },
+  {
+    nutrient: "iron_mg",
+    group: "minerals",
+    unit: "mg",
+    target_type: "RDA",
+    male: [10, 8, 11, 8, 8, 8, 8],
+    female: [10, 8, 15, 18, 18, 8, 8],
+    pregnant: flat(27),
+    lactating: [10, 9, 9],
+    upper_limit: [40, 40, 45, 45, 45, 45, 45],
+  },
+  {
+    nutrient: "magnesium_mg",
+    group: "minerals",
+    unit: "mg",
+    target_type: "RDA",
+    male: [130, 240, 410, 400, 420, 420, 420],
+    female: [130, 240, 360, 310, 320, 320, 320],
+    pregnant: [400, 350, 360],
+    lactating: [360, 310, 320],
+  },
+  {
+    nutrient: "zinc_mg",
+    group: "minerals",
+    unit: "mg",
+    target_type: "RDA",
+    male: [5, 8, 11, 11, 11, 11, 11],
+    female: [5, 8, 9, 8, 8, 8, 8],
+    pregnant: [12, 11, 11],
+    lactating: [13, 12, 12],
+    upper_limit: [12, 23, 34, 40, 40, 40, 40],
+  },
+  {
+    nutrient: "calcium_mg",
+    group: "minerals",
+    unit: "mg",
+    target_type: "RDA",
+    male: [1000, 1300, 1300, 1000, 1000, 1000, 1200],
+    female: [1000, 1300, 1300, 1000, 1000, 1200, 1200],
+    pregnant: [1300, 1000, 1000],
+    lactating: [1300, 1000, 1000],
+    upper_limit: [2500, 3000, 3000, 2500, 2500, 2000, 2000],
+  },
+  {
+    nutrient: "potassium_mg",
+    group: "minerals",
+    unit: "mg",
+    target_type: "AI",
+    male: [2300, 2500, 3000, 3400, 3400, 3400, 3400],
+    female: [2300, 2300, 2300, 2600, 2600, 2600, 2600],
+    pregnant: [2600, 2900, 2900],
+    lactating: [2500, 2800, 2800],
+  },
+  {
+    nutrient: "phosphorus_mg",
+    group: "minerals",
+    unit: "mg",
+    target_type: "RDA",
+    ...same([500, 1250, 1250, 700, 700, 700, 700]),
+    pregnant: [1250, 700, 700],
+    lactating: [1250, 700, 700],
+    upper_limit: [3000, 4000, 4000, 4000, 4000, 4000, 3000],
+    upper_limit_pregnant: flat(3500),
+  },
+  {
+    nutrient: "selenium_mcg",
+    group: "minerals",
+    unit: "mcg",
+    target_type: "RDA",
+    ...same([30, 40, 55, 55, 55, 55, 55]),
+    pregnant: flat(60),
+    lactating: flat(70),
+    upper_limit: [150, 280, 400, 400, 400, 400, 400],
+  },
+  {
+    nutrient: "copper_mg",
+    group: "minerals",
+    unit: "mg",
+    target_type: "RDA",
+    ...same([0.44, 0.7, 0.89, 0.9, 0.9, 0.9, 0.9]),
+    pregnant: flat(1.0),
+    lactating: flat(1.3),
+    upper_limit: [3, 5, 8, 10, 10, 10, 10],
+  },
+  {
+    nutrient: "manganese_mg",
+    group: "minerals",
+    unit: "mg",
+    target_type: "AI",
+    male: [1.5, 1.9, 2.2, 2.3, 2.3, 2.3, 2.3],
+    female: [1.5, 1.6, 1.6, 1.8, 1.8, 1.8, 1.8],
+    pregnant: flat(2.0),
+    lactating: flat(2.6),
+    upper_limit: [3, 6, 9, 11, 11, 11, 11],
+  },
+  {
+    nutrient: "fiber_g",
+    group: "other",
+    unit: "g",
+    target_type: "AI",
+    male: [25, 31, 38, 38, 38, 30, 30],
+    female: [25, 26, 26, 25, 25, 21, 21],
+    pregnant: flat(28),
+    lactating: flat(29),
+  },
+  {
+    // The upper limit is the chronic disease risk reduction intake
+    nutrient: "sodium_mg",
+    group: "other",
+    unit: "mg",
+    target_type: "AI",
+    ...same([1000, 1200, 1500, 1500, 1500, 1500, 1500]),
+    pregnant: flat(1500),
+    lactating: flat(1500),
+    upper_limit: [1500, 1800, 2300, 2300, 2300, 2300, 2300],
+  },
+];
+
+function ageColumn(age: number) {
+  if (age <= 8) return 0;
+  if (age <= 13) return 1;
+  if (age <= 18) return 2;
+  if (age <= 30) return 3;
+  if (age <= 50) return 4;
+  if (age <= 70) return 5;
+  return 6;
+}
+
+function maternalColumn(age: number) {
+  if (age <= 18) return 0;
+  if (age <= 30) return 1;
+  return 2;
+}
+
+export function getDietaryReferenceIntakes(stage: LifeStage): NutrientTarget[] {
+  const column = ageColumn(stage.age);
+  const maternal =
+    stage.sex !== "male" && stage.pregnancy_status !== "NONE"
+      ? stage.pregnancy_status
+      : null;
+
+  return DRI_TABLE.map((entry) => {
+    let target: number;
+    if (maternal === "PREGNANT") {
+      target = entry.pregnant[maternalColumn(stage.age)];
+    } else if (maternal === "LACTATING") {
+      target = entry.lactating[maternalColumn(stage.age)];
+    } else if (stage.sex === "unspecified") {
+      target = Math.max(entry.male[column], entry.female[column]);
+    } else {
+      target = entry[stage.sex][column];
+    }
+
+    const upper_limit =
+      maternal === "PREGNANT" && entry.upper_limit_pregnant
+        ? entry.upper_limit_pregnant[maternalColumn(stage.age)]
+        : entry.upper_limit?.[column] ?? null;
+
+    return {
+      nutrient: entry.nutrient,
+      group: entry.group,
+      unit: entry.unit,
+      target,
+      target_type: entry.target_type,
+      upper_limit,
+    };
+  });
+}
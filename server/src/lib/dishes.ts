@@ -0,0 +1,245 @@
+import {
+  DetectedDish,
+  DetectedDishes,
+  DishSelectionInput,
+  MAX_DETECTED_DISHES,
+} from "../types/nutrition";
+import { normalizeAllergenText } from "./allergens";
+
+// Nutrients every dish carries on its own
+export const DISH_NUTRIENTS = [
+  "calories",
+  "protein_g",
+  "carbs_g",
+  "fats_g",
+  "fiber_g",
+  "sugar_g",
+  "sodium_mg",
+] as const;
+export type DishNutrient = (typeof DISH_NUTRIENTS)[number];
+
+// Meal columns only known for the whole plate
+export const PLATE_NUTRIENTS = [
+  "saturated_fats_g",
+  "polyunsaturated_fats_g",
+  "monounsaturated_fats_g",
+  "omega_3_g",
+  "omega_6_g",
+  "soluble_fiber_g",
+  "insoluble_fiber_g",
+  "cholesterol_mg",
+  "alcohol_g",
+  "caffeine_mg",
+  "liquids_ml",
+  "serving_size_g",
+] as const;
+export const PLATE_JSON_NUTRIENTS = [
+  "vitamins_json",
+  "micronutrients_json",
+] as const;
+
+// Ingredient fields in the analysis' mapped ingredient list
+export const INGREDIENT_NUTRIENTS: Record<DishNutrient, string> = {
+  calories: "calories",
+  protein_g: "protein",
+  carbs_g: "carbs",
+  fats_g: "fat",
+  fiber_g: "fiber",
+  sugar_g: "sugar",
+  sodium_mg: "sodium_mg",
+};
+
+// Ingredient fields that don't grow with the portion
+const UNSCALED_FIELDS = ["glycemic_index", "insulin_index"];
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const nutrientsOf = (
+  amount: (nutrient: DishNutrient) => number
+): Record<DishNutrient, number> =>
+  Object.fromEntries(
+    DISH_NUTRIENTS.map((nutrient) => [nutrient, round(amount(nutrient))])
+  ) as Record<DishNutrient, number>;
+
+// Scales every amount of an ingredient, its portion included
+export function scaleIngredient(ingredient: any, factor: number) {
+  if (!ingredient || typeof ingredient !== "object") return ingredient;
+
+  const scaled: Record<string, unknown> = { ...ingredient };
+  for (const [key, value] of Object.entries(ingredient)) {
+    if (typeof value === "number" && !UNSCALED_FIELDS.includes(key)) {
+      scaled[key] = round(value * factor);
+    }
+  }
+  return scaled;
+}
+
+export function scaleNumbers(value: unknown, factor: number): unknown {
+  if (typeof value === "number") return round(value * factor);
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      scaleNumbers(item, factor),
+    ])
+  );
+}
+
+/**
+ * Turns the AI's per-dish breakdown into dishes with their own nutrients
+ * and ingredients. Ingredients no dish claimed go to the biggest one.
+ * Returns null for a single dish, there is nothing to split.
+ */
+export function buildDetectedDishes(
+  rawDishes: unknown,
+  ingredients: any[],
+  meal: Record<string, any>
+): DetectedDishes | null {
+  if (!Array.isArray(rawDishes)) return null;
+
+  const unclaimed = new Set(ingredients.map((_, index) => index));
+  const dishes: DetectedDish[] = [];
+
+  for (const raw of rawDishes.slice(0, MAX_DETECTED_DISHES)) {
+    if (!raw || typeof raw !== "object") continue;
+    const name = typeof raw.name === "string" ? raw.name.trim() : "";
+    if (!name) continue;
+
+    const names = new Set(
+      (Array.isArray(raw.ingredients) ? raw.ingredients : [])
+        .map((item: unknown) =>
+          normalizeAllergenText(
+            typeof item === "string"
+              ? item
+              : typeof item === "object" && item !== null && "name" in item
+              ? String(item.name || "")
+              : ""
+          )
+        )
+        .filter(Boolean)
+    );
+    const claimed = [...unclaimed].filter((index) =>
+      names.has(normalizeAllergenText(String(ingredients[index]?.name || "")))
+    );
+    claimed.forEach((index) => unclaimed.delete(index));
+    const dishIngredients = claimed.map((index) => ingredients[index]);
+
+    // Totals the AI left out are summed from the dish's ingredients
+    const hasTotals = Number(raw.calories) > 0;
+    const nutrients = nutrientsOf((nutrient) =>
+      hasTotals && typeof raw[nutrient] === "number"
+        ? Math.max(0, raw[nutrient])
+        : dishIngredients.reduce(
+            (sum, ingredient) =>
+              sum + (Number(ingredient[INGREDIENT_NUTRIENTS[nutrient]]) || 0),
+            0
+          )
+    );
+
+    const ingredientPortions = dishIngredients.reduce(
+      (sum, ingredient) => sum + (Number(ingredient.estimated_portion_g) || 0),
+      0
+    );
+    const portion =
+      Number(raw.estimated_portion_g) ||
+      Number(raw.portion_g) ||
+      ingredientPortions;
+
+    dishes.push({
+      dish_id: `dish_${dishes.length + 1}`,
+      name: name.slice(0, 200),
+      portion_g: portion > 0 ? Math.round(portion) : null,
+      ...nutrients,
+      ingredients: dishIngredients,
+    });
+  }
+
+  if (dishes.length < 2) return null;
+
+  if (unclaimed.size > 0) {
+    const biggest = dishes.reduce((a, b) => (b.calories > a.calories ? b : a));
+    unclaimed.forEach((index) => biggest.ingredients.push(ingredients[index]));
+  }
+
+  const plate: Record<string, unknown> = {};
+  for (const field of [...PLATE_NUTRIENTS, ...PLATE_JSON_NUTRIENTS]) {
+    if (meal[field] !== undefined && meal[field] !== null) {
+      plate[field] = meal[field];
+    }
+  }
+
+  return { meal_name: meal.meal_name || dishes[0].name, dishes, plate };
+}
+
+export function scaleDish(dish: DetectedDish, factor: number): DetectedDish {
+  return {
+    ...dish,
+    portion_g: dish.portion_g ? Math.round(dish.portion_g * factor) : null,
+    ...nutrientsOf((nutrient) => dish[nutrient] * factor),
+    ingredients: dish.ingredients.map((ingredient) =>
+      scaleIngredient(ingredient, factor)
+    ),
+  };
+}
+
+/**
+ * The meal fields and items for the dishes the user ate. Portions are
+ * always scaled from the detected dishes, so a selection can be redone.
+ */
+export function applyDishSelection(
+  detected: DetectedDishes,
+  selection: DishSelectionInput
+) {
+  const selected = selection.items.map((item) => {
+    const dish = detected.dishes.find((dish) => dish.dish_id === item.dish_id);
+    if (!dish) throw new Error("Dish not found");
+
+    const servings =
+      item.portion_g && dish.portion_g
+        ? item.portion_g / dish.portion_g
+        : item.servings ?? 1;
+    return { dish: scaleDish(dish, servings), servings };
+  });
+
+  const totals = nutrientsOf((nutrient) =>
+    selected.reduce((sum, { dish }) => sum + dish[nutrient], 0)
+  );
+
+  // The share of the plate that was eaten, for nutrients known only in total
+  const plateCalories = detected.dishes.reduce(
+    (sum, dish) => sum + dish.calories,
+    0
+  );
+  const share =
+    plateCalories > 0
+      ? totals.calories / plateCalories
+      : selected.length / detected.dishes.length;
+
+  return {
+    meal: {
+      meal_name:
+        selected.length === detected.dishes.length
+          ? detected.meal_name
+          : selected.map(({ dish }) => dish.name).join(", "),
+      ...totals,
+      ...Object.fromEntries(
+        Object.entries(detected.plate).map(([field, value]) => [
+          field,
+          scaleNumbers(value, share),
+        ])
+      ),
+      ingredients: selected.flatMap(({ dish }) => dish.ingredients),
+    },
+    items: selected.map(({ dish, servings }, position) => ({
+      dish_id: dish.dish_id,
+      name: dish.name,
+      position,
+      portion_g: dish.portion_g,
+      servings: Math.round(servings * 100) / 100,
+      ...nutrientsOf((nutrient) => dish[nutrient]),
+      ingredients: dish.ingredients,
+    })),
+  };
+}
@@ -0,0 +1,102 @@
+import crypto from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const PREFIX = "enc:v1";
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+interface EncryptionKeys {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+let cachedKeys: EncryptionKeys | undefined;
+
+/**
+ * Keys come from ENCRYPTION_KEYS as comma separated "<id>:<base64 key>"
+ * pairs, 32 bytes each (openssl rand -base64 32). New values use
+ * ENCRYPTION_KEY_ID, or the last key listed.
+ */
+function loadKeys(): EncryptionKeys {
+  if (cachedKeys) return cachedKeys;
+
+  const keys = new Map<string, Buffer>();
+  for (const entry of (process.env.ENCRYPTION_KEYS || "").split(",")) {
+    if (!entry.trim()) continue;
+    const [id, encoded] = entry.trim().split(":");
+    const key = Buffer.from(encoded || "", "base64");
+    if (!KEY_ID_PATTERN.test(id) || key.length !== KEY_BYTES) {
+      throw new Error(
+        `Invalid encryption key "${id}", expected <id>:<32 bytes as base64>`
+      );
+    }
+    keys.set(id, key);
+  }
+  if (keys.size === 0) {
+    throw new Error("ENCRYPTION_KEYS is required to store sensitive data");
+  }
+
+  const activeKeyId =
+    process.env.ENCRYPTION_KEY_ID || [...keys.keys()][keys.size - 1];
+  if (!keys.has(activeKeyId)) {
+    throw new Error(`ENCRYPTION_KEY_ID "${activeKeyId}" is not a known key`);
+  }
+
+  cachedKeys = { activeKeyId, keys };
+  return cachedKeys;
+}
+
+const isEncrypted = (value: string) => value.startsWith(`${PREFIX}:`);
+
+// Encrypts with the active key, the key ID is kept in the value
+export function encryptSecret(plaintext: string): string {
+  const { activeKeyId, keys } = loadKeys();
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, keys.get(activeKeyId)!, iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf8"),
+    cipher.final(),
+  ]);
+
+  return [
+    PREFIX,
+    activeKeyId,
+    iv.toString("base64"),
+    cipher.getAuthTag().toString("base64"),
+    ciphertext.toString("base64"),
+  ].join(":");
+}
+
+/**
+ * Decrypts with whichever key the value names. Values from before
+ * encryption were only base64 encoded, they are read as such until
+ * rotated.
+ */
+export function decryptSecret(value: string): string {
+  if (!isEncrypted(value)) return Buffer.from(value, "base64").toString();
+
+  const [, , keyId, iv, tag, ciphertext] = value.split(":");
+  const key = loadKeys().keys.get(keyId);
+  if (!key) throw new Error(`Encryption key "${keyId}" is not configured`);
+
+  const decipher = crypto.createDecipheriv(
+    ALGORITHM,
+    key,
+    Buffer.from(iv, "base64")
+  );
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
+
+// Whether a value should be re-encrypted to be under the active key
+export function needsReencryption(value: string): boolean {
+  return !value.startsWith(`${PREFIX}:${loadKeys().activeKeyId}:`);
+}
+
+export function reencryptSecret(value: string): string {
+  return encryptSecret(decryptSecret(value));
+}
@@ -0,0 +1,116 @@
+import { FastingProtocol } from "@prisma/client";
+import { FastingProtocolDefinition } from "../types/fasting";
+import { shiftDate } from "../utils/timezone";
+
+/**
+ * Fasting protocols with their fasting and eating window lengths. Religious
+ * fasts run from sunset to nightfall the next day (25 hours) or from dawn
+ * to nightfall, and have no daily eating window.
+ */
+export const FASTING_PROTOCOLS: Record<
+  FastingProtocol,
+  FastingProtocolDefinition
+> = {
+  SIXTEEN_EIGHT: {
+    protocol: "SIXTEEN_EIGHT",
+    label: { en: "16:8", he: "16:8" },
+    fasting_hours: 16,
+    eating_window_hours: 8,
+    religious: false,
+  },
+  EIGHTEEN_SIX: {
+    protocol: "EIGHTEEN_SIX",
+    label: { en: "18:6", he: "18:6" },
+    fasting_hours: 18,
+    eating_window_hours: 6,
+    religious: false,
+  },
+  OMAD: {
+    protocol: "OMAD",
+    label: { en: "One meal a day", he: "ארוחה אחת ביום" },
+    fasting_hours: 23,
+    eating_window_hours: 1,
+    religious: false,
+  },
+  CUSTOM: {
+    protocol: "CUSTOM",
+    label: { en: "Custom", he: "מותאם אישית" },
+    fasting_hours: 14,
+    eating_window_hours: 10,
+    religious: false,
+  },
+  YOM_KIPPUR: {
+    protocol: "YOM_KIPPUR",
+    label: { en: "Yom Kippur", he: "יום כיפור" },
+    fasting_hours: 25,
+    eating_window_hours: null,
+    religious: true,
+  },
+  TISHA_BAV: {
+    protocol: "TISHA_BAV",
+    label: { en: "Tisha B'Av", he: "תשעה באב" },
+    fasting_hours: 25,
+    eating_window_hours: null,
+    religious: true,
+  },
+  MINOR_FAST: {
+    protocol: "MINOR_FAST",
+    label: { en: "Minor fast (dawn to nightfall)", he: "תענית ציבור" },
+    fasting_hours: 14,
+    eating_window_hours: null,
+    religious: true,
+  },
+  RAMADAN: {
+    protocol: "RAMADAN",
+    label: { en: "Ramadan (dawn to sunset)", he: "רמדאן" },
+    fasting_hours: 14,
+    eating_window_hours: null,
+    religious: true,
+  },
+};
+
+// Gaps between meals longer than this are days without logging, not fasts
+export const MAX_DETECTED_FAST_HOURS = 36;
+
+// Questionnaire answers like "16:8", "18/6", "16" or "OMAD"
+export function parseFastingHours(
+  value: string | null | undefined
+): { protocol: FastingProtocol; target_hours: number } | null {
+  if (!value) return null;
+  const text = value.trim().toLowerCase();
+
+  if (/omad|one meal|ארוחה אחת/.test(text)) {
+    return { protocol: "OMAD", target_hours: 23 };
+  }
+
+  const hours = Number(text.match(/\d+(?:\.\d+)?/)?.[0]);
+  if (!hours || hours < 1 || hours > 72) return null;
+
+  const known = (["SIXTEEN_EIGHT", "EIGHTEEN_SIX", "OMAD"] as const).find(
+    (protocol) => FASTING_PROTOCOLS[protocol].fasting_hours === hours
+  );
+  return { protocol: known || "CUSTOM", target_hours: hours };
+}
+
+/**
+ * Current and best runs of consecutive days with a completed fast. The
+ * current run still counts if today's fast has not ended yet.
+ */
+export function countFastingStreaks(
+  days: Iterable<string>,
+  today: string
+): { current: number; best: number } {
+  const sorted = [...new Set(days)].sort();
+  let best = 0;
+  let run = 0;
+
+  sorted.forEach((day, index) => {
+    run = index > 0 && shiftDate(sorted[index - 1], 1) === day ? run + 1 : 1;
+    best = Math.max(best, run);
+  });
+
+  const last = sorted[sorted.length - 1];
+  const current = last === today || last === shiftDate(today, -1) ? run : 0;
+
+  return { current, best };
+}
@@ -0,0 +1,228 @@
+/**
+ * Hebrew food words and the English terms used to look them up in the food
+ * table. The reference data (USDA) is English only, so Hebrew ingredient
+ * names from the AI or the user are translated through this list before
+ * matching. Keys are normalized Hebrew (no niqqud, final letters folded).
+ */
+const HEBREW_FOOD_TERMS: Record<string, string> = {
+  // Proteins
+  עופ: "chicken",
+  "חזה עופ": "chicken breast",
+  פרגית: "chicken thigh",
+  שניצל: "chicken breaded fried",
+  הודו: "turkey",
+  בקר: "beef",
+  "בשר בקר": "beef",
+  "בשר טחונ": "ground beef",
+  סטייק: "beef steak",
+  כבש: "lamb",
+  בשר: "meat",
+  קבב: "ground beef",
+  דג: "fish",
+  סלמונ: "salmon",
+  טונה: "tuna",
+  אמנונ: "tilapia",
+  דניס: "sea bream",
+  ביצה: "egg",
+  ביצימ: "egg",
+  חביתה: "egg omelet",
+  "ביצה קשה": "egg hard boiled",
+  טופו: "tofu",
+
+  // Dairy
+  חלב: "milk",
+  גבינה: "cheese",
+  "גבינה לבנה": "cheese cream low fat",
+  "גבינה צהובה": "cheese cheddar",
+  "גבינה בולגרית": "cheese feta",
+  בולגרית: "cheese feta",
+  פטה: "cheese feta",
+  קוטג: "cheese cottage",
+  מוצרלה: "cheese mozzarella",
+  פרמזנ: "cheese parmesan",
+  "גבינת שמנת": "cheese cream",
+  יוגורט: "yogurt",
+  לבנ: "yogurt plain",
+  לבנה: "yogurt greek plain",
+  שמנת: "cream",
+  "שמנת חמוצה": "sour cream",
+  חמאה: "butter",
+
+  // Grains and bread
+  לחמ: "bread",
+  "לחמ מלא": "bread whole wheat",
+  פיתה: "pita bread",
+  לחמניה: "roll bread",
+  חלה: "challah bread egg",
+  באגט: "bread french",
+  טורטיה: "tortilla",
+  אורז: "rice",
+  "אורז לבנ": "rice white cooked",
+  "אורז מלא": "rice brown cooked",
+  פסטה: "pasta cooked",
+  ספגטי: "spaghetti cooked",
+  פתיתימ: "couscous cooked",
+  קוסקוס: "couscous cooked",
+  בורגול: "bulgur cooked",
+  קינואה: "quinoa cooked",
+  "שיבולת שועל": "oats",
+  גרנולה: "granola",
+  קורנפלקס: "cereals corn flakes",
+  קמח: "wheat flour",
+
+  // Legumes, nuts and seeds
+  חומוס: "hummus",
+  "גרגרי חומוס": "chickpeas cooked",
+  טחינה: "tahini",
+  פלאפל: "falafel",
+  עדשימ: "lentils cooked",
+  שעועית: "beans",
+  "שעועית ירוקה": "green beans",
+  אפונה: "peas green",
+  שקדימ: "almonds",
+  "אגוזי מלכ": "walnuts",
+  בוטנימ: "peanuts",
+  "חמאת בוטנימ": "peanut butter",
+  קשיו: "cashew nuts",
+  פיסטוק: "pistachio nuts",
+  גרעינימ: "sunflower seeds",
+
+  // Vegetables
+  עגבניה: "tomatoes raw",
+  עגבניות: "tomatoes raw",
+  "עגבניות שרי": "tomatoes cherry",
+  מלפפונ: "cucumber",
+  מלפפונימ: "cucumber",
+  חסה: "lettuce",
+  בצל: "onions",
+  שומ: "garlic",
+  גזר: "carrots",
+  פלפל: "peppers sweet",
+  "פלפל אדומ": "peppers sweet red",
+  חציל: "eggplant",
+  קישוא: "squash zucchini",
+  ברוקולי: "broccoli",
+  כרובית: "cauliflower",
+  כרוב: "cabbage",
+  תרד: "spinach",
+  פטריות: "mushrooms",
+  תירס: "corn sweet",
+  "תפוח אדמה": "potatoes",
+  "תפוחי אדמה": "potatoes",
+  ציפס: "potatoes french fried",
+  בטטה: "sweet potato",
+  אבוקדו: "avocados",
+  פטרוזיליה: "parsley",
+  כוסברה: "coriander leaves",
+  סלק: "beets",
+  "סלט ירקות": "salad vegetable tossed",
+  סלט: "salad",
+
+  // Fruit
+  תפוח: "apples",
+  בננה: "bananas",
+  תפוז: "oranges",
+  ענבימ: "grapes",
+  תותימ: "strawberries",
+  אבטיח: "watermelon",
+  מלונ: "melons cantaloupe",
+  אגס: "pears",
+  אפרסק: "peaches",
+  מנגו: "mangos",
+  אננס: "pineapple",
+  קלמנטינה: "tangerines",
+  לימונ: "lemons",
+  תמרימ: "dates medjool",
+  רימונ: "pomegranates",
+  אוכמניות: "blueberries",
+
+  // Fats, sweets and condiments
+  "שמנ זית": "oil olive",
+  שמנ: "oil vegetable",
+  סוכר: "sugars granulated",
+  דבש: "honey",
+  שוקולד: "chocolate",
+  עוגה: "cake",
+  עוגיות: "cookies",
+  עוגיה: "cookies",
+  גלידה: "ice cream",
+  קטשופ: "catsup",
+  מיונז: "mayonnaise",
+  חרדל: "mustard",
+
+  // Drinks
+  קפה: "coffee brewed",
+  תה: "tea brewed",
+  מיצ: "juice",
+  "מיצ תפוזימ": "orange juice",
+  מימ: "water",
+  יינ: "wine",
+  בירה: "beer",
+};
+
+const FINAL_LETTERS: Record<string, string> = {
+  ך: "כ",
+  ם: "מ",
+  ן: "נ",
+  ף: "פ",
+  ץ: "צ",
+};
+
+// Single-letter prefixes (the/and/in/to/from) that attach to Hebrew words
+const HEBREW_PREFIXES = ["ה", "ו", "ב", "ל", "מ"];
+
+export function containsHebrew(text: string) {
+  return /[\u0590-\u05FF]/.test(text);
+}
+
+export function normalizeHebrew(text: string) {
+  return text
+    .replace(/[\u0591-\u05C7]/g, "") // niqqud and cantillation marks
+    .replace(/[״"׳']/g, "")
+    .replace(/[ךםןףץ]/g, (letter) => FINAL_LETTERS[letter]);
+}
+
+function lookupTerm(term: string): string | undefined {
+  if (HEBREW_FOOD_TERMS[term]) return HEBREW_FOOD_TERMS[term];
+
+  const prefix = term[0];
+  if (term.length > 2 && HEBREW_PREFIXES.includes(prefix)) {
+    return HEBREW_FOOD_TERMS[term.slice(1)];
+  }
+  return undefined;
+}
+
+/**
+ * Translates a Hebrew ingredient name into English lookup terms, preferring
+ * the longest known phrase ("חזה עוף" over "עוף"). Words without a known
+ * translation are dropped, so the result may be empty.
+ */
+export function translateHebrewFoodName(name: string): string {
+  const words = normalizeHebrew(name)
+    .split(/[^\u0590-\u05FFa-zA-Z0-9]+/)
+    .filter(Boolean);
+  const translated: string[] = [];
+
+  for (let i = 0; i < words.length; ) {
+    let matched = false;
+
+    for (let length = Math.min(3, words.length - i); length > 0; length--) {
+      const phrase = words.slice(i, i + length).join(" ");
+      const english = lookupTerm(phrase);
+      if (english) {
+        translated.push(english);
+        i += length;
+        matched = true;
+        break;
+      }
+    }
+
+    if (!matched) {
+      // Latin words mixed into Hebrew text are usually brand or food names
+      if (/^[a-zA-Z]+$/.test(words[i])) translated.push(words[i]);
+      i++;
+    }
+  }
+
+  return translated.join(" ");
+}
@@ -0,0 +1,325 @@
+import fs from "fs";
+import path from "path";
+import { readCsvRecords } from "../../utils/csv";
+import { findUsdaNutrient, USDA_NUTRIENTS } from "./usdaNutrients";
+import {
+  FoodCompositionRecord,
+  FoodNutrientsPer100g,
+} from "../../types/foodComposition";
+
+// USDA data types worth importing. Branded foods are label data better served
+// by the product catalog, and Experimental/Sub-sample rows are lab records.
+const DEFAULT_USDA_DATA_TYPES = [
+  "foundation_food",
+  "sr_legacy_food",
+  "survey_fndds_food",
+  "Foundation",
+  "SR Legacy",
+  "Survey (FNDDS)",
+];
+
+const CORE_FIELDS = [
+  "calories",
+  "protein_g",
+  "carbs_g",
+  "fats_g",
+  "fiber_g",
+  "sugar_g",
+  "sodium_mg",
+  "saturated_fats_g",
+  "monounsaturated_fats_g",
+  "polyunsaturated_fats_g",
+  "omega_3_g",
+  "omega_6_g",
+  "cholesterol_mg",
+  "alcohol_g",
+  "caffeine_mg",
+] as const;
+
+/**
+ * Collects nutrient amounts for one food and turns them into our per-100g
+ * shape. Fallback nutrients only fill fields the primary ones left empty.
+ */
+class NutrientAccumulator {
+  private values = new Map<
+    string,
+    { group: string; amount: number; fallback: boolean }
+  >();
+
+  add(ref: { id?: number; number?: string }, amount: number) {
+    if (!Number.isFinite(amount)) return;
+
+    const found = findUsdaNutrient(ref);
+    if (!found) return;
+
+    const existing = this.values.get(found.mapping.field);
+    if (existing && (found.fallback || !existing.fallback)) return;
+
+    this.values.set(found.mapping.field, {
+      group: found.mapping.group,
+      amount,
+      fallback: found.fallback,
+    });
+  }
+
+  build(): FoodNutrientsPer100g | null {
+    const core: Record<string, number> = {};
+    const vitamins: Record<string, number> = {};
+    const micronutrients: Record<string, number> = {};
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+
+    this.values.forEach(({ group, amount }, field) => {
+      if (group === "vitamins") vitamins[field] = round(amount);
+      else if (group === "micronutrients")
+        micronutrients[field] = round(amount);
+      else if (group === "core") core[field] = round(amount);
+      else {
+        // Individual fatty acids add up into the omega totals
+        const total = `${group}_g`;
+        core[total] = round((core[total] || 0) + amount);
+      }
+    });
+
+    // Without energy the row is useless for meal totals
+    if (core.calories === undefined) return null;
+
+    const optional = (field: string) => core[field] ?? null;
+
+    return {
+      calories: core.calories,
+      protein_g: core.protein_g ?? 0,
+      carbs_g: core.carbs_g ?? 0,
+      fats_g: core.fats_g ?? 0,
+      fiber_g: optional("fiber_g"),
+      sugar_g: optional("sugar_g"),
+      sodium_mg: optional("sodium_mg"),
+      saturated_fats_g: optional("saturated_fats_g"),
+      monounsaturated_fats_g: optional("monounsaturated_fats_g"),
+      polyunsaturated_fats_g: optional("polyunsaturated_fats_g"),
+      omega_3_g: optional("omega_3_g"),
+      omega_6_g: optional("omega_6_g"),
+      cholesterol_mg: optional("cholesterol_mg"),
+      alcohol_g: optional("alcohol_g"),
+      caffeine_mg: optional("caffeine_mg"),
+      vitamins_json: Object.keys(vitamins).length > 0 ? vitamins : null,
+      micronutrients_json:
+        Object.keys(micronutrients).length > 0 ? micronutrients : null,
+    };
+  }
+}
+
+// Prefer a "medium" or single-unit portion as the weight of one piece
+function pickUnitWeight(
+  portions: Array<{ description: string; amount: number; grams: number }>
+) {
+  const valid = portions.filter((portion) => portion.grams > 0);
+  const medium = valid.find((portion) =>
+    /\bmedium\b/i.test(portion.description)
+  );
+  if (medium) return medium.grams / (medium.amount || 1);
+
+  const single = valid.find(
+    (portion) =>
+      portion.amount === 1 &&
+      !/\b(cup|tbsp|tsp|oz|fl|lb|tablespoon|teaspoon|ounce|pound|ml|g)\b/i.test(
+        portion.description
+      )
+  );
+  return single ? single.grams : null;
+}
+
+function numberOrNull(value: string | undefined) {
+  if (value === undefined || value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Reads a FoodData Central JSON download (Foundation, SR Legacy or FNDDS).
+ * The whole file is parsed at once, these datasets are a few hundred MB.
+ */
+export async function* readUsdaJson(
+  filePath: string
+): AsyncGenerator<FoodCompositionRecord> {
+  const content = JSON.parse(await fs.promises.readFile(filePath, "utf8"));
+  const foods: any[] = Array.isArray(content)
+    ? content
+    : Object.values(content).find(Array.isArray) || [];
+
+  for (const food of foods) {
+    if (!food?.fdcId || !food?.description) continue;
+
+    const nutrients = new NutrientAccumulator();
+    for (const entry of food.foodNutrients || []) {
+      const nutrient = entry.nutrient || {};
+      nutrients.add(
+        {
+          id: nutrient.id ?? entry.nutrientId,
+          number: nutrient.number ?? entry.nutrientNumber,
+        },
+        Number(entry.amount ?? entry.value)
+      );
+    }
+
+    const built = nutrients.build();
+    if (!built) continue;
+
+    yield {
+      ...built,
+      source: "USDA_FDC",
+      source_id: String(food.fdcId),
+      name_en: String(food.description).trim(),
+      category:
+        food.foodCategory?.description ||
+        food.wweiaFoodCategory?.wweiaFoodCategoryDescription ||
+        null,
+      unit_weight_g: pickUnitWeight(
+        (food.foodPortions || []).map((portion: any) => ({
+          description: [
+            portion.modifier,
+            portion.portionDescription,
+            portion.measureUnit?.name,
+          ]
+            .filter(Boolean)
+            .join(" "),
+          amount: Number(portion.amount) || 1,
+          grams: Number(portion.gramWeight) || 0,
+        }))
+      ),
+    };
+  }
+}
+
+/**
+ * Reads the relational FoodData Central CSV download: food.csv plus
+ * food_nutrient.csv, with food_category.csv and food_portion.csv used when
+ * present. Only nutrient rows of selected foods are kept in memory.
+ */
+export async function* readUsdaCsvDirectory(
+  directory: string,
+  options: { dataTypes?: string[] } = {}
+): AsyncGenerator<FoodCompositionRecord> {
+  const dataTypes = new Set(options.dataTypes || DEFAULT_USDA_DATA_TYPES);
+  const file = (name: string) => path.join(directory, name);
+
+  const categories = new Map<string, string>();
+  if (fs.existsSync(file("food_category.csv"))) {
+    for await (const row of readCsvRecords(file("food_category.csv"))) {
+      categories.set(row.id, row.description);
+    }
+  }
+
+  const foods = new Map<
+    string,
+    { description: string; category: string | null }
+  >();
+  for await (const row of readCsvRecords(file("food.csv"))) {
+    if (!dataTypes.has(row.data_type)) continue;
+    foods.set(row.fdc_id, {
+      description: row.description,
+      category: categories.get(row.food_category_id) || null,
+    });
+  }
+
+  const nutrients = new Map<string, NutrientAccumulator>();
+  for await (const row of readCsvRecords(file("food_nutrient.csv"))) {
+    if (!foods.has(row.fdc_id)) continue;
+
+    let accumulator = nutrients.get(row.fdc_id);
+    if (!accumulator) {
+      accumulator = new NutrientAccumulator();
+      nutrients.set(row.fdc_id, accumulator);
+    }
+    accumulator.add({ id: Number(row.nutrient_id) }, Number(row.amount));
+  }
+
+  const portions = new Map<
+    string,
+    Array<{ description: string; amount: number; grams: number }>
+  >();
+  if (fs.existsSync(file("food_portion.csv"))) {
+    for await (const row of readCsvRecords(file("food_portion.csv"))) {
+      if (!foods.has(row.fdc_id)) continue;
+      const list = portions.get(row.fdc_id) || [];
+      list.push({
+        description: [row.modifier, row.portion_description]
+          .filter(Boolean)
+          .join(" "),
+        amount: Number(row.amount) || 1,
+        grams: Number(row.gram_weight) || 0,
+      });
+      portions.set(row.fdc_id, list);
+    }
+  }
+
+  for (const [fdcId, food] of foods) {
+    const built = nutrients.get(fdcId)?.build();
+    if (!built) continue;
+
+    yield {
+      ...built,
+      source: "USDA_FDC",
+      source_id: fdcId,
+      name_en: food.description.trim(),
+      category: food.category,
+      unit_weight_g: pickUnitWeight(portions.get(fdcId) || []),
+    };
+  }
+}
+
+/**
+ * Reads a flat table with one food per row, for hand-curated local foods.
+ * Columns: id, name_en, name_he, aliases (separated by "|"), category,
+ * unit_weight_g, the per-100g nutrient fields by their own names, and any
+ * vitamin/mineral key used in vitamins_json or micronutrients_json.
+ */
+export async function* readFlatFoodCsv(
+  filePath: string
+): AsyncGenerator<FoodCompositionRecord> {
+  const fieldsOf = (group: string) =>
+    USDA_NUTRIENTS.filter((mapping) => mapping.group === group).map(
+      (mapping) => mapping.field
+    );
+  const vitaminKeys = fieldsOf("vitamins");
+  const mineralKeys = fieldsOf("micronutrients");
+
+  for await (const row of readCsvRecords(filePath)) {
+    const name_en = (row.name_en || row.name || "").trim();
+    const source_id = (row.id || row.source_id || name_en).trim();
+    const calories = numberOrNull(row.calories);
+    if (!name_en || calories === null) continue;
+
+    const pickKeys = (keys: string[]) => {
+      const values: Record<string, number> = {};
+      keys.forEach((key) => {
+        const value = numberOrNull(row[key]);
+        if (value !== null) values[key] = value;
+      });
+      return Object.keys(values).length > 0 ? values : null;
+    };
+
+    const core = Object.fromEntries(
+      CORE_FIELDS.map((field) => [field, numberOrNull(row[field])])
+    );
+
+    yield {
+      ...core,
+      calories,
+      protein_g: numberOrNull(row.protein_g) ?? 0,
+      carbs_g: numberOrNull(row.carbs_g) ?? 0,
+      fats_g: numberOrNull(row.fats_g) ?? 0,
+      vitamins_json: pickKeys(vitaminKeys),
+      micronutrients_json: pickKeys(mineralKeys),
+      source: "CUSTOM",
+      source_id,
+      name_en,
+      name_he: row.name_he?.trim() || null,
+      aliases: (row.aliases || "")
+        .split("|")
+        .map((alias) => alias.trim())
+        .filter(Boolean),
+      category: row.category?.trim() || null,
+      unit_weight_g: numberOrNull(row.unit_weight_g),
+    };
+  }
+}
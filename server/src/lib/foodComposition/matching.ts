@@ -0,0 +1,198 @@
+import {
+  containsHebrew,
+  normalizeHebrew,
+  translateHebrewFoodName,
+} from "./hebrewAliases";
+
+// Words describing preparation or size, they help rank but shouldn't decide
+// which food an ingredient is
+const DESCRIPTOR_WORDS = new Set([
+  "raw",
+  "fresh",
+  "cooked",
+  "boiled",
+  "steamed",
+  "grilled",
+  "roasted",
+  "baked",
+  "fried",
+  "pan",
+  "stir",
+  "sauteed",
+  "broiled",
+  "toasted",
+  "chopped",
+  "sliced",
+  "diced",
+  "minced",
+  "shredded",
+  "mashed",
+  "plain",
+  "homemade",
+  "small",
+  "medium",
+  "large",
+  "piece",
+  "pieces",
+  "slice",
+  "slices",
+  "whole",
+  "organic",
+  "lean",
+  "light",
+  "low",
+  "fat",
+  "free",
+]);
+
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "of",
+  "with",
+  "in",
+  "on",
+  "the",
+  "or",
+  "for",
+  "to",
+  "from",
+  "without",
+  "ns",
+  "as",
+  "nfs",
+]);
+
+export function singularize(word: string) {
+  if (word.length <= 3) return word;
+  if (word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (/(oes|ches|shes|sses|xes)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+export function normalizeFoodText(text: string) {
+  return normalizeHebrew(text.toLowerCase())
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\u0590-\u05FFa-z0-9]+/g, " ")
+    .trim()
+    .replace(/\s+/g, " ");
+}
+
+export function tokenizeFoodText(text: string) {
+  return normalizeFoodText(text)
+    .split(" ")
+    .filter((word) => word && !STOP_WORDS.has(word))
+    .map(singularize);
+}
+
+/**
+ * Produces the English query used against the food table. Hebrew names are
+ * translated through the alias list, English passes through normalized.
+ */
+export function toLookupQuery(name: string) {
+  if (containsHebrew(name)) {
+    return normalizeFoodText(translateHebrewFoodName(name));
+  }
+  return normalizeFoodText(name);
+}
+
+export function isDescriptor(token: string) {
+  return DESCRIPTOR_WORDS.has(token);
+}
+
+/**
+ * The text stored alongside each food and searched with `contains`. Every
+ * token is singularized so the stored text and queries agree.
+ */
+export function buildSearchText(names: Array<string | null | undefined>) {
+  const tokens = new Set<string>();
+  names
+    .filter((name): name is string => !!name)
+    .forEach((name) => tokenizeFoodText(name).forEach((t) => tokens.add(t)));
+  return ` ${Array.from(tokens).join(" ")} `;
+}
+
+function bigrams(word: string) {
+  const padded = ` ${word} `;
+  const result = new Set<string>();
+  for (let i = 0; i < padded.length - 1; i++) {
+    result.add(padded.slice(i, i + 2));
+  }
+  return result;
+}
+
+// Dice coefficient on character bigrams, tolerant of typos and inflections
+export function wordSimilarity(a: string, b: string) {
+  if (a === b) return 1;
+  const aBigrams = bigrams(a);
+  const bBigrams = bigrams(b);
+  let overlap = 0;
+  aBigrams.forEach((bigram) => {
+    if (bBigrams.has(bigram)) overlap++;
+  });
+  return (2 * overlap) / (aBigrams.size + bBigrams.size);
+}
+
+const FUZZY_WORD_THRESHOLD = 0.75;
+
+/**
+ * Scores how well a food's names cover the query, from 0 to 1. Food names
+ * are weighted toward their leading words since USDA descriptions go from
+ * general to specific ("Chicken, broilers or fryers, breast, ...").
+ */
+export function scoreFoodMatch(queryTokens: string[], foodNames: string[]) {
+  if (queryTokens.length === 0) return 0;
+
+  let best = 0;
+
+  for (const foodName of foodNames) {
+    const foodTokens = tokenizeFoodText(foodName);
+    if (foodTokens.length === 0) continue;
+
+    let matchedWeight = 0;
+    let totalWeight = 0;
+    let coreMatched = false;
+    let leadingMatched = false;
+
+    for (const token of queryTokens) {
+      const weight = isDescriptor(token) ? 0.3 : 1;
+      totalWeight += weight;
+
+      let bestSimilarity = 0;
+      let bestPosition = -1;
+      foodTokens.forEach((foodToken, position) => {
+        const similarity = wordSimilarity(token, foodToken);
+        if (similarity > bestSimilarity) {
+          bestSimilarity = similarity;
+          bestPosition = position;
+        }
+      });
+
+      if (bestSimilarity >= FUZZY_WORD_THRESHOLD) {
+        matchedWeight += weight * bestSimilarity;
+        if (!isDescriptor(token)) coreMatched = true;
+        if (bestPosition === 0) leadingMatched = true;
+      }
+    }
+
+    if (!coreMatched) continue;
+
+    // Shorter, more generic descriptions win over long specific variants
+    const unmatchedFoodTokens = Math.max(
+      foodTokens.length - queryTokens.length,
+      0
+    );
+    const lengthPenalty = Math.min(unmatchedFoodTokens * 0.03, 0.25);
+
+    const score =
+      (matchedWeight / totalWeight) * (1 - lengthPenalty) +
+      (leadingMatched ? 0.1 : 0);
+
+    best = Math.max(best, Math.min(score, 1));
+  }
+
+  return best;
+}
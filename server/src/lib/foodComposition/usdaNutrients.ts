@@ -0,0 +1,101 @@
+/**
+ * FoodData Central nutrient identifiers mapped onto our nutrient fields.
+ * FDC JSON exports reference nutrients by "number" (the legacy SR code), the
+ * CSV exports by numeric nutrient id, so each entry carries both.
+ */
+interface UsdaNutrientMapping {
+  id: number;
+  number: string;
+  field: string;
+  group: "core" | "vitamins" | "micronutrients" | "omega_3" | "omega_6";
+}
+
+export const USDA_NUTRIENTS: UsdaNutrientMapping[] = [
+  { id: 1008, number: "208", field: "calories", group: "core" },
+  { id: 1003, number: "203", field: "protein_g", group: "core" },
+  { id: 1005, number: "205", field: "carbs_g", group: "core" },
+  { id: 1004, number: "204", field: "fats_g", group: "core" },
+  { id: 1079, number: "291", field: "fiber_g", group: "core" },
+  { id: 2000, number: "269", field: "sugar_g", group: "core" },
+  { id: 1093, number: "307", field: "sodium_mg", group: "core" },
+  { id: 1258, number: "606", field: "saturated_fats_g", group: "core" },
+  { id: 1292, number: "645", field: "monounsaturated_fats_g", group: "core" },
+  { id: 1293, number: "646", field: "polyunsaturated_fats_g", group: "core" },
+  { id: 1253, number: "601", field: "cholesterol_mg", group: "core" },
+  { id: 1018, number: "221", field: "alcohol_g", group: "core" },
+  { id: 1057, number: "262", field: "caffeine_mg", group: "core" },
+
+  { id: 1106, number: "320", field: "vitamin_a_mcg", group: "vitamins" },
+  { id: 1162, number: "401", field: "vitamin_c_mg", group: "vitamins" },
+  { id: 1114, number: "328", field: "vitamin_d_mcg", group: "vitamins" },
+  { id: 1109, number: "323", field: "vitamin_e_mg", group: "vitamins" },
+  { id: 1185, number: "430", field: "vitamin_k_mcg", group: "vitamins" },
+  { id: 1178, number: "418", field: "vitamin_b12_mcg", group: "vitamins" },
+  { id: 1177, number: "417", field: "folate_mcg", group: "vitamins" },
+  { id: 1167, number: "406", field: "niacin_mg", group: "vitamins" },
+  { id: 1165, number: "404", field: "thiamin_mg", group: "vitamins" },
+  { id: 1166, number: "405", field: "riboflavin_mg", group: "vitamins" },
+  { id: 1170, number: "410", field: "pantothenic_acid_mg", group: "vitamins" },
+  { id: 1175, number: "415", field: "vitamin_b6_mg", group: "vitamins" },
+
+  { id: 1089, number: "303", field: "iron_mg", group: "micronutrients" },
+  { id: 1090, number: "304", field: "magnesium_mg", group: "micronutrients" },
+  { id: 1095, number: "309", field: "zinc_mg", group: "micronutrients" },
+  { id: 1087, number: "301", field: "calcium_mg", group: "micronutrients" },
+  { id: 1092, number: "306", field: "potassium_mg", group: "micronutrients" },
+  { id: 1091, number: "305", field: "phosphorus_mg", group: "micronutrients" },
+  { id: 1103, number: "317", field: "selenium_mcg", group: "micronutrients" },
+  { id: 1098, number: "312", field: "copper_mg", group: "micronutrients" },
+  { id: 1101, number: "315", field: "manganese_mg", group: "micronutrients" },
+
+  // Fatty acids are reported individually and summed into the omega totals
+  { id: 1404, number: "851", field: "ala", group: "omega_3" },
+  { id: 1278, number: "629", field: "epa", group: "omega_3" },
+  { id: 1280, number: "631", field: "dpa", group: "omega_3" },
+  { id: 1272, number: "621", field: "dha", group: "omega_3" },
+  { id: 1316, number: "675", field: "linoleic", group: "omega_6" },
+  { id: 1321, number: "855", field: "arachidonic", group: "omega_6" },
+];
+
+// Fallbacks used only when the primary nutrient is missing from a food
+export const USDA_FALLBACK_NUTRIENTS: UsdaNutrientMapping[] = [
+  // Energy (Atwater general / specific factors), common in Foundation Foods
+  { id: 2047, number: "957", field: "calories", group: "core" },
+  { id: 2048, number: "958", field: "calories", group: "core" },
+  // Carbohydrate by summation
+  { id: 1050, number: "205.2", field: "carbs_g", group: "core" },
+  // Sugars, total NLEA
+  { id: 1063, number: "269.3", field: "sugar_g", group: "core" },
+  // Folate, DFE
+  { id: 1190, number: "435", field: "folate_mcg", group: "vitamins" },
+  // Linoleic acid without isomer breakdown
+  { id: 1269, number: "618", field: "linoleic", group: "omega_6" },
+];
+
+const byId = new Map<number, UsdaNutrientMapping>();
+const byNumber = new Map<string, UsdaNutrientMapping>();
+const fallbackById = new Map<number, UsdaNutrientMapping>();
+const fallbackByNumber = new Map<string, UsdaNutrientMapping>();
+
+USDA_NUTRIENTS.forEach((mapping) => {
+  byId.set(mapping.id, mapping);
+  byNumber.set(mapping.number, mapping);
+});
+USDA_FALLBACK_NUTRIENTS.forEach((mapping) => {
+  fallbackById.set(mapping.id, mapping);
+  fallbackByNumber.set(mapping.number, mapping);
+});
+
+export function findUsdaNutrient(ref: { id?: number; number?: string }) {
+  const primary =
+    (ref.id !== undefined && byId.get(ref.id)) ||
+    (ref.number !== undefined && byNumber.get(ref.number));
+  if (primary) return { mapping: primary, fallback: false };
+
+  const fallback =
+    (ref.id !== undefined && fallbackById.get(ref.id)) ||
+    (ref.number !== undefined && fallbackByNumber.get(ref.number));
+  if (fallback) return { mapping: fallback, fallback: true };
+
+  return null;
+}
@@ -0,0 +1,157 @@
+import { GoalDayType, GoalPlan, SportFrequency } from "@prisma/client";
+
+// Weekday names as people type them in the questionnaire, 0 is Sunday
+const WEEKDAY_NAMES: Array<[number, string[]]> = [
+  [0, ["sunday", "sun", "ראשון"]],
+  [1, ["monday", "mon", "שני"]],
+  [2, ["tuesday", "tue", "שלישי"]],
+  [3, ["wednesday", "wed", "רביעי"]],
+  [4, ["thursday", "thu", "חמישי"]],
+  [5, ["friday", "fri", "שישי"]],
+  [6, ["saturday", "sat", "שבת"]],
+];
+
+// Training days spread over the week when no weekdays were given
+const SPREAD_BY_FREQUENCY: Record<SportFrequency, number[]> = {
+  NONE: [],
+  ONCE_A_WEEK: [2],
+  TWO_TO_THREE: [0, 2, 4],
+  FOUR_TO_FIVE: [0, 1, 3, 4],
+  MORE_THAN_FIVE: [0, 1, 2, 3, 4, 5],
+};
+
+// Sports that burn through glycogen get a larger carb boost
+const ENDURANCE_SPORTS = [
+  "run",
+  "ריצה",
+  "cycl",
+  "bike",
+  "אופניים",
+  "swim",
+  "שחייה",
+  "triathlon",
+  "טריאתלון",
+  "football",
+  "soccer",
+  "כדורגל",
+  "basketball",
+  "כדורסל",
+  "crossfit",
+  "קרוספיט",
+];
+
+export const DEFAULT_CARB_BOOST = 0.25;
+export const ENDURANCE_CARB_BOOST = 0.35;
+export const REFEED_CARB_BOOST = 0.5;
+// Rest days give back the extra carbs, but keep at least half of them
+export const MAX_REST_CARB_CUT = 0.5;
+export const TRAINING_EXTRA_WATER_ML = 500;
+
+export type GoalTargets = Pick<
+  GoalPlan,
+  | "calories"
+  | "protein_g"
+  | "carbs_g"
+  | "fats_g"
+  | "fiber_g"
+  | "sodium_mg"
+  | "sugar_g"
+  | "water_ml"
+>;
+
+export type GoalSchedule = Pick<
+  GoalPlan,
+  "training_days" | "refeed_days" | "training_carb_boost"
+>;
+
+// Local weekday of a YYYY-MM-DD date
+export function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00.000Z`).getUTCDay();
+}
+
+/**
+ * Training days from the questionnaire: weekdays named in the workout
+ * times, otherwise spread by how often the user does sport.
+ */
+export function scheduleFromQuestionnaire(questionnaire: {
+  workout_times: string[];
+  sport_types: string[];
+  sport_frequency: SportFrequency;
+}): GoalSchedule {
+  const text = questionnaire.workout_times.join(" ").toLowerCase();
+  const named = WEEKDAY_NAMES.filter(([, names]) =>
+    names.some((name) =>
+      // Hebrew weekdays often carry a prefix, as in "בשני" or "ובחמישי"
+      new RegExp(`(^|[^\\p{L}])[ובה]{0,2}${name}($|[^\\p{L}])`, "u").test(text)
+    )
+  ).map(([weekday]) => weekday);
+
+  const sports = questionnaire.sport_types.join(" ").toLowerCase();
+  const endurance = ENDURANCE_SPORTS.some((sport) => sports.includes(sport));
+
+  return {
+    training_days: named.length
+      ? named
+      : SPREAD_BY_FREQUENCY[questionnaire.sport_frequency],
+    refeed_days: [],
+    training_carb_boost: endurance ? ENDURANCE_CARB_BOOST : DEFAULT_CARB_BOOST,
+  };
+}
+
+export function dayTypeFor(
+  schedule: GoalSchedule,
+  weekday: number
+): GoalDayType {
+  if (schedule.refeed_days.includes(weekday)) return "REFEED";
+  if (schedule.training_days.includes(weekday)) return "TRAINING";
+  return "REST";
+}
+
+const carbBoost = (schedule: GoalSchedule, dayType: GoalDayType) =>
+  dayType === "REFEED"
+    ? REFEED_CARB_BOOST
+    : dayType === "TRAINING"
+    ? schedule.training_carb_boost
+    : 0;
+
+/**
+ * The targets for one weekday. Training and refeed days get extra carbs
+ * and rest days give them back, so the week still averages out to the
+ * plan's calories.
+ */
+export function resolveDayTargets(
+  plan: GoalTargets & GoalSchedule,
+  weekday: number
+): GoalTargets & { day_type: GoalDayType } {
+  const day_type = dayTypeFor(plan, weekday);
+
+  let weeklyBoost = 0;
+  let restDays = 0;
+  for (let day = 0; day < 7; day++) {
+    const type = dayTypeFor(plan, day);
+    weeklyBoost += carbBoost(plan, type);
+    if (type === "REST") restDays++;
+  }
+  const restCut = restDays
+    ? Math.min(weeklyBoost / restDays, MAX_REST_CARB_CUT)
+    : 0;
+
+  const share =
+    day_type === "REST" ? 1 - restCut : 1 + carbBoost(plan, day_type);
+  const carbs_g = Math.round(plan.carbs_g * share);
+
+  return {
+    day_type,
+    calories: Math.round(plan.calories + (carbs_g - plan.carbs_g) * 4),
+    protein_g: plan.protein_g,
+    carbs_g,
+    fats_g: plan.fats_g,
+    fiber_g: plan.fiber_g,
+    sodium_mg: plan.sodium_mg,
+    sugar_g: plan.sugar_g,
+    water_ml:
+      day_type === "REST"
+        ? plan.water_ml
+        : plan.water_ml + TRAINING_EXTRA_WATER_ML,
+  };
+}
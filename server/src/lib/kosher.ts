@@ -0,0 +1,157 @@
+import { getAllergen } from "./allergens";
+
+/**
+ * Meat, dairy and non-kosher foods in English and Hebrew, matched with the
+ * allergen engine's whole-word rules. Fish and eggs are pareve. Dairy uses
+ * the milk allergen table, so plant milks and peanut butter stay pareve.
+ */
+export const MEAT_TERMS = [
+  "meat",
+  "beef",
+  "veal",
+  "lamb",
+  "mutton",
+  "chicken",
+  "turkey",
+  "duck",
+  "goose",
+  "steak",
+  "entrecote",
+  "brisket",
+  "schnitzel",
+  "hamburger",
+  "burger",
+  "cheeseburger",
+  "meatball",
+  "kebab",
+  "shawarma",
+  "sausage",
+  "hot dog",
+  "salami",
+  "pastrami",
+  "liver",
+  "cholent",
+  "בשר",
+  "בשרי",
+  "בקר",
+  "עגל",
+  "כבש",
+  "טלה",
+  "עוף",
+  "עופות",
+  "הודו",
+  "פרגית",
+  "פרגיות",
+  "ברווז",
+  "אווז",
+  "סטייק",
+  "אנטריקוט",
+  "אסאדו",
+  "חזה עוף",
+  "שוקיים",
+  "כנפיים",
+  "שניצל",
+  "המבורגר",
+  "ציזבורגר",
+  "קציצות",
+  "קבב",
+  "שווארמה",
+  "נקניק",
+  "נקניקיות",
+  "סלמי",
+  "פסטרמה",
+  "כבד",
+  "חמין",
+];
+
+// Phrases that contain a meat word but no meat
+export const MEAT_EXCLUSIONS = [
+  "coconut meat",
+  "veggie burger",
+  "vegetable burger",
+  "bean burger",
+  "soy meat",
+  "המבורגר צמחי",
+  "קציצות ירק",
+  "קציצות עדשים",
+  "קציצות דגים",
+  "בשר קוקוס",
+];
+
+// Labels saying a food has no meat, e.g. plant-based "schnitzel"
+export const MEAT_FREE_FROM = [
+  "vegan",
+  "vegetarian",
+  "plant based",
+  "meatless",
+  "parve",
+  "pareve",
+  "טבעוני",
+  "צמחוני",
+  "צמחי",
+  "פרווה",
+];
+
+export const NON_KOSHER_TERMS = [
+  "pork",
+  "bacon",
+  "ham",
+  "prosciutto",
+  "pancetta",
+  "lard",
+  "guanciale",
+  "rabbit",
+  "catfish",
+  "eel",
+  "shark",
+  "frog",
+  "חזיר",
+  "בייקון",
+  "פרושוטו",
+  "ארנב",
+  "שפמנון",
+  "צלופח",
+  "כריש",
+  "צפרדע",
+  // Every kind of shellfish is forbidden
+  ...(getAllergen("shellfish")?.terms || []),
+];
+
+export const NON_KOSHER_EXCLUSIONS = [
+  "turkey bacon",
+  "beef bacon",
+  "turkey ham",
+  "בייקון הודו",
+  "בייקון בקר",
+];
+
+// Imitation and flavoured products are usually made from kosher ingredients
+export const NON_KOSHER_FREE_FROM = [
+  "imitation",
+  "flavor",
+  "flavored",
+  "flavour",
+  "flavoured",
+  "דמוי",
+  "בטעם",
+];
+
+const milk = getAllergen("milk");
+
+export const DAIRY_TERMS = milk?.terms || [];
+export const DAIRY_EXCLUSIONS = milk?.exclusions || [];
+export const DAIRY_FREE_FROM = milk?.free_from || [];
+
+// Usual waiting times when the user has not set their own custom
+export const DEFAULT_MEAT_DAIRY_WAIT_HOURS = 6;
+export const DEFAULT_DAIRY_MEAT_WAIT_HOURS = 0.5;
+
+// Nominal times of day for planned meals that have no logged time
+export const MEAL_TIMING_HOURS: Record<string, number> = {
+  BREAKFAST: 8,
+  MORNING_SNACK: 10.5,
+  LUNCH: 13,
+  AFTERNOON_SNACK: 16.5,
+  SNACK: 16.5,
+  DINNER: 19.5,
+};
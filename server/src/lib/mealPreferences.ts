@@ -0,0 +1,160 @@
+import { MealFeedback, MealFeedbackReason } from "@prisma/client";
+import { normalizeAllergenText } from "./allergens";
+import { DishPreference, MealPreferenceProfile } from "../types/mealFeedback";
+
+// Dishes and ingredients at or past these scores count as liked or disliked
+export const LIKED_SCORE = 0.5;
+export const DISLIKED_SCORE = -0.5;
+// An ingredient is judged only after it was in this many rated meals
+export const MIN_INGREDIENT_FEEDBACK = 2;
+// A reason turns into a hint once it was given this many times
+export const MIN_REASON_COUNT = 2;
+// Average ratings past these turn into hints too
+const HEAVY_RATING = 4;
+const LOW_SATIETY_RATING = 2;
+const MIN_RATINGS_FOR_HINT = 3;
+
+type FeedbackEntry = Pick<
+  MealFeedback,
+  | "dish_name"
+  | "ingredients"
+  | "liked"
+  | "taste_rating"
+  | "satiety_rating"
+  | "heaviness_rating"
+  | "reasons"
+  | "disliked_ingredients"
+>;
+
+// Plan templates are named "<dish> - <weekday>", the weekday is not the dish
+const WEEKDAY_SUFFIX =
+  / - (sunday|monday|tuesday|wednesday|thursday|friday|saturday)$/i;
+
+export function normalizeDishName(name: string): string {
+  return normalizeAllergenText(name.trim().replace(WEEKDAY_SUFFIX, ""));
+}
+
+/**
+ * How much the user enjoyed one meal, from -1 to 1. A like or dislike is
+ * the clearest answer, otherwise the taste rating is used.
+ */
+export function feedbackScore(
+  feedback: Pick<FeedbackEntry, "liked" | "taste_rating">
+): number | null {
+  if (feedback.liked !== null && feedback.liked !== undefined) {
+    return feedback.liked ? 1 : -1;
+  }
+  if (feedback.taste_rating) return (feedback.taste_rating - 3) / 2;
+  return null;
+}
+
+const average = (values: number[]) =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Derives what the user likes from their feedback, newest first. The
+ * latest like or dislike of a dish wins over older ones, ratings without
+ * one are averaged.
+ */
+export function buildPreferenceProfile(
+  feedback: FeedbackEntry[]
+): MealPreferenceProfile {
+  const dishes = new Map<
+    string,
+    { name: string; verdict: number | null; scores: number[] }
+  >();
+  const ingredients = new Map<string, { name: string; scores: number[] }>();
+  const explicitlyDisliked = new Map<string, string>();
+  const reasons: Partial<Record<MealFeedbackReason, number>> = {};
+  const heaviness: number[] = [];
+  const satiety: number[] = [];
+
+  for (const entry of feedback) {
+    entry.reasons.forEach((reason) => {
+      reasons[reason] = (reasons[reason] || 0) + 1;
+    });
+    entry.disliked_ingredients.forEach((ingredient) => {
+      const key = normalizeAllergenText(ingredient);
+      if (key && !explicitlyDisliked.has(key)) {
+        explicitlyDisliked.set(key, ingredient.trim());
+      }
+    });
+    if (entry.heaviness_rating) heaviness.push(entry.heaviness_rating);
+    if (entry.satiety_rating) satiety.push(entry.satiety_rating);
+
+    const score = feedbackScore(entry);
+    if (score === null) continue;
+
+    const dishKey = normalizeDishName(entry.dish_name);
+    if (dishKey) {
+      const dish = dishes.get(dishKey) || {
+        name: entry.dish_name.trim().replace(WEEKDAY_SUFFIX, ""),
+        verdict: null,
+        scores: [],
+      };
+      if (dish.verdict === null && entry.liked !== null) dish.verdict = score;
+      dish.scores.push(score);
+      dishes.set(dishKey, dish);
+    }
+
+    new Set(entry.ingredients.map(normalizeAllergenText)).forEach((key) => {
+      if (!key) return;
+      const ingredient = ingredients.get(key) || {
+        name: entry.ingredients.find(
+          (name) => normalizeAllergenText(name) === key
+        )!,
+        scores: [],
+      };
+      ingredient.scores.push(score);
+      ingredients.set(key, ingredient);
+    });
+  }
+
+  const dishPreferences: DishPreference[] = [...dishes.values()].map(
+    (dish) => ({
+      name: dish.name,
+      score: Math.round((dish.verdict ?? average(dish.scores)) * 100) / 100,
+      feedback_count: dish.scores.length,
+    })
+  );
+
+  const judgedIngredients = [...ingredients.entries()].filter(
+    ([, ingredient]) => ingredient.scores.length >= MIN_INGREDIENT_FEEDBACK
+  );
+  const dislikedIngredients = new Map(explicitlyDisliked);
+  judgedIngredients.forEach(([key, ingredient]) => {
+    if (average(ingredient.scores) <= DISLIKED_SCORE) {
+      dislikedIngredients.set(key, ingredient.name);
+    }
+  });
+
+  const countOf = (reason: MealFeedbackReason) => reasons[reason] || 0;
+  const averageOf = (ratings: number[]) =>
+    ratings.length >= MIN_RATINGS_FOR_HINT ? average(ratings) : null;
+
+  return {
+    liked_dishes: dishPreferences
+      .filter((dish) => dish.score >= LIKED_SCORE)
+      .sort((a, b) => b.score - a.score),
+    disliked_dishes: dishPreferences
+      .filter((dish) => dish.score <= DISLIKED_SCORE)
+      .sort((a, b) => a.score - b.score),
+    liked_ingredients: judgedIngredients
+      .filter(
+        ([key, ingredient]) =>
+          !dislikedIngredients.has(key) &&
+          average(ingredient.scores) >= LIKED_SCORE
+      )
+      .map(([, ingredient]) => ingredient.name),
+    disliked_ingredients: [...dislikedIngredients.values()],
+    reasons,
+    prefers_lighter_meals:
+      countOf("TOO_HEAVY") >= MIN_REASON_COUNT ||
+      (averageOf(heaviness) ?? 0) >= HEAVY_RATING,
+    prefers_filling_meals:
+      countOf("NOT_FILLING") >= MIN_REASON_COUNT ||
+      (averageOf(satiety) ?? Infinity) <= LOW_SATIETY_RATING,
+    prefers_quick_meals: countOf("PREP_TIME") >= MIN_REASON_COUNT,
+    feedback_count: feedback.length,
+  };
+}
@@ -0,0 +1,92 @@
+import {
+  MealRevisionChanges,
+  MealSnapshot,
+  MealSnapshotItem,
+} from "../types/mealRevisions";
+import {
+  DISH_NUTRIENTS,
+  PLATE_JSON_NUTRIENTS,
+  PLATE_NUTRIENTS,
+} from "./dishes";
+
+// Meal columns a revision records, everything a user or the AI can change
+export const TRACKED_MEAL_FIELDS = [
+  "meal_name",
+  ...DISH_NUTRIENTS,
+  ...PLATE_NUTRIENTS,
+  ...PLATE_JSON_NUTRIENTS,
+  "allergens_json",
+  "glycemic_index",
+  "insulin_index",
+  "food_category",
+  "processing_level",
+  "cooking_method",
+  "health_risk_notes",
+  "confidence",
+  "ingredients",
+  "detected_dishes",
+  "consumed_ratio",
+  "plate_waste",
+  "deleted_at",
+] as const;
+
+// Tracked fields stored as JSON, a null there is a database null
+export const JSON_MEAL_FIELDS: readonly string[] = [
+  ...PLATE_JSON_NUTRIENTS,
+  "allergens_json",
+  "ingredients",
+  "detected_dishes",
+  "plate_waste",
+];
+
+const ITEM_FIELDS = [
+  "item_id",
+  "dish_id",
+  "name",
+  "position",
+  "portion_g",
+  "servings",
+  ...DISH_NUTRIENTS,
+  "ingredients",
+] as const;
+
+// Dates become strings, the way they are stored in a revision
+const toJson = (value: unknown) =>
+  value === undefined ? null : JSON.parse(JSON.stringify(value));
+
+export function snapshotMeal(
+  meal: Record<string, any>,
+  items: Array<Record<string, any>>
+): MealSnapshot {
+  return {
+    fields: Object.fromEntries(
+      TRACKED_MEAL_FIELDS.map((field) => [field, toJson(meal[field])])
+    ),
+    items: [...items]
+      .sort((a, b) => a.position - b.position || a.item_id - b.item_id)
+      .map(
+        (item) =>
+          Object.fromEntries(
+            ITEM_FIELDS.map((field) => [field, toJson(item[field])])
+          ) as MealSnapshotItem
+      ),
+  };
+}
+
+export function diffSnapshots(
+  before: MealSnapshot,
+  after: MealSnapshot
+): MealRevisionChanges {
+  const changes: MealRevisionChanges = {};
+  for (const field of TRACKED_MEAL_FIELDS) {
+    const from = before.fields[field] ?? null;
+    const to = after.fields[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  if (JSON.stringify(before.items) !== JSON.stringify(after.items)) {
+    changes.items = { from: before.items, to: after.items };
+  }
+  return changes;
+}
@@ -0,0 +1,207 @@
+import fs from "fs";
+import readline from "readline";
+import zlib from "zlib";
+import axios from "axios";
+import { readCsvRecords } from "../utils/csv";
+import { OpenFoodFactsProduct } from "../types/foodScanner";
+
+const OPENFOODFACTS_API_URL = "https://world.openfoodfacts.org/api/v0/product";
+
+// Tags arrive as a list in JSONL dumps and as comma-separated text in CSV
+function toTagList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === "string" && value.trim()) {
+    return value
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+  }
+  return [];
+}
+
+// "en:gluten-free" -> "gluten-free"
+function stripLanguagePrefix(tag: string) {
+  return tag.replace(/^[a-z]{2,3}:/, "");
+}
+
+function positiveNumber(value: unknown): number | undefined {
+  const parsed = Number(value);
+  return value !== "" && Number.isFinite(parsed) && parsed >= 0
+    ? parsed
+    : undefined;
+}
+
+function scaled(value: number | undefined, factor: number) {
+  return value === undefined
+    ? undefined
+    : Math.round(value * factor * 100) / 100;
+}
+
+function firstText(...values: unknown[]): string | undefined {
+  for (const value of values) {
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return undefined;
+}
+
+// Splits on commas outside parentheses: "sugar, cocoa (cocoa mass, butter)"
+function splitIngredients(text: string | undefined) {
+  if (!text) return [];
+  return text
+    .split(/,(?![^(]*\))/)
+    .map((ingredient) => ingredient.trim().replace(/\.$/, ""))
+    .filter(Boolean);
+}
+
+/**
+ * Nutri-Score points run from -15 (best) to 40 (worst); the app shows health
+ * scores as 0-100 where higher is better.
+ */
+export function nutriScoreToHealthScore(score: unknown): number | undefined {
+  const points = Number(score);
+  if (score === "" || score === null || !Number.isFinite(points)) {
+    return undefined;
+  }
+  const health = Math.round(((40 - points) / 55) * 100);
+  return Math.min(100, Math.max(0, health));
+}
+
+/**
+ * Maps an OpenFoodFacts product (API response or dump record) onto the
+ * scanner's product shape. OpenFoodFacts stores every *_100g nutrient in
+ * grams, so sodium, cholesterol and minerals are converted to mg and
+ * vitamin D to mcg. Returns null for records without a barcode, a name or
+ * any energy value.
+ */
+export function mapOpenFoodFactsProduct(
+  product: any,
+  barcode?: string
+): OpenFoodFactsProduct | null {
+  const code = firstText(barcode, product?.code, product?._id);
+  const name = firstText(
+    product?.product_name,
+    product?.product_name_he,
+    product?.product_name_en,
+    product?.generic_name
+  );
+  if (!code || !name) return null;
+
+  const nutriments = product.nutriments || {};
+  const nutrient = (key: string) => positiveNumber(nutriments[`${key}_100g`]);
+
+  const energyKj = nutrient("energy");
+  const calories =
+    nutrient("energy-kcal") ??
+    (energyKj !== undefined ? Math.round(energyKj / 4.184) : undefined);
+  if (calories === undefined) return null;
+
+  // Salt is 40% sodium by weight
+  const salt = nutrient("salt");
+  const sodiumG =
+    nutrient("sodium") ?? (salt !== undefined ? salt * 0.4 : undefined);
+  const grade = firstText(
+    product.nutriscore_grade,
+    product.nutrition_grades
+  )?.toLowerCase();
+  const lastModified = Number(product.last_modified_t);
+
+  return {
+    barcode: code,
+    name,
+    brand: firstText(product.brands)?.split(",")[0].trim(),
+    category:
+      firstText(product.categories)?.split(",")[0].trim() ||
+      firstText(product.main_category_en) ||
+      "Unknown",
+    nutrition_per_100g: {
+      calories: Math.round(calories),
+      protein: nutrient("proteins") || 0,
+      carbs: nutrient("carbohydrates") || 0,
+      fat: nutrient("fat") || 0,
+      fiber: nutrient("fiber"),
+      sugar: nutrient("sugars"),
+      sodium: scaled(sodiumG, 1000),
+      saturated_fat: nutrient("saturated-fat"),
+      trans_fat: nutrient("trans-fat"),
+      cholesterol: scaled(nutrient("cholesterol"), 1000),
+      potassium: scaled(nutrient("potassium"), 1000),
+      calcium: scaled(nutrient("calcium"), 1000),
+      iron: scaled(nutrient("iron"), 1000),
+      vitamin_c: scaled(nutrient("vitamin-c"), 1000),
+      vitamin_d: scaled(nutrient("vitamin-d"), 1000000),
+    },
+    ingredients: splitIngredients(
+      firstText(
+        product.ingredients_text_he,
+        product.ingredients_text_en,
+        product.ingredients_text
+      )
+    ),
+    allergens: toTagList(product.allergens_tags).map(stripLanguagePrefix),
+    labels: toTagList(product.labels_tags).map(stripLanguagePrefix),
+    health_score: nutriScoreToHealthScore(product.nutriscore_score),
+    nutriscore_grade: grade && /^[a-e]$/.test(grade) ? grade : undefined,
+    image_url: firstText(product.image_url, product.image_front_url),
+    serving_size: firstText(product.serving_size),
+    countries: toTagList(product.countries_tags),
+    last_modified:
+      Number.isFinite(lastModified) && lastModified > 0
+        ? new Date(lastModified * 1000)
+        : undefined,
+  };
+}
+
+export function isLiveLookupEnabled() {
+  return process.env.OPENFOODFACTS_LIVE_LOOKUP !== "false";
+}
+
+export async function fetchOpenFoodFactsProduct(barcode: string) {
+  const response = await axios.get(
+    `${OPENFOODFACTS_API_URL}/${encodeURIComponent(barcode)}.json`,
+    { timeout: 5000 }
+  );
+
+  if (response.data.status !== 1 || !response.data.product) return null;
+  return mapOpenFoodFactsProduct(response.data.product, barcode);
+}
+
+/**
+ * Streams the OpenFoodFacts JSONL export (one product per line), gzipped or
+ * not. Malformed lines are skipped, the full dump has a few.
+ */
+export async function* readOpenFoodFactsJsonl(
+  filePath: string
+): AsyncGenerator<any> {
+  const file = fs.createReadStream(filePath);
+  const lines = readline.createInterface({
+    input: filePath.endsWith(".gz") ? file.pipe(zlib.createGunzip()) : file,
+    crlfDelay: Infinity,
+  });
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    try {
+      yield JSON.parse(line);
+    } catch {
+      continue;
+    }
+  }
+}
+
+/**
+ * Streams the OpenFoodFacts CSV export, which is tab separated with the
+ * *_100g nutrients as flat columns. Rows are reshaped like JSONL records.
+ */
+export async function* readOpenFoodFactsCsv(
+  filePath: string
+): AsyncGenerator<any> {
+  for await (const row of readCsvRecords(filePath, { delimiter: "\t" })) {
+    yield {
+      ...row,
+      countries_tags: toTagList(row.countries_tags),
+      allergens_tags: toTagList(row.allergens_tags || row.allergens),
+      labels_tags: toTagList(row.labels_tags),
+      nutriments: row,
+    };
+  }
+}
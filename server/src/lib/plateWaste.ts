@@ -0,0 +1,159 @@
+import { PlateWasteResult } from "../types/openai";
+import { Leftover, ServedMeal } from "../types/nutrition";
+import { normalizeAllergenText } from "./allergens";
+import {
+  DISH_NUTRIENTS,
+  INGREDIENT_NUTRIENTS,
+  PLATE_JSON_NUTRIENTS,
+  PLATE_NUTRIENTS,
+  scaleIngredient,
+  scaleNumbers,
+} from "./dishes";
+
+const round = (value: number, digits = 1) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+const clampFraction = (value: unknown): number | null => {
+  const fraction = Number(value);
+  if (value === null || value === undefined || !Number.isFinite(fraction)) {
+    return null;
+  }
+  return Math.min(1, Math.max(0, fraction));
+};
+
+/**
+ * Keeps the leftovers of an AI response that are about the meal's own
+ * ingredients. Percentages are read as fractions.
+ */
+export function normalizePlateWaste(
+  raw: any,
+  ingredientNames: string[]
+): PlateWasteResult {
+  const known = new Set(ingredientNames.map(normalizeAllergenText));
+  const asFraction = (value: unknown) => {
+    const number = Number(value);
+    return clampFraction(number > 1 ? number / 100 : value);
+  };
+
+  const leftovers: Leftover[] = [];
+  for (const entry of Array.isArray(raw?.leftovers) ? raw.leftovers : []) {
+    const name = typeof entry?.name === "string" ? entry.name.trim() : "";
+    const leftover_fraction = asFraction(entry?.leftover_fraction);
+    if (!known.has(normalizeAllergenText(name)) || leftover_fraction === null) {
+      continue;
+    }
+    leftovers.push({ name, leftover_fraction: round(leftover_fraction, 2) });
+  }
+
+  const plate = asFraction(raw?.plate_leftover_fraction);
+  return {
+    leftovers,
+    plate_leftover_fraction: plate === null ? null : round(plate, 2),
+  };
+}
+
+// The meal's nutrients, ingredients and items before anything was left
+export function snapshotServedMeal(
+  meal: Record<string, any>,
+  items: Array<Record<string, any>>
+): ServedMeal {
+  const fields: Record<string, unknown> = {};
+  for (const field of [
+    ...DISH_NUTRIENTS,
+    ...PLATE_NUTRIENTS,
+    ...PLATE_JSON_NUTRIENTS,
+  ]) {
+    if (meal[field] !== undefined && meal[field] !== null) {
+      fields[field] = meal[field];
+    }
+  }
+
+  return {
+    fields,
+    ingredients: Array.isArray(meal.ingredients) ? meal.ingredients : [],
+    items: items.map((item) => ({
+      item_id: item.item_id,
+      portion_g: item.portion_g ?? null,
+      nutrients: Object.fromEntries(
+        DISH_NUTRIENTS.filter(
+          (nutrient) => typeof item[nutrient] === "number"
+        ).map((nutrient) => [nutrient, item[nutrient]])
+      ),
+      ingredients: Array.isArray(item.ingredients) ? item.ingredients : [],
+    })),
+  };
+}
+
+/**
+ * Scales what was served down to what was eaten. Every ingredient keeps
+ * the part the estimate says wasn't left over, and the meal's nutrients
+ * follow their ingredients. Nutrients only known for the whole meal use
+ * the eaten share of the calories, the consumed ratio.
+ */
+export function applyPlateWaste(served: ServedMeal, waste: PlateWasteResult) {
+  const leftoverOf = new Map(
+    waste.leftovers.map((leftover) => [
+      normalizeAllergenText(leftover.name),
+      leftover.leftover_fraction,
+    ])
+  );
+  const eatenShare = (ingredient: any) =>
+    1 -
+    (leftoverOf.get(normalizeAllergenText(String(ingredient?.name || ""))) ??
+      waste.plate_leftover_fraction ??
+      0);
+
+  // The eaten part of a nutrient over a set of ingredients, null if unknown
+  const eatenRatio = (ingredients: any[], field: string) => {
+    const served = ingredients.reduce(
+      (sum, ingredient) => sum + (Number(ingredient?.[field]) || 0),
+      0
+    );
+    if (!(served > 0)) return null;
+    const eaten = ingredients.reduce(
+      (sum, ingredient) =>
+        sum + (Number(ingredient?.[field]) || 0) * eatenShare(ingredient),
+      0
+    );
+    return eaten / served;
+  };
+
+  const plateShare = 1 - (waste.plate_leftover_fraction ?? 0);
+  const consumed_ratio = round(
+    eatenRatio(served.ingredients, INGREDIENT_NUTRIENTS.calories) ?? plateShare,
+    2
+  );
+
+  const fields: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(served.fields)) {
+    const ingredientField =
+      INGREDIENT_NUTRIENTS[field as keyof typeof INGREDIENT_NUTRIENTS];
+    const ratio = ingredientField
+      ? eatenRatio(served.ingredients, ingredientField) ?? consumed_ratio
+      : consumed_ratio;
+    fields[field] = scaleNumbers(value, ratio);
+  }
+
+  const items = served.items.map((item) => {
+    const ratio =
+      eatenRatio(item.ingredients, INGREDIENT_NUTRIENTS.calories) ??
+      consumed_ratio;
+    return {
+      item_id: item.item_id,
+      portion_g: item.portion_g === null ? null : round(item.portion_g * ratio),
+      ...(scaleNumbers(item.nutrients, ratio) as Record<string, number>),
+      ingredients: item.ingredients.map((ingredient) =>
+        scaleIngredient(ingredient, eatenShare(ingredient))
+      ),
+    };
+  });
+
+  return {
+    consumed_ratio,
+    fields,
+    ingredients: served.ingredients.map((ingredient) =>
+      scaleIngredient(ingredient, eatenShare(ingredient))
+    ),
+    items,
+  };
+}
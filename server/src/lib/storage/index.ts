@@ -0,0 +1,67 @@
+import path from "path";
+import { BlobStore } from "../../types/storage";
+import { LocalBlobStore } from "./localStore";
+import { S3BlobStore } from "./s3Store";
+
+// New backends register a factory here and become selectable via STORAGE_DRIVER
+const storeFactories: Record<string, () => BlobStore> = {
+  local: () => {
+    const baseUrl =
+      process.env.API_BASE_URL?.replace(/\/api\/?$/, "") ||
+      `http://localhost:${process.env.PORT || 5000}`;
+    const secret = process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET;
+    if (!secret) {
+      throw new Error(
+        "STORAGE_SIGNING_SECRET (or JWT_SECRET) is required for local storage"
+      );
+    }
+
+    return new LocalBlobStore(
+      path.resolve(process.env.STORAGE_LOCAL_DIR || "storage"),
+      baseUrl,
+      secret
+    );
+  },
+  s3: () => {
+    if (!process.env.S3_BUCKET) {
+      throw new Error("S3_BUCKET is required when STORAGE_DRIVER=s3");
+    }
+
+    return new S3BlobStore(process.env.S3_BUCKET, {
+      region: process.env.S3_REGION || "us-east-1",
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      credentials:
+        process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+          ? {
+              accessKeyId: process.env.S3_ACCESS_KEY_ID,
+              secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+            }
+          : undefined,
+    });
+  },
+};
+
+let cachedStore: BlobStore | undefined;
+
+/**
+ * Returns the configured blob store. Defaults to the local filesystem so a
+ * development server works without any cloud setup.
+ */
+export function getBlobStore(): BlobStore {
+  if (cachedStore) return cachedStore;
+
+  const driver = (process.env.STORAGE_DRIVER || "local").toLowerCase();
+  const factory = storeFactories[driver];
+
+  if (!factory) {
+    throw new Error(
+      `Unknown STORAGE_DRIVER "${driver}". Expected one of: ${Object.keys(
+        storeFactories
+      ).join(", ")}`
+    );
+  }
+
+  cachedStore = factory();
+  return cachedStore;
+}
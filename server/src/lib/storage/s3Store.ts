@@ -0,0 +1,81 @@
+import {
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+  S3ClientConfig,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { BlobStore } from "../../types/storage";
+
+// S3 and compatible services (MinIO, Cloudflare R2, Backblaze B2)
+export class S3BlobStore implements BlobStore {
+  readonly name = "s3";
+  private client: S3Client;
+
+  constructor(private bucket: string, config: S3ClientConfig) {
+    this.client = new S3Client(config);
+  }
+
+  async put(key: string, body: Buffer, contentType: string) {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+      })
+    );
+  }
+
+  async get(key: string) {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+      if (!response.Body) return null;
+      return Buffer.from(await response.Body.transformToByteArray());
+    } catch (error: any) {
+      if (error.name === "NoSuchKey") return null;
+      throw error;
+    }
+  }
+
+  async delete(keys: string[]) {
+    if (keys.length === 0) return;
+    await this.client.send(
+      new DeleteObjectsCommand({
+        Bucket: this.bucket,
+        Delete: { Objects: keys.map((Key) => ({ Key })), Quiet: true },
+      })
+    );
+  }
+
+  async deletePrefix(prefix: string) {
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        })
+      );
+      await this.delete(
+        (page.Contents || [])
+          .map((object) => object.Key)
+          .filter((key): key is string => !!key)
+      );
+      continuationToken = page.NextContinuationToken;
+    } while (continuationToken);
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number) {
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      { expiresIn: expiresInSeconds }
+    );
+  }
+}
@@ -0,0 +1,182 @@
+import { MainGoal, PhysicalActivityLevel } from "@prisma/client";
+
+// Energy stored in a kilo of body weight, mostly fat with some water
+export const KCAL_PER_KG = 7700;
+
+// Intake and weight change are compared over this many days
+export const ESTIMATE_WINDOW_DAYS = 28;
+
+// Fewer logged days than this and the intake average can't be trusted
+export const MIN_LOGGED_DAYS = 14;
+export const MIN_TREND_SPAN_DAYS = 14;
+export const MIN_DEVICE_DAYS = 7;
+
+/**
+ * An intake based estimate this far from the formula usually means meals
+ * went unlogged rather than an unusual metabolism.
+ */
+export const PLAUSIBLE_TDEE_RATIO = { min: 0.6, max: 1.6 };
+
+// Goals move by at most this much a week so a noisy week can't swing them
+export const MAX_WEEKLY_CHANGE_KCAL = 200;
+// Smaller changes aren't worth asking the user about
+export const MIN_CHANGE_KCAL = 50;
+
+export const CALORIE_LIMITS = { min: 1200, max: 4000 };
+
+// Fastest pace a goal date can ask for, in kg per week
+export const WEEKLY_PACE_LIMITS = { loss: -1, gain: 0.5 };
+
+const ACTIVITY_MULTIPLIERS: Record<PhysicalActivityLevel, number> = {
+  NONE: 1.2,
+  LIGHT: 1.375,
+  MODERATE: 1.55,
+  HIGH: 1.725,
+};
+
+// Default weekly pace for goals without a target date, in kg per week
+const GOAL_PACE: Partial<Record<MainGoal, number>> = {
+  WEIGHT_LOSS: -0.5,
+  WEIGHT_GAIN: 0.25,
+};
+
+const MALE_VALUES = ["male", "m", "זכר"];
+
+const round = (value: number, step = 1) => Math.round(value / step) * step;
+
+export interface EnergyProfile {
+  weight_kg: number;
+  height_cm: number;
+  age: number;
+  gender: string;
+  physical_activity_level: PhysicalActivityLevel;
+}
+
+// Mifflin-St Jeor BMR times the questionnaire activity level
+export function formulaTdee(profile: EnergyProfile): number {
+  const base =
+    10 * profile.weight_kg + 6.25 * profile.height_cm - 5 * profile.age;
+  const male = MALE_VALUES.includes(profile.gender.trim().toLowerCase());
+  const bmr = male ? base + 5 : base - 161;
+  return round(bmr * ACTIVITY_MULTIPLIERS[profile.physical_activity_level]);
+}
+
+/**
+ * Expenditure from the energy balance: whatever was eaten and not stored
+ * as weight was burned.
+ */
+export function intakeTdee(
+  average_intake: number,
+  trend_change_kg: number,
+  span_days: number
+): number {
+  return round(average_intake - (trend_change_kg * KCAL_PER_KG) / span_days);
+}
+
+export interface TdeeInputs {
+  formula_tdee: number;
+  intake_tdee: number | null;
+  logged_days: number;
+  device_tdee: number | null;
+  device_days: number;
+}
+
+/**
+ * Weighted blend of the three estimates. The formula is the prior, device
+ * burn counts the same once there is a week of it, and the measured
+ * estimate outweighs both as logging fills the window.
+ */
+export function blendTdee(inputs: TdeeInputs): {
+  estimated_tdee: number;
+  confidence: number;
+} {
+  let total = inputs.formula_tdee;
+  let weight = 1;
+
+  if (inputs.device_tdee !== null && inputs.device_days >= MIN_DEVICE_DAYS) {
+    total += inputs.device_tdee;
+    weight += 1;
+  }
+
+  let confidence = 0;
+  if (inputs.intake_tdee !== null) {
+    confidence = Math.min(1, inputs.logged_days / ESTIMATE_WINDOW_DAYS);
+    total += inputs.intake_tdee * 4 * confidence;
+    weight += 4 * confidence;
+  }
+
+  return {
+    estimated_tdee: round(total / weight),
+    confidence: Math.round(confidence * 100) / 100,
+  };
+}
+
+export function isPlausibleTdee(intake: number, formula: number): boolean {
+  return (
+    intake >= formula * PLAUSIBLE_TDEE_RATIO.min &&
+    intake <= formula * PLAUSIBLE_TDEE_RATIO.max
+  );
+}
+
+/**
+ * Weekly pace towards the goal: what the goal date needs when there is
+ * one, otherwise the default for the main goal.
+ */
+export function targetWeeklyPace(
+  main_goal: MainGoal | null,
+  required_weekly_rate_kg: number | null
+): { pace: number; from_goal_date: boolean } {
+  if (required_weekly_rate_kg !== null) {
+    return {
+      pace: Math.min(
+        WEEKLY_PACE_LIMITS.gain,
+        Math.max(WEEKLY_PACE_LIMITS.loss, required_weekly_rate_kg)
+      ),
+      from_goal_date: true,
+    };
+  }
+  return {
+    pace: (main_goal && GOAL_PACE[main_goal]) || 0,
+    from_goal_date: false,
+  };
+}
+
+const clampCalories = (calories: number) =>
+  round(
+    Math.min(CALORIE_LIMITS.max, Math.max(CALORIE_LIMITS.min, calories)),
+    10
+  );
+
+// Daily calories that produce the weekly pace
+export function idealCalories(
+  estimated_tdee: number,
+  weekly_pace_kg: number
+): number {
+  return clampCalories(estimated_tdee + (weekly_pace_kg * KCAL_PER_KG) / 7);
+}
+
+// The ideal calories, moved towards from the current goal by a weekly step
+export function targetCalories(
+  estimated_tdee: number,
+  weekly_pace_kg: number,
+  current_calories: number
+): number {
+  const ideal = estimated_tdee + (weekly_pace_kg * KCAL_PER_KG) / 7;
+  return clampCalories(
+    Math.min(
+      current_calories + MAX_WEEKLY_CHANGE_KCAL,
+      Math.max(current_calories - MAX_WEEKLY_CHANGE_KCAL, ideal)
+    )
+  );
+}
+
+// Protein by body weight as in the daily goals, a quarter fat, carbs the rest
+export function macrosFor(calories: number, weight_kg: number) {
+  const protein_g = round(weight_kg * 1.6);
+  const fats_g = round((calories * 0.25) / 9);
+  const carbs_g = Math.max(
+    0,
+    round((calories - protein_g * 4 - fats_g * 9) / 4)
+  );
+  return { protein_g, carbs_g, fats_g };
+}
@@ -0,0 +1,136 @@
+import { WeightProjection, WeightTrendPoint } from "../types/weight";
+import { daysBetween, shiftDate } from "../utils/timezone";
+
+/**
+ * Share of each new day's weight that goes into the trend line, the same
+ * 10% exponential smoothing as The Hacker's Diet. Water and food swings of
+ * a kilo or two barely move it, a steady change shows within a week or two.
+ */
+export const TREND_SMOOTHING = 0.1;
+
+// Readings this close on the same day are the same weigh-in seen twice
+export const DUPLICATE_TOLERANCE_KG = 0.1;
+
+// The weekly rate is fitted over this many days of the trend
+export const RATE_WINDOW_DAYS = 28;
+export const MIN_RATE_SPAN_DAYS = 7;
+
+export const TARGET_REACHED_TOLERANCE_KG = 0.5;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Smooths daily weights into a trend. Days without a weigh-in still decay
+ * the trend towards the next reading, as if the weight had been logged
+ * every day in between.
+ */
+export function smoothWeights(
+  daily: Array<{ date: string; weight_kg: number }>
+): WeightTrendPoint[] {
+  const points: WeightTrendPoint[] = [];
+  let previous: WeightTrendPoint | undefined;
+
+  for (const { date, weight_kg } of daily) {
+    let trend_kg = weight_kg;
+    if (previous) {
+      const gap = Math.max(1, daysBetween(previous.date, date));
+      const weight = 1 - Math.pow(1 - TREND_SMOOTHING, gap);
+      trend_kg = previous.trend_kg + weight * (weight_kg - previous.trend_kg);
+    }
+    previous = { date, weight_kg: round2(weight_kg), trend_kg };
+    points.push(previous);
+  }
+
+  return points.map((point) => ({
+    ...point,
+    trend_kg: round2(point.trend_kg),
+  }));
+}
+
+/**
+ * Least squares slope of the trend over the last weeks, in kg per week.
+ * Null until the readings span at least a week.
+ */
+export function weeklyRate(points: WeightTrendPoint[]): number | null {
+  if (points.length < 2) return null;
+
+  const last = points[points.length - 1].date;
+  const recent = points.filter(
+    (point) => daysBetween(point.date, last) <= RATE_WINDOW_DAYS
+  );
+  if (daysBetween(recent[0].date, last) < MIN_RATE_SPAN_DAYS) return null;
+
+  const xs = recent.map((point) => daysBetween(recent[0].date, point.date));
+  const ys = recent.map((point) => point.trend_kg);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+
+  let numerator = 0;
+  let denominator = 0;
+  xs.forEach((x, index) => {
+    numerator += (x - meanX) * (ys[index] - meanY);
+    denominator += (x - meanX) ** 2;
+  });
+  if (denominator === 0) return null;
+
+  return round2((numerator / denominator) * 7);
+}
+
+/**
+ * When the trend reaches the target at the current rate, compared with the
+ * date the user gave themselves in the questionnaire.
+ */
+export function projectGoal(options: {
+  trend_kg: number | null;
+  weekly_rate_kg: number | null;
+  target_weight_kg: number | null;
+  goal_date: string | null;
+  today: string;
+}): WeightProjection {
+  const { trend_kg, weekly_rate_kg, target_weight_kg, goal_date, today } =
+    options;
+  const projection: WeightProjection = {
+    target_weight_kg,
+    goal_date,
+    projected_date: null,
+    remaining_kg: null,
+    required_weekly_rate_kg: null,
+    status: "no_target",
+  };
+
+  if (!target_weight_kg) return projection;
+  if (trend_kg === null) return { ...projection, status: "not_enough_data" };
+
+  const remaining_kg = round2(target_weight_kg - trend_kg);
+  projection.remaining_kg = remaining_kg;
+
+  if (Math.abs(remaining_kg) <= TARGET_REACHED_TOLERANCE_KG) {
+    return { ...projection, status: "reached" };
+  }
+
+  if (goal_date) {
+    const daysLeft = daysBetween(today, goal_date);
+    projection.required_weekly_rate_kg =
+      daysLeft > 0 ? round2((remaining_kg / daysLeft) * 7) : null;
+  }
+
+  if (weekly_rate_kg === null) {
+    return { ...projection, status: "not_enough_data" };
+  }
+  // Flat or heading the other way never gets there
+  if (
+    weekly_rate_kg === 0 ||
+    Math.sign(weekly_rate_kg) !== Math.sign(remaining_kg)
+  ) {
+    return { ...projection, status: "moving_away" };
+  }
+
+  const daysToGoal = Math.ceil((remaining_kg / weekly_rate_kg) * 7);
+  projection.projected_date = shiftDate(today, daysToGoal);
+  projection.status =
+    !goal_date || projection.projected_date <= goal_date
+      ? "on_track"
+      : "behind";
+
+  return projection;
+}
@@ -0,0 +1,66 @@
+import { Response, NextFunction } from "express";
+import { AIFeature } from "@prisma/client";
+import { AuthRequest } from "./auth";
+import { AIQuotaService } from "../services/aiQuota";
+
+const FEATURE_LABELS: Record<AIFeature, string> = {
+  MEAL_ANALYSIS: "meal analysis",
+  CHAT: "chat",
+  MENU_GENERATION: "menu generation",
+  PRODUCT_SCAN: "product scan",
+  REPLACEMENT_MEAL: "meal replacement",
+};
+
+/**
+ * Charges one request of the feature against the user's daily quota, or
+ * answers 429 with the quota state. Must run after authenticateToken.
+ *
+ * The request is refunded if the handler responds with an error, so failed
+ * AI calls don't eat into the quota. The reservation is exposed on
+ * res.locals.aiQuota for handlers that finish the work in the background.
+ */
+export function requireAIQuota(feature: AIFeature) {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const user_id = req.user.user_id;
+      const { allowed, quota } = await AIQuotaService.consume(user_id, feature);
+
+      if (!allowed) {
+        const exhausted =
+          quota.feature_quota.remaining === 0
+            ? quota.feature_quota
+            : quota.total_quota;
+        const label =
+          exhausted === quota.feature_quota
+            ? FEATURE_LABELS[feature]
+            : "AI request";
+
+        console.log(
+          `🚫 AI quota exceeded for user ${user_id} (${feature}, ${exhausted.used}/${exhausted.limit})`
+        );
+
+        return res.status(429).json({
+          success: false,
+          error: `Daily ${label} limit reached (${exhausted.used}/${exhausted.limit}). Resets at ${quota.reset_at}.`,
+          code: "AI_QUOTA_EXCEEDED",
+          quota,
+        });
+      }
+
+      res.locals.aiQuota = quota;
+      res.on("finish", () => {
+        if (res.statusCode >= 400) {
+          AIQuotaService.refund(user_id, feature, quota.usage_date);
+        }
+      });
+
+      next();
+    } catch (error) {
+      console.error("💥 AI quota check failed:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to check AI usage quota",
+      });
+    }
+  };
+}
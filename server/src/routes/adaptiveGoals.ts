@@ -0,0 +1,161 @@
+import { Router, Response } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { AdaptiveGoalsService } from "../services/adaptiveGoals";
+import {
+  adaptiveGoalsSettingsSchema,
+  goalAdjustmentsQuerySchema,
+} from "../types/adaptiveGoals";
+
+const router = Router();
+
+function sendAdaptiveGoalsError(
+  res: Response,
+  error: unknown,
+  fallback: string
+) {
+  const message = error instanceof Error ? error.message : fallback;
+
+  if (message.endsWith("not found")) {
+    return res.status(404).json({ success: false, error: message });
+  }
+  if (message.endsWith("no longer pending")) {
+    return res.status(409).json({ success: false, error: message });
+  }
+
+  res.status(500).json({ success: false, error: fallback });
+}
+
+function parseAdjustmentId(req: AuthRequest, res: Response) {
+  const adjustmentId = parseInt(req.params.adjustmentId, 10);
+  if (isNaN(adjustmentId)) {
+    res.status(400).json({ success: false, error: "Invalid adjustment ID" });
+    return null;
+  }
+  return adjustmentId;
+}
+
+// GET /api/adaptive-goals - Expenditure estimate, mode and pending suggestion
+router.get("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const status = await AdaptiveGoalsService.getStatus(req.user.user_id);
+    res.json({ success: true, data: status });
+  } catch (error) {
+    console.error("💥 Get adaptive goals error:", error);
+    sendAdaptiveGoalsError(res, error, "Failed to fetch adaptive goals");
+  }
+});
+
+// PUT /api/adaptive-goals/settings - Off, recommend only or apply automatically
+router.put(
+  "/settings",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = adaptiveGoalsSettingsSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid adaptive goals settings",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const settings = await AdaptiveGoalsService.updateMode(
+        req.user.user_id,
+        validationResult.data.mode
+      );
+      res.json({ success: true, data: settings });
+    } catch (error) {
+      console.error("💥 Update adaptive goals settings error:", error);
+      sendAdaptiveGoalsError(res, error, "Failed to update settings");
+    }
+  }
+);
+
+// GET /api/adaptive-goals/adjustments - Past weekly suggestions, newest first
+router.get(
+  "/adjustments",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = goalAdjustmentsQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid adjustment parameters",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const adjustments = await AdaptiveGoalsService.getAdjustments(
+        req.user.user_id,
+        validationResult.data
+      );
+      res.json({ success: true, data: adjustments });
+    } catch (error) {
+      console.error("💥 Get goal adjustments error:", error);
+      sendAdaptiveGoalsError(res, error, "Failed to fetch goal adjustments");
+    }
+  }
+);
+
+// POST /api/adaptive-goals/adjustments - Check this week's goals now
+router.post(
+  "/adjustments",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const adjustment = await AdaptiveGoalsService.runWeeklyAdjustment(
+        req.user.user_id
+      );
+      res.json({ success: true, data: adjustment });
+    } catch (error) {
+      console.error("💥 Run goal adjustment error:", error);
+      sendAdaptiveGoalsError(res, error, "Failed to check goals");
+    }
+  }
+);
+
+// POST /api/adaptive-goals/adjustments/:adjustmentId/apply
+router.post(
+  "/adjustments/:adjustmentId/apply",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    const adjustmentId = parseAdjustmentId(req, res);
+    if (adjustmentId === null) return;
+
+    try {
+      const adjustment = await AdaptiveGoalsService.applyAdjustment(
+        req.user.user_id,
+        adjustmentId
+      );
+      res.json({ success: true, data: adjustment });
+    } catch (error) {
+      console.error("💥 Apply goal adjustment error:", error);
+      sendAdaptiveGoalsError(res, error, "Failed to apply goal adjustment");
+    }
+  }
+);
+
+// POST /api/adaptive-goals/adjustments/:adjustmentId/dismiss
+router.post(
+  "/adjustments/:adjustmentId/dismiss",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    const adjustmentId = parseAdjustmentId(req, res);
+    if (adjustmentId === null) return;
+
+    try {
+      const adjustment = await AdaptiveGoalsService.dismissAdjustment(
+        req.user.user_id,
+        adjustmentId
+      );
+      res.json({ success: true, data: adjustment });
+    } catch (error) {
+      console.error("💥 Dismiss goal adjustment error:", error);
+      sendAdaptiveGoalsError(res, error, "Failed to dismiss goal adjustment");
+    }
+  }
+);
+
+export { router as adaptiveGoalsRoutes };
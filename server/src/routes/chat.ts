@@ -1,5 +1,6 @@
 import { Router, Request, Response } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { requireAIQuota } from "../middleware/aiQuota";
 import { ChatService } from "../services/chat";
 import { z } from "zod";
 import { prisma } from "../lib/database";
@@ -27,6 +28,7 @@ const healthBasedRecommendationSchema = z.object({
 router.post(
   "/message",
   authenticateToken,
+  requireAIQuota("CHAT"),
   async (req: AuthRequest, res: Response) => {
     const userId = req.user?.user_id;
 
@@ -150,6 +152,7 @@ router.delete(
 router.post(
   "/health-based-recommendation",
   authenticateToken,
+  requireAIQuota("CHAT"),
   async (req: AuthRequest, res: Response) => {
     const userId = req.user?.user_id;
 
@@ -1,14 +1,35 @@
-import { Router } from "express";
+import { Router, Response } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 import { DailyGoalsService } from "../services/dailyGoal";
+import {
+  dailyGoalQuerySchema,
+  dailyGoalRangeQuerySchema,
+  goalPlanHistoryQuerySchema,
+  goalScheduleSchema,
+} from "../types/dailyGoals";
 
 const router = Router();
 
-// GET /api/daily-goals - Get user's daily goals
+// Longest range the calendar and statistics ask for in one go
+const MAX_RANGE_DAYS = 400;
+
+// GET /api/daily-goals?date= - The goal for a day, today by default
 router.get("/", authenticateToken, async (req: AuthRequest, res) => {
   try {
+    const validationResult = dailyGoalQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid date",
+        details: validationResult.error.errors,
+      });
+    }
+
     const userId = req.user.user_id;
-    const goals = await DailyGoalsService.getDailyGoals(userId);
+    const goals = await DailyGoalsService.getDailyGoals(
+      userId,
+      validationResult.data.date
+    );
 
     res.json({
       success: true,
@@ -23,7 +44,130 @@ router.get("/", authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
-// PUT /api/daily-goals - Update user's daily goals
+// GET /api/daily-goals/range?start_date=&end_date= - Each day's own goal
+router.get("/range", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const validationResult = dailyGoalRangeQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid date range",
+        details: validationResult.error.errors,
+      });
+    }
+
+    const { start_date, end_date } = validationResult.data;
+    const days =
+      (Date.parse(end_date) - Date.parse(start_date)) / (24 * 60 * 60 * 1000);
+    if (days > MAX_RANGE_DAYS) {
+      return res.status(400).json({
+        success: false,
+        error: `Date range cannot be longer than ${MAX_RANGE_DAYS} days`,
+      });
+    }
+
+    const goals = await DailyGoalsService.getGoalsForRange(
+      req.user.user_id,
+      start_date,
+      end_date
+    );
+
+    res.json({
+      success: true,
+      data: goals,
+    });
+  } catch (error) {
+    console.error("Error fetching daily goals range:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch daily goals",
+    });
+  }
+});
+
+// GET /api/daily-goals/schedule - Current version and each weekday's targets
+router.get("/schedule", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const schedule = await DailyGoalsService.getSchedule(req.user.user_id);
+
+    res.json({
+      success: true,
+      data: schedule,
+    });
+  } catch (error) {
+    console.error("Error fetching goal schedule:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch goal schedule",
+    });
+  }
+});
+
+// PUT /api/daily-goals/schedule - Training and refeed days from today on
+router.put(
+  "/schedule",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = goalScheduleSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid goal schedule",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const schedule = await DailyGoalsService.updateSchedule(
+        req.user.user_id,
+        validationResult.data
+      );
+
+      res.json({
+        success: true,
+        data: schedule,
+      });
+    } catch (error) {
+      console.error("Error updating goal schedule:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to update goal schedule",
+      });
+    }
+  }
+);
+
+// GET /api/daily-goals/history - Goal versions, newest first
+router.get("/history", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const validationResult = goalPlanHistoryQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid history parameters",
+        details: validationResult.error.errors,
+      });
+    }
+
+    const history = await DailyGoalsService.getPlanHistory(
+      req.user.user_id,
+      validationResult.data.limit
+    );
+
+    res.json({
+      success: true,
+      data: history,
+    });
+  } catch (error) {
+    console.error("Error fetching goal history:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch goal history",
+    });
+  }
+});
+
+// PUT /api/daily-goals - Recalculate from the questionnaire, from today on
 router.put("/", authenticateToken, async (req: AuthRequest, res) => {
   try {
     const userId = req.user.user_id;
@@ -1,12 +1,87 @@
 import { Router } from "express";
 import { DeviceService } from "../services/devices";
+import { DeviceOAuthService } from "../services/deviceOAuth";
+import { ActivityMergeService } from "../services/activityMerge";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { isOAuthDevice } from "../lib/devices/providers";
+import {
+  activityMetricSchema,
+  activitySourcePrioritySchema,
+  deviceOAuthCallbackSchema,
+  deviceOAuthStartSchema,
+  deviceSyncSchema,
+} from "../types/devices";
 
 const router = Router();
 
+function oauthErrorStatus(message: string) {
+  if (message === "Device not found") return 404;
+  if (message.endsWith("is not configured on the server")) return 503;
+  if (
+    message === "Unsupported device type" ||
+    message === "Return URL is not allowed" ||
+    message === "This device syncs from the app"
+  ) {
+    return 400;
+  }
+  if (message.startsWith("Device authorization expired")) return 401;
+  return 500;
+}
+
+// Providers redirect here after the user approves, so there is no app token
+router.get("/oauth/callback", async (req, res) => {
+  const validationResult = deviceOAuthCallbackSchema.safeParse(req.query);
+  if (!validationResult.success) {
+    return res.status(400).send("Invalid authorization callback");
+  }
+
+  try {
+    const redirectUrl = await DeviceOAuthService.completeAuthorization(
+      validationResult.data
+    );
+    res.redirect(redirectUrl);
+  } catch (error) {
+    console.error("💥 Device OAuth callback error:", error);
+    res.status(400).send("This authorization link is invalid or expired");
+  }
+});
+
 // Apply auth middleware to all routes
 router.use(authenticateToken);
 
+// Start connecting a wearable, the app opens the returned URL
+router.post("/oauth/:deviceType/start", async (req: AuthRequest, res) => {
+  try {
+    const validationResult = deviceOAuthStartSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid authorization request",
+        details: validationResult.error.errors,
+      });
+    }
+
+    const result = await DeviceOAuthService.startAuthorization(
+      req.user.user_id,
+      req.params.deviceType,
+      validationResult.data.return_url
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("💥 Start device OAuth error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to start authorization";
+    res.status(oauthErrorStatus(message)).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
 // Get user's connected devices
 router.get("/", async (req: AuthRequest, res) => {
   try {
@@ -41,6 +116,14 @@ router.post("/connect", async (req: AuthRequest, res) => {
       });
     }
 
+    // Their tokens are only ever exchanged by the server
+    if (isOAuthDevice(deviceType)) {
+      return res.status(400).json({
+        success: false,
+        error: "Use the OAuth flow to connect this device",
+      });
+    }
+
     console.log("🔗 Connect device request:", { deviceType, deviceName });
 
     const device = await DeviceService.connectDevice(
@@ -90,19 +173,60 @@ router.delete("/:deviceId", async (req: AuthRequest, res) => {
   }
 });
 
+// Make a device the primary source of activity data
+router.put("/:deviceId/primary", async (req: AuthRequest, res) => {
+  try {
+    const device = await DeviceService.setPrimaryDevice(
+      req.user.user_id,
+      req.params.deviceId
+    );
+
+    res.json({
+      success: true,
+      data: device,
+    });
+  } catch (error) {
+    console.error("💥 Set primary device error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to set primary device";
+    const status =
+      message === "Device not found"
+        ? 404
+        : message === "Device is disconnected"
+        ? 400
+        : 500;
+    res.status(status).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
 // Sync device data
 router.post("/:deviceId/sync", async (req: AuthRequest, res) => {
   try {
     const { deviceId } = req.params;
-    const { activityData } = req.body;
+    const validationResult = deviceSyncSchema.safeParse(req.body || {});
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid activity data",
+        details: validationResult.error.errors,
+      });
+    }
+    const { activityData, days, samples } = validationResult.data;
 
     console.log("🔄 Sync device data request:", deviceId);
 
-    const result = await DeviceService.syncDeviceData(
-      req.user.user_id,
-      deviceId,
-      activityData
-    );
+    // Without data from the app, the server pulls it from the provider
+    const result =
+      activityData || days?.length || samples?.length
+        ? await DeviceService.syncDeviceData(req.user.user_id, deviceId, {
+            ...validationResult.data,
+            timezone:
+              validationResult.data.timezone || req.header("X-Timezone"),
+          })
+        : await DeviceOAuthService.syncFromProvider(req.user.user_id, deviceId);
 
     res.json({
       success: true,
@@ -112,7 +236,7 @@ router.post("/:deviceId/sync", async (req: AuthRequest, res) => {
     console.error("💥 Sync device error:", error);
     const message =
       error instanceof Error ? error.message : "Failed to sync device";
-    res.status(500).json({
+    res.status(oauthErrorStatus(message)).json({
       success: false,
       error: message,
     });
@@ -134,7 +258,7 @@ router.get("/activity/:startDate/:endDate", async (req: AuthRequest, res) => {
 
     console.log("📊 Get activity data request:", { startDate, endDate });
 
-    const activityData = await DeviceService.getActivityData(
+    const { records, merged } = await DeviceService.getActivityData(
       req.user.user_id,
       startDate,
       endDate
@@ -142,7 +266,8 @@ router.get("/activity/:startDate/:endDate", async (req: AuthRequest, res) => {
 
     res.json({
       success: true,
-      data: activityData,
+      data: records,
+      merged,
     });
   } catch (error) {
     console.error("💥 Get activity data error:", error);
@@ -155,6 +280,92 @@ router.get("/activity/:startDate/:endDate", async (req: AuthRequest, res) => {
   }
 });
 
+// Get one activity record per day, merged across devices
+router.get("/merged/:startDate/:endDate", async (req: AuthRequest, res) => {
+  try {
+    const { startDate, endDate } = req.params;
+
+    if (
+      !startDate.match(/^\d{4}-\d{2}-\d{2}$/) ||
+      !endDate.match(/^\d{4}-\d{2}-\d{2}$/)
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "Dates must be in YYYY-MM-DD format",
+      });
+    }
+
+    const days = await ActivityMergeService.getMergedDays(
+      req.user.user_id,
+      startDate,
+      endDate
+    );
+
+    res.json({
+      success: true,
+      data: days,
+    });
+  } catch (error) {
+    console.error("💥 Get merged activity error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch activity data",
+    });
+  }
+});
+
+// Get the device order used for each metric
+router.get("/priorities", async (req: AuthRequest, res) => {
+  try {
+    const priorities = await ActivityMergeService.getPriorities(
+      req.user.user_id
+    );
+
+    res.json({
+      success: true,
+      data: priorities,
+    });
+  } catch (error) {
+    console.error("💥 Get source priorities error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch source priorities",
+    });
+  }
+});
+
+// Set the device order for one metric
+router.put("/priorities/:metric", async (req: AuthRequest, res) => {
+  try {
+    const metric = activityMetricSchema.safeParse(req.params.metric);
+    const body = activitySourcePrioritySchema.safeParse(req.body);
+    if (!metric.success || !body.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid source priority",
+        details: metric.success ? body.error?.errors : metric.error.errors,
+      });
+    }
+
+    const priority = await ActivityMergeService.setPriority(
+      req.user.user_id,
+      metric.data,
+      body.data.sources
+    );
+
+    res.json({
+      success: true,
+      data: priority,
+    });
+  } catch (error) {
+    console.error("💥 Set source priority error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to save source priority",
+    });
+  }
+});
+
 // Get daily balance (calories in vs out)
 router.get("/balance/:date", async (req: AuthRequest, res) => {
   try {
@@ -0,0 +1,176 @@
+import { Router, Response } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { AchievementService } from "../services/achievements";
+import { FastingService } from "../services/fasting";
+import {
+  fastingHistoryQuerySchema,
+  fastingWindowsQuerySchema,
+  startFastSchema,
+  stopFastSchema,
+} from "../types/fasting";
+
+const router = Router();
+
+function sendFastingError(res: Response, error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : fallback;
+
+  if (message.endsWith("not found")) {
+    return res.status(404).json({ success: false, error: message });
+  }
+  if (message.endsWith("already in progress")) {
+    return res.status(409).json({ success: false, error: message });
+  }
+  if (message.startsWith("A fast cannot")) {
+    return res.status(400).json({ success: false, error: message });
+  }
+
+  res.status(500).json({ success: false, error: fallback });
+}
+
+// GET /api/fasting/protocols - Supported protocols and their windows
+router.get("/protocols", authenticateToken, (req: AuthRequest, res) => {
+  res.json({ success: true, data: FastingService.getProtocols() });
+});
+
+// GET /api/fasting/active - The fast in progress, if any
+router.get(
+  "/active",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const fast = await FastingService.getActiveFast(req.user.user_id);
+      res.json({ success: true, data: fast });
+    } catch (error) {
+      console.error("💥 Get active fast error:", error);
+      sendFastingError(res, error, "Failed to fetch active fast");
+    }
+  }
+);
+
+// POST /api/fasting/start - Start a fast, defaults to the user's protocol
+router.post(
+  "/start",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = startFastSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid fast",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const fast = await FastingService.startFast(
+        req.user.user_id,
+        validationResult.data
+      );
+      res.status(201).json({ success: true, data: fast });
+    } catch (error) {
+      console.error("💥 Start fast error:", error);
+      sendFastingError(res, error, "Failed to start fast");
+    }
+  }
+);
+
+// POST /api/fasting/stop - End the active fast and check achievements
+router.post(
+  "/stop",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = stopFastSchema.safeParse(req.body || {});
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid end time",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const fast = await FastingService.stopFast(
+        req.user.user_id,
+        validationResult.data
+      );
+      const achievements = await AchievementService.checkAndAwardAchievements(
+        req.user.user_id
+      );
+      res.json({ success: true, data: { fast, achievements } });
+    } catch (error) {
+      console.error("💥 Stop fast error:", error);
+      sendFastingError(res, error, "Failed to stop fast");
+    }
+  }
+);
+
+// GET /api/fasting/history - Finished fasts, newest first
+router.get(
+  "/history",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = fastingHistoryQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid history parameters",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const history = await FastingService.getHistory(
+        req.user.user_id,
+        validationResult.data
+      );
+      res.json({ success: true, data: history });
+    } catch (error) {
+      console.error("💥 Get fasting history error:", error);
+      sendFastingError(res, error, "Failed to fetch fasting history");
+    }
+  }
+);
+
+// GET /api/fasting/windows?days= - Daily eating windows from logged meals
+router.get(
+  "/windows",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = fastingWindowsQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid window parameters",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const windows = await FastingService.getEatingWindows(
+        req.user.user_id,
+        validationResult.data
+      );
+      res.json({ success: true, data: windows });
+    } catch (error) {
+      console.error("💥 Get eating windows error:", error);
+      sendFastingError(res, error, "Failed to fetch eating windows");
+    }
+  }
+);
+
+// GET /api/fasting/stats - Streaks, totals and violations
+router.get(
+  "/stats",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const stats = await FastingService.getStats(req.user.user_id);
+      res.json({ success: true, data: stats });
+    } catch (error) {
+      console.error("💥 Get fasting stats error:", error);
+      sendFastingError(res, error, "Failed to fetch fasting stats");
+    }
+  }
+);
+
+export { router as fastingRoutes };
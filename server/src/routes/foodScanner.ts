@@ -1,5 +1,6 @@
 import { Router, Response } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { requireAIQuota } from "../middleware/aiQuota";
 import { FoodScannerService } from "../services/foodScanner";
 import { z } from "zod";
 
@@ -91,6 +92,7 @@ router.post(
 router.post(
   "/image",
   authenticateToken,
+  requireAIQuota("PRODUCT_SCAN"),
   async (req: AuthRequest, res: Response) => {
     try {
       const userId = req.user?.user_id;
@@ -0,0 +1,79 @@
+import { Router, Response } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { FoodCompositionService } from "../services/foodComposition";
+import { foodPortionSchema, foodSearchSchema } from "../types/foodComposition";
+
+const router = Router();
+
+// GET /api/foods/search?q=... - Fuzzy search of the food composition table
+router.get(
+  "/search",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = foodSearchSchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid search query",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const { q, limit } = validationResult.data;
+      const matches = await FoodCompositionService.search(q, limit);
+
+      res.json({
+        success: true,
+        data: matches.map(({ food, score }) => ({
+          ...food,
+          match_score: score,
+        })),
+      });
+    } catch (error) {
+      console.error("💥 Food search error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to search foods",
+      });
+    }
+  }
+);
+
+// POST /api/foods/resolve - Nutrients for an ingredient name and amount
+router.post(
+  "/resolve",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = foodPortionSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid ingredient",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const nutrition = await FoodCompositionService.resolveIngredient(
+        validationResult.data
+      );
+      if (!nutrition) {
+        return res.status(404).json({
+          success: false,
+          error: "No matching food or unsupported unit",
+        });
+      }
+
+      res.json({ success: true, data: nutrition });
+    } catch (error) {
+      console.error("💥 Food resolve error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to resolve ingredient",
+      });
+    }
+  }
+);
+
+export { router as foodsRoutes };
@@ -0,0 +1,48 @@
+import { Router, Request, Response } from "express";
+import { getBlobStore } from "../lib/storage";
+import { LocalBlobStore } from "../lib/storage/localStore";
+
+const router = Router();
+
+// GET /api/images/<key>?expires=...&signature=... - Files of the local blob
+// store. The signed URL is the authorization, so image components can load
+// it without auth headers.
+router.get(/^\/(.+\.jpg)$/, async (req: Request, res: Response) => {
+  try {
+    const store = getBlobStore();
+    if (!(store instanceof LocalBlobStore)) {
+      return res.status(404).json({ success: false, error: "Not found" });
+    }
+
+    const key = req.params[0];
+    const valid = store.verifySignature(
+      key,
+      Number(req.query.expires),
+      String(req.query.signature || "")
+    );
+    if (!valid) {
+      return res.status(403).json({
+        success: false,
+        error: "Invalid or expired image URL",
+      });
+    }
+
+    const image = await store.get(key);
+    if (!image) {
+      return res.status(404).json({ success: false, error: "Image not found" });
+    }
+
+    const maxAge = Math.max(0, Number(req.query.expires) - Date.now() / 1000);
+    res.set({
+      "Content-Type": "image/jpeg",
+      "Cache-Control": `private, max-age=${Math.floor(maxAge)}`,
+      "Cross-Origin-Resource-Policy": "cross-origin",
+    });
+    res.send(image);
+  } catch (error) {
+    console.error("💥 Image serve error:", error);
+    res.status(500).json({ success: false, error: "Failed to load image" });
+  }
+});
+
+export { router as imageRoutes };
@@ -0,0 +1,79 @@
+import { Router, Response } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { MealFeedbackService } from "../services/mealFeedback";
+import { mealFeedbackQuerySchema } from "../types/mealFeedback";
+
+const router = Router();
+
+function sendFeedbackError(res: Response, error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : fallback;
+
+  if (message.endsWith("not found")) {
+    return res.status(404).json({ success: false, error: message });
+  }
+
+  res.status(500).json({ success: false, error: fallback });
+}
+
+// GET /api/meal-feedback - Feedback on meals, menus and plans, newest first
+router.get("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const validationResult = mealFeedbackQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid feedback parameters",
+        details: validationResult.error.errors,
+      });
+    }
+
+    const feedback = await MealFeedbackService.getFeedback(
+      req.user.user_id,
+      validationResult.data
+    );
+    res.json({ success: true, data: feedback });
+  } catch (error) {
+    console.error("💥 Get meal feedback error:", error);
+    sendFeedbackError(res, error, "Failed to fetch meal feedback");
+  }
+});
+
+// GET /api/meal-feedback/profile - Likes and dislikes learned from feedback
+router.get(
+  "/profile",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const profile = await MealFeedbackService.getProfile(req.user.user_id);
+      res.json({ success: true, data: profile });
+    } catch (error) {
+      console.error("💥 Get preference profile error:", error);
+      sendFeedbackError(res, error, "Failed to fetch preference profile");
+    }
+  }
+);
+
+// DELETE /api/meal-feedback/:feedbackId - Forget one piece of feedback
+router.delete(
+  "/:feedbackId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const feedbackId = parseInt(req.params.feedbackId);
+      if (isNaN(feedbackId)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid feedback id",
+        });
+      }
+
+      await MealFeedbackService.deleteFeedback(req.user.user_id, feedbackId);
+      res.json({ success: true, message: "Feedback deleted successfully" });
+    } catch (error) {
+      console.error("💥 Delete meal feedback error:", error);
+      sendFeedbackError(res, error, "Failed to delete feedback");
+    }
+  }
+);
+
+export { router as mealFeedbackRoutes };
@@ -1,8 +1,11 @@
 import { Router } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { requireAIQuota } from "../middleware/aiQuota";
 import { MealPlanService } from "../services/mealPlans";
+import { MealFeedbackService } from "../services/mealFeedback";
 import { prisma } from "../lib/database";
 import { MealTiming } from "@prisma/client";
+import { mealFeedbackSchema } from "../types/mealFeedback";
 
 const router = Router();
 
@@ -940,65 +943,71 @@ router.post("/create", authenticateToken, async (req, res) => {
   }
 });
 // Replace meal in plan
-router.put("/:planId/replace", authenticateToken, async (req, res) => {
-  try {
-    console.log("🔄 Replacing meal in plan:", req.params.planId);
+router.put(
+  "/:planId/replace",
+  authenticateToken,
+  requireAIQuota("REPLACEMENT_MEAL"),
+  async (req, res) => {
+    try {
+      console.log("🔄 Replacing meal in plan:", req.params.planId);
 
-    const user_id = req.user?.user_id;
-    if (!user_id) {
-      return res.status(401).json({
-        success: false,
-        error: "User not authenticated",
+      const user_id = req.user?.user_id;
+      if (!user_id) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      const { planId } = req.params;
+      const {
+        day_of_week,
+        meal_timing,
+        meal_order = 0,
+        preferences = {},
+      } = req.body;
+
+      // Validate required fields
+      if (day_of_week === undefined || !meal_timing) {
+        return res.status(400).json({
+          success: false,
+          error: "Missing required fields: day_of_week, meal_timing",
+        });
+      }
+
+      console.log("🔍 Meal replacement request:", {
+        planId,
+        day_of_week,
+        meal_timing,
+        meal_order,
+        user_id,
       });
-    }
 
-    const { planId } = req.params;
-    const {
-      day_of_week,
-      meal_timing,
-      meal_order = 0,
-      preferences = {},
-    } = req.body;
+      const result = await MealPlanService.replaceMealInPlan(
+        user_id,
+        planId,
+        day_of_week,
+        meal_timing,
+        meal_order,
+        preferences
+      );
 
-    // Validate required fields
-    if (day_of_week === undefined || !meal_timing) {
-      return res.status(400).json({
+      console.log("✅ Meal replaced successfully");
+      res.json({
+        success: true,
+        data: result,
+        message: "Meal replaced successfully",
+      });
+    } catch (error) {
+      console.error("💥 Error replacing meal:", error);
+      res.status(500).json({
         success: false,
-        error: "Missing required fields: day_of_week, meal_timing",
+        error:
+          error instanceof Error ? error.message : "Failed to replace meal",
       });
     }
-
-    console.log("🔍 Meal replacement request:", {
-      planId,
-      day_of_week,
-      meal_timing,
-      meal_order,
-      user_id,
-    });
-
-    const result = await MealPlanService.replaceMealInPlan(
-      user_id,
-      planId,
-      day_of_week,
-      meal_timing,
-      meal_order,
-      preferences
-    );
-
-    console.log("✅ Meal replaced successfully");
-    res.json({
-      success: true,
-      data: result,
-      message: "Meal replaced successfully",
-    });
-  } catch (error) {
-    console.error("💥 Error replacing meal:", error);
-    res.status(500).json({
-      success: false,
-      error: error instanceof Error ? error.message : "Failed to replace meal",
-    });
   }
-});
+);
 
 // Generate shopping list
 router.post("/:planId/shopping-list", authenticateToken, async (req, res) => {
@@ -1093,6 +1102,43 @@ router.post("/preferences", authenticateToken, async (req, res) => {
   }
 });
 
+// Rate a plan meal, liked and disliked meals shape the next plans
+router.post(
+  "/templates/:templateId/feedback",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const validationResult = mealFeedbackSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid feedback",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const feedback = await MealFeedbackService.recordTemplateFeedback(
+        req.user.user_id,
+        req.params.templateId,
+        validationResult.data
+      );
+
+      res.json({
+        success: true,
+        data: feedback,
+      });
+    } catch (error) {
+      console.error("💥 Error saving meal template feedback:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to save feedback";
+      res.status(message.endsWith("not found") ? 404 : 500).json({
+        success: false,
+        error: message,
+      });
+    }
+  }
+);
+
 // Activate meal plan
 router.post("/:planId/activate", authenticateToken, async (req, res) => {
   try {
@@ -1,11 +1,23 @@
 import { Router, Response } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { requireAIQuota } from "../middleware/aiQuota";
 import { prisma } from "../lib/database";
 import { z } from "zod";
-import { mealAnalysisSchema, mealUpdateSchema } from "../types/nutrition";
+import {
+  afterPhotoSchema,
+  directMealUpdateSchema,
+  dishSelectionSchema,
+  mealAnalysisJobSchema,
+  mealAnalysisSchema,
+  mealUpdateSchema,
+} from "../types/nutrition";
 import { NutritionService } from "../services/nutrition";
+import { MealAnalysisJobService } from "../services/mealAnalysisJobs";
 import { StatisticsService } from "../services/statistics";
 import { AchievementService } from "../services/achievements";
+import { KosherService } from "../services/kosher";
+import { kosherDayQuerySchema } from "../types/kosher";
+import { mealFeedbackSchema } from "../types/mealFeedback";
 
 const router = Router();
 
@@ -142,6 +154,7 @@ router.post(
           const todayMeals = await prisma.meal.findMany({
             where: {
               user_id: userId,
+              deleted_at: null,
               created_at: {
                 gte: startOfDayToday,
                 lte: endOfDayToday,
@@ -259,257 +272,417 @@ router.get(
 // router.use(authenticateToken); //commented to apply auth each route
 
 // Analyze meal endpoint
-router.post("/analyze", authenticateToken, async (req: AuthRequest, res) => {
-  try {
-    console.log("Analyze meal request received");
-    console.log("Request body keys:", Object.keys(req.body));
-    console.log("User ID:", req.user.user_id);
-    console.log("Language:", req.body.language);
-    console.log("Has update text:", !!req.body.updateText);
-    console.log(
-      "Edited ingredients count:",
-      req.body.editedIngredients?.length || 0
-    );
+router.post(
+  "/analyze",
+  authenticateToken,
+  requireAIQuota("MEAL_ANALYSIS"),
+  async (req: AuthRequest, res) => {
+    try {
+      console.log("Analyze meal request received");
+      console.log("Request body keys:", Object.keys(req.body));
+      console.log("User ID:", req.user.user_id);
+      console.log("Language:", req.body.language);
+      console.log("Has update text:", !!req.body.updateText);
+      console.log(
+        "Edited ingredients count:",
+        req.body.editedIngredients?.length || 0
+      );
 
-    // Validate request body
-    const validationResult = mealAnalysisSchema.safeParse(req.body);
+      // Validate request body
+      const validationResult = mealAnalysisSchema.safeParse(req.body);
 
-    if (!validationResult.success) {
-      console.error("Validation error:", validationResult.error);
-      return res.status(400).json({
-        success: false,
-        error:
-          "Invalid request data: " +
-          validationResult.error.errors.map((e) => e.message).join(", "),
+      if (!validationResult.success) {
+        console.error("Validation error:", validationResult.error);
+        return res.status(400).json({
+          success: false,
+          error:
+            "Invalid request data: " +
+            validationResult.error.errors.map((e) => e.message).join(", "),
+        });
+      }
+
+      const {
+        imageBase64,
+        language = "english",
+        date,
+        updateText,
+        editedIngredients = [],
+        clarifications,
+      } = validationResult.data;
+
+      if (!imageBase64 || imageBase64.trim() === "") {
+        return res.status(400).json({
+          success: false,
+          error: "Image data is required",
+        });
+      }
+
+      // Validate image data
+      let cleanBase64 = imageBase64;
+      if (imageBase64.startsWith("data:image/")) {
+        const commaIndex = imageBase64.indexOf(",");
+        if (commaIndex !== -1) {
+          cleanBase64 = imageBase64.substring(commaIndex + 1);
+        }
+      }
+
+      // Check if base64 is valid
+      const base64Regex = /^[A-Za-z0-9+/]*={0,2}$/;
+      if (!base64Regex.test(cleanBase64)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid image data format",
+        });
+      }
+
+      if (cleanBase64.length < 1000) {
+        return res.status(400).json({
+          success: false,
+          error: "Image data is too small or invalid",
+        });
+      }
+
+      console.log("Processing meal analysis for user:", req.user.user_id);
+      console.log("Image data length:", cleanBase64.length);
+      console.log("Edited ingredients:", editedIngredients.length);
+      console.log("Update text:", updateText ? "provided" : "not provided");
+
+      // Validate request data
+      const analysisSchema = z.object({
+        imageBase64: z.string().min(1, "Image data is required"),
+        language: z.string().default("english"),
+        date: z.string().optional(),
+        updateText: z.string().optional(),
+        editedIngredients: z.array(z.any()).default([]),
+      });
+
+      const validatedData = analysisSchema.parse({
+        imageBase64,
+        language,
+        date,
+        updateText,
+        editedIngredients,
       });
-    }
 
-    const {
-      imageBase64,
-      language = "english",
-      date,
-      updateText,
-      editedIngredients = [],
-    } = validationResult.data;
+      const result = await NutritionService.analyzeMeal(req.user.user_id, {
+        imageBase64: validatedData.imageBase64,
+        language: validatedData.language,
+        date: validatedData.date || new Date().toISOString().split("T")[0],
+        updateText: validatedData.updateText,
+        editedIngredients: validatedData.editedIngredients,
+        clarifications,
+      });
 
-    if (!imageBase64 || imageBase64.trim() === "") {
-      return res.status(400).json({
+      console.log("✅ Analysis completed successfully");
+      console.log("📊 Result summary:", {
+        success: result.success,
+        mealName: result.data?.meal_name,
+        calories: result.data?.calories,
+        ingredientsCount: result.data?.ingredients?.length || 0,
+      });
+
+      console.log("Analysis completed successfully");
+      res.json(result);
+    } catch (error) {
+      console.error("Analyze meal error:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to analyze meal";
+      res.status(500).json({
         success: false,
-        error: "Image data is required",
+        error: message,
       });
     }
+  }
+);
 
-    // Validate image data
-    let cleanBase64 = imageBase64;
-    if (imageBase64.startsWith("data:image/")) {
-      const commaIndex = imageBase64.indexOf(",");
-      if (commaIndex !== -1) {
-        cleanBase64 = imageBase64.substring(commaIndex + 1);
+// Submit a meal photo for background analysis
+router.post(
+  "/analysis",
+  authenticateToken,
+  requireAIQuota("MEAL_ANALYSIS"),
+  async (req: AuthRequest, res) => {
+    try {
+      const validationResult = mealAnalysisJobSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error:
+            "Invalid request data: " +
+            validationResult.error.errors.map((e) => e.message).join(", "),
+        });
       }
-    }
 
-    // Check if base64 is valid
-    const base64Regex = /^[A-Za-z0-9+/]*={0,2}$/;
-    if (!base64Regex.test(cleanBase64)) {
-      return res.status(400).json({
+      console.log("🧾 Analysis job request from user:", req.user.user_id);
+
+      const job = await MealAnalysisJobService.submitJob(
+        req.user.user_id,
+        validationResult.data,
+        res.locals.aiQuota?.usage_date
+      );
+
+      res.status(202).json({
+        success: true,
+        data: job,
+      });
+    } catch (error) {
+      console.error("Submit analysis job error:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to submit analysis";
+      const status =
+        message === "Meal not found"
+          ? 404
+          : message === "Meal is already being analyzed"
+          ? 409
+          : message.startsWith("Image") || message.startsWith("Invalid")
+          ? 400
+          : 500;
+      res.status(status).json({
         success: false,
-        error: "Invalid image data format",
+        error: message,
       });
     }
+  }
+);
 
-    if (cleanBase64.length < 1000) {
-      return res.status(400).json({
+// Poll the status of a background analysis job
+router.get(
+  "/analysis/:jobId",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const job = await MealAnalysisJobService.getJob(
+        req.user.user_id,
+        req.params.jobId
+      );
+
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          error: "Analysis job not found",
+        });
+      }
+
+      res.json({
+        success: true,
+        data: job,
+      });
+    } catch (error) {
+      console.error("Get analysis job error:", error);
+      res.status(500).json({
         success: false,
-        error: "Image data is too small or invalid",
+        error: "Failed to fetch analysis job",
       });
     }
+  }
+);
 
-    console.log("Processing meal analysis for user:", req.user.user_id);
-    console.log("Image data length:", cleanBase64.length);
-    console.log("Edited ingredients:", editedIngredients.length);
-    console.log("Update text:", updateText ? "provided" : "not provided");
-
-    // Validate request data
-    const analysisSchema = z.object({
-      imageBase64: z.string().min(1, "Image data is required"),
-      language: z.string().default("english"),
-      date: z.string().optional(),
-      updateText: z.string().optional(),
-      editedIngredients: z.array(z.any()).default([]),
-    });
+// Update meal endpoint
+router.put(
+  "/update",
+  authenticateToken,
+  requireAIQuota("MEAL_ANALYSIS"),
+  async (req: AuthRequest, res) => {
+    try {
+      console.log("Update meal request received");
 
-    const validatedData = analysisSchema.parse({
-      imageBase64,
-      language,
-      date,
-      updateText,
-      editedIngredients,
-    });
+      const validationResult = mealUpdateSchema.safeParse(req.body);
 
-    const result = await NutritionService.analyzeMeal(req.user.user_id, {
-      imageBase64: validatedData.imageBase64,
-      language: validatedData.language,
-      date: validatedData.date || new Date().toISOString().split("T")[0],
-      updateText: validatedData.updateText,
-      editedIngredients: validatedData.editedIngredients,
-    });
+      if (!validationResult.success) {
+        console.error("Validation error:", validationResult.error);
+        return res.status(400).json({
+          success: false,
+          error:
+            "Invalid request data: " +
+            validationResult.error.errors.map((e) => e.message).join(", "),
+        });
+      }
 
-    console.log("✅ Analysis completed successfully");
-    console.log("📊 Result summary:", {
-      success: result.success,
-      mealName: result.data?.meal_name,
-      calories: result.data?.calories,
-      ingredientsCount: result.data?.ingredients?.length || 0,
-    });
+      const { meal_id, updateText, language } = validationResult.data;
 
-    console.log("Analysis completed successfully");
-    res.json(result);
-  } catch (error) {
-    console.error("Analyze meal error:", error);
-    const message =
-      error instanceof Error ? error.message : "Failed to analyze meal";
-    res.status(500).json({
-      success: false,
-      error: message,
-    });
-  }
-});
+      console.log("Updating meal for user:", req.user.user_id);
 
-// Update meal endpoint
-router.put("/update", authenticateToken, async (req: AuthRequest, res) => {
-  try {
-    console.log("Update meal request received");
+      const meal = await NutritionService.updateMeal(req.user.user_id, {
+        meal_id,
+        updateText,
+        language,
+      });
 
-    const validationResult = mealUpdateSchema.safeParse(req.body);
+      console.log("Meal updated successfully");
 
-    if (!validationResult.success) {
-      console.error("Validation error:", validationResult.error);
-      return res.status(400).json({
+      res.json({
+        success: true,
+        message: "Meal updated successfully",
+        data: meal,
+      });
+    } catch (error) {
+      console.error("Update meal error:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to update meal";
+      res.status(500).json({
         success: false,
-        error:
-          "Invalid request data: " +
-          validationResult.error.errors.map((e) => e.message).join(", "),
+        error: message,
       });
     }
+  }
+);
 
-    const { meal_id, updateText, language } = validationResult.data;
+// Direct meal update endpoint for manual edits
+router.put(
+  "/meals/:mealId",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const mealId = parseInt(req.params.mealId);
+      if (isNaN(mealId)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid meal ID",
+        });
+      }
 
-    console.log("Updating meal for user:", req.user.user_id);
+      const validationResult = directMealUpdateSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error:
+            "Invalid request data: " +
+            validationResult.error.errors.map((e) => e.message).join(", "),
+        });
+      }
 
-    const meal = await NutritionService.updateMeal(req.user.user_id, {
-      meal_id,
-      updateText,
-      language,
-    });
+      console.log("✏️ Direct meal update for meal:", mealId);
 
-    console.log("Meal updated successfully");
+      const updatedMeal = await NutritionService.editMeal(
+        req.user.user_id,
+        mealId,
+        validationResult.data
+      );
 
-    res.json({
-      success: true,
-      message: "Meal updated successfully",
-      data: meal,
-    });
-  } catch (error) {
-    console.error("Update meal error:", error);
-    const message =
-      error instanceof Error ? error.message : "Failed to update meal";
-    res.status(500).json({
-      success: false,
-      error: message,
-    });
+      res.json({
+        success: true,
+        message: "Meal updated successfully",
+        data: updatedMeal,
+      });
+    } catch (error) {
+      console.error("💥 Direct meal update error:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to update meal";
+      const status =
+        message === "Meal not found"
+          ? 404
+          : message === "Nothing to update"
+          ? 400
+          : 500;
+      res.status(status).json({
+        success: false,
+        error: message,
+      });
+    }
   }
-});
+);
 
-// Direct meal update endpoint for manual edits
-router.put(
-  "/meals/:mealId",
+// List the changes made to a meal, newest first
+router.get(
+  "/meals/:mealId/revisions",
   authenticateToken,
   async (req: AuthRequest, res) => {
     try {
-      const { mealId } = req.params;
-      const userId = req.user.user_id;
-      const mealData = req.body;
+      const mealId = parseInt(req.params.mealId);
+      if (isNaN(mealId)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid meal ID",
+        });
+      }
 
-      console.log("Direct meal update for user:", userId, "meal:", mealId);
+      const revisions = await NutritionService.getMealRevisions(
+        req.user.user_id,
+        mealId
+      );
 
-      // Validate meal belongs to user
-      const existingMeal = await prisma.meal.findFirst({
-        where: {
-          meal_id: parseInt(mealId),
-          user_id: userId,
-        },
+      res.json({
+        success: true,
+        data: revisions,
       });
+    } catch (error) {
+      console.error("💥 Get meal revisions error:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to fetch revisions";
+      res.status(message === "Meal not found" ? 404 : 500).json({
+        success: false,
+        error: message,
+      });
+    }
+  }
+);
 
-      if (!existingMeal) {
-        return res.status(404).json({
+// Put a meal back the way it was before a revision
+router.post(
+  "/meals/:mealId/revisions/:revisionId/revert",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const mealId = parseInt(req.params.mealId);
+      const revisionId = parseInt(req.params.revisionId);
+      if (isNaN(mealId) || isNaN(revisionId)) {
+        return res.status(400).json({
           success: false,
-          error: "Meal not found or access denied",
+          error: "Invalid meal or revision ID",
         });
       }
 
-      // Update meal with provided data
-      const updatedMeal = await prisma.meal.update({
-        where: {
-          meal_id: parseInt(mealId),
-        },
-        data: {
-          meal_name: mealData.meal_name || existingMeal.meal_name,
-          calories: mealData.calories
-            ? parseFloat(mealData.calories)
-            : existingMeal.calories,
-          protein_g: mealData.protein_g
-            ? parseFloat(mealData.protein_g)
-            : existingMeal.protein_g,
-          carbs_g: mealData.carbs_g
-            ? parseFloat(mealData.carbs_g)
-            : existingMeal.carbs_g,
-          fats_g: mealData.fats_g
-            ? parseFloat(mealData.fats_g)
-            : existingMeal.fats_g,
-          fiber_g: mealData.fiber_g
-            ? parseFloat(mealData.fiber_g)
-            : existingMeal.fiber_g,
-          sugar_g: mealData.sugar_g
-            ? parseFloat(mealData.sugar_g)
-            : existingMeal.sugar_g,
-          sodium_mg: mealData.sodium_mg
-            ? parseFloat(mealData.sodium_mg)
-            : existingMeal.sodium_mg,
-          saturated_fats_g: mealData.saturated_fats_g
-            ? parseFloat(mealData.saturated_fats_g)
-            : existingMeal.saturated_fats_g,
-          polyunsaturated_fats_g: mealData.polyunsaturated_fats_g
-            ? parseFloat(mealData.polyunsaturated_fats_g)
-            : existingMeal.polyunsaturated_fats_g,
-          monounsaturated_fats_g: mealData.monounsaturated_fats_g
-            ? parseFloat(mealData.monounsaturated_fats_g)
-            : existingMeal.monounsaturated_fats_g,
-          cholesterol_mg: mealData.cholesterol_mg
-            ? parseFloat(mealData.cholesterol_mg)
-            : existingMeal.cholesterol_mg,
-          serving_size_g: mealData.serving_size_g
-            ? parseFloat(mealData.serving_size_g)
-            : existingMeal.serving_size_g,
-          ingredients: mealData.ingredients || existingMeal.ingredients,
-          food_category: mealData.food_category || existingMeal.food_category,
-          cooking_method:
-            mealData.cooking_method || existingMeal.cooking_method,
-          updated_at: new Date(),
-        },
+      console.log("⏪ Revert request for meal:", mealId, "to:", revisionId);
+
+      const meal = await NutritionService.revertMeal(
+        req.user.user_id,
+        mealId,
+        revisionId
+      );
+
+      res.json({
+        success: true,
+        data: meal,
       });
+    } catch (error) {
+      console.error("💥 Revert meal error:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to revert meal";
+      res.status(message === "Revision not found" ? 404 : 500).json({
+        success: false,
+        error: message,
+      });
+    }
+  }
+);
 
-      console.log("Meal updated successfully");
+// Restore a deleted meal
+router.post(
+  "/meals/:mealId/restore",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const mealId = parseInt(req.params.mealId);
+      if (isNaN(mealId)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid meal ID",
+        });
+      }
+
+      const meal = await NutritionService.restoreMeal(req.user.user_id, mealId);
+
+      console.log("♻️ Meal restored:", mealId);
 
       res.json({
         success: true,
-        message: "Meal updated successfully",
-        data: updatedMeal,
+        data: meal,
       });
     } catch (error) {
-      console.error("Direct meal update error:", error);
+      console.error("💥 Restore meal error:", error);
       const message =
-        error instanceof Error ? error.message : "Failed to update meal";
-      res.status(500).json({
+        error instanceof Error ? error.message : "Failed to restore meal";
+      res.status(message === "Meal not found" ? 404 : 500).json({
         success: false,
         error: message,
       });
@@ -698,15 +871,22 @@ router.post(
   async (req: AuthRequest, res) => {
     try {
       const { mealId } = req.params;
-      const feedback = req.body;
+      const validationResult = mealFeedbackSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid feedback",
+          details: validationResult.error.errors,
+        });
+      }
 
       console.log("💬 Save feedback request for meal:", mealId);
-      console.log("📊 Feedback data:", feedback);
+      console.log("📊 Feedback data:", validationResult.data);
 
       const result = await NutritionService.saveMealFeedback(
         req.user.user_id,
         mealId,
-        feedback
+        validationResult.data
       );
 
       res.json({
@@ -717,7 +897,154 @@ router.post(
       console.error("💥 Save feedback error:", error);
       const message =
         error instanceof Error ? error.message : "Failed to save feedback";
-      res.status(500).json({
+      res.status(message === "Meal not found" ? 404 : 500).json({
+        success: false,
+        error: message,
+      });
+    }
+  }
+);
+
+// Log the dishes of a multi-dish photo the user ate
+router.post(
+  "/meals/:mealId/items",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const mealId = parseInt(req.params.mealId);
+      if (isNaN(mealId)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid meal ID",
+        });
+      }
+
+      const validationResult = dishSelectionSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid dish selection",
+          details: validationResult.error.errors,
+        });
+      }
+
+      console.log("🍱 Log dishes request for meal:", mealId);
+
+      const meal = await NutritionService.logDishSelection(
+        req.user.user_id,
+        mealId,
+        validationResult.data
+      );
+
+      res.json({
+        success: true,
+        data: meal,
+      });
+    } catch (error) {
+      console.error("💥 Log dishes error:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to log dishes";
+      const status =
+        message === "Meal not found"
+          ? 404
+          : message === "Dish not found" ||
+            message === "Meal has no detected dishes"
+          ? 400
+          : 500;
+      res.status(status).json({
+        success: false,
+        error: message,
+      });
+    }
+  }
+);
+
+// Scale a meal to what was eaten from a photo of the leftovers
+router.post(
+  "/meals/:mealId/after-photo",
+  authenticateToken,
+  requireAIQuota("MEAL_ANALYSIS"),
+  async (req: AuthRequest, res) => {
+    try {
+      const mealId = parseInt(req.params.mealId);
+      if (isNaN(mealId)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid meal ID",
+        });
+      }
+
+      const validationResult = afterPhotoSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error:
+            "Invalid request data: " +
+            validationResult.error.errors.map((e) => e.message).join(", "),
+        });
+      }
+
+      console.log("🍽️ After photo request for meal:", mealId);
+
+      const meal = await NutritionService.addAfterPhoto(
+        req.user.user_id,
+        mealId,
+        validationResult.data
+      );
+
+      res.json({
+        success: true,
+        data: meal,
+      });
+    } catch (error) {
+      console.error("💥 After photo error:", error);
+      const message =
+        error instanceof Error
+          ? error.message
+          : "Failed to process after photo";
+      const status =
+        message === "Meal not found"
+          ? 404
+          : message === "Meal has no photo to compare with" ||
+            message.startsWith("Invalid image data")
+          ? 400
+          : 500;
+      res.status(status).json({
+        success: false,
+        error: message,
+      });
+    }
+  }
+);
+
+// Get the items a meal was logged as, with the dishes detected on its photo
+router.get(
+  "/meals/:mealId/items",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const mealId = parseInt(req.params.mealId);
+      if (isNaN(mealId)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid meal ID",
+        });
+      }
+
+      const result = await NutritionService.getMealItems(
+        req.user.user_id,
+        mealId
+      );
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error("💥 Get meal items error:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to get meal items";
+      res.status(message === "Meal not found" ? 404 : 500).json({
         success: false,
         error: message,
       });
@@ -799,6 +1126,28 @@ router.post(
   }
 );
 
+// Deleted meals that can still be restored
+router.get(
+  "/meals/deleted",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const meals = await NutritionService.getDeletedMeals(req.user.user_id);
+
+      res.json({
+        success: true,
+        data: meals,
+      });
+    } catch (error) {
+      console.error("💥 Get deleted meals error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch deleted meals",
+      });
+    }
+  }
+);
+
 // Get meal details with full nutrition info
 router.get(
   "/meals/:meal_id/details",
@@ -813,6 +1162,7 @@ router.get(
       const meal = await prisma.meal.findFirst({
         where: {
           meal_id: parseInt(meal_id),
+          deleted_at: null,
           user_id: userId,
         },
       });
@@ -888,6 +1238,7 @@ router.get(
       const meal = await prisma.meal.findFirst({
         where: {
           meal_id: parseInt(meal_id),
+          deleted_at: null,
           user_id: userId,
         },
       });
@@ -915,81 +1266,21 @@ router.get(
   }
 );
 
-// PUT /api/nutrition/meals/:id - Update meal
-router.put("/meals/:id", authenticateToken, async (req: AuthRequest, res) => {
-  try {
-    const mealId = parseInt(req.params.id);
-    const userId = req.user.user_id;
-    const updates = req.body;
-
-    // Verify meal belongs to user
-    const existingMeal = await prisma.meal.findFirst({
-      where: {
-        meal_id: mealId,
-        user_id: userId,
-      },
-    });
-
-    if (!existingMeal) {
-      return res.status(404).json({
-        success: false,
-        error: "Meal not found",
-      });
-    }
-
-    // Update meal
-    const updatedMeal = await prisma.meal.update({
-      where: { meal_id: mealId },
-      data: {
-        ...updates,
-        updated_at: new Date(),
-      },
-    });
-
-    console.log("✅ Meal updated successfully:", mealId);
-
-    res.json({
-      success: true,
-      message: "Meal updated successfully",
-      data: updatedMeal,
-    });
-  } catch (error) {
-    console.error("💥 Error updating meal:", error);
-    res.status(500).json({
-      success: false,
-      error: "Failed to update meal",
-    });
-  }
-});
-
-// DELETE /api/nutrition/meals/:id - Delete meal
+// DELETE /api/nutrition/meals/:id - Delete meal, it can be restored for a while
 router.delete(
   "/meals/:id",
   authenticateToken,
   async (req: AuthRequest, res) => {
     try {
       const mealId = parseInt(req.params.id);
-      const userId = req.user.user_id;
-
-      // Verify meal belongs to user
-      const existingMeal = await prisma.meal.findFirst({
-        where: {
-          meal_id: mealId,
-          user_id: userId,
-        },
-      });
-
-      if (!existingMeal) {
-        return res.status(404).json({
+      if (isNaN(mealId)) {
+        return res.status(400).json({
           success: false,
-          error: "Meal not found",
+          error: "Invalid meal ID",
         });
       }
 
-      // Delete meal
-      await prisma.meal.delete({
-        where: { meal_id: mealId },
-      });
+      await NutritionService.deleteMeal(req.user.user_id, mealId);
 
       console.log("✅ Meal deleted successfully:", mealId);
 
@@ -999,9 +1290,11 @@ router.delete(
       });
     } catch (error) {
       console.error("💥 Error deleting meal:", error);
-      res.status(500).json({
+      const message =
+        error instanceof Error ? error.message : "Failed to delete meal";
+      res.status(message === "Meal not found" ? 404 : 500).json({
         success: false,
-        error: "Failed to delete meal",
+        error: message === "Meal not found" ? message : "Failed to delete meal",
       });
     }
   }
@@ -1074,6 +1367,7 @@ router.get(
       const meals = await prisma.meal.findMany({
         where: {
           user_id: req.user.user_id,
+          deleted_at: null,
           created_at: {
             gte: startDate,
             lte: now,
@@ -1087,7 +1381,7 @@ router.get(
       console.log("✅ Retrieved", meals.length, "meal history items");
       res.json({
         success: true,
-        data: meals,
+        data: await KosherService.annotateMeals(req.user.user_id, meals),
       });
     } catch (error) {
       console.error("💥 Get meal history error:", error);
@@ -1101,4 +1395,31 @@ router.get(
   }
 );
 
+// Kosher check of the meals logged on a day
+router.get(
+  "/kosher",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const query = kosherDayQuerySchema.parse(req.query);
+      console.log("✡️ Kosher day check for user:", req.user.user_id);
+
+      const report = await KosherService.checkDay(req.user.user_id, query);
+      res.json({ success: true, data: report });
+    } catch (error) {
+      console.error("💥 Kosher day check error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid kosher check parameters",
+          details: error.errors,
+        });
+      }
+      const message =
+        error instanceof Error ? error.message : "Failed to check meals";
+      res.status(500).json({ success: false, error: message });
+    }
+  }
+);
+
 export { router as nutritionRoutes };
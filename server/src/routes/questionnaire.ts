@@ -3,6 +3,7 @@ import { prisma } from "../lib/database";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 import { questionnaireSchema } from "../types/questionnaire";
 import { DailyGoalsService } from "../services/dailyGoal";
+import { WeightService } from "../services/weight";
 
 const router = Router();
 
@@ -371,6 +372,7 @@ router.post("/", authenticateToken, async (req: AuthRequest, res) => {
           weight_kg: validatedData.weight_kg,
           target_weight_kg: validatedData.target_weight_kg,
           body_fat_percentage: validatedData.body_fat_percentage,
+          pregnancy_status: validatedData.pregnancy_status,
           additional_personal_info: validatedData.additional_personal_info,
 
           // Goals
@@ -413,6 +415,10 @@ router.post("/", authenticateToken, async (req: AuthRequest, res) => {
 
           // Dietary preferences and restrictions
           kosher: validatedData.kosher,
+          kosher_meat_dairy_wait_hours:
+            validatedData.kosher_meat_dairy_wait_hours,
+          kosher_dairy_meat_wait_hours:
+            validatedData.kosher_dairy_meat_wait_hours,
           allergies: validatedData.allergies,
           allergies_text: validatedData.allergies_text,
           dietary_style: validatedData.dietary_style,
@@ -457,6 +463,7 @@ router.post("/", authenticateToken, async (req: AuthRequest, res) => {
           weight_kg: validatedData.weight_kg,
           target_weight_kg: validatedData.target_weight_kg,
           body_fat_percentage: validatedData.body_fat_percentage,
+          pregnancy_status: validatedData.pregnancy_status,
           additional_personal_info: validatedData.additional_personal_info,
 
           // Goals
@@ -499,6 +506,10 @@ router.post("/", authenticateToken, async (req: AuthRequest, res) => {
 
           // Dietary preferences and restrictions
           kosher: validatedData.kosher,
+          kosher_meat_dairy_wait_hours:
+            validatedData.kosher_meat_dairy_wait_hours,
+          kosher_dairy_meat_wait_hours:
+            validatedData.kosher_dairy_meat_wait_hours,
           allergies: validatedData.allergies,
           allergies_text: validatedData.allergies_text,
           dietary_style: validatedData.dietary_style,
@@ -543,6 +554,13 @@ router.post("/", authenticateToken, async (req: AuthRequest, res) => {
 
     console.log("✅ Questionnaire saved successfully");
 
+    if (validatedData.weight_kg) {
+      await WeightService.recordQuestionnaireWeight(
+        userId,
+        validatedData.weight_kg
+      );
+    }
+
     // Create or update daily goals based on questionnaire
     try {
       await DailyGoalsService.createOrUpdateDailyGoals(userId);
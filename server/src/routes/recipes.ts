@@ -0,0 +1,204 @@
+import { Router, Response } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { RecipeService } from "../services/recipes";
+import {
+  addRecipeToPlanSchema,
+  logRecipeSchema,
+  recipeSchema,
+  recipeUpdateSchema,
+} from "../types/recipes";
+
+const router = Router();
+
+function sendRecipeError(res: Response, error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : fallback;
+
+  if (message.endsWith("not found")) {
+    return res.status(404).json({ success: false, error: message });
+  }
+  if (message.startsWith("Could not resolve ingredients")) {
+    return res.status(400).json({ success: false, error: message });
+  }
+
+  res.status(500).json({ success: false, error: fallback });
+}
+
+// GET /api/recipes - The user's recipes at their current version
+router.get("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const recipes = await RecipeService.getUserRecipes(req.user.user_id);
+    res.json({ success: true, data: recipes });
+  } catch (error) {
+    console.error("💥 Get recipes error:", error);
+    sendRecipeError(res, error, "Failed to fetch recipes");
+  }
+});
+
+// POST /api/recipes - Create a recipe, nutrition is computed per serving
+router.post("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const validationResult = recipeSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid recipe",
+        details: validationResult.error.errors,
+      });
+    }
+
+    const recipe = await RecipeService.createRecipe(
+      req.user.user_id,
+      validationResult.data
+    );
+    res.status(201).json({ success: true, data: recipe });
+  } catch (error) {
+    console.error("💥 Create recipe error:", error);
+    sendRecipeError(res, error, "Failed to create recipe");
+  }
+});
+
+// GET /api/recipes/:recipeId - Current version plus version history
+router.get(
+  "/:recipeId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const recipe = await RecipeService.getRecipe(
+        req.user.user_id,
+        req.params.recipeId
+      );
+      res.json({ success: true, data: recipe });
+    } catch (error) {
+      console.error("💥 Get recipe error:", error);
+      sendRecipeError(res, error, "Failed to fetch recipe");
+    }
+  }
+);
+
+// GET /api/recipes/:recipeId/versions/:version - A past version as logged
+router.get(
+  "/:recipeId/versions/:version",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const version = parseInt(req.params.version);
+      if (isNaN(version)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid version",
+        });
+      }
+
+      const recipeVersion = await RecipeService.getRecipeVersion(
+        req.user.user_id,
+        req.params.recipeId,
+        version
+      );
+      res.json({ success: true, data: recipeVersion });
+    } catch (error) {
+      console.error("💥 Get recipe version error:", error);
+      sendRecipeError(res, error, "Failed to fetch recipe version");
+    }
+  }
+);
+
+// PUT /api/recipes/:recipeId - Edit a recipe, creating a new version
+router.put(
+  "/:recipeId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = recipeUpdateSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid recipe",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const recipe = await RecipeService.updateRecipe(
+        req.user.user_id,
+        req.params.recipeId,
+        validationResult.data
+      );
+      res.json({ success: true, data: recipe });
+    } catch (error) {
+      console.error("💥 Update recipe error:", error);
+      sendRecipeError(res, error, "Failed to update recipe");
+    }
+  }
+);
+
+// DELETE /api/recipes/:recipeId - Archive a recipe, logged meals are kept
+router.delete(
+  "/:recipeId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      await RecipeService.archiveRecipe(req.user.user_id, req.params.recipeId);
+      res.json({ success: true, message: "Recipe deleted successfully" });
+    } catch (error) {
+      console.error("💥 Delete recipe error:", error);
+      sendRecipeError(res, error, "Failed to delete recipe");
+    }
+  }
+);
+
+// POST /api/recipes/:recipeId/log - Log servings of a recipe as a meal
+router.post(
+  "/:recipeId/log",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = logRecipeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid servings",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const meal = await RecipeService.logRecipe(
+        req.user.user_id,
+        req.params.recipeId,
+        validationResult.data
+      );
+      res.status(201).json({ success: true, data: meal });
+    } catch (error) {
+      console.error("💥 Log recipe error:", error);
+      sendRecipeError(res, error, "Failed to log recipe");
+    }
+  }
+);
+
+// POST /api/recipes/:recipeId/meal-plan - Schedule a recipe in a meal plan
+router.post(
+  "/:recipeId/meal-plan",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = addRecipeToPlanSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid meal plan slot",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const result = await RecipeService.addToMealPlan(
+        req.user.user_id,
+        req.params.recipeId,
+        validationResult.data
+      );
+      res.json({ success: true, data: result });
+    } catch (error) {
+      console.error("💥 Add recipe to meal plan error:", error);
+      sendRecipeError(res, error, "Failed to add recipe to meal plan");
+    }
+  }
+);
+
+export { router as recipeRoutes };
@@ -1,8 +1,10 @@
 import { Router } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { requireAIQuota } from "../middleware/aiQuota";
 import { RecommendedMenuService } from "../services/recommendedMenu";
 import { prisma } from "../lib/database";
 import { Response } from "express";
+import { recommendedMealFeedbackSchema } from "../types/mealFeedback";
 
 const router = Router();
 
@@ -172,6 +174,7 @@ router.get("/debug", authenticateToken, async (req: AuthRequest, res) => {
 router.post(
   "/generate-custom",
   authenticateToken,
+  requireAIQuota("MENU_GENERATION"),
   async (req: AuthRequest, res) => {
     try {
       const userId = req.user.user_id;
@@ -276,122 +279,132 @@ router.post(
 );
 
 // POST /api/recommended-menus/generate - Generate new menu with preferences
-router.post("/generate", authenticateToken, async (req: AuthRequest, res) => {
-  try {
-    const userId = req.user.user_id;
-    console.log("🎯 Generating menu for user:", userId);
-    console.log("📋 Request body:", req.body);
-
-    const {
-      days = 7,
-      mealsPerDay = "3_main", // "3_main", "3_plus_2_snacks", "2_plus_1_intermediate"
-      mealChangeFrequency = "daily", // "daily", "every_3_days", "weekly", "automatic"
-      includeLeftovers = false,
-      sameMealTimes = true,
-      targetCalories,
-      dietaryPreferences,
-      excludedIngredients,
-      budget,
-    } = req.body;
-
-    // Validate input parameters
-    if (days < 1 || days > 30) {
-      return res.status(400).json({
-        success: false,
-        error: "Days must be between 1 and 30",
-      });
-    }
+router.post(
+  "/generate",
+  authenticateToken,
+  requireAIQuota("MENU_GENERATION"),
+  async (req: AuthRequest, res) => {
+    try {
+      const userId = req.user.user_id;
+      console.log("🎯 Generating menu for user:", userId);
+      console.log("📋 Request body:", req.body);
 
-    if (
-      !["3_main", "3_plus_2_snacks", "2_plus_1_intermediate"].includes(
-        mealsPerDay
-      )
-    ) {
-      return res.status(400).json({
-        success: false,
-        error: "Invalid meals per day option",
+      const {
+        days = 7,
+        mealsPerDay = "3_main", // "3_main", "3_plus_2_snacks", "2_plus_1_intermediate"
+        mealChangeFrequency = "daily", // "daily", "every_3_days", "weekly", "automatic"
+        includeLeftovers = false,
+        sameMealTimes = true,
+        targetCalories,
+        dietaryPreferences,
+        excludedIngredients,
+        budget,
+      } = req.body;
+
+      // Validate input parameters
+      if (days < 1 || days > 30) {
+        return res.status(400).json({
+          success: false,
+          error: "Days must be between 1 and 30",
+        });
+      }
+
+      if (
+        !["3_main", "3_plus_2_snacks", "2_plus_1_intermediate"].includes(
+          mealsPerDay
+        )
+      ) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid meals per day option",
+        });
+      }
+
+      console.log("✅ Input validation passed, generating menu...");
+
+      const menu = await RecommendedMenuService.generatePersonalizedMenu({
+        userId,
+        days,
+        mealsPerDay,
+        mealChangeFrequency,
+        includeLeftovers,
+        sameMealTimes,
+        targetCalories,
+        dietaryPreferences,
+        excludedIngredients,
+        budget,
       });
-    }
 
-    console.log("✅ Input validation passed, generating menu...");
-
-    const menu = await RecommendedMenuService.generatePersonalizedMenu({
-      userId,
-      days,
-      mealsPerDay,
-      mealChangeFrequency,
-      includeLeftovers,
-      sameMealTimes,
-      targetCalories,
-      dietaryPreferences,
-      excludedIngredients,
-      budget,
-    });
+      if (!menu) {
+        throw new Error("Menu generation returned null");
+      }
 
-    if (!menu) {
-      throw new Error("Menu generation returned null");
-    }
+      console.log("🎉 Menu generated successfully!");
+      console.log("📊 Menu stats:", {
+        menu_id: menu?.menu_id,
+        title: menu?.title,
+        meals_count: menu?.meals?.length || 0,
+        total_calories: menu?.total_calories,
+      });
 
-    console.log("🎉 Menu generated successfully!");
-    console.log("📊 Menu stats:", {
-      menu_id: menu?.menu_id,
-      title: menu?.title,
-      meals_count: menu?.meals?.length || 0,
-      total_calories: menu?.total_calories,
-    });
+      // Ensure the response has the expected structure
+      const responseData = {
+        ...menu,
+        // Ensure we have at least these fields for the client
+        menu_id: menu.menu_id,
+        title: menu.title,
+        description: menu.description,
+        meals: menu.meals || [],
+        days_count: menu.days_count,
+        total_calories: menu.total_calories,
+        estimated_cost: menu.estimated_cost,
+      };
 
-    // Ensure the response has the expected structure
-    const responseData = {
-      ...menu,
-      // Ensure we have at least these fields for the client
-      menu_id: menu.menu_id,
-      title: menu.title,
-      description: menu.description,
-      meals: menu.meals || [],
-      days_count: menu.days_count,
-      total_calories: menu.total_calories,
-      estimated_cost: menu.estimated_cost,
-    };
+      console.log(
+        "📤 Sending response with",
+        responseData.meals.length,
+        "meals"
+      );
 
-    console.log("📤 Sending response with", responseData.meals.length, "meals");
+      res.json({
+        success: true,
+        message: "Menu generated successfully",
+        data: responseData,
+      });
+    } catch (error) {
+      console.error("💥 Error generating menu:", error);
 
-    res.json({
-      success: true,
-      message: "Menu generated successfully",
-      data: responseData,
-    });
-  } catch (error) {
-    console.error("💥 Error generating menu:", error);
-
-    // Provide more specific error messages
-    let errorMessage = "Failed to generate menu";
-    let statusCode = 500;
-
-    if (error instanceof Error) {
-      if (error.message.includes("questionnaire not found")) {
-        errorMessage =
-          "Please complete your questionnaire first before generating a menu";
-        statusCode = 400;
-      } else if (error.message.includes("budget")) {
-        errorMessage = "Please set a daily food budget in your questionnaire";
-        statusCode = 400;
-      } else {
-        errorMessage = error.message;
+      // Provide more specific error messages
+      let errorMessage = "Failed to generate menu";
+      let statusCode = 500;
+
+      if (error instanceof Error) {
+        if (error.message.includes("questionnaire not found")) {
+          errorMessage =
+            "Please complete your questionnaire first before generating a menu";
+          statusCode = 400;
+        } else if (error.message.includes("budget")) {
+          errorMessage = "Please set a daily food budget in your questionnaire";
+          statusCode = 400;
+        } else {
+          errorMessage = error.message;
+        }
       }
-    }
 
-    res.status(statusCode).json({
-      success: false,
-      error: errorMessage,
-      details: error instanceof Error ? error.message : "Unknown error",
-    });
+      res.status(statusCode).json({
+        success: false,
+        error: errorMessage,
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
   }
-});
+);
 
 // POST /api/recommended-menus/:menuId/replace-meal - Replace a specific meal
 router.post(
   "/:menuId/replace-meal",
   authenticateToken,
+  requireAIQuota("REPLACEMENT_MEAL"),
   async (req: AuthRequest, res) => {
     try {
       const userId = req.user.user_id;
@@ -462,21 +475,35 @@ router.post(
     try {
       const userId = req.user.user_id;
       const { menuId } = req.params;
-      const { mealId, liked } = req.body;
+      const validationResult = recommendedMealFeedbackSchema.safeParse(
+        req.body
+      );
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid feedback",
+          details: validationResult.error.errors,
+        });
+      }
 
-      await RecommendedMenuService.giveMealFeedback(
+      const { meal_id, feedback } = validationResult.data;
+      const saved = await RecommendedMenuService.giveMealFeedback(
         userId,
         menuId,
-        mealId,
-        liked
+        meal_id,
+        feedback
       );
 
       res.json({
         success: true,
+        data: saved,
         message: "Feedback recorded successfully",
       });
     } catch (error) {
       console.error("💥 Error recording meal feedback:", error);
+      if (error instanceof Error && error.message === "Meal not found") {
+        return res.status(404).json({ success: false, error: error.message });
+      }
       res.status(500).json({
         success: false,
         error: "Failed to record feedback",
@@ -519,6 +546,7 @@ router.get(
 router.post(
   "/generate-comprehensive",
   authenticateToken,
+  requireAIQuota("MENU_GENERATION"),
   async (req: AuthRequest, res) => {
     try {
       const userId = req.user.user_id;
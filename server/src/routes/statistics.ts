@@ -3,11 +3,40 @@ import { authenticateToken, AuthRequest } from "../middleware/auth"; // Import y
 import { StatisticsService } from "../services/statistics";
 import { z } from "zod";
 import { AchievementService } from "../services/achievements";
+import { MicronutrientService } from "../services/micronutrients";
+import { micronutrientCoverageSchema } from "../types/micronutrients";
+import { HEBREW_FONT_MISSING } from "../utils/pdfReport";
 
 const router = Router();
 
 const periodSchema = z.enum(["today", "week", "month", "custom"]);
 
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+const exportReportSchema = z
+  .object({
+    period: z.enum(["week", "month", "custom"]).default("week"),
+    startDate: dateSchema.optional(),
+    endDate: dateSchema.optional(),
+    language: z
+      .enum(["en", "he", "english", "hebrew"])
+      .default("en")
+      .transform((language) =>
+        language === "he" || language === "hebrew" ? "he" : "en"
+      ),
+  })
+  .refine(
+    (query) => query.period !== "custom" || (query.startDate && query.endDate),
+    { message: "startDate and endDate are required for a custom period" }
+  )
+  .refine(
+    (query) =>
+      !query.startDate || !query.endDate || query.startDate <= query.endDate,
+    { message: "startDate must be before or equal to endDate" }
+  );
+
 // Get nutrition statistics
 router.get(
   "/statistics",
@@ -28,9 +57,17 @@ router.get(
       );
 
       const period = periodSchema.parse(req.query.period || "week");
+      const range =
+        period === "custom"
+          ? {
+              startDate: dateSchema.parse(req.query.startDate),
+              endDate: dateSchema.parse(req.query.endDate),
+            }
+          : undefined;
       const statistics = await StatisticsService.getNutritionStatistics(
         userId,
-        period
+        period,
+        range
       );
 
       console.log(`✅ Statistics fetched successfully for user: ${userId}`);
@@ -54,6 +91,64 @@ router.get(
   }
 );
 
+// Get vitamin and mineral intake against the user's reference intakes
+router.get(
+  "/statistics/micronutrients",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user?.user_id?.toString();
+
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    try {
+      const query = micronutrientCoverageSchema.parse(req.query);
+      console.log(
+        `🥦 Micronutrient coverage request for user: ${userId}, period: ${query.period}`
+      );
+
+      const coverage = await MicronutrientService.getCoverage(userId, query);
+      res.json({ success: true, data: coverage });
+    } catch (error) {
+      console.error("❌ Error fetching micronutrient coverage:", error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid micronutrient parameters",
+          details: error.errors,
+        });
+      }
+
+      res.status(500).json({
+        error: "Failed to fetch micronutrient coverage",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// Get the user's dietary reference intakes
+router.get(
+  "/statistics/micronutrients/targets",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user?.user_id?.toString();
+
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    try {
+      const targets = await MicronutrientService.getTargets(userId);
+      res.json({ success: true, data: targets });
+    } catch (error) {
+      console.error("❌ Error fetching micronutrient targets:", error);
+      res.status(500).json({ error: "Failed to fetch micronutrient targets" });
+    }
+  }
+);
+
 // Get detailed achievements data
 router.get(
   "/achievements",
@@ -130,16 +225,37 @@ router.get(
     }
 
     try {
-      const pdfBuffer = await StatisticsService.generatePDFReport(userId);
+      const options = exportReportSchema.parse(req.query);
+      console.log(
+        `📄 PDF report request for user: ${userId}, period: ${options.period}`
+      );
 
+      const pdfBuffer = await StatisticsService.generatePDFReport(
+        userId,
+        options
+      );
+
+      const today = new Date().toISOString().split("T")[0];
       res.setHeader("Content-Type", "application/pdf");
       res.setHeader(
         "Content-Disposition",
-        "attachment; filename=nutrition-report.pdf"
+        `attachment; filename=nutrition-report-${today}.pdf`
       );
+      res.setHeader("Content-Length", pdfBuffer.length);
       res.send(pdfBuffer);
     } catch (error) {
       console.error("Error generating PDF report:", error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid report parameters",
+          details: error.errors,
+        });
+      }
+      if (error instanceof Error && error.message === HEBREW_FONT_MISSING) {
+        return res.status(503).json({ error: error.message });
+      }
+
       res.status(500).json({ error: "Failed to generate report" });
     }
   }
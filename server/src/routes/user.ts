@@ -3,6 +3,10 @@ import { prisma } from "../lib/database";
 import { updateProfileSchema } from "../types/auth";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 import { StatisticsService } from "../services/statistics";
+import { PushNotificationService } from "../services/pushNotifications";
+import { AIQuotaService } from "../services/aiQuota";
+import { MealImageService } from "../services/mealImages";
+import { z } from "zod";
 
 const router = Router();
 
@@ -22,6 +26,7 @@ router.put(
           name: true,
           subscription_type: true,
           birth_date: true,
+          timezone: true,
           ai_requests_count: true,
           created_at: true,
         },
@@ -73,32 +78,77 @@ router.put(
   }
 );
 
+const pushTokenSchema = z.object({
+  push_token: z.string().min(1).nullable(),
+});
+
+router.put("/push-token", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { push_token } = pushTokenSchema.parse(req.body);
+
+    await PushNotificationService.registerToken(req.user.user_id, push_token);
+
+    res.json({ success: true, message: "Push token updated" });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid push token",
+        details: error.errors,
+      });
+    }
+    console.error("Push token update error:", error);
+    res
+      .status(500)
+      .json({ success: false, error: "Failed to update push token" });
+  }
+});
+
 router.get(
   "/subscription-info",
   authenticateToken,
   async (req: AuthRequest, res) => {
-    const subscriptionInfo = {
-      FREE: { dailyRequests: 2, name: "Free Plan" },
-      BASIC: { dailyRequests: 20, name: "Basic Plan" },
-      PREMIUM: { dailyRequests: 50, name: "Premium Plan" },
-    };
-
-    const userSubscriptionType = req.user.subscription_type;
-    const info =
-      subscriptionInfo[userSubscriptionType as keyof typeof subscriptionInfo] ||
-      subscriptionInfo.FREE;
-
-    res.json({
-      success: true,
-      subscription: {
-        ...info,
-        currentRequests: req.user.ai_requests_count,
-        resetAt: req.user.ai_requests_reset_at,
-      },
-    });
+    try {
+      const planNames = {
+        FREE: "Free Plan",
+        PREMIUM: "Premium Plan",
+        GOLD: "Gold Plan",
+      };
+
+      const quota = await AIQuotaService.getQuotaSummary(req.user.user_id);
+
+      res.json({
+        success: true,
+        subscription: {
+          name:
+            planNames[quota.subscription_type as keyof typeof planNames] ||
+            planNames.FREE,
+          dailyRequests: quota.total.limit,
+          currentRequests: quota.total.used,
+          resetAt: quota.reset_at,
+        },
+      });
+    } catch (error) {
+      console.error("Get subscription info error:", error);
+      res
+        .status(500)
+        .json({ success: false, error: "Failed to fetch subscription info" });
+    }
   }
 );
 
+// Today's AI usage per feature and when it resets
+router.get("/ai-quota", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const quota = await AIQuotaService.getQuotaSummary(req.user.user_id);
+
+    res.json({ success: true, data: quota });
+  } catch (error) {
+    console.error("Get AI quota error:", error);
+    res.status(500).json({ success: false, error: "Failed to fetch AI quota" });
+  }
+});
+
 // NEW ENDPOINT: Get global nutritional statistics
 router.get(
   "/global-statistics",
@@ -270,6 +320,8 @@ router.delete(
         );
       });
 
+      await MealImageService.removeUserImages(req.user.user_id);
+
       res.json({
         success: true,
         message: "User account and all related data permanently deleted",
@@ -0,0 +1,125 @@
+import { Router, Response } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { WeightService } from "../services/weight";
+import {
+  weighInQuerySchema,
+  weighInSchema,
+  weightTrendQuerySchema,
+} from "../types/weight";
+
+const router = Router();
+
+function sendWeightError(res: Response, error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : fallback;
+
+  if (message.endsWith("not found")) {
+    return res.status(404).json({ success: false, error: message });
+  }
+  if (message.startsWith("A weigh-in cannot")) {
+    return res.status(400).json({ success: false, error: message });
+  }
+
+  res.status(500).json({ success: false, error: fallback });
+}
+
+// GET /api/weight - Weigh-ins from every source, newest first
+router.get("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const validationResult = weighInQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid weigh-in parameters",
+        details: validationResult.error.errors,
+      });
+    }
+
+    const weighIns = await WeightService.getWeighIns(
+      req.user.user_id,
+      validationResult.data
+    );
+    res.json({ success: true, data: weighIns });
+  } catch (error) {
+    console.error("💥 Get weigh-ins error:", error);
+    sendWeightError(res, error, "Failed to fetch weigh-ins");
+  }
+});
+
+// POST /api/weight - Log a weigh-in, same-day duplicates are not stored twice
+router.post("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const validationResult = weighInSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid weigh-in",
+        details: validationResult.error.errors,
+      });
+    }
+
+    const result = await WeightService.addWeighIn(
+      req.user.user_id,
+      validationResult.data
+    );
+    res.status(result.duplicate ? 200 : 201).json({
+      success: true,
+      data: result.weigh_in,
+      duplicate: result.duplicate,
+    });
+  } catch (error) {
+    console.error("💥 Add weigh-in error:", error);
+    sendWeightError(res, error, "Failed to log weigh-in");
+  }
+});
+
+// GET /api/weight/trend?days= - Smoothed trend, weekly rate and goal projection
+router.get(
+  "/trend",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = weightTrendQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid trend parameters",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const trend = await WeightService.getTrend(
+        req.user.user_id,
+        validationResult.data
+      );
+      res.json({ success: true, data: trend });
+    } catch (error) {
+      console.error("💥 Get weight trend error:", error);
+      sendWeightError(res, error, "Failed to fetch weight trend");
+    }
+  }
+);
+
+// DELETE /api/weight/:weighInId - Remove a weigh-in
+router.delete(
+  "/:weighInId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const weighInId = parseInt(req.params.weighInId);
+      if (isNaN(weighInId)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid weigh-in id",
+        });
+      }
+
+      await WeightService.deleteWeighIn(req.user.user_id, weighInId);
+      res.json({ success: true, message: "Weigh-in deleted successfully" });
+    } catch (error) {
+      console.error("💥 Delete weigh-in error:", error);
+      sendWeightError(res, error, "Failed to delete weigh-in");
+    }
+  }
+);
+
+export { router as weightRoutes };
@@ -0,0 +1,85 @@
+import { createFixtureClient } from "../lib/devices/apiClient";
+import { DEVICE_PROVIDERS } from "../lib/devices/providers";
+import { ActivityData, OAuthDeviceType } from "../types/devices";
+
+// The fixtures answer for any day, these only pick the URLs
+const DATE = "2025-10-19";
+const TIMEZONE = "Asia/Jerusalem";
+
+// What each adapter should read from its recorded responses
+const EXPECTED: Record<OAuthDeviceType, ActivityData> = {
+  GOOGLE_FIT: {
+    steps: 8400,
+    caloriesBurned: 2421,
+    activeMinutes: 41,
+    bmr: 0,
+  },
+  FITBIT: {
+    steps: 9124,
+    caloriesBurned: 2486,
+    activeMinutes: 38,
+    bmr: 0,
+    distance: 6.92,
+  },
+  WHOOP: {
+    steps: 0,
+    caloriesBurned: 2300,
+    activeMinutes: 0,
+    bmr: 0,
+    heartRate: 68,
+  },
+  POLAR: {
+    steps: 8731,
+    caloriesBurned: 2312,
+    activeMinutes: 83,
+    bmr: 0,
+    heartRate: 72,
+  },
+};
+
+// Set fields in a fixed order, so key order and undefined don't count
+const normalize = (data: ActivityData | null) =>
+  data &&
+  Object.fromEntries(
+    Object.keys(data)
+      .sort()
+      .filter((key) => data[key as keyof ActivityData] !== undefined)
+      .map((key) => [key, data[key as keyof ActivityData]])
+  );
+
+/**
+ * Runs every provider adapter against the recorded responses in
+ * lib/devices/fixtures and compares what it reads with EXPECTED. Run it
+ * after changing an adapter or re-recording a fixture.
+ */
+async function main() {
+  const client = createFixtureClient();
+  let failed = 0;
+
+  for (const [device_type, provider] of Object.entries(DEVICE_PROVIDERS)) {
+    const expected = EXPECTED[device_type as OAuthDeviceType];
+    try {
+      const actual = await provider.fetchDay(client, DATE, TIMEZONE);
+      const matches =
+        JSON.stringify(normalize(actual)) ===
+        JSON.stringify(normalize(expected));
+
+      if (matches) {
+        console.log(`✅ ${provider.name}`);
+      } else {
+        console.error(`❌ ${provider.name} read`, actual, "expected", expected);
+        failed++;
+      }
+    } catch (error) {
+      console.error(`❌ ${provider.name}:`, error);
+      failed++;
+    }
+  }
+
+  if (failed > 0) {
+    console.error(`💥 ${failed} adapters don't match their fixtures`);
+    process.exitCode = 1;
+  }
+}
+
+main();
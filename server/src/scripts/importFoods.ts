@@ -0,0 +1,86 @@
+import "dotenv/config";
+import fs from "fs";
+import path from "path";
+import { prisma } from "../lib/database";
+import { FoodCompositionService } from "../services/foodComposition";
+import {
+  readFlatFoodCsv,
+  readUsdaCsvDirectory,
+  readUsdaJson,
+} from "../lib/foodComposition/importers";
+
+const USAGE = `Usage: npm run foods:import -- <path> [--format usda-json|usda-csv|flat] [--data-types "Foundation,SR Legacy"]
+
+  usda-json  FoodData Central JSON download (Foundation, SR Legacy, FNDDS)
+  usda-csv   Directory of the FoodData Central CSV download
+  flat       One food per row with per-100g columns (see importers.ts)`;
+
+type ImportFormat = "usda-json" | "usda-csv" | "flat";
+
+function parseArgs(argv: string[]) {
+  const args: { input?: string; format?: string; dataTypes?: string[] } = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--format") args.format = argv[++i];
+    else if (arg === "--data-types") {
+      args.dataTypes = (argv[++i] || "")
+        .split(",")
+        .map((type) => type.trim())
+        .filter(Boolean);
+    } else if (!arg.startsWith("--")) args.input = arg;
+  }
+
+  return args;
+}
+
+function detectFormat(input: string): ImportFormat {
+  if (fs.statSync(input).isDirectory()) return "usda-csv";
+  if (path.extname(input).toLowerCase() === ".json") return "usda-json";
+  return "flat";
+}
+
+async function main() {
+  const { input, format, dataTypes } = parseArgs(process.argv.slice(2));
+
+  if (!input || !fs.existsSync(input)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const resolvedFormat = (format || detectFormat(input)) as ImportFormat;
+  const records =
+    resolvedFormat === "usda-json"
+      ? readUsdaJson(input)
+      : resolvedFormat === "usda-csv"
+      ? readUsdaCsvDirectory(input, { dataTypes })
+      : resolvedFormat === "flat"
+      ? readFlatFoodCsv(input)
+      : null;
+
+  if (!records) {
+    console.error(`❌ Unknown format "${format}"\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  console.log(`📥 Importing foods from ${input} (${resolvedFormat})`);
+  const startedAt = Date.now();
+
+  const { imported } = await FoodCompositionService.importRecords(
+    records,
+    (count) => console.log(`   ${count} foods imported...`)
+  );
+
+  console.log(
+    `✅ Imported ${imported} foods in ${Math.round(
+      (Date.now() - startedAt) / 1000
+    )}s`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error("💥 Food import failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
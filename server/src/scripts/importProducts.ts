@@ -0,0 +1,94 @@
+import "dotenv/config";
+import fs from "fs";
+import { prisma } from "../lib/database";
+import {
+  readOpenFoodFactsCsv,
+  readOpenFoodFactsJsonl,
+} from "../lib/openFoodFacts";
+import {
+  DEFAULT_IMPORT_COUNTRIES,
+  ProductCatalogService,
+} from "../services/productCatalog";
+
+const USAGE = `Usage: npm run products:import -- <path> [--format jsonl|csv] [--countries en:israel,en:france | --all-countries]
+
+  jsonl  OpenFoodFacts JSONL export (openfoodfacts-products.jsonl[.gz])
+  csv    OpenFoodFacts CSV export (tab separated, uncompressed)
+
+Only products sold in the given countries are imported (default: ${DEFAULT_IMPORT_COUNTRIES.join(
+  ","
+)}).
+Re-running skips products whose OpenFoodFacts record hasn't changed.`;
+
+function parseArgs(argv: string[]) {
+  const args: { input?: string; format?: string; countries?: string[] } = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--format") args.format = argv[++i];
+    else if (arg === "--all-countries") args.countries = [];
+    else if (arg === "--countries") {
+      args.countries = (argv[++i] || "")
+        .split(",")
+        .map((country) => country.trim().toLowerCase())
+        .filter(Boolean)
+        .map((country) => (country.includes(":") ? country : `en:${country}`));
+    } else if (!arg.startsWith("--")) args.input = arg;
+  }
+
+  return args;
+}
+
+async function main() {
+  const { input, format, countries } = parseArgs(process.argv.slice(2));
+
+  if (!input || !fs.existsSync(input)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const resolvedFormat =
+    format || (/\.(csv|tsv)$/i.test(input) ? "csv" : "jsonl");
+  if (resolvedFormat !== "jsonl" && resolvedFormat !== "csv") {
+    console.error(`❌ Unknown format "${format}"\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  const selectedCountries = countries ?? DEFAULT_IMPORT_COUNTRIES;
+  console.log(
+    `📥 Importing OpenFoodFacts products from ${input} (${resolvedFormat}, ${
+      selectedCountries.length > 0
+        ? selectedCountries.join(", ")
+        : "all countries"
+    })`
+  );
+  const startedAt = Date.now();
+
+  const stats = await ProductCatalogService.importOpenFoodFacts(
+    resolvedFormat === "csv"
+      ? readOpenFoodFactsCsv(input)
+      : readOpenFoodFactsJsonl(input),
+    {
+      countries: selectedCountries,
+      onProgress: (progress) =>
+        console.log(
+          `   ${progress.read} read, ${progress.created} new, ${progress.updated} updated...`
+        ),
+    }
+  );
+
+  console.log(
+    `✅ Done in ${Math.round((Date.now() - startedAt) / 1000)}s: ${
+      stats.created
+    } new, ${stats.updated} updated, ${stats.unchanged} unchanged, ${
+      stats.skipped
+    } skipped of ${stats.read} records`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error("💥 Product import failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
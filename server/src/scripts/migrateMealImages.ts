@@ -0,0 +1,69 @@
+import "dotenv/config";
+import { prisma } from "../lib/database";
+import { MealImageService } from "../services/mealImages";
+
+// Base64 rows are large, keep each page small
+const BATCH_SIZE = 20;
+
+/**
+ * Moves inline base64 meal photos (Meal.image_url = "data:image/...") into
+ * the blob store. Safe to re-run: migrated rows no longer match, and a row
+ * that fails keeps its inline image and is reported at the end.
+ */
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+
+  const remaining = await prisma.meal.count({
+    where: { image_url: { startsWith: "data:" } },
+  });
+  console.log(
+    `🖼️ ${remaining} meals with inline images${dryRun ? " (dry run)" : ""}`
+  );
+  if (dryRun || remaining === 0) return;
+
+  let cursor = 0;
+  let migrated = 0;
+  const failed: number[] = [];
+
+  while (true) {
+    const meals = await prisma.meal.findMany({
+      where: { image_url: { startsWith: "data:" }, meal_id: { gt: cursor } },
+      select: { meal_id: true, user_id: true, image_url: true },
+      orderBy: { meal_id: "asc" },
+      take: BATCH_SIZE,
+    });
+    if (meals.length === 0) break;
+
+    for (const meal of meals) {
+      cursor = meal.meal_id;
+      try {
+        const image_key = await MealImageService.store(
+          meal.user_id,
+          meal.image_url!
+        );
+        await prisma.meal.update({
+          where: { meal_id: meal.meal_id },
+          data: { image_key, image_url: null },
+        });
+        migrated++;
+      } catch (error) {
+        console.error(`❌ Meal ${meal.meal_id}:`, error);
+        failed.push(meal.meal_id);
+      }
+    }
+
+    console.log(`   ${migrated}/${remaining} migrated...`);
+  }
+
+  console.log(`✅ Migrated ${migrated} meal images`);
+  if (failed.length > 0) {
+    console.warn(`⚠️ ${failed.length} meals kept inline images:`, failed);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("💥 Meal image migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
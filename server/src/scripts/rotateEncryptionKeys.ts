@@ -0,0 +1,107 @@
+import "dotenv/config";
+import { prisma } from "../lib/database";
+import { needsReencryption, reencryptSecret } from "../lib/encryption";
+
+const BATCH_SIZE = 200;
+
+interface EncryptedRow {
+  id: string;
+  values: Record<string, string | null>;
+}
+
+// A table with encrypted columns, paged by its id
+interface EncryptedTable {
+  name: string;
+  fetch(cursor: string | undefined): Promise<EncryptedRow[]>;
+  update(id: string, values: Record<string, string>): Promise<unknown>;
+}
+
+// Columns encrypted with lib/encryption get an entry here
+const ENCRYPTED_TABLES: EncryptedTable[] = [
+  {
+    name: "connected_devices",
+    fetch: async (cursor) => {
+      const devices = await prisma.connectedDevice.findMany({
+        where: cursor ? { connected_device_id: { gt: cursor } } : undefined,
+        select: {
+          connected_device_id: true,
+          access_token_encrypted: true,
+          refresh_token_encrypted: true,
+        },
+        orderBy: { connected_device_id: "asc" },
+        take: BATCH_SIZE,
+      });
+      return devices.map(({ connected_device_id, ...values }) => ({
+        id: connected_device_id,
+        values,
+      }));
+    },
+    update: (id, values) =>
+      prisma.connectedDevice.update({
+        where: { connected_device_id: id },
+        data: values,
+      }),
+  },
+];
+
+/**
+ * Re-encrypts every encrypted column under ENCRYPTION_KEY_ID. Add the new
+ * key to ENCRYPTION_KEYS and make it active, run this, then the old key
+ * can be removed. Safe to re-run: rows already under the active key are
+ * skipped, and a row that fails keeps its value and is reported.
+ */
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+
+  for (const table of ENCRYPTED_TABLES) {
+    let cursor: string | undefined;
+    let pending = 0;
+    let rotated = 0;
+    const failed: string[] = [];
+
+    while (true) {
+      const rows = await table.fetch(cursor);
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        cursor = row.id;
+        const stale = Object.entries(row.values).filter(
+          (entry): entry is [string, string] =>
+            entry[1] !== null && needsReencryption(entry[1])
+        );
+        if (stale.length === 0) continue;
+        pending++;
+        if (dryRun) continue;
+
+        try {
+          await table.update(
+            row.id,
+            Object.fromEntries(
+              stale.map(([column, value]) => [column, reencryptSecret(value)])
+            )
+          );
+          rotated++;
+        } catch (error) {
+          console.error(`❌ ${table.name} ${row.id}:`, error);
+          failed.push(row.id);
+        }
+      }
+    }
+
+    console.log(
+      dryRun
+        ? `🔐 ${table.name}: ${pending} rows to re-encrypt (dry run)`
+        : `✅ ${table.name}: re-encrypted ${rotated} of ${pending} rows`
+    );
+    if (failed.length > 0) {
+      console.warn(`⚠️ ${failed.length} rows kept their old values:`, failed);
+    }
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("💥 Encryption key rotation failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
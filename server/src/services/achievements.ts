@@ -1,4 +1,5 @@
 import { prisma } from "../lib/database";
+import { FastingService } from "./fasting";
 
 export interface UserStats {
   currentStreak: number;
@@ -9,6 +10,8 @@ export interface UserStats {
   totalCalorieGoals: number;
   totalXP: number;
   aiRequestsCount: number;
+  completedFasts: number;
+  fastingStreak: number;
 }
 
 export interface Achievement {
@@ -60,6 +63,12 @@ export class AchievementService {
       macro_master: "target",
       iron_will: "gem",
       balanced_week: "scale",
+
+      // Fasting
+      first_fast: "timer",
+      fasts_7: "moon",
+      fasts_30: "hourglass",
+      fasting_streak_7: "flame",
     };
 
     return specificIcons[key] || categoryIcons[category] || "award";
@@ -161,6 +170,14 @@ export class AchievementService {
         return Math.min(userStats.level, 25);
       case "level_50":
         return Math.min(userStats.level, 50);
+      case "first_fast":
+        return Math.min(userStats.completedFasts, 1);
+      case "fasts_7":
+        return Math.min(userStats.completedFasts, 7);
+      case "fasts_30":
+        return Math.min(userStats.completedFasts, 30);
+      case "fasting_streak_7":
+        return Math.min(userStats.fastingStreak, 7);
       default:
         return 0;
     }
@@ -204,13 +221,15 @@ export class AchievementService {
       // Get calorie goal completions
       const mealDays = await prisma.meal.groupBy({
         by: ["upload_time"],
-        where: { user_id: userId },
+        where: { user_id: userId, deleted_at: null },
         _sum: { calories: true },
         having: {
           calories: { _sum: { gte: 1800 } },
         },
       });
 
+      const fastingStats = await FastingService.getAchievementStats(userId);
+
       const userStats: UserStats = {
         currentStreak: user.current_streak || 0,
         bestStreak: user.best_streak || 0,
@@ -220,6 +239,7 @@ export class AchievementService {
         totalCalorieGoals: mealDays.length,
         totalXP: user.total_points || 0,
         aiRequestsCount: user.ai_requests_count || 0,
+        ...fastingStats,
       };
 
       // Get existing achievements
@@ -378,13 +398,15 @@ export class AchievementService {
 
       const mealDays = await prisma.meal.groupBy({
         by: ["created_at"],
-        where: { user_id: userId },
+        where: { user_id: userId, deleted_at: null },
         _sum: { calories: true },
         having: {
           calories: { _sum: { gte: 1800 } },
         },
       });
 
+      const fastingStats = await FastingService.getAchievementStats(userId);
+
       const userStats: UserStats = {
         currentStreak: user.current_streak || 0,
         bestStreak: user.best_streak || 0,
@@ -394,6 +416,7 @@ export class AchievementService {
         totalCalorieGoals: mealDays.length,
         totalXP: user.total_points || 0,
         aiRequestsCount: user.ai_requests_count || 0,
+        ...fastingStats,
       };
 
       const userAchievements = await prisma.userAchievement.findMany({
@@ -521,6 +544,7 @@ export class AchievementService {
     const completedMeals = await prisma.meal.count({
       where: {
         user_id: userId,
+        deleted_at: null,
         upload_time: {
           gte: yesterday,
           lt: new Date(yesterday.getTime() + 24 * 60 * 60 * 1000),
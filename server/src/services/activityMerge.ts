@@ -0,0 +1,75 @@
+import { ActivityMetric, DeviceType } from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  mergeActivityDays,
+  SourcePriorities,
+} from "../lib/devices/activityMerge";
+import { MergedActivityDay } from "../types/devices";
+
+export class ActivityMergeService {
+  // The user's device order per metric, empty where none was set
+  static async getPriorities(user_id: string) {
+    const rows = await prisma.activitySourcePriority.findMany({
+      where: { user_id },
+    });
+    return Object.values(ActivityMetric).map((metric) => ({
+      metric,
+      sources: rows.find((row) => row.metric === metric)?.sources || [],
+    }));
+  }
+
+  static async setPriority(
+    user_id: string,
+    metric: ActivityMetric,
+    sources: DeviceType[]
+  ) {
+    const unique = [...new Set(sources)];
+    const priority = await prisma.activitySourcePriority.upsert({
+      where: { user_id_metric: { user_id, metric } },
+      create: { user_id, metric, sources: unique },
+      update: { sources: unique },
+    });
+
+    console.log(`🔀 ${metric} sources set for`, user_id, unique);
+    return { metric: priority.metric, sources: priority.sources };
+  }
+
+  /**
+   * One record per day between the dates, newest first, merged from every
+   * device that reported it.
+   */
+  static async getMergedDays(
+    user_id: string,
+    startDate: string,
+    endDate: string
+  ): Promise<MergedActivityDay[]> {
+    const [rows, priorities] = await Promise.all([
+      prisma.dailyActivitySummary.findMany({
+        where: {
+          user_id,
+          date: { gte: new Date(startDate), lte: new Date(endDate) },
+        },
+        include: {
+          device: {
+            select: {
+              device_type: true,
+              device_name: true,
+              is_primary_device: true,
+            },
+          },
+        },
+      }),
+      prisma.activitySourcePriority.findMany({ where: { user_id } }),
+    ]);
+
+    const order: SourcePriorities = Object.fromEntries(
+      priorities.map((priority) => [priority.metric, priority.sources])
+    );
+    return mergeActivityDays(rows, order);
+  }
+
+  static async getMergedDay(user_id: string, date: string) {
+    const [day] = await this.getMergedDays(user_id, date, date);
+    return day || null;
+  }
+}
@@ -0,0 +1,433 @@
+import {
+  AdaptiveGoalsMode,
+  GoalAdjustment,
+  GoalAdjustmentReason,
+} from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  ESTIMATE_WINDOW_DAYS,
+  MIN_CHANGE_KCAL,
+  MIN_LOGGED_DAYS,
+  MIN_TREND_SPAN_DAYS,
+  blendTdee,
+  formulaTdee,
+  idealCalories,
+  intakeTdee,
+  isPlausibleTdee,
+  macrosFor,
+  targetCalories,
+  targetWeeklyPace,
+} from "../lib/tdee";
+import {
+  AdaptiveGoalsStatus,
+  GoalAdjustmentsQuery,
+  TdeeEstimate,
+} from "../types/adaptiveGoals";
+import {
+  daysBetween,
+  getLocalDateString,
+  resolveTimezone,
+  shiftDate,
+} from "../utils/timezone";
+import { ActivityMergeService } from "./activityMerge";
+import { DailyGoalsService } from "./dailyGoal";
+import { WeightService } from "./weight";
+
+const kcal = (value: number) =>
+  `${Math.round(value).toLocaleString("en-US")} kcal`;
+
+async function getUserContext(user_id: string) {
+  const user = await prisma.user.findUnique({
+    where: { user_id },
+    select: {
+      timezone: true,
+      adaptive_goals_mode: true,
+      questionnaires: {
+        orderBy: { date_completed: "desc" },
+        take: 1,
+      },
+    },
+  });
+  if (!user) throw new Error("User not found");
+
+  const questionnaire = user.questionnaires[0];
+  if (!questionnaire) throw new Error("Questionnaire not found");
+
+  const timezone = resolveTimezone(user.timezone);
+  return {
+    timezone,
+    today: getLocalDateString(new Date(), timezone),
+    mode: user.adaptive_goals_mode,
+    questionnaire,
+  };
+}
+
+// Monday of the local week, adjustments are made once a week
+function weekStart(today: string): string {
+  const weekday = new Date(`${today}T00:00:00.000Z`).getUTCDay();
+  return shiftDate(today, -((weekday + 6) % 7));
+}
+
+function explain(
+  estimate: TdeeEstimate,
+  pace: { pace: number; from_goal_date: boolean },
+  previous_calories: number,
+  calories: number
+): string {
+  const sentences: string[] = [];
+
+  if (estimate.intake_tdee !== null && estimate.trend_change_kg !== null) {
+    const direction = estimate.trend_change_kg < 0 ? "down" : "up";
+    sentences.push(
+      `Over the last ${ESTIMATE_WINDOW_DAYS} days you ate about ${kcal(
+        estimate.average_intake || 0
+      )} a day and your trend weight went ${direction} ${Math.abs(
+        estimate.trend_change_kg
+      ).toFixed(1)} kg, so you burn about ${kcal(
+        estimate.estimated_tdee
+      )} a day.`
+    );
+  } else {
+    const missing =
+      estimate.logged_days < MIN_LOGGED_DAYS
+        ? ` (${estimate.logged_days} of ${MIN_LOGGED_DAYS} days logged)`
+        : "";
+    sentences.push(
+      `There aren't enough logged meals and weigh-ins yet to measure what you burn${missing}, ` +
+        `so it is estimated at ${kcal(
+          estimate.estimated_tdee
+        )} a day from your profile` +
+        `${estimate.device_tdee !== null ? " and devices" : ""}.`
+    );
+  }
+
+  const paceText =
+    pace.pace === 0
+      ? "To keep your weight steady"
+      : `To ${pace.pace < 0 ? "lose" : "gain"} ${Math.abs(pace.pace).toFixed(
+          2
+        )} kg a week${
+          pace.from_goal_date ? " and reach your target on time" : ""
+        }`;
+  sentences.push(
+    `${paceText} your goal changes from ${kcal(previous_calories)} to ${kcal(
+      calories
+    )}.`
+  );
+
+  return sentences.join(" ");
+}
+
+export class AdaptiveGoalsService {
+  /**
+   * Estimates daily expenditure from the last four weeks of logged meals and
+   * weight trend, blended with the profile formula and device burn.
+   */
+  static async getEstimate(user_id: string): Promise<TdeeEstimate> {
+    const { timezone, today, questionnaire } = await getUserContext(user_id);
+    // Today is still being logged, so the window ends yesterday
+    const window_end = shiftDate(today, -1);
+    const window_start = shiftDate(today, -ESTIMATE_WINDOW_DAYS);
+
+    const [meals, activity, trendPoints] = await Promise.all([
+      prisma.meal.findMany({
+        where: {
+          user_id,
+          deleted_at: null,
+          upload_time: {
+            gte: new Date(shiftDate(window_start, -1)),
+            lt: new Date(shiftDate(today, 1)),
+          },
+        },
+        select: { upload_time: true, calories: true },
+      }),
+      ActivityMergeService.getMergedDays(user_id, window_start, window_end),
+      WeightService.getTrendPoints(user_id, window_start),
+    ]);
+
+    const intakeByDay = new Map<string, number>();
+    for (const meal of meals) {
+      const date = getLocalDateString(meal.upload_time, timezone);
+      if (date < window_start || date > window_end) continue;
+      intakeByDay.set(
+        date,
+        (intakeByDay.get(date) || 0) + (meal.calories || 0)
+      );
+    }
+    const intakes = [...intakeByDay.values()].filter((value) => value > 0);
+    const logged_days = intakes.length;
+    const average_intake = logged_days
+      ? Math.round(intakes.reduce((sum, value) => sum + value, 0) / logged_days)
+      : null;
+
+    const burnByDay = new Map<string, number>();
+    for (const day of activity) {
+      const total = day.calories_burned + day.bmr_estimate;
+      if (total > 0) burnByDay.set(day.date, total);
+    }
+    const device_days = burnByDay.size;
+    const device_tdee = device_days
+      ? Math.round(
+          [...burnByDay.values()].reduce((sum, value) => sum + value, 0) /
+            device_days
+        )
+      : null;
+
+    const points = trendPoints.filter((point) => point.date <= window_end);
+    const first = points[0];
+    const last = points[points.length - 1];
+    const trendSpan = first ? daysBetween(first.date, last.date) : 0;
+    const trend_change_kg =
+      trendSpan >= MIN_TREND_SPAN_DAYS
+        ? Math.round((last.trend_kg - first.trend_kg) * 100) / 100
+        : null;
+
+    const formula_tdee = formulaTdee({
+      weight_kg: last?.trend_kg || questionnaire.weight_kg,
+      height_cm: questionnaire.height_cm,
+      age: questionnaire.age,
+      gender: questionnaire.gender,
+      physical_activity_level: questionnaire.physical_activity_level,
+    });
+
+    let intake_tdee: number | null = null;
+    if (
+      average_intake !== null &&
+      logged_days >= MIN_LOGGED_DAYS &&
+      trend_change_kg !== null
+    ) {
+      const measured = intakeTdee(average_intake, trend_change_kg, trendSpan);
+      if (isPlausibleTdee(measured, formula_tdee)) intake_tdee = measured;
+    }
+
+    const { estimated_tdee, confidence } = blendTdee({
+      formula_tdee,
+      intake_tdee,
+      logged_days,
+      device_tdee,
+      device_days,
+    });
+
+    return {
+      window_start,
+      window_end,
+      formula_tdee,
+      intake_tdee,
+      average_intake,
+      logged_days,
+      trend_change_kg,
+      trend_weight_kg: last?.trend_kg ?? null,
+      device_tdee,
+      device_days,
+      estimated_tdee,
+      confidence,
+    };
+  }
+
+  static async getStatus(user_id: string): Promise<AdaptiveGoalsStatus> {
+    const { mode, today } = await getUserContext(user_id);
+    const [estimate, current, pending] = await Promise.all([
+      this.getEstimate(user_id),
+      DailyGoalsService.getActivePlan(user_id, today),
+      prisma.goalAdjustment.findFirst({
+        where: { user_id, status: "PENDING" },
+        orderBy: { week_start: "desc" },
+      }),
+    ]);
+
+    return {
+      mode,
+      estimate,
+      current_calories: current?.calories ?? null,
+      pending,
+    };
+  }
+
+  /**
+   * Works out this week's adjustment. A pending one is refreshed, one the
+   * user already acted on is left alone, and with auto-apply it takes
+   * effect straight away. Null when the goal doesn't need to move.
+   */
+  static async runWeeklyAdjustment(
+    user_id: string
+  ): Promise<GoalAdjustment | null> {
+    const { today, mode, questionnaire } = await getUserContext(user_id);
+    if (mode === "OFF") return null;
+
+    const week_start = weekStart(today);
+    const existing = await prisma.goalAdjustment.findUnique({
+      where: {
+        user_id_week_start: { user_id, week_start: new Date(week_start) },
+      },
+    });
+    if (existing && existing.status !== "PENDING") return existing;
+
+    const [estimate, trend, current] = await Promise.all([
+      this.getEstimate(user_id),
+      WeightService.getTrend(user_id, { days: ESTIMATE_WINDOW_DAYS }),
+      DailyGoalsService.getActivePlan(user_id, today),
+    ]);
+
+    const pace = targetWeeklyPace(
+      questionnaire.main_goal,
+      trend.projection.required_weekly_rate_kg
+    );
+    // Without a goal row yet the formula target is what the user had
+    const previous_calories =
+      current?.calories ?? idealCalories(estimate.formula_tdee, pace.pace);
+    const calories = targetCalories(
+      estimate.estimated_tdee,
+      pace.pace,
+      previous_calories
+    );
+
+    if (Math.abs(calories - previous_calories) < MIN_CHANGE_KCAL) {
+      if (existing) {
+        await prisma.goalAdjustment.delete({
+          where: { adjustment_id: existing.adjustment_id },
+        });
+      }
+      return null;
+    }
+
+    const reason: GoalAdjustmentReason =
+      estimate.intake_tdee === null
+        ? "ESTIMATED_EXPENDITURE"
+        : pace.from_goal_date
+        ? "GOAL_PACE"
+        : "MEASURED_EXPENDITURE";
+
+    const data = {
+      estimated_tdee: estimate.estimated_tdee,
+      formula_tdee: estimate.formula_tdee,
+      intake_tdee: estimate.intake_tdee,
+      device_tdee: estimate.device_tdee,
+      confidence: estimate.confidence,
+      average_intake: estimate.average_intake,
+      logged_days: estimate.logged_days,
+      trend_change_kg: estimate.trend_change_kg,
+      target_weekly_kg: pace.pace,
+      previous_calories,
+      calories,
+      ...macrosFor(
+        calories,
+        estimate.trend_weight_kg || questionnaire.weight_kg
+      ),
+      reason,
+      explanation: explain(estimate, pace, previous_calories, calories),
+    };
+
+    // An unanswered suggestion from an earlier week is replaced by this one
+    await prisma.goalAdjustment.updateMany({
+      where: {
+        user_id,
+        status: "PENDING",
+        week_start: { lt: new Date(week_start) },
+      },
+      data: { status: "DISMISSED" },
+    });
+
+    const adjustment = existing
+      ? await prisma.goalAdjustment.update({
+          where: { adjustment_id: existing.adjustment_id },
+          data,
+        })
+      : await prisma.goalAdjustment.create({
+          data: { ...data, user_id, week_start: new Date(week_start) },
+        });
+
+    console.log(
+      `🎯 Goal adjustment for user ${user_id}: ${previous_calories} → ${calories} kcal`
+    );
+
+    if (mode === "AUTO_APPLY") {
+      return this.applyAdjustment(user_id, adjustment.adjustment_id);
+    }
+    return adjustment;
+  }
+
+  // Weekly job over everyone who hasn't turned adaptive goals off
+  static async runWeeklyAdjustments() {
+    const users = await prisma.user.findMany({
+      where: {
+        adaptive_goals_mode: { not: "OFF" },
+        is_questionnaire_completed: true,
+      },
+      select: { user_id: true },
+    });
+
+    let adjusted = 0;
+    for (const { user_id } of users) {
+      try {
+        if (await this.runWeeklyAdjustment(user_id)) adjusted++;
+      } catch (error) {
+        console.error(`💥 Goal adjustment failed for user ${user_id}:`, error);
+      }
+    }
+
+    console.log(
+      `✅ Weekly goal adjustments: ${adjusted}/${users.length} users`
+    );
+  }
+
+  // Makes the adjustment the calorie and macro goal from today on
+  static async applyAdjustment(user_id: string, adjustment_id: number) {
+    const adjustment = await prisma.goalAdjustment.findFirst({
+      where: { adjustment_id, user_id },
+    });
+    if (!adjustment) throw new Error("Goal adjustment not found");
+    if (adjustment.status !== "PENDING") {
+      throw new Error("Goal adjustment is no longer pending");
+    }
+
+    // A new goal version from today, earlier days keep their goals
+    await DailyGoalsService.createPlanVersion(
+      user_id,
+      {
+        calories: adjustment.calories,
+        protein_g: adjustment.protein_g,
+        carbs_g: adjustment.carbs_g,
+        fats_g: adjustment.fats_g,
+      },
+      "ADAPTIVE"
+    );
+    const applied = await prisma.goalAdjustment.update({
+      where: { adjustment_id },
+      data: { status: "APPLIED", applied_at: new Date() },
+    });
+
+    console.log(`✅ Applied goal adjustment ${adjustment_id} for ${user_id}`);
+    return applied;
+  }
+
+  static async dismissAdjustment(user_id: string, adjustment_id: number) {
+    const adjustment = await prisma.goalAdjustment.findFirst({
+      where: { adjustment_id, user_id },
+    });
+    if (!adjustment) throw new Error("Goal adjustment not found");
+    if (adjustment.status !== "PENDING") {
+      throw new Error("Goal adjustment is no longer pending");
+    }
+
+    return prisma.goalAdjustment.update({
+      where: { adjustment_id },
+      data: { status: "DISMISSED" },
+    });
+  }
+
+  static async getAdjustments(user_id: string, query: GoalAdjustmentsQuery) {
+    return prisma.goalAdjustment.findMany({
+      where: { user_id },
+      orderBy: { week_start: "desc" },
+      take: query.limit,
+    });
+  }
+
+  static async updateMode(user_id: string, mode: AdaptiveGoalsMode) {
+    await prisma.user.update({
+      where: { user_id },
+      data: { adaptive_goals_mode: mode },
+    });
+    return { mode };
+  }
+}
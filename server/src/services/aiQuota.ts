@@ -0,0 +1,287 @@
+import { AIFeature, Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { AuthService } from "./auth";
+import {
+  getLocalDateString,
+  getNextLocalMidnight,
+  resolveTimezone,
+} from "../utils/timezone";
+
+// Old usage rows are only kept around for reporting
+const USAGE_RETENTION_DAYS = 35;
+
+export interface AIQuotaUsage {
+  limit: number; // -1 = unlimited
+  used: number;
+  remaining: number; // -1 = unlimited
+}
+
+export interface AIQuotaStatus {
+  feature: AIFeature;
+  subscription_type: string;
+  timezone: string;
+  usage_date: string;
+  reset_at: string;
+  feature_quota: AIQuotaUsage;
+  total_quota: AIQuotaUsage;
+}
+
+export interface AIQuotaConsumeResult {
+  allowed: boolean;
+  quota: AIQuotaStatus;
+}
+
+function toUsage(limit: number, used: number): AIQuotaUsage {
+  return {
+    limit,
+    used,
+    remaining: limit === -1 ? -1 : Math.max(limit - used, 0),
+  };
+}
+
+export class AIQuotaService {
+  /**
+   * Reserves one request of the feature for today. Usage is incremented first
+   * and rolled back when over the limit, so concurrent requests can't both
+   * slip through on the last remaining slot.
+   */
+  static async consume(
+    user_id: string,
+    feature: AIFeature
+  ): Promise<AIQuotaConsumeResult> {
+    return prisma.$transaction(async (tx) => {
+      const user = await tx.user.findUnique({
+        where: { user_id },
+        select: {
+          subscription_type: true,
+          timezone: true,
+          ai_requests_reset_at: true,
+        },
+      });
+      if (!user) throw new Error("User not found");
+
+      // The stored timezone only, a request can't pick its own quota day
+      const now = new Date();
+      const userTimezone = resolveTimezone(user.timezone);
+      const usage_date = getLocalDateString(now, userTimezone);
+      const permissions = await AuthService.getRolePermissions(
+        user.subscription_type
+      );
+      const featureLimit = permissions.featureLimits[feature];
+
+      const usage = await tx.aIUsage.upsert({
+        where: { user_id_feature_usage_date: { user_id, feature, usage_date } },
+        create: { user_id, feature, usage_date, count: 1 },
+        update: { count: { increment: 1 } },
+      });
+      const totalUsed = await this.sumUsage(tx, user_id, usage_date);
+
+      const overFeatureLimit =
+        featureLimit !== -1 && usage.count > featureLimit;
+      const overTotalLimit =
+        permissions.dailyRequests !== -1 &&
+        totalUsed > permissions.dailyRequests;
+
+      if (overFeatureLimit || overTotalLimit) {
+        await tx.aIUsage.update({
+          where: { usage_id: usage.usage_id },
+          data: { count: { decrement: 1 } },
+        });
+
+        return {
+          allowed: false,
+          quota: this.buildStatus({
+            feature,
+            subscription_type: user.subscription_type,
+            timezone: userTimezone,
+            usage_date,
+            now,
+            featureLimit,
+            featureUsed: usage.count - 1,
+            totalLimit: permissions.dailyRequests,
+            totalUsed: totalUsed - 1,
+          }),
+        };
+      }
+
+      // Keep the legacy per-user counter in step, it feeds statistics
+      const startedNewDay =
+        getLocalDateString(user.ai_requests_reset_at, userTimezone) !==
+        usage_date;
+
+      await tx.user.update({
+        where: { user_id },
+        data: {
+          ai_requests_count: startedNewDay ? 1 : { increment: 1 },
+          ...(startedNewDay && { ai_requests_reset_at: now }),
+        },
+      });
+
+      return {
+        allowed: true,
+        quota: this.buildStatus({
+          feature,
+          subscription_type: user.subscription_type,
+          timezone: userTimezone,
+          usage_date,
+          now,
+          featureLimit,
+          featureUsed: usage.count,
+          totalLimit: permissions.dailyRequests,
+          totalUsed,
+        }),
+      };
+    });
+  }
+
+  /**
+   * Gives back a reserved request when the AI call it was taken for failed.
+   * The legacy counter only holds today, so a refund for an earlier day
+   * leaves it alone.
+   */
+  static async refund(user_id: string, feature: AIFeature, usage_date: string) {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { user_id },
+        select: { timezone: true },
+      });
+      const isToday =
+        !!user &&
+        getLocalDateString(new Date(), resolveTimezone(user.timezone)) ===
+          usage_date;
+
+      await prisma.$transaction([
+        prisma.aIUsage.updateMany({
+          where: { user_id, feature, usage_date, count: { gt: 0 } },
+          data: { count: { decrement: 1 } },
+        }),
+        ...(isToday
+          ? [
+              prisma.user.updateMany({
+                where: { user_id, ai_requests_count: { gt: 0 } },
+                data: { ai_requests_count: { decrement: 1 } },
+              }),
+            ]
+          : []),
+      ]);
+    } catch (error) {
+      console.warn("⚠️ Failed to refund AI quota:", error);
+    }
+  }
+
+  static async getQuotaSummary(user_id: string) {
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      select: { subscription_type: true, timezone: true },
+    });
+    if (!user) throw new Error("User not found");
+
+    const now = new Date();
+    const userTimezone = resolveTimezone(user.timezone);
+    const usage_date = getLocalDateString(now, userTimezone);
+    const permissions = await AuthService.getRolePermissions(
+      user.subscription_type
+    );
+
+    const usageRows = await prisma.aIUsage.findMany({
+      where: { user_id, usage_date },
+    });
+    const usedByFeature = new Map(
+      usageRows.map((row) => [row.feature, row.count])
+    );
+    const totalUsed = usageRows.reduce((sum, row) => sum + row.count, 0);
+
+    const features = Object.values(AIFeature).reduce(
+      (acc, feature) => ({
+        ...acc,
+        [feature]: toUsage(
+          permissions.featureLimits[feature],
+          usedByFeature.get(feature) || 0
+        ),
+      }),
+      {} as Record<AIFeature, AIQuotaUsage>
+    );
+
+    return {
+      subscription_type: user.subscription_type,
+      timezone: userTimezone,
+      usage_date,
+      reset_at: getNextLocalMidnight(now, userTimezone).toISOString(),
+      total: toUsage(permissions.dailyRequests, totalUsed),
+      features,
+    };
+  }
+
+  /**
+   * Zeroes the legacy counter for users whose local day has rolled over and
+   * prunes old usage rows. Runs hourly so every timezone is reset close to
+   * its own midnight.
+   */
+  static async resetExpiredCounters() {
+    const now = new Date();
+
+    const users = await prisma.user.findMany({
+      where: { ai_requests_count: { gt: 0 } },
+      select: { user_id: true, timezone: true, ai_requests_reset_at: true },
+    });
+
+    const expiredUserIds = users
+      .filter((user) => {
+        const timezone = resolveTimezone(user.timezone);
+        return (
+          getLocalDateString(user.ai_requests_reset_at, timezone) !==
+          getLocalDateString(now, timezone)
+        );
+      })
+      .map((user) => user.user_id);
+
+    if (expiredUserIds.length > 0) {
+      await prisma.user.updateMany({
+        where: { user_id: { in: expiredUserIds } },
+        data: { ai_requests_count: 0, ai_requests_reset_at: now },
+      });
+    }
+
+    const cutoff = new Date(now);
+    cutoff.setDate(cutoff.getDate() - USAGE_RETENTION_DAYS);
+    const pruned = await prisma.aIUsage.deleteMany({
+      where: { usage_date: { lt: cutoff.toISOString().split("T")[0] } },
+    });
+
+    return { resetUsers: expiredUserIds.length, prunedRows: pruned.count };
+  }
+
+  private static async sumUsage(
+    tx: Prisma.TransactionClient,
+    user_id: string,
+    usage_date: string
+  ) {
+    const total = await tx.aIUsage.aggregate({
+      where: { user_id, usage_date },
+      _sum: { count: true },
+    });
+    return total._sum.count || 0;
+  }
+
+  private static buildStatus(params: {
+    feature: AIFeature;
+    subscription_type: string;
+    timezone: string;
+    usage_date: string;
+    now: Date;
+    featureLimit: number;
+    featureUsed: number;
+    totalLimit: number;
+    totalUsed: number;
+  }): AIQuotaStatus {
+    return {
+      feature: params.feature,
+      subscription_type: params.subscription_type,
+      timezone: params.timezone,
+      usage_date: params.usage_date,
+      reset_at: getNextLocalMidnight(params.now, params.timezone).toISOString(),
+      feature_quota: toUsage(params.featureLimit, params.featureUsed),
+      total_quota: toUsage(params.totalLimit, params.totalUsed),
+    };
+  }
+}
@@ -0,0 +1,211 @@
+import { prisma } from "../lib/database";
+import {
+  ALLERGENS,
+  CONDITION_ALLERGENS,
+  INTOLERANCE_MARKERS,
+  collectFoodText,
+  findTerms,
+  getAllergen,
+  normalizeAllergenText,
+} from "../lib/allergens";
+import {
+  AllergenWarning,
+  AllergyProfile,
+  AllergySeverity,
+  DeclaredAllergen,
+  FoodAllergenSource,
+} from "../types/allergens";
+
+interface QuestionnaireAllergies {
+  allergies?: string[] | null;
+  allergies_text?: string[] | null;
+  food_related_medical_issues?: string[] | null;
+}
+
+function toDeclared(
+  allergen: string,
+  severity: AllergySeverity,
+  declared_as: string
+): DeclaredAllergen | null {
+  const definition = getAllergen(allergen);
+  if (!definition) return null;
+  return {
+    allergen,
+    label: definition.label,
+    severity,
+    terms: definition.terms,
+    exclusions: definition.exclusions || [],
+    free_from: definition.free_from || [],
+    declared_as,
+  };
+}
+
+export class AllergenService {
+  /**
+   * Maps questionnaire answers onto allergens from the synonym table. Free
+   * text that names no known allergen is kept and matched literally.
+   * Medical issues only count when they name an allergen or a condition
+   * such as celiac disease.
+   */
+  static buildProfile(
+    questionnaire: QuestionnaireAllergies | null | undefined
+  ): AllergyProfile {
+    const byAllergen = new Map<string, DeclaredAllergen>();
+
+    const add = (entry: DeclaredAllergen | null) => {
+      if (!entry) return;
+      const existing = byAllergen.get(entry.allergen);
+      // An allergy outranks an intolerance to the same food
+      if (
+        !existing ||
+        (existing.severity !== "allergy" && entry.severity === "allergy")
+      ) {
+        byAllergen.set(entry.allergen, entry);
+      }
+    };
+
+    const declare = (text: string, keepUnknown: boolean) => {
+      const normalized = normalizeAllergenText(text);
+      if (!normalized) return;
+
+      const severity: AllergySeverity =
+        findTerms(text, INTOLERANCE_MARKERS).length > 0
+          ? "intolerance"
+          : "allergy";
+
+      let recognized = false;
+      for (const condition of CONDITION_ALLERGENS) {
+        if (findTerms(text, condition.terms).length > 0) {
+          add(toDeclared(condition.allergen, "allergy", text));
+          recognized = true;
+        }
+      }
+      for (const allergen of ALLERGENS) {
+        if (findTerms(text, allergen.terms).length > 0) {
+          add(toDeclared(allergen.id, severity, text));
+          recognized = true;
+        }
+      }
+
+      if (!recognized && keepUnknown) {
+        byAllergen.set(`custom:${normalized}`, {
+          allergen: "custom",
+          label: { en: text.trim(), he: text.trim() },
+          severity,
+          terms: [normalized],
+          exclusions: [],
+          free_from: [],
+          declared_as: text,
+        });
+      }
+    };
+
+    for (const text of [
+      ...(questionnaire?.allergies || []),
+      ...(questionnaire?.allergies_text || []),
+    ]) {
+      declare(text, true);
+    }
+    for (const text of questionnaire?.food_related_medical_issues || []) {
+      declare(text, false);
+    }
+
+    return { allergens: [...byAllergen.values()] };
+  }
+
+  static async getUserProfile(user_id: string): Promise<AllergyProfile> {
+    const questionnaire = await prisma.userQuestionnaire.findFirst({
+      where: { user_id },
+      orderBy: { date_completed: "desc" },
+      select: {
+        allergies: true,
+        allergies_text: true,
+        food_related_medical_issues: true,
+      },
+    });
+    return this.buildProfile(questionnaire);
+  }
+
+  /**
+   * Declared allergens found in the food's name, ingredients or allergen
+   * list. Derivatives count, so tahini warns a sesame allergy.
+   */
+  static checkFood(
+    profile: AllergyProfile,
+    food: FoodAllergenSource
+  ): AllergenWarning[] {
+    if (profile.allergens.length === 0) return [];
+
+    // Each name is matched on its own so "gluten free" only clears its item
+    const texts = collectFoodText([
+      food.name,
+      food.ingredients,
+      food.allergens,
+    ]).filter(Boolean);
+    if (texts.length === 0) return [];
+
+    return profile.allergens.flatMap((declared) => {
+      const matched = [
+        ...new Set(
+          texts.flatMap((text) =>
+            findTerms(
+              text,
+              declared.terms,
+              declared.exclusions,
+              declared.free_from
+            )
+          )
+        ),
+      ];
+      return matched.length > 0
+        ? [
+            {
+              allergen: declared.allergen,
+              label: declared.label,
+              severity: declared.severity,
+              matched,
+              declared_as: declared.declared_as,
+            },
+          ]
+        : [];
+    });
+  }
+
+  static async checkFoodForUser(user_id: string, food: FoodAllergenSource) {
+    const profile = await this.getUserProfile(user_id);
+    return this.checkFood(profile, food);
+  }
+
+  /**
+   * Splits generated meals into the ones the user can eat and the ones that
+   * contain a declared allergen, which callers must not offer.
+   */
+  static partitionMeals<T>(
+    profile: AllergyProfile,
+    meals: T[],
+    describe: (meal: T) => FoodAllergenSource
+  ): { safe: T[]; rejected: Array<{ meal: T; warnings: AllergenWarning[] }> } {
+    const safe: T[] = [];
+    const rejected: Array<{ meal: T; warnings: AllergenWarning[] }> = [];
+
+    for (const meal of meals) {
+      const warnings = this.checkFood(profile, describe(meal));
+      if (warnings.length > 0) rejected.push({ meal, warnings });
+      else safe.push(meal);
+    }
+
+    return { safe, rejected };
+  }
+
+  static formatWarning(warning: AllergenWarning, language: "en" | "he" = "he") {
+    const label = warning.label[language];
+    if (language === "he") {
+      return warning.severity === "allergy"
+        ? `⚠️ אלרגן: מכיל ${label} (${warning.matched.join(", ")})`
+        : `⚠️ רגישות: מכיל ${label} (${warning.matched.join(", ")})`;
+    }
+    return warning.severity === "allergy"
+      ? `⚠️ Allergen: contains ${label} (${warning.matched.join(", ")})`
+      : `⚠️ Intolerance: contains ${label} (${warning.matched.join(", ")})`;
+  }
+}
@@ -17,6 +17,7 @@ const userSelectFields = {
   birth_date: true,
   ai_requests_count: true,
   ai_requests_reset_at: true,
+  timezone: true,
   created_at: true,
   email_verified: true,
   is_questionnaire_completed: true,
@@ -828,10 +829,39 @@ export class AuthService {
     }
   }
   static async getRolePermissions(role: string) {
+    // -1 means unlimited. dailyRequests caps all AI features combined,
+    // featureLimits caps each feature on its own.
     const permissions = {
-      FREE: { dailyRequests: 10 },
-      PREMIUM: { dailyRequests: 50 },
-      GOLD: { dailyRequests: -1 },
+      FREE: {
+        dailyRequests: 10,
+        featureLimits: {
+          MEAL_ANALYSIS: 5,
+          CHAT: 10,
+          MENU_GENERATION: 1,
+          PRODUCT_SCAN: 3,
+          REPLACEMENT_MEAL: 3,
+        },
+      },
+      PREMIUM: {
+        dailyRequests: 50,
+        featureLimits: {
+          MEAL_ANALYSIS: 30,
+          CHAT: 50,
+          MENU_GENERATION: 5,
+          PRODUCT_SCAN: 20,
+          REPLACEMENT_MEAL: 20,
+        },
+      },
+      GOLD: {
+        dailyRequests: -1,
+        featureLimits: {
+          MEAL_ANALYSIS: -1,
+          CHAT: -1,
+          MENU_GENERATION: -1,
+          PRODUCT_SCAN: -1,
+          REPLACEMENT_MEAL: -1,
+        },
+      },
     };
 
     return permissions[role as keyof typeof permissions] ?? permissions.FREE;
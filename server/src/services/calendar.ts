@@ -1,4 +1,7 @@
 import { prisma } from "../lib/database";
+import { ActivityMergeService } from "./activityMerge";
+import { DailyGoalsService } from "./dailyGoal";
+import { FastingService } from "./fasting";
 import {
   CalendarStats,
   DayData,
@@ -8,7 +11,7 @@ import {
 } from "../types/calendar";
 
 export class CalendarService {
-  // Default nutritional goals (can be customized per user later)
+  // Goals for days before the user had any
   private static getDefaultGoals() {
     return {
       calories: 2000,
@@ -37,6 +40,7 @@ export class CalendarService {
       const meals = await prisma.meal.findMany({
         where: {
           user_id: user_id,
+          deleted_at: null,
           created_at: {
             gte: startDate,
             lte: new Date(endDate.getTime() + 24 * 60 * 60 * 1000),
@@ -61,22 +65,31 @@ export class CalendarService {
         },
       });
 
-      // Fetch activity data if available
-      const activities = await prisma.dailyActivitySummary.findMany({
-        where: {
-          user_id: user_id,
-          date: {
-            gte: startDate,
-            lte: endDate,
-          },
-        },
-      });
+      // Fetch activity data if available, one record per day across devices
+      const activities = await ActivityMergeService.getMergedDays(
+        user_id,
+        startDate.toISOString().split("T")[0],
+        endDate.toISOString().split("T")[0]
+      );
+
+      // Fasts and eating window violations, bucketed like the meals
+      const fastingByDate = await FastingService.getDaySummaries(
+        user_id,
+        startDate,
+        new Date(endDate.getTime() + 24 * 60 * 60 * 1000),
+        (date) => date.toISOString().split("T")[0]
+      );
 
       console.log("🍽️ Found", meals.length, "meals for the month");
       console.log("📅 Found", events.length, "events for the month");
 
-      // Get user goals (for now using defaults)
-      const goals = this.getDefaultGoals();
+      // Each day is compared with the goal that applied on it
+      const goalsByDate = await DailyGoalsService.getGoalsForRange(
+        user_id,
+        startDate.toISOString().split("T")[0],
+        endDate.toISOString().split("T")[0]
+      );
+      const defaultGoals = this.getDefaultGoals();
 
       // Group meals by date
       const mealsByDate: Record<string, any[]> = {};
@@ -101,8 +114,7 @@ export class CalendarService {
       // Group activities by date
       const activitiesByDate: Record<string, any> = {};
       activities.forEach((activity) => {
-        const dateStr = activity.date.toISOString().split("T")[0];
-        activitiesByDate[dateStr] = activity;
+        activitiesByDate[activity.date] = activity;
       });
 
       // Generate calendar data for each day of the month
@@ -115,6 +127,17 @@ export class CalendarService {
         const dayMeals = mealsByDate[dateStr] || [];
         const dayEvents = eventsByDate[dateStr] || [];
         const dayActivity = activitiesByDate[dateStr];
+        const dayFasting = fastingByDate[dateStr];
+        const dayGoal = goalsByDate[dateStr];
+        const goals = dayGoal
+          ? {
+              calories: dayGoal.calories,
+              protein: dayGoal.protein_g,
+              carbs: dayGoal.carbs_g,
+              fat: dayGoal.fats_g,
+              water: dayGoal.water_ml,
+            }
+          : defaultGoals;
 
         // Calculate totals for the day
         const totals = dayMeals.reduce(
@@ -137,7 +160,8 @@ export class CalendarService {
         const quality_score = this.calculateQualityScore(
           totals,
           goals,
-          dayEvents
+          dayEvents,
+          (dayFasting?.completed || 0) > 0
         );
 
         // Format events for response
@@ -162,6 +186,8 @@ export class CalendarService {
           quality_score,
           water_intake_ml: totals.water,
           events: formattedEvents,
+          ...(dayGoal && { day_type: dayGoal.day_type }),
+          ...(dayFasting && { fasting: dayFasting }),
         };
       }
 
@@ -240,6 +266,14 @@ export class CalendarService {
         prevDays.length > 0 ? (prevGoalDays / prevDays.length) * 100 : 0;
       const improvementPercent = Math.round(monthlyProgress - prevProgress);
 
+      const fastingDays = currentDays.filter(
+        (day) => (day.fasting?.completed || 0) > 0
+      ).length;
+      const fastingViolations = currentDays.reduce(
+        (sum, day) => sum + (day.fasting?.violations || 0),
+        0
+      );
+
       // Generate motivational message
       const motivationalMessage = this.generateMotivationalMessage(
         monthlyProgress,
@@ -268,6 +302,9 @@ export class CalendarService {
         motivationalMessage,
         gamificationBadges: badges,
         weeklyInsights: weeklyAnalysis.insights,
+        fastingDays,
+        fastingStreak: this.calculateFastingStreak(currentDays),
+        fastingViolations,
       };
 
       console.log("✅ Generated statistics:", statistics);
@@ -368,7 +405,8 @@ export class CalendarService {
       fat: number;
       water: number;
     },
-    events: any[]
+    events: any[],
+    fasted: boolean = false
   ): number {
     if (totals.calories === 0) return 0;
 
@@ -380,10 +418,12 @@ export class CalendarService {
     // Event-based adjustments
     let eventMultiplier = 1.0;
     const hasWorkoutEvent = events.some((event) => event.type === "workout");
-    const hasFastingEvent = events.some(
-      (event) =>
-        event.type === "health" && event.title.toLowerCase().includes("fast")
-    );
+    const hasFastingEvent =
+      fasted ||
+      events.some(
+        (event) =>
+          event.type === "health" && event.title.toLowerCase().includes("fast")
+      );
 
     if (hasWorkoutEvent) {
       eventMultiplier = 1.1; // Slight bonus for workout days
@@ -407,6 +447,17 @@ export class CalendarService {
     return Math.round(finalScore);
   }
 
+  // Longest run of days in the month with a completed fast
+  private static calculateFastingStreak(days: DayData[]): number {
+    let best = 0;
+    let run = 0;
+    for (const day of [...days].sort((a, b) => a.date.localeCompare(b.date))) {
+      run = (day.fasting?.completed || 0) > 0 ? run + 1 : 0;
+      best = Math.max(best, run);
+    }
+    return best;
+  }
+
   private static calculateStreakDays(days: DayData[]): number {
     let streak = 0;
     const today = new Date();
@@ -1,11 +1,5 @@
-import OpenAI from "openai";
 import { prisma } from "../lib/database";
-
-const openai = process.env.OPENAI_API_KEY
-  ? new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    })
-  : null;
+import { getAIProvider } from "../lib/ai";
 
 export class ChatService {
   static async processMessage(
@@ -39,39 +33,40 @@ export class ChatService {
       );
 
       let aiResponse: string;
+      const provider = getAIProvider();
 
-      if (!openai || !process.env.OPENAI_API_KEY) {
-        console.log("⚠️ No OpenAI API key, using fallback response");
+      if (!provider) {
+        console.log("⚠️ No AI provider configured, using fallback response");
         aiResponse = this.getFallbackResponse(message, language);
       } else {
         try {
-          console.log("🔄 Calling OpenAI API...");
+          console.log(`🔄 Calling ${provider.name} provider...`);
 
-          // Call OpenAI with improved error handling
-          const response = await openai.chat.completions.create({
-            model: "gpt-5",
+          // Call the AI provider with improved error handling
+          const aiContent = await provider.generateText({
+            task: "chat",
+            model: "reasoning",
+            context: { language },
             messages: [
               { role: "system", content: systemPrompt },
               ...conversationHistory,
             ],
-            max_tokens: 1000,
+            maxTokens: 1000,
             temperature: 0.7,
           });
 
-          const aiContent = response.choices[0]?.message?.content;
-
           if (!aiContent || aiContent.trim() === "") {
-            console.log("⚠️ Empty response from OpenAI, using fallback");
+            console.log("⚠️ Empty response from AI provider, using fallback");
             aiResponse = this.getFallbackResponse(message, language);
           } else {
             aiResponse = aiContent.trim();
             console.log(
-              "✅ OpenAI response received:",
+              "✅ AI response received:",
               aiResponse.substring(0, 100) + "..."
             );
           }
-        } catch (openaiError) {
-          console.error("💥 OpenAI API error:", openaiError);
+        } catch (aiError) {
+          console.error("💥 AI provider error:", aiError);
           aiResponse = this.getFallbackResponse(message, language);
         }
       }
@@ -203,6 +198,7 @@ For cooking questions: give suggestions for nutritional improvement of the recip
       const todayMeals = await prisma.meal.findMany({
         where: {
           user_id: userId,
+          deleted_at: null,
           created_at: {
             gte: new Date(today),
             lt: new Date(new Date(today).getTime() + 24 * 60 * 60 * 1000),
@@ -427,8 +423,9 @@ For cooking questions: give suggestions for nutritional improvement of the recip
         Be specific, safe, and practical in your recommendations. Answer in Hebrew.
       `;
 
-      // Process with OpenAI
-      if (!process.env.OPENAI_API_KEY || !openai) {
+      // Process with the AI provider
+      const provider = getAIProvider();
+      if (!provider) {
         return `על בסיס הפעילות שלך היום (${healthData.steps} צעדים, ${
           healthData.caloriesBurned
         } קלוריות שנשרפו), מומלץ:
@@ -441,8 +438,10 @@ For cooking questions: give suggestions for nutritional improvement of the recip
         הערה: זוהי המלצה כללית. לייעוץ אישי, יש להוסיף מפתח OpenAI.`;
       }
 
-      const completion = await openai.chat.completions.create({
-        model: "gpt-5",
+      const completion = await provider.generateText({
+        task: "chat",
+        model: "reasoning",
+        context: { language: "hebrew" },
         messages: [
           {
             role: "system",
@@ -454,14 +453,11 @@ For cooking questions: give suggestions for nutritional improvement of the recip
             content: healthPrompt,
           },
         ],
-        max_tokens: 500,
+        maxTokens: 500,
         temperature: 0.7,
       });
 
-      return (
-        completion.choices[0]?.message?.content ||
-        "לא הצלחתי ליצור המלצות מותאמות אישית."
-      );
+      return completion || "לא הצלחתי ליצור המלצות מותאמות אישית.";
     } catch (error) {
       console.error("Error in health-based recommendation:", error);
       throw error;
@@ -1,18 +1,15 @@
-import { prisma } from '../lib/database';
+import { AIQuotaService } from './aiQuota';
 
+// AI quotas roll over at each user's local midnight, so this runs hourly
+// and only resets users whose day has changed
 export async function resetDailyLimits() {
   try {
-    const now = new Date();
-    
-    await prisma.user.updateMany({
-      data: {
-        ai_requests_count: 0,
-        ai_requests_reset_at: now,
-      }
-    });
+    const { resetUsers, prunedRows } = await AIQuotaService.resetExpiredCounters();
 
-    console.log(`✅ Daily AI request limits reset at ${now.toISOString()}`);
+    console.log(
+      `✅ Daily AI request limits reset for ${resetUsers} users (${prunedRows} old usage rows pruned)`
+    );
   } catch (error) {
     console.error('❌ Error resetting daily limits:', error);
   }
-}
\ No newline at end of file
+}
@@ -1,5 +1,11 @@
 import cron from "node-cron";
 import { prisma } from "../lib/database";
+import { MealAnalysisJobService } from "./mealAnalysisJobs";
+import { resetDailyLimits } from "./cron";
+import { AdaptiveGoalsService } from "./adaptiveGoals";
+import { DailyGoalsService } from "./dailyGoal";
+import { MealRevisionService } from "./mealRevisions";
+import { DeviceSyncService } from "./deviceSync";
 
 export class CronJobService {
   static initializeCronJobs() {
@@ -9,6 +15,45 @@ export class CronJobService {
       await this.resetDailyBadges();
     });
 
+    // Pick up meal analysis retries and jobs lost to a restart
+    cron.schedule("* * * * *", async () => {
+      await MealAnalysisJobService.recoverJobs();
+    });
+
+    // Roll AI quotas over as each user's local day ends
+    cron.schedule("5 * * * *", async () => {
+      await resetDailyLimits();
+    });
+
+    // Write the day's goal as each user's local day starts
+    cron.schedule("10 * * * *", async () => {
+      await this.createDailyGoalsForAllUsers();
+    });
+
+    // Weekly calorie goal check from intake and weight trend, Monday morning
+    cron.schedule("0 6 * * 1", async () => {
+      console.log("🎯 Running weekly adaptive goals job");
+      await AdaptiveGoalsService.runWeeklyAdjustments();
+    });
+
+    // Purge meals deleted longer ago than they can be restored
+    cron.schedule("30 3 * * *", async () => {
+      try {
+        await MealRevisionService.purgeDeleted();
+      } catch (error) {
+        console.error("❌ Failed to purge deleted meals:", error);
+      }
+    });
+
+    // Pull wearable data for devices whose sync frequency has passed
+    cron.schedule("20 * * * *", async () => {
+      try {
+        await DeviceSyncService.syncDueDevices();
+      } catch (error) {
+        console.error("❌ Failed to sync devices:", error);
+      }
+    });
+
     console.log("📅 Cron jobs initialized");
   }
 
@@ -32,95 +77,13 @@ export class CronJobService {
     }
   }
 
+  // Each user's goal for their new day, from the goal version in effect
   static async createDailyGoalsForAllUsers() {
     try {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-
-      // Get all users who don't have today's daily goal
-      const usersWithoutTodayGoal = await prisma.user.findMany({
-        where: {
-          dailyGoals: {
-            none: {
-              date: today,
-            },
-          },
-        },
-        include: {
-          questionnaires: {
-            orderBy: { date_completed: "desc" },
-            take: 1,
-          },
-        },
-      });
-
-      console.log(
-        `📊 Creating daily goals for ${usersWithoutTodayGoal.length} users`
-      );
-
-      for (const user of usersWithoutTodayGoal) {
-        const questionnaire = user.questionnaires[0];
-        const defaultCalories = this.calculateDailyCalories(
-          questionnaire,
-          user
-        );
-
-        await prisma.dailyGoal.create({
-          data: {
-            user_id: user.user_id,
-            date: today,
-            calories: defaultCalories,
-            protein_g: (defaultCalories * 0.25) / 4,
-            carbs_g: (defaultCalories * 0.45) / 4,
-            fats_g: (defaultCalories * 0.3) / 9,
-            fiber_g: 25,
-            sodium_mg: 2300,
-            sugar_g: 50,
-            water_ml: 2500,
-          },
-        });
-      }
-
-      console.log("✅ Daily goals created for all users");
+      const written = await DailyGoalsService.writeTodayForAllUsers();
+      console.log(`✅ Daily goals written for ${written} users`);
     } catch (error) {
       console.error("❌ Error creating daily goals:", error);
     }
   }
-
-  private static calculateDailyCalories(questionnaire: any, user: any): number {
-    if (!questionnaire) return 2000;
-
-    const weight = questionnaire.weight_kg || 70;
-    const height = questionnaire.height_cm || 170;
-    const age = questionnaire.age || 30;
-    const gender = questionnaire.gender || "male";
-
-    let bmr;
-    if (gender.toLowerCase() === "male") {
-      bmr = 10 * weight + 6.25 * height - 5 * age + 5;
-    } else {
-      bmr = 10 * weight + 6.25 * height - 5 * age - 161;
-    }
-
-    const activityMultipliers = {
-      NONE: 1.2,
-      LIGHT: 1.375,
-      MODERATE: 1.55,
-      HIGH: 1.725,
-    };
-
-    const activityLevel = questionnaire.physical_activity_level || "LIGHT";
-    const multiplier = activityMultipliers[activityLevel] || 1.375;
-
-    let tdee = bmr * multiplier;
-
-    const mainGoal = questionnaire.main_goal;
-    if (mainGoal === "WEIGHT_LOSS") {
-      tdee -= 500;
-    } else if (mainGoal === "WEIGHT_GAIN") {
-      tdee += 500;
-    }
-
-    return Math.round(Math.max(1200, Math.min(4000, tdee)));
-  }
 }
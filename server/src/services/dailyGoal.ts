@@ -1,6 +1,69 @@
+import { DailyGoal, GoalPlan, GoalPlanSource } from "@prisma/client";
 import { prisma } from "../lib/database";
+import {
+  GoalSchedule,
+  GoalTargets,
+  resolveDayTargets,
+  scheduleFromQuestionnaire,
+  weekdayOf,
+} from "../lib/goalSchedule";
+import { DayGoal } from "../types/dailyGoals";
+import {
+  getLocalDateString,
+  resolveTimezone,
+  shiftDate,
+} from "../utils/timezone";
+
+const toDateString = (date: Date) => date.toISOString().split("T")[0];
+
+async function getToday(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { user_id: userId },
+    select: { timezone: true },
+  });
+  if (!user) throw new Error("User not found");
+  return getLocalDateString(new Date(), resolveTimezone(user.timezone));
+}
+
+// The version in effect on the date, days before the first one use it too
+function planAt(plans: GoalPlan[], date: string): GoalPlan | undefined {
+  let current: GoalPlan | undefined = plans[0];
+  for (const plan of plans) {
+    if (toDateString(plan.effective_from) > date) break;
+    current = plan;
+  }
+  return current;
+}
+
+function dayGoalFromPlan(plan: GoalPlan, date: string): DayGoal {
+  return {
+    date,
+    plan_id: plan.plan_id,
+    ...resolveDayTargets(plan, weekdayOf(date)),
+  };
+}
+
+function dayGoalFromRow(row: DailyGoal): DayGoal {
+  return {
+    date: toDateString(row.date),
+    plan_id: row.plan_id,
+    day_type: row.day_type,
+    calories: row.calories,
+    protein_g: row.protein_g,
+    carbs_g: row.carbs_g,
+    fats_g: row.fats_g,
+    fiber_g: row.fiber_g,
+    sodium_mg: row.sodium_mg,
+    sugar_g: row.sugar_g,
+    water_ml: row.water_ml,
+  };
+}
 
 export class DailyGoalsService {
+  /**
+   * Recalculates the goals from the latest questionnaire as a new version
+   * starting today. Earlier days keep the goals they had.
+   */
   static async createOrUpdateDailyGoals(userId: string) {
     try {
       console.log(`📊 Creating/updating daily goals for user: ${userId}`);
@@ -17,28 +80,16 @@ export class DailyGoalsService {
 
       // Calculate daily goals based on questionnaire
       const dailyGoals = this.calculateDailyGoals(questionnaire);
+      const schedule = questionnaire
+        ? scheduleFromQuestionnaire(questionnaire)
+        : undefined;
 
-      // Check if daily goals already exist
-      const existingGoals = await prisma.dailyGoal.findFirst({
-        where: { user_id: userId },
-      });
-
-      let savedGoals;
-      if (existingGoals) {
-        // Update existing goals
-        savedGoals = await prisma.dailyGoal.update({
-          where: { id: existingGoals.id },
-          data: dailyGoals,
-        });
-      } else {
-        // Create new goals
-        savedGoals = await prisma.dailyGoal.create({
-          data: {
-            user_id: userId,
-            ...dailyGoals,
-          },
-        });
-      }
+      const savedGoals = await this.createPlanVersion(
+        userId,
+        dailyGoals,
+        "QUESTIONNAIRE",
+        schedule
+      );
 
       console.log("✅ Daily goals saved successfully");
       return savedGoals;
@@ -48,6 +99,67 @@ export class DailyGoalsService {
     }
   }
 
+  /**
+   * Starts a new version of the goals today. Targets and schedule not given
+   * carry over from the current version, and a second change on the same
+   * day replaces that day's version.
+   */
+  static async createPlanVersion(
+    userId: string,
+    targets: Partial<GoalTargets>,
+    source: GoalPlanSource,
+    schedule?: Partial<GoalSchedule>
+  ): Promise<DailyGoal> {
+    const today = await getToday(userId);
+    const current = await this.getActivePlan(userId, today);
+
+    const data = {
+      source,
+      calories: targets.calories ?? current?.calories ?? 2000,
+      protein_g: targets.protein_g ?? current?.protein_g ?? 120,
+      carbs_g: targets.carbs_g ?? current?.carbs_g ?? 250,
+      fats_g: targets.fats_g ?? current?.fats_g ?? 67,
+      fiber_g: targets.fiber_g ?? current?.fiber_g ?? 25,
+      sodium_mg: targets.sodium_mg ?? current?.sodium_mg ?? 2300,
+      sugar_g: targets.sugar_g ?? current?.sugar_g ?? 50,
+      water_ml: targets.water_ml ?? current?.water_ml ?? 2500,
+      training_days: schedule?.training_days ?? current?.training_days ?? [],
+      refeed_days: schedule?.refeed_days ?? current?.refeed_days ?? [],
+      training_carb_boost:
+        schedule?.training_carb_boost ?? current?.training_carb_boost ?? 0.25,
+    };
+
+    const plan = await prisma.goalPlan.upsert({
+      where: {
+        user_id_effective_from: {
+          user_id: userId,
+          effective_from: new Date(today),
+        },
+      },
+      update: data,
+      create: { ...data, user_id: userId, effective_from: new Date(today) },
+    });
+
+    // Today and anything already written ahead follow the new version
+    await prisma.dailyGoal.deleteMany({
+      where: { user_id: userId, date: { gt: new Date(today) } },
+    });
+    return this.writeDay(userId, plan, today);
+  }
+
+  // Records the day's targets so they stay fixed once the day is over
+  private static async writeDay(userId: string, plan: GoalPlan, date: string) {
+    const data = {
+      ...resolveDayTargets(plan, weekdayOf(date)),
+      plan_id: plan.plan_id,
+    };
+    return prisma.dailyGoal.upsert({
+      where: { user_id_date: { user_id: userId, date: new Date(date) } },
+      update: data,
+      create: { ...data, user_id: userId, date: new Date(date) },
+    });
+  }
+
   private static calculateDailyGoals(questionnaire: any) {
     // Default values
     let baseCalories = 2000;
@@ -71,7 +183,7 @@ export class DailyGoalsService {
       }
 
       // Apply activity level multiplier
-      const activityMultipliers = {
+      const activityMultipliers: Record<string, number> = {
         NONE: 1.2,
         LIGHT: 1.375,
         MODERATE: 1.55,
@@ -105,33 +217,156 @@ export class DailyGoalsService {
     }
 
     return {
-      goal_calories: baseCalories,
-      goal_protein_g: baseProtein,
-      goal_carbs_g: baseCarbs,
-      goal_fats_g: baseFats,
-      goal_fiber_g: 25,
-      goal_water_ml: baseWaterMl,
-      goal_sodium_mg: 2300,
-      goal_sugar_g: 50,
-      updated_at: new Date(),
+      calories: baseCalories,
+      protein_g: baseProtein,
+      carbs_g: baseCarbs,
+      fats_g: baseFats,
+      fiber_g: 25,
+      water_ml: baseWaterMl,
+      sodium_mg: 2300,
+      sugar_g: 50,
     };
   }
 
-  static async getDailyGoals(userId: string) {
+  static async getActivePlan(userId: string, date: string) {
+    const plans = await prisma.goalPlan.findMany({
+      where: { user_id: userId },
+      orderBy: { effective_from: "asc" },
+    });
+    return planAt(plans, date) || null;
+  }
+
+  // The goal for a day, today's by default
+  static async getDailyGoals(
+    userId: string,
+    date?: string
+  ): Promise<DailyGoal | DayGoal> {
     try {
-      const goals = await prisma.dailyGoal.findFirst({
-        where: { user_id: userId },
+      const today = await getToday(userId);
+      const day = date || today;
+
+      const existing = await prisma.dailyGoal.findUnique({
+        where: { user_id_date: { user_id: userId, date: new Date(day) } },
       });
+      if (existing) return existing;
 
-      if (!goals) {
-        // Create default goals if none exist
-        return await this.createOrUpdateDailyGoals(userId);
+      const plan = await this.getActivePlan(userId, day);
+      if (!plan) {
+        // First goals for this user, from the questionnaire
+        const created = await this.createOrUpdateDailyGoals(userId);
+        return day === today ? created : this.getDailyGoals(userId, day);
       }
 
-      return goals;
+      // Only days that have started are written down
+      return day <= today
+        ? await this.writeDay(userId, plan, day)
+        : dayGoalFromPlan(plan, day);
     } catch (error) {
       console.error("Error fetching daily goals:", error);
       throw error;
     }
   }
+
+  /**
+   * Each day's goal between two dates: the recorded row when there is one,
+   * otherwise the version that was in effect that day.
+   */
+  static async getGoalsForRange(
+    userId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<Record<string, DayGoal>> {
+    const [rows, plans] = await Promise.all([
+      prisma.dailyGoal.findMany({
+        where: {
+          user_id: userId,
+          date: { gte: new Date(startDate), lte: new Date(endDate) },
+        },
+      }),
+      prisma.goalPlan.findMany({
+        where: { user_id: userId },
+        orderBy: { effective_from: "asc" },
+      }),
+    ]);
+
+    const goals: Record<string, DayGoal> = {};
+    for (const row of rows) goals[toDateString(row.date)] = dayGoalFromRow(row);
+
+    for (let day = startDate; day <= endDate; day = shiftDate(day, 1)) {
+      if (goals[day]) continue;
+      const plan = planAt(plans, day);
+      if (plan) goals[day] = dayGoalFromPlan(plan, day);
+    }
+
+    return goals;
+  }
+
+  // Versions newest first
+  static async getPlanHistory(userId: string, limit: number) {
+    return prisma.goalPlan.findMany({
+      where: { user_id: userId },
+      orderBy: { effective_from: "desc" },
+      take: limit,
+    });
+  }
+
+  // The current version with the targets of each weekday
+  static async getSchedule(userId: string) {
+    const today = await getToday(userId);
+    let plan = await this.getActivePlan(userId, today);
+    if (!plan) {
+      await this.createOrUpdateDailyGoals(userId);
+      plan = await this.getActivePlan(userId, today);
+    }
+    if (!plan) throw new Error("Goal plan not found");
+
+    const activePlan = plan;
+    return {
+      plan: activePlan,
+      week: [0, 1, 2, 3, 4, 5, 6].map((weekday) => ({
+        weekday,
+        ...resolveDayTargets(activePlan, weekday),
+      })),
+    };
+  }
+
+  static async updateSchedule(userId: string, schedule: GoalSchedule) {
+    await this.createPlanVersion(userId, {}, "MANUAL", schedule);
+    return this.getSchedule(userId);
+  }
+
+  /**
+   * Writes today's goal for users whose day has started without one, from
+   * the version in effect. Users without goals yet get them from their
+   * questionnaire.
+   */
+  static async writeTodayForAllUsers() {
+    const users = await prisma.user.findMany({
+      select: { user_id: true, timezone: true },
+    });
+
+    let written = 0;
+    for (const user of users) {
+      try {
+        const today = getLocalDateString(
+          new Date(),
+          resolveTimezone(user.timezone)
+        );
+        const existing = await prisma.dailyGoal.findUnique({
+          where: {
+            user_id_date: { user_id: user.user_id, date: new Date(today) },
+          },
+          select: { id: true },
+        });
+        if (existing) continue;
+
+        await this.getDailyGoals(user.user_id, today);
+        written++;
+      } catch (error) {
+        console.error(`💥 Daily goal failed for user ${user.user_id}:`, error);
+      }
+    }
+
+    return written;
+  }
 }
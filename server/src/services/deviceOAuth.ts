@@ -0,0 +1,283 @@
+import { DeviceType } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { getDeviceApiClient } from "../lib/devices/apiClient";
+import {
+  buildAuthorizationUrl,
+  createOAuthState,
+  createPkcePair,
+  exchangeAuthorizationCode,
+  refreshAccessToken,
+} from "../lib/devices/oauth";
+import { getDeviceProvider, isOAuthDevice } from "../lib/devices/providers";
+import {
+  ActivityDay,
+  DeviceOAuthCallback,
+  MAX_SYNC_DAYS,
+} from "../types/devices";
+import {
+  getLocalDateString,
+  resolveTimezone,
+  shiftDate,
+} from "../utils/timezone";
+import { DeviceService } from "./devices";
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+// Tokens this close to expiring are refreshed before they are used
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+const DEFAULT_RETURN_URLS = ["myapp://oauth/devices"];
+const DEFAULT_BACKFILL_DAYS = 30;
+
+// Days of history pulled when a device is first connected
+function getBackfillDays() {
+  const days = Number(process.env.DEVICE_BACKFILL_DAYS);
+  return days >= 1
+    ? Math.min(Math.floor(days), MAX_SYNC_DAYS)
+    : DEFAULT_BACKFILL_DAYS;
+}
+
+// The callback URL registered with every provider's OAuth app
+function getRedirectUri() {
+  if (process.env.DEVICE_OAUTH_REDIRECT_URI) {
+    return process.env.DEVICE_OAUTH_REDIRECT_URI;
+  }
+  const apiBaseUrl =
+    process.env.API_BASE_URL?.replace(/\/$/, "") ||
+    `http://localhost:${process.env.PORT || 5000}/api`;
+  return `${apiBaseUrl}/devices/oauth/callback`;
+}
+
+/**
+ * Only the app's own links, matched exactly so the callback can't redirect
+ * anywhere else. Development builds add their exp:// link to
+ * DEVICE_OAUTH_RETURN_URLS.
+ */
+function isAllowedReturnUrl(return_url: string) {
+  const allowed = process.env.DEVICE_OAUTH_RETURN_URLS
+    ? process.env.DEVICE_OAUTH_RETURN_URLS.split(",")
+        .map((url) => url.trim())
+        .filter(Boolean)
+    : DEFAULT_RETURN_URLS;
+  return allowed.includes(return_url);
+}
+
+// What the app is told when connecting fails, details stay in the logs
+const CALLBACK_ERROR_CODES: Record<string, string> = {
+  "Authorization expired": "expired",
+  "Authorization was denied": "access_denied",
+  "Provider returned an error": "provider_error",
+  "No authorization code received": "missing_code",
+  "Token exchange failed": "token_exchange_failed",
+};
+
+function callbackErrorCode(error: unknown) {
+  const message = error instanceof Error ? error.message : "";
+  if (message.endsWith("is not configured on the server")) {
+    return "not_configured";
+  }
+  return CALLBACK_ERROR_CODES[message] || "connect_failed";
+}
+
+function withParams(url: string, params: Record<string, string>) {
+  const query = new URLSearchParams(params).toString();
+  return `${url}${url.includes("?") ? "&" : "?"}${query}`;
+}
+
+export class DeviceOAuthService {
+  /**
+   * Starts connecting a wearable: the app opens the returned URL, and the
+   * provider sends the user back to our callback with a code.
+   */
+  static async startAuthorization(
+    user_id: string,
+    device_type: string,
+    return_url: string
+  ) {
+    if (!isAllowedReturnUrl(return_url)) {
+      throw new Error("Return URL is not allowed");
+    }
+    const provider = getDeviceProvider(device_type);
+
+    await prisma.deviceOAuthState.deleteMany({
+      where: { expires_at: { lt: new Date() } },
+    });
+
+    const state = createOAuthState();
+    const { code_verifier, code_challenge } = createPkcePair();
+    await prisma.deviceOAuthState.create({
+      data: {
+        state,
+        user_id,
+        device_type: provider.device_type as DeviceType,
+        code_verifier,
+        return_url,
+        expires_at: new Date(Date.now() + STATE_TTL_MS),
+      },
+    });
+
+    console.log(`🔐 ${provider.name} authorization started for`, user_id);
+    return {
+      auth_url: buildAuthorizationUrl(provider, {
+        redirect_uri: getRedirectUri(),
+        state,
+        code_challenge,
+      }),
+    };
+  }
+
+  /**
+   * Trades the provider's code for tokens and connects the device. Returns
+   * the app link to send the user back to, with the outcome in its query.
+   * Throws only for states we didn't issue, there is nowhere to go back to.
+   */
+  static async completeAuthorization(callback: DeviceOAuthCallback) {
+    const record = await prisma.deviceOAuthState.findUnique({
+      where: { state: callback.state },
+    });
+    // States are single use
+    const { count } = await prisma.deviceOAuthState.deleteMany({
+      where: { state: callback.state },
+    });
+    if (!record || count === 0) {
+      throw new Error("Invalid authorization state");
+    }
+
+    try {
+      if (record.expires_at < new Date()) {
+        throw new Error("Authorization expired");
+      }
+      if (callback.error) {
+        console.warn(
+          "⚠️ Provider declined authorization:",
+          callback.error,
+          callback.error_description
+        );
+        throw new Error(
+          callback.error === "access_denied"
+            ? "Authorization was denied"
+            : "Provider returned an error"
+        );
+      }
+      if (!callback.code) throw new Error("No authorization code received");
+
+      const provider = getDeviceProvider(record.device_type);
+      const tokens = await exchangeAuthorizationCode(provider, {
+        code: callback.code,
+        redirect_uri: getRedirectUri(),
+        code_verifier: record.code_verifier,
+      }).catch((error) => {
+        console.error("💥 Token exchange error:", error);
+        throw new Error("Token exchange failed");
+      });
+
+      const device = await DeviceService.connectDevice(
+        record.user_id,
+        record.device_type,
+        provider.name,
+        tokens.access_token,
+        tokens.refresh_token,
+        tokens.expires_in
+      );
+
+      console.log(`✅ ${provider.name} connected for`, record.user_id);
+
+      // The first pull backfills the history, the app doesn't wait for it
+      this.syncFromProvider(record.user_id, device.connected_device_id).catch(
+        (error) => console.error("❌ Initial device sync failed:", error)
+      );
+      return withParams(record.return_url, {
+        status: "connected",
+        device_id: device.connected_device_id,
+        device_type: record.device_type,
+      });
+    } catch (error) {
+      console.error("💥 Device authorization error:", error);
+      return withParams(record.return_url, {
+        status: "error",
+        device_type: record.device_type,
+        error: callbackErrorCode(error),
+      });
+    }
+  }
+
+  // A usable access token for a device, refreshed with the provider if needed
+  static async getAccessToken(
+    user_id: string,
+    deviceId: string,
+    device_type: string
+  ) {
+    const tokens = await DeviceService.getDeviceTokens(user_id, deviceId);
+    if (!tokens.accessToken) throw new Error("Device is not authorized");
+
+    const expiresSoon =
+      tokens.expiresAt &&
+      tokens.expiresAt.getTime() - Date.now() < REFRESH_MARGIN_MS;
+    if (!expiresSoon) return tokens.accessToken;
+
+    if (!tokens.refreshToken) {
+      throw new Error("Device authorization expired, please reconnect");
+    }
+
+    const provider = getDeviceProvider(device_type);
+    const refreshed = await refreshAccessToken(provider, tokens.refreshToken);
+    await DeviceService.updateDeviceTokens(
+      user_id,
+      deviceId,
+      refreshed.access_token,
+      refreshed.refresh_token,
+      refreshed.expires_in
+    );
+
+    console.log(`🔄 ${provider.name} token refreshed for device`, deviceId);
+    return refreshed.access_token;
+  }
+
+  /**
+   * Pulls the days since the latest one stored from the provider, that one
+   * again as it may have been partial. Never further back than the backfill
+   * window, which a device without any history gets whole. Returns the
+   * summaries written.
+   */
+  static async syncFromProvider(user_id: string, deviceId: string) {
+    const device = await prisma.connectedDevice.findFirst({
+      where: { connected_device_id: deviceId, user_id },
+      include: { user: { select: { timezone: true } } },
+    });
+    if (!device) throw new Error("Device not found");
+    if (!isOAuthDevice(device.device_type)) {
+      throw new Error("This device syncs from the app");
+    }
+
+    const provider = getDeviceProvider(device.device_type);
+    const accessToken = await this.getAccessToken(
+      user_id,
+      deviceId,
+      device.device_type
+    );
+    const client = getDeviceApiClient(accessToken);
+
+    const timezone = resolveTimezone(device.user.timezone);
+    const today = getLocalDateString(new Date(), timezone);
+    const earliest = shiftDate(today, 1 - getBackfillDays());
+    const latest = await prisma.dailyActivitySummary.findFirst({
+      where: { device_id: deviceId },
+      orderBy: { date: "desc" },
+      select: { date: true },
+    });
+    const lastSynced = latest
+      ? latest.date.toISOString().split("T")[0]
+      : earliest;
+
+    const days: ActivityDay[] = [];
+    for (
+      let date = lastSynced > earliest ? lastSynced : earliest;
+      date <= today;
+      date = shiftDate(date, 1)
+    ) {
+      const activityData = await provider.fetchDay(client, date, timezone);
+      if (activityData) days.push({ ...activityData, date });
+    }
+    if (days.length === 0) return [];
+
+    return DeviceService.syncDeviceData(user_id, deviceId, { days, timezone });
+  }
+}
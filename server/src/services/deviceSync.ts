@@ -0,0 +1,105 @@
+import { ConnectedDevice, DeviceType } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { OAUTH_DEVICE_TYPES } from "../types/devices";
+import { DeviceOAuthService } from "./deviceOAuth";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_SYNC_FREQUENCY_HOURS = 24;
+// After this many failures in a row the device shows as ERROR
+export const MAX_SYNC_FAILURES = 3;
+// A failed sync is retried after this long, not at the next run
+const RETRY_AFTER_MS = HOUR_MS;
+
+function isDue(device: ConnectedDevice, now: Date) {
+  if (
+    device.last_sync_attempt_at &&
+    device.sync_failure_count > 0 &&
+    now.getTime() - device.last_sync_attempt_at.getTime() < RETRY_AFTER_MS
+  ) {
+    return false;
+  }
+  if (!device.last_sync_time) return true;
+
+  const frequencyHours =
+    device.sync_frequency_hours || DEFAULT_SYNC_FREQUENCY_HOURS;
+  return (
+    now.getTime() - device.last_sync_time.getTime() >= frequencyHours * HOUR_MS
+  );
+}
+
+export class DeviceSyncService {
+  /**
+   * Pulls data for every connected wearable whose sync_frequency_hours has
+   * passed since its last sync. Devices in ERROR wait for the user to
+   * reconnect or sync them by hand.
+   */
+  static async syncDueDevices() {
+    const now = new Date();
+    const devices = await prisma.connectedDevice.findMany({
+      where: {
+        connection_status: "CONNECTED",
+        device_type: { in: [...OAUTH_DEVICE_TYPES] as DeviceType[] },
+        access_token_encrypted: { not: null },
+      },
+    });
+
+    const due = devices.filter((device) => isDue(device, now));
+    if (due.length === 0) return { synced: 0, failed: 0 };
+
+    let synced = 0;
+    let failed = 0;
+    for (const device of due) {
+      if (await this.syncDevice(device)) {
+        synced++;
+      } else {
+        failed++;
+      }
+    }
+
+    console.log(`⌚ Device sync: ${synced} synced, ${failed} failed`);
+    return { synced, failed };
+  }
+
+  private static async syncDevice(device: ConnectedDevice) {
+    try {
+      const summaries = await DeviceOAuthService.syncFromProvider(
+        device.user_id,
+        device.connected_device_id
+      );
+      // Days with nothing recorded yet still count as a sync
+      await prisma.connectedDevice.update({
+        where: { connected_device_id: device.connected_device_id },
+        data: {
+          last_sync_attempt_at: new Date(),
+          ...(summaries.length === 0 && {
+            last_sync_time: new Date(),
+            sync_failure_count: 0,
+            last_sync_error: null,
+          }),
+        },
+      });
+      return true;
+    } catch (error) {
+      const reason =
+        error instanceof Error ? error.message : "Failed to sync device";
+      const failures = device.sync_failure_count + 1;
+      console.error(
+        `❌ Sync failed for device ${device.connected_device_id} (${failures}/${MAX_SYNC_FAILURES}):`,
+        reason
+      );
+
+      await prisma.connectedDevice.update({
+        where: { connected_device_id: device.connected_device_id },
+        data: {
+          sync_failure_count: failures,
+          last_sync_error: reason.slice(0, 500),
+          last_sync_attempt_at: new Date(),
+          ...(failures >= MAX_SYNC_FAILURES && {
+            connection_status: "ERROR",
+          }),
+        },
+      });
+      return false;
+    }
+  }
+}
@@ -1,5 +1,19 @@
 import { prisma } from "../lib/database";
-import { ActivityData, DailyBalance } from "../types/devices";
+import { decryptSecret, encryptSecret } from "../lib/encryption";
+import { buildActivityDays } from "../lib/devices/activitySeries";
+import { DailyBalance, DeviceSyncInput } from "../types/devices";
+import {
+  getLocalDateString,
+  getLocalDayStart,
+  resolveTimezone,
+} from "../utils/timezone";
+import { ActivityMergeService } from "./activityMerge";
+import { WeightService } from "./weight";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const roundOrUndefined = (value?: number) =>
+  value === undefined ? undefined : Math.round(value);
 
 export class DeviceService {
   static async getUserDevices(user_id: string) {
@@ -24,7 +38,8 @@ export class DeviceService {
     deviceType: string,
     deviceName: string,
     accessToken?: string,
-    refreshToken?: string
+    refreshToken?: string,
+    expiresIn?: number
   ) {
     try {
       console.log("🔗 Connecting device for user:", user_id, {
@@ -60,6 +75,16 @@ export class DeviceService {
         },
       });
 
+      // The first connected device is primary, disconnected ones don't count
+      const hasPrimary = await prisma.connectedDevice.findFirst({
+        where: {
+          user_id,
+          is_primary_device: true,
+          connection_status: { not: "DISCONNECTED" },
+        },
+        select: { connected_device_id: true },
+      });
+
       if (existingDevice) {
         // Update existing device
         const updatedDevice = await prisma.connectedDevice.update({
@@ -67,16 +92,17 @@ export class DeviceService {
           data: {
             device_name: deviceName,
             connection_status: "CONNECTED",
-            last_sync_time: new Date(),
+            // Kept, so the first pull backfills what was missed meanwhile
+            ...(!hasPrimary && { is_primary_device: true }),
+            sync_failure_count: 0,
+            last_sync_error: null,
             access_token_encrypted: accessToken
-              ? this.encryptToken(accessToken)
+              ? encryptSecret(accessToken)
               : null,
             refresh_token_encrypted: refreshToken
-              ? this.encryptToken(refreshToken)
+              ? encryptSecret(refreshToken)
               : null,
-            token_expires_at: accessToken
-              ? new Date(Date.now() + 3600000)
-              : null, // 1 hour default
+            token_expires_at: accessToken ? this.tokenExpiry(expiresIn) : null,
             updated_at: new Date(),
           },
         });
@@ -92,16 +118,14 @@ export class DeviceService {
             device_type: deviceType as any,
             connection_status: "CONNECTED",
             last_sync_time: new Date(),
-            is_primary_device: true, // First device is primary
+            is_primary_device: !hasPrimary,
             access_token_encrypted: accessToken
-              ? this.encryptToken(accessToken)
+              ? encryptSecret(accessToken)
               : null,
             refresh_token_encrypted: refreshToken
-              ? this.encryptToken(refreshToken)
+              ? encryptSecret(refreshToken)
               : null,
-            token_expires_at: accessToken
-              ? new Date(Date.now() + 3600000)
-              : null, // 1 hour default
+            token_expires_at: accessToken ? this.tokenExpiry(expiresIn) : null,
           },
         });
 
@@ -134,6 +158,7 @@ export class DeviceService {
         where: { connected_device_id: deviceId },
         data: {
           connection_status: "DISCONNECTED",
+          is_primary_device: false,
           access_token_encrypted: null,
           refresh_token_encrypted: null,
           token_expires_at: null,
@@ -141,6 +166,20 @@ export class DeviceService {
         },
       });
 
+      // The most recently synced of the remaining devices takes over
+      if (device.is_primary_device) {
+        const next = await prisma.connectedDevice.findFirst({
+          where: { user_id, connection_status: { not: "DISCONNECTED" } },
+          orderBy: { last_sync_time: { sort: "desc", nulls: "last" } },
+        });
+        if (next) {
+          await prisma.connectedDevice.update({
+            where: { connected_device_id: next.connected_device_id },
+            data: { is_primary_device: true },
+          });
+        }
+      }
+
       console.log("✅ Device disconnected");
     } catch (error) {
       console.error("💥 Error disconnecting device:", error);
@@ -148,68 +187,114 @@ export class DeviceService {
     }
   }
 
+  // The primary device's data wins for metrics without a source order
+  static async setPrimaryDevice(user_id: string, deviceId: string) {
+    const device = await prisma.connectedDevice.findFirst({
+      where: { connected_device_id: deviceId, user_id },
+    });
+    if (!device) throw new Error("Device not found");
+    if (device.connection_status === "DISCONNECTED") {
+      throw new Error("Device is disconnected");
+    }
+
+    const [, primary] = await prisma.$transaction([
+      prisma.connectedDevice.updateMany({
+        where: { user_id, is_primary_device: true },
+        data: { is_primary_device: false },
+      }),
+      prisma.connectedDevice.update({
+        where: { connected_device_id: deviceId },
+        data: { is_primary_device: true },
+      }),
+    ]);
+
+    console.log("⭐ Primary device set:", deviceId);
+    return primary;
+  }
+
+  /**
+   * Writes the days a sync covers, one summary per device and local day.
+   * A day is replaced by what the latest sync says about it.
+   */
   static async syncDeviceData(
     user_id: string,
     deviceId: string,
-    activityData: ActivityData
+    input: DeviceSyncInput
   ) {
     try {
-      console.log("🔄 Syncing device data:", deviceId, activityData);
-
       const device = await prisma.connectedDevice.findFirst({
         where: {
           connected_device_id: deviceId,
           user_id,
         },
+        include: { user: { select: { timezone: true } } },
       });
 
       if (!device) {
         throw new Error("Device not found");
       }
 
-      const today = new Date().toISOString().split("T")[0];
+      const timezone = resolveTimezone(input.timezone, device.user.timezone);
+      const days = buildActivityDays(input, timezone);
+      console.log(
+        `🔄 Syncing ${days.length} days for device:`,
+        deviceId,
+        days.map((day) => day.date)
+      );
 
-      // Upsert daily activity summary
-      const activitySummary = await prisma.dailyActivitySummary.upsert({
-        where: {
-          user_id_device_id_date: {
-            user_id,
-            device_id: deviceId,
-            date: new Date(today),
-          },
-        },
-        update: {
-          steps: activityData.steps || 0,
-          calories_burned: activityData.caloriesBurned || 0,
-          active_minutes: activityData.activeMinutes || 0,
-          bmr_estimate: activityData.bmr || 0,
-          heart_rate_avg: activityData.heartRate,
-          weight_kg: activityData.weight,
-          body_fat_percentage: activityData.bodyFat,
-          sleep_hours: activityData.sleepHours,
-          distance_km: activityData.distance,
-          sync_timestamp: new Date(),
-          updated_at: new Date(),
-          raw_data: activityData as any,
-        },
-        create: {
-          user_id,
+      const summaries = await prisma.$transaction(
+        days.map(({ date, ...activityData }) => {
+          const values = {
+            steps: Math.round(activityData.steps || 0),
+            calories_burned: activityData.caloriesBurned || 0,
+            active_minutes: Math.round(activityData.activeMinutes || 0),
+            bmr_estimate: activityData.bmr || 0,
+            heart_rate_avg: roundOrUndefined(activityData.heartRate),
+            heart_rate_max: roundOrUndefined(activityData.heartRateMax),
+            weight_kg: activityData.weight,
+            body_fat_percentage: activityData.bodyFat,
+            sleep_hours: activityData.sleepHours,
+            distance_km: activityData.distance,
+            sync_timestamp: new Date(),
+            raw_data: activityData as any,
+          };
+
+          return prisma.dailyActivitySummary.upsert({
+            where: {
+              user_id_device_id_date: {
+                user_id,
+                device_id: deviceId,
+                date: new Date(date),
+              },
+            },
+            update: values,
+            create: {
+              ...values,
+              user_id,
+              device_id: deviceId,
+              date: new Date(date),
+              source_device: device.device_name,
+            },
+          });
+        })
+      );
+
+      const today = getLocalDateString(new Date(), timezone);
+      for (const day of days) {
+        if (!day.weight) continue;
+        await WeightService.importDeviceReading(user_id, {
           device_id: deviceId,
-          date: new Date(today),
-          steps: activityData.steps || 0,
-          calories_burned: activityData.caloriesBurned || 0,
-          active_minutes: activityData.activeMinutes || 0,
-          bmr_estimate: activityData.bmr || 0,
-          heart_rate_avg: activityData.heartRate,
-          weight_kg: activityData.weight,
-          body_fat_percentage: activityData.bodyFat,
-          sleep_hours: activityData.sleepHours,
-          distance_km: activityData.distance,
-          source_device: device.device_name,
-          sync_timestamp: new Date(),
-          raw_data: activityData as any,
-        },
-      });
+          weight_kg: day.weight,
+          body_fat_percentage: day.bodyFat,
+          // Past days only say which day, midday keeps it on that day
+          measured_at:
+            day.date === today
+              ? new Date()
+              : new Date(
+                  getLocalDayStart(day.date, timezone).getTime() + 12 * HOUR_MS
+                ),
+        });
+      }
 
       // Update device last sync time
       await prisma.connectedDevice.update({
@@ -217,12 +302,14 @@ export class DeviceService {
         data: {
           last_sync_time: new Date(),
           connection_status: "CONNECTED",
+          sync_failure_count: 0,
+          last_sync_error: null,
           updated_at: new Date(),
         },
       });
 
       console.log("✅ Device data synced successfully");
-      return activitySummary;
+      return summaries;
     } catch (error) {
       console.error("💥 Error syncing device data:", error);
       throw new Error("Failed to sync device data");
@@ -240,24 +327,28 @@ export class DeviceService {
         endDate,
       });
 
-      const activityData = await prisma.dailyActivitySummary.findMany({
-        where: {
-          user_id,
-          date: {
-            gte: new Date(startDate),
-            lte: new Date(endDate),
+      // Every device's records, and the day they merge into
+      const [records, merged] = await Promise.all([
+        prisma.dailyActivitySummary.findMany({
+          where: {
+            user_id,
+            date: {
+              gte: new Date(startDate),
+              lte: new Date(endDate),
+            },
           },
-        },
-        include: {
-          device: true,
-        },
-        orderBy: {
-          date: "desc",
-        },
-      });
+          include: {
+            device: true,
+          },
+          orderBy: {
+            date: "desc",
+          },
+        }),
+        ActivityMergeService.getMergedDays(user_id, startDate, endDate),
+      ]);
 
-      console.log("✅ Found", activityData.length, "activity records");
-      return activityData;
+      console.log("✅ Found", records.length, "activity records");
+      return { records, merged };
     } catch (error) {
       console.error("💥 Error getting activity data:", error);
       throw new Error("Failed to fetch activity data");
@@ -284,6 +375,7 @@ export class DeviceService {
       const meals = await prisma.meal.findMany({
         where: {
           user_id,
+          deleted_at: null,
           created_at: {
             gte: startDate,
             lt: endDate,
@@ -296,16 +388,11 @@ export class DeviceService {
         0
       );
 
-      // Get calories burned from activity data
-      const activityData = await prisma.dailyActivitySummary.findFirst({
-        where: {
-          user_id,
-          date: new Date(date),
-        },
-        orderBy: {
-          sync_timestamp: "desc",
-        },
-      });
+      // Get calories burned, from one device when several report the day
+      const activityData = await ActivityMergeService.getMergedDay(
+        user_id,
+        date
+      );
 
       if (!activityData) {
         console.log("⚠️ No activity data found for date");
@@ -313,7 +400,7 @@ export class DeviceService {
       }
 
       const caloriesOut =
-        (activityData.calories_burned || 0) + (activityData.bmr_estimate || 0);
+        activityData.calories_burned + activityData.bmr_estimate;
       const balance = caloriesIn - caloriesOut;
       const balancePercent =
         caloriesOut > 0 ? Math.abs(balance) / caloriesOut : 0;
@@ -345,17 +432,9 @@ export class DeviceService {
     }
   }
 
-  // TOKEN ENCRYPTION/DECRYPTION (Basic implementation - use proper encryption in production)
-  private static encryptToken(token: string): string {
-    // In production, use proper encryption like AES
-    // For now, just base64 encode (NOT SECURE - for demo only)
-    return Buffer.from(token).toString("base64");
-  }
-
-  private static decryptToken(encryptedToken: string): string {
-    // In production, use proper decryption
-    // For now, just base64 decode (NOT SECURE - for demo only)
-    return Buffer.from(encryptedToken, "base64").toString();
+  // Tokens without a lifetime from the provider get 1 hour
+  private static tokenExpiry(expiresIn?: number): Date {
+    return new Date(Date.now() + (expiresIn || 3600) * 1000);
   }
 
   static async getDeviceTokens(
@@ -364,6 +443,7 @@ export class DeviceService {
   ): Promise<{
     accessToken?: string;
     refreshToken?: string;
+    expiresAt?: Date;
   }> {
     try {
       const device = await prisma.connectedDevice.findFirst({
@@ -379,11 +459,12 @@ export class DeviceService {
 
       return {
         accessToken: device.access_token_encrypted
-          ? this.decryptToken(device.access_token_encrypted)
+          ? decryptSecret(device.access_token_encrypted)
           : undefined,
         refreshToken: device.refresh_token_encrypted
-          ? this.decryptToken(device.refresh_token_encrypted)
+          ? decryptSecret(device.refresh_token_encrypted)
           : undefined,
+        expiresAt: device.token_expires_at || undefined,
       };
     } catch (error) {
       console.error("💥 Error getting device tokens:", error);
@@ -395,7 +476,8 @@ export class DeviceService {
     user_id: string,
     deviceId: string,
     accessToken?: string,
-    refreshToken?: string
+    refreshToken?: string,
+    expiresIn?: number
   ) {
     try {
       await prisma.connectedDevice.updateMany({
@@ -405,13 +487,13 @@ export class DeviceService {
         },
         data: {
           access_token_encrypted: accessToken
-            ? this.encryptToken(accessToken)
+            ? encryptSecret(accessToken)
             : undefined,
           refresh_token_encrypted: refreshToken
-            ? this.encryptToken(refreshToken)
+            ? encryptSecret(refreshToken)
             : undefined,
           token_expires_at: accessToken
-            ? new Date(Date.now() + 3600000)
+            ? this.tokenExpiry(expiresIn)
             : undefined,
           updated_at: new Date(),
         },
@@ -0,0 +1,501 @@
+import { FastingSession } from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  FASTING_PROTOCOLS,
+  MAX_DETECTED_FAST_HOURS,
+  countFastingStreaks,
+  parseFastingHours,
+} from "../lib/fasting";
+import {
+  EatingWindow,
+  FastSummary,
+  FastingDaySummary,
+  FastingHistoryQuery,
+  FastingProtocolDefinition,
+  FastingStats,
+  FastingWindowsQuery,
+  StartFastInput,
+  StopFastInput,
+} from "../types/fasting";
+import { getLocalDateString, resolveTimezone } from "../utils/timezone";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+interface UserProtocol {
+  definition: FastingProtocolDefinition;
+  target_hours: number;
+  // Meals are only watched for fasts when the user said they fast
+  detection: boolean;
+}
+
+function toSummary(fast: FastingSession, now: Date = new Date()): FastSummary {
+  const end = fast.ended_at || now;
+  const duration_hours = round1(
+    Math.max(0, end.getTime() - fast.started_at.getTime()) / HOUR_MS
+  );
+
+  return {
+    fast_id: fast.fast_id,
+    protocol: fast.protocol,
+    source: fast.source,
+    status: fast.status,
+    target_hours: fast.target_hours,
+    started_at: fast.started_at,
+    ended_at: fast.ended_at,
+    duration_hours,
+    progress_percent: Math.min(
+      100,
+      Math.round((duration_hours / fast.target_hours) * 100)
+    ),
+    target_end: new Date(
+      fast.started_at.getTime() + fast.target_hours * HOUR_MS
+    ),
+    broken_by_meal_id: fast.broken_by_meal_id,
+    notes: fast.notes,
+  };
+}
+
+// Groups meals into one eating window per day
+function buildEatingWindows(
+  meals: Array<{ upload_time: Date }>,
+  allowed_hours: number | null,
+  dateOf: (date: Date) => string
+): EatingWindow[] {
+  const days = new Map<string, Date[]>();
+  for (const meal of meals) {
+    const date = dateOf(meal.upload_time);
+    days.set(date, [...(days.get(date) || []), meal.upload_time]);
+  }
+
+  return [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, times]) => {
+      const sorted = times.sort((a, b) => a.getTime() - b.getTime());
+      const first = sorted[0];
+      const last = sorted[sorted.length - 1];
+      const window_hours = round1((last.getTime() - first.getTime()) / HOUR_MS);
+      return {
+        date,
+        first_meal_at: first,
+        last_meal_at: last,
+        meal_count: sorted.length,
+        window_hours,
+        allowed_hours,
+        violation: allowed_hours !== null && window_hours > allowed_hours,
+      };
+    });
+}
+
+// Hours the user may eat in a day, none for religious and multi-day fasts
+function allowedWindowHours({ definition, target_hours }: UserProtocol) {
+  if (definition.eating_window_hours === null || target_hours >= 24) {
+    return null;
+  }
+  return 24 - target_hours;
+}
+
+export class FastingService {
+  static getProtocols(): FastingProtocolDefinition[] {
+    return Object.values(FASTING_PROTOCOLS);
+  }
+
+  /**
+   * The protocol the user follows: their questionnaire answer, otherwise
+   * their last daily fast, otherwise 16:8.
+   */
+  static async getUserProtocol(user_id: string): Promise<UserProtocol> {
+    const questionnaire = await prisma.userQuestionnaire.findFirst({
+      where: { user_id },
+      orderBy: { date_completed: "desc" },
+      select: { intermittent_fasting: true, fasting_hours: true },
+    });
+    const detection = !!questionnaire?.intermittent_fasting;
+
+    const parsed = parseFastingHours(questionnaire?.fasting_hours);
+    if (parsed) {
+      return {
+        definition: FASTING_PROTOCOLS[parsed.protocol],
+        target_hours: parsed.target_hours,
+        detection,
+      };
+    }
+
+    const lastFast = await prisma.fastingSession.findFirst({
+      where: {
+        user_id,
+        protocol: { in: ["SIXTEEN_EIGHT", "EIGHTEEN_SIX", "OMAD", "CUSTOM"] },
+      },
+      orderBy: { started_at: "desc" },
+      select: { protocol: true, target_hours: true },
+    });
+    if (lastFast) {
+      return {
+        definition: FASTING_PROTOCOLS[lastFast.protocol],
+        target_hours: lastFast.target_hours,
+        detection,
+      };
+    }
+
+    return {
+      definition: FASTING_PROTOCOLS.SIXTEEN_EIGHT,
+      target_hours: FASTING_PROTOCOLS.SIXTEEN_EIGHT.fasting_hours,
+      detection,
+    };
+  }
+
+  static async startFast(
+    user_id: string,
+    input: StartFastInput
+  ): Promise<FastSummary> {
+    const active = await prisma.fastingSession.findFirst({
+      where: { user_id, status: "ACTIVE" },
+    });
+    if (active) throw new Error("A fast is already in progress");
+
+    const now = new Date();
+    const started_at = input.started_at ? new Date(input.started_at) : now;
+    if (started_at.getTime() > now.getTime()) {
+      throw new Error("A fast cannot start in the future");
+    }
+
+    let protocol = input.protocol;
+    let target_hours = input.target_hours;
+    if (!protocol) {
+      const userProtocol = await this.getUserProtocol(user_id);
+      protocol = userProtocol.definition.protocol;
+      target_hours = target_hours ?? userProtocol.target_hours;
+    }
+
+    const fast = await prisma.fastingSession.create({
+      data: {
+        user_id,
+        protocol,
+        target_hours: target_hours ?? FASTING_PROTOCOLS[protocol].fasting_hours,
+        source: "MANUAL",
+        status: "ACTIVE",
+        started_at,
+        notes: input.notes,
+      },
+    });
+
+    console.log(
+      `⏳ Started ${fast.protocol} fast ${fast.fast_id} for user ${user_id}`
+    );
+    return toSummary(fast);
+  }
+
+  /**
+   * Ends the active fast. Reaching the target completes it, stopping early
+   * counts as broken.
+   */
+  static async stopFast(
+    user_id: string,
+    input: StopFastInput
+  ): Promise<FastSummary> {
+    const active = await prisma.fastingSession.findFirst({
+      where: { user_id, status: "ACTIVE" },
+    });
+    if (!active) throw new Error("Active fast not found");
+
+    const ended_at = input.ended_at ? new Date(input.ended_at) : new Date();
+    if (ended_at.getTime() < active.started_at.getTime()) {
+      throw new Error("A fast cannot end before it started");
+    }
+
+    const hours = (ended_at.getTime() - active.started_at.getTime()) / HOUR_MS;
+    const fast = await prisma.fastingSession.update({
+      where: { fast_id: active.fast_id },
+      data: {
+        ended_at,
+        status: hours >= active.target_hours ? "COMPLETED" : "BROKEN",
+      },
+    });
+
+    console.log(
+      `🏁 Fast ${fast.fast_id} ${fast.status.toLowerCase()} after ${round1(
+        hours
+      )}h`
+    );
+    return toSummary(fast);
+  }
+
+  static async getActiveFast(user_id: string): Promise<FastSummary | null> {
+    const active = await prisma.fastingSession.findFirst({
+      where: { user_id, status: "ACTIVE" },
+    });
+    return active ? toSummary(active) : null;
+  }
+
+  static async getHistory(user_id: string, query: FastingHistoryQuery) {
+    const where = {
+      user_id,
+      status: query.status || { in: ["COMPLETED" as const, "BROKEN" as const] },
+    };
+
+    const [fasts, total] = await Promise.all([
+      prisma.fastingSession.findMany({
+        where,
+        orderBy: { started_at: "desc" },
+        skip: query.offset,
+        take: query.limit,
+      }),
+      prisma.fastingSession.count({ where }),
+    ]);
+
+    return { fasts: fasts.map((fast) => toSummary(fast)), total };
+  }
+
+  /**
+   * Called whenever a meal is logged. A meal during an active fast ends it,
+   * and for users who fast, a long enough gap since the previous meal is
+   * saved as a detected fast. Never fails the meal logging itself.
+   */
+  static async recordMeal(
+    user_id: string,
+    meal_id: number,
+    eaten_at: Date = new Date()
+  ) {
+    try {
+      const active = await prisma.fastingSession.findFirst({
+        where: { user_id, status: "ACTIVE" },
+      });
+
+      if (active) {
+        // Meals logged for earlier times do not touch the current fast
+        if (eaten_at.getTime() <= active.started_at.getTime()) return;
+
+        const hours =
+          (eaten_at.getTime() - active.started_at.getTime()) / HOUR_MS;
+        const completed = hours >= active.target_hours;
+        await prisma.fastingSession.update({
+          where: { fast_id: active.fast_id },
+          data: {
+            ended_at: eaten_at,
+            status: completed ? "COMPLETED" : "BROKEN",
+            broken_by_meal_id: completed ? null : meal_id,
+          },
+        });
+        console.log(
+          completed
+            ? `✅ Meal ${meal_id} ended fast ${active.fast_id} after ${round1(
+                hours
+              )}h`
+            : `⚠️ Meal ${meal_id} broke fast ${active.fast_id} after ${round1(
+                hours
+              )}h`
+        );
+        return;
+      }
+
+      const { definition, target_hours, detection } =
+        await this.getUserProtocol(user_id);
+      if (!detection) return;
+
+      const previous = await prisma.meal.findFirst({
+        where: {
+          user_id,
+          deleted_at: null,
+          meal_id: { not: meal_id },
+          upload_time: { lt: eaten_at },
+        },
+        orderBy: { upload_time: "desc" },
+        select: { upload_time: true },
+      });
+      if (!previous) return;
+
+      const hours =
+        (eaten_at.getTime() - previous.upload_time.getTime()) / HOUR_MS;
+      // Longer gaps are more likely days the user did not log anything
+      if (hours < target_hours || hours > MAX_DETECTED_FAST_HOURS) return;
+
+      const overlapping = await prisma.fastingSession.count({
+        where: {
+          user_id,
+          started_at: { lt: eaten_at },
+          ended_at: { gt: previous.upload_time },
+        },
+      });
+      if (overlapping > 0) return;
+
+      const fast = await prisma.fastingSession.create({
+        data: {
+          user_id,
+          protocol: definition.protocol,
+          target_hours,
+          source: "DETECTED",
+          status: "COMPLETED",
+          started_at: previous.upload_time,
+          ended_at: eaten_at,
+        },
+      });
+      console.log(
+        `🔍 Detected ${round1(hours)}h fast ${fast.fast_id} for user ${user_id}`
+      );
+    } catch (error) {
+      console.error("💥 Record meal for fasting error:", error);
+    }
+  }
+
+  /**
+   * Daily eating windows from the first to the last logged meal, flagged
+   * when they run longer than the user's protocol allows.
+   */
+  static async getEatingWindows(
+    user_id: string,
+    query: FastingWindowsQuery
+  ): Promise<EatingWindow[]> {
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      select: { timezone: true },
+    });
+    if (!user) throw new Error("User not found");
+
+    const timezone = resolveTimezone(user.timezone);
+    const userProtocol = await this.getUserProtocol(user_id);
+
+    const meals = await prisma.meal.findMany({
+      where: {
+        user_id,
+        deleted_at: null,
+        upload_time: { gte: new Date(Date.now() - query.days * DAY_MS) },
+      },
+      select: { upload_time: true },
+    });
+
+    return buildEatingWindows(meals, allowedWindowHours(userProtocol), (date) =>
+      getLocalDateString(date, timezone)
+    );
+  }
+
+  /**
+   * Fasts and eating window violations per day, bucketed with the caller's
+   * own date function so they line up with the rest of its data.
+   */
+  static async getDaySummaries(
+    user_id: string,
+    from: Date,
+    to: Date,
+    dateOf: (date: Date) => string
+  ): Promise<Record<string, FastingDaySummary>> {
+    const fasts = await prisma.fastingSession.findMany({
+      where: {
+        user_id,
+        status: { in: ["COMPLETED", "BROKEN"] },
+        ended_at: { gte: from, lte: to },
+      },
+    });
+
+    const summaries: Record<string, FastingDaySummary> = {};
+    const dayOf = (date: string) => {
+      if (!summaries[date]) {
+        summaries[date] = {
+          completed: 0,
+          broken: 0,
+          longest_hours: 0,
+          violations: 0,
+        };
+      }
+      return summaries[date];
+    };
+
+    for (const fast of fasts) {
+      const day = dayOf(dateOf(fast.ended_at!));
+      const { duration_hours } = toSummary(fast);
+      if (fast.status === "COMPLETED") {
+        day.completed++;
+        day.longest_hours = Math.max(day.longest_hours, duration_hours);
+      } else {
+        day.broken++;
+        day.violations++;
+      }
+    }
+
+    // Eating windows only matter to users who fast
+    const userProtocol = await this.getUserProtocol(user_id);
+    const allowed_hours = allowedWindowHours(userProtocol);
+    if (!userProtocol.detection && fasts.length === 0) return summaries;
+    if (allowed_hours === null) return summaries;
+
+    const meals = await prisma.meal.findMany({
+      where: { user_id, upload_time: { gte: from, lte: to }, deleted_at: null },
+      select: { upload_time: true },
+    });
+    for (const window of buildEatingWindows(meals, allowed_hours, dateOf)) {
+      if (window.violation) dayOf(window.date).violations++;
+    }
+
+    return summaries;
+  }
+
+  static async getStats(user_id: string): Promise<FastingStats> {
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      select: { timezone: true },
+    });
+    if (!user) throw new Error("User not found");
+
+    const timezone = resolveTimezone(user.timezone);
+    const [userProtocol, fasts, active, windows] = await Promise.all([
+      this.getUserProtocol(user_id),
+      prisma.fastingSession.findMany({
+        where: { user_id, status: { in: ["COMPLETED", "BROKEN"] } },
+      }),
+      this.getActiveFast(user_id),
+      this.getEatingWindows(user_id, { days: 30 }),
+    ]);
+
+    const completed = fasts.filter((fast) => fast.status === "COMPLETED");
+    const hours = completed.map((fast) => toSummary(fast).duration_hours);
+    const streaks = countFastingStreaks(
+      completed.map((fast) => getLocalDateString(fast.ended_at!, timezone)),
+      getLocalDateString(new Date(), timezone)
+    );
+
+    return {
+      protocol: {
+        ...userProtocol.definition,
+        target_hours: userProtocol.target_hours,
+      },
+      active,
+      completed_fasts: completed.length,
+      broken_fasts: fasts.length - completed.length,
+      current_streak: streaks.current,
+      best_streak: streaks.best,
+      average_hours: hours.length
+        ? round1(hours.reduce((sum, value) => sum + value, 0) / hours.length)
+        : 0,
+      longest_hours: hours.length ? Math.max(...hours) : 0,
+      window_violations: windows.filter((window) => window.violation).length,
+      completion_rate: fasts.length
+        ? Math.round((completed.length / fasts.length) * 100)
+        : 0,
+    };
+  }
+
+  // Counts the achievements are checked against
+  static async getAchievementStats(
+    user_id: string
+  ): Promise<{ completedFasts: number; fastingStreak: number }> {
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      select: { timezone: true },
+    });
+    const timezone = resolveTimezone(user?.timezone);
+
+    const completed = await prisma.fastingSession.findMany({
+      where: { user_id, status: "COMPLETED" },
+      select: { ended_at: true },
+    });
+
+    // The best run, so a streak reached between checks is not lost
+    const { best } = countFastingStreaks(
+      completed.map((fast) => getLocalDateString(fast.ended_at!, timezone)),
+      getLocalDateString(new Date(), timezone)
+    );
+
+    return { completedFasts: completed.length, fastingStreak: best };
+  }
+}
@@ -0,0 +1,541 @@
+import { FoodComposition } from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  buildSearchText,
+  isDescriptor,
+  normalizeFoodText,
+  scoreFoodMatch,
+  toLookupQuery,
+  tokenizeFoodText,
+} from "../lib/foodComposition/matching";
+import {
+  FoodCompositionRecord,
+  ResolvedIngredientNutrition,
+} from "../types/foodComposition";
+import { MealAnalysisResult } from "../types/openai";
+
+// Below this score a match is more likely wrong than helpful
+const MIN_MATCH_SCORE = 0.6;
+const MAX_CANDIDATES = 200;
+const LOOKUP_CACHE_SIZE = 2000;
+// Imports run in a separate process, so cached matches go stale on their own
+const LOOKUP_CACHE_TTL_MS = 60 * 60 * 1000;
+const IMPORT_BATCH_SIZE = 250;
+
+// Grams per unit, volumes assume water density
+const UNIT_GRAMS: Record<string, number> = {
+  g: 1,
+  gr: 1,
+  gram: 1,
+  grams: 1,
+  גרם: 1,
+  kg: 1000,
+  קג: 1000,
+  mg: 0.001,
+  ml: 1,
+  מל: 1,
+  l: 1000,
+  liter: 1000,
+  ליטר: 1000,
+  oz: 28.35,
+  lb: 453.6,
+  cup: 240,
+  cups: 240,
+  כוס: 240,
+  כוסות: 240,
+  tbsp: 15,
+  tablespoon: 15,
+  כף: 15,
+  כפות: 15,
+  tsp: 5,
+  teaspoon: 5,
+  כפית: 5,
+  כפיות: 5,
+};
+
+// Quantities counted in pieces, converted with the food's unit weight
+const PIECE_UNITS = new Set([
+  "unit",
+  "units",
+  "piece",
+  "pieces",
+  "pcs",
+  "slice",
+  "slices",
+  "יחידה",
+  "יחידות",
+  "פרוסה",
+  "פרוסות",
+]);
+
+// Meal totals and the ingredient fields they are summed from
+const TOTAL_FIELDS: Array<[keyof MealAnalysisResult, string]> = [
+  ["calories", "calories"],
+  ["protein", "protein_g"],
+  ["carbs", "carbs_g"],
+  ["fat", "fats_g"],
+  ["fiber", "fiber_g"],
+  ["sugar", "sugar_g"],
+  ["sodium", "sodium_mg"],
+  ["saturated_fats_g", "saturated_fats_g"],
+  ["monounsaturated_fats_g", "monounsaturated_fats_g"],
+  ["polyunsaturated_fats_g", "polyunsaturated_fats_g"],
+  ["omega_3_g", "omega_3_g"],
+  ["omega_6_g", "omega_6_g"],
+  ["cholesterol_mg", "cholesterol_mg"],
+  ["alcohol_g", "alcohol_g"],
+  ["caffeine_mg", "caffeine_mg"],
+];
+
+interface FoodMatch {
+  food: FoodComposition;
+  score: number;
+}
+
+const round = (value: number, digits = 1) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+function sumJson(objects: Array<Record<string, number> | null | undefined>) {
+  const totals: Record<string, number> = {};
+  objects.forEach((object) => {
+    Object.entries(object || {}).forEach(([key, value]) => {
+      if (typeof value === "number") {
+        totals[key] = round((totals[key] || 0) + value, 3);
+      }
+    });
+  });
+  return totals;
+}
+
+export class FoodCompositionService {
+  private static lookupCache = new Map<
+    string,
+    { match: FoodMatch; expires_at: number }
+  >();
+
+  static async search(query: string, limit = 10): Promise<FoodMatch[]> {
+    const queries = Array.from(
+      new Set([normalizeFoodText(query), toLookupQuery(query)])
+    ).filter(Boolean);
+
+    const candidates = new Map<string, FoodComposition>();
+    for (const text of queries) {
+      const foods = await this.findCandidates(tokenizeFoodText(text));
+      foods.forEach((food) => candidates.set(food.food_id, food));
+    }
+
+    const scored: FoodMatch[] = [];
+    candidates.forEach((food) => {
+      const names = [food.name_en, food.name_he || "", ...food.aliases];
+      const score = Math.max(
+        ...queries.map((text) => scoreFoodMatch(tokenizeFoodText(text), names))
+      );
+      if (score > 0) scored.push({ food, score: round(score, 3) });
+    });
+
+    return scored
+      .sort(
+        (a, b) =>
+          b.score - a.score || a.food.name_en.length - b.food.name_en.length
+      )
+      .slice(0, limit);
+  }
+
+  /**
+   * The single best reference food for an ingredient name, or null when
+   * nothing matches confidently. Matches are cached per normalized name for
+   * a while, misses aren't so foods imported later are found.
+   */
+  static async findBestMatch(name: string): Promise<FoodMatch | null> {
+    const key = normalizeFoodText(name);
+    if (!key) return null;
+
+    const cached = this.lookupCache.get(key);
+    if (cached && cached.expires_at > Date.now()) return cached.match;
+    this.lookupCache.delete(key);
+
+    const [best] = await this.search(name, 1);
+    const match = best && best.score >= MIN_MATCH_SCORE ? best : null;
+    if (!match) return null;
+
+    if (this.lookupCache.size >= LOOKUP_CACHE_SIZE) {
+      // Drop the oldest entry, Map keeps insertion order
+      const oldestKey = this.lookupCache.keys().next().value;
+      if (oldestKey !== undefined) this.lookupCache.delete(oldestKey);
+    }
+    this.lookupCache.set(key, {
+      match,
+      expires_at: Date.now() + LOOKUP_CACHE_TTL_MS,
+    });
+
+    return match;
+  }
+
+  static toGrams(
+    quantity: number | string | null | undefined,
+    unit: string | null | undefined,
+    food?: Pick<FoodComposition, "unit_weight_g"> | null
+  ): number | null {
+    const amount = Number(quantity);
+    if (!Number.isFinite(amount) || amount <= 0) return null;
+
+    const normalizedUnit = (unit || "g")
+      .toLowerCase()
+      .replace(/[."'״׳]/g, "")
+      .trim();
+
+    if (UNIT_GRAMS[normalizedUnit] !== undefined) {
+      return amount * UNIT_GRAMS[normalizedUnit];
+    }
+    if (PIECE_UNITS.has(normalizedUnit) && food?.unit_weight_g) {
+      return amount * food.unit_weight_g;
+    }
+    return null;
+  }
+
+  static calculateNutrition(
+    food: FoodComposition,
+    grams: number,
+    matchScore = 1
+  ): ResolvedIngredientNutrition {
+    const factor = grams / 100;
+    const scale = (value: number | null) => round((value || 0) * factor);
+    const scaleJson = (json: unknown) =>
+      Object.fromEntries(
+        Object.entries((json as Record<string, number>) || {}).map(
+          ([key, value]) => [key, round(Number(value) * factor, 3)]
+        )
+      );
+
+    return {
+      food_id: food.food_id,
+      food_name: food.name_en,
+      match_score: matchScore,
+      portion_g: round(grams),
+      calories: Math.round(food.calories * factor),
+      protein_g: scale(food.protein_g),
+      carbs_g: scale(food.carbs_g),
+      fats_g: scale(food.fats_g),
+      fiber_g: scale(food.fiber_g),
+      sugar_g: scale(food.sugar_g),
+      sodium_mg: scale(food.sodium_mg),
+      saturated_fats_g: scale(food.saturated_fats_g),
+      monounsaturated_fats_g: scale(food.monounsaturated_fats_g),
+      polyunsaturated_fats_g: scale(food.polyunsaturated_fats_g),
+      omega_3_g: scale(food.omega_3_g),
+      omega_6_g: scale(food.omega_6_g),
+      cholesterol_mg: scale(food.cholesterol_mg),
+      alcohol_g: scale(food.alcohol_g),
+      caffeine_mg: scale(food.caffeine_mg),
+      vitamins_json: scaleJson(food.vitamins_json),
+      micronutrients_json: scaleJson(food.micronutrients_json),
+    };
+  }
+
+  /**
+   * Nutrients for an ingredient from the reference table. The amount comes
+   * from portion_g when known, otherwise from quantity and unit.
+   */
+  static async resolveIngredient(input: {
+    name: string;
+    portion_g?: number | null;
+    quantity?: number | string | null;
+    unit?: string | null;
+  }): Promise<ResolvedIngredientNutrition | null> {
+    if (!input.name?.trim()) return null;
+
+    const match = await this.findBestMatch(input.name);
+    if (!match) return null;
+
+    const grams =
+      input.portion_g && input.portion_g > 0
+        ? input.portion_g
+        : this.toGrams(input.quantity, input.unit, match.food);
+    if (!grams) return null;
+
+    return this.calculateNutrition(match.food, grams, match.score);
+  }
+
+  /**
+   * Replaces AI-estimated ingredient nutrients with reference values where
+   * the ingredient and its portion are known, and corrects the meal totals.
+   * When every ingredient resolves the totals are the plain sum; otherwise
+   * only the difference for the resolved ingredients is applied.
+   */
+  static async applyToAnalysis<T extends Partial<MealAnalysisResult>>(
+    analysis: T
+  ): Promise<T> {
+    const ingredients: any[] = Array.isArray(analysis.ingredients)
+      ? analysis.ingredients
+      : [];
+    if (ingredients.length === 0) return analysis;
+
+    try {
+      const resolved = await Promise.all(
+        ingredients.map(async (ingredient) => {
+          if (!ingredient || typeof ingredient !== "object") return null;
+          return this.resolveIngredient({
+            name: ingredient.name,
+            portion_g:
+              Number(ingredient.estimated_portion_g) ||
+              Number(ingredient.serving_size_g) ||
+              null,
+          });
+        })
+      );
+
+      const resolvedCount = resolved.filter(Boolean).length;
+      if (resolvedCount === 0) return analysis;
+
+      const allResolved = resolvedCount === ingredients.length;
+      const result: any = { ...analysis };
+
+      for (const [totalField, ingredientField] of TOTAL_FIELDS) {
+        if (allResolved) {
+          result[totalField] = round(
+            resolved.reduce(
+              (sum, nutrition: any) => sum + (nutrition[ingredientField] || 0),
+              0
+            )
+          );
+          continue;
+        }
+
+        // Only correct totals the AI broke down per ingredient, otherwise
+        // the resolved portion would be counted twice
+        let delta = 0;
+        let correctable = true;
+        resolved.forEach((nutrition: any, index) => {
+          if (!nutrition) return;
+          const aiValue = Number(
+            ingredients[index][ingredientField] ??
+              ingredients[index][String(totalField)]
+          );
+          if (!Number.isFinite(aiValue)) correctable = false;
+          else delta += nutrition[ingredientField] - aiValue;
+        });
+
+        if (correctable && typeof result[totalField] === "number") {
+          result[totalField] = Math.max(0, round(result[totalField] + delta));
+        }
+      }
+      result.calories = Math.round(result.calories || 0);
+
+      if (allResolved) {
+        result.vitamins_json = sumJson(
+          resolved.map((nutrition) => nutrition!.vitamins_json)
+        );
+        result.micronutrients_json = sumJson(
+          resolved.map((nutrition) => nutrition!.micronutrients_json)
+        );
+      }
+
+      result.ingredients = ingredients.map((ingredient, index) => {
+        const nutrition = resolved[index];
+        if (!nutrition) {
+          return typeof ingredient === "object"
+            ? { ...ingredient, nutrition_source: "ai" }
+            : ingredient;
+        }
+
+        const { food_name, match_score, portion_g, ...nutrients } = nutrition;
+        return {
+          ...ingredient,
+          ...nutrients,
+          estimated_portion_g: portion_g,
+          food_name,
+          nutrition_source: "food_db",
+        };
+      });
+
+      console.log(
+        `📚 Resolved ${resolvedCount}/${ingredients.length} ingredients from the food database`
+      );
+
+      return result;
+    } catch (error) {
+      // The reference table is an improvement, never a reason to fail a meal
+      console.error("❌ Food database lookup failed:", error);
+      return analysis;
+    }
+  }
+
+  /**
+   * Fills ingredient nutrients of a generated menu from the reference table.
+   * A meal whose ingredients all resolve gets its macros from their sum and
+   * the menu totals are shifted by the same difference.
+   */
+  static async applyToMenu<T extends { meals?: any[] }>(menuData: T) {
+    if (!Array.isArray(menuData?.meals)) return menuData;
+
+    try {
+      const menuDelta = { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 };
+
+      const meals = await Promise.all(
+        menuData.meals.map(async (meal) => {
+          const ingredients: any[] = Array.isArray(meal.ingredients)
+            ? meal.ingredients
+            : [];
+
+          const resolved = await Promise.all(
+            ingredients.map((ingredient) =>
+              this.resolveIngredient({
+                name: ingredient?.name,
+                quantity: ingredient?.quantity,
+                unit: ingredient?.unit,
+              })
+            )
+          );
+
+          const enrichedIngredients = ingredients.map((ingredient, index) => {
+            const nutrition = resolved[index];
+            if (!nutrition) return ingredient;
+            return {
+              ...ingredient,
+              food_id: nutrition.food_id,
+              calories: nutrition.calories,
+              protein_g: nutrition.protein_g,
+              carbs_g: nutrition.carbs_g,
+              fats_g: nutrition.fats_g,
+              fiber_g: nutrition.fiber_g,
+            };
+          });
+
+          const allResolved = ingredients.length > 0 && resolved.every(Boolean);
+          if (!allResolved) {
+            return { ...meal, ingredients: enrichedIngredients };
+          }
+
+          const sum = (field: keyof ResolvedIngredientNutrition) =>
+            round(
+              resolved.reduce(
+                (total, nutrition) => total + Number(nutrition![field]),
+                0
+              )
+            );
+          const totals = {
+            calories: Math.round(sum("calories")),
+            protein: sum("protein_g"),
+            carbs: sum("carbs_g"),
+            fat: sum("fats_g"),
+            fiber: sum("fiber_g"),
+          };
+
+          (Object.keys(totals) as Array<keyof typeof totals>).forEach(
+            (field) => {
+              menuDelta[field] += totals[field] - (Number(meal[field]) || 0);
+            }
+          );
+
+          return { ...meal, ...totals, ingredients: enrichedIngredients };
+        })
+      );
+
+      const menu: any = { ...menuData, meals };
+      const totalFields = {
+        calories: "total_calories",
+        protein: "total_protein",
+        carbs: "total_carbs",
+        fat: "total_fat",
+        fiber: "total_fiber",
+      } as const;
+      (Object.keys(totalFields) as Array<keyof typeof totalFields>).forEach(
+        (field) => {
+          const key = totalFields[field];
+          if (typeof menu[key] === "number") {
+            menu[key] = Math.max(0, round(menu[key] + menuDelta[field]));
+          }
+        }
+      );
+
+      return menu as T;
+    } catch (error) {
+      console.error("❌ Food database lookup for menu failed:", error);
+      return menuData;
+    }
+  }
+
+  /**
+   * Upserts reference foods in batches, keyed by source and source id, so
+   * re-running an import refreshes rows instead of duplicating them.
+   */
+  static async importRecords(
+    records: AsyncIterable<FoodCompositionRecord>,
+    onProgress?: (imported: number) => void
+  ) {
+    let imported = 0;
+    let batch: FoodCompositionRecord[] = [];
+
+    const flush = async () => {
+      if (batch.length === 0) return;
+
+      await prisma.$transaction(
+        batch.map((record) => {
+          const data = {
+            ...record,
+            aliases: record.aliases || [],
+            search_text: buildSearchText([
+              record.name_en,
+              record.name_he,
+              ...(record.aliases || []),
+            ]),
+            vitamins_json: record.vitamins_json ?? undefined,
+            micronutrients_json: record.micronutrients_json ?? undefined,
+          };
+
+          return prisma.foodComposition.upsert({
+            where: {
+              source_source_id: {
+                source: record.source,
+                source_id: record.source_id,
+              },
+            },
+            create: data,
+            update: data,
+          });
+        })
+      );
+
+      imported += batch.length;
+      batch = [];
+      onProgress?.(imported);
+    };
+
+    for await (const record of records) {
+      batch.push(record);
+      if (batch.length >= IMPORT_BATCH_SIZE) await flush();
+    }
+    await flush();
+
+    this.lookupCache.clear();
+    return { imported };
+  }
+
+  private static async findCandidates(tokens: string[]) {
+    const coreTokens = tokens.filter((token) => !isDescriptor(token));
+    if (coreTokens.length === 0) return [];
+
+    // Every core word present is the precise case
+    const exact = await prisma.foodComposition.findMany({
+      where: {
+        AND: coreTokens.map((token) => ({
+          search_text: { contains: ` ${token}` },
+        })),
+      },
+      take: MAX_CANDIDATES,
+    });
+    if (exact.length > 0) return exact;
+
+    // Otherwise any word, by prefix so misspellings still find candidates
+    return prisma.foodComposition.findMany({
+      where: {
+        OR: coreTokens.map((token) => ({
+          search_text: { contains: ` ${token.slice(0, 4)}` },
+        })),
+      },
+      take: MAX_CANDIDATES,
+    });
+  }
+}
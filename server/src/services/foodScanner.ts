@@ -1,37 +1,16 @@
 import { prisma } from "../lib/database";
-import { openai } from "./openai";
-import axios from "axios";
-
-interface ProductData {
-  barcode?: string;
-  name: string;
-  brand?: string;
-  category: string;
-  nutrition_per_100g: {
-    calories: number;
-    protein: number;
-    carbs: number;
-    fat: number;
-    fiber?: number;
-    sugar?: number;
-    sodium?: number;
-    saturated_fat?: number;
-    trans_fat?: number;
-    cholesterol?: number;
-    potassium?: number;
-    calcium?: number;
-    iron?: number;
-    vitamin_c?: number;
-    vitamin_d?: number;
-  };
-  ingredients: string[];
-  allergens: string[];
-  labels: string[];
-  health_score?: number;
-  image_url?: string;
-  serving_size?: string;
-  servings_per_container?: number;
-}
+import { getAIProvider } from "../lib/ai";
+import {
+  fetchOpenFoodFactsProduct,
+  isLiveLookupEnabled,
+} from "../lib/openFoodFacts";
+import { FoodProductSource } from "@prisma/client";
+import { ProductData } from "../types/foodScanner";
+import { AllergenWarning } from "../types/allergens";
+import { KosherClassification, KosherWarning } from "../types/kosher";
+import { AllergenService } from "./allergens";
+import { KosherService } from "./kosher";
+import { FastingService } from "./fasting";
 
 interface UserAnalysis {
   compatibility_score: number;
@@ -42,10 +21,61 @@ interface UserAnalysis {
     fat_percent: number;
   };
   alerts: string[];
+  allergen_warnings: AllergenWarning[];
+  kosher: KosherClassification | null;
+  kosher_warnings: KosherWarning[];
   recommendations: string[];
   health_assessment: string;
 }
 
+const nutrientNumber = { type: ["number", "null"] };
+
+// JSON schema for label scans, mirrors ProductData
+const PRODUCT_LABEL_SCHEMA = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    brand: { type: ["string", "null"] },
+    category: { type: "string" },
+    nutrition_per_100g: {
+      type: "object",
+      properties: {
+        calories: { type: "number" },
+        protein: { type: "number" },
+        carbs: { type: "number" },
+        fat: { type: "number" },
+        fiber: nutrientNumber,
+        sugar: nutrientNumber,
+        sodium: nutrientNumber,
+        saturated_fat: nutrientNumber,
+        trans_fat: nutrientNumber,
+        cholesterol: nutrientNumber,
+        potassium: nutrientNumber,
+        calcium: nutrientNumber,
+        iron: nutrientNumber,
+        vitamin_c: nutrientNumber,
+        vitamin_d: nutrientNumber,
+      },
+      required: ["calories", "protein", "carbs", "fat"],
+    },
+    ingredients: { type: "array", items: { type: "string" } },
+    allergens: { type: "array", items: { type: "string" } },
+    labels: { type: "array", items: { type: "string" } },
+    health_score: { type: ["number", "null"] },
+    barcode: { type: ["string", "null"] },
+    serving_size: { type: ["string", "null"] },
+    servings_per_container: { type: ["number", "null"] },
+  },
+  required: [
+    "name",
+    "category",
+    "nutrition_per_100g",
+    "ingredients",
+    "allergens",
+    "labels",
+  ],
+};
+
 export class FoodScannerService {
   static async scanBarcode(
     barcode: string,
@@ -57,11 +87,15 @@ export class FoodScannerService {
     try {
       console.log("🔍 Scanning barcode:", barcode);
 
-      // Try to get product from our database first
+      // The imported catalog answers most scans without leaving the server
       let productData = await this.getProductFromDatabase(barcode);
 
       if (!productData) {
-        // Try external food database APIs
+        if (!isLiveLookupEnabled()) {
+          throw new Error("Product not found in any database");
+        }
+
+        // Fall back to the live OpenFoodFacts API
         productData = await this.getProductFromExternalAPI(barcode);
 
         if (!productData) {
@@ -69,15 +103,15 @@ export class FoodScannerService {
         }
 
         // Save to our database for future use
-        await this.saveProductToDatabase(productData, barcode, userId);
-      } else {
-        // Update the access time for existing products
-        await prisma.foodProduct.update({
-          where: { barcode },
-          data: { updated_at: new Date() },
-        });
+        await this.saveProductToDatabase(
+          productData,
+          barcode,
+          "OPENFOODFACTS_API"
+        );
       }
 
+      await this.recordScan(userId, barcode);
+
       // Get user-specific analysis
       const userAnalysis = await this.analyzeProductForUser(
         productData,
@@ -104,8 +138,9 @@ export class FoodScannerService {
     try {
       console.log("📷 Scanning product image with AI...");
 
-      if (!openai || !process.env.OPENAI_API_KEY) {
-        throw new Error("AI image scanning not available - no API key");
+      const provider = getAIProvider();
+      if (!provider) {
+        throw new Error("AI image scanning not available - no AI provider");
       }
 
       const systemPrompt = `You are a comprehensive nutrition label scanner. Analyze the food product image and extract complete nutritional information.
@@ -143,8 +178,11 @@ Return JSON with this exact structure:
 
 Extract all visible nutritional information. If a value is not visible, use 0 or null. Calculate health score based on nutritional quality: high fiber/protein = good, high sugar/sodium = bad. Be precise with nutritional values.`;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-5",
+      const productData = await provider.generateJSON<ProductData>({
+        task: "product_scan",
+        model: "reasoning",
+        schemaName: "product_label",
+        schema: PRODUCT_LABEL_SCHEMA,
         messages: [
           {
             role: "system",
@@ -152,37 +190,26 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
           },
           {
             role: "user",
-            content: [
-              {
-                type: "text",
-                text: "Please analyze this food product label and extract nutritional information.",
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: `data:image/jpeg;base64,${imageBase64}`,
-                  detail: "high",
-                },
-              },
-            ],
+            content:
+              "Please analyze this food product label and extract nutritional information.",
           },
         ],
-        max_tokens: 1000,
+        images: [{ base64: imageBase64, detail: "high" }],
+        maxTokens: 1000,
         temperature: 0.1,
       });
 
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error("No response from AI");
-      }
-
-      const productData = JSON.parse(content) as ProductData;
-
       // Save to database if barcode was detected, or create a unique identifier for image scans
       const productId =
         productData.barcode ||
         `img_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      await this.saveProductToDatabase(productData, productId, userId);
+      await this.saveProductToDatabase(
+        productData,
+        productId,
+        "LABEL_SCAN",
+        userId
+      );
+      await this.recordScan(userId, productId);
 
       // Get user-specific analysis
       const userAnalysis = await this.analyzeProductForUser(
@@ -269,6 +296,13 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
         cooking_method: null,
       };
 
+      // Waiting times are checked against the meals logged before this one
+      const kosher_warnings = await KosherService.checkNewFood(userId, {
+        name: productData.name,
+        ingredients: productData.ingredients,
+        labels: productData.labels,
+      });
+
       const meal = await prisma.meal.create({
         data: {
           user_id: userId,
@@ -279,10 +313,18 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
         },
       });
 
+      await FastingService.recordMeal(userId, meal.meal_id, meal.upload_time);
+
       // Award achievement for first scan
       await this.checkAndAwardAchievements(userId);
 
-      return meal;
+      const allergen_warnings = await AllergenService.checkFoodForUser(userId, {
+        name: productData.name,
+        ingredients: productData.ingredients,
+        allergens: productData.allergens,
+      });
+
+      return { ...meal, allergen_warnings, kosher_warnings };
     } catch (error) {
       console.error("💥 Add to meal log error:", error);
       throw error;
@@ -292,15 +334,17 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
   static async getScanHistory(userId: string): Promise<any[]> {
     try {
       // Get both scanned food products and meals created from scanned items
-      const [products, meals] = await Promise.all([
-        prisma.foodProduct.findMany({
+      const [scans, meals] = await Promise.all([
+        prisma.foodProductScan.findMany({
           where: { user_id: userId },
-          orderBy: { created_at: "desc" },
+          include: { product: true },
+          orderBy: { scanned_at: "desc" },
           take: 25,
         }),
         prisma.meal.findMany({
           where: {
             user_id: userId,
+            deleted_at: null,
             meal_name: { contains: "g)" }, // Meals created from scanner have format "Product (XXXg)"
           },
           orderBy: { created_at: "desc" },
@@ -310,14 +354,14 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
 
       // Combine and format the results
       const history = [
-        ...products.map((product) => ({
+        ...scans.map(({ product, scanned_at }) => ({
           id: product.product_id,
           product_name: product.product_name,
           name: product.product_name,
           brand: product.brand,
           category: product.category,
           barcode: product.barcode,
-          created_at: product.created_at,
+          created_at: scanned_at,
           type: "product",
         })),
         ...meals.map((meal) => ({
@@ -359,8 +403,10 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
         ingredients: product.ingredients as string[],
         allergens: product.allergens as string[],
         labels: product.labels as string[],
-        health_score: product.health_score || undefined,
+        health_score: product.health_score ?? undefined,
+        nutriscore_grade: product.nutriscore_grade || undefined,
         image_url: product.image_url || undefined,
+        serving_size: product.serving_size || undefined,
       };
     } catch (error) {
       console.error("Error getting product from database:", error);
@@ -372,61 +418,7 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
     barcode: string
   ): Promise<ProductData | null> {
     try {
-      // Try OpenFoodFacts
-      const response = await axios.get(
-        `https://world.openfoodfacts.org/api/v0/product/${barcode}.json`,
-        { timeout: 5000 }
-      );
-
-      if (response.data.status === 1 && response.data.product) {
-        const product = response.data.product;
-        const nutriments = product.nutriments || {};
-
-        return {
-          barcode,
-          name: product.product_name || "Unknown Product",
-          brand: product.brands || undefined,
-          category: product.categories?.split(",")[0] || "Unknown",
-          nutrition_per_100g: {
-            calories:
-              nutriments.energy_kcal_100g ||
-              nutriments["energy-kcal_100g"] ||
-              nutriments.energy_100g ||
-              0,
-            protein: nutriments.proteins_100g || 0,
-            carbs: nutriments.carbohydrates_100g || 0,
-            fat: nutriments.fat_100g || 0,
-            fiber: nutriments.fiber_100g || undefined,
-            sugar: nutriments.sugars_100g || undefined,
-            sodium: nutriments.sodium_100g
-              ? nutriments.sodium_100g * 1000
-              : undefined,
-            saturated_fat: nutriments.saturated_fat_100g || undefined,
-            trans_fat: nutriments.trans_fat_100g || undefined,
-            cholesterol: nutriments.cholesterol_100g || undefined,
-            potassium: nutriments.potassium_100g || undefined,
-            calcium: nutriments.calcium_100g || undefined,
-            iron: nutriments.iron_100g || undefined,
-            vitamin_c: nutriments.vitamin_c_100g || undefined,
-            vitamin_d: nutriments.vitamin_d_100g || undefined,
-          },
-          ingredients:
-            product.ingredients_text_en
-              ?.split(",")
-              .map((i: string) => i.trim()) || [],
-          allergens:
-            product.allergens_tags?.map((a: string) => a.replace("en:", "")) ||
-            [],
-          labels:
-            product.labels_tags?.map((l: string) => l.replace("en:", "")) || [],
-          health_score: product.nutriscore_score || undefined,
-          image_url: product.image_url || undefined,
-          serving_size: product.serving_size || undefined,
-          servings_per_container: product.servings_per_container || undefined,
-        };
-      }
-
-      return null;
+      return await fetchOpenFoodFactsProduct(barcode);
     } catch (error: any) {
       console.warn("❌ OpenFoodFacts failed:", error.message || error);
       return null;
@@ -436,43 +428,60 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
   private static async saveProductToDatabase(
     productData: ProductData,
     barcode: string,
-    user_id: string
+    source: FoodProductSource,
+    user_id?: string
   ): Promise<void> {
     try {
+      const existing = await prisma.foodProduct.findUnique({
+        where: { barcode },
+        select: { source: true },
+      });
+
+      // Catalog and API rows are shared by every user, only earlier label
+      // scans may be replaced
+      if (existing && existing.source !== "LABEL_SCAN") return;
+
+      const data = {
+        product_name: productData.name,
+        brand: productData.brand,
+        category: productData.category,
+        nutrition_per_100g: productData.nutrition_per_100g,
+        ingredients: productData.ingredients,
+        allergens: productData.allergens,
+        labels: productData.labels,
+        health_score: productData.health_score,
+        nutriscore_grade: productData.nutriscore_grade,
+        image_url: productData.image_url,
+        serving_size: productData.serving_size,
+        source,
+      };
+
       await prisma.foodProduct.upsert({
         where: { barcode },
-        update: {
-          product_name: productData.name,
-          brand: productData.brand,
-          category: productData.category,
-          nutrition_per_100g: productData.nutrition_per_100g,
-          ingredients: productData.ingredients,
-          allergens: productData.allergens,
-          labels: productData.labels,
-          health_score: productData.health_score,
-          image_url: productData.image_url,
-          updated_at: new Date(),
-        },
-        create: {
-          barcode,
-          product_name: productData.name,
-          brand: productData.brand,
-          category: productData.category,
-          nutrition_per_100g: productData.nutrition_per_100g,
-          ingredients: productData.ingredients,
-          allergens: productData.allergens,
-          labels: productData.labels,
-          health_score: productData.health_score,
-          image_url: productData.image_url,
-          user_id,
-          created_at: new Date(),
-        },
+        update: data,
+        create: { barcode, ...data, user_id },
       });
     } catch (error) {
       console.error("Error saving product to database:", error);
     }
   }
 
+  private static async recordScan(
+    user_id: string,
+    barcode: string
+  ): Promise<void> {
+    try {
+      await prisma.foodProductScan.create({
+        data: {
+          user: { connect: { user_id } },
+          product: { connect: { barcode } },
+        },
+      });
+    } catch (error) {
+      console.error("Error recording product scan:", error);
+    }
+  }
+
   private static async analyzeProductForUser(
     productData: ProductData,
     userId: string
@@ -493,6 +502,9 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
           fat_percent: 0,
         },
         alerts: [],
+        allergen_warnings: [],
+        kosher: null,
+        kosher_warnings: [],
         recommendations: [],
         health_assessment: "מוצר נייטרלי מבחינה תזונתית",
       };
@@ -518,18 +530,20 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
 
       // Check for dietary restrictions
       if (questionnaire) {
-        const userAllergies =
-          (questionnaire.allergies as string[] | null | undefined) || [];
-        const productAllergens = productData.allergens || [];
-        const allergenMatches = userAllergies.filter((allergy: string) =>
-          productAllergens.some((allergen) =>
-            allergen.toLowerCase().includes(allergy.toLowerCase())
-          )
+        analysis.allergen_warnings = AllergenService.checkFood(
+          AllergenService.buildProfile(questionnaire),
+          {
+            name: productData.name,
+            ingredients: productData.ingredients,
+            allergens: productData.allergens,
+          }
         );
 
-        if (allergenMatches.length > 0) {
+        if (analysis.allergen_warnings.length > 0) {
           analysis.alerts.push(
-            `⚠️ אלרגן: המוצר מכיל ${allergenMatches.join(", ")}`
+            ...analysis.allergen_warnings.map((warning) =>
+              AllergenService.formatWarning(warning)
+            )
           );
           analysis.compatibility_score -= 30;
         }
@@ -548,9 +562,33 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
           analysis.compatibility_score -= 20;
         }
 
-        if (questionnaire.kosher && !productLabels.includes("kosher")) {
-          analysis.alerts.push("✡️ המוצר אינו כשר");
-          analysis.compatibility_score -= 15;
+        if (questionnaire.kosher) {
+          const kosherFood = {
+            name: productData.name,
+            ingredients: productData.ingredients,
+            labels: productData.labels,
+          };
+          analysis.kosher = KosherService.classify(kosherFood);
+          analysis.kosher_warnings = await KosherService.checkNewFood(
+            userId,
+            kosherFood
+          );
+
+          if (analysis.kosher_warnings.length > 0) {
+            analysis.alerts.push(
+              ...analysis.kosher_warnings.map((warning) =>
+                KosherService.formatWarning(warning)
+              )
+            );
+            analysis.compatibility_score -= 30;
+          } else if (
+            !productLabels.some(
+              (label) => label.includes("kosher") || label.includes("כשר")
+            )
+          ) {
+            analysis.alerts.push("✡️ לא נמצא סימון כשרות על המוצר");
+            analysis.compatibility_score -= 15;
+          }
         }
       }
 
@@ -605,6 +643,9 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
           fat_percent: 0,
         },
         alerts: [],
+        allergen_warnings: [],
+        kosher: null,
+        kosher_warnings: [],
         recommendations: [],
         health_assessment: "לא הצלחנו לנתח את המוצר",
       };
@@ -617,7 +658,7 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
     try {
       // Check for first scan achievement
       const scanCount = await prisma.meal.count({
-        where: { user_id: userId },
+        where: { user_id: userId, deleted_at: null },
       });
 
       if (scanCount === 1) {
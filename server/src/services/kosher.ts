@@ -0,0 +1,456 @@
+import { prisma } from "../lib/database";
+import { collectFoodText, findTerms } from "../lib/allergens";
+import {
+  DAIRY_EXCLUSIONS,
+  DAIRY_FREE_FROM,
+  DAIRY_TERMS,
+  DEFAULT_DAIRY_MEAT_WAIT_HOURS,
+  DEFAULT_MEAT_DAIRY_WAIT_HOURS,
+  MEAL_TIMING_HOURS,
+  MEAT_EXCLUSIONS,
+  MEAT_FREE_FROM,
+  MEAT_TERMS,
+  NON_KOSHER_EXCLUSIONS,
+  NON_KOSHER_FREE_FROM,
+  NON_KOSHER_TERMS,
+} from "../lib/kosher";
+import {
+  KosherCategory,
+  KosherClassification,
+  KosherDayQuery,
+  KosherDayReport,
+  KosherFoodSource,
+  KosherMealCheck,
+  KosherSettings,
+  KosherWarning,
+} from "../types/kosher";
+import { getLocalDateString, resolveTimezone } from "../utils/timezone";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+interface QuestionnaireKosher {
+  kosher?: boolean | null;
+  kosher_meat_dairy_wait_hours?: number | null;
+  kosher_dairy_meat_wait_hours?: number | null;
+}
+
+interface LastEaten {
+  meat?: { time: number; meal_id?: number };
+  dairy?: { time: number; meal_id?: number };
+}
+
+const hasMeat = (category: KosherCategory) =>
+  category === "meat" || category === "mixed";
+const hasDairy = (category: KosherCategory) =>
+  category === "dairy" || category === "mixed";
+
+// Each text is matched on its own so "pareve" only clears its own item
+function matchAll(
+  texts: string[],
+  terms: string[],
+  exclusions: string[],
+  freeFrom: string[]
+) {
+  return [
+    ...new Set(
+      texts.flatMap((text) => findTerms(text, terms, exclusions, freeFrom))
+    ),
+  ];
+}
+
+function recordEaten(
+  last: LastEaten,
+  time: number,
+  category: KosherCategory,
+  meal_id?: number
+) {
+  if (hasMeat(category)) last.meat = { time, meal_id };
+  if (hasDairy(category)) last.dairy = { time, meal_id };
+}
+
+// Checks a food eaten at the given time against the last meat and dairy meals
+function checkWaitingTime(
+  settings: KosherSettings,
+  last: LastEaten,
+  time: number,
+  classification: KosherClassification
+): KosherWarning[] {
+  const warnings: KosherWarning[] = [];
+  const { category } = classification;
+
+  const tooSoon = (
+    previous: LastEaten["meat"],
+    required_hours: number,
+    previous_category: "meat" | "dairy",
+    terms: string[]
+  ) => {
+    if (!previous) return;
+    const hours_since = (time - previous.time) / HOUR_MS;
+    if (hours_since >= 0 && hours_since < required_hours) {
+      warnings.push({
+        type: "waiting_time",
+        terms,
+        previous_meal_id: previous.meal_id,
+        previous_category,
+        hours_since: Math.round(hours_since * 10) / 10,
+        required_hours,
+      });
+    }
+  };
+
+  if (hasDairy(category)) {
+    tooSoon(
+      last.meat,
+      settings.meat_dairy_wait_hours,
+      "meat",
+      classification.dairy
+    );
+  }
+  if (hasMeat(category)) {
+    tooSoon(
+      last.dairy,
+      settings.dairy_meat_wait_hours,
+      "dairy",
+      classification.meat
+    );
+  }
+
+  return warnings;
+}
+
+export class KosherService {
+  static buildSettings(
+    questionnaire: QuestionnaireKosher | null | undefined
+  ): KosherSettings {
+    return {
+      kosher: !!questionnaire?.kosher,
+      meat_dairy_wait_hours:
+        questionnaire?.kosher_meat_dairy_wait_hours ??
+        DEFAULT_MEAT_DAIRY_WAIT_HOURS,
+      dairy_meat_wait_hours:
+        questionnaire?.kosher_dairy_meat_wait_hours ??
+        DEFAULT_DAIRY_MEAT_WAIT_HOURS,
+    };
+  }
+
+  static async getSettings(user_id: string): Promise<KosherSettings> {
+    const questionnaire = await prisma.userQuestionnaire.findFirst({
+      where: { user_id },
+      orderBy: { date_completed: "desc" },
+      select: {
+        kosher: true,
+        kosher_meat_dairy_wait_hours: true,
+        kosher_dairy_meat_wait_hours: true,
+      },
+    });
+    return this.buildSettings(questionnaire);
+  }
+
+  /**
+   * Sorts a food into meat, dairy, pareve or mixed from its name,
+   * ingredients and labels, and lists any non-kosher ingredients.
+   */
+  static classify(food: KosherFoodSource): KosherClassification {
+    const texts = collectFoodText([
+      food.name,
+      food.ingredients,
+      food.labels,
+    ]).filter(Boolean);
+
+    const meat = matchAll(texts, MEAT_TERMS, MEAT_EXCLUSIONS, MEAT_FREE_FROM);
+    const dairy = matchAll(
+      texts,
+      DAIRY_TERMS,
+      DAIRY_EXCLUSIONS,
+      DAIRY_FREE_FROM
+    );
+    const non_kosher = matchAll(
+      texts,
+      NON_KOSHER_TERMS,
+      NON_KOSHER_EXCLUSIONS,
+      NON_KOSHER_FREE_FROM
+    );
+
+    const category: KosherCategory =
+      meat.length > 0 && dairy.length > 0
+        ? "mixed"
+        : meat.length > 0
+        ? "meat"
+        : dairy.length > 0
+        ? "dairy"
+        : "pareve";
+
+    return { category, meat, dairy, non_kosher };
+  }
+
+  // Rules that apply to a single food regardless of when it is eaten
+  static checkFood(classification: KosherClassification): KosherWarning[] {
+    const warnings: KosherWarning[] = [];
+    if (classification.non_kosher.length > 0) {
+      warnings.push({ type: "non_kosher", terms: classification.non_kosher });
+    }
+    if (classification.category === "mixed") {
+      warnings.push({
+        type: "meat_and_dairy",
+        terms: [...classification.meat, ...classification.dairy],
+      });
+    }
+    return warnings;
+  }
+
+  /**
+   * Checks logged meals in time order, so a dairy meal too soon after a meat
+   * meal is flagged. Meals can come in any order.
+   */
+  static checkMeals<
+    T extends {
+      meal_id: number;
+      meal_name?: string | null;
+      ingredients?: unknown;
+      created_at: Date;
+    }
+  >(settings: KosherSettings, meals: T[]): Map<number, KosherMealCheck> {
+    const checks = new Map<number, KosherMealCheck>();
+    const last: LastEaten = {};
+
+    const ordered = [...meals].sort(
+      (a, b) =>
+        new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    );
+
+    for (const meal of ordered) {
+      const eaten_at = new Date(meal.created_at);
+      const classification = this.classify({
+        name: meal.meal_name,
+        ingredients: meal.ingredients,
+      });
+      checks.set(meal.meal_id, {
+        meal_id: meal.meal_id,
+        meal_name: meal.meal_name ?? null,
+        eaten_at,
+        category: classification.category,
+        warnings: [
+          ...this.checkFood(classification),
+          ...checkWaitingTime(
+            settings,
+            last,
+            eaten_at.getTime(),
+            classification
+          ),
+        ],
+      });
+      recordEaten(
+        last,
+        eaten_at.getTime(),
+        classification.category,
+        meal.meal_id
+      );
+    }
+
+    return checks;
+  }
+
+  /**
+   * Warnings for a food the user is about to eat, including waiting times
+   * after the meals logged in the previous day.
+   */
+  static async checkNewFood(
+    user_id: string,
+    food: KosherFoodSource,
+    at: Date = new Date()
+  ): Promise<KosherWarning[]> {
+    const settings = await this.getSettings(user_id);
+    if (!settings.kosher) return [];
+
+    const recentMeals = await prisma.meal.findMany({
+      where: {
+        user_id,
+        deleted_at: null,
+        created_at: { gte: new Date(at.getTime() - DAY_MS), lt: at },
+      },
+      select: {
+        meal_id: true,
+        meal_name: true,
+        ingredients: true,
+        created_at: true,
+      },
+    });
+
+    // Checks come back in time order, so the last meal recorded wins
+    const last: LastEaten = {};
+    for (const check of this.checkMeals(settings, recentMeals).values()) {
+      recordEaten(
+        last,
+        check.eaten_at.getTime(),
+        check.category,
+        check.meal_id
+      );
+    }
+
+    const classification = this.classify(food);
+    return [
+      ...this.checkFood(classification),
+      ...checkWaitingTime(settings, last, at.getTime(), classification),
+    ];
+  }
+
+  /**
+   * Adds kosher warnings to meals going out to the client. Users who do not
+   * keep kosher get their meals back unchanged.
+   */
+  static async annotateMeals<
+    T extends {
+      meal_id: number;
+      meal_name?: string | null;
+      ingredients?: unknown;
+      created_at: Date;
+    }
+  >(user_id: string, meals: T[]) {
+    const settings = await this.getSettings(user_id);
+    if (!settings.kosher || meals.length === 0) return meals;
+
+    const checks = this.checkMeals(settings, meals);
+    return meals.map((meal) => ({
+      ...meal,
+      kosher_category: checks.get(meal.meal_id)?.category,
+      kosher_warnings: checks.get(meal.meal_id)?.warnings || [],
+    }));
+  }
+
+  /**
+   * Every meal logged on a local date with its category and warnings. Meals
+   * from the day before count towards waiting times.
+   */
+  static async checkDay(
+    user_id: string,
+    query: KosherDayQuery
+  ): Promise<KosherDayReport> {
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      select: { timezone: true },
+    });
+    if (!user) throw new Error("User not found");
+
+    const timezone = resolveTimezone(user.timezone);
+    const date = query.date || getLocalDateString(new Date(), timezone);
+    const settings = await this.getSettings(user_id);
+
+    const meals = await prisma.meal.findMany({
+      where: {
+        user_id,
+        deleted_at: null,
+        created_at: {
+          gte: new Date(Date.parse(`${date}T00:00:00.000Z`) - 2 * DAY_MS),
+          lt: new Date(Date.parse(`${date}T00:00:00.000Z`) + 2 * DAY_MS),
+        },
+      },
+      select: {
+        meal_id: true,
+        meal_name: true,
+        ingredients: true,
+        created_at: true,
+      },
+    });
+
+    const dayMeals = [...this.checkMeals(settings, meals).values()].filter(
+      (check) => getLocalDateString(check.eaten_at, timezone) === date
+    );
+
+    return {
+      date,
+      settings,
+      meals: dayMeals,
+      warnings_count: dayMeals.reduce(
+        (sum, check) => sum + check.warnings.length,
+        0
+      ),
+    };
+  }
+
+  /**
+   * Splits generated meals into ones that keep kosher and ones that do not.
+   * Meals of a day are placed at nominal times for their meal type, and a
+   * meal served too soon after one of the other kind is rejected.
+   */
+  static partitionMeals<T>(
+    settings: KosherSettings,
+    meals: T[],
+    describe: (meal: T) => {
+      food: KosherFoodSource;
+      day: number | string;
+      meal_timing: string;
+    }
+  ): { safe: T[]; rejected: Array<{ meal: T; warnings: KosherWarning[] }> } {
+    if (!settings.kosher) return { safe: meals, rejected: [] };
+
+    const rejected: Array<{ meal: T; warnings: KosherWarning[] }> = [];
+    const rejectedMeals = new Set<T>();
+    const days = new Map<string, Array<{ meal: T; hour: number }>>();
+
+    for (const meal of meals) {
+      const { food, day, meal_timing } = describe(meal);
+      const warnings = this.checkFood(this.classify(food));
+      if (warnings.length > 0) {
+        rejected.push({ meal, warnings });
+        rejectedMeals.add(meal);
+        continue;
+      }
+      const dayMeals = days.get(String(day)) || [];
+      dayMeals.push({ meal, hour: MEAL_TIMING_HOURS[meal_timing] ?? 13 });
+      days.set(String(day), dayMeals);
+    }
+
+    for (const dayMeals of days.values()) {
+      const last: LastEaten = {};
+      dayMeals.sort((a, b) => a.hour - b.hour);
+      for (const { meal, hour } of dayMeals) {
+        const classification = this.classify(describe(meal).food);
+        const warnings = checkWaitingTime(
+          settings,
+          last,
+          hour * HOUR_MS,
+          classification
+        );
+        // Rejected meals are not served, so they do not start a wait
+        if (warnings.length > 0) {
+          rejected.push({ meal, warnings });
+          rejectedMeals.add(meal);
+        } else {
+          recordEaten(last, hour * HOUR_MS, classification.category);
+        }
+      }
+    }
+
+    return {
+      safe: meals.filter((meal) => !rejectedMeals.has(meal)),
+      rejected,
+    };
+  }
+
+  static formatWarning(warning: KosherWarning, language: "en" | "he" = "he") {
+    const terms = warning.terms.join(", ");
+    if (warning.type === "non_kosher") {
+      return language === "he"
+        ? `✡️ לא כשר: מכיל ${terms}`
+        : `✡️ Not kosher: contains ${terms}`;
+    }
+    if (warning.type === "meat_and_dairy") {
+      return language === "he"
+        ? `✡️ בשר וחלב באותה ארוחה (${terms})`
+        : `✡️ Meat and dairy in the same meal (${terms})`;
+    }
+    const next = warning.previous_category === "meat" ? "dairy" : "meat";
+    return language === "he"
+      ? `✡️ ${next === "dairy" ? "חלבי" : "בשרי"} ${
+          warning.hours_since
+        } שעות אחרי ${
+          warning.previous_category === "meat" ? "ארוחה בשרית" : "ארוחה חלבית"
+        } (יש להמתין ${warning.required_hours} שעות)`
+      : `✡️ ${next === "dairy" ? "Dairy" : "Meat"} ${
+          warning.hours_since
+        }h after a ${warning.previous_category} meal (wait ${
+          warning.required_hours
+        }h)`;
+  }
+}
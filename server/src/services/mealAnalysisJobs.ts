@@ -0,0 +1,423 @@
+import { prisma } from "../lib/database";
+import { NutritionService } from "./nutrition";
+import { FastingService } from "./fasting";
+import { PushNotificationService } from "./pushNotifications";
+import { AIQuotaService } from "./aiQuota";
+import { MealImageService } from "./mealImages";
+import { ClarificationAnswer, MealAnalysisJobInput } from "../types/nutrition";
+
+const MAX_CONCURRENT_JOBS = Number(process.env.ANALYSIS_MAX_CONCURRENCY) || 2;
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 15 * 1000;
+// A job stuck in PROCESSING longer than this was lost (e.g. server restart)
+const STALE_JOB_MS = 5 * 60 * 1000;
+
+// Errors that will fail the same way no matter how often we retry
+const NON_RETRYABLE_ERRORS = [
+  "Image data is required",
+  "Invalid base64 image format",
+  "User not found",
+  "Meal not found",
+];
+
+interface AnalysisJobRequest {
+  language: string;
+  date: string;
+  updateText?: string;
+  editedIngredients: any[];
+  clarifications?: ClarificationAnswer[];
+  // Local day the quota was charged on, refunded if the job fails for good
+  quota_date?: string;
+  // Set when re-analyzing a meal that already had a result
+  keep_meal?: boolean;
+  // A re-analysis photo, it replaces the meal's only once the analysis works
+  new_image_key?: string;
+}
+
+function toJobView(job: any) {
+  return {
+    job_id: job.job_id,
+    meal_id: job.meal_id,
+    status: job.status,
+    attempts: job.attempts,
+    max_attempts: job.max_attempts,
+    next_attempt_at: job.status === "PENDING" ? job.next_attempt_at : undefined,
+    error: job.status === "FAILED" ? job.error_message : undefined,
+    result: job.status === "COMPLETED" ? job.result_json : undefined,
+    created_at: job.created_at,
+    completed_at: job.completed_at,
+  };
+}
+
+export class MealAnalysisJobService {
+  private static queue: string[] = [];
+  private static activeJobs = new Set<string>();
+
+  static async submitJob(
+    user_id: string,
+    input: MealAnalysisJobInput,
+    quota_date?: string
+  ) {
+    const request: AnalysisJobRequest = {
+      language: input.language,
+      date: input.date || new Date().toISOString().split("T")[0],
+      updateText: input.updateText,
+      editedIngredients: input.editedIngredients || [],
+      clarifications: input.clarifications,
+      quota_date,
+    };
+
+    let meal_id: number;
+
+    if (input.meal_id) {
+      const existingMeal = await prisma.meal.findFirst({
+        where: { meal_id: input.meal_id, user_id, deleted_at: null },
+        include: { analysisJob: true },
+      });
+
+      if (!existingMeal) throw new Error("Meal not found");
+
+      const runningJob = existingMeal.analysisJob;
+      if (
+        runningJob &&
+        (runningJob.status === "PENDING" || runningJob.status === "PROCESSING")
+      ) {
+        throw new Error("Meal is already being analyzed");
+      }
+
+      const cleanBase64 = input.imageBase64
+        ? this.validateImage(input.imageBase64)
+        : undefined;
+
+      await prisma.meal.update({
+        where: { meal_id: existingMeal.meal_id },
+        data: { analysis_status: "PENDING" },
+      });
+      if (cleanBase64) {
+        request.new_image_key = await MealImageService.store(
+          user_id,
+          cleanBase64
+        );
+      }
+
+      // One job per meal, a re-analysis replaces the previous one
+      await prisma.mealAnalysisJob.deleteMany({
+        where: { meal_id: existingMeal.meal_id },
+      });
+
+      meal_id = existingMeal.meal_id;
+      request.keep_meal = existingMeal.analysis_status === "COMPLETED";
+    } else {
+      const cleanBase64 = this.validateImage(input.imageBase64 || "");
+
+      const meal = await prisma.meal.create({
+        data: {
+          user_id,
+          image_key: await MealImageService.store(user_id, cleanBase64),
+          analysis_status: "PENDING",
+        },
+      });
+
+      meal_id = meal.meal_id;
+      await FastingService.recordMeal(user_id, meal_id, meal.upload_time);
+    }
+
+    const job = await prisma.mealAnalysisJob.create({
+      data: {
+        user_id,
+        meal_id,
+        max_attempts: MAX_ATTEMPTS,
+        request_json: request as any,
+      },
+    });
+
+    NutritionService.clearUserCaches(user_id);
+    console.log(
+      `🧾 Queued meal analysis job ${job.job_id} for meal ${meal_id}`
+    );
+
+    this.enqueue(job.job_id);
+    return toJobView(job);
+  }
+
+  static async getJob(user_id: string, job_id: string) {
+    const job = await prisma.mealAnalysisJob.findFirst({
+      where: { job_id, user_id },
+    });
+
+    return job ? toJobView(job) : null;
+  }
+
+  /**
+   * Picks up jobs whose retry time has come and jobs orphaned in PROCESSING,
+   * called periodically from the cron scheduler.
+   */
+  static async recoverJobs() {
+    try {
+      const staleBefore = new Date(Date.now() - STALE_JOB_MS);
+
+      const staleJobs = await prisma.mealAnalysisJob.updateMany({
+        where: { status: "PROCESSING", started_at: { lt: staleBefore } },
+        data: { status: "PENDING", next_attempt_at: new Date() },
+      });
+
+      if (staleJobs.count > 0) {
+        console.log(`♻️ Requeued ${staleJobs.count} stale analysis jobs`);
+      }
+
+      const dueJobs = await prisma.mealAnalysisJob.findMany({
+        where: { status: "PENDING", next_attempt_at: { lte: new Date() } },
+        orderBy: { next_attempt_at: "asc" },
+        select: { job_id: true },
+        take: 50,
+      });
+
+      dueJobs.forEach((job) => this.enqueue(job.job_id));
+    } catch (error) {
+      console.error("❌ Error recovering analysis jobs:", error);
+    }
+  }
+
+  private static validateImage(imageBase64: string) {
+    const cleanBase64 = imageBase64.trim().replace(/^data:.*base64,/, "");
+
+    if (!cleanBase64) throw new Error("Image data is required");
+    if (!/^[A-Za-z0-9+/]*={0,2}$/.test(cleanBase64)) {
+      throw new Error("Invalid base64 image format");
+    }
+    if (cleanBase64.length < 1000) {
+      throw new Error("Image data is too small or invalid");
+    }
+
+    return cleanBase64;
+  }
+
+  private static enqueue(job_id: string) {
+    if (this.activeJobs.has(job_id) || this.queue.includes(job_id)) return;
+
+    this.queue.push(job_id);
+    setImmediate(() => this.drainQueue());
+  }
+
+  private static drainQueue() {
+    while (
+      this.activeJobs.size < MAX_CONCURRENT_JOBS &&
+      this.queue.length > 0
+    ) {
+      const job_id = this.queue.shift()!;
+      this.activeJobs.add(job_id);
+
+      this.processJob(job_id)
+        .catch((error) =>
+          console.error(`❌ Unexpected error in analysis job ${job_id}:`, error)
+        )
+        .finally(() => {
+          this.activeJobs.delete(job_id);
+          this.drainQueue();
+        });
+    }
+  }
+
+  private static async processJob(job_id: string) {
+    // Claim the job atomically so a cron sweep can't run it twice
+    const claimed = await prisma.mealAnalysisJob.updateMany({
+      where: {
+        job_id,
+        status: "PENDING",
+        next_attempt_at: { lte: new Date() },
+      },
+      data: {
+        status: "PROCESSING",
+        started_at: new Date(),
+        attempts: { increment: 1 },
+      },
+    });
+
+    if (claimed.count === 0) return;
+
+    const job = await prisma.mealAnalysisJob.findUnique({
+      where: { job_id },
+      include: { meal: true },
+    });
+    if (!job) return;
+
+    const request = job.request_json as unknown as AnalysisJobRequest;
+
+    try {
+      if (!job.meal) throw new Error("Meal not found");
+
+      await prisma.meal.update({
+        where: { meal_id: job.meal.meal_id },
+        data: { analysis_status: "PROCESSING" },
+      });
+
+      console.log(
+        `🔬 Running analysis job ${job_id} (attempt ${job.attempts}/${job.max_attempts})`
+      );
+
+      const analysis = await NutritionService.analyzeMeal(job.user_id, {
+        imageBase64: await MealImageService.readBase64(
+          request.new_image_key
+            ? { image_key: request.new_image_key }
+            : job.meal
+        ),
+        language: request.language as "english" | "hebrew",
+        date: request.date,
+        updateText: request.updateText,
+        editedIngredients: request.editedIngredients || [],
+        clarifications: request.clarifications || [],
+      });
+
+      // The image already lives on the meal row, don't copy it into the job
+      const { image_url, ...result } = analysis.data;
+
+      await NutritionService.applyAnalysisToMeal(
+        job.meal.meal_id,
+        result,
+        request.new_image_key
+      );
+
+      await prisma.mealAnalysisJob.update({
+        where: { job_id },
+        data: {
+          status: "COMPLETED",
+          result_json: { ...result, confidence: analysis.confidence } as any,
+          error_message: null,
+          completed_at: new Date(),
+        },
+      });
+
+      console.log(`✅ Analysis job ${job_id} completed`);
+
+      await this.notifyUser(job.user_id, job_id, job.meal.meal_id, {
+        status: "COMPLETED",
+        mealName: result.meal_name,
+        language: request.language,
+      });
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to analyze meal";
+      const retryable = !NON_RETRYABLE_ERRORS.includes(message);
+
+      if (retryable && job.attempts < job.max_attempts) {
+        const delay = RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1);
+
+        await prisma.mealAnalysisJob.update({
+          where: { job_id },
+          data: {
+            status: "PENDING",
+            error_message: message,
+            next_attempt_at: new Date(Date.now() + delay),
+          },
+        });
+        if (job.meal) {
+          await prisma.meal.update({
+            where: { meal_id: job.meal.meal_id },
+            data: { analysis_status: "PENDING" },
+          });
+        }
+
+        console.warn(
+          `⚠️ Analysis job ${job_id} failed, retrying in ${delay / 1000}s:`,
+          message
+        );
+        setTimeout(() => this.enqueue(job_id), delay);
+        return;
+      }
+
+      await prisma.mealAnalysisJob.update({
+        where: { job_id },
+        data: {
+          status: "FAILED",
+          error_message: message,
+          completed_at: new Date(),
+        },
+      });
+      if (job.meal) {
+        await this.discardFailedMeal(job.meal, request);
+        NutritionService.clearUserCaches(job.user_id);
+      }
+      await MealImageService.remove(request.new_image_key);
+
+      console.error(`❌ Analysis job ${job_id} failed permanently:`, message);
+
+      if (request.quota_date) {
+        await AIQuotaService.refund(
+          job.user_id,
+          "MEAL_ANALYSIS",
+          request.quota_date
+        );
+      }
+
+      await this.notifyUser(
+        job.user_id,
+        job_id,
+        request.keep_meal ? job.meal_id : null,
+        { status: "FAILED", language: request.language }
+      );
+    }
+  }
+
+  /**
+   * A meal whose analysis failed for good is hidden from the user, so it's
+   * removed with its images. A re-analyzed meal keeps its earlier result
+   * and photo.
+   */
+  private static async discardFailedMeal(
+    meal: {
+      meal_id: number;
+      image_key: string | null;
+      after_image_key: string | null;
+    },
+    request: AnalysisJobRequest
+  ) {
+    if (request.keep_meal) {
+      await prisma.meal.update({
+        where: { meal_id: meal.meal_id },
+        data: { analysis_status: "COMPLETED" },
+      });
+      return;
+    }
+
+    await prisma.meal.delete({ where: { meal_id: meal.meal_id } });
+    await MealImageService.remove(meal.image_key);
+    await MealImageService.remove(meal.after_image_key);
+  }
+
+  private static async notifyUser(
+    user_id: string,
+    job_id: string,
+    meal_id: number | null,
+    outcome: {
+      status: "COMPLETED" | "FAILED";
+      mealName?: string;
+      language: string;
+    }
+  ) {
+    const isHebrew = outcome.language === "hebrew";
+    const completed = outcome.status === "COMPLETED";
+
+    await PushNotificationService.sendToUser(user_id, {
+      title: completed
+        ? isHebrew
+          ? "ניתוח הארוחה הושלם"
+          : "Meal analysis ready"
+        : isHebrew
+        ? "ניתוח הארוחה נכשל"
+        : "Meal analysis failed",
+      body: completed
+        ? isHebrew
+          ? `${outcome.mealName || "הארוחה שלך"} מוכנה לבדיקה`
+          : `${outcome.mealName || "Your meal"} is ready to review`
+        : isHebrew
+        ? "לא הצלחנו לנתח את התמונה. נסה לצלם שוב."
+        : "We couldn't analyze your photo. Please try again.",
+      data: {
+        type: "meal_analysis",
+        job_id,
+        meal_id,
+        status: outcome.status,
+      },
+    });
+  }
+}
@@ -0,0 +1,306 @@
+import { MealFeedbackTarget, Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { collectFoodText, findTerms } from "../lib/allergens";
+import {
+  buildPreferenceProfile,
+  normalizeDishName,
+} from "../lib/mealPreferences";
+import { FoodAllergenSource } from "../types/allergens";
+import {
+  DishCheck,
+  FeedbackDish,
+  MealFeedbackInput,
+  MealFeedbackQuery,
+  MealPreferenceProfile,
+} from "../types/mealFeedback";
+
+// The profile is built from this much recent feedback
+const PROFILE_FEEDBACK_LIMIT = 500;
+// How many liked and disliked dishes go into a generation prompt
+const PROMPT_DISH_LIMIT = 15;
+const LIKED_INGREDIENT_BONUS = 0.25;
+
+type FeedbackLink =
+  | { target: "LOGGED_MEAL"; meal_id: number }
+  | { target: "RECOMMENDED_MEAL"; recommended_meal_id: string }
+  | { target: "MEAL_TEMPLATE"; template_id: string };
+
+// The names of a dish's ingredients, plain strings or objects with a name
+const ingredientNames = (ingredients: unknown) => [
+  ...new Set(
+    (Array.isArray(ingredients) ? ingredients : [ingredients])
+      .map((item: unknown) =>
+        typeof item === "string"
+          ? item
+          : typeof item === "object" &&
+            item !== null &&
+            "name" in item &&
+            typeof item.name === "string"
+          ? item.name
+          : ""
+      )
+      .map((name) => name.trim())
+      .filter(Boolean)
+  ),
+];
+
+export class MealFeedbackService {
+  static async recordLoggedMealFeedback(
+    user_id: string,
+    meal_id: number,
+    input: MealFeedbackInput
+  ) {
+    const meal = await prisma.meal.findFirst({
+      where: { meal_id, user_id, deleted_at: null },
+      select: { meal_name: true, ingredients: true },
+    });
+    if (!meal) throw new Error("Meal not found");
+
+    return this.save(
+      user_id,
+      { target: "LOGGED_MEAL", meal_id },
+      { name: meal.meal_name || "", ingredients: meal.ingredients },
+      input
+    );
+  }
+
+  static async recordRecommendedMealFeedback(
+    user_id: string,
+    menu_id: string,
+    meal_id: string,
+    input: MealFeedbackInput
+  ) {
+    const meal = await prisma.recommendedMeal.findFirst({
+      where: { meal_id, menu: { menu_id, user_id } },
+      include: { ingredients: true },
+    });
+    if (!meal) throw new Error("Meal not found");
+
+    return this.save(
+      user_id,
+      { target: "RECOMMENDED_MEAL", recommended_meal_id: meal_id },
+      { name: meal.name, ingredients: meal.ingredients },
+      input
+    );
+  }
+
+  // Templates are shared, so only templates in one of the user's plans
+  static async recordTemplateFeedback(
+    user_id: string,
+    template_id: string,
+    input: MealFeedbackInput
+  ) {
+    const template = await prisma.mealTemplate.findFirst({
+      where: { template_id, schedules: { some: { plan: { user_id } } } },
+      select: { name: true, ingredients_json: true },
+    });
+    if (!template) throw new Error("Meal template not found");
+
+    return this.save(
+      user_id,
+      { target: "MEAL_TEMPLATE", template_id },
+      { name: template.name, ingredients: template.ingredients_json },
+      input
+    );
+  }
+
+  /**
+   * Feedback is kept per meal and dish: rating a meal again updates it,
+   * but a menu meal that was replaced by another dish starts over, so the
+   * old dish keeps its dislike.
+   */
+  private static async save(
+    user_id: string,
+    link: FeedbackLink,
+    dish: FeedbackDish,
+    input: MealFeedbackInput
+  ) {
+    const { target, ...ids } = link;
+    const existing = await prisma.mealFeedback.findFirst({
+      where: { user_id, ...ids, dish_name: dish.name },
+      orderBy: { updated_at: "desc" },
+    });
+
+    const data = {
+      ingredients: ingredientNames(dish.ingredients),
+      ...input,
+    };
+
+    const feedback = existing
+      ? await prisma.mealFeedback.update({
+          where: { feedback_id: existing.feedback_id },
+          data,
+        })
+      : await prisma.mealFeedback.create({
+          data: { ...data, user_id, target, ...ids, dish_name: dish.name },
+        });
+
+    console.log(
+      `💬 ${target} feedback on "${dish.name}" saved for user ${user_id}`
+    );
+    return feedback;
+  }
+
+  static async getFeedback(user_id: string, query: MealFeedbackQuery) {
+    const where: Prisma.MealFeedbackWhereInput = { user_id };
+    if (query.target) where.target = query.target;
+
+    return prisma.mealFeedback.findMany({
+      where,
+      orderBy: { updated_at: "desc" },
+      skip: query.offset,
+      take: query.limit,
+    });
+  }
+
+  static async deleteFeedback(user_id: string, feedback_id: number) {
+    const { count } = await prisma.mealFeedback.deleteMany({
+      where: { feedback_id, user_id },
+    });
+    if (count === 0) throw new Error("Feedback not found");
+  }
+
+  static async getProfile(user_id: string): Promise<MealPreferenceProfile> {
+    const feedback = await prisma.mealFeedback.findMany({
+      where: { user_id },
+      orderBy: { updated_at: "desc" },
+      take: PROFILE_FEEDBACK_LIMIT,
+    });
+    return buildPreferenceProfile(feedback);
+  }
+
+  /**
+   * Whether a dish was disliked, either by name or because it contains an
+   * ingredient the user keeps rejecting, and how well it fits their taste.
+   */
+  static checkDish(
+    profile: MealPreferenceProfile,
+    food: FoodAllergenSource
+  ): DishCheck {
+    const name = normalizeDishName(food.name || "");
+    const texts = collectFoodText([food.name, food.ingredients]).filter(
+      Boolean
+    );
+    const matchIngredients = (ingredients: string[]) =>
+      ingredients.length > 0
+        ? [...new Set(texts.flatMap((text) => findTerms(text, ingredients)))]
+        : [];
+
+    const dislikedDish = profile.disliked_dishes.find(
+      (dish) => normalizeDishName(dish.name) === name
+    );
+    const likedDish = profile.liked_dishes.find(
+      (dish) => normalizeDishName(dish.name) === name
+    );
+    const dislikedIngredients = matchIngredients(profile.disliked_ingredients);
+    const likedIngredients = matchIngredients(profile.liked_ingredients);
+
+    const disliked_matches = [
+      ...(dislikedDish ? [dislikedDish.name] : []),
+      ...dislikedIngredients,
+    ];
+    return {
+      disliked: disliked_matches.length > 0,
+      disliked_matches,
+      liked_matches: [
+        ...(likedDish ? [likedDish.name] : []),
+        ...likedIngredients,
+      ],
+      score:
+        (likedDish?.score || 0) +
+        (dislikedDish?.score || 0) +
+        likedIngredients.length * LIKED_INGREDIENT_BONUS -
+        dislikedIngredients.length,
+    };
+  }
+
+  /**
+   * Splits generated meals into the ones to offer and the disliked ones.
+   * Unlike allergens a dislike is not a safety issue, so when every meal is
+   * disliked they are all kept rather than leaving nothing.
+   */
+  static partitionMeals<T>(
+    profile: MealPreferenceProfile,
+    meals: T[],
+    describe: (meal: T) => FoodAllergenSource
+  ): { kept: T[]; rejected: Array<{ meal: T; matches: string[] }> } {
+    const kept: T[] = [];
+    const rejected: Array<{ meal: T; matches: string[] }> = [];
+
+    for (const meal of meals) {
+      const { disliked, disliked_matches } = this.checkDish(
+        profile,
+        describe(meal)
+      );
+      if (disliked) rejected.push({ meal, matches: disliked_matches });
+      else kept.push(meal);
+    }
+
+    return kept.length > 0 || meals.length === 0
+      ? { kept, rejected }
+      : { kept: meals, rejected: [] };
+  }
+
+  /**
+   * Picks one of the options that fit the user's taste best, at random
+   * among equals. Disliked options are only picked when nothing else is left.
+   */
+  static pickOption<T>(
+    profile: MealPreferenceProfile,
+    options: T[],
+    describe: (option: T) => FoodAllergenSource
+  ): T | null {
+    if (options.length === 0) return null;
+
+    const checked = options.map((option) => ({
+      option,
+      check: this.checkDish(profile, describe(option)),
+    }));
+    const liked = checked.filter(({ check }) => !check.disliked);
+    const scored = liked.length > 0 ? liked : checked;
+
+    const best = Math.max(...scored.map(({ check }) => check.score));
+    const top = scored.filter(({ check }) => check.score === best);
+    return top[Math.floor(Math.random() * top.length)].option;
+  }
+
+  // Lines for menu and meal generation prompts, empty without feedback
+  static describeForPrompt(profile: MealPreferenceProfile): string {
+    const names = (dishes: Array<{ name: string }>) =>
+      dishes
+        .slice(0, PROMPT_DISH_LIMIT)
+        .map((dish) => dish.name)
+        .join(", ");
+
+    const lines: string[] = [];
+    if (profile.disliked_dishes.length > 0) {
+      lines.push(
+        `Disliked dishes, never suggest: ${names(profile.disliked_dishes)}`
+      );
+    }
+    if (profile.disliked_ingredients.length > 0) {
+      lines.push(
+        `Disliked ingredients, avoid: ${profile.disliked_ingredients.join(
+          ", "
+        )}`
+      );
+    }
+    if (profile.liked_dishes.length > 0) {
+      lines.push(`Dishes the user enjoyed: ${names(profile.liked_dishes)}`);
+    }
+    if (profile.liked_ingredients.length > 0) {
+      lines.push(
+        `Ingredients the user enjoys: ${profile.liked_ingredients.join(", ")}`
+      );
+    }
+
+    const hints = [
+      profile.prefers_lighter_meals && "lighter meals",
+      profile.prefers_filling_meals && "more filling meals",
+      profile.prefers_quick_meals && "quick to prepare",
+    ].filter(Boolean);
+    if (hints.length > 0) lines.push(`Prefers: ${hints.join(", ")}`);
+
+    return lines.join("\n");
+  }
+}
@@ -0,0 +1,133 @@
+import crypto from "crypto";
+import sharp from "sharp";
+import { getBlobStore } from "../lib/storage";
+
+const RENDITIONS = {
+  original: { size: 2048, fit: "inside" as const, quality: 85 },
+  medium: { size: 1024, fit: "inside" as const, quality: 80 },
+  thumbnail: { size: 256, fit: "cover" as const, quality: 75 },
+};
+
+type Rendition = keyof typeof RENDITIONS;
+
+// Longer than the meal list cache, so cached responses keep working URLs
+const SIGNED_URL_TTL_SECONDS =
+  Number(process.env.IMAGE_URL_TTL_SECONDS) || 15 * 60;
+
+export interface MealImageUrls {
+  image_url: string | null;
+  thumbnail_url: string | null;
+}
+
+function renditionKey(image_key: string, rendition: Rendition) {
+  return `${image_key}/${rendition}.jpg`;
+}
+
+function stripDataUrl(imageBase64: string) {
+  return imageBase64.trim().replace(/^data:.*base64,/, "");
+}
+
+export class MealImageService {
+  /**
+   * Stores a meal photo as JPEG renditions and returns the key prefix that
+   * identifies them. Images are rotated upright first, then re-encoded
+   * without metadata, which drops EXIF including GPS location.
+   */
+  static async store(user_id: string, imageBase64: string): Promise<string> {
+    const input = Buffer.from(stripDataUrl(imageBase64), "base64");
+    const image_key = `meals/${user_id}/${crypto.randomUUID()}`;
+    const store = getBlobStore();
+
+    let renditions: Array<[Rendition, Buffer]>;
+    try {
+      renditions = await Promise.all(
+        (Object.keys(RENDITIONS) as Rendition[]).map(async (rendition) => {
+          const { size, fit, quality } = RENDITIONS[rendition];
+          const output = await sharp(input)
+            .rotate()
+            .resize(size, size, { fit, withoutEnlargement: fit === "inside" })
+            .jpeg({ quality, mozjpeg: true })
+            .toBuffer();
+          return [rendition, output] as [Rendition, Buffer];
+        })
+      );
+    } catch (error) {
+      console.error("❌ Failed to process meal image:", error);
+      throw new Error("Invalid image data");
+    }
+
+    await Promise.all(
+      renditions.map(([rendition, output]) =>
+        store.put(renditionKey(image_key, rendition), output, "image/jpeg")
+      )
+    );
+
+    return image_key;
+  }
+
+  // The stored original, falling back to legacy rows with inline base64
+  static async readBase64(meal: {
+    image_key?: string | null;
+    image_url?: string | null;
+  }): Promise<string> {
+    if (meal.image_key) {
+      const original = await getBlobStore().get(
+        renditionKey(meal.image_key, "original")
+      );
+      if (!original) throw new Error("Meal image not found in storage");
+      return original.toString("base64");
+    }
+
+    return meal.image_url?.startsWith("data:")
+      ? stripDataUrl(meal.image_url)
+      : "";
+  }
+
+  /**
+   * Short-lived URLs for the medium and thumbnail renditions. Rows that were
+   * not migrated yet still carry their image inline and are passed through.
+   */
+  static async getUrls(meal: {
+    image_key?: string | null;
+    image_url?: string | null;
+  }): Promise<MealImageUrls> {
+    if (!meal.image_key) {
+      const legacy = meal.image_url || null;
+      return { image_url: legacy, thumbnail_url: legacy };
+    }
+
+    const store = getBlobStore();
+    const [image_url, thumbnail_url] = await Promise.all([
+      store.getSignedUrl(
+        renditionKey(meal.image_key, "medium"),
+        SIGNED_URL_TTL_SECONDS
+      ),
+      store.getSignedUrl(
+        renditionKey(meal.image_key, "thumbnail"),
+        SIGNED_URL_TTL_SECONDS
+      ),
+    ]);
+    return { image_url, thumbnail_url };
+  }
+
+  static async remove(image_key: string | null | undefined) {
+    if (!image_key) return;
+    try {
+      await getBlobStore().delete(
+        (Object.keys(RENDITIONS) as Rendition[]).map((rendition) =>
+          renditionKey(image_key, rendition)
+        )
+      );
+    } catch (error) {
+      console.error("❌ Failed to delete meal image:", image_key, error);
+    }
+  }
+
+  static async removeUserImages(user_id: string) {
+    try {
+      await getBlobStore().deletePrefix(`meals/${user_id}/`);
+    } catch (error) {
+      console.error("❌ Failed to delete meal images of user:", user_id, error);
+    }
+  }
+}
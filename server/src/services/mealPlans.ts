@@ -6,6 +6,15 @@ import {
   WeeklyMealPlan,
 } from "../types/mealPlans";
 import { OpenAIService } from "./openai";
+import { AllergenService } from "./allergens";
+import { KosherService } from "./kosher";
+import { MealFeedbackService } from "./mealFeedback";
+import { FoodAllergenSource } from "../types/allergens";
+import {
+  MealPreferenceProfile,
+  mealFeedbackSchema,
+} from "../types/mealFeedback";
+import { buildPreferenceProfile } from "../lib/mealPreferences";
 
 // Helper function to sanitize strings
 function sanitizeString(input: string): string {
@@ -101,6 +110,65 @@ export class MealPlanService {
         throw new Error("Invalid AI meal plan response structure");
       }
 
+      // Meals that contain a declared allergen or break kosher rules are
+      // dropped from the plan
+      const allergyProfile = AllergenService.buildProfile(questionnaire);
+      const kosherSettings = KosherService.buildSettings(questionnaire);
+      const tasteProfile = await MealFeedbackService.getProfile(user_id);
+      let allergenRejected = 0;
+      let kosherRejected = 0;
+      let dislikedRejected = 0;
+      for (const dayPlan of aiMealPlan.weekly_plan) {
+        const allergenCheck = AllergenService.partitionMeals(
+          allergyProfile,
+          dayPlan.meals,
+          (meal) => ({
+            name: meal.name,
+            ingredients: meal.ingredients,
+            allergens: meal.allergens,
+          })
+        );
+        const kosherCheck = KosherService.partitionMeals(
+          kosherSettings,
+          allergenCheck.safe,
+          (meal) => ({
+            food: { name: meal.name, ingredients: meal.ingredients },
+            day: dayPlan.day,
+            meal_timing: meal.meal_timing,
+          })
+        );
+        // Disliked templates are skipped unless the day would be left empty
+        const preferenceCheck = MealFeedbackService.partitionMeals(
+          tasteProfile,
+          kosherCheck.safe,
+          (meal) => ({ name: meal.name, ingredients: meal.ingredients })
+        );
+        dayPlan.meals = preferenceCheck.kept;
+        allergenRejected += allergenCheck.rejected.length;
+        kosherRejected += kosherCheck.rejected.length;
+        dislikedRejected += preferenceCheck.rejected.length;
+      }
+      if (allergenRejected > 0) {
+        console.warn(
+          `🚫 Rejected ${allergenRejected} generated meals with declared allergens`
+        );
+      }
+      if (kosherRejected > 0) {
+        console.warn(
+          `✡️ Rejected ${kosherRejected} generated meals that break kosher rules`
+        );
+      }
+      if (dislikedRejected > 0) {
+        console.log(`👎 Left out ${dislikedRejected} meals the user disliked`);
+      }
+      if (
+        aiMealPlan.weekly_plan.every((dayPlan) => dayPlan.meals.length === 0)
+      ) {
+        throw new Error(
+          "Every generated meal contains a declared allergen or is not kosher"
+        );
+      }
+
       // Create the meal plan using transaction (now much faster)
       const result = await prisma.$transaction(
         async (tx) => {
@@ -917,13 +985,80 @@ export class MealPlanService {
       });
 
       // Generate a new meal template using OpenAI
-      const newTemplate = await this.generateAIReplacementMeal(
+      let newTemplate = await this.generateAIReplacementMeal(
         currentSchedule.template,
         preferences,
         userQuestionnaire,
         userId
       );
 
+      // A replacement with a declared allergen, or one that breaks kosher
+      // rules next to the day's other meals, falls back to a safe option
+      const allergyProfile = AllergenService.buildProfile(userQuestionnaire);
+      const kosherSettings = KosherService.buildSettings(userQuestionnaire);
+      const tasteProfile = await MealFeedbackService.getProfile(userId);
+      const daySchedules = await prisma.mealPlanSchedule.findMany({
+        where: {
+          plan_id: planId,
+          day_of_week: dayOfWeek,
+          schedule_id: { not: currentSchedule.schedule_id },
+        },
+        include: { template: true },
+      });
+      const isAllowed = (option: FoodAllergenSource) => {
+        if (AllergenService.checkFood(allergyProfile, option).length > 0) {
+          return false;
+        }
+        const candidate = { ...option, meal_timing: mealTiming };
+        const { rejected } = KosherService.partitionMeals(
+          kosherSettings,
+          [
+            ...daySchedules.map((schedule) => ({
+              name: schedule.template.name,
+              ingredients: schedule.template.ingredients_json,
+              meal_timing: schedule.meal_timing as string,
+            })),
+            candidate,
+          ],
+          (meal) => ({
+            food: { name: meal.name, ingredients: meal.ingredients },
+            day: dayOfWeek,
+            meal_timing: meal.meal_timing,
+          })
+        );
+        return !rejected.some(({ meal }) => meal === candidate);
+      };
+
+      if (
+        !newTemplate ||
+        !isAllowed({
+          name: newTemplate.name,
+          ingredients: newTemplate.ingredients_json,
+          allergens: newTemplate.allergens_json,
+        }) ||
+        MealFeedbackService.checkDish(tasteProfile, {
+          name: newTemplate.name,
+          ingredients: newTemplate.ingredients_json,
+        }).disliked
+      ) {
+        console.warn(
+          "🚫 Rejected replacement with declared allergens, kosher issues or a disliked dish:",
+          newTemplate?.name
+        );
+        const fallback = this.generateFallbackReplacementMeal(
+          currentSchedule.template,
+          preferences,
+          isAllowed,
+          tasteProfile
+        );
+        if (!fallback) {
+          throw new Error(
+            "No replacement meal fits the declared allergies and kosher rules"
+          );
+        }
+        newTemplate = fallback;
+      }
+
       // Create new meal template
       const createdTemplate = await prisma.mealTemplate.create({
         data: newTemplate,
@@ -1038,6 +1173,9 @@ ${
     ? `- Main goal: ${userQuestionnaire.main_goal}`
     : ""
 }
+${MealFeedbackService.describeForPrompt(
+  await MealFeedbackService.getProfile(userId)
+)}
 
 REQUIREMENTS:
 1. Create a completely different meal that matches the user's preferences
@@ -1069,7 +1207,9 @@ Please return a JSON object with the following structure:
 
       const aiResponse = await OpenAIService.generateText(
         replacementPrompt,
-        1500
+        1500,
+        "replacement_meal",
+        { mealTiming: currentMeal.meal_timing }
       );
 
       // Parse AI response
@@ -1156,7 +1296,12 @@ Please return a JSON object with the following structure:
     return validCategories.includes(category) ? category : "BALANCED";
   }
 
-  static generateFallbackReplacementMeal(currentMeal: any, preferences: any) {
+  static generateFallbackReplacementMeal(
+    currentMeal: any,
+    preferences: any,
+    isAllowed: (option: FoodAllergenSource) => boolean = () => true,
+    tasteProfile: MealPreferenceProfile = buildPreferenceProfile([])
+  ) {
     const fallbackOptions = [
       {
         name: "Grilled Chicken with Vegetables",
@@ -1210,8 +1355,16 @@ Please return a JSON object with the following structure:
       },
     ];
 
-    const selected =
-      fallbackOptions[Math.floor(Math.random() * fallbackOptions.length)];
+    const describe = (option: (typeof fallbackOptions)[number]) => ({
+      name: option.name,
+      ingredients: option.ingredients,
+    });
+    const selected = MealFeedbackService.pickOption(
+      tasteProfile,
+      fallbackOptions.filter((option) => isAllowed(describe(option))),
+      describe
+    );
+    if (!selected) return null;
 
     return {
       name: selected.name,
@@ -1397,6 +1550,39 @@ Please return a JSON object with the following structure:
     }
   }
 
+  /**
+   * A like, dislike or rating of a plan meal, stored as template feedback
+   * so later plans and replacements take it into account.
+   */
+  static async saveMealPreference(
+    user_id: string,
+    template_id: string,
+    preference_type: string,
+    rating?: number,
+    notes?: string
+  ) {
+    const liked =
+      preference_type === "dislike"
+        ? false
+        : ["like", "favorite"].includes(preference_type)
+        ? true
+        : undefined;
+    const validationResult = mealFeedbackSchema.safeParse({
+      liked,
+      taste_rating: rating,
+      notes,
+    });
+    if (!validationResult.success) {
+      throw new Error("Invalid meal preference");
+    }
+
+    return MealFeedbackService.recordTemplateFeedback(
+      user_id,
+      template_id,
+      validationResult.data
+    );
+  }
+
   static async savePlanFeedback(
     user_id: string,
     plan_id: string,
@@ -0,0 +1,179 @@
+import { MealRevisionSource, Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  JSON_MEAL_FIELDS,
+  TRACKED_MEAL_FIELDS,
+  diffSnapshots,
+  snapshotMeal,
+} from "../lib/mealRevisions";
+import { mealSnapshotSchema } from "../types/mealRevisions";
+import { MealImageService } from "./mealImages";
+
+// Deleted meals can be restored for this long before they are purged
+export const MEAL_RESTORE_DAYS = 30;
+
+const jsonOrDbNull = (value: unknown) =>
+  value === null || value === undefined
+    ? Prisma.DbNull
+    : (value as Prisma.InputJsonValue);
+
+async function loadSnapshot(tx: Prisma.TransactionClient, meal_id: number) {
+  const meal = await tx.meal.findUnique({
+    where: { meal_id },
+    include: { items: true },
+  });
+  if (!meal) throw new Error("Meal not found");
+  return snapshotMeal(meal, meal.items);
+}
+
+export class MealRevisionService {
+  /**
+   * Runs a change to a meal in a transaction and records it as a revision
+   * with the field diff and the meal as it was before. Changes that leave
+   * the tracked fields as they were aren't recorded.
+   */
+  static async track<T>(
+    meal_id: number,
+    changed_by: string,
+    source: MealRevisionSource,
+    change: (tx: Prisma.TransactionClient) => Promise<T>
+  ): Promise<T> {
+    return prisma.$transaction(async (tx) => {
+      const before = await loadSnapshot(tx, meal_id);
+      const result = await change(tx);
+      const changes = diffSnapshots(before, await loadSnapshot(tx, meal_id));
+
+      if (Object.keys(changes).length > 0) {
+        await tx.mealRevision.create({
+          data: {
+            meal_id,
+            changed_by,
+            source,
+            changes: changes as Prisma.InputJsonValue,
+            snapshot: before as Prisma.InputJsonValue,
+          },
+        });
+      }
+      return result;
+    });
+  }
+
+  static async list(user_id: string, meal_id: number) {
+    const meal = await prisma.meal.findFirst({
+      where: { meal_id, user_id, deleted_at: null },
+      select: { meal_id: true },
+    });
+    if (!meal) throw new Error("Meal not found");
+
+    return prisma.mealRevision.findMany({
+      where: { meal_id },
+      select: {
+        revision_id: true,
+        changed_by: true,
+        source: true,
+        changes: true,
+        created_at: true,
+      },
+      orderBy: [{ created_at: "desc" }, { revision_id: "desc" }],
+    });
+  }
+
+  /**
+   * Puts a meal back the way it was before a revision, items included.
+   * The revert is a revision of its own, so it can be reverted too.
+   */
+  static async revert(user_id: string, meal_id: number, revision_id: number) {
+    const revision = await prisma.mealRevision.findFirst({
+      where: { revision_id, meal: { meal_id, user_id, deleted_at: null } },
+    });
+    if (!revision) throw new Error("Revision not found");
+
+    const snapshot = mealSnapshotSchema.parse(revision.snapshot);
+
+    await this.track(meal_id, user_id, "REVERT", async (tx) => {
+      const data: Record<string, unknown> = {};
+      for (const field of TRACKED_MEAL_FIELDS) {
+        // Deleting and restoring have their own endpoints
+        if (field === "deleted_at" || !(field in snapshot.fields)) continue;
+        const value = snapshot.fields[field];
+        data[field] = JSON_MEAL_FIELDS.includes(field)
+          ? jsonOrDbNull(value)
+          : value;
+      }
+
+      await tx.meal.update({
+        where: { meal_id },
+        data: data as Prisma.MealUpdateInput,
+      });
+      // Items keep their ids, the plate waste estimate refers to them
+      await tx.mealItem.deleteMany({ where: { meal_id } });
+      if (snapshot.items.length > 0) {
+        await tx.mealItem.createMany({
+          data: snapshot.items.map((item) => ({
+            ...item,
+            meal_id,
+            ingredients: jsonOrDbNull(item.ingredients),
+          })),
+        });
+      }
+    });
+
+    console.log(`⏪ Meal ${meal_id} reverted to revision ${revision_id}`);
+  }
+
+  // Deleted meals drop out of every meal query until they are restored
+  static async softDelete(user_id: string, meal_id: number) {
+    const meal = await prisma.meal.findFirst({
+      where: { meal_id, user_id, deleted_at: null },
+      select: { meal_id: true },
+    });
+    if (!meal) throw new Error("Meal not found");
+
+    await this.track(meal_id, user_id, "DELETE", (tx) =>
+      tx.meal.update({ where: { meal_id }, data: { deleted_at: new Date() } })
+    );
+  }
+
+  static async restore(user_id: string, meal_id: number) {
+    const meal = await prisma.meal.findFirst({
+      where: { meal_id, user_id, deleted_at: { not: null } },
+      select: { meal_id: true },
+    });
+    if (!meal) throw new Error("Meal not found");
+
+    await this.track(meal_id, user_id, "RESTORE", (tx) =>
+      tx.meal.update({ where: { meal_id }, data: { deleted_at: null } })
+    );
+  }
+
+  static async listDeleted(user_id: string) {
+    return prisma.meal.findMany({
+      where: { user_id, deleted_at: { not: null } },
+      include: { items: { orderBy: { position: "asc" } } },
+      orderBy: { deleted_at: "desc" },
+    });
+  }
+
+  // Removes meals deleted longer ago than they can be restored
+  static async purgeDeleted() {
+    const cutoff = new Date(
+      Date.now() - MEAL_RESTORE_DAYS * 24 * 60 * 60 * 1000
+    );
+    const meals = await prisma.meal.findMany({
+      where: { deleted_at: { lt: cutoff } },
+      select: { meal_id: true, image_key: true, after_image_key: true },
+    });
+    if (meals.length === 0) return 0;
+
+    await prisma.meal.deleteMany({
+      where: { meal_id: { in: meals.map((meal) => meal.meal_id) } },
+    });
+    for (const meal of meals) {
+      await MealImageService.remove(meal.image_key);
+      await MealImageService.remove(meal.after_image_key);
+    }
+
+    console.log(`🗑️ Purged ${meals.length} deleted meals`);
+    return meals.length;
+  }
+}
@@ -0,0 +1,207 @@
+import { prisma } from "../lib/database";
+import { getDietaryReferenceIntakes } from "../lib/dietaryReferenceIntakes";
+import {
+  getLocalDateString,
+  resolveTimezone,
+  shiftDate,
+} from "../utils/timezone";
+import {
+  CoverageStatus,
+  LifeStage,
+  MicronutrientCoverage,
+  MicronutrientCoverageQuery,
+  NutrientTarget,
+} from "../types/micronutrients";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Below this share of the target a nutrient counts as deficient
+const DEFICIENT_BELOW_PERCENT = 50;
+const LOW_BELOW_PERCENT = 90;
+
+const DEFAULT_ADULT_AGE = 30;
+
+const MALE_VALUES = ["male", "m", "זכר"];
+const FEMALE_VALUES = ["female", "f", "נקבה"];
+
+function ageFromBirthDate(birthDate: Date, now: Date) {
+  let age = now.getFullYear() - birthDate.getFullYear();
+  const hadBirthday =
+    now.getMonth() > birthDate.getMonth() ||
+    (now.getMonth() === birthDate.getMonth() &&
+      now.getDate() >= birthDate.getDate());
+  if (!hadBirthday) age--;
+  return age;
+}
+
+function coverageStatus(
+  intake: number,
+  target: NutrientTarget
+): { percent: number; status: CoverageStatus } {
+  const percent = target.target > 0 ? (intake / target.target) * 100 : 0;
+
+  let status: CoverageStatus = "adequate";
+  if (target.upper_limit !== null && intake > target.upper_limit) {
+    status = "excess";
+  } else if (percent < DEFICIENT_BELOW_PERCENT) {
+    status = "deficient";
+  } else if (percent < LOW_BELOW_PERCENT) {
+    status = "low";
+  }
+
+  return { percent: Math.round(percent), status };
+}
+
+export class MicronutrientService {
+  /**
+   * Age, sex and pregnancy from the questionnaire, falling back to the
+   * birth date on the user profile for age.
+   */
+  static async getLifeStage(user_id: string): Promise<LifeStage> {
+    const [questionnaire, user] = await Promise.all([
+      prisma.userQuestionnaire.findFirst({
+        where: { user_id },
+        orderBy: { date_completed: "desc" },
+        select: { age: true, gender: true, pregnancy_status: true },
+      }),
+      prisma.user.findUnique({
+        where: { user_id },
+        select: { birth_date: true },
+      }),
+    ]);
+
+    const gender = questionnaire?.gender?.trim().toLowerCase() || "";
+    const sex = MALE_VALUES.includes(gender)
+      ? "male"
+      : FEMALE_VALUES.includes(gender)
+      ? "female"
+      : "unspecified";
+
+    const age =
+      questionnaire?.age ||
+      (user?.birth_date
+        ? ageFromBirthDate(user.birth_date, new Date())
+        : DEFAULT_ADULT_AGE);
+
+    return {
+      age,
+      sex,
+      pregnancy_status:
+        sex !== "male" && questionnaire?.pregnancy_status
+          ? questionnaire.pregnancy_status
+          : "NONE",
+      assumed: !questionnaire && !user?.birth_date,
+    };
+  }
+
+  static async getTargets(user_id: string) {
+    const life_stage = await this.getLifeStage(user_id);
+    return {
+      life_stage,
+      targets: getDietaryReferenceIntakes(life_stage),
+    };
+  }
+
+  /**
+   * Average daily intake of each vitamin and mineral for a day or the week
+   * ending on the given date, compared with the user's reference intakes.
+   * Days without logged meals are left out of the average.
+   */
+  static async getCoverage(
+    user_id: string,
+    query: MicronutrientCoverageQuery
+  ): Promise<MicronutrientCoverage> {
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      select: { timezone: true },
+    });
+    if (!user) throw new Error("User not found");
+
+    const timezone = resolveTimezone(user.timezone);
+    const end_date = query.date || getLocalDateString(new Date(), timezone);
+    const start_date =
+      query.period === "week" ? shiftDate(end_date, -6) : end_date;
+
+    // Pad the UTC window by a day on each side, then bucket by local date
+    const meals = await prisma.meal.findMany({
+      where: {
+        user_id,
+        deleted_at: null,
+        created_at: {
+          gte: new Date(Date.parse(`${start_date}T00:00:00.000Z`) - DAY_MS),
+          lt: new Date(Date.parse(`${end_date}T00:00:00.000Z`) + 2 * DAY_MS),
+        },
+      },
+      select: {
+        created_at: true,
+        fiber_g: true,
+        sodium_mg: true,
+        vitamins_json: true,
+        micronutrients_json: true,
+      },
+    });
+
+    const mealsInRange = meals.filter((meal) => {
+      const date = getLocalDateString(meal.created_at, timezone);
+      return date >= start_date && date <= end_date;
+    });
+    const days_logged = new Set(
+      mealsInRange.map((meal) => getLocalDateString(meal.created_at, timezone))
+    ).size;
+
+    const totals: Record<string, number> = {};
+    let meals_with_micronutrients = 0;
+
+    for (const meal of mealsInRange) {
+      const vitamins = (meal.vitamins_json as Record<string, unknown>) || {};
+      const minerals =
+        (meal.micronutrients_json as Record<string, unknown>) || {};
+      if (Object.keys(vitamins).length || Object.keys(minerals).length) {
+        meals_with_micronutrients++;
+      }
+
+      const values: Record<string, unknown> = {
+        ...vitamins,
+        ...minerals,
+        fiber_g: meal.fiber_g,
+        sodium_mg: meal.sodium_mg,
+      };
+      for (const [nutrient, value] of Object.entries(values)) {
+        totals[nutrient] = (totals[nutrient] || 0) + (Number(value) || 0);
+      }
+    }
+
+    const { life_stage, targets } = await this.getTargets(user_id);
+    const nutrients = targets.map((target) => {
+      const intake =
+        days_logged > 0 ? (totals[target.nutrient] || 0) / days_logged : 0;
+      const { percent, status } = coverageStatus(intake, target);
+      return {
+        ...target,
+        intake: Math.round(intake * 100) / 100,
+        percent_of_target: percent,
+        status,
+      };
+    });
+
+    // Nothing logged is missing data, not a deficiency
+    const flagged = days_logged > 0 ? nutrients : [];
+
+    return {
+      period: query.period,
+      start_date,
+      end_date,
+      days_logged,
+      meals_logged: mealsInRange.length,
+      meals_with_micronutrients,
+      life_stage,
+      nutrients,
+      deficiencies: flagged
+        .filter((n) => n.status === "deficient")
+        .map((n) => n.nutrient),
+      excesses: flagged
+        .filter((n) => n.status === "excess")
+        .map((n) => n.nutrient),
+    };
+  }
+}
@@ -1,16 +1,53 @@
+import { Prisma } from "@prisma/client";
 import { OpenAIService } from "./openai";
 import { prisma } from "../lib/database";
-import { MealAnalysisInput, MealUpdateInput } from "../types/nutrition";
+import {
+  AfterPhotoInput,
+  DirectMealUpdateInput,
+  DishSelectionInput,
+  MealAnalysisInput,
+  MealUpdateInput,
+  detectedDishesSchema,
+  plateWasteSchema,
+} from "../types/nutrition";
 import { AuthService } from "./auth";
+import { FoodCompositionService } from "./foodComposition";
+import { MealImageService, MealImageUrls } from "./mealImages";
 import { asJsonObject, mapExistingMealToPrismaInput } from "../utils/nutrition";
+import { getAIProviderName } from "../lib/ai";
+import { AllergenService } from "./allergens";
+import { KosherService } from "./kosher";
+import { FastingService } from "./fasting";
+import { MealFeedbackService } from "./mealFeedback";
+import { MealFeedbackInput } from "../types/mealFeedback";
+import {
+  applyClarifications,
+  getClarifyingQuestions,
+} from "../lib/clarifications";
+import { applyDishSelection, buildDetectedDishes } from "../lib/dishes";
+import { applyPlateWaste, snapshotServedMeal } from "../lib/plateWaste";
+import { MealRevisionService } from "./mealRevisions";
 
 // Cache for frequently accessed data
 const userStatsCache = new Map<string, { data: any; timestamp: number }>();
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
-function transformMealForClient(meal: any) {
+// Recomputed nutrients start from the full plate, an earlier after photo no
+// longer applies
+const NO_PLATE_WASTE = {
+  after_image_key: null,
+  consumed_ratio: null,
+  plate_waste: Prisma.DbNull,
+};
+
+function transformMealForClient(
+  meal: any,
+  imageUrls: MealImageUrls,
+  afterImageUrls?: MealImageUrls
+) {
   const additives = meal.additives_json || {};
-  const feedback = additives.feedback || {};
+  // Latest feedback on the meal, when the query included it
+  const feedback = meal.feedback?.[0] || {};
 
   // Safely parse ingredients
   let ingredients = [];
@@ -29,7 +66,8 @@ function transformMealForClient(meal: any) {
   return {
     meal_id: meal.meal_id,
     user_id: meal.user_id,
-    image_url: meal.image_url,
+    image_url: imageUrls.image_url,
+    thumbnail_url: imageUrls.thumbnail_url,
     upload_time: meal.upload_time,
     analysis_status: meal.analysis_status,
     meal_name: meal.meal_name,
@@ -44,7 +82,7 @@ function transformMealForClient(meal: any) {
     id: meal.meal_id.toString(),
     name: meal.meal_name || "Unknown Meal",
     description: meal.meal_name,
-    imageUrl: meal.image_url,
+    imageUrl: imageUrls.image_url,
     protein: meal.protein_g || 0,
     carbs: meal.carbs_g || 0,
     fat: meal.fats_g || 0,
@@ -55,18 +93,32 @@ function transformMealForClient(meal: any) {
     ingredients: ingredients, // Include ingredients in response
     isFavorite: additives.isFavorite || false,
     is_favorite: additives.isFavorite || false, // Both formats for compatibility
-    tasteRating: feedback.tasteRating || 0,
-    satietyRating: feedback.satietyRating || 0,
-    energyRating: feedback.energyRating || 0,
-    heavinessRating: feedback.heavinessRating || 0,
-    taste_rating: feedback.tasteRating || 0, // Dual format
-    satiety_rating: feedback.satietyRating || 0,
-    energy_rating: feedback.energyRating || 0,
-    heaviness_rating: feedback.heavinessRating || 0,
+    tasteRating: feedback.taste_rating || 0,
+    satietyRating: feedback.satiety_rating || 0,
+    energyRating: feedback.energy_rating || 0,
+    heavinessRating: feedback.heaviness_rating || 0,
+    taste_rating: feedback.taste_rating || 0, // Dual format
+    satiety_rating: feedback.satiety_rating || 0,
+    energy_rating: feedback.energy_rating || 0,
+    heaviness_rating: feedback.heaviness_rating || 0,
+    liked: feedback.liked ?? null,
+    // Dishes of a multi-dish photo logged as separate items
+    items: meal.items || [],
+    // Share of the served meal that was eaten, from an "after" photo
+    after_image_url: afterImageUrls?.image_url || null,
+    consumed_ratio: meal.consumed_ratio ?? null,
+    // Set on deleted meals that can still be restored
+    deleted_at: meal.deleted_at ?? null,
   };
 }
 
-// QUOTA CHECKS REMOVED - NO LIMITS ENFORCED
+async function toClientMeal(meal: any) {
+  const [imageUrls, afterImageUrls] = await Promise.all([
+    MealImageService.getUrls(meal),
+    MealImageService.getUrls({ image_key: meal.after_image_key }),
+  ]);
+  return transformMealForClient(meal, imageUrls, afterImageUrls);
+}
 
 export class NutritionService {
   static async analyzeMeal(user_id: string, data: MealAnalysisInput) {
@@ -82,20 +134,30 @@ export class NutritionService {
     if (!user) throw new Error("User not found");
 
     console.log("🚀 Starting meal analysis for user:", user_id);
-    console.log("🔑 OpenAI API Key available:", !!process.env.OPENAI_API_KEY);
+    console.log("🔑 AI provider:", getAIProviderName() || "none");
     console.log("💬 Update text provided:", !!data.updateText);
     console.log(
       "🥗 Edited ingredients provided:",
       data.editedIngredients?.length || 0
     );
 
+    const clarifications = data.clarifications || [];
+    const { updateText, editedIngredients } = applyClarifications({
+      updateText: data.updateText,
+      editedIngredients: data.editedIngredients || [],
+      clarifications,
+    });
+    if (clarifications.length > 0) {
+      console.log("❓ Clarifying answers provided:", clarifications.length);
+    }
+
     // Perform AI analysis with timeout and proper error handling
-    const analysis = await Promise.race([
+    const aiAnalysis = await Promise.race([
       OpenAIService.analyzeMealImage(
         cleanBase64,
         language,
-        data.updateText,
-        data.editedIngredients
+        updateText,
+        editedIngredients
       ),
       new Promise<never>((_, reject) =>
         setTimeout(
@@ -105,6 +167,9 @@ export class NutritionService {
       ),
     ]);
 
+    // Reference nutrients replace AI estimates for recognized ingredients
+    const analysis = await FoodCompositionService.applyToAnalysis(aiAnalysis);
+
     console.log("✅ Analysis completed successfully");
     console.log("📊 Analysis result:", {
       name: analysis.name,
@@ -113,18 +178,6 @@ export class NutritionService {
       ingredients_count: analysis.ingredients?.length || 0,
     });
 
-    // Update request count asynchronously to not block response
-    setImmediate(async () => {
-      try {
-        await prisma.user.update({
-          where: { user_id },
-          data: { ai_requests_count: user.ai_requests_count + 1 },
-        });
-      } catch (error) {
-        console.warn("Failed to update request count:", error);
-      }
-    });
-
     // Enhanced ingredient mapping with better error handling
     const ingredients = (analysis.ingredients || []).map(
       (ingredient, index) => {
@@ -166,6 +219,9 @@ export class NutritionService {
           alcohol_g: Number(ingredient.alcohol_g || 0),
           caffeine_mg: Number(ingredient.caffeine_mg || 0),
           serving_size_g: Number(ingredient.serving_size_g || 0),
+          estimated_portion_g: ingredient.estimated_portion_g || null,
+          food_id: ingredient.food_id || null,
+          nutrition_source: ingredient.nutrition_source || "ai",
           glycemic_index: ingredient.glycemic_index || null,
           insulin_index: ingredient.insulin_index || null,
           vitamins_json: ingredient.vitamins_json || {},
@@ -175,11 +231,7 @@ export class NutritionService {
       }
     );
 
-    const mappedMeal = mapMealDataToPrismaFields(
-      analysis,
-      user_id,
-      cleanBase64
-    );
+    const mappedMeal = mapMealDataToPrismaFields(analysis, user_id);
 
     // Validate that we have meaningful data
     if (!mappedMeal.meal_name || mappedMeal.meal_name.trim() === "") {
@@ -193,6 +245,36 @@ export class NutritionService {
       );
     }
 
+    const detected_dishes = buildDetectedDishes(
+      analysis.dishes,
+      ingredients,
+      mappedMeal
+    );
+    if (detected_dishes) {
+      console.log(`🍱 Detected ${detected_dishes.dishes.length} dishes`);
+    }
+
+    const allergen_warnings = await AllergenService.checkFoodForUser(user_id, {
+      name: mappedMeal.meal_name,
+      ingredients,
+      allergens: mappedMeal.allergens_json,
+    });
+    const kosher_warnings = await KosherService.checkNewFood(user_id, {
+      name: mappedMeal.meal_name,
+      ingredients,
+    });
+
+    // Answered questions are not asked again
+    const clarifying_questions =
+      clarifications.length > 0
+        ? []
+        : getClarifyingQuestions(analysis, language);
+    if (clarifying_questions.length > 0) {
+      console.log(
+        `❓ Low-confidence analysis (${analysis.confidence}), asking ${clarifying_questions.length} questions`
+      );
+    }
+
     console.log("✅ Meal analysis completed successfully!");
 
     return {
@@ -200,6 +282,10 @@ export class NutritionService {
       data: {
         ...mappedMeal,
         ingredients,
+        detected_dishes,
+        allergen_warnings,
+        kosher_warnings,
+        clarifying_questions,
         healthScore: (analysis.confidence || 75).toString(),
         recommendations:
           analysis.healthNotes ||
@@ -226,6 +312,7 @@ export class NutritionService {
         where: {
           meal_id: Number(updateData.meal_id),
           user_id,
+          deleted_at: null,
         },
       });
 
@@ -277,7 +364,7 @@ export class NutritionService {
       };
 
       // Add timeout to update analysis
-      const updatedAnalysis = await Promise.race([
+      const aiUpdatedAnalysis = await Promise.race([
         OpenAIService.updateMealAnalysis(
           originalAnalysis,
           updateData.updateText,
@@ -291,73 +378,88 @@ export class NutritionService {
         ),
       ]);
 
+      const updatedAnalysis = await FoodCompositionService.applyToAnalysis(
+        aiUpdatedAnalysis
+      );
+
       // Update meal in database - preserve all existing fields that aren't updated
-      const updatedMeal = await prisma.meal.update({
-        where: {
-          meal_id: Number(updateData.meal_id),
-        },
-        data: {
-          // Core fields that can be updated
-          meal_name: updatedAnalysis.name,
-          calories: updatedAnalysis.calories,
-          protein_g: updatedAnalysis.protein,
-          carbs_g: updatedAnalysis.carbs,
-          fats_g: updatedAnalysis.fat,
-          fiber_g: updatedAnalysis.fiber ?? existingMeal.fiber_g,
-          sugar_g: updatedAnalysis.sugar ?? existingMeal.sugar_g,
-          sodium_mg: updatedAnalysis.sodium ?? existingMeal.sodium_mg,
-          confidence: updatedAnalysis.confidence,
-          ingredients: updatedAnalysis.ingredients || existingMeal.ingredients,
-          // Also update any related fields
-          serving_size_g:
-            updatedAnalysis.serving_size_g || existingMeal.serving_size_g,
-          cooking_method:
-            updatedAnalysis.cookingMethod || existingMeal.cooking_method,
-          health_risk_notes:
-            updatedAnalysis.healthNotes || existingMeal.health_risk_notes,
-
-          // Preserve detailed nutrition fields if not provided in update
-          saturated_fats_g:
-            updatedAnalysis.saturated_fats_g ?? existingMeal.saturated_fats_g,
-          polyunsaturated_fats_g:
-            updatedAnalysis.polyunsaturated_fats_g ??
-            existingMeal.polyunsaturated_fats_g,
-          monounsaturated_fats_g:
-            updatedAnalysis.monounsaturated_fats_g ??
-            existingMeal.monounsaturated_fats_g,
-          omega_3_g: updatedAnalysis.omega_3_g ?? existingMeal.omega_3_g,
-          omega_6_g: updatedAnalysis.omega_6_g ?? existingMeal.omega_6_g,
-          soluble_fiber_g:
-            updatedAnalysis.soluble_fiber_g ?? existingMeal.soluble_fiber_g,
-          insoluble_fiber_g:
-            updatedAnalysis.insoluble_fiber_g ?? existingMeal.insoluble_fiber_g,
-          cholesterol_mg:
-            updatedAnalysis.cholesterol_mg ?? existingMeal.cholesterol_mg,
-          alcohol_g: updatedAnalysis.alcohol_g ?? existingMeal.alcohol_g,
-          caffeine_mg: updatedAnalysis.caffeine_mg ?? existingMeal.caffeine_mg,
-          liquids_ml: updatedAnalysis.liquids_ml ?? existingMeal.liquids_ml,
-          allergens_json:
-            updatedAnalysis.allergens_json ?? existingMeal.allergens_json,
-          vitamins_json:
-            updatedAnalysis.vitamins_json ?? existingMeal.vitamins_json,
-          micronutrients_json:
-            updatedAnalysis.micronutrients_json ??
-            existingMeal.micronutrients_json,
-          glycemic_index:
-            updatedAnalysis.glycemic_index ?? existingMeal.glycemic_index,
-          insulin_index:
-            updatedAnalysis.insulin_index ?? existingMeal.insulin_index,
-          food_category:
-            updatedAnalysis.food_category ?? existingMeal.food_category,
-          processing_level:
-            updatedAnalysis.processing_level ?? existingMeal.processing_level,
-          additives_json:
-            updatedAnalysis.additives_json ?? existingMeal.additives_json,
-
-          // System fields
-          updated_at: new Date(),
-        },
-      });
+      const updatedMeal = await MealRevisionService.track(
+        existingMeal.meal_id,
+        user_id,
+        "AI_REANALYSIS",
+        (tx) =>
+          tx.meal.update({
+            where: {
+              meal_id: existingMeal.meal_id,
+            },
+            data: {
+              // Core fields that can be updated
+              meal_name: updatedAnalysis.name,
+              calories: updatedAnalysis.calories,
+              protein_g: updatedAnalysis.protein,
+              carbs_g: updatedAnalysis.carbs,
+              fats_g: updatedAnalysis.fat,
+              fiber_g: updatedAnalysis.fiber ?? existingMeal.fiber_g,
+              sugar_g: updatedAnalysis.sugar ?? existingMeal.sugar_g,
+              sodium_mg: updatedAnalysis.sodium ?? existingMeal.sodium_mg,
+              confidence: updatedAnalysis.confidence,
+              ingredients:
+                updatedAnalysis.ingredients || existingMeal.ingredients,
+              // Also update any related fields
+              serving_size_g:
+                updatedAnalysis.serving_size_g || existingMeal.serving_size_g,
+              cooking_method:
+                updatedAnalysis.cookingMethod || existingMeal.cooking_method,
+              health_risk_notes:
+                updatedAnalysis.healthNotes || existingMeal.health_risk_notes,
+
+              // Preserve detailed nutrition fields if not provided in update
+              saturated_fats_g:
+                updatedAnalysis.saturated_fats_g ??
+                existingMeal.saturated_fats_g,
+              polyunsaturated_fats_g:
+                updatedAnalysis.polyunsaturated_fats_g ??
+                existingMeal.polyunsaturated_fats_g,
+              monounsaturated_fats_g:
+                updatedAnalysis.monounsaturated_fats_g ??
+                existingMeal.monounsaturated_fats_g,
+              omega_3_g: updatedAnalysis.omega_3_g ?? existingMeal.omega_3_g,
+              omega_6_g: updatedAnalysis.omega_6_g ?? existingMeal.omega_6_g,
+              soluble_fiber_g:
+                updatedAnalysis.soluble_fiber_g ?? existingMeal.soluble_fiber_g,
+              insoluble_fiber_g:
+                updatedAnalysis.insoluble_fiber_g ??
+                existingMeal.insoluble_fiber_g,
+              cholesterol_mg:
+                updatedAnalysis.cholesterol_mg ?? existingMeal.cholesterol_mg,
+              alcohol_g: updatedAnalysis.alcohol_g ?? existingMeal.alcohol_g,
+              caffeine_mg:
+                updatedAnalysis.caffeine_mg ?? existingMeal.caffeine_mg,
+              liquids_ml: updatedAnalysis.liquids_ml ?? existingMeal.liquids_ml,
+              allergens_json:
+                updatedAnalysis.allergens_json ?? existingMeal.allergens_json,
+              vitamins_json:
+                updatedAnalysis.vitamins_json ?? existingMeal.vitamins_json,
+              micronutrients_json:
+                updatedAnalysis.micronutrients_json ??
+                existingMeal.micronutrients_json,
+              glycemic_index:
+                updatedAnalysis.glycemic_index ?? existingMeal.glycemic_index,
+              insulin_index:
+                updatedAnalysis.insulin_index ?? existingMeal.insulin_index,
+              food_category:
+                updatedAnalysis.food_category ?? existingMeal.food_category,
+              processing_level:
+                updatedAnalysis.processing_level ??
+                existingMeal.processing_level,
+              additives_json:
+                updatedAnalysis.additives_json ?? existingMeal.additives_json,
+
+              // System fields
+              updated_at: new Date(),
+            },
+          })
+      );
 
       console.log("✅ Meal updated successfully");
       return updatedMeal;
@@ -369,20 +471,325 @@ export class NutritionService {
 
   static async saveMeal(user_id: string, mealData: any, imageBase64?: string) {
     try {
+      const image_key = imageBase64?.trim()
+        ? await MealImageService.store(user_id, imageBase64)
+        : null;
+
+      // Waiting times are checked against the meals logged before this one
+      const kosher_warnings = await KosherService.checkNewFood(user_id, {
+        name: mealData.meal_name || mealData.name,
+        ingredients: mealData.ingredients,
+      });
+
       // Use transaction for better performance and consistency
       const meal = await prisma.$transaction(async (tx) => {
         return await tx.meal.create({
-          data: mapMealDataToPrismaFields(mealData, user_id, imageBase64),
+          data: { ...mapMealDataToPrismaFields(mealData, user_id), image_key },
         });
       });
 
-      return transformMealForClient(meal);
+      await FastingService.recordMeal(user_id, meal.meal_id, meal.upload_time);
+
+      const clientMeal = await toClientMeal(meal);
+      const allergen_warnings = await AllergenService.checkFoodForUser(
+        user_id,
+        {
+          name: meal.meal_name,
+          ingredients: clientMeal.ingredients,
+          allergens: meal.allergens_json,
+        }
+      );
+
+      return { ...clientMeal, allergen_warnings, kosher_warnings };
     } catch (error) {
       console.error("💥 Error saving meal:", error);
       throw new Error("Failed to save meal");
     }
   }
 
+  /**
+   * Writes a finished analysis onto a meal row that was created up front by an
+   * analysis job, keeping the upload time. A re-analysis photo replaces the
+   * meal's image only here, once there is a result that goes with it.
+   */
+  static async applyAnalysisToMeal(
+    meal_id: number,
+    analysisData: any,
+    new_image_key?: string
+  ) {
+    const meal = await prisma.meal.findUnique({ where: { meal_id } });
+    if (!meal) throw new Error("Meal not found");
+
+    const { user_id, image_url, upload_time, created_at, ...analysisFields } =
+      mapMealDataToPrismaFields(analysisData, meal.user_id);
+
+    // Items logged from the previous analysis no longer apply
+    const updatedMeal = await MealRevisionService.track(
+      meal_id,
+      meal.user_id,
+      "AI_REANALYSIS",
+      async (tx) => {
+        await tx.mealItem.deleteMany({ where: { meal_id } });
+        return tx.meal.update({
+          where: { meal_id },
+          data: {
+            ...analysisFields,
+            ...NO_PLATE_WASTE,
+            ...(new_image_key && {
+              image_key: new_image_key,
+              image_url: null,
+            }),
+          } as Prisma.MealUpdateInput,
+        });
+      }
+    );
+    await MealImageService.remove(meal.after_image_key);
+    if (new_image_key) await MealImageService.remove(meal.image_key);
+
+    this.clearUserCaches(meal.user_id);
+    return toClientMeal(updatedMeal);
+  }
+
+  /**
+   * Logs the dishes of a multi-dish photo the user actually ate, either
+   * as one combined meal or as the meal's separate items. The meal always
+   * holds the totals, so daily stats count it once either way.
+   */
+  static async logDishSelection(
+    user_id: string,
+    meal_id: number,
+    selection: DishSelectionInput
+  ) {
+    const meal = await prisma.meal.findFirst({
+      where: { meal_id, user_id, deleted_at: null },
+    });
+    if (!meal) throw new Error("Meal not found");
+
+    const detected = detectedDishesSchema.safeParse(meal.detected_dishes);
+    if (!detected.success) throw new Error("Meal has no detected dishes");
+
+    const { meal: mealFields, items } = applyDishSelection(
+      detected.data,
+      selection
+    );
+
+    await MealRevisionService.track(
+      meal_id,
+      user_id,
+      "PORTION_CHANGE",
+      async (tx) => {
+        await tx.mealItem.deleteMany({ where: { meal_id } });
+        await tx.meal.update({
+          where: { meal_id },
+          data: { ...mealFields, ...NO_PLATE_WASTE } as Prisma.MealUpdateInput,
+        });
+        if (selection.mode === "ITEMS") {
+          await tx.mealItem.createMany({
+            data: items.map((item) => ({ ...item, meal_id })),
+          });
+        }
+      }
+    );
+
+    await MealImageService.remove(meal.after_image_key);
+
+    console.log(
+      `🍱 Logged ${items.length} of ${detected.data.dishes.length} dishes of meal ${meal_id} as ${selection.mode}`
+    );
+    this.clearUserCaches(user_id);
+
+    const updatedMeal = await prisma.meal.findUnique({
+      where: { meal_id },
+      include: { items: { orderBy: { position: "asc" } } },
+    });
+    return toClientMeal(updatedMeal);
+  }
+
+  /**
+   * Scales a meal down to what was eaten, from a photo of the leftovers
+   * compared with the meal's own photo. Another after photo replaces the
+   * last one, it is always compared with what was served.
+   */
+  static async addAfterPhoto(
+    user_id: string,
+    meal_id: number,
+    input: AfterPhotoInput
+  ) {
+    const meal = await prisma.meal.findFirst({
+      where: { meal_id, user_id, deleted_at: null },
+      include: { items: true },
+    });
+    if (!meal) throw new Error("Meal not found");
+
+    const beforeBase64 = await MealImageService.readBase64(meal);
+    if (!beforeBase64) throw new Error("Meal has no photo to compare with");
+
+    const previous = plateWasteSchema.safeParse(meal.plate_waste);
+    const served = previous.success
+      ? previous.data.served
+      : snapshotServedMeal(meal, meal.items);
+    const ingredientNames = served.ingredients
+      .map((ingredient) => String(ingredient?.name || "").trim())
+      .filter(Boolean);
+
+    const waste = await OpenAIService.estimatePlateWaste(
+      beforeBase64,
+      input.imageBase64,
+      ingredientNames,
+      input.language
+    );
+    const eaten = applyPlateWaste(served, waste);
+
+    const after_image_key = await MealImageService.store(
+      user_id,
+      input.imageBase64
+    );
+    try {
+      await MealRevisionService.track(
+        meal_id,
+        user_id,
+        "PORTION_CHANGE",
+        async (tx) => {
+          await tx.meal.update({
+            where: { meal_id },
+            data: {
+              ...eaten.fields,
+              ingredients: eaten.ingredients,
+              after_image_key,
+              consumed_ratio: eaten.consumed_ratio,
+              plate_waste: { served, ...waste } as Prisma.InputJsonValue,
+            } as Prisma.MealUpdateInput,
+          });
+          for (const { item_id, ...item } of eaten.items) {
+            await tx.mealItem.update({
+              where: { item_id },
+              data: item as Prisma.MealItemUpdateInput,
+            });
+          }
+        }
+      );
+    } catch (error) {
+      await MealImageService.remove(after_image_key);
+      throw error;
+    }
+    await MealImageService.remove(meal.after_image_key);
+
+    console.log(
+      `🍽️ Meal ${meal_id} eaten ${Math.round(eaten.consumed_ratio * 100)}%`
+    );
+    this.clearUserCaches(user_id);
+
+    const updatedMeal = await prisma.meal.findUnique({
+      where: { meal_id },
+      include: { items: { orderBy: { position: "asc" } } },
+    });
+    return toClientMeal(updatedMeal);
+  }
+
+  static async getMealItems(user_id: string, meal_id: number) {
+    const meal = await prisma.meal.findFirst({
+      where: { meal_id, user_id, deleted_at: null },
+      select: {
+        detected_dishes: true,
+        items: { orderBy: { position: "asc" } },
+      },
+    });
+    if (!meal) throw new Error("Meal not found");
+
+    const detected = detectedDishesSchema.safeParse(meal.detected_dishes);
+    return {
+      items: meal.items,
+      detected_dishes: detected.success ? detected.data.dishes : [],
+    };
+  }
+
+  /**
+   * A manual edit of a meal's fields. Edits of only the ingredients or
+   * only the serving size are recorded as such.
+   */
+  static async editMeal(
+    user_id: string,
+    meal_id: number,
+    input: DirectMealUpdateInput
+  ) {
+    const meal = await prisma.meal.findFirst({
+      where: { meal_id, user_id, deleted_at: null },
+      select: { meal_id: true },
+    });
+    if (!meal) throw new Error("Meal not found");
+
+    const data = Object.fromEntries(
+      Object.entries(input).filter(([, value]) =>
+        typeof value === "number"
+          ? Number.isFinite(value)
+          : value !== undefined && value !== ""
+      )
+    );
+    const fields = Object.keys(data);
+    if (fields.length === 0) throw new Error("Nothing to update");
+
+    const source =
+      fields.length === 1 && fields[0] === "ingredients"
+        ? "INGREDIENT_EDIT"
+        : fields.length === 1 && fields[0] === "serving_size_g"
+        ? "PORTION_CHANGE"
+        : "MANUAL_EDIT";
+
+    const updatedMeal = await MealRevisionService.track(
+      meal_id,
+      user_id,
+      source,
+      (tx) =>
+        tx.meal.update({
+          where: { meal_id },
+          data: data as Prisma.MealUpdateInput,
+        })
+    );
+
+    this.clearUserCaches(user_id);
+    return updatedMeal;
+  }
+
+  static async getMealRevisions(user_id: string, meal_id: number) {
+    return MealRevisionService.list(user_id, meal_id);
+  }
+
+  static async revertMeal(
+    user_id: string,
+    meal_id: number,
+    revision_id: number
+  ) {
+    await MealRevisionService.revert(user_id, meal_id, revision_id);
+    this.clearUserCaches(user_id);
+
+    const meal = await prisma.meal.findUnique({
+      where: { meal_id },
+      include: { items: { orderBy: { position: "asc" } } },
+    });
+    return toClientMeal(meal);
+  }
+
+  static async deleteMeal(user_id: string, meal_id: number) {
+    await MealRevisionService.softDelete(user_id, meal_id);
+    this.clearUserCaches(user_id);
+  }
+
+  static async restoreMeal(user_id: string, meal_id: number) {
+    await MealRevisionService.restore(user_id, meal_id);
+    this.clearUserCaches(user_id);
+
+    const meal = await prisma.meal.findUnique({
+      where: { meal_id },
+      include: { items: { orderBy: { position: "asc" } } },
+    });
+    return toClientMeal(meal);
+  }
+
+  static async getDeletedMeals(user_id: string) {
+    const meals = await MealRevisionService.listDeleted(user_id);
+    return Promise.all(meals.map(toClientMeal));
+  }
+
   static async getUserMeals(user_id: string, offset = 0, limit = 100) {
     try {
       // Add caching for frequently accessed meals
@@ -395,13 +802,24 @@ export class NutritionService {
       }
 
       const meals = await prisma.meal.findMany({
-        where: { user_id },
+        where: {
+          user_id,
+          analysis_status: { not: "FAILED" },
+          deleted_at: null,
+        },
         orderBy: { created_at: "desc" },
         skip: offset,
         take: limit,
+        include: {
+          feedback: { orderBy: { updated_at: "desc" }, take: 1 },
+          items: { orderBy: { position: "asc" } },
+        },
       });
 
-      const transformedMeals = meals.map(transformMealForClient);
+      const transformedMeals = await KosherService.annotateMeals(
+        user_id,
+        await Promise.all(meals.map(toClientMeal))
+      );
 
       // Cache the result
       userStatsCache.set(cacheKey, {
@@ -440,6 +858,7 @@ export class NutritionService {
       const meals = await prisma.meal.findMany({
         where: {
           user_id: userId,
+          deleted_at: null,
           created_at: {
             gte: startDateTime,
             lte: endDateTime,
@@ -683,6 +1102,7 @@ export class NutritionService {
       const meals = await prisma.meal.findMany({
         where: {
           user_id,
+          deleted_at: null,
           created_at: { gte: startDate, lt: endDate },
         },
         select: {
@@ -733,35 +1153,19 @@ export class NutritionService {
   static async saveMealFeedback(
     user_id: string,
     meal_id: string,
-    feedback: any
+    feedback: MealFeedbackInput
   ) {
     try {
-      const meal = await prisma.meal.findFirst({
-        where: { meal_id: parseInt(meal_id), user_id },
-      });
-      if (!meal) throw new Error("Meal not found");
-
-      const additives = asJsonObject(meal.additives_json);
-      const existingFeedback = asJsonObject(additives.feedback);
-
-      const updatedAdditives = {
-        ...additives,
-        feedback: {
-          ...existingFeedback,
-          ...feedback,
-          updatedAt: new Date().toISOString(),
-        },
-      };
-
-      await prisma.meal.update({
-        where: { meal_id: meal.meal_id },
-        data: { additives_json: updatedAdditives },
-      });
+      const saved = await MealFeedbackService.recordLoggedMealFeedback(
+        user_id,
+        parseInt(meal_id),
+        feedback
+      );
 
       // Clear related caches
       this.clearUserCaches(user_id);
 
-      return { meal_id, feedback };
+      return { meal_id, feedback: saved };
     } catch (error) {
       console.error("💥 Error saving meal feedback:", error);
       throw error;
@@ -771,7 +1175,7 @@ export class NutritionService {
   static async toggleMealFavorite(user_id: string, meal_id: string) {
     try {
       const meal = await prisma.meal.findFirst({
-        where: { meal_id: parseInt(meal_id), user_id },
+        where: { meal_id: parseInt(meal_id), user_id, deleted_at: null },
       });
       if (!meal) throw new Error("Meal not found");
 
@@ -806,7 +1210,7 @@ export class NutritionService {
   ) {
     try {
       const originalMeal = await prisma.meal.findFirst({
-        where: { meal_id: parseInt(meal_id), user_id },
+        where: { meal_id: parseInt(meal_id), user_id, deleted_at: null },
       });
       if (!originalMeal) throw new Error("Meal not found");
 
@@ -819,10 +1223,16 @@ export class NutritionService {
         ),
       });
 
+      await FastingService.recordMeal(
+        user_id,
+        duplicatedMeal.meal_id,
+        duplicatedMeal.upload_time
+      );
+
       // Clear related caches
       this.clearUserCaches(user_id);
 
-      return transformMealForClient(duplicatedMeal);
+      return toClientMeal(duplicatedMeal);
     } catch (error) {
       console.error("💥 Error duplicating meal:", error);
       throw error;
@@ -830,7 +1240,7 @@ export class NutritionService {
   }
 
   // Helper method to clear user-specific caches
-  private static clearUserCaches(user_id: string) {
+  static clearUserCaches(user_id: string) {
     const keysToDelete: string[] = [];
 
     for (const [key] of userStatsCache) {
@@ -852,18 +1262,14 @@ export class NutritionService {
   }
 }
 
-function mapMealDataToPrismaFields(
-  mealData: any,
-  user_id: string,
-  imageBase64?: string
-) {
+function mapMealDataToPrismaFields(mealData: any, user_id: string) {
   const ingredients = Array.isArray(mealData.ingredients)
     ? mealData.ingredients
     : [];
 
   return {
     user_id,
-    image_url: imageBase64 ? `data:image/jpeg;base64,${imageBase64}` : null,
+    image_url: null,
     upload_time: new Date(),
     analysis_status: "COMPLETED",
     meal_name: mealData.meal_name || mealData.name || "Unknown Meal",
@@ -910,6 +1316,15 @@ function mapMealDataToPrismaFields(
 
     // System fields
     ingredients: ingredients,
+    detected_dishes: toDetectedDishesJson(mealData.detected_dishes),
     created_at: new Date(),
   };
 }
+
+// Only a valid breakdown is stored, clients send it back when saving
+function toDetectedDishesJson(value: unknown) {
+  const parsed = detectedDishesSchema.safeParse(value);
+  return parsed.success
+    ? (parsed.data as Prisma.InputJsonValue)
+    : Prisma.DbNull;
+}
@@ -1,17 +1,15 @@
-import OpenAI from "openai";
 import {
   MealAnalysisResult,
   MealPlanRequest,
   MealPlanResponse,
+  PlateWasteResult,
   ReplacementMealRequest,
 } from "../types/openai";
 import { extractCleanJSON } from "../utils/openai";
-
-const openai = process.env.OPENAI_API_KEY
-  ? new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    })
-  : null;
+import { getAIProvider } from "../lib/ai";
+import { normalizeClarifyingQuestions } from "../lib/clarifications";
+import { normalizePlateWaste } from "../lib/plateWaste";
+import { AITask } from "../types/ai";
 
 // Helper function to validate and clean base64 image data
 function validateAndCleanBase64(imageBase64: string): string {
@@ -62,22 +60,24 @@ function validateAndCleanBase64(imageBase64: string): string {
 }
 
 export class OpenAIService {
-  private static openai = process.env.OPENAI_API_KEY
-    ? new OpenAI({
-        apiKey: process.env.OPENAI_API_KEY,
-      })
-    : null;
-
   static async generateText(
     prompt: string,
-    maxTokens: number = 4000
+    maxTokens: number = 4000,
+    task: AITask = "general",
+    context?: Record<string, any>
   ): Promise<string> {
     try {
-      console.log("🤖 Sending request to OpenAI...");
+      const provider = getAIProvider();
+      if (!provider) {
+        throw new Error("AI provider not configured");
+      }
+
+      console.log(`🤖 Sending request to ${provider.name}...`);
       console.log("📏 Prompt length:", prompt.length, "characters");
 
-      const response = await this.openai?.chat.completions.create({
-        model: "gpt-4o",
+      const content = await provider.generateText({
+        task,
+        context,
         messages: [
           {
             role: "system",
@@ -90,21 +90,20 @@ export class OpenAIService {
               prompt.length > 6000 ? prompt.substring(0, 6000) + "..." : prompt,
           },
         ],
-        max_completion_tokens: Math.min(maxTokens, 4000),
+        maxTokens: Math.min(maxTokens, 4000),
       });
 
-      const content = response?.choices[0]?.message?.content || "";
-      console.log("✅ OpenAI response received, length:", content.length);
+      console.log("✅ AI response received, length:", content.length);
 
       const cleanedContent = content
         .replace(/```json\s*/g, "")
         .replace(/```\s*/g, "")
         .trim();
 
-      console.log("🧹 Cleaned OpenAI response");
+      console.log("🧹 Cleaned AI response");
       return cleanedContent;
     } catch (error: any) {
-      console.error("💥 OpenAI API error:", error);
+      console.error("💥 AI provider error:", error);
       if (error.code === "insufficient_quota") {
         throw new Error(
           "OpenAI quota exceeded. Using fallback menu generation."
@@ -132,14 +131,14 @@ export class OpenAIService {
       throw new Error(`Invalid image data: ${validationError.message}`);
     }
 
-    // Check if OpenAI API key is available
-    if (!process.env.OPENAI_API_KEY || !this.openai) {
-      throw new Error("OpenAI API key not configured. Please contact support.");
+    // Check if an AI provider is available
+    if (!getAIProvider()) {
+      throw new Error("AI provider not configured. Please contact support.");
     }
 
     try {
-      console.log("🚀 Attempting OpenAI analysis...");
-      return await this.callOpenAIForAnalysis(
+      console.log("🚀 Attempting AI analysis...");
+      return await this.callAIForAnalysis(
         cleanBase64,
         language,
         updateText,
@@ -171,6 +170,84 @@ export class OpenAIService {
     }
   }
 
+  /**
+   * Compares a meal's photo with a photo of what was left on the plate and
+   * estimates the leftover fraction of each of the meal's ingredients.
+   */
+  static async estimatePlateWaste(
+    beforeBase64: string,
+    afterBase64: string,
+    ingredientNames: string[],
+    language: string = "english"
+  ): Promise<PlateWasteResult> {
+    let before: string;
+    let after: string;
+    try {
+      before = validateAndCleanBase64(beforeBase64);
+      after = validateAndCleanBase64(afterBase64);
+    } catch (validationError: any) {
+      throw new Error(`Invalid image data: ${validationError.message}`);
+    }
+
+    const provider = getAIProvider();
+    if (!provider) {
+      throw new Error("AI provider not configured. Please contact support.");
+    }
+
+    console.log("🍽️ Estimating plate waste...");
+
+    const systemPrompt = `You are a professional nutritionist. The first image shows a meal as it was served, the second shows the same plate after eating.
+
+For each of these ingredients, estimate the fraction that was left on the plate, from 0 (finished) to 1 (untouched): ${ingredientNames.join(
+      ", "
+    )}
+
+Use the ingredient names exactly as given. If you can only judge the plate as a whole, give plate_leftover_fraction instead. Be conservative: if something may have been eaten, assume it was.
+
+Return VALID JSON:
+{
+  "leftovers": [{"name": "ingredient name", "leftover_fraction": number}],
+  "plate_leftover_fraction": number or null
+}`;
+
+    const content = await provider.analyzeImage({
+      task: "plate_waste",
+      model: "vision",
+      context: { ingredients: ingredientNames, language },
+      messages: [
+        { role: "system", content: systemPrompt },
+        {
+          role: "user",
+          content:
+            "Here are the before and after photos of my meal. How much of each ingredient did I leave?",
+        },
+      ],
+      images: [
+        { base64: before, detail: "high" },
+        { base64: after, detail: "high" },
+      ],
+      maxTokens: 1000,
+    });
+
+    if (!content) {
+      throw new Error("No response from AI provider");
+    }
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(extractCleanJSON(content));
+    } catch (parseError) {
+      console.error("💥 Failed to parse plate waste response:", parseError);
+      throw new Error("Could not estimate the leftovers from the photos");
+    }
+
+    const result = normalizePlateWaste(parsed, ingredientNames);
+    console.log(
+      `🍽️ Leftovers estimated for ${result.leftovers.length} of ${ingredientNames.length} ingredients`
+    );
+    return result;
+  }
+
   private static extractIngredientsFromText(content: string): any[] {
     console.log(
       "🔍 Attempting to extract ingredients from partial response..."
@@ -483,7 +560,7 @@ export class OpenAIService {
     return fixed;
   }
 
-  private static async callOpenAIForAnalysis(
+  private static async callAIForAnalysis(
     cleanBase64: string,
     language: string,
     updateText?: string,
@@ -514,6 +591,8 @@ ANALYSIS RULES:
 3. Be conservative with estimates - prefer underestimating
 4. Consider cooking methods, visible oils, sauces, and seasonings
 5. Identify potential allergens and additives
+6. If your confidence is below 0.7, or a portion, the cooking method or a hidden ingredient (oil, dressing, sauce) can't be judged from the photo, add up to 3 short clarifying_questions the user can answer in a tap. Use "CHOICE" with options, "YES_NO", or "AMOUNT" with the ingredient, a unit (g, ml or pieces) and your estimate as default_value. Otherwise return an empty array
+7. If the photo shows several separate dishes (a family dinner, a buffet, a shared table), also list each one in dishes with its own portion and nutrients, and the names of its ingredients exactly as in the ingredients list. The top-level totals stay the sum of everything visible. For a single dish return an empty array
 
 ${
   updateText
@@ -577,6 +656,31 @@ Return VALID JSON with ALL fields below. Ensure proper JSON syntax with no trail
   "additives_json": {"observed_additives": ["preservatives", "colorings"]},
   "health_risk_notes": "Brief health assessment",
   "confidence": number (0-1),
+  "dishes": [
+    {
+      "name": "Dish name",
+      "estimated_portion_g": number,
+      "calories": number,
+      "protein_g": number,
+      "carbs_g": number,
+      "fats_g": number,
+      "fiber_g": number,
+      "sugar_g": number,
+      "sodium_mg": number,
+      "ingredients": ["names from the ingredients list"]
+    }
+  ],
+  "clarifying_questions": [
+    {
+      "id": "short_id",
+      "kind": "CHOICE/YES_NO/AMOUNT",
+      "question": "Was this fried or baked?",
+      "options": ["Fried", "Baked"],
+      "ingredient": "ingredient the question is about",
+      "unit": "g",
+      "default_value": number
+    }
+  ],
   "ingredients": [
     {
       "name": "SPECIFIC ingredient name (e.g., 'grilled chicken breast', 'steamed white rice')",
@@ -624,10 +728,12 @@ Language: ${language}`;
       userPrompt += ingredientsContext;
     }
 
-    console.log("🚀 CALLING OPENAI API!");
+    console.log("🚀 CALLING AI PROVIDER!");
 
-    const response = await this.openai!.chat.completions.create({
-      model: "gpt-4o",
+    const content = await getAIProvider()!.analyzeImage({
+      task: "meal_analysis",
+      model: "vision",
+      context: { language },
       messages: [
         {
           role: "system",
@@ -635,30 +741,18 @@ Language: ${language}`;
         },
         {
           role: "user",
-          content: [
-            {
-              type: "text",
-              text: prompt,
-            },
-            {
-              type: "image_url",
-              image_url: {
-                url: `data:image/jpeg;base64,${cleanBase64}`,
-                detail: "high",
-              },
-            },
-          ],
+          content: prompt,
         },
       ],
-      max_completion_tokens: 4000,
+      images: [{ base64: cleanBase64, detail: "high" }],
+      maxTokens: 4000,
     });
 
-    const content = response?.choices[0]?.message?.content;
     if (!content) {
-      throw new Error("No response from OpenAI");
+      throw new Error("No response from AI provider");
     }
 
-    console.log("🤖 OpenAI response received successfully!");
+    console.log("🤖 AI response received successfully!");
     console.log("📄 Raw content preview:", content.substring(0, 200) + "...");
 
     // Check if response is JSON or text
@@ -953,6 +1047,10 @@ Language: ${language}`;
       processing_level: parsed.processing_level || null,
       cooking_method: parsed.cooking_method || null,
       health_risk_notes: parsed.health_risk_notes || null,
+      clarifying_questions: normalizeClarifyingQuestions(
+        parsed.clarifying_questions
+      ),
+      dishes: Array.isArray(parsed.dishes) ? parsed.dishes : [],
       confidence: Math.min(
         100,
         Math.max(0, Number(parsed.confidence) * 100 || 85)
@@ -1095,9 +1193,9 @@ Language: ${language}`;
     updateText?: string,
     editedIngredients?: any[]
   ): MealAnalysisResult {
-    console.log("⚠️ Using fallback analysis - OpenAI not available or failed");
+    console.log("⚠️ Using fallback analysis - AI not available or failed");
     console.log(
-      "💡 To enable real AI analysis, ensure OPENAI_API_KEY is set in environment"
+      "💡 To enable real AI analysis, set AI_PROVIDER (and its API key) in environment"
     );
 
     // If edited ingredients are provided, use them for calculations
@@ -1463,8 +1561,9 @@ Language: ${language}`;
     try {
       console.log("🔄 Updating meal analysis with additional info...");
 
-      if (!process.env.OPENAI_API_KEY || !this.openai) {
-        console.log("⚠️ No OpenAI API key found, using mock update");
+      const provider = getAIProvider();
+      if (!provider) {
+        console.log("⚠️ No AI provider configured, using mock update");
         return this.getMockUpdate(originalAnalysis, updateText);
       }
 
@@ -1482,8 +1581,9 @@ Respond with a JSON object in the same format as the original analysis.
 
 Language for response: ${language}`;
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o",
+      const content = await provider.generateText({
+        task: "meal_update",
+        context: { originalAnalysis, language },
         messages: [
           {
             role: "system",
@@ -1494,12 +1594,11 @@ Language for response: ${language}`;
             content: `Please update the nutritional analysis based on this additional information: "${updateText}"`,
           },
         ],
-        max_completion_tokens: 800,
+        maxTokens: 800,
       });
 
-      const content = response.choices[0]?.message?.content;
       if (!content) {
-        throw new Error("No response from OpenAI");
+        throw new Error("No response from AI provider");
       }
 
       try {
@@ -1643,8 +1742,8 @@ Language for response: ${language}`;
     try {
       console.log("🤖 Generating AI meal plan...");
 
-      if (!process.env.OPENAI_API_KEY || !this.openai) {
-        console.log("⚠️ No OpenAI API key found, using fallback meal plan");
+      if (!getAIProvider()) {
+        console.log("⚠️ No AI provider configured, using fallback meal plan");
         return this.generateFallbackMealPlan(userProfile);
       }
 
@@ -1662,8 +1761,8 @@ Language for response: ${language}`;
     try {
       console.log("🔄 Generating AI replacement meal...");
 
-      if (!process.env.OPENAI_API_KEY || !this.openai) {
-        console.log("⚠️ No OpenAI API key found, using fallback replacement");
+      if (!getAIProvider()) {
+        console.log("⚠️ No AI provider configured, using fallback replacement");
         return this.generateFallbackReplacementMeal(request);
       }
 
@@ -1679,8 +1778,8 @@ Language for response: ${language}`;
     stats: any
   ): Promise<string[]> {
     try {
-      if (!process.env.OPENAI_API_KEY || !this.openai) {
-        console.log("⚠️ No OpenAI API key found, using default insights");
+      if (!getAIProvider()) {
+        console.log("⚠️ No AI provider configured, using default insights");
         return [
           "Your nutrition tracking is helping you build healthy habits!",
           "Consider adding more variety to your meals for balanced nutrition.",
@@ -2121,21 +2220,21 @@ IMPORTANT VARIATION REQUIREMENTS:
 
 Please provide breakfast, lunch, and dinner with detailed ingredients and nutritional information.`;
 
-    const response = await this.openai?.chat.completions.create({
-      model: "gpt-3.5-turbo",
-      messages: [{ role: "user", content: prompt }],
-      temperature: 0.9,
-    });
-
-    if (!response) {
-      console.error("OpenAI API error: No response received.");
+    const provider = getAIProvider();
+    if (!provider) {
+      console.error("AI provider error: No provider configured.");
       return "Fallback menu: Salad for lunch, Pasta for dinner";
     }
 
-    const content = response.choices[0]?.message?.content;
+    const content = await provider.generateText({
+      task: "daily_menu",
+      model: "fast",
+      messages: [{ role: "user", content: prompt }],
+      temperature: 0.9,
+    });
 
     if (!content) {
-      console.error("OpenAI API error: Empty response content.");
+      console.error("AI provider error: Empty response content.");
       return "Fallback menu: Salad for lunch, Pasta for dinner";
     }
 
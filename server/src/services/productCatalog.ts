@@ -0,0 +1,120 @@
+import { prisma } from "../lib/database";
+import { mapOpenFoodFactsProduct } from "../lib/openFoodFacts";
+import {
+  OpenFoodFactsProduct,
+  ProductImportOptions,
+  ProductImportStats,
+} from "../types/foodScanner";
+
+const IMPORT_BATCH_SIZE = 500;
+
+export const DEFAULT_IMPORT_COUNTRIES = ["en:israel"];
+
+export class ProductCatalogService {
+  /**
+   * Loads OpenFoodFacts records into the shared FoodProduct catalog. Rows
+   * already imported from an equal or newer record are left alone, so
+   * re-running against a fresh dump only writes what changed. Products
+   * that users scanned before the import are taken over by the catalog.
+   */
+  static async importOpenFoodFacts(
+    records: AsyncIterable<any>,
+    options: ProductImportOptions
+  ): Promise<ProductImportStats> {
+    const countries = new Set(options.countries);
+    const stats: ProductImportStats = {
+      read: 0,
+      created: 0,
+      updated: 0,
+      unchanged: 0,
+      skipped: 0,
+    };
+    let batch: OpenFoodFactsProduct[] = [];
+
+    const flush = async () => {
+      if (batch.length === 0) return;
+
+      // Dumps occasionally repeat a barcode, the last record wins
+      const products = new Map(batch.map((p) => [p.barcode, p]));
+      batch = [];
+
+      const existing = await prisma.foodProduct.findMany({
+        where: { barcode: { in: Array.from(products.keys()) } },
+        select: { barcode: true, source: true, source_updated_at: true },
+      });
+      const existingByBarcode = new Map(existing.map((p) => [p.barcode, p]));
+
+      const writes = [];
+      for (const product of products.values()) {
+        const current = existingByBarcode.get(product.barcode);
+
+        if (
+          current?.source === "OPENFOODFACTS_IMPORT" &&
+          current.source_updated_at &&
+          product.last_modified &&
+          current.source_updated_at >= product.last_modified
+        ) {
+          stats.unchanged++;
+          continue;
+        }
+
+        const data = {
+          product_name: product.name,
+          brand: product.brand || null,
+          category: product.category,
+          nutrition_per_100g: product.nutrition_per_100g,
+          ingredients: product.ingredients,
+          allergens: product.allergens,
+          labels: product.labels,
+          health_score: product.health_score ?? null,
+          nutriscore_grade: product.nutriscore_grade || null,
+          image_url: product.image_url || null,
+          serving_size: product.serving_size || null,
+          countries: product.countries,
+          source: "OPENFOODFACTS_IMPORT" as const,
+          source_updated_at: product.last_modified || null,
+        };
+
+        writes.push(
+          prisma.foodProduct.upsert({
+            where: { barcode: product.barcode },
+            update: data,
+            create: { barcode: product.barcode, ...data },
+          })
+        );
+        if (current) stats.updated++;
+        else stats.created++;
+      }
+
+      if (writes.length > 0) await prisma.$transaction(writes);
+      options.onProgress?.({ ...stats });
+    };
+
+    for await (const record of records) {
+      stats.read++;
+
+      const recordCountries: string[] = Array.isArray(record?.countries_tags)
+        ? record.countries_tags
+        : [];
+      if (
+        countries.size > 0 &&
+        !recordCountries.some((country) => countries.has(country))
+      ) {
+        stats.skipped++;
+        continue;
+      }
+
+      const product = mapOpenFoodFactsProduct(record);
+      if (!product) {
+        stats.skipped++;
+        continue;
+      }
+
+      batch.push(product);
+      if (batch.length >= IMPORT_BATCH_SIZE) await flush();
+    }
+    await flush();
+
+    return stats;
+  }
+}
@@ -0,0 +1,71 @@
+import axios from "axios";
+import { prisma } from "../lib/database";
+
+const EXPO_PUSH_URL =
+  process.env.EXPO_PUSH_URL || "https://exp.host/--/api/v2/push/send";
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  data?: Record<string, any>;
+}
+
+export class PushNotificationService {
+  static async registerToken(user_id: string, token: string | null) {
+    await prisma.user.update({
+      where: { user_id },
+      data: { push_token: token },
+    });
+  }
+
+  /**
+   * Best-effort push to the user's registered device. Failures are logged and
+   * never thrown, callers should not depend on delivery.
+   */
+  static async sendToUser(user_id: string, message: PushMessage) {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { user_id },
+        select: { push_token: true },
+      });
+
+      if (!user?.push_token) {
+        return false;
+      }
+
+      const response = await axios.post(
+        EXPO_PUSH_URL,
+        {
+          to: user.push_token,
+          title: message.title,
+          body: message.body,
+          data: message.data || {},
+          sound: "default",
+        },
+        {
+          headers: {
+            Accept: "application/json",
+            "Content-Type": "application/json",
+          },
+          timeout: 10000,
+        }
+      );
+
+      const ticket = response.data?.data;
+      if (ticket?.status === "error") {
+        console.warn("⚠️ Push notification rejected:", ticket.message);
+
+        // Expo tells us when the token is dead, stop sending to it
+        if (ticket.details?.error === "DeviceNotRegistered") {
+          await this.registerToken(user_id, null);
+        }
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error("❌ Failed to send push notification:", error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,494 @@
+import { Prisma, RecipeVersion } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { FoodCompositionService } from "./foodComposition";
+import { NutritionService } from "./nutrition";
+import { FastingService } from "./fasting";
+import {
+  AddRecipeToPlanInput,
+  RecipeIngredientInput,
+  RecipeInput,
+  RecipeNutrition,
+  ResolvedRecipeIngredient,
+} from "../types/recipes";
+
+const NUTRITION_FIELDS: Array<keyof RecipeNutrition> = [
+  "calories",
+  "protein_g",
+  "carbs_g",
+  "fats_g",
+  "fiber_g",
+  "sugar_g",
+  "sodium_mg",
+];
+
+const round = (value: number, digits = 1) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+function scaleNutrition(
+  nutrition: Partial<Record<keyof RecipeNutrition, number | null>>,
+  factor: number
+) {
+  return Object.fromEntries(
+    NUTRITION_FIELDS.map((field) => [
+      field,
+      round((Number(nutrition[field]) || 0) * factor),
+    ])
+  ) as unknown as RecipeNutrition;
+}
+
+function toVersionView(version: RecipeVersion) {
+  return {
+    version_id: version.version_id,
+    version: version.version,
+    name: version.name,
+    description: version.description,
+    instructions: version.instructions,
+    servings: version.servings,
+    ingredients: version.ingredients_json,
+    per_serving: {
+      calories: version.calories,
+      protein_g: version.protein_g,
+      carbs_g: version.carbs_g,
+      fats_g: version.fats_g,
+      fiber_g: version.fiber_g,
+      sugar_g: version.sugar_g,
+      sodium_mg: version.sodium_mg,
+      serving_weight_g: version.serving_weight_g,
+    },
+    created_at: version.created_at,
+  };
+}
+
+export class RecipeService {
+  static async createRecipe(user_id: string, input: RecipeInput) {
+    const ingredients = await this.resolveIngredients(input.ingredients);
+
+    const recipe = await prisma.recipe.create({
+      data: {
+        user_id,
+        current_version: 1,
+        versions: {
+          create: this.buildVersion(1, input, ingredients),
+        },
+      },
+    });
+
+    console.log("📖 Created recipe", recipe.recipe_id, "for user", user_id);
+    return this.getRecipe(user_id, recipe.recipe_id);
+  }
+
+  static async getUserRecipes(user_id: string) {
+    const recipes = await prisma.recipe.findMany({
+      where: { user_id, is_archived: false },
+      include: { versions: { orderBy: { version: "desc" }, take: 1 } },
+      orderBy: { updated_at: "desc" },
+    });
+
+    return recipes
+      .filter((recipe) => recipe.versions.length > 0)
+      .map((recipe) => ({
+        recipe_id: recipe.recipe_id,
+        current_version: recipe.current_version,
+        updated_at: recipe.updated_at,
+        ...toVersionView(recipe.versions[0]),
+      }));
+  }
+
+  static async getRecipe(user_id: string, recipe_id: string) {
+    const recipe = await prisma.recipe.findFirst({
+      where: { recipe_id, user_id },
+      include: { versions: { orderBy: { version: "desc" } } },
+    });
+    if (!recipe) throw new Error("Recipe not found");
+
+    const current =
+      recipe.versions.find((v) => v.version === recipe.current_version) ||
+      recipe.versions[0];
+
+    return {
+      ...toVersionView(current),
+      recipe_id: recipe.recipe_id,
+      current_version: recipe.current_version,
+      is_archived: recipe.is_archived,
+      created_at: recipe.created_at,
+      updated_at: recipe.updated_at,
+      versions: recipe.versions.map((version) => ({
+        version_id: version.version_id,
+        version: version.version,
+        name: version.name,
+        servings: version.servings,
+        calories: version.calories,
+        created_at: version.created_at,
+      })),
+    };
+  }
+
+  static async getRecipeVersion(
+    user_id: string,
+    recipe_id: string,
+    version: number
+  ) {
+    const recipeVersion = await prisma.recipeVersion.findFirst({
+      where: { recipe_id, version, recipe: { user_id } },
+    });
+    if (!recipeVersion) throw new Error("Recipe version not found");
+
+    return { recipe_id, ...toVersionView(recipeVersion) };
+  }
+
+  /**
+   * Saves an edit as a new version. Meals and plan templates keep pointing
+   * at the version they were made from, so their numbers never change.
+   */
+  static async updateRecipe(
+    user_id: string,
+    recipe_id: string,
+    changes: Partial<RecipeInput>
+  ) {
+    const current = await this.getCurrentVersion(user_id, recipe_id);
+
+    // Unchanged ingredients keep their resolved nutrients
+    const ingredients = changes.ingredients
+      ? await this.resolveIngredients(changes.ingredients)
+      : (current.ingredients_json as unknown as ResolvedRecipeIngredient[]);
+
+    const details = {
+      name: changes.name ?? current.name,
+      description: changes.description ?? current.description ?? undefined,
+      instructions: changes.instructions ?? current.instructions ?? undefined,
+      servings: changes.servings ?? current.servings,
+    };
+
+    const nextVersion = current.version + 1;
+    await prisma.$transaction([
+      prisma.recipeVersion.create({
+        data: {
+          recipe_id,
+          ...this.buildVersion(nextVersion, details, ingredients),
+        },
+      }),
+      prisma.recipe.update({
+        where: { recipe_id },
+        data: { current_version: nextVersion },
+      }),
+    ]);
+
+    console.log(`📖 Recipe ${recipe_id} updated to version ${nextVersion}`);
+    return this.getRecipe(user_id, recipe_id);
+  }
+
+  // Archived recipes disappear from the list but logged meals keep them
+  static async archiveRecipe(user_id: string, recipe_id: string) {
+    const { count } = await prisma.recipe.updateMany({
+      where: { recipe_id, user_id },
+      data: { is_archived: true },
+    });
+    if (count === 0) throw new Error("Recipe not found");
+  }
+
+  static async logRecipe(
+    user_id: string,
+    recipe_id: string,
+    options: { servings: number; date?: string }
+  ) {
+    const version = await this.getCurrentVersion(user_id, recipe_id);
+    const servings = options.servings;
+    const nutrition = scaleNutrition(version, servings);
+    const ingredients = (
+      version.ingredients_json as unknown as ResolvedRecipeIngredient[]
+    ).map((ingredient) => ({
+      ...ingredient,
+      ...scaleNutrition(ingredient, servings / version.servings),
+      quantity: round((ingredient.quantity * servings) / version.servings, 2),
+    }));
+
+    const loggedAt = options.date
+      ? new Date(`${options.date}T${new Date().toISOString().split("T")[1]}`)
+      : new Date();
+
+    const meal = await prisma.meal.create({
+      data: {
+        user_id,
+        analysis_status: "COMPLETED",
+        meal_name: version.name,
+        calories: nutrition.calories,
+        protein_g: nutrition.protein_g,
+        carbs_g: nutrition.carbs_g,
+        fats_g: nutrition.fats_g,
+        fiber_g: nutrition.fiber_g,
+        sugar_g: nutrition.sugar_g,
+        sodium_mg: nutrition.sodium_mg,
+        serving_size_g: version.serving_weight_g
+          ? round(version.serving_weight_g * servings)
+          : null,
+        ingredients: ingredients as unknown as Prisma.InputJsonValue,
+        food_category: "recipe",
+        confidence: 100,
+        recipe_version_id: version.version_id,
+        recipe_servings: servings,
+        upload_time: loggedAt,
+        created_at: loggedAt,
+      },
+    });
+
+    await FastingService.recordMeal(user_id, meal.meal_id, loggedAt);
+
+    NutritionService.clearUserCaches(user_id);
+    console.log(
+      `🍲 Logged ${servings} servings of recipe ${recipe_id} as meal ${meal.meal_id}`
+    );
+    return meal;
+  }
+
+  /**
+   * Puts the current recipe version into a meal plan slot. The version is
+   * turned into a meal template once per meal timing and reused for later
+   * slots at that time of day.
+   */
+  static async addToMealPlan(
+    user_id: string,
+    recipe_id: string,
+    slot: AddRecipeToPlanInput
+  ) {
+    const version = await this.getCurrentVersion(user_id, recipe_id);
+
+    const plan = await prisma.userMealPlan.findFirst({
+      where: { plan_id: slot.plan_id, user_id },
+    });
+    if (!plan) throw new Error("Meal plan not found");
+
+    const template =
+      (await prisma.mealTemplate.findFirst({
+        where: {
+          recipe_version_id: version.version_id,
+          meal_timing: slot.meal_timing,
+        },
+      })) ||
+      (await prisma.mealTemplate.create({
+        data: {
+          name: version.name,
+          description: version.description,
+          meal_timing: slot.meal_timing,
+          dietary_category: "BALANCED",
+          calories: version.calories,
+          protein_g: version.protein_g,
+          carbs_g: version.carbs_g,
+          fats_g: version.fats_g,
+          fiber_g: version.fiber_g,
+          sugar_g: version.sugar_g,
+          sodium_mg: version.sodium_mg,
+          ingredients_json: (
+            version.ingredients_json as unknown as ResolvedRecipeIngredient[]
+          ).map((ingredient) => ({
+            name: ingredient.name,
+            quantity: round(ingredient.quantity / version.servings, 2),
+            unit: ingredient.unit,
+          })),
+          instructions_json: (version.instructions || "")
+            .split("\n")
+            .map((step) => step.trim())
+            .filter(Boolean),
+          recipe_version_id: version.version_id,
+        },
+      }));
+
+    const schedule = await prisma.mealPlanSchedule.upsert({
+      where: {
+        plan_id_day_of_week_meal_timing_meal_order: {
+          plan_id: slot.plan_id,
+          day_of_week: slot.day_of_week,
+          meal_timing: slot.meal_timing,
+          meal_order: slot.meal_order,
+        },
+      },
+      update: {
+        template_id: template.template_id,
+        portion_multiplier: slot.servings,
+      },
+      create: {
+        plan_id: slot.plan_id,
+        template_id: template.template_id,
+        day_of_week: slot.day_of_week,
+        meal_timing: slot.meal_timing,
+        meal_order: slot.meal_order,
+        portion_multiplier: slot.servings,
+      },
+    });
+
+    console.log(
+      `📅 Recipe ${recipe_id} scheduled in plan ${slot.plan_id}, day ${slot.day_of_week} ${slot.meal_timing}`
+    );
+    return {
+      schedule_id: schedule.schedule_id,
+      template_id: template.template_id,
+    };
+  }
+
+  /**
+   * Works out the nutrients of each ingredient from the product catalog,
+   * meal templates, the food composition table or values the user typed.
+   * Ingredients none of these can resolve are reported together.
+   */
+  static async resolveIngredients(
+    inputs: RecipeIngredientInput[]
+  ): Promise<ResolvedRecipeIngredient[]> {
+    const unresolved: string[] = [];
+
+    const resolved = await Promise.all(
+      inputs.map(async (input) => {
+        const result = await this.resolveIngredient(input);
+        if (!result) unresolved.push(input.name);
+        return result;
+      })
+    );
+
+    if (unresolved.length > 0) {
+      throw new Error(
+        `Could not resolve ingredients: ${unresolved.join(
+          ", "
+        )}. Choose a product or food, or enter nutrition values.`
+      );
+    }
+
+    return resolved as ResolvedRecipeIngredient[];
+  }
+
+  private static async resolveIngredient(
+    input: RecipeIngredientInput
+  ): Promise<ResolvedRecipeIngredient | null> {
+    const base = {
+      source: input.source,
+      name: input.name,
+      quantity: input.quantity,
+      unit: input.unit,
+    };
+
+    if (input.nutrition) {
+      return {
+        ...base,
+        product_id: input.product_id,
+        template_id: input.template_id,
+        food_id: input.food_id,
+        grams: FoodCompositionService.toGrams(input.quantity, input.unit),
+        ...scaleNutrition(input.nutrition, 1),
+        nutrition_source: "manual",
+      };
+    }
+
+    if (input.source === "template") {
+      // Template nutrition is per portion, quantity counts portions
+      const template = await prisma.mealTemplate.findUnique({
+        where: { template_id: input.template_id },
+      });
+      if (!template) return null;
+
+      return {
+        ...base,
+        template_id: template.template_id,
+        grams: null,
+        ...scaleNutrition(template, input.quantity),
+        nutrition_source: "template",
+      };
+    }
+
+    if (input.source === "product") {
+      const product = await prisma.foodProduct.findUnique({
+        where: { product_id: input.product_id },
+      });
+      const grams = FoodCompositionService.toGrams(input.quantity, input.unit);
+      if (!product || !grams) return null;
+
+      const per100g = product.nutrition_per_100g as Record<string, number>;
+      return {
+        ...base,
+        product_id: product.product_id,
+        grams,
+        ...scaleNutrition(
+          {
+            calories: per100g.calories,
+            protein_g: per100g.protein,
+            carbs_g: per100g.carbs,
+            fats_g: per100g.fat,
+            fiber_g: per100g.fiber,
+            sugar_g: per100g.sugar,
+            sodium_mg: per100g.sodium,
+          },
+          grams / 100
+        ),
+        nutrition_source: "product",
+      };
+    }
+
+    const food =
+      input.source === "food"
+        ? await prisma.foodComposition.findUnique({
+            where: { food_id: input.food_id },
+          })
+        : (await FoodCompositionService.findBestMatch(input.name))?.food;
+    if (!food) return null;
+
+    const grams = FoodCompositionService.toGrams(
+      input.quantity,
+      input.unit,
+      food
+    );
+    if (!grams) return null;
+
+    const nutrition = FoodCompositionService.calculateNutrition(food, grams);
+    return {
+      ...base,
+      food_id: food.food_id,
+      grams: nutrition.portion_g,
+      ...scaleNutrition(nutrition, 1),
+      nutrition_source: "food_db",
+    };
+  }
+
+  private static buildVersion(
+    version: number,
+    input: Omit<RecipeInput, "ingredients">,
+    ingredients: ResolvedRecipeIngredient[]
+  ) {
+    const totals = ingredients.reduce((sum, ingredient) => {
+      NUTRITION_FIELDS.forEach((field) => {
+        sum[field] += Number(ingredient[field]) || 0;
+      });
+      return sum;
+    }, scaleNutrition({}, 0));
+    const perServing = scaleNutrition(totals, 1 / input.servings);
+
+    // Only meaningful when every ingredient has a weight
+    const totalGrams = ingredients.every((i) => i.grams)
+      ? ingredients.reduce((sum, i) => sum + (i.grams || 0), 0)
+      : null;
+
+    return {
+      version,
+      name: input.name,
+      description: input.description || null,
+      instructions: input.instructions || null,
+      servings: input.servings,
+      ingredients_json: ingredients as unknown as Prisma.InputJsonValue,
+      ...perServing,
+      serving_weight_g: totalGrams ? round(totalGrams / input.servings) : null,
+    };
+  }
+
+  private static async getCurrentVersion(user_id: string, recipe_id: string) {
+    const recipe = await prisma.recipe.findFirst({
+      where: { recipe_id, user_id },
+    });
+    if (!recipe) throw new Error("Recipe not found");
+
+    const version = await prisma.recipeVersion.findUnique({
+      where: {
+        recipe_id_version: { recipe_id, version: recipe.current_version },
+      },
+    });
+    if (!version) throw new Error("Recipe version not found");
+
+    return version;
+  }
+}
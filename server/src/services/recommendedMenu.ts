@@ -1,5 +1,13 @@
 import { OpenAIService } from "./openai";
 import { prisma } from "../lib/database";
+import { FoodCompositionService } from "./foodComposition";
+import { AllergenService } from "./allergens";
+import { KosherService } from "./kosher";
+import { MealFeedbackService } from "./mealFeedback";
+import {
+  MealFeedbackInput,
+  MealPreferenceProfile,
+} from "../types/mealFeedback";
 
 export interface MenuGenerationRequest {
   userId: string;
@@ -67,7 +75,8 @@ export class RecommendedMenuService {
         mealsPerDay,
         mealChangeFrequency,
         includeLeftovers,
-        sameMealTimes
+        sameMealTimes,
+        await MealFeedbackService.getProfile(userId)
       );
 
       console.log("🤖 AI generated custom menu data:", {
@@ -129,7 +138,8 @@ export class RecommendedMenuService {
         mealsPerDay,
         mealChangeFrequency,
         includeLeftovers,
-        sameMealTimes
+        sameMealTimes,
+        await MealFeedbackService.getProfile(userId)
       );
 
       console.log("🤖 AI generated menu data:", {
@@ -239,7 +249,8 @@ export class RecommendedMenuService {
     mealsPerDay: string,
     mealChangeFrequency: string,
     includeLeftovers: boolean,
-    sameMealTimes: boolean
+    sameMealTimes: boolean,
+    preferences: MealPreferenceProfile
   ) {
     const prompt = this.buildCustomMenuPrompt(
       questionnaire,
@@ -249,13 +260,19 @@ export class RecommendedMenuService {
       mealsPerDay,
       mealChangeFrequency,
       includeLeftovers,
-      sameMealTimes
+      sameMealTimes,
+      preferences
     );
 
     console.log("🤖 Generating custom menu with AI...");
 
     try {
-      const response = await OpenAIService.generateText(prompt, 3500);
+      const response = await OpenAIService.generateText(
+        prompt,
+        3500,
+        "menu_generation",
+        { days }
+      );
       console.log("🤖 Raw AI response length:", response.length);
 
       // Parse and validate the response
@@ -315,7 +332,8 @@ export class RecommendedMenuService {
     mealsPerDay: string,
     mealChangeFrequency: string,
     includeLeftovers: boolean,
-    sameMealTimes: boolean
+    sameMealTimes: boolean,
+    preferences: MealPreferenceProfile
   ) {
     const prompt = this.buildComprehensiveMenuPrompt(
       questionnaire,
@@ -324,13 +342,19 @@ export class RecommendedMenuService {
       mealsPerDay,
       mealChangeFrequency,
       includeLeftovers,
-      sameMealTimes
+      sameMealTimes,
+      preferences
     );
 
     console.log("🤖 Generating menu with AI...");
 
     try {
-      const response = await OpenAIService.generateText(prompt, 3500);
+      const response = await OpenAIService.generateText(
+        prompt,
+        3500,
+        "menu_generation",
+        { days }
+      );
       console.log("🤖 Raw AI response length:", response.length);
 
       // Parse and validate the response
@@ -384,7 +408,8 @@ export class RecommendedMenuService {
     mealsPerDay: string,
     mealChangeFrequency: string,
     includeLeftovers: boolean,
-    sameMealTimes: boolean
+    sameMealTimes: boolean,
+    preferences: MealPreferenceProfile
   ) {
     const {
       dietary_style,
@@ -414,6 +439,7 @@ User: Goal=${main_goal}, Diet=${dietary_style}, Kosher=${kosher}, Budget=₪${bu
 Allergies: ${allergiesText}
 Avoid: ${dislikedFoodsText}
 Likes: ${likedFoodsText}
+${MealFeedbackService.describeForPrompt(preferences)}
 
 Nutrition/day: ${nutritionalNeeds.calories}cal, ${
       nutritionalNeeds.protein
@@ -471,7 +497,8 @@ Create exactly ${totalMeals} varied meals matching "${customRequest}". Hebrew+En
     mealsPerDay: string,
     mealChangeFrequency: string,
     includeLeftovers: boolean,
-    sameMealTimes: boolean
+    sameMealTimes: boolean,
+    preferences: MealPreferenceProfile
   ) {
     const {
       dietary_style,
@@ -498,6 +525,7 @@ Create exactly ${totalMeals} varied meals matching "${customRequest}". Hebrew+En
 Goal: ${goal}, Activity: ${activityLevel}, Diet: ${dietary_style}
 Allergies: ${allergies?.join(", ") || "None"}
 Calories: ${nutritionalNeeds.calories}, Protein: ${nutritionalNeeds.protein}g
+${MealFeedbackService.describeForPrompt(preferences)}
 
 Return ONLY JSON:
 {
@@ -1236,9 +1264,104 @@ Return ONLY JSON:
 
   private static async saveCompleteMenuToDatabase(
     userId: string,
-    menuData: any
+    generatedMenu: any
   ) {
     console.log("💾 Saving complete menu to database for user:", userId);
+
+    // Ingredient nutrients from the food database where they are known
+    const menuData = await FoodCompositionService.applyToMenu(generatedMenu);
+
+    // Meals that contain a declared allergen or break kosher rules never
+    // reach the user
+    if (Array.isArray(menuData.meals) && menuData.meals.length > 0) {
+      const [profile, kosherSettings] = await Promise.all([
+        AllergenService.getUserProfile(userId),
+        KosherService.getSettings(userId),
+      ]);
+      const allergenCheck = AllergenService.partitionMeals(
+        profile,
+        menuData.meals,
+        (meal: any) => ({ name: meal.name, ingredients: meal.ingredients })
+      );
+      const kosherCheck = KosherService.partitionMeals(
+        kosherSettings,
+        allergenCheck.safe,
+        (meal: any) => ({
+          food: { name: meal.name, ingredients: meal.ingredients },
+          day: meal.day_number || 1,
+          meal_timing: this.validateMealType(meal.meal_type),
+        })
+      );
+      // Disliked dishes are left out too, unless that leaves nothing
+      const preferenceCheck = MealFeedbackService.partitionMeals(
+        await MealFeedbackService.getProfile(userId),
+        kosherCheck.safe,
+        (meal: any) => ({ name: meal.name, ingredients: meal.ingredients })
+      );
+      const safe = preferenceCheck.kept;
+      const rejected = [
+        ...allergenCheck.rejected,
+        ...kosherCheck.rejected,
+        ...preferenceCheck.rejected,
+      ];
+
+      if (allergenCheck.rejected.length > 0) {
+        console.warn(
+          "🚫 Rejected meals with declared allergens:",
+          allergenCheck.rejected.map(({ meal, warnings }) => ({
+            name: meal.name,
+            allergens: warnings.map((warning) => warning.allergen),
+          }))
+        );
+      }
+      if (kosherCheck.rejected.length > 0) {
+        console.warn(
+          "✡️ Rejected meals that break kosher rules:",
+          kosherCheck.rejected.map(({ meal, warnings }) => ({
+            name: meal.name,
+            rules: warnings.map((warning) => warning.type),
+          }))
+        );
+      }
+      if (preferenceCheck.rejected.length > 0) {
+        console.log(
+          "👎 Left out meals the user disliked:",
+          preferenceCheck.rejected.map(({ meal, matches }) => ({
+            name: meal.name,
+            matches,
+          }))
+        );
+      }
+
+      if (rejected.length > 0) {
+        if (safe.length === 0) {
+          throw new Error(
+            "Every generated meal contains a declared allergen or is not kosher"
+          );
+        }
+
+        menuData.meals = safe;
+        const totalFields = {
+          calories: "total_calories",
+          protein: "total_protein",
+          carbs: "total_carbs",
+          fat: "total_fat",
+          fiber: "total_fiber",
+        } as const;
+        (Object.keys(totalFields) as Array<keyof typeof totalFields>).forEach(
+          (field) => {
+            const key = totalFields[field];
+            const removed = rejected.reduce(
+              (sum, { meal }) => sum + (Number(meal[field]) || 0),
+              0
+            );
+            if (typeof menuData[key] === "number") {
+              menuData[key] = Math.max(0, menuData[key] - removed);
+            }
+          }
+        );
+      }
+    }
     console.log("📊 Menu data structure:", {
       title: menuData.title,
       mealsCount: menuData.meals?.length || 0,
@@ -1308,6 +1431,11 @@ Return ONLY JSON:
                     unit: ingredientData.unit || "גרם",
                     category: ingredientData.category || "general",
                     estimated_cost: ingredientData.estimated_cost || 0,
+                    food_id: ingredientData.food_id || null,
+                    calories: ingredientData.calories ?? null,
+                    protein_g: ingredientData.protein_g ?? null,
+                    carbs_g: ingredientData.carbs_g ?? null,
+                    fats_g: ingredientData.fats_g ?? null,
                   },
                 });
               }
@@ -1525,11 +1653,54 @@ Return ONLY JSON:
       throw new Error("Meal not found");
     }
 
+    // The replacement must be free of declared allergens and keep kosher
+    // alongside the other meals of the same day. Disliked dishes are skipped
+    // and the ones closest to the user's taste come first.
+    const [profile, kosherSettings, tasteProfile, dayMeals] = await Promise.all(
+      [
+        AllergenService.getUserProfile(userId),
+        KosherService.getSettings(userId),
+        MealFeedbackService.getProfile(userId),
+        prisma.recommendedMeal.findMany({
+          where: {
+            menu_id: menuId,
+            day_number: currentMeal.day_number,
+            meal_id: { not: mealId },
+          },
+          include: { ingredients: true },
+        }),
+      ]
+    );
+    const isAllowed = (option: any) => {
+      if (AllergenService.checkFood(profile, option).length > 0) return false;
+      const candidate = { ...option, meal_type: currentMeal.meal_type };
+      const { rejected } = KosherService.partitionMeals(
+        kosherSettings,
+        [...dayMeals, candidate],
+        (meal: any) => ({
+          food: { name: meal.name, ingredients: meal.ingredients },
+          day: currentMeal.day_number,
+          meal_timing: meal.meal_type,
+        })
+      );
+      return !rejected.some(({ meal }) => meal === candidate);
+    };
+
     // Generate a replacement meal using AI or fallback
-    const replacementMeal = await this.generateReplacementMeal(
+    const generated = await this.generateReplacementMeal(
       currentMeal,
-      preferences
+      preferences,
+      isAllowed,
+      tasteProfile
     );
+    if (!generated) {
+      throw new Error(
+        "No replacement meal fits the declared allergies and kosher rules"
+      );
+    }
+    const {
+      meals: [replacementMeal],
+    } = await FoodCompositionService.applyToMenu({ meals: [generated] });
 
     // Update the meal in database
     const updatedMeal = await prisma.recommendedMeal.update({
@@ -1552,6 +1723,11 @@ Return ONLY JSON:
             unit: ingredient.unit,
             category: ingredient.category,
             estimated_cost: ingredient.estimated_cost,
+            food_id: ingredient.food_id || null,
+            calories: ingredient.calories ?? null,
+            protein_g: ingredient.protein_g ?? null,
+            carbs_g: ingredient.carbs_g ?? null,
+            fats_g: ingredient.fats_g ?? null,
           })),
         },
       },
@@ -1565,7 +1741,9 @@ Return ONLY JSON:
 
   private static async generateReplacementMeal(
     currentMeal: any,
-    preferences: any
+    preferences: any,
+    isAllowed: (option: any) => boolean,
+    tasteProfile: MealPreferenceProfile
   ) {
     // Enhanced replacement logic with multiple options
     const replacementOptions = [
@@ -1639,9 +1817,11 @@ Return ONLY JSON:
       },
     ];
 
-    return replacementOptions[
-      Math.floor(Math.random() * replacementOptions.length)
-    ];
+    return MealFeedbackService.pickOption(
+      tasteProfile,
+      replacementOptions.filter(isAllowed),
+      (option) => ({ name: option.name, ingredients: option.ingredients })
+    );
   }
 
   static async markMealAsFavorite(
@@ -1661,11 +1841,15 @@ Return ONLY JSON:
     userId: string,
     menuId: string,
     mealId: string,
-    liked: boolean
+    feedback: MealFeedbackInput
   ) {
-    console.log("💬 Recording meal feedback:", mealId, liked);
-    // Implementation would go here - could store in UserMealPreference
-    console.log(`Meal ${mealId} feedback: ${liked ? "liked" : "disliked"}`);
+    console.log("💬 Recording meal feedback:", mealId, feedback.liked);
+    return MealFeedbackService.recordRecommendedMealFeedback(
+      userId,
+      menuId,
+      mealId,
+      feedback
+    );
   }
 
   static async generateShoppingList(userId: string, menuId: string) {
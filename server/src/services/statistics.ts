@@ -1,5 +1,16 @@
 import { prisma } from "../lib/database";
 import { AchievementService } from "./achievements";
+import { DailyGoalsService } from "./dailyGoal";
+import { FastingService } from "./fasting";
+import { NutritionReportTopFood, ReportLanguage } from "../types/statistics";
+import { DayGoal } from "../types/dailyGoals";
+import {
+  HEBREW_FONT_MISSING,
+  hasHebrewReportFont,
+  renderNutritionReport,
+} from "../utils/pdfReport";
+
+const getToday = () => new Date().toISOString().split("T")[0];
 
 export interface Achievement {
   id: string;
@@ -45,6 +56,20 @@ export interface StatisticsData {
   averageMealQuality: number;
 }
 
+export type StatisticsPeriod = "today" | "week" | "month" | "custom";
+
+export interface DateRange {
+  startDate: string;
+  endDate: string;
+}
+
+export interface ReportOptions {
+  period: Exclude<StatisticsPeriod, "today">;
+  startDate?: string;
+  endDate?: string;
+  language: ReportLanguage;
+}
+
 interface UserStats {
   currentStreak: number;
   bestStreak: number;
@@ -54,22 +79,32 @@ interface UserStats {
   totalCalorieGoals: number;
   totalXP: number;
   aiRequestsCount: number;
+  completedFasts: number;
+  fastingStreak: number;
 }
 
 export class StatisticsService {
   static async getNutritionStatistics(
     userId: string,
-    period: "today" | "week" | "month" = "week"
+    period: StatisticsPeriod = "week",
+    range?: DateRange
   ): Promise<{ success: boolean; data: StatisticsData }> {
     try {
       console.log(
         `📊 Getting statistics for user: ${userId}, period: ${period}`
       );
 
-      const now = new Date();
+      let now = new Date();
       let startDate: Date;
 
       switch (period) {
+        case "custom":
+          if (!range) {
+            throw new Error("Custom period requires a start and end date");
+          }
+          startDate = new Date(range.startDate + "T00:00:00.000Z");
+          now = new Date(range.endDate + "T23:59:59.999Z");
+          break;
         case "today":
           startDate = new Date(
             now.getFullYear(),
@@ -89,6 +124,7 @@ export class StatisticsService {
       const meals = await prisma.meal.findMany({
         where: {
           user_id: userId,
+          deleted_at: null,
           created_at: {
             gte: startDate,
             lte: now,
@@ -113,19 +149,12 @@ export class StatisticsService {
         },
       });
 
-      // Get user's daily goals
-      const dailyGoals = await prisma.dailyGoal.findMany({
-        where: {
-          user_id: userId,
-          date: {
-            gte: startDate,
-            lte: now,
-          },
-        },
-        orderBy: {
-          date: "desc",
-        },
-      });
+      // The goal that applied on each day of the period
+      const dailyGoals = await DailyGoalsService.getGoalsForRange(
+        userId,
+        startDate.toISOString().split("T")[0],
+        now.toISOString().split("T")[0]
+      );
 
       // Get water intake data
       const waterIntakes = await prisma.waterIntake.findMany({
@@ -164,13 +193,15 @@ export class StatisticsService {
       // Get calorie goal completions
       const mealDays = await prisma.meal.groupBy({
         by: ["created_at"],
-        where: { user_id: userId },
+        where: { user_id: userId, deleted_at: null },
         _sum: { calories: true },
         having: {
           calories: { _sum: { gte: 1800 } },
         },
       });
 
+      const fastingStats = await FastingService.getAchievementStats(userId);
+
       const userStats: UserStats = {
         currentStreak: user?.current_streak || 0,
         bestStreak: user?.best_streak || 0,
@@ -180,6 +211,7 @@ export class StatisticsService {
         totalCalorieGoals: mealDays.length,
         totalXP: user?.total_points || 0,
         aiRequestsCount: user?.ai_requests_count || 0,
+        ...fastingStats,
       };
 
       // Calculate streaks and achievements
@@ -205,7 +237,7 @@ export class StatisticsService {
         currentStreak: userStats.currentStreak,
         weeklyStreak: Math.floor(userStats.currentStreak / 7),
         perfectDays: wellbeingMetrics.perfectDays,
-        dailyGoalDays: dailyGoals.length,
+        dailyGoalDays: Object.keys(dailyGoals).length,
         totalDays: Math.ceil(
           (now.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)
         ),
@@ -331,6 +363,14 @@ export class StatisticsService {
         return Math.min(userStats.level, 25);
       case "level_50":
         return Math.min(userStats.level, 50);
+      case "first_fast":
+        return Math.min(userStats.completedFasts, 1);
+      case "fasts_7":
+        return Math.min(userStats.completedFasts, 7);
+      case "fasts_30":
+        return Math.min(userStats.completedFasts, 30);
+      case "fasting_streak_7":
+        return Math.min(userStats.fastingStreak, 7);
       default:
         return 0;
     }
@@ -338,7 +378,7 @@ export class StatisticsService {
 
   private static async calculateDailyBreakdown(
     meals: any[],
-    dailyGoals: any[],
+    dailyGoals: Record<string, DayGoal>,
     waterIntakes: any[],
     startDate: Date,
     endDate: Date
@@ -352,9 +392,7 @@ export class StatisticsService {
         (meal) => meal.created_at.toISOString().split("T")[0] === dateStr
       );
 
-      const dayGoal = dailyGoals.find(
-        (goal) => goal.date.toISOString().split("T")[0] === dateStr
-      );
+      const dayGoal = dailyGoals[dateStr];
 
       const dayWater = waterIntakes.find(
         (water) => water.date.toISOString().split("T")[0] === dateStr
@@ -387,6 +425,17 @@ export class StatisticsService {
         date: dateStr,
         ...dayTotals,
         water_cups: dayWater?.cups_consumed || 0,
+        meals_count: dayMeals.length,
+        goal: dayGoal
+          ? {
+              calories: dayGoal.calories,
+              protein_g: dayGoal.protein_g,
+              carbs_g: dayGoal.carbs_g,
+              fats_g: dayGoal.fats_g,
+              water_ml: dayGoal.water_ml,
+              day_type: dayGoal.day_type,
+            }
+          : null,
         mood: "neutral",
         energy: "medium",
         satiety: "satisfied",
@@ -505,7 +554,7 @@ export class StatisticsService {
       });
 
       const allMeals = await prisma.meal.findMany({
-        where: { user_id: userId },
+        where: { user_id: userId, deleted_at: null },
         orderBy: { upload_time: "desc" },
         orderBy: { created_at: "desc" },
       });
@@ -599,6 +648,7 @@ export class StatisticsService {
       const meals = await prisma.meal.findMany({
         where: {
           user_id: userId,
+          deleted_at: null,
           created_at: { gte: startDate, lte: endDate },
         },
       });
@@ -721,9 +771,103 @@ export class StatisticsService {
     }
   }
 
-  static async generatePDFReport(userId: string): Promise<Buffer> {
-    // This would generate a PDF report - placeholder for now
-    return Buffer.from("PDF Report");
+  static async generatePDFReport(
+    userId: string,
+    options: ReportOptions
+  ): Promise<Buffer> {
+    // Checked before the statistics are gathered, a Hebrew report without
+    // Hebrew glyphs would come out blank
+    const language = options.language;
+    if (language === "he" && !hasHebrewReportFont()) {
+      console.error("❌ No Hebrew report font found, set REPORT_FONT_PATH");
+      throw new Error(HEBREW_FONT_MISSING);
+    }
+
+    const range =
+      options.period === "custom" && options.startDate && options.endDate
+        ? { startDate: options.startDate, endDate: options.endDate }
+        : undefined;
+
+    const statistics = await this.getNutritionStatistics(
+      userId,
+      options.period,
+      range
+    );
+    const { data } = statistics;
+
+    const dailyBreakdown = data.dailyBreakdown;
+    const startDate = range?.startDate || dailyBreakdown[0]?.date || getToday();
+    const endDate =
+      range?.endDate ||
+      dailyBreakdown[dailyBreakdown.length - 1]?.date ||
+      getToday();
+
+    const [user, topFoods] = await Promise.all([
+      prisma.user.findUnique({
+        where: { user_id: userId },
+        select: { name: true, email: true },
+      }),
+      this.getTopFoods(userId, startDate, endDate),
+    ]);
+
+    return renderNutritionReport({
+      language,
+      userName: user?.name || user?.email || "",
+      startDate,
+      endDate,
+      generatedAt: new Date(),
+      averages: {
+        calories: data.averageCalories,
+        protein: data.averageProtein,
+        carbs: data.averageCarbs,
+        fats: data.averageFats,
+        fiber: data.averageFiber,
+        sugar: data.averageSugar,
+        sodium: data.averageSodium,
+        fluids: data.averageFluids,
+      },
+      streaks: {
+        currentStreak: data.currentStreak,
+        bestStreak: data.bestStreak,
+        perfectDays: data.perfectDays,
+        successfulDays: data.successfulDays,
+        level: data.level,
+        totalPoints: data.totalPoints,
+      },
+      dailyBreakdown,
+      achievements: data.achievements,
+      topFoods,
+    });
+  }
+
+  private static async getTopFoods(
+    userId: string,
+    startDate: string,
+    endDate: string,
+    limit = 10
+  ): Promise<NutritionReportTopFood[]> {
+    const groups = await prisma.meal.groupBy({
+      by: ["meal_name"],
+      where: {
+        user_id: userId,
+        deleted_at: null,
+        created_at: {
+          gte: new Date(startDate + "T00:00:00.000Z"),
+          lte: new Date(endDate + "T23:59:59.999Z"),
+        },
+      },
+      _count: { meal_id: true },
+      _sum: { calories: true },
+      orderBy: { _count: { meal_id: "desc" } },
+      take: limit,
+    });
+
+    return groups.map((group) => ({
+      name: group.meal_name || "Unknown Meal",
+      times_logged: group._count.meal_id,
+      total_calories: group._sum.calories || 0,
+      average_calories: (group._sum.calories || 0) / group._count.meal_id,
+    }));
   }
 
   static async generateInsights(userId: string): Promise<any> {
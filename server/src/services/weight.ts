@@ -0,0 +1,265 @@
+import { WeighIn, WeighInSource } from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  DUPLICATE_TOLERANCE_KG,
+  RATE_WINDOW_DAYS,
+  projectGoal,
+  smoothWeights,
+  weeklyRate,
+} from "../lib/weight";
+import {
+  DeviceWeightReading,
+  WeighInInput,
+  WeighInQuery,
+  WeightTrend,
+  WeightTrendPoint,
+  WeightTrendQuery,
+} from "../types/weight";
+import {
+  getLocalDateString,
+  resolveTimezone,
+  shiftDate,
+} from "../utils/timezone";
+
+const toDateString = (date: Date) => date.toISOString().split("T")[0];
+
+async function getTimezone(user_id: string) {
+  const user = await prisma.user.findUnique({
+    where: { user_id },
+    select: { timezone: true },
+  });
+  if (!user) throw new Error("User not found");
+  return resolveTimezone(user.timezone);
+}
+
+// A weigh-in logged the same day with practically the same weight
+async function findDuplicate(
+  user_id: string,
+  date: string,
+  weight_kg: number,
+  exclude_device_id?: string
+): Promise<WeighIn | null> {
+  const sameDay = await prisma.weighIn.findMany({
+    where: { user_id, date: new Date(date) },
+  });
+  return (
+    sameDay.find(
+      (entry) =>
+        (!exclude_device_id || entry.device_id !== exclude_device_id) &&
+        Math.abs(entry.weight_kg - weight_kg) <= DUPLICATE_TOLERANCE_KG
+    ) || null
+  );
+}
+
+// Daily means smoothed into the trend, readings before the start settle it
+async function loadTrend(user_id: string, start: string) {
+  const entries = await prisma.weighIn.findMany({
+    where: {
+      user_id,
+      date: { gte: new Date(shiftDate(start, -RATE_WINDOW_DAYS)) },
+    },
+    orderBy: { date: "asc" },
+  });
+
+  const days = new Map<string, number[]>();
+  for (const entry of entries) {
+    const date = toDateString(entry.date);
+    days.set(date, [...(days.get(date) || []), entry.weight_kg]);
+  }
+  const daily = [...days.entries()].map(([date, weights]) => ({
+    date,
+    weight_kg: weights.reduce((sum, value) => sum + value, 0) / weights.length,
+  }));
+
+  return { entries, allPoints: smoothWeights(daily) };
+}
+
+export class WeightService {
+  /**
+   * Logs a weigh-in typed in by the user. The same weight already logged
+   * that day, for example synced from their scale, is returned instead.
+   */
+  static async addWeighIn(
+    user_id: string,
+    input: WeighInInput,
+    source: WeighInSource = "MANUAL"
+  ): Promise<{ weigh_in: WeighIn; duplicate: boolean }> {
+    const timezone = await getTimezone(user_id);
+    const measured_at = input.measured_at
+      ? new Date(input.measured_at)
+      : new Date();
+    if (measured_at.getTime() > Date.now()) {
+      throw new Error("A weigh-in cannot be in the future");
+    }
+
+    const date = getLocalDateString(measured_at, timezone);
+    const duplicate = await findDuplicate(user_id, date, input.weight_kg);
+    if (duplicate) {
+      console.log(`⏭️ Weigh-in on ${date} already logged, keeping the first`);
+      return { weigh_in: duplicate, duplicate: true };
+    }
+
+    const weigh_in = await prisma.weighIn.create({
+      data: {
+        user_id,
+        weight_kg: input.weight_kg,
+        body_fat_percentage: input.body_fat_percentage,
+        measured_at,
+        date: new Date(date),
+        source,
+        notes: input.notes,
+      },
+    });
+
+    console.log(`⚖️ Logged ${weigh_in.weight_kg}kg for user ${user_id}`);
+    return { weigh_in, duplicate: false };
+  }
+
+  /**
+   * Imports a reading from a connected device. Each device keeps one row per
+   * day that later syncs update, and a reading another source already has
+   * is skipped. Never fails the device sync.
+   */
+  static async importDeviceReading(
+    user_id: string,
+    reading: DeviceWeightReading
+  ): Promise<WeighIn | null> {
+    try {
+      const timezone = await getTimezone(user_id);
+      const date = getLocalDateString(reading.measured_at, timezone);
+
+      const duplicate = await findDuplicate(
+        user_id,
+        date,
+        reading.weight_kg,
+        reading.device_id
+      );
+      if (duplicate) return null;
+
+      const data = {
+        weight_kg: reading.weight_kg,
+        body_fat_percentage: reading.body_fat_percentage,
+        measured_at: reading.measured_at,
+      };
+      return await prisma.weighIn.upsert({
+        where: {
+          user_id_device_id_date: {
+            user_id,
+            device_id: reading.device_id,
+            date: new Date(date),
+          },
+        },
+        update: data,
+        create: {
+          ...data,
+          user_id,
+          device_id: reading.device_id,
+          date: new Date(date),
+          source: "DEVICE",
+        },
+      });
+    } catch (error) {
+      console.error("💥 Import device weight error:", error);
+      return null;
+    }
+  }
+
+  // The weight given in the questionnaire counts as a weigh-in on that day
+  static async recordQuestionnaireWeight(user_id: string, weight_kg: number) {
+    try {
+      await this.addWeighIn(user_id, { weight_kg }, "QUESTIONNAIRE");
+    } catch (error) {
+      console.error("💥 Record questionnaire weight error:", error);
+    }
+  }
+
+  static async getWeighIns(user_id: string, query: WeighInQuery) {
+    return prisma.weighIn.findMany({
+      where: {
+        user_id,
+        date: {
+          ...(query.start_date && { gte: new Date(query.start_date) }),
+          ...(query.end_date && { lte: new Date(query.end_date) }),
+        },
+      },
+      orderBy: { measured_at: "desc" },
+      take: query.limit,
+    });
+  }
+
+  // Trend points from the given local date on
+  static async getTrendPoints(
+    user_id: string,
+    start: string
+  ): Promise<WeightTrendPoint[]> {
+    const { allPoints } = await loadTrend(user_id, start);
+    return allPoints.filter((point) => point.date >= start);
+  }
+
+  static async deleteWeighIn(user_id: string, weigh_in_id: number) {
+    const weighIn = await prisma.weighIn.findFirst({
+      where: { weigh_in_id, user_id },
+    });
+    if (!weighIn) throw new Error("Weigh-in not found");
+
+    await prisma.weighIn.delete({ where: { weigh_in_id } });
+  }
+
+  /**
+   * Daily weights with their smoothed trend, the weekly rate of change and
+   * when the target weight will be reached at that rate.
+   */
+  static async getTrend(
+    user_id: string,
+    query: WeightTrendQuery
+  ): Promise<WeightTrend> {
+    const timezone = await getTimezone(user_id);
+    const today = getLocalDateString(new Date(), timezone);
+    const start = shiftDate(today, -query.days);
+
+    const { entries, allPoints } = await loadTrend(user_id, start);
+    const points = allPoints.filter((point) => point.date >= start);
+    const last = allPoints[allPoints.length - 1];
+    const weekly_rate_kg = weeklyRate(allPoints);
+
+    const questionnaire = await prisma.userQuestionnaire.findFirst({
+      where: { user_id },
+      orderBy: { date_completed: "desc" },
+      select: {
+        target_weight_kg: true,
+        goal_timeframe_days: true,
+        date_completed: true,
+      },
+    });
+    const goal_date = questionnaire?.goal_timeframe_days
+      ? shiftDate(
+          getLocalDateString(questionnaire.date_completed, timezone),
+          questionnaire.goal_timeframe_days
+        )
+      : null;
+
+    const sources: Record<WeighInSource, number> = {
+      MANUAL: 0,
+      DEVICE: 0,
+      QUESTIONNAIRE: 0,
+    };
+    entries
+      .filter((entry) => toDateString(entry.date) >= start)
+      .forEach((entry) => sources[entry.source]++);
+
+    return {
+      points,
+      latest_weight_kg: last?.weight_kg ?? null,
+      trend_weight_kg: last?.trend_kg ?? null,
+      weekly_rate_kg,
+      projection: projectGoal({
+        trend_kg: last?.trend_kg ?? null,
+        weekly_rate_kg,
+        target_weight_kg: questionnaire?.target_weight_kg ?? null,
+        goal_date,
+        today,
+      }),
+      sources,
+    };
+  }
+}
@@ -0,0 +1,38 @@
+import { z } from "zod";
+import { AdaptiveGoalsMode, GoalAdjustment } from "@prisma/client";
+
+export const adaptiveGoalsSettingsSchema = z.object({
+  // OFF stops the weekly check, AUTO_APPLY applies without asking
+  mode: z.enum(["OFF", "RECOMMEND", "AUTO_APPLY"]),
+});
+
+export const goalAdjustmentsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(52).default(12),
+});
+
+export type AdaptiveGoalsSettings = z.infer<typeof adaptiveGoalsSettingsSchema>;
+export type GoalAdjustmentsQuery = z.infer<typeof goalAdjustmentsQuerySchema>;
+
+export interface TdeeEstimate {
+  window_start: string;
+  window_end: string;
+  formula_tdee: number;
+  // Null until enough meals and weigh-ins are logged
+  intake_tdee: number | null;
+  average_intake: number | null;
+  logged_days: number;
+  trend_change_kg: number | null;
+  trend_weight_kg: number | null;
+  device_tdee: number | null;
+  device_days: number;
+  estimated_tdee: number;
+  // Share of the estimate that was measured rather than assumed, 0-1
+  confidence: number;
+}
+
+export interface AdaptiveGoalsStatus {
+  mode: AdaptiveGoalsMode;
+  estimate: TdeeEstimate;
+  current_calories: number | null;
+  pending: GoalAdjustment | null;
+}
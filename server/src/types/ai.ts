@@ -0,0 +1,52 @@
+// What a request is for. Offline providers use it to pick a canned response.
+export type AITask =
+  | "meal_analysis"
+  | "meal_update"
+  | "plate_waste"
+  | "menu_generation"
+  | "replacement_meal"
+  | "daily_menu"
+  | "chat"
+  | "product_scan"
+  | "general";
+
+// Providers map each tier to a concrete model from configuration
+export type AIModelTier = "default" | "vision" | "reasoning" | "fast";
+
+export interface AIMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface AIImageInput {
+  base64: string;
+  mimeType?: string;
+  detail?: "low" | "high" | "auto";
+}
+
+export interface AITextRequest {
+  task: AITask;
+  messages: AIMessage[];
+  model?: AIModelTier;
+  maxTokens?: number;
+  temperature?: number;
+  // Structured inputs behind the prompt (days, language, original analysis...)
+  context?: Record<string, any>;
+}
+
+export interface AIVisionRequest extends AITextRequest {
+  images: AIImageInput[];
+}
+
+export interface AIJSONRequest extends AITextRequest {
+  schemaName: string;
+  schema: Record<string, any>;
+  images?: AIImageInput[];
+}
+
+export interface AIProvider {
+  readonly name: string;
+  generateText(request: AITextRequest): Promise<string>;
+  generateJSON<T = any>(request: AIJSONRequest): Promise<T>;
+  analyzeImage(request: AIVisionRequest): Promise<string>;
+}
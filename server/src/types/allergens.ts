@@ -0,0 +1,44 @@
+export type AllergySeverity = "allergy" | "intolerance";
+
+export interface AllergenDefinition {
+  id: string;
+  label: { en: string; he: string };
+  // Names, derivatives and dishes that contain the allergen, EN and HE
+  terms: string[];
+  // Phrases that contain a term but not the allergen, e.g. "coconut milk"
+  exclusions?: string[];
+  // Labels saying a food is free of the allergen, e.g. "gluten free"
+  free_from?: string[];
+}
+
+// One allergy or intolerance from the questionnaire
+export interface DeclaredAllergen {
+  // Allergen id from the table, or "custom" for unknown free text
+  allergen: string;
+  label: { en: string; he: string };
+  severity: AllergySeverity;
+  terms: string[];
+  exclusions: string[];
+  free_from: string[];
+  declared_as: string;
+}
+
+export interface AllergyProfile {
+  allergens: DeclaredAllergen[];
+}
+
+// Anything that describes a food: a product, a logged meal or a generated one
+export interface FoodAllergenSource {
+  name?: string | null;
+  ingredients?: unknown;
+  allergens?: unknown;
+}
+
+export interface AllergenWarning {
+  allergen: string;
+  label: { en: string; he: string };
+  severity: AllergySeverity;
+  // The words in the food that matched
+  matched: string[];
+  declared_as: string;
+}
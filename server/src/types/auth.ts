@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { isValidTimezone } from "../utils/timezone";
 
 export const signUpSchema = z.object({
   email: z.string().email("Invalid email address"),
@@ -15,7 +16,9 @@ export const signUpSchema = z.object({
     ),
   birth_date: z.preprocess((arg) => {
     if (typeof arg === "string" || arg instanceof Date) return new Date(arg);
-  }, z.date()),
+  }, z.date().optional()),
+  // Local days, such as when AI quotas reset, follow this timezone
+  timezone: z.string().refine(isValidTimezone, "Invalid timezone").optional(),
 });
 
 export const signInSchema = z.object({
@@ -27,7 +30,9 @@ export const updateProfileSchema = z.object({
   name: z.string().min(1).optional(),
   birth_date: z.preprocess((arg) => {
     if (typeof arg === "string" || arg instanceof Date) return new Date(arg);
-  }, z.date()),
+  }, z.date().optional()),
+  // Local days, such as when AI quotas reset, follow this timezone
+  timezone: z.string().refine(isValidTimezone, "Invalid timezone").optional(),
 });
 
 export const updateSubscriptionSchema = z.object({
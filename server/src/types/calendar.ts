@@ -1,3 +1,6 @@
+import { GoalDayType } from "@prisma/client";
+import { FastingDaySummary } from "./fasting";
+
 export interface DayData {
   date: string;
   calories_goal: number;
@@ -17,6 +20,10 @@ export interface DayData {
     type: string;
     created_at: string;
   }>;
+  // Training, refeed or rest day in the goal schedule
+  day_type?: GoalDayType;
+  // Only on days with a fast or an eating window violation
+  fasting?: FastingDaySummary;
 }
 
 export interface CalendarStats {
@@ -37,6 +44,9 @@ export interface CalendarStats {
     icon: string;
     achieved_at: string;
   }>;
+  fastingDays: number;
+  fastingStreak: number;
+  fastingViolations: number;
   weeklyInsights: {
     bestWeekDetails: {
       weekStart: string;
@@ -0,0 +1,57 @@
+import { z } from "zod";
+import { GoalDayType } from "@prisma/client";
+
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+const weekdaysSchema = z
+  .array(z.number().int().min(0).max(6))
+  .max(7)
+  .transform((days) => [...new Set(days)].sort());
+
+export const dailyGoalQuerySchema = z.object({
+  date: dateSchema.optional(),
+});
+
+export const dailyGoalRangeQuerySchema = z
+  .object({
+    start_date: dateSchema,
+    end_date: dateSchema,
+  })
+  .refine((data) => data.start_date <= data.end_date, {
+    message: "start_date must not be after end_date",
+  });
+
+export const goalScheduleSchema = z
+  .object({
+    // Weekdays, 0 is Sunday
+    training_days: weekdaysSchema,
+    refeed_days: weekdaysSchema.default([]),
+    training_carb_boost: z.number().min(0).max(1).default(0.25),
+  })
+  .refine(
+    (data) => !data.refeed_days.some((day) => data.training_days.includes(day)),
+    { message: "A day can't be both a training and a refeed day" }
+  );
+
+export const goalPlanHistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type GoalScheduleInput = z.infer<typeof goalScheduleSchema>;
+
+export interface DayGoal {
+  date: string;
+  day_type: GoalDayType;
+  // Null for goals recorded before versions existed
+  plan_id: number | null;
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  fiber_g: number;
+  sodium_mg: number;
+  sugar_g: number;
+  water_ml: number;
+}
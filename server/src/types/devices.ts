@@ -1,3 +1,6 @@
+import { ActivityMetric, DeviceType } from "@prisma/client";
+import { z } from "zod";
+
 export interface ActivityData {
   steps: number;
   caloriesBurned: number;
@@ -10,9 +13,153 @@ export interface ActivityData {
   distance?: number;
 }
 
+// A day of activity, date is the calendar day in the user's timezone
+export interface ActivityDay extends ActivityData {
+  date: string;
+  heartRateMax?: number;
+}
+
 export interface DailyBalance {
   caloriesIn: number;
   caloriesOut: number;
   balance: number;
   balanceStatus: "balanced" | "slight_imbalance" | "significant_imbalance";
 }
+
+// Wearables whose data the server pulls with OAuth tokens it holds
+export const OAUTH_DEVICE_TYPES = [
+  "GOOGLE_FIT",
+  "FITBIT",
+  "WHOOP",
+  "POLAR",
+] as const;
+export type OAuthDeviceType = (typeof OAUTH_DEVICE_TYPES)[number];
+
+export interface OAuthTokens {
+  access_token: string;
+  refresh_token?: string;
+  // Seconds, when the provider says
+  expires_in?: number;
+}
+
+// Reads a provider API, live or from recorded responses
+export interface DeviceApiClient {
+  get(url: string): Promise<any>;
+}
+
+// A wearable's OAuth app and the API its daily activity is read from
+export interface DeviceProvider {
+  device_type: OAuthDeviceType;
+  name: string;
+  client_id: string;
+  client_secret: string;
+  auth_url: string;
+  token_url: string;
+  scopes: string[];
+  // Extra query parameters of the authorization URL
+  auth_params?: Record<string, string>;
+  // Client credentials as a Basic auth header instead of in the body
+  basic_auth: boolean;
+  pkce: boolean;
+  fetchDay(
+    client: DeviceApiClient,
+    date: string,
+    timezone: string
+  ): Promise<ActivityData | null>;
+}
+
+export const deviceOAuthStartSchema = z.object({
+  return_url: z.string().trim().min(1, "Return URL is required").max(500),
+});
+
+export const deviceOAuthCallbackSchema = z.object({
+  state: z.string().min(1),
+  code: z.string().optional(),
+  error: z.string().optional(),
+  error_description: z.string().optional(),
+});
+
+export type DeviceOAuthCallback = z.infer<typeof deviceOAuthCallbackSchema>;
+
+// Longest series one sync may carry
+export const MAX_SYNC_DAYS = 90;
+export const MAX_SYNC_SAMPLES = 5000;
+
+const amount = z.number().min(0).nullish();
+
+const activityFieldsSchema = z.object({
+  steps: amount,
+  caloriesBurned: amount,
+  activeMinutes: amount,
+  bmr: amount,
+  heartRate: amount,
+  weight: amount,
+  bodyFat: amount,
+  sleepHours: z.number().min(0).max(24).nullish(),
+  distance: amount,
+});
+
+export const activityDaySchema = activityFieldsSchema.extend({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  heartRateMax: amount,
+});
+
+// An intraday reading, counted toward the local day it falls on
+export const activitySampleSchema = z.object({
+  timestamp: z.string().datetime({ offset: true }),
+  steps: amount,
+  caloriesBurned: amount,
+  activeMinutes: amount,
+  distance: amount,
+  heartRate: amount,
+});
+
+/**
+ * What a sync may carry: a single payload for today (what older apps
+ * send), whole days, intraday samples, or a mix. Each sync replaces the
+ * days it covers, so resending a series is harmless.
+ */
+export const deviceSyncSchema = z.object({
+  activityData: activityFieldsSchema.optional(),
+  days: z.array(activityDaySchema).max(MAX_SYNC_DAYS).optional(),
+  samples: z.array(activitySampleSchema).max(MAX_SYNC_SAMPLES).optional(),
+  // Defaults to the user's timezone
+  timezone: z.string().max(100).optional(),
+});
+
+export type DeviceSyncInput = z.infer<typeof deviceSyncSchema>;
+
+// The device a merged metric was taken from
+export interface ActivitySource {
+  device_id: string;
+  device_type: DeviceType;
+  device_name: string;
+}
+
+/**
+ * One day of activity across all the user's devices. Each metric comes
+ * whole from a single device, so nothing two devices both recorded is
+ * counted twice.
+ */
+export interface MergedActivityDay {
+  date: string;
+  steps: number;
+  distance_km: number;
+  active_minutes: number;
+  calories_burned: number;
+  bmr_estimate: number;
+  sleep_hours: number | null;
+  heart_rate_avg: number | null;
+  heart_rate_max: number | null;
+  weight_kg: number | null;
+  body_fat_percentage: number | null;
+  water_intake_ml: number | null;
+  sources: Partial<Record<ActivityMetric, ActivitySource>>;
+}
+
+export const activityMetricSchema = z.nativeEnum(ActivityMetric);
+
+// Device types in the order the user trusts them for a metric
+export const activitySourcePrioritySchema = z.object({
+  sources: z.array(z.nativeEnum(DeviceType)).max(20),
+});
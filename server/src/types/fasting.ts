@@ -0,0 +1,102 @@
+import { z } from "zod";
+import { FastingProtocol, FastingSource, FastingStatus } from "@prisma/client";
+
+const protocolSchema = z.enum([
+  "SIXTEEN_EIGHT",
+  "EIGHTEEN_SIX",
+  "OMAD",
+  "CUSTOM",
+  "YOM_KIPPUR",
+  "TISHA_BAV",
+  "MINOR_FAST",
+  "RAMADAN",
+]);
+
+export const startFastSchema = z
+  .object({
+    protocol: protocolSchema.optional(),
+    target_hours: z.number().min(1).max(72).optional(),
+    // Lets the user start the timer after they already stopped eating
+    started_at: z.string().datetime().optional(),
+    notes: z.string().max(500).optional(),
+  })
+  .refine((data) => data.protocol !== "CUSTOM" || !!data.target_hours, {
+    message: "target_hours is required for a custom fast",
+  });
+
+export const stopFastSchema = z.object({
+  ended_at: z.string().datetime().optional(),
+});
+
+export const fastingHistoryQuerySchema = z.object({
+  status: z.enum(["COMPLETED", "BROKEN"]).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(30),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const fastingWindowsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(14),
+});
+
+export type StartFastInput = z.infer<typeof startFastSchema>;
+export type StopFastInput = z.infer<typeof stopFastSchema>;
+export type FastingHistoryQuery = z.infer<typeof fastingHistoryQuerySchema>;
+export type FastingWindowsQuery = z.infer<typeof fastingWindowsQuerySchema>;
+
+export interface FastingProtocolDefinition {
+  protocol: FastingProtocol;
+  label: { en: string; he: string };
+  fasting_hours: number;
+  // Religious fasts are single days, not a daily eating window
+  eating_window_hours: number | null;
+  religious: boolean;
+}
+
+export interface FastSummary {
+  fast_id: number;
+  protocol: FastingProtocol;
+  source: FastingSource;
+  status: FastingStatus;
+  target_hours: number;
+  started_at: Date;
+  ended_at: Date | null;
+  // Hours fasted so far for an active fast
+  duration_hours: number;
+  progress_percent: number;
+  target_end: Date;
+  broken_by_meal_id: number | null;
+  notes: string | null;
+}
+
+// The span between the first and last meal of a day
+export interface EatingWindow {
+  date: string;
+  first_meal_at: Date;
+  last_meal_at: Date;
+  meal_count: number;
+  window_hours: number;
+  allowed_hours: number | null;
+  violation: boolean;
+}
+
+export interface FastingDaySummary {
+  completed: number;
+  broken: number;
+  longest_hours: number;
+  // Eating windows longer than the protocol plus fasts broken by a meal
+  violations: number;
+}
+
+export interface FastingStats {
+  protocol: FastingProtocolDefinition & { target_hours: number };
+  active: FastSummary | null;
+  completed_fasts: number;
+  broken_fasts: number;
+  current_streak: number;
+  best_streak: number;
+  average_hours: number;
+  longest_hours: number;
+  // Over the last 30 days
+  window_violations: number;
+  completion_rate: number;
+}
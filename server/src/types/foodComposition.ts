@@ -0,0 +1,69 @@
+import { z } from "zod";
+
+export type FoodCompositionSource = "USDA_FDC" | "CUSTOM";
+
+// Nutrient values are per 100g of edible portion
+export interface FoodNutrientsPer100g {
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  fiber_g?: number | null;
+  sugar_g?: number | null;
+  sodium_mg?: number | null;
+  saturated_fats_g?: number | null;
+  monounsaturated_fats_g?: number | null;
+  polyunsaturated_fats_g?: number | null;
+  omega_3_g?: number | null;
+  omega_6_g?: number | null;
+  cholesterol_mg?: number | null;
+  alcohol_g?: number | null;
+  caffeine_mg?: number | null;
+  vitamins_json?: Record<string, number> | null;
+  micronutrients_json?: Record<string, number> | null;
+}
+
+export interface FoodCompositionRecord extends FoodNutrientsPer100g {
+  source: FoodCompositionSource;
+  source_id: string;
+  name_en: string;
+  name_he?: string | null;
+  aliases?: string[];
+  category?: string | null;
+  unit_weight_g?: number | null;
+}
+
+export interface ResolvedIngredientNutrition {
+  food_id: string;
+  food_name: string;
+  match_score: number;
+  portion_g: number;
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  fiber_g: number;
+  sugar_g: number;
+  sodium_mg: number;
+  saturated_fats_g: number;
+  monounsaturated_fats_g: number;
+  polyunsaturated_fats_g: number;
+  omega_3_g: number;
+  omega_6_g: number;
+  cholesterol_mg: number;
+  alcohol_g: number;
+  caffeine_mg: number;
+  vitamins_json: Record<string, number>;
+  micronutrients_json: Record<string, number>;
+}
+
+export const foodSearchSchema = z.object({
+  q: z.string().trim().min(2).max(100),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+export const foodPortionSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  quantity: z.coerce.number().positive().max(100000),
+  unit: z.string().trim().max(30).default("g"),
+});
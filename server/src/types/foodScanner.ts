@@ -0,0 +1,52 @@
+export interface ProductData {
+  barcode?: string;
+  name: string;
+  brand?: string;
+  category: string;
+  nutrition_per_100g: {
+    calories: number;
+    protein: number;
+    carbs: number;
+    fat: number;
+    fiber?: number;
+    sugar?: number;
+    sodium?: number;
+    saturated_fat?: number;
+    trans_fat?: number;
+    cholesterol?: number;
+    potassium?: number;
+    calcium?: number;
+    iron?: number;
+    vitamin_c?: number;
+    vitamin_d?: number;
+  };
+  ingredients: string[];
+  allergens: string[];
+  labels: string[];
+  health_score?: number;
+  nutriscore_grade?: string;
+  image_url?: string;
+  serving_size?: string;
+  servings_per_container?: number;
+}
+
+// A product as read from OpenFoodFacts, with the catalog bookkeeping fields
+export interface OpenFoodFactsProduct extends ProductData {
+  barcode: string;
+  countries: string[];
+  last_modified?: Date;
+}
+
+export interface ProductImportOptions {
+  // countries_tags values to keep, e.g. "en:israel"; empty keeps everything
+  countries: string[];
+  onProgress?: (stats: ProductImportStats) => void;
+}
+
+export interface ProductImportStats {
+  read: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+}
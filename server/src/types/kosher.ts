@@ -0,0 +1,64 @@
+import { z } from "zod";
+
+export const kosherDayQuerySchema = z.object({
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional(),
+});
+
+export type KosherDayQuery = z.infer<typeof kosherDayQuerySchema>;
+
+// Mixed means the food has both meat and dairy in it
+export type KosherCategory = "meat" | "dairy" | "pareve" | "mixed";
+
+export interface KosherClassification {
+  category: KosherCategory;
+  // The words that made the food meat, dairy or not kosher
+  meat: string[];
+  dairy: string[];
+  non_kosher: string[];
+}
+
+export interface KosherSettings {
+  kosher: boolean;
+  meat_dairy_wait_hours: number;
+  dairy_meat_wait_hours: number;
+}
+
+export type KosherWarningType =
+  | "meat_and_dairy"
+  | "non_kosher"
+  | "waiting_time";
+
+export interface KosherWarning {
+  type: KosherWarningType;
+  terms: string[];
+  // Set on waiting time warnings: the earlier meal and how long ago it was
+  previous_meal_id?: number;
+  previous_category?: "meat" | "dairy";
+  hours_since?: number;
+  required_hours?: number;
+}
+
+// Anything that describes a food: a product, a logged meal or a generated one
+export interface KosherFoodSource {
+  name?: string | null;
+  ingredients?: unknown;
+  labels?: unknown;
+}
+
+export interface KosherMealCheck {
+  meal_id: number;
+  meal_name: string | null;
+  eaten_at: Date;
+  category: KosherCategory;
+  warnings: KosherWarning[];
+}
+
+export interface KosherDayReport {
+  date: string;
+  settings: KosherSettings;
+  meals: KosherMealCheck[];
+  warnings_count: number;
+}
@@ -0,0 +1,104 @@
+import { z } from "zod";
+import { MealFeedbackReason, MealFeedbackTarget } from "@prisma/client";
+
+const ratingSchema = z.number().int().min(1).max(5);
+
+// Older app versions send camelCase ratings with 0 for "not rated"
+const LEGACY_RATING_FIELDS: Record<string, string> = {
+  tasteRating: "taste_rating",
+  satietyRating: "satiety_rating",
+  energyRating: "energy_rating",
+  heavinessRating: "heaviness_rating",
+};
+
+function fromLegacyFeedback(body: unknown) {
+  if (!body || typeof body !== "object" || Array.isArray(body)) return body;
+
+  const feedback: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(body)) {
+    const field = LEGACY_RATING_FIELDS[key] || key;
+    if (field.endsWith("_rating") && value === 0) continue;
+    if (feedback[field] === undefined) feedback[field] = value;
+  }
+  return feedback;
+}
+
+export const mealFeedbackSchema = z.preprocess(
+  fromLegacyFeedback,
+  z
+    .object({
+      liked: z.boolean().optional(),
+      taste_rating: ratingSchema.optional(),
+      satiety_rating: ratingSchema.optional(),
+      energy_rating: ratingSchema.optional(),
+      heaviness_rating: ratingSchema.optional(),
+      reasons: z.array(z.nativeEnum(MealFeedbackReason)).max(10).optional(),
+      disliked_ingredients: z
+        .array(z.string().trim().min(1).max(100))
+        .max(20)
+        .optional(),
+      notes: z.string().trim().max(500).optional(),
+    })
+    .refine(
+      (data) => Object.values(data).some((value) => value !== undefined),
+      {
+        message: "Feedback needs a rating, a like or a reason",
+      }
+    )
+);
+
+export const recommendedMealFeedbackSchema = z.preprocess(
+  (body) => {
+    if (!body || typeof body !== "object") return body;
+    const { mealId, meal_id, ...feedback } = body as Record<string, unknown>;
+    return { meal_id: meal_id ?? mealId, feedback };
+  },
+  z.object({
+    meal_id: z.string().min(1),
+    feedback: mealFeedbackSchema,
+  })
+);
+
+export const mealFeedbackQuerySchema = z.object({
+  target: z.nativeEnum(MealFeedbackTarget).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type MealFeedbackInput = z.infer<typeof mealFeedbackSchema>;
+export type MealFeedbackQuery = z.infer<typeof mealFeedbackQuerySchema>;
+
+// The dish a piece of feedback is about
+export interface FeedbackDish {
+  name: string;
+  ingredients: unknown;
+}
+
+export interface DishPreference {
+  name: string;
+  // -1 is disliked, 1 is loved
+  score: number;
+  feedback_count: number;
+}
+
+export interface MealPreferenceProfile {
+  liked_dishes: DishPreference[];
+  disliked_dishes: DishPreference[];
+  liked_ingredients: string[];
+  disliked_ingredients: string[];
+  reasons: Partial<Record<MealFeedbackReason, number>>;
+  // Hints from repeated ratings and reasons
+  prefers_lighter_meals: boolean;
+  prefers_filling_meals: boolean;
+  prefers_quick_meals: boolean;
+  feedback_count: number;
+}
+
+export interface DishCheck {
+  disliked: boolean;
+  // What the dish matched in the profile
+  disliked_matches: string[];
+  liked_matches: string[];
+  // Higher is more to the user's taste, used to rank options
+  score: number;
+}
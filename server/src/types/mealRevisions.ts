@@ -0,0 +1,35 @@
+import { z } from "zod";
+
+const snapshotItemSchema = z.object({
+  item_id: z.number().int(),
+  dish_id: z.string(),
+  name: z.string(),
+  position: z.number().int(),
+  portion_g: z.number().nullable(),
+  servings: z.number(),
+  calories: z.number(),
+  protein_g: z.number(),
+  carbs_g: z.number(),
+  fats_g: z.number(),
+  fiber_g: z.number().nullable(),
+  sugar_g: z.number().nullable(),
+  sodium_mg: z.number().nullable(),
+  ingredients: z.any(),
+});
+
+// A meal's tracked fields and items at one point in time
+export const mealSnapshotSchema = z.object({
+  fields: z.record(z.any()),
+  items: z.array(snapshotItemSchema),
+});
+
+export type MealSnapshot = z.infer<typeof mealSnapshotSchema>;
+export type MealSnapshotItem = z.infer<typeof snapshotItemSchema>;
+
+export type MealFieldChange = {
+  from: unknown;
+  to: unknown;
+};
+
+// Changed fields by name, items as a whole under "items"
+export type MealRevisionChanges = Record<string, MealFieldChange>;
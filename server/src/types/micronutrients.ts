@@ -0,0 +1,61 @@
+import { z } from "zod";
+
+export const micronutrientCoverageSchema = z.object({
+  period: z.enum(["day", "week"]).default("day"),
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional(),
+});
+
+export type MicronutrientCoverageQuery = z.infer<
+  typeof micronutrientCoverageSchema
+>;
+
+export type LifeStageSex = "male" | "female";
+export type PregnancyStatus = "NONE" | "PREGNANT" | "LACTATING";
+
+export interface LifeStage {
+  age: number;
+  // Unspecified uses the higher of the male and female targets
+  sex: LifeStageSex | "unspecified";
+  pregnancy_status: PregnancyStatus;
+  // True when there is no questionnaire and an adult is assumed
+  assumed: boolean;
+}
+
+export type NutrientGroup = "vitamins" | "minerals" | "other";
+
+export interface NutrientTarget {
+  nutrient: string;
+  group: NutrientGroup;
+  unit: "g" | "mg" | "mcg";
+  // RDA or AI for the life stage
+  target: number;
+  target_type: "RDA" | "AI";
+  // Tolerable upper intake level, or the chronic disease risk reduction limit for sodium
+  upper_limit: number | null;
+}
+
+export type CoverageStatus = "deficient" | "low" | "adequate" | "excess";
+
+export interface NutrientCoverage extends NutrientTarget {
+  intake: number;
+  percent_of_target: number;
+  status: CoverageStatus;
+}
+
+export interface MicronutrientCoverage {
+  period: "day" | "week";
+  start_date: string;
+  end_date: string;
+  // Intake is a daily average over the days that have logged meals
+  days_logged: number;
+  meals_logged: number;
+  // Meals whose analysis included vitamin and mineral values
+  meals_with_micronutrients: number;
+  life_stage: LifeStage;
+  nutrients: NutrientCoverage[];
+  deficiencies: string[];
+  excesses: string[];
+}
@@ -1,5 +1,119 @@
 import { z } from "zod";
 
+// A low-confidence analysis asks at most this many follow-up questions
+export const MAX_CLARIFYING_QUESTIONS = 3;
+
+export const CLARIFYING_QUESTION_KINDS = [
+  "CHOICE",
+  "YES_NO",
+  "AMOUNT",
+] as const;
+export const CLARIFYING_AMOUNT_UNITS = ["g", "ml", "pieces"] as const;
+
+export type ClarifyingQuestionKind = (typeof CLARIFYING_QUESTION_KINDS)[number];
+export type ClarifyingAmountUnit = (typeof CLARIFYING_AMOUNT_UNITS)[number];
+
+export interface ClarifyingQuestion {
+  id: string;
+  kind: ClarifyingQuestionKind;
+  question: string;
+  // Choices for CHOICE questions
+  options?: string[];
+  // The ingredient the question is about, if any
+  ingredient?: string;
+  // AMOUNT questions: unit and the current estimate
+  unit?: ClarifyingAmountUnit;
+  default_value?: number;
+}
+
+// The question is sent back with its answer, the server keeps no state
+export const clarificationAnswerSchema = z.object({
+  id: z.string().min(1).max(50),
+  kind: z.enum(CLARIFYING_QUESTION_KINDS),
+  question: z.string().trim().min(1).max(300),
+  ingredient: z.string().trim().max(100).optional(),
+  unit: z.enum(CLARIFYING_AMOUNT_UNITS).optional(),
+  answer: z.union([
+    z.string().trim().min(1).max(200),
+    z.number().positive().max(5000),
+    z.boolean(),
+  ]),
+});
+
+// A multi-dish photo is split into at most this many dishes
+export const MAX_DETECTED_DISHES = 12;
+
+export const detectedDishSchema = z.object({
+  dish_id: z.string().min(1).max(50),
+  name: z.string().min(1).max(200),
+  portion_g: z.number().positive().nullable(),
+  calories: z.number().min(0),
+  protein_g: z.number().min(0),
+  carbs_g: z.number().min(0),
+  fats_g: z.number().min(0),
+  fiber_g: z.number().min(0),
+  sugar_g: z.number().min(0),
+  sodium_mg: z.number().min(0),
+  ingredients: z.array(z.any()).default([]),
+});
+
+// Stored on the meal so a selection can always start from the whole plate
+export const detectedDishesSchema = z.object({
+  meal_name: z.string(),
+  dishes: z.array(detectedDishSchema).min(2).max(MAX_DETECTED_DISHES),
+  // The plate's other nutrients, scaled down with the selection
+  plate: z.record(z.any()),
+});
+
+export const dishSelectionSchema = z.object({
+  mode: z.enum(["COMBINED", "ITEMS"]),
+  items: z
+    .array(
+      z.object({
+        dish_id: z.string().min(1).max(50),
+        portion_g: z.number().positive().max(5000).optional(),
+        servings: z.number().positive().max(20).optional(),
+      })
+    )
+    .min(1, "Select at least one dish")
+    .max(MAX_DETECTED_DISHES)
+    .refine(
+      (items) =>
+        new Set(items.map((item) => item.dish_id)).size === items.length,
+      { message: "Each dish can be selected once" }
+    ),
+});
+
+export const afterPhotoSchema = z.object({
+  imageBase64: z.string().min(1, "Image is required"),
+  language: z.enum(["english", "hebrew"]).default("english"),
+});
+
+// How much of an ingredient was left, 0 is finished and 1 untouched
+export const leftoverSchema = z.object({
+  name: z.string(),
+  leftover_fraction: z.number().min(0).max(1),
+});
+
+const servedItemSchema = z.object({
+  item_id: z.number().int(),
+  portion_g: z.number().nullable(),
+  nutrients: z.record(z.number()),
+  ingredients: z.array(z.any()),
+});
+
+// Stored on the meal so a new after photo scales from what was served
+export const plateWasteSchema = z.object({
+  served: z.object({
+    fields: z.record(z.any()),
+    ingredients: z.array(z.any()),
+    items: z.array(servedItemSchema),
+  }),
+  leftovers: z.array(leftoverSchema),
+  // For leftovers the estimate couldn't tie to an ingredient
+  plate_leftover_fraction: z.number().min(0).max(1).nullable(),
+});
+
 export const mealAnalysisSchema = z.object({
   imageBase64: z.string().min(1, "Image is required"),
   language: z.enum(["english", "hebrew"]).default("english"),
@@ -9,8 +123,21 @@ export const mealAnalysisSchema = z.object({
     .optional(),
   updateText: z.string().optional(), // For meal updates
   editedIngredients: z.array(z.any()).default([]), // For user-edited ingredients
+  clarifications: z
+    .array(clarificationAnswerSchema)
+    .max(MAX_CLARIFYING_QUESTIONS)
+    .default([]), // Answers to the analysis' follow-up questions
 });
 
+export const mealAnalysisJobSchema = mealAnalysisSchema
+  .extend({
+    imageBase64: z.string().optional(),
+    meal_id: z.coerce.number().int().positive().optional(), // Re-analyze an existing meal
+  })
+  .refine((data) => !!data.imageBase64?.trim() || !!data.meal_id, {
+    message: "Image or meal ID is required",
+  });
+
 export const mealUpdateSchema = z.object({
   meal_id: z.string().min(1, "Meal ID is required"),
   updateText: z.string().min(1, "Update text is required"),
@@ -28,13 +155,22 @@ export const mealSchema = z.object({
   fats_g: z.number().nullable(),
   fiber_g: z.number().nullable(),
   sugar_g: z.number().nullable(),
-  analysis_status: z.enum(["PENDING", "COMPLETED"]),
+  analysis_status: z.enum(["PENDING", "PROCESSING", "COMPLETED", "FAILED"]),
   upload_time: z.date(),
   created_at: z.date(),
 });
 
 export type MealAnalysisInput = z.infer<typeof mealAnalysisSchema>;
+export type MealAnalysisJobInput = z.infer<typeof mealAnalysisJobSchema>;
 export type MealUpdateInput = z.infer<typeof mealUpdateSchema>;
+export type ClarificationAnswer = z.infer<typeof clarificationAnswerSchema>;
+export type DetectedDish = z.infer<typeof detectedDishSchema>;
+export type DetectedDishes = z.infer<typeof detectedDishesSchema>;
+export type DishSelectionInput = z.infer<typeof dishSelectionSchema>;
+export type AfterPhotoInput = z.infer<typeof afterPhotoSchema>;
+export type Leftover = z.infer<typeof leftoverSchema>;
+export type PlateWaste = z.infer<typeof plateWasteSchema>;
+export type ServedMeal = PlateWaste["served"];
 export type Meal = z.infer<typeof mealSchema>;
 
 export const directMealUpdateSchema = z.object({
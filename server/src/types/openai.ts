@@ -1,3 +1,5 @@
+import { ClarifyingQuestion, Leftover } from "./nutrition";
+
 type Ingredient = {
   protein: number;
   carbs: number;
@@ -26,6 +28,11 @@ type Ingredient = {
   fiber_g?: number;
   sugar_g?: number;
   sodium_mg?: number;
+  estimated_portion_g?: number;
+  // Set when nutrients come from the food composition table
+  food_id?: string;
+  food_name?: string;
+  nutrition_source?: "food_db" | "ai";
 };
 
 export interface MealAnalysisResult {
@@ -74,6 +81,11 @@ export interface MealAnalysisResult {
   cooking_method?: string;
   health_risk_notes?: string;
 
+  // Follow-up questions when the photo leaves the meal ambiguous
+  clarifying_questions?: ClarifyingQuestion[];
+  // Raw per-dish breakdown of a multi-dish photo, see lib/dishes
+  dishes?: any[];
+
   // Legacy fields for compatibility
   confidence: number;
   ingredients: Ingredient[];
@@ -82,6 +94,12 @@ export interface MealAnalysisResult {
   healthNotes: string;
 }
 
+// What the "after" photo of a meal shows was left on the plate
+export interface PlateWasteResult {
+  leftovers: Leftover[];
+  plate_leftover_fraction: number | null;
+}
+
 export interface MealPlanRequest {
   age: number;
   weight_kg: number;
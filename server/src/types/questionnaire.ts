@@ -43,6 +43,10 @@ export const questionnaireSchema = z.object({
           : val
         : null
     ),
+  pregnancy_status: z
+    .enum(["NONE", "PREGNANT", "LACTATING"])
+    .optional()
+    .nullable(),
   additional_personal_info: z.array(z.string()).default([]),
 
   // Goals - main_goal is required
@@ -134,6 +138,34 @@ export const questionnaireSchema = z.object({
 
   // Dietary preferences and restrictions - required fields
   kosher: z.boolean().default(false),
+  kosher_meat_dairy_wait_hours: z
+    .union([z.number(), z.string()])
+    .optional()
+    .nullable()
+    .transform((val) =>
+      val !== undefined && val !== null && val !== ""
+        ? typeof val === "string"
+          ? parseFloat(val)
+          : val
+        : null
+    )
+    .refine((val) => val === null || (val >= 0 && val <= 24), {
+      message: "Waiting time must be between 0 and 24 hours",
+    }),
+  kosher_dairy_meat_wait_hours: z
+    .union([z.number(), z.string()])
+    .optional()
+    .nullable()
+    .transform((val) =>
+      val !== undefined && val !== null && val !== ""
+        ? typeof val === "string"
+          ? parseFloat(val)
+          : val
+        : null
+    )
+    .refine((val) => val === null || (val >= 0 && val <= 24), {
+      message: "Waiting time must be between 0 and 24 hours",
+    }),
   allergies: z.array(z.string()).default([]),
   allergies_text: z.array(z.string()).default([]),
   dietary_style: z.string().min(1, "Dietary style is required"),
@@ -0,0 +1,89 @@
+import { MealTiming } from "@prisma/client";
+import { z } from "zod";
+
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+// Nutrients entered by hand for ingredients no database knows
+const manualNutritionSchema = z.object({
+  calories: z.number().min(0),
+  protein_g: z.number().min(0).default(0),
+  carbs_g: z.number().min(0).default(0),
+  fats_g: z.number().min(0).default(0),
+  fiber_g: z.number().min(0).optional(),
+  sugar_g: z.number().min(0).optional(),
+  sodium_mg: z.number().min(0).optional(),
+});
+
+export const recipeIngredientSchema = z
+  .object({
+    source: z.enum(["product", "template", "food", "text"]).default("text"),
+    product_id: z.number().int().positive().optional(),
+    template_id: z.string().optional(),
+    food_id: z.string().optional(),
+    name: z.string().trim().min(1).max(200),
+    quantity: z.number().positive().max(100000),
+    // Templates are counted in servings, everything else by weight or volume
+    unit: z.string().trim().max(30).default("g"),
+    nutrition: manualNutritionSchema.optional(),
+  })
+  .refine((data) => data.source !== "product" || !!data.product_id, {
+    message: "product_id is required for product ingredients",
+  })
+  .refine((data) => data.source !== "template" || !!data.template_id, {
+    message: "template_id is required for template ingredients",
+  })
+  .refine((data) => data.source !== "food" || !!data.food_id, {
+    message: "food_id is required for food ingredients",
+  });
+
+export const recipeSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(2000).optional(),
+  instructions: z.string().max(10000).optional(),
+  servings: z.number().positive().max(100),
+  ingredients: z.array(recipeIngredientSchema).min(1).max(100),
+});
+
+export const recipeUpdateSchema = recipeSchema.partial();
+
+export const logRecipeSchema = z.object({
+  servings: z.number().positive().max(50).default(1),
+  date: dateSchema.optional(),
+});
+
+export const addRecipeToPlanSchema = z.object({
+  plan_id: z.string().min(1),
+  day_of_week: z.number().int().min(0).max(6),
+  meal_timing: z.nativeEnum(MealTiming),
+  meal_order: z.number().int().min(1).default(1),
+  servings: z.number().positive().max(20).default(1),
+});
+
+export type RecipeInput = z.infer<typeof recipeSchema>;
+export type RecipeIngredientInput = z.infer<typeof recipeIngredientSchema>;
+export type AddRecipeToPlanInput = z.infer<typeof addRecipeToPlanSchema>;
+
+export interface RecipeNutrition {
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  fiber_g: number;
+  sugar_g: number;
+  sodium_mg: number;
+}
+
+// A recipe ingredient as stored on a version, with its resolved nutrients
+export interface ResolvedRecipeIngredient extends RecipeNutrition {
+  source: RecipeIngredientInput["source"];
+  product_id?: number;
+  template_id?: string;
+  food_id?: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  grams: number | null;
+  nutrition_source: "product" | "template" | "food_db" | "manual";
+}
@@ -64,3 +64,56 @@ export interface DailyBreakdown {
   satiety?: string;
   meal_quality?: number;
 }
+
+export type ReportLanguage = "en" | "he";
+
+export interface NutritionReportTopFood {
+  name: string;
+  times_logged: number;
+  average_calories: number;
+  total_calories: number;
+}
+
+export interface NutritionReportData {
+  language: ReportLanguage;
+  userName: string;
+  startDate: string;
+  endDate: string;
+  generatedAt: Date;
+  averages: {
+    calories: number;
+    protein: number;
+    carbs: number;
+    fats: number;
+    fiber: number;
+    sugar: number;
+    sodium: number;
+    fluids: number;
+  };
+  streaks: {
+    currentStreak: number;
+    bestStreak: number;
+    perfectDays: number;
+    successfulDays: number;
+    level: number;
+    totalPoints: number;
+  };
+  dailyBreakdown: (DailyBreakdown & {
+    meals_count: number;
+    goal: {
+      calories: number;
+      protein_g: number;
+      carbs_g: number;
+      fats_g: number;
+      water_ml: number;
+    } | null;
+  })[];
+  achievements: {
+    title: string;
+    unlocked: boolean;
+    unlockedDate?: string;
+    progress: number;
+    maxProgress: number;
+  }[];
+  topFoods: NutritionReportTopFood[];
+}
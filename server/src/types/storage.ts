@@ -0,0 +1,14 @@
+/**
+ * Minimal blob storage contract used for user uploads. Keys are slash
+ * separated paths ("meals/<user_id>/<id>/thumbnail.jpg") and never start
+ * with a slash.
+ */
+export interface BlobStore {
+  readonly name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(keys: string[]): Promise<void>;
+  deletePrefix(prefix: string): Promise<void>;
+  // A URL the client can fetch without auth headers until it expires
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
@@ -0,0 +1,71 @@
+import { z } from "zod";
+import { WeighInSource } from "@prisma/client";
+
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+export const weighInSchema = z.object({
+  weight_kg: z.number().min(20).max(400),
+  body_fat_percentage: z.number().min(2).max(75).optional(),
+  // Defaults to now, can be set to log an earlier weigh-in
+  measured_at: z.string().datetime().optional(),
+  notes: z.string().max(500).optional(),
+});
+
+export const weighInQuerySchema = z.object({
+  start_date: dateSchema.optional(),
+  end_date: dateSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(200),
+});
+
+export const weightTrendQuerySchema = z.object({
+  days: z.coerce.number().int().min(7).max(730).default(90),
+});
+
+export type WeighInInput = z.infer<typeof weighInSchema>;
+export type WeighInQuery = z.infer<typeof weighInQuerySchema>;
+export type WeightTrendQuery = z.infer<typeof weightTrendQuerySchema>;
+
+export interface DeviceWeightReading {
+  device_id: string;
+  weight_kg: number;
+  body_fat_percentage?: number | null;
+  measured_at: Date;
+}
+
+export interface WeightTrendPoint {
+  date: string;
+  // Mean of the day's weigh-ins
+  weight_kg: number;
+  trend_kg: number;
+}
+
+export type WeightProjectionStatus =
+  | "no_target"
+  | "not_enough_data"
+  | "reached"
+  | "on_track"
+  | "behind"
+  | "moving_away";
+
+export interface WeightProjection {
+  target_weight_kg: number | null;
+  // When the questionnaire goal timeframe runs out
+  goal_date: string | null;
+  projected_date: string | null;
+  remaining_kg: number | null;
+  // Rate needed to reach the target by the goal date
+  required_weekly_rate_kg: number | null;
+  status: WeightProjectionStatus;
+}
+
+export interface WeightTrend {
+  points: WeightTrendPoint[];
+  latest_weight_kg: number | null;
+  trend_weight_kg: number | null;
+  // Change of the trend line per week, negative when losing
+  weekly_rate_kg: number | null;
+  projection: WeightProjection;
+  sources: Record<WeighInSource, number>;
+}
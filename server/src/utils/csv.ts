@@ -0,0 +1,88 @@
+import fs from "fs";
+import readline from "readline";
+
+/**
+ * Splits one CSV record into fields. Handles quoted fields with escaped
+ * quotes ("") and any single-character delimiter.
+ */
+export function parseCsvLine(line: string, delimiter = ","): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  fields.push(current);
+  return fields;
+}
+
+function hasOpenQuote(record: string) {
+  return (record.match(/"/g)?.length || 0) % 2 === 1;
+}
+
+/**
+ * Streams a delimited file row by row as objects keyed by the header row, so
+ * multi-gigabyte exports never have to fit in memory. Quoted fields may span
+ * lines.
+ */
+export async function* readCsvRecords(
+  filePath: string,
+  options: { delimiter?: string } = {}
+): AsyncGenerator<Record<string, string>> {
+  const delimiter =
+    options.delimiter || (filePath.endsWith(".tsv") ? "\t" : ",");
+
+  const lines = readline.createInterface({
+    input: fs.createReadStream(filePath, { encoding: "utf8" }),
+    crlfDelay: Infinity,
+  });
+
+  let headers: string[] | null = null;
+  let pending = "";
+
+  for await (const line of lines) {
+    // Tab separated dumps (e.g. OpenFoodFacts) don't quote fields
+    const record = pending ? `${pending}\n${line}` : line;
+    if (delimiter !== "\t" && hasOpenQuote(record)) {
+      pending = record;
+      continue;
+    }
+    pending = "";
+
+    if (!record.trim()) continue;
+
+    const fields =
+      delimiter === "\t" ? record.split("\t") : parseCsvLine(record, delimiter);
+
+    if (!headers) {
+      headers = fields.map((header) => header.replace(/^﻿/, "").trim());
+      continue;
+    }
+
+    const row: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      row[header] = fields[index] ?? "";
+    });
+    yield row;
+  }
+}
@@ -103,7 +103,7 @@ export function mapMealDataToPrismaFields(
 
   return {
     user_id,
-    image_url: imageBase64 ? `data:image/jpeg;base64,${imageBase64}` : "",
+    image_url: imageBase64 ? `data:image/jpeg;base64,${imageBase64}` : null,
     upload_time: new Date(),
     analysis_status: AnalysisStatus.COMPLETED,
     meal_name: mealData.meal_name ?? mealData.name ?? "Unknown meal",
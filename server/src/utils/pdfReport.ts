@@ -0,0 +1,911 @@
+import fs from "fs";
+import PDFDocument from "pdfkit";
+import { NutritionReportData, ReportLanguage } from "../types/statistics";
+
+const PAGE_MARGIN = 50;
+const COLORS = {
+  primary: "#16A085",
+  text: "#2C3E50",
+  muted: "#7F8C8D",
+  grid: "#ECF0F1",
+  calories: "#E74C3C",
+  protein: "#3498DB",
+  carbs: "#F39C12",
+  fats: "#9B59B6",
+  water: "#1ABC9C",
+  goal: "#34495E",
+  good: "#2ECC71",
+  warning: "#E67E22",
+};
+
+// Fonts with Hebrew glyphs, tried in order when REPORT_FONT_PATH is not set
+const FONT_CANDIDATES = [
+  "/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf",
+  "/usr/share/fonts/truetype/noto/NotoSansHebrew-Regular.ttf",
+  "/usr/share/fonts/opentype/noto/NotoSansHebrew-Regular.ttf",
+  "/Library/Fonts/Arial Unicode.ttf",
+  "C:\\Windows\\Fonts\\arial.ttf",
+];
+const BOLD_FONT_CANDIDATES = [
+  "/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf",
+  "/usr/share/fonts/truetype/noto/NotoSansHebrew-Bold.ttf",
+  "/usr/share/fonts/opentype/noto/NotoSansHebrew-Bold.ttf",
+  "C:\\Windows\\Fonts\\arialbd.ttf",
+];
+
+export const HEBREW_FONT_MISSING =
+  "Hebrew reports are not configured on the server";
+
+const LABELS = {
+  en: {
+    title: "Nutrition Report",
+    preparedFor: "Prepared for",
+    period: "Period",
+    generated: "Generated",
+    summary: "Daily Averages",
+    calories: "Calories",
+    protein: "Protein",
+    carbs: "Carbohydrates",
+    fats: "Fats",
+    fiber: "Fiber",
+    sugar: "Sugar",
+    sodium: "Sodium",
+    fluids: "Fluids",
+    progress: "Streaks & Progress",
+    currentStreak: "Current streak",
+    bestStreak: "Best streak",
+    perfectDays: "Perfect days",
+    successfulDays: "Successful days",
+    level: "Level",
+    totalPoints: "Total points",
+    daysLogged: "Days logged",
+    daysOnTarget: "Days within calorie goal",
+    calorieTrend: "Calorie Trend",
+    macroTrend: "Macronutrient Trend",
+    adherence: "Daily Goal Adherence",
+    date: "Date",
+    goal: "Goal",
+    meals: "Meals",
+    water: "Water",
+    waterIntake: "Water Intake",
+    achievements: "Achievements",
+    unlockedOn: "Unlocked",
+    inProgress: "In progress",
+    noAchievements: "No achievements unlocked in this period yet.",
+    topFoods: "Top Foods",
+    food: "Food",
+    timesLogged: "Times logged",
+    avgCalories: "Avg kcal",
+    totalCalories: "Total kcal",
+    noData: "No meals were logged in this period.",
+    kcal: "kcal",
+    g: "g",
+    mg: "mg",
+    ml: "ml",
+    days: "days",
+    page: "Page",
+  },
+  he: {
+    title: "דוח תזונה",
+    preparedFor: "הוכן עבור",
+    period: "תקופה",
+    generated: "הופק",
+    summary: "ממוצעים יומיים",
+    calories: "קלוריות",
+    protein: "חלבון",
+    carbs: "פחמימות",
+    fats: "שומנים",
+    fiber: "סיבים תזונתיים",
+    sugar: "סוכרים",
+    sodium: "נתרן",
+    fluids: "נוזלים",
+    progress: "רצפים והתקדמות",
+    currentStreak: "רצף נוכחי",
+    bestStreak: "הרצף הטוב ביותר",
+    perfectDays: "ימים מושלמים",
+    successfulDays: "ימים מוצלחים",
+    level: "רמה",
+    totalPoints: 'סה"כ נקודות',
+    daysLogged: "ימים מתועדים",
+    daysOnTarget: "ימים בטווח יעד הקלוריות",
+    calorieTrend: "מגמת קלוריות",
+    macroTrend: "מגמת מקרו נוטריינטים",
+    adherence: "עמידה ביעדים יומיים",
+    date: "תאריך",
+    goal: "יעד",
+    meals: "ארוחות",
+    water: "מים",
+    waterIntake: "צריכת מים",
+    achievements: "הישגים",
+    unlockedOn: "נפתח",
+    inProgress: "בתהליך",
+    noAchievements: "עדיין לא נפתחו הישגים בתקופה זו.",
+    topFoods: "המזונות הנפוצים",
+    food: "מזון",
+    timesLogged: "פעמים",
+    avgCalories: 'ממוצע קק"ל',
+    totalCalories: 'סה"כ קק"ל',
+    noData: "לא תועדו ארוחות בתקופה זו.",
+    kcal: 'קק"ל',
+    g: "גר׳",
+    mg: 'מ"ג',
+    ml: 'מ"ל',
+    days: "ימים",
+    page: "עמוד",
+  },
+};
+
+type Labels = (typeof LABELS)["en"];
+
+interface TableColumn {
+  header: string;
+  width: number;
+}
+
+function resolveFont(envPath: string | undefined, candidates: string[]) {
+  if (envPath && fs.existsSync(envPath)) return envPath;
+  return candidates.find((candidate) => fs.existsSync(candidate));
+}
+
+/**
+ * pdfkit lays glyphs out left to right, so Hebrew runs are reordered into
+ * visual order here. Latin words and numbers keep their own direction.
+ */
+function toVisualOrder(text: string): string {
+  if (!/[\u0590-\u05FF]/.test(text)) return text;
+
+  const runs =
+    text.match(
+      /[\u0590-\u05FF]+|[A-Za-z0-9](?:[^\u0590-\u05FF]*[A-Za-z0-9%)])?|[^\u0590-\u05FFA-Za-z0-9]+/g
+    ) || [];
+
+  return runs
+    .reverse()
+    .map((run) =>
+      /^[A-Za-z0-9]/.test(run) ? run : Array.from(run).reverse().join("")
+    )
+    .join("");
+}
+
+function formatNumber(value: number, digits = 0): string {
+  return (Number(value) || 0).toFixed(digits);
+}
+
+function shortDate(date: string): string {
+  const [, month, day] = date.split("-");
+  return `${day}/${month}`;
+}
+
+class ReportWriter {
+  private doc: PDFKit.PDFDocument;
+  private labels: Labels;
+  private isRTL: boolean;
+  private regularFont: string;
+  private boldFont: string;
+  private y: number = PAGE_MARGIN;
+
+  constructor(doc: PDFKit.PDFDocument, language: ReportLanguage) {
+    this.doc = doc;
+    this.labels = LABELS[language];
+    this.isRTL = language === "he";
+
+    const regular = resolveFont(process.env.REPORT_FONT_PATH, FONT_CANDIDATES);
+    const bold = resolveFont(
+      process.env.REPORT_FONT_BOLD_PATH,
+      BOLD_FONT_CANDIDATES
+    );
+
+    if (!regular && this.isRTL) throw new Error(HEBREW_FONT_MISSING);
+
+    if (regular) {
+      doc.registerFont("report-regular", regular);
+      doc.registerFont("report-bold", bold || regular);
+      this.regularFont = "report-regular";
+      this.boldFont = "report-bold";
+    } else {
+      this.regularFont = "Helvetica";
+      this.boldFont = "Helvetica-Bold";
+    }
+  }
+
+  get t(): Labels {
+    return this.labels;
+  }
+
+  private get contentWidth(): number {
+    return this.doc.page.width - PAGE_MARGIN * 2;
+  }
+
+  private get bottom(): number {
+    return this.doc.page.height - PAGE_MARGIN;
+  }
+
+  /** Mirrors a left-based x offset inside [x, x + width] for RTL pages. */
+  private mirrorX(x: number, width: number): number {
+    if (!this.isRTL) return x;
+    return this.doc.page.width - x - width;
+  }
+
+  private write(
+    text: string,
+    x: number,
+    y: number,
+    width: number,
+    options: {
+      size?: number;
+      bold?: boolean;
+      color?: string;
+      align?: "left" | "right" | "center";
+    } = {}
+  ) {
+    const align =
+      options.align === "center"
+        ? "center"
+        : this.isRTL
+        ? options.align === "right"
+          ? "left"
+          : "right"
+        : options.align || "left";
+
+    this.doc
+      .font(options.bold ? this.boldFont : this.regularFont)
+      .fontSize(options.size || 10)
+      .fillColor(options.color || COLORS.text)
+      .text(toVisualOrder(text), this.mirrorX(x, width), y, {
+        width,
+        align,
+        lineBreak: false,
+        ellipsis: true,
+      });
+  }
+
+  ensureSpace(height: number) {
+    if (this.y + height > this.bottom) {
+      this.addPage();
+    }
+  }
+
+  addPage() {
+    this.doc.addPage();
+    this.y = PAGE_MARGIN;
+  }
+
+  header(data: NutritionReportData) {
+    this.doc.rect(0, 0, this.doc.page.width, 110).fill(COLORS.primary);
+    this.write(this.t.title, PAGE_MARGIN, 35, this.contentWidth, {
+      size: 24,
+      bold: true,
+      color: "#FFFFFF",
+    });
+    this.write(
+      `${this.t.preparedFor}: ${data.userName}`,
+      PAGE_MARGIN,
+      68,
+      this.contentWidth,
+      { size: 11, color: "#FFFFFF" }
+    );
+    this.write(
+      `${this.t.period}: ${data.startDate} - ${data.endDate}`,
+      PAGE_MARGIN,
+      85,
+      this.contentWidth / 2,
+      { size: 10, color: "#FFFFFF" }
+    );
+    this.write(
+      `${this.t.generated}: ${data.generatedAt.toISOString().split("T")[0]}`,
+      PAGE_MARGIN + this.contentWidth / 2,
+      85,
+      this.contentWidth / 2,
+      { size: 10, color: "#FFFFFF", align: "right" }
+    );
+    this.y = 135;
+  }
+
+  sectionTitle(title: string) {
+    this.ensureSpace(40);
+    this.write(title, PAGE_MARGIN, this.y, this.contentWidth, {
+      size: 15,
+      bold: true,
+      color: COLORS.primary,
+    });
+    this.y += 22;
+    this.doc
+      .moveTo(PAGE_MARGIN, this.y)
+      .lineTo(PAGE_MARGIN + this.contentWidth, this.y)
+      .lineWidth(1)
+      .strokeColor(COLORS.grid)
+      .stroke();
+    this.y += 10;
+  }
+
+  note(text: string) {
+    this.ensureSpace(20);
+    this.write(text, PAGE_MARGIN, this.y, this.contentWidth, {
+      size: 10,
+      color: COLORS.muted,
+    });
+    this.y += 20;
+  }
+
+  /** Grid of metric cards, `perRow` per line. */
+  metricCards(
+    cards: { label: string; value: string; color: string }[],
+    perRow = 4
+  ) {
+    const gap = 10;
+    const cardWidth = (this.contentWidth - gap * (perRow - 1)) / perRow;
+    const cardHeight = 52;
+
+    cards.forEach((card, index) => {
+      const column = index % perRow;
+      if (column === 0) {
+        if (index > 0) this.y += cardHeight + gap;
+        this.ensureSpace(cardHeight);
+      }
+      const x = PAGE_MARGIN + column * (cardWidth + gap);
+      const boxX = this.mirrorX(x, cardWidth);
+
+      this.doc
+        .roundedRect(boxX, this.y, cardWidth, cardHeight, 6)
+        .fill("#F8F9FA");
+      this.doc.rect(boxX, this.y, 4, cardHeight).fill(card.color);
+      this.write(card.label, x + 10, this.y + 9, cardWidth - 16, {
+        size: 9,
+        color: COLORS.muted,
+      });
+      this.write(card.value, x + 10, this.y + 26, cardWidth - 16, {
+        size: 14,
+        bold: true,
+      });
+    });
+
+    this.y += cardHeight + 20;
+  }
+
+  /**
+   * Vertical bars per day with an optional goal marker per bar. Time runs
+   * left to right in both languages so charts read the same for a dietitian.
+   */
+  barChart(
+    points: { label: string; value: number; goal?: number | null }[],
+    color: string,
+    unit: string
+  ) {
+    const height = 170;
+    this.ensureSpace(height + 30);
+
+    const chartX = PAGE_MARGIN + 35;
+    const chartWidth = this.contentWidth - 35;
+    const top = this.y;
+    const maxValue = Math.max(
+      1,
+      ...points.map((point) => Math.max(point.value, point.goal || 0))
+    );
+
+    this.drawGrid(chartX, top, chartWidth, height, maxValue, unit);
+
+    const slot = chartWidth / Math.max(points.length, 1);
+    const barWidth = Math.max(2, Math.min(24, slot * 0.6));
+    const labelEvery = Math.ceil(points.length / 14);
+
+    points.forEach((point, index) => {
+      const x = chartX + index * slot + (slot - barWidth) / 2;
+      const barHeight = (point.value / maxValue) * height;
+      if (barHeight > 0) {
+        this.doc
+          .rect(x, top + height - barHeight, barWidth, barHeight)
+          .fill(color);
+      }
+      if (point.goal) {
+        const goalY = top + height - (point.goal / maxValue) * height;
+        this.doc
+          .moveTo(x - 2, goalY)
+          .lineTo(x + barWidth + 2, goalY)
+          .lineWidth(1.5)
+          .strokeColor(COLORS.goal)
+          .stroke();
+      }
+      if (index % labelEvery === 0) {
+        this.doc
+          .font(this.regularFont)
+          .fontSize(7)
+          .fillColor(COLORS.muted)
+          .text(point.label, chartX + index * slot, top + height + 4, {
+            width: slot * labelEvery,
+            align: "left",
+            lineBreak: false,
+          });
+      }
+    });
+
+    this.y = top + height + 26;
+  }
+
+  lineChart(
+    labels: string[],
+    series: { name: string; values: number[]; color: string }[],
+    unit: string
+  ) {
+    const height = 170;
+    this.ensureSpace(height + 50);
+
+    const chartX = PAGE_MARGIN + 35;
+    const chartWidth = this.contentWidth - 35;
+    const top = this.y;
+    const maxValue = Math.max(1, ...series.flatMap((line) => line.values));
+
+    this.drawGrid(chartX, top, chartWidth, height, maxValue, unit);
+
+    const step = labels.length > 1 ? chartWidth / (labels.length - 1) : 0;
+    const pointAt = (index: number, value: number): [number, number] => [
+      chartX + (labels.length > 1 ? index * step : chartWidth / 2),
+      top + height - (value / maxValue) * height,
+    ];
+
+    series.forEach((line) => {
+      line.values.forEach((value, index) => {
+        const [x, y] = pointAt(index, value);
+        if (index === 0) this.doc.moveTo(x, y);
+        else this.doc.lineTo(x, y);
+      });
+      this.doc.lineWidth(2).strokeColor(line.color).stroke();
+      line.values.forEach((value, index) => {
+        const [x, y] = pointAt(index, value);
+        this.doc.circle(x, y, 2).fill(line.color);
+      });
+    });
+
+    const labelEvery = Math.ceil(labels.length / 14);
+    labels.forEach((label, index) => {
+      if (index % labelEvery !== 0) return;
+      const [x] = pointAt(index, 0);
+      this.doc
+        .font(this.regularFont)
+        .fontSize(7)
+        .fillColor(COLORS.muted)
+        .text(label, x - 15, top + height + 4, {
+          width: 30,
+          align: "center",
+          lineBreak: false,
+        });
+    });
+
+    this.y = top + height + 22;
+    this.legend(series.map((line) => ({ name: line.name, color: line.color })));
+  }
+
+  legend(items: { name: string; color: string }[]) {
+    const itemWidth = 110;
+    items.forEach((item, index) => {
+      const x = PAGE_MARGIN + index * itemWidth;
+      this.doc.rect(this.mirrorX(x, 10), this.y + 2, 10, 10).fill(item.color);
+      this.write(item.name, x + 14, this.y + 2, itemWidth - 20, { size: 9 });
+    });
+    this.y += 28;
+  }
+
+  private drawGrid(
+    x: number,
+    top: number,
+    width: number,
+    height: number,
+    maxValue: number,
+    unit: string
+  ) {
+    const steps = 4;
+    for (let i = 0; i <= steps; i++) {
+      const y = top + (height / steps) * i;
+      this.doc
+        .moveTo(x, y)
+        .lineTo(x + width, y)
+        .lineWidth(0.5)
+        .strokeColor(COLORS.grid)
+        .stroke();
+      this.doc
+        .font(this.regularFont)
+        .fontSize(7)
+        .fillColor(COLORS.muted)
+        .text(
+          formatNumber(maxValue - (maxValue / steps) * i),
+          PAGE_MARGIN,
+          y - 4,
+          { width: 30, align: "right", lineBreak: false }
+        );
+    }
+    this.doc
+      .font(this.regularFont)
+      .fontSize(7)
+      .fillColor(COLORS.muted)
+      .text(toVisualOrder(unit), PAGE_MARGIN, top - 14, {
+        width: 30,
+        align: "right",
+        lineBreak: false,
+      });
+  }
+
+  /**
+   * Table that continues on a new page (repeating the header row) when it
+   * runs past the bottom margin. Column order is mirrored for RTL.
+   */
+  table(columns: TableColumn[], rows: { cells: string[]; color?: string }[]) {
+    const rowHeight = 18;
+    const totalWidth = columns.reduce((sum, column) => sum + column.width, 0);
+    const scale = this.contentWidth / totalWidth;
+
+    const drawRow = (cells: string[], bold: boolean, color?: string) => {
+      let x = PAGE_MARGIN;
+      cells.forEach((cell, index) => {
+        const width = columns[index].width * scale;
+        this.write(cell, x + 4, this.y + 5, width - 8, {
+          size: 8.5,
+          bold,
+          color: index === cells.length - 1 && color ? color : COLORS.text,
+        });
+        x += width;
+      });
+      this.y += rowHeight;
+    };
+
+    const drawHeader = () => {
+      this.doc
+        .rect(PAGE_MARGIN, this.y, this.contentWidth, rowHeight)
+        .fill("#E8F6F3");
+      drawRow(
+        columns.map((column) => column.header),
+        true
+      );
+    };
+
+    this.ensureSpace(rowHeight * 2);
+    drawHeader();
+
+    rows.forEach((row, index) => {
+      if (this.y + rowHeight > this.bottom) {
+        this.addPage();
+        drawHeader();
+      }
+      if (index % 2 === 1) {
+        this.doc
+          .rect(PAGE_MARGIN, this.y, this.contentWidth, rowHeight)
+          .fill("#FBFCFC");
+      }
+      drawRow(row.cells, false, row.color);
+    });
+
+    this.y += 16;
+  }
+
+  pageNumbers() {
+    const range = this.doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      this.doc.switchToPage(i);
+      // Writing inside the bottom margin would otherwise trigger a new page
+      this.doc.page.margins.bottom = 0;
+      this.write(
+        `${this.t.page} ${i + 1} / ${range.count}`,
+        PAGE_MARGIN,
+        this.doc.page.height - PAGE_MARGIN + 20,
+        this.contentWidth,
+        { size: 8, color: COLORS.muted, align: "center" }
+      );
+    }
+  }
+}
+
+function adherencePercent(actual: number, goal: number): number {
+  return goal > 0 ? Math.round((actual / goal) * 100) : 0;
+}
+
+export function renderNutritionReport(
+  data: NutritionReportData
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: {
+        Title: LABELS[data.language].title,
+        Author: data.userName,
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    try {
+      const writer = new ReportWriter(doc, data.language);
+      const t = writer.t;
+      const days = data.dailyBreakdown;
+      const loggedDays = days.filter((day) => day.meals_count > 0);
+      const daysWithGoal = loggedDays.filter((day) => day.goal);
+      const daysOnTarget = daysWithGoal.filter((day) => {
+        const percent = adherencePercent(day.calories, day.goal!.calories);
+        return percent >= 90 && percent <= 110;
+      });
+
+      // Page 1 - summary
+      writer.header(data);
+      writer.sectionTitle(t.summary);
+      writer.metricCards([
+        {
+          label: t.calories,
+          value: `${formatNumber(data.averages.calories)} ${t.kcal}`,
+          color: COLORS.calories,
+        },
+        {
+          label: t.protein,
+          value: `${formatNumber(data.averages.protein)} ${t.g}`,
+          color: COLORS.protein,
+        },
+        {
+          label: t.carbs,
+          value: `${formatNumber(data.averages.carbs)} ${t.g}`,
+          color: COLORS.carbs,
+        },
+        {
+          label: t.fats,
+          value: `${formatNumber(data.averages.fats)} ${t.g}`,
+          color: COLORS.fats,
+        },
+        {
+          label: t.fiber,
+          value: `${formatNumber(data.averages.fiber)} ${t.g}`,
+          color: COLORS.good,
+        },
+        {
+          label: t.sugar,
+          value: `${formatNumber(data.averages.sugar)} ${t.g}`,
+          color: COLORS.warning,
+        },
+        {
+          label: t.sodium,
+          value: `${formatNumber(data.averages.sodium)} ${t.mg}`,
+          color: COLORS.muted,
+        },
+        {
+          label: t.fluids,
+          value: `${formatNumber(data.averages.fluids)} ${t.ml}`,
+          color: COLORS.water,
+        },
+      ]);
+
+      writer.sectionTitle(t.progress);
+      writer.metricCards(
+        [
+          {
+            label: t.currentStreak,
+            value: `${data.streaks.currentStreak} ${t.days}`,
+            color: COLORS.warning,
+          },
+          {
+            label: t.bestStreak,
+            value: `${data.streaks.bestStreak} ${t.days}`,
+            color: COLORS.warning,
+          },
+          {
+            label: t.perfectDays,
+            value: `${data.streaks.perfectDays}`,
+            color: COLORS.good,
+          },
+          {
+            label: t.successfulDays,
+            value: `${data.streaks.successfulDays}`,
+            color: COLORS.good,
+          },
+          {
+            label: t.level,
+            value: `${data.streaks.level}`,
+            color: COLORS.primary,
+          },
+          {
+            label: t.totalPoints,
+            value: `${data.streaks.totalPoints}`,
+            color: COLORS.primary,
+          },
+        ],
+        3
+      );
+      writer.metricCards(
+        [
+          {
+            label: t.daysLogged,
+            value: `${loggedDays.length} / ${days.length}`,
+            color: COLORS.protein,
+          },
+          {
+            label: t.daysOnTarget,
+            value: `${daysOnTarget.length} / ${daysWithGoal.length}`,
+            color: COLORS.good,
+          },
+        ],
+        2
+      );
+
+      if (loggedDays.length === 0) {
+        writer.note(t.noData);
+      }
+
+      // Page 2 - trends
+      const labels = days.map((day) => shortDate(day.date));
+      writer.addPage();
+      writer.sectionTitle(t.calorieTrend);
+      writer.barChart(
+        days.map((day) => ({
+          label: shortDate(day.date),
+          value: day.calories,
+          goal: day.goal?.calories,
+        })),
+        COLORS.calories,
+        t.kcal
+      );
+      writer.legend([
+        { name: t.calories, color: COLORS.calories },
+        { name: t.goal, color: COLORS.goal },
+      ]);
+
+      writer.sectionTitle(t.macroTrend);
+      writer.lineChart(
+        labels,
+        [
+          {
+            name: t.protein,
+            values: days.map((day) => day.protein_g),
+            color: COLORS.protein,
+          },
+          {
+            name: t.carbs,
+            values: days.map((day) => day.carbs_g),
+            color: COLORS.carbs,
+          },
+          {
+            name: t.fats,
+            values: days.map((day) => day.fats_g),
+            color: COLORS.fats,
+          },
+        ],
+        t.g
+      );
+
+      // Page 3 - goal adherence by day
+      writer.addPage();
+      writer.sectionTitle(t.adherence);
+      writer.table(
+        [
+          { header: t.date, width: 70 },
+          { header: t.meals, width: 45 },
+          { header: t.calories, width: 65 },
+          { header: t.goal, width: 60 },
+          { header: t.protein, width: 65 },
+          { header: t.carbs, width: 65 },
+          { header: t.fats, width: 60 },
+          { header: t.water, width: 60 },
+          { header: "%", width: 45 },
+        ],
+        days.map((day) => {
+          const percent = day.goal
+            ? adherencePercent(day.calories, day.goal.calories)
+            : null;
+          const color =
+            percent === null || day.meals_count === 0
+              ? COLORS.muted
+              : percent >= 90 && percent <= 110
+              ? COLORS.good
+              : COLORS.warning;
+
+          return {
+            cells: [
+              day.date,
+              `${day.meals_count}`,
+              formatNumber(day.calories),
+              day.goal ? formatNumber(day.goal.calories) : "-",
+              day.goal
+                ? `${formatNumber(day.protein_g)}/${formatNumber(
+                    day.goal.protein_g
+                  )}`
+                : formatNumber(day.protein_g),
+              day.goal
+                ? `${formatNumber(day.carbs_g)}/${formatNumber(
+                    day.goal.carbs_g
+                  )}`
+                : formatNumber(day.carbs_g),
+              day.goal
+                ? `${formatNumber(day.fats_g)}/${formatNumber(day.goal.fats_g)}`
+                : formatNumber(day.fats_g),
+              formatNumber(day.liquids_ml),
+              percent === null ? "-" : `${percent}%`,
+            ],
+            color,
+          };
+        })
+      );
+
+      // Page 4 - water, achievements and top foods
+      writer.addPage();
+      writer.sectionTitle(t.waterIntake);
+      writer.barChart(
+        days.map((day) => ({
+          label: shortDate(day.date),
+          value: day.liquids_ml,
+          goal: day.goal?.water_ml,
+        })),
+        COLORS.water,
+        t.ml
+      );
+
+      writer.sectionTitle(t.achievements);
+      const unlocked = data.achievements.filter(
+        (achievement) => achievement.unlocked
+      );
+      const inProgress = data.achievements
+        .filter(
+          (achievement) => !achievement.unlocked && achievement.progress > 0
+        )
+        .sort((a, b) => b.progress / b.maxProgress - a.progress / a.maxProgress)
+        .slice(0, 5);
+
+      if (unlocked.length === 0 && inProgress.length === 0) {
+        writer.note(t.noAchievements);
+      } else {
+        writer.table(
+          [
+            { header: t.achievements, width: 260 },
+            { header: t.unlockedOn, width: 120 },
+          ],
+          [
+            ...unlocked.map((achievement) => ({
+              cells: [
+                achievement.title,
+                achievement.unlockedDate
+                  ? achievement.unlockedDate.split("T")[0]
+                  : "-",
+              ],
+              color: COLORS.good,
+            })),
+            ...inProgress.map((achievement) => ({
+              cells: [
+                achievement.title,
+                `${t.inProgress} ${achievement.progress}/${achievement.maxProgress}`,
+              ],
+              color: COLORS.muted,
+            })),
+          ]
+        );
+      }
+
+      writer.sectionTitle(t.topFoods);
+      if (data.topFoods.length === 0) {
+        writer.note(t.noData);
+      } else {
+        writer.table(
+          [
+            { header: t.food, width: 220 },
+            { header: t.timesLogged, width: 80 },
+            { header: t.avgCalories, width: 80 },
+            { header: t.totalCalories, width: 80 },
+          ],
+          data.topFoods.map((food) => ({
+            cells: [
+              food.name,
+              `${food.times_logged}`,
+              formatNumber(food.average_calories),
+              formatNumber(food.total_calories),
+            ],
+          }))
+        );
+      }
+
+      writer.pageNumbers();
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/** True when a font with Hebrew glyphs is available for RTL reports. */
+export function hasHebrewReportFont(): boolean {
+  return Boolean(resolveFont(process.env.REPORT_FONT_PATH, FONT_CANDIDATES));
+}
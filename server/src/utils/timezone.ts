@@ -0,0 +1,111 @@
+export const DEFAULT_TIMEZONE =
+  process.env.DEFAULT_TIMEZONE || "Asia/Jerusalem";
+
+export function isValidTimezone(timezone: unknown): timezone is string {
+  if (typeof timezone !== "string" || !timezone.trim()) return false;
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function resolveTimezone(...candidates: unknown[]): string {
+  return candidates.find(isValidTimezone) || DEFAULT_TIMEZONE;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Calendar arithmetic on YYYY-MM-DD dates, done in UTC so DST never shifts a day
+export function shiftDate(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00.000Z`) + days * DAY_MS)
+    .toISOString()
+    .split("T")[0];
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (Date.parse(`${to}T00:00:00.000Z`) - Date.parse(`${from}T00:00:00.000Z`)) /
+      DAY_MS
+  );
+}
+
+function getLocalParts(date: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(date);
+
+  const value = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: value("year"),
+    month: value("month"),
+    day: value("day"),
+    hour: value("hour"),
+    minute: value("minute"),
+    second: value("second"),
+  };
+}
+
+// Milliseconds the timezone is ahead of UTC at the given instant
+function getTimezoneOffsetMs(date: Date, timezone: string) {
+  const local = getLocalParts(date, timezone);
+  const localAsUtc = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+    local.second
+  );
+  return localAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of the instant as seen in the given timezone.
+ */
+export function getLocalDateString(date: Date, timezone: string): string {
+  const { year, month, day } = getLocalParts(date, timezone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(
+    2,
+    "0"
+  )}`;
+}
+
+/**
+ * The UTC instant of the first local midnight after the given date.
+ */
+export function getNextLocalMidnight(date: Date, timezone: string): Date {
+  const { year, month, day } = getLocalParts(date, timezone);
+  const midnightAsUtc = Date.UTC(year, month - 1, day + 1);
+
+  // Correct twice so a DST change between now and midnight is accounted for
+  let result = midnightAsUtc - getTimezoneOffsetMs(date, timezone);
+  result = midnightAsUtc - getTimezoneOffsetMs(new Date(result), timezone);
+
+  return new Date(result);
+}
+
+/**
+ * The UTC instant a calendar date (YYYY-MM-DD) starts in the given timezone.
+ */
+export function getLocalDayStart(date: string, timezone: string): Date {
+  const midnightAsUtc = Date.parse(`${date}T00:00:00.000Z`);
+
+  // Correct twice, like getNextLocalMidnight, for days that start in DST
+  let result =
+    midnightAsUtc - getTimezoneOffsetMs(new Date(midnightAsUtc), timezone);
+  result = midnightAsUtc - getTimezoneOffsetMs(new Date(result), timezone);
+
+  return new Date(result);
+}